@@ -1,6 +1,7 @@
 import { render, screen, fireEvent } from '@testing-library/react';
 import { describe, it, expect, beforeEach } from 'vitest';
 import App from './App';
+import { useWizardStore } from '@/stores/wizardStore';
 
 describe('App', () => {
   beforeEach(() => {
@@ -45,4 +46,28 @@ describe('App', () => {
     // Should be back on welcome page
     expect(screen.getByRole('button', { name: 'Get Started' })).toBeInTheDocument();
   });
+
+  it('opens the calculator directly from a share link', () => {
+    render(
+      <App
+        shareLink={{
+          status: 'ok',
+          snapshot: {
+            mode: 'basic',
+            inputs: useWizardStore.getState().inputs,
+          },
+        }}
+      />
+    );
+    expect(screen.getByLabelText('Calculator mode')).toBeInTheDocument();
+    expect(screen.queryByText('Shared link not loaded')).not.toBeInTheDocument();
+  });
+
+  it('shows a notice when a share link could not be loaded', () => {
+    render(<App shareLink={{ status: 'error', reason: 'unsupported-version' }} />);
+    expect(screen.getByRole('alert')).toHaveTextContent('Shared link not loaded');
+
+    fireEvent.click(screen.getByRole('button', { name: 'Dismiss notice' }));
+    expect(screen.queryByRole('alert')).not.toBeInTheDocument();
+  });
 });
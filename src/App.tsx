@@ -3,19 +3,30 @@
  *
  * Root component handling page routing between Welcome and Calculator pages.
  * Uses simple state-based routing (no react-router needed for 2 pages).
+ *
+ * Opening a share link skips the Welcome page. The link itself is decoded
+ * and applied to the store in main.tsx, before the first render.
  */
 
 import { useState } from 'react';
 import { WelcomePage } from '@/pages/WelcomePage';
 import { CalculatorPage } from '@/pages/CalculatorPage';
+import type { ShareLinkResult } from '@/lib/share-link';
 
 /**
  * Page identifiers for routing
  */
 type Page = 'welcome' | 'calculator';
 
-function App() {
-  const [currentPage, setCurrentPage] = useState<Page>('welcome');
+interface AppProps {
+  /** Outcome of the share link in the URL, if the page was opened from one */
+  shareLink?: ShareLinkResult | null;
+}
+
+function App({ shareLink = null }: AppProps) {
+  const [currentPage, setCurrentPage] = useState<Page>(
+    shareLink ? 'calculator' : 'welcome'
+  );
 
   return (
     <>
@@ -23,7 +34,10 @@ function App() {
         <WelcomePage onGetStarted={() => setCurrentPage('calculator')} />
       )}
       {currentPage === 'calculator' && (
-        <CalculatorPage onBack={() => setCurrentPage('welcome')} />
+        <CalculatorPage
+          onBack={() => setCurrentPage('welcome')}
+          shareLinkError={shareLink?.status === 'error' ? shareLink.reason : undefined}
+        />
       )}
     </>
   );
@@ -0,0 +1,95 @@
+/**
+ * Design Heatmap Component
+ *
+ * Net value of testing across traffic split (columns) × test duration
+ * (rows), from the joint split/duration sweep. Rendered as a table so every
+ * cell is readable by screen readers; color shows the value:
+ * - Purple, darker for higher net value (relative to the best cell)
+ * - Neutral for zero or negative net value
+ * The best cell is outlined.
+ */
+
+import type { CSSProperties } from 'react';
+import { formatSmartCurrency } from '@/lib/formatting';
+import type { DesignGridCell, DesignGridResults } from '@/lib/split-optimizer';
+import { cn } from '@/lib/utils';
+
+interface DesignHeatmapProps {
+  /** Grid results from the split × duration sweep */
+  grid: DesignGridResults;
+}
+
+/**
+ * Background for a cell: purple with opacity proportional to value / best
+ */
+function cellStyle(cell: DesignGridCell, best: number): CSSProperties | undefined {
+  if (best <= 0 || cell.netValueDollars <= 0) {
+    return undefined;
+  }
+  // Floor at 0.08 so small positive values are still visibly tinted
+  const alpha = 0.08 + 0.82 * Math.min(1, cell.netValueDollars / best);
+  return { backgroundColor: `rgba(124, 58, 237, ${alpha.toFixed(2)})` };
+}
+
+export function DesignHeatmap({ grid }: DesignHeatmapProps) {
+  const { splits, durations, cells, best } = grid;
+  const bestValue = best.netValueDollars;
+
+  return (
+    <div className="overflow-x-auto">
+      <table className="w-full border-separate border-spacing-0.5 text-[10px] tabular-nums">
+        <caption className="sr-only">
+          Net value of testing by traffic split (columns) and test duration (rows)
+        </caption>
+        <thead>
+          <tr>
+            <th scope="col" className="px-1 text-left font-medium text-muted-foreground">
+              Days
+            </th>
+            {splits.map((split) => (
+              <th key={split} scope="col" className="px-1 font-medium text-muted-foreground">
+                {Math.round(split * 100)}%
+              </th>
+            ))}
+          </tr>
+        </thead>
+        <tbody>
+          {durations.map((days, row) => (
+            <tr key={days}>
+              <th scope="row" className="px-1 text-left font-medium text-muted-foreground">
+                {days}
+              </th>
+              {splits.map((split, col) => {
+                const cell = cells[row * splits.length + col];
+                const isBest =
+                  cell.trafficSplit === best.trafficSplit &&
+                  cell.testDurationDays === best.testDurationDays;
+                // Text over the darkest cells needs to be light
+                const dark = bestValue > 0 && cell.netValueDollars / bestValue > 0.6;
+                return (
+                  <td
+                    key={split}
+                    title={`${Math.round(split * 100)}% for ${days} days: ${formatSmartCurrency(cell.netValueDollars)}`}
+                    style={cellStyle(cell, bestValue)}
+                    className={cn(
+                      'h-6 min-w-9 rounded-sm px-0.5 text-center',
+                      dark ? 'text-white' : 'text-foreground',
+                      cell.netValueDollars <= 0 && 'bg-muted/60 text-muted-foreground',
+                      isBest && 'ring-2 ring-foreground ring-inset font-semibold'
+                    )}
+                  >
+                    {formatSmartCurrency(cell.netValueDollars)}
+                  </td>
+                );
+              })}
+            </tr>
+          ))}
+        </tbody>
+      </table>
+      <p className="mt-1 text-[10px] text-muted-foreground">
+        Columns: share of traffic to the variant. Darker is higher net value; the outlined cell
+        is the best.
+      </p>
+    </div>
+  );
+}
@@ -0,0 +1,101 @@
+/**
+ * Duration Chart Component
+ *
+ * Line chart of net value of testing against test duration, from the
+ * duration optimizer. Marks the best duration with a dot and the currently
+ * entered duration with a dashed line.
+ */
+
+import {
+  LineChart,
+  Line,
+  XAxis,
+  YAxis,
+  ReferenceDot,
+  ReferenceLine,
+  ResponsiveContainer,
+  Tooltip,
+} from 'recharts';
+import { formatSmartCurrency } from '@/lib/formatting';
+import type { DurationPoint } from '@/lib/duration-optimizer';
+
+interface DurationChartProps {
+  /** Net value per duration */
+  points: DurationPoint[];
+  /** Duration with the highest net value */
+  bestDays: number;
+  /** Net value at bestDays */
+  bestNetValueDollars: number;
+  /** Duration currently entered in the form, if any */
+  currentDays?: number | null;
+}
+
+interface DurationTooltipProps {
+  active?: boolean;
+  payload?: Array<{ payload: DurationPoint }>;
+}
+
+function DurationTooltip({ active, payload }: DurationTooltipProps) {
+  if (!active || !payload?.length) return null;
+
+  const { days, netValueDollars } = payload[0].payload;
+
+  return (
+    <div className="bg-card border border-border rounded-lg px-3 py-2 shadow-lg">
+      <p className="text-sm font-medium text-foreground">{days} days</p>
+      <p className="text-xs text-muted-foreground">
+        Net value {formatSmartCurrency(netValueDollars)}
+      </p>
+    </div>
+  );
+}
+
+export function DurationChart({
+  points,
+  bestDays,
+  bestNetValueDollars,
+  currentDays,
+}: DurationChartProps) {
+  return (
+    <ResponsiveContainer width="100%" height={220}>
+      <LineChart data={points} margin={{ top: 16, right: 16, bottom: 0, left: 8 }}>
+        <XAxis
+          dataKey="days"
+          type="number"
+          domain={['dataMin', 'dataMax']}
+          tickFormatter={(days: number) => `${days}d`}
+          stroke="#6B7280" // text-muted-foreground
+          fontSize={12}
+          tickLine={false}
+          axisLine={{ stroke: '#E5E7EB' }}
+        />
+        <YAxis
+          tickFormatter={formatSmartCurrency}
+          stroke="#6B7280"
+          fontSize={12}
+          tickLine={false}
+          axisLine={false}
+          width={64}
+        />
+        <Tooltip content={<DurationTooltip />} />
+        {currentDays != null && (
+          <ReferenceLine
+            x={currentDays}
+            stroke="#6B7280"
+            strokeDasharray="5 5"
+            label={{ value: 'Current', position: 'top', fontSize: 11, fill: '#6B7280' }}
+          />
+        )}
+        <Line
+          type="monotone"
+          dataKey="netValueDollars"
+          stroke="#7C3AED"
+          strokeWidth={2}
+          dot={false}
+          isAnimationActive={false}
+        />
+        <ReferenceDot x={bestDays} y={bestNetValueDollars} r={5} fill="#7C3AED" stroke="white" />
+      </LineChart>
+    </ResponsiveContainer>
+  );
+}
@@ -0,0 +1,97 @@
+/**
+ * Empirical Prior Chart Component
+ *
+ * Histogram of past experiments' observed lifts under two curves: the prior
+ * fitted to them (purple) and the spread of observed lifts that prior
+ * predicts once each experiment's sampling noise is added (dashed grey).
+ * The dashed curve should follow the histogram; the prior is narrower.
+ */
+
+import { useMemo } from 'react';
+import {
+  LineChart,
+  Line,
+  XAxis,
+  YAxis,
+  ReferenceArea,
+  ResponsiveContainer,
+  Legend,
+} from 'recharts';
+import {
+  generateEmpiricalPriorChartData,
+  type EmpiricalPriorFit,
+  type PastExperiment,
+} from '@/lib/empirical-prior';
+import { formatLiftPercent } from '@/lib/formatting';
+
+interface EmpiricalPriorChartProps {
+  /** Experiments the prior was fitted to */
+  experiments: PastExperiment[];
+  /** Their fit */
+  fit: EmpiricalPriorFit;
+}
+
+export function EmpiricalPriorChart({ experiments, fit }: EmpiricalPriorChartProps) {
+  // Lifts in percent for the axis; the densities share one (hidden) scale
+  const { bins, curve } = useMemo(() => {
+    const data = generateEmpiricalPriorChartData(experiments, fit);
+    return {
+      bins: data.bins.map((bin) => ({ ...bin, low: bin.low * 100, high: bin.high * 100 })),
+      curve: data.curve.map((point) => ({ ...point, liftPercent: point.lift * 100 })),
+    };
+  }, [experiments, fit]);
+
+  return (
+    <ResponsiveContainer width="100%" height={220}>
+      <LineChart data={curve} margin={{ top: 20, right: 20, bottom: 20, left: 20 }}>
+        {/* Observed lifts, one bar per bin */}
+        {bins.map((bin) => (
+          <ReferenceArea
+            key={bin.low}
+            x1={bin.low}
+            x2={bin.high}
+            y1={0}
+            y2={bin.density}
+            fill="#9CA3AF"
+            fillOpacity={0.35}
+            stroke="#FFFFFF"
+            ifOverflow="extendDomain"
+          />
+        ))}
+
+        <XAxis
+          dataKey="liftPercent"
+          type="number"
+          domain={['dataMin', 'dataMax']}
+          tickFormatter={formatLiftPercent}
+          stroke="#6B7280" // text-muted-foreground
+          fontSize={12}
+          tickLine={false}
+          axisLine={{ stroke: '#E5E7EB' }}
+        />
+        <YAxis hide domain={[0, 'auto']} />
+
+        <Line
+          type="monotone"
+          dataKey="predictedDensity"
+          name="Prior plus noise"
+          stroke="#6B7280"
+          strokeWidth={2}
+          strokeDasharray="5 5"
+          dot={false}
+          isAnimationActive={false}
+        />
+        <Line
+          type="monotone"
+          dataKey="priorDensity"
+          name="Fitted prior"
+          stroke="#7C3AED"
+          strokeWidth={2}
+          dot={false}
+          isAnimationActive={false}
+        />
+        <Legend wrapperStyle={{ fontSize: 12 }} />
+      </LineChart>
+    </ResponsiveContainer>
+  );
+}
@@ -8,6 +8,10 @@
  * - Normal (default for Basic mode and Advanced mode default)
  * - Student-t (Advanced mode option with heavier tails)
  * - Uniform (Advanced mode option with bounded flat distribution)
+ * - Spike-and-slab mixture (slab curve plus a marker per point mass)
+ *
+ * When the prior was fitted to elicited quantiles, the points are drawn on
+ * the curve (labelled with their chance of being below) to show the fit.
  *
  * Design requirements (per 04-CONTEXT.md):
  * - Datadog-style gradient fill under the curve
@@ -34,10 +38,12 @@ import {
 } from 'recharts';
 import {
   generateDistributionData,
+  generatePointMassData,
   getDensityAtLiftForPrior,
 } from '@/lib/calculations/chart-data';
-import { getPriorMean, type PriorDistribution } from '@/lib/calculations';
+import { getPriorMean, quantile, type PriorDistribution } from '@/lib/calculations';
 import { formatLiftPercent } from '@/lib/formatting';
+import type { PriorQuantile } from '@/types/wizard';
 import { ChartTooltip } from './ChartTooltip';
 
 /**
@@ -60,6 +66,8 @@ interface PriorDistributionChartProps {
   threshold_L: number;
   /** Dollars per unit lift: K = N_year * CR0 * V */
   K: number;
+  /** Quantiles the prior was fitted to, drawn on the curve */
+  elicitedPoints?: PriorQuantile[];
 }
 
 /**
@@ -81,6 +89,9 @@ function getThresholdLabel(thresholdPercent: number): string {
  *
  * For Normal/Student-t: mu +/- Z_95 * sigma (approximate for t)
  * For Uniform: exact bounds [low, high] represent 100%, show full range
+ * For mixtures: the 5th and 95th percentiles (the spike's mass included)
+ * For log-normal and skew-normal: the 5th and 95th percentiles, which are
+ * the entered interval
  */
 function getIntervalBounds(prior: PriorDistribution): {
   low: number;
@@ -92,6 +103,10 @@ function getIntervalBounds(prior: PriorDistribution): {
     return { low: prior.low_L!, high: prior.high_L! };
   }
 
+  if (prior.type === 'mixture' || prior.type === 'log-normal' || prior.type === 'skew-normal') {
+    return { low: quantile(0.05, prior), high: quantile(0.95, prior) };
+  }
+
   // Normal and Student-t: use z-score approximation
   // (This is exact for Normal, approximate for Student-t)
   const mu_L = prior.mu_L!;
@@ -110,6 +125,8 @@ function getIntervalBounds(prior: PriorDistribution): {
  * - 90% credible interval shading (purple)
  * - Threshold line (dashed with label)
  * - Mean marker (purple dot)
+ * - Point masses of a mixture (solid vertical lines labelled with their probability)
+ * - Elicited quantiles, if any (amber dots labelled with their chance)
  * - Interactive tooltip with lift and dollar values
  *
  * Per 04-RESEARCH.md pitfall #1: Uses useMemo to prevent regenerating
@@ -119,6 +136,7 @@ export function PriorDistributionChart({
   prior,
   threshold_L,
   K,
+  elicitedPoints,
 }: PriorDistributionChartProps) {
   // Memoize chart data to prevent regeneration on every render
   // Dependency includes full prior object to update when shape or params change
@@ -127,6 +145,8 @@ export function PriorDistributionChart({
     [prior]
   );
 
+  const pointMasses = useMemo(() => generatePointMassData(prior), [prior]);
+
   // Calculate interval bounds based on distribution type
   const intervalBounds = useMemo(() => getIntervalBounds(prior), [prior]);
 
@@ -185,6 +205,22 @@ export function PriorDistributionChart({
           }}
         />
 
+        {/* Point masses (mixture spikes) - no density to draw, so a full-height line */}
+        {pointMasses.map((point) => (
+          <ReferenceLine
+            key={point.liftPercent}
+            x={point.liftPercent}
+            stroke="#7C3AED"
+            strokeWidth={3}
+            label={{
+              value: `${Math.round(point.probability * 100)}% exactly ${formatLiftPercent(point.liftPercent)}`,
+              position: 'insideTopRight',
+              fontSize: 11,
+              fill: '#7C3AED',
+            }}
+          />
+        ))}
+
         {/* X-axis: Lift percentage */}
         {/* Uses data bounds to ensure curve fills the chart area */}
         <XAxis
@@ -227,6 +263,26 @@ export function PriorDistributionChart({
           stroke="#FFFFFF"
           strokeWidth={2}
         />
+
+        {/* Elicited quantiles - on the curve at each lift the user gave */}
+        {elicitedPoints?.map((point) => (
+          <ReferenceDot
+            key={`${point.probability}-${point.liftPercent}`}
+            x={point.liftPercent}
+            y={getDensityAtLiftForPrior(point.liftPercent / 100, prior)}
+            r={4}
+            fill="#D97706"
+            stroke="#FFFFFF"
+            strokeWidth={1.5}
+            ifOverflow="extendDomain"
+            label={{
+              value: `${Math.round(point.probability * 1000) / 10}%`,
+              position: 'top',
+              fontSize: 10,
+              fill: '#D97706',
+            }}
+          />
+        ))}
       </AreaChart>
     </ResponsiveContainer>
   );
@@ -247,6 +303,8 @@ interface LegacyPriorDistributionChartProps {
   threshold_L: number;
   /** Dollars per unit lift: K = N_year * CR0 * V */
   K: number;
+  /** Quantiles the prior was fitted to, drawn on the curve */
+  elicitedPoints?: PriorQuantile[];
 }
 
 /**
@@ -260,6 +318,7 @@ export function PriorDistributionChartLegacy({
   sigma_L,
   threshold_L,
   K,
+  elicitedPoints,
 }: LegacyPriorDistributionChartProps) {
   const prior: PriorDistribution = useMemo(
     () => ({
@@ -270,5 +329,12 @@ export function PriorDistributionChartLegacy({
     [mu_L, sigma_L]
   );
 
-  return <PriorDistributionChart prior={prior} threshold_L={threshold_L} K={K} />;
+  return (
+    <PriorDistributionChart
+      prior={prior}
+      threshold_L={threshold_L}
+      K={K}
+      elicitedPoints={elicitedPoints}
+    />
+  );
 }
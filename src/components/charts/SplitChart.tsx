@@ -0,0 +1,108 @@
+/**
+ * Split Chart Component
+ *
+ * Line chart of net value of testing against traffic split (variant share),
+ * from the split optimizer. Marks the best split with a dot and the
+ * currently entered split with a dashed line.
+ */
+
+import {
+  LineChart,
+  Line,
+  XAxis,
+  YAxis,
+  ReferenceDot,
+  ReferenceLine,
+  ResponsiveContainer,
+  Tooltip,
+} from 'recharts';
+import { formatSmartCurrency } from '@/lib/formatting';
+import type { SplitPoint } from '@/lib/split-optimizer';
+
+interface SplitChartProps {
+  /** Net value per split */
+  points: SplitPoint[];
+  /** Split with the highest net value (decimal) */
+  bestSplit: number;
+  /** Net value at bestSplit */
+  bestNetValueDollars: number;
+  /** Split currently entered in the form (decimal), if any */
+  currentSplit?: number | null;
+}
+
+interface SplitTooltipProps {
+  active?: boolean;
+  payload?: Array<{ payload: SplitPoint }>;
+}
+
+/**
+ * Variant share as a whole percent (e.g., 0.35 -> "35%")
+ */
+function formatSplit(split: number): string {
+  return `${Math.round(split * 100)}%`;
+}
+
+function SplitTooltip({ active, payload }: SplitTooltipProps) {
+  if (!active || !payload?.length) return null;
+
+  const { trafficSplit, netValueDollars } = payload[0].payload;
+
+  return (
+    <div className="bg-card border border-border rounded-lg px-3 py-2 shadow-lg">
+      <p className="text-sm font-medium text-foreground">{formatSplit(trafficSplit)} to variant</p>
+      <p className="text-xs text-muted-foreground">
+        Net value {formatSmartCurrency(netValueDollars)}
+      </p>
+    </div>
+  );
+}
+
+export function SplitChart({
+  points,
+  bestSplit,
+  bestNetValueDollars,
+  currentSplit,
+}: SplitChartProps) {
+  return (
+    <ResponsiveContainer width="100%" height={220}>
+      <LineChart data={points} margin={{ top: 16, right: 16, bottom: 0, left: 8 }}>
+        <XAxis
+          dataKey="trafficSplit"
+          type="number"
+          domain={['dataMin', 'dataMax']}
+          tickFormatter={formatSplit}
+          stroke="#6B7280" // text-muted-foreground
+          fontSize={12}
+          tickLine={false}
+          axisLine={{ stroke: '#E5E7EB' }}
+        />
+        <YAxis
+          tickFormatter={formatSmartCurrency}
+          stroke="#6B7280"
+          fontSize={12}
+          tickLine={false}
+          axisLine={false}
+          width={64}
+        />
+        <Tooltip content={<SplitTooltip />} />
+        {currentSplit != null && (
+          <ReferenceLine
+            x={currentSplit}
+            stroke="#6B7280"
+            strokeDasharray="5 5"
+            label={{ value: 'Current', position: 'top', fontSize: 11, fill: '#6B7280' }}
+          />
+        )}
+        <Line
+          type="monotone"
+          dataKey="netValueDollars"
+          stroke="#7C3AED"
+          strokeWidth={2}
+          dot={false}
+          isAnimationActive={false}
+        />
+        <ReferenceDot x={bestSplit} y={bestNetValueDollars} r={5} fill="#7C3AED" stroke="white" />
+      </LineChart>
+    </ResponsiveContainer>
+  );
+}
@@ -0,0 +1,126 @@
+/**
+ * Tornado Chart Component
+ *
+ * Horizontal bar chart ranking inputs by how much they move the headline
+ * number. Each row has two bars, measured from the current headline (x = 0):
+ * one for the input at the low end of its range and one at the high end.
+ * Rows come in the order given (largest swing first), so the widest bars
+ * sit at the top.
+ */
+
+import { useMemo } from 'react';
+import {
+  BarChart,
+  Bar,
+  XAxis,
+  YAxis,
+  ReferenceLine,
+  ResponsiveContainer,
+  Tooltip,
+  Legend,
+} from 'recharts';
+import { formatSmartCurrency } from '@/lib/formatting';
+import type { SensitivityBar } from '@/lib/sensitivity';
+
+/** Height per input row, in pixels */
+const ROW_HEIGHT = 40;
+
+/** Room for the axis and legend */
+const CHART_PADDING = 64;
+
+interface TornadoChartProps {
+  /** Ranked bars from the sensitivity analysis */
+  bars: SensitivityBar[];
+  /** Headline dollars at the current inputs */
+  baseValue: number;
+  /** Format an input value for the tooltip (units vary by input) */
+  formatInput: (bar: SensitivityBar, value: number) => string;
+}
+
+interface TornadoDatum {
+  label: string;
+  /** Change from baseValue with the input lowered */
+  low: number;
+  /** Change from baseValue with the input raised */
+  high: number;
+  bar: SensitivityBar;
+}
+
+interface TornadoTooltipProps {
+  active?: boolean;
+  payload?: Array<{ payload: TornadoDatum }>;
+  formatInput: TornadoChartProps['formatInput'];
+}
+
+/**
+ * Signed dollar change (e.g., "+$12.7K", "-$450")
+ */
+function formatChange(value: number): string {
+  return `${value > 0 ? '+' : ''}${formatSmartCurrency(value)}`;
+}
+
+/**
+ * Tooltip showing both ends of the input's range and the resulting headline
+ */
+function TornadoTooltip({ active, payload, formatInput }: TornadoTooltipProps) {
+  if (!active || !payload?.length) return null;
+
+  const { bar } = payload[0].payload;
+
+  return (
+    <div className="bg-card border border-border rounded-lg px-3 py-2 shadow-lg space-y-1">
+      <p className="text-sm font-medium text-foreground">{bar.label}</p>
+      <p className="text-xs text-muted-foreground">
+        At {formatInput(bar, bar.lowInput)}: {formatSmartCurrency(bar.lowValue)}
+      </p>
+      <p className="text-xs text-muted-foreground">
+        At {formatInput(bar, bar.highInput)}: {formatSmartCurrency(bar.highValue)}
+      </p>
+    </div>
+  );
+}
+
+export function TornadoChart({ bars, baseValue, formatInput }: TornadoChartProps) {
+  const data = useMemo(
+    (): TornadoDatum[] =>
+      bars.map((bar) => ({
+        label: bar.label,
+        low: bar.lowValue - baseValue,
+        high: bar.highValue - baseValue,
+        bar,
+      })),
+    [bars, baseValue]
+  );
+
+  return (
+    <ResponsiveContainer width="100%" height={bars.length * ROW_HEIGHT + CHART_PADDING}>
+      <BarChart data={data} layout="vertical" margin={{ top: 8, right: 16, bottom: 0, left: 8 }}>
+        <XAxis
+          type="number"
+          tickFormatter={formatChange}
+          stroke="#6B7280" // text-muted-foreground
+          fontSize={12}
+          tickLine={false}
+          axisLine={{ stroke: '#E5E7EB' }}
+        />
+        <YAxis
+          type="category"
+          dataKey="label"
+          width={150}
+          stroke="#6B7280"
+          fontSize={12}
+          tickLine={false}
+          axisLine={false}
+        />
+        <ReferenceLine x={0} stroke="#6B7280" />
+        <Tooltip
+          content={<TornadoTooltip formatInput={formatInput} />}
+          cursor={{ fill: '#F3F4F6' }}
+        />
+        <Legend wrapperStyle={{ fontSize: 12 }} />
+        <Bar dataKey="low" name="Input lowered" fill="#94A3B8" />
+        <Bar dataKey="high" name="Input raised" fill="#7C3AED" />
+      </BarChart>
+    </ResponsiveContainer>
+  );
+}
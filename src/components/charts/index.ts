@@ -9,3 +9,8 @@ export {
   PriorDistributionChartLegacy,
 } from './PriorDistributionChart';
 export { ChartTooltip } from './ChartTooltip';
+export { TornadoChart } from './TornadoChart';
+export { DurationChart } from './DurationChart';
+export { SplitChart } from './SplitChart';
+export { DesignHeatmap } from './DesignHeatmap';
+export { EmpiricalPriorChart } from './EmpiricalPriorChart';
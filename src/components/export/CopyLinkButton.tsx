@@ -0,0 +1,70 @@
+/**
+ * CopyLinkButton - Copies a share link for the current analysis
+ *
+ * Encodes the wizard's mode and inputs into the URL hash (see share-link.ts)
+ * and copies the result to the clipboard. Anyone opening the link lands on
+ * the calculator with the same inputs.
+ *
+ * Sits next to ExportButton in the "Share your analysis" card.
+ */
+
+import { useEffect, useState } from 'react';
+import { Check, Link } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { useWizardStore } from '@/stores/wizardStore';
+import { buildShareUrl } from '@/lib/share-link';
+
+/** How long the "Copied" confirmation stays visible */
+const COPIED_RESET_MS = 2000;
+
+export function CopyLinkButton() {
+  const mode = useWizardStore((state) => state.mode);
+  const inputs = useWizardStore((state) => state.inputs);
+
+  const [status, setStatus] = useState<'idle' | 'copied' | 'failed'>('idle');
+
+  // Return to idle after the confirmation has been shown
+  // (a failure message stays up so the user can act on it)
+  useEffect(() => {
+    if (status !== 'copied') return;
+    const timeout = setTimeout(() => setStatus('idle'), COPIED_RESET_MS);
+    return () => clearTimeout(timeout);
+  }, [status]);
+
+  const handleCopy = async () => {
+    const url = buildShareUrl({ mode, inputs });
+    try {
+      await navigator.clipboard.writeText(url);
+      setStatus('copied');
+    } catch (error) {
+      // Clipboard can be blocked (permissions, insecure context). Put the
+      // link in the address bar so it can still be copied by hand.
+      console.error('Copy link failed:', error);
+      window.history.replaceState(null, '', url);
+      setStatus('failed');
+    }
+  };
+
+  return (
+    <div className="space-y-1">
+      <Button variant="outline" onClick={handleCopy} className="w-full">
+        {status === 'copied' ? (
+          <>
+            <Check className="size-4" />
+            Link copied
+          </>
+        ) : (
+          <>
+            <Link className="size-4" />
+            Copy link
+          </>
+        )}
+      </Button>
+      {/* Live region so the outcome is announced, not just shown */}
+      <p role="status" aria-live="polite" className="text-xs text-muted-foreground">
+        {status === 'copied' && 'Anyone with this link will see the same inputs.'}
+        {status === 'failed' && "Couldn't copy automatically. Copy the link from your address bar instead."}
+      </p>
+    </div>
+  );
+}
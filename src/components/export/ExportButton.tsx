@@ -19,22 +19,42 @@ import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { ExportCard } from './ExportCard';
 import { useExportPng } from '@/hooks/useExportPng';
-import { computePriorFromInterval, DEFAULT_PRIOR, DEFAULT_INTERVAL } from '@/lib/prior';
+import { DEFAULT_INTERVAL } from '@/lib/prior';
+import {
+  deriveHorizon,
+  deriveNormalPriorParams,
+  deriveTestCostDollars,
+} from '@/lib/derive-inputs';
+import { getPriorMean } from '@/lib/calculations/distributions';
 import type { EVPIResults, PriorDistribution } from '@/lib/calculations/types';
 import type { EVSICalculationResults } from '@/hooks/useEVSICalculations';
+import type { MetricType } from '@/types/wizard';
 
 /**
  * Shared input values needed for display in export card
  */
 interface SharedInputs {
+  /** Metric the test reads out */
+  metricType: MetricType;
   /** Baseline conversion rate as a decimal (e.g., 0.05 for 5%) */
   baselineConversionRate: number | null;
+  /** Baseline mean per visitor (continuous and ratio metrics) */
+  metricMean: number | null;
   /** Annual visitors/traffic */
   annualVisitors: number | null;
   /** User-editable label for visitors (visitors/sessions/leads/etc.) */
   visitorUnitLabel: string;
   /** Revenue or value per conversion in dollars */
   valuePerConversion: number | null;
+  /** Days the decision pays off for */
+  horizonDays: number;
+  /** Annual discount rate as a decimal */
+  annualDiscountRate: number;
+  /** Test cost inputs (all zero: no cost entered) */
+  engineeringHours: number;
+  analystHours: number;
+  hourlyRate: number;
+  toolingCostPerTest: number;
   priorIntervalLow: number | null;
   priorIntervalHigh: number | null;
   thresholdScenario: 'any-positive' | 'minimum-lift' | 'accept-loss' | null;
@@ -63,6 +83,8 @@ interface AdvancedModeProps {
   prior: PriorDistribution;
   /** Test duration in days for CoD explanation */
   testDurationDays?: number;
+  /** Conversion latency in days for the latency cost line */
+  conversionLatencyDays?: number;
 }
 
 type ExportButtonProps = BasicModeProps | AdvancedModeProps;
@@ -87,19 +109,6 @@ export function ExportButton(props: ExportButtonProps) {
   // Export hook
   const { exportRef, exportPng, isExporting } = useExportPng();
 
-  // Derive prior parameters for display and chart
-  const priorDisplay = useMemo(() => {
-    const low = sharedInputs.priorIntervalLow ?? DEFAULT_INTERVAL.low;
-    const high = sharedInputs.priorIntervalHigh ?? DEFAULT_INTERVAL.high;
-    const mean = (low + high) / 2;
-
-    return {
-      meanPercent: mean,
-      lowPercent: low,
-      highPercent: high,
-    };
-  }, [sharedInputs.priorIntervalLow, sharedInputs.priorIntervalHigh]);
-
   // Derive threshold display values
   const thresholdDisplay = useMemo(() => {
     return {
@@ -118,26 +127,27 @@ export function ExportButton(props: ExportButtonProps) {
     }
 
     // Basic mode: construct Normal prior from interval
-    const isDefaultPrior =
-      sharedInputs.priorIntervalLow !== null &&
-      sharedInputs.priorIntervalHigh !== null &&
-      Math.abs(sharedInputs.priorIntervalLow - DEFAULT_INTERVAL.low) < 0.01 &&
-      Math.abs(sharedInputs.priorIntervalHigh - DEFAULT_INTERVAL.high) < 0.01;
+    return {
+      type: 'normal' as const,
+      ...deriveNormalPriorParams({
+        priorIntervalLow: sharedInputs.priorIntervalLow,
+        priorIntervalHigh: sharedInputs.priorIntervalHigh,
+      }),
+    };
+  }, [mode, sharedInputs.priorIntervalLow, sharedInputs.priorIntervalHigh, props]);
 
-    if (
-      isDefaultPrior ||
-      sharedInputs.priorIntervalLow === null ||
-      sharedInputs.priorIntervalHigh === null
-    ) {
-      return { type: 'normal' as const, ...DEFAULT_PRIOR };
-    }
+  // Derive prior parameters for display (the mean is the prior's, which
+  // sits below the interval midpoint when a spike-and-slab has a spike at 0)
+  const priorDisplay = useMemo(() => {
+    const low = sharedInputs.priorIntervalLow ?? DEFAULT_INTERVAL.low;
+    const high = sharedInputs.priorIntervalHigh ?? DEFAULT_INTERVAL.high;
 
-    const { mu_L, sigma_L } = computePriorFromInterval(
-      sharedInputs.priorIntervalLow,
-      sharedInputs.priorIntervalHigh
-    );
-    return { type: 'normal' as const, mu_L, sigma_L };
-  }, [mode, sharedInputs.priorIntervalLow, sharedInputs.priorIntervalHigh, props]);
+    return {
+      meanPercent: getPriorMean(chartPrior) * 100,
+      lowPercent: low,
+      highPercent: high,
+    };
+  }, [sharedInputs.priorIntervalLow, sharedInputs.priorIntervalHigh, chartPrior]);
 
   // Get K and threshold_L for chart
   const chartK = mode === 'basic' ? props.evpiResults.K : props.evsiResults.evsi.evsiDollars > 0
@@ -172,6 +182,12 @@ export function ExportButton(props: ExportButtonProps) {
         return `Student-t (df=${(chartPrior as { df: number }).df})`;
       case 'uniform':
         return 'Uniform';
+      case 'mixture':
+        return `Spike-and-slab (${Math.round(chartPrior.components![0].weight * 100)}% no effect)`;
+      case 'log-normal':
+        return 'Log-normal';
+      case 'skew-normal':
+        return `Skew-normal (α=${chartPrior.alpha})`;
       default:
         return undefined;
     }
@@ -179,6 +195,7 @@ export function ExportButton(props: ExportButtonProps) {
 
   // Get test duration for Advanced mode
   const testDurationDays = mode === 'advanced' ? props.testDurationDays : undefined;
+  const conversionLatencyDays = mode === 'advanced' ? props.conversionLatencyDays : undefined;
 
   // Handle export click
   const handleExport = async () => {
@@ -235,10 +252,14 @@ export function ExportButton(props: ExportButtonProps) {
           mode={mode}
           title={customTitle || 'Should I Test That?'}
           verdictValue={verdictValue}
+          metricType={sharedInputs.metricType}
           baselineConversionRate={sharedInputs.baselineConversionRate ?? 0}
+          metricMean={sharedInputs.metricMean ?? 0}
           annualVisitors={sharedInputs.annualVisitors ?? 0}
           visitorUnitLabel={sharedInputs.visitorUnitLabel}
           valuePerConversion={sharedInputs.valuePerConversion ?? 0}
+          horizon={deriveHorizon(sharedInputs)}
+          testCostDollars={deriveTestCostDollars(sharedInputs)}
           prior={priorDisplay}
           threshold={{
             ...thresholdDisplay,
@@ -252,6 +273,12 @@ export function ExportButton(props: ExportButtonProps) {
           cod={mode === 'advanced' ? props.evsiResults.cod.codDollars : undefined}
           netValue={mode === 'advanced' ? props.evsiResults.netValueDollars : undefined}
           testDurationDays={testDurationDays}
+          conversionLatencyDays={conversionLatencyDays}
+          conversionLatencyCost={
+            mode === 'advanced'
+              ? props.evsiResults.netValue.conversionLatencyCostDollars
+              : undefined
+          }
         />
       </div>
     </div>
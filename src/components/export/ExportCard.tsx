@@ -9,6 +9,8 @@
  * - EXPORT-02: Contains verdict, key inputs summary
  * - EXPORT-03: Contains mini distribution chart
  * - EXPORT-04: User can add custom title
+ * - The decision horizon behind the verdict value
+ * - Run / don't run verdict and ROI when a test cost was entered
  *
  * Design per 06-CONTEXT.md:
  * - Uses existing design tokens for consistency
@@ -22,10 +24,14 @@
 import { forwardRef } from 'react';
 import { PriorDistributionChart } from '@/components/charts/PriorDistributionChart';
 import {
+  formatHorizon,
+  formatNumber,
   formatSmartCurrency,
   formatPercentage,
 } from '@/lib/formatting';
-import type { PriorDistribution } from '@/lib/calculations';
+import { calculateTestRoi, describeTestRoi } from '@/lib/test-roi';
+import type { DecisionHorizon, PriorDistribution } from '@/lib/calculations';
+import type { MetricType } from '@/types/wizard';
 
 /**
  * Props for ExportCard component
@@ -43,9 +49,15 @@ interface ExportCardProps {
   /** Primary value to display (EVPI for basic, Net Value for advanced) */
   verdictValue: number;
 
+  /** Metric the test reads out (default conversion rate) */
+  metricType?: MetricType;
+
   /** Baseline conversion rate as a decimal (e.g., 0.025 for 2.5%) */
   baselineConversionRate: number;
 
+  /** Baseline mean per visitor (continuous and ratio metrics) */
+  metricMean?: number;
+
   /** Annual visitors count */
   annualVisitors: number;
 
@@ -55,6 +67,12 @@ interface ExportCardProps {
   /** Value per conversion in dollars */
   valuePerConversion: number;
 
+  /** Horizon the verdict value is counted over */
+  horizon: DecisionHorizon;
+
+  /** Cost of running the test, weighed against the verdict value (0: none entered) */
+  testCostDollars?: number;
+
   /** Prior interval summary for display */
   prior: {
     meanPercent: number;
@@ -92,6 +110,12 @@ interface ExportCardProps {
 
   /** Test duration in days (only for advanced mode) */
   testDurationDays?: number;
+
+  /** Conversion latency in days (only for advanced mode) */
+  conversionLatencyDays?: number;
+
+  /** Net value lost to unmatured conversions (only for advanced mode) */
+  conversionLatencyCost?: number;
 }
 
 /**
@@ -108,10 +132,14 @@ export const ExportCard = forwardRef<HTMLDivElement, ExportCardProps>(
       mode,
       title = 'Should I Test That?',
       verdictValue,
+      metricType = 'binary',
       baselineConversionRate,
+      metricMean = 0,
       annualVisitors,
       visitorUnitLabel,
       valuePerConversion,
+      horizon,
+      testCostDollars = 0,
       prior,
       threshold,
       miniChartPrior,
@@ -121,6 +149,8 @@ export const ExportCard = forwardRef<HTMLDivElement, ExportCardProps>(
       evsi,
       cod,
       testDurationDays,
+      conversionLatencyDays,
+      conversionLatencyCost,
     },
     ref
   ) {
@@ -130,6 +160,10 @@ export const ExportCard = forwardRef<HTMLDivElement, ExportCardProps>(
     // Format the primary verdict value
     const formattedValue = formatSmartCurrency(verdictValue);
 
+    // Test cost against the verdict value (EVPI is a ceiling in Basic mode)
+    const roi = calculateTestRoi(verdictValue, testCostDollars);
+    const roiText = roi ? describeTestRoi(roi, mode === 'basic' ? 'evpi' : 'net-value') : null;
+
     // Format prior display with shape for Advanced mode
     const priorShapeText = priorShapeDescription ? ` (${priorShapeDescription})` : '';
     const priorDisplay = `${prior.meanPercent > 0 ? '+' : ''}${prior.meanPercent.toFixed(1)}% expected lift${priorShapeText}`;
@@ -143,7 +177,11 @@ export const ExportCard = forwardRef<HTMLDivElement, ExportCardProps>(
 
     // Format baseline metrics for display
     // Conversion rate: decimal to percentage (e.g., 0.025 -> "2.50%")
-    const conversionRateDisplay = `${(baselineConversionRate * 100).toFixed(2)}% conversion rate`;
+    // Continuous and ratio metrics show their mean per visitor instead
+    const conversionRateDisplay =
+      metricType === 'binary'
+        ? `${(baselineConversionRate * 100).toFixed(2)}% conversion rate`
+        : `mean ${formatNumber(metricMean)} per visitor`;
 
     // Annual visitors: use compact notation for large numbers (e.g., 1000000 -> "1M")
     const visitorsCompact = new Intl.NumberFormat('en-US', {
@@ -153,7 +191,9 @@ export const ExportCard = forwardRef<HTMLDivElement, ExportCardProps>(
     const annualVisitorsDisplay = `${visitorsCompact} ${visitorUnitLabel}/year`;
 
     // Value per conversion: formatted as currency
-    const valuePerConversionDisplay = `${formatSmartCurrency(valuePerConversion)}/conversion`;
+    const valuePerConversionDisplay = `${formatSmartCurrency(valuePerConversion)}/${
+      metricType === 'binary' ? 'conversion' : 'unit'
+    }`;
 
     return (
       <div
@@ -270,9 +310,37 @@ export const ExportCard = forwardRef<HTMLDivElement, ExportCardProps>(
                     {formatSmartCurrency(cod)} in expected opportunity cost.
                   </>
                 )}
+                {conversionLatencyDays !== undefined &&
+                  conversionLatencyDays > 0 &&
+                  conversionLatencyCost !== undefined && (
+                    <>
+                      {' '}A {conversionLatencyDays}-day conversion latency leaves recent users
+                      unread at the end of the test. It doesn't delay rollout, but the
+                      noisier decision costs{' '}
+                      {formatSmartCurrency(Math.max(0, conversionLatencyCost))} afterwards
+                      (already in the value above).
+                    </>
+                  )}
               </>
-            )}
+            )}{' '}
+            Value counted over {formatHorizon(horizon)}.
           </p>
+          {/* ROI verdict when a test cost was entered */}
+          {roi && roiText && (
+            <p
+              style={{
+                fontSize: '16px',
+                color: '#111827',
+                margin: '16px 0 0 0',
+                lineHeight: '1.5',
+              }}
+            >
+              <strong style={{ color: roi.verdict === 'run' ? '#10B981' : '#B45309' }}>
+                {roiText.headline}.
+              </strong>{' '}
+              {roiText.detail}
+            </p>
+          )}
         </div>
 
         {/* Key Inputs Grid */}
@@ -0,0 +1,185 @@
+/**
+ * Bandit Comparison (Advanced mode)
+ *
+ * Sits at the end of ExperimentDesignForm. Picks a bandit policy (Thompson
+ * sampling or epsilon-greedy) and simulates it in the worker next to the
+ * entered A/B test, showing the no-test default's value and what each
+ * approach adds to it over the same decision horizon.
+ *
+ * The bandit re-splits traffic weekly; the headline results still value the
+ * A/B test.
+ */
+
+import { Loader2, Sparkles, X } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { ToggleGroup, ToggleGroupItem } from '@/components/ui/toggle-group';
+import { useBanditComparison } from '@/hooks/useBanditComparison';
+import { useWizardStore } from '@/stores/wizardStore';
+import { CommitNumberInput } from './inputs/CommitNumberInput';
+import { SimulationSeedNote } from '@/components/results/SimulationSeedNote';
+import { formatSmartCurrency } from '@/lib/formatting';
+
+const TOGGLE_ITEM_CLASS =
+  'rounded-md px-3 py-1.5 text-sm font-medium data-[state=on]:bg-card data-[state=on]:text-foreground data-[state=on]:shadow-sm data-[state=off]:text-muted-foreground';
+
+const EPSILON_HELP =
+  'Share of traffic split evenly to keep learning; the rest goes to whichever version currently looks better.';
+
+export function BanditComparison() {
+  const banditPolicy = useWizardStore((state) => state.inputs.advanced.banditPolicy);
+  const banditEpsilon = useWizardStore((state) => state.inputs.advanced.banditEpsilon);
+  const monteCarloSeed = useWizardStore((state) => state.inputs.advanced.monteCarloSeed);
+  const setAdvancedInput = useWizardStore((state) => state.setAdvancedInput);
+
+  const { status, progress, results, run, cancel } = useBanditComparison();
+
+  const handlePolicyChange = (value: string) => {
+    if (value === 'thompson' || value === 'epsilon-greedy') {
+      setAdvancedInput('banditPolicy', value);
+    }
+  };
+
+  return (
+    <div className="space-y-3 pt-4 border-t border-border/50">
+      <div className="space-y-1">
+        <p className="text-sm font-medium text-foreground">
+          What if you used a bandit instead?
+        </p>
+        <p className="text-sm text-muted-foreground">
+          A bandit shifts traffic towards the better-looking version as data comes in, instead of
+          testing and then deciding.
+        </p>
+      </div>
+
+      <ToggleGroup
+        type="single"
+        value={banditPolicy}
+        onValueChange={handlePolicyChange}
+        className="rounded-lg bg-surface p-1 w-fit"
+        aria-label="Bandit policy"
+      >
+        <ToggleGroupItem value="thompson" className={TOGGLE_ITEM_CLASS}>
+          Thompson sampling
+        </ToggleGroupItem>
+        <ToggleGroupItem value="epsilon-greedy" className={TOGGLE_ITEM_CLASS}>
+          Epsilon-greedy
+        </ToggleGroupItem>
+      </ToggleGroup>
+
+      {banditPolicy === 'epsilon-greedy' && (
+        <CommitNumberInput
+          key={banditEpsilon}
+          id="bandit-epsilon"
+          label="Exploration rate"
+          value={Math.round(banditEpsilon * 1000) / 10}
+          suffix="%"
+          helpText={EPSILON_HELP}
+          validate={(value) =>
+            value >= 0 && value <= 100 ? null : 'Enter a value from 0% to 100%'
+          }
+          onCommit={(value) => setAdvancedInput('banditEpsilon', value / 100)}
+        />
+      )}
+
+      {status !== 'running' && (
+        <div className="flex flex-wrap items-center justify-between gap-2">
+          <p className="text-xs text-muted-foreground">
+            Compare a bandit rollout over your decision horizon with your A/B test.
+          </p>
+          <Button type="button" variant="outline" size="sm" onClick={run}>
+            <Sparkles className="size-4" />
+            {results ? 'Re-run' : 'Compare with a bandit'}
+          </Button>
+        </div>
+      )}
+
+      {status === 'running' && (
+        <div className="space-y-2">
+          <div className="flex items-center justify-between gap-2">
+            <p className="flex items-center gap-2 text-xs text-muted-foreground">
+              <Loader2 className="size-3 animate-spin" />
+              Simulating the bandit... {Math.round(progress * 100)}%
+            </p>
+            <Button type="button" variant="ghost" size="sm" onClick={cancel}>
+              <X className="size-4" />
+              Cancel
+            </Button>
+          </div>
+          <div
+            role="progressbar"
+            aria-label="Bandit comparison progress"
+            aria-valuemin={0}
+            aria-valuemax={100}
+            aria-valuenow={Math.round(progress * 100)}
+            className="h-1.5 rounded-full bg-muted overflow-hidden"
+          >
+            <div
+              className="h-full bg-primary transition-[width]"
+              style={{ width: `${progress * 100}%` }}
+            />
+          </div>
+        </div>
+      )}
+
+      {status === 'incomplete' && (
+        <p className="text-xs text-muted-foreground">
+          Fill in the earlier sections and the test design first; the comparison needs all of
+          them.
+        </p>
+      )}
+
+      {status === 'error' && (
+        <p role="alert" className="text-xs text-destructive">
+          The bandit comparison couldn't run. Please try again.
+        </p>
+      )}
+
+      {status === 'done' && results && (
+        <div className="space-y-2">
+          <p className="text-sm text-foreground">
+            {results.bandit.netValueDollars > results.abTest.netValueDollars ? (
+              <>
+                The bandit adds more than your A/B test, by{' '}
+                <strong>
+                  {formatSmartCurrency(
+                    results.bandit.netValueDollars - results.abTest.netValueDollars
+                  )}
+                </strong>
+                .
+              </>
+            ) : (
+              <>
+                Your A/B test adds more than the bandit, by{' '}
+                <strong>
+                  {formatSmartCurrency(
+                    results.abTest.netValueDollars - results.bandit.netValueDollars
+                  )}
+                </strong>
+                .
+              </>
+            )}
+          </p>
+          <ul className="space-y-1 text-sm text-muted-foreground">
+            <li>
+              No test ({results.bandit.defaultDecision === 'ship' ? 'ship' : "don't ship"}):{' '}
+              {formatSmartCurrency(results.bandit.defaultValueDollars)}
+            </li>
+            <li>A/B test adds: {formatSmartCurrency(results.abTest.netValueDollars)}</li>
+            <li>
+              Bandit adds: {formatSmartCurrency(results.bandit.netValueDollars)} (variant gets{' '}
+              {Math.round(results.bandit.averageVariantShare * 100)}% of traffic on average)
+            </li>
+          </ul>
+          <p className="text-xs text-muted-foreground">
+            The bandit re-splits traffic weekly for the whole horizon, with no decision latency.
+            Each number is a separate simulation, so small differences may be noise.
+          </p>
+          <SimulationSeedNote
+            seed={monteCarloSeed}
+            timeLimited={results.timeLimited}
+          />
+        </div>
+      )}
+    </div>
+  );
+}
@@ -9,6 +9,15 @@
  * These derive K = N_year * CR0 * V (annual dollars per unit lift)
  * which is used throughout EVPI/EVSI calculations.
  *
+ * The decision horizon and annual discount rate below them turn K into
+ * dollars over the period the decision pays off for (default one year,
+ * undiscounted).
+ *
+ * The metric toggle swaps CR0 for a mean per visitor (continuous metrics,
+ * e.g. revenue per visitor) or a ratio of two per-visitor quantities (e.g.
+ * revenue per order); their standard deviations set the test's noise, and
+ * the mean takes CR0's place in K.
+ *
  * Per CONTEXT.md:
  * - Validation errors appear on blur only (not while typing)
  * - Continue button always enabled; clicking with invalid inputs shows errors
@@ -23,10 +32,65 @@ import {
 } from '@/lib/validation';
 import { percentToDecimal, decimalToPercent } from '@/lib/formatting';
 import { useWizardStore } from '@/stores/wizardStore';
+import type { MetricType } from '@/types/wizard';
+import { ToggleGroup, ToggleGroupItem } from '@/components/ui/toggle-group';
+import { Label } from '@/components/ui/label';
 import { PercentageInput } from './inputs/PercentageInput';
 import { NumberInput } from './inputs/NumberInput';
 import { CurrencyInput } from './inputs/CurrencyInput';
 
+/**
+ * Metric options for the toggle
+ */
+const METRIC_OPTIONS: { value: MetricType; label: string }[] = [
+  { value: 'binary', label: 'Conversion rate' },
+  { value: 'continuous', label: 'Mean per visitor' },
+  { value: 'ratio', label: 'Ratio' },
+];
+
+/**
+ * Toggle between conversion, continuous and ratio metrics
+ */
+function MetricTypeToggle({
+  value,
+  onChange,
+}: {
+  value: MetricType;
+  onChange: (value: MetricType) => void;
+}) {
+  const handleValueChange = (newValue: string) => {
+    // Only update if valid metric (prevents empty on same click)
+    const option = METRIC_OPTIONS.find((o) => o.value === newValue);
+    if (option) {
+      onChange(option.value);
+    }
+  };
+
+  return (
+    <div className="space-y-2">
+      <Label>What does the test measure?</Label>
+      <ToggleGroup
+        type="single"
+        value={value}
+        onValueChange={handleValueChange}
+        className="rounded-lg bg-surface p-1"
+        aria-label="Metric type"
+      >
+        {METRIC_OPTIONS.map((option) => (
+          <ToggleGroupItem
+            key={option.value}
+            value={option.value}
+            aria-label={option.label}
+            className="rounded-md px-3 py-1.5 text-sm font-medium data-[state=on]:bg-card data-[state=on]:text-foreground data-[state=on]:shadow-sm data-[state=off]:text-muted-foreground"
+          >
+            {option.label}
+          </ToggleGroupItem>
+        ))}
+      </ToggleGroup>
+    </div>
+  );
+}
+
 /**
  * Ref handle exposed by BaselineMetricsForm for parent validation trigger
  */
@@ -50,14 +114,23 @@ export const BaselineMetricsForm = forwardRef<BaselineMetricsFormHandle>(
       mode: 'onBlur', // Validate on blur per CONTEXT.md
       reValidateMode: 'onBlur', // Re-validate on blur, not while typing
       defaultValues: {
+        metricType: sharedInputs.metricType,
         // Convert stored decimal to percentage for display
         baselineConversionRate:
           sharedInputs.baselineConversionRate !== null
             ? decimalToPercent(sharedInputs.baselineConversionRate)
             : undefined,
+        metricMean: sharedInputs.metricMean ?? undefined,
+        metricStandardDeviation: sharedInputs.metricStandardDeviation ?? undefined,
+        ratioDenominatorMean: sharedInputs.ratioDenominatorMean ?? undefined,
+        ratioDenominatorStandardDeviation:
+          sharedInputs.ratioDenominatorStandardDeviation ?? undefined,
+        ratioCorrelation: sharedInputs.ratioCorrelation ?? undefined,
         annualVisitors: sharedInputs.annualVisitors ?? undefined,
         visitorUnitLabel: sharedInputs.visitorUnitLabel || 'visitors',
         valuePerConversion: sharedInputs.valuePerConversion ?? undefined,
+        horizonDays: sharedInputs.horizonDays,
+        annualDiscountRate: decimalToPercent(sharedInputs.annualDiscountRate),
       },
     });
 
@@ -71,6 +144,7 @@ export const BaselineMetricsForm = forwardRef<BaselineMetricsFormHandle>(
 
     // Watch the unit label for the label text
     const unitLabel = watch('visitorUnitLabel');
+    const metricType = watch('metricType');
 
     /**
      * Handle successful form submission - store values in Zustand
@@ -78,14 +152,30 @@ export const BaselineMetricsForm = forwardRef<BaselineMetricsFormHandle>(
      */
     const onSubmit = useCallback(
       (data: BaselineMetricsFormData) => {
-        // Convert percentage (e.g., 5.0) to decimal (e.g., 0.05) before storing
-        setSharedInput(
-          'baselineConversionRate',
-          percentToDecimal(data.baselineConversionRate)
-        );
+        setSharedInput('metricType', data.metricType);
+        if (data.metricType === 'binary') {
+          // Convert percentage (e.g., 5.0) to decimal (e.g., 0.05) before storing
+          setSharedInput(
+            'baselineConversionRate',
+            percentToDecimal(data.baselineConversionRate!)
+          );
+        } else {
+          setSharedInput('metricMean', data.metricMean!);
+          setSharedInput('metricStandardDeviation', data.metricStandardDeviation!);
+        }
+        if (data.metricType === 'ratio') {
+          setSharedInput('ratioDenominatorMean', data.ratioDenominatorMean!);
+          setSharedInput(
+            'ratioDenominatorStandardDeviation',
+            data.ratioDenominatorStandardDeviation!
+          );
+          setSharedInput('ratioCorrelation', data.ratioCorrelation!);
+        }
         setSharedInput('annualVisitors', data.annualVisitors);
         setSharedInput('visitorUnitLabel', data.visitorUnitLabel);
         setSharedInput('valuePerConversion', data.valuePerConversion);
+        setSharedInput('horizonDays', data.horizonDays);
+        setSharedInput('annualDiscountRate', percentToDecimal(data.annualDiscountRate));
       },
       [setSharedInput]
     );
@@ -121,14 +211,45 @@ export const BaselineMetricsForm = forwardRef<BaselineMetricsFormHandle>(
       [setValue, setSharedInput]
     );
 
+    /**
+     * Handle metric type changes
+     * Stored immediately so the rest of the wizard reads the right baseline
+     */
+    const handleMetricTypeChange = useCallback(
+      (value: MetricType) => {
+        setValue('metricType', value);
+        setSharedInput('metricType', value);
+      },
+      [setValue, setSharedInput]
+    );
+
     // Sync form with store changes (e.g., if store is reset)
     useEffect(() => {
+      setValue('metricType', sharedInputs.metricType);
       if (sharedInputs.baselineConversionRate !== null) {
         setValue(
           'baselineConversionRate',
           decimalToPercent(sharedInputs.baselineConversionRate)
         );
       }
+      if (sharedInputs.metricMean !== null) {
+        setValue('metricMean', sharedInputs.metricMean);
+      }
+      if (sharedInputs.metricStandardDeviation !== null) {
+        setValue('metricStandardDeviation', sharedInputs.metricStandardDeviation);
+      }
+      if (sharedInputs.ratioDenominatorMean !== null) {
+        setValue('ratioDenominatorMean', sharedInputs.ratioDenominatorMean);
+      }
+      if (sharedInputs.ratioDenominatorStandardDeviation !== null) {
+        setValue(
+          'ratioDenominatorStandardDeviation',
+          sharedInputs.ratioDenominatorStandardDeviation
+        );
+      }
+      if (sharedInputs.ratioCorrelation !== null) {
+        setValue('ratioCorrelation', sharedInputs.ratioCorrelation);
+      }
       if (sharedInputs.annualVisitors !== null) {
         setValue('annualVisitors', sharedInputs.annualVisitors);
       }
@@ -138,11 +259,21 @@ export const BaselineMetricsForm = forwardRef<BaselineMetricsFormHandle>(
       if (sharedInputs.valuePerConversion !== null) {
         setValue('valuePerConversion', sharedInputs.valuePerConversion);
       }
+      setValue('horizonDays', sharedInputs.horizonDays);
+      setValue('annualDiscountRate', decimalToPercent(sharedInputs.annualDiscountRate));
     }, [
+      sharedInputs.metricType,
       sharedInputs.baselineConversionRate,
+      sharedInputs.metricMean,
+      sharedInputs.metricStandardDeviation,
+      sharedInputs.ratioDenominatorMean,
+      sharedInputs.ratioDenominatorStandardDeviation,
+      sharedInputs.ratioCorrelation,
       sharedInputs.annualVisitors,
       sharedInputs.visitorUnitLabel,
       sharedInputs.valuePerConversion,
+      sharedInputs.horizonDays,
+      sharedInputs.annualDiscountRate,
       setValue,
     ]);
 
@@ -154,14 +285,72 @@ export const BaselineMetricsForm = forwardRef<BaselineMetricsFormHandle>(
             This will help us calculate the range of potential outcomes from the test in dollars.
           </p>
 
+          <MetricTypeToggle value={metricType} onChange={handleMetricTypeChange} />
+
           {/* Baseline Conversion Rate */}
-          <PercentageInput
-            name="baselineConversionRate"
-            label="Baseline conversion rate"
-            placeholder="3.2%"
-            helpText="This is your current conversion rate for the metric and audience/targeting you'd be testing. Ideally, choose a metric that is a revenue-generating event (e.g., visitors to signups)."
-            error={errors.baselineConversionRate?.message}
-          />
+          {metricType === 'binary' && (
+            <PercentageInput
+              name="baselineConversionRate"
+              label="Baseline conversion rate"
+              placeholder="3.2%"
+              helpText="This is your current conversion rate for the metric and audience/targeting you'd be testing. Ideally, choose a metric that is a revenue-generating event (e.g., visitors to signups)."
+              error={errors.baselineConversionRate?.message}
+            />
+          )}
+
+          {/* Mean and spread per visitor (numerator of a ratio) */}
+          {metricType !== 'binary' && (
+            <>
+              <NumberInput
+                name="metricMean"
+                label={
+                  metricType === 'ratio'
+                    ? 'Numerator mean per visitor'
+                    : 'Baseline mean per visitor'
+                }
+                placeholder="2.50"
+                helpText={
+                  metricType === 'ratio'
+                    ? 'The top of the ratio, averaged over all visitors (e.g., revenue per visitor for revenue per order).'
+                    : 'The current average of the metric per visitor, counting visitors who score zero (e.g., revenue per visitor).'
+                }
+                error={errors.metricMean?.message}
+              />
+              <NumberInput
+                name="metricStandardDeviation"
+                label="Standard deviation per visitor"
+                placeholder="12"
+                helpText="How much the value varies from visitor to visitor. Revenue metrics are often several times their mean; a noisier metric needs more traffic to read."
+                error={errors.metricStandardDeviation?.message}
+              />
+            </>
+          )}
+
+          {/* Denominator of a ratio */}
+          {metricType === 'ratio' && (
+            <>
+              <NumberInput
+                name="ratioDenominatorMean"
+                label="Denominator mean per visitor"
+                placeholder="0.05"
+                helpText="The bottom of the ratio, averaged over all visitors (e.g., orders per visitor)."
+                error={errors.ratioDenominatorMean?.message}
+              />
+              <NumberInput
+                name="ratioDenominatorStandardDeviation"
+                label="Denominator standard deviation per visitor"
+                placeholder="0.25"
+                error={errors.ratioDenominatorStandardDeviation?.message}
+              />
+              <NumberInput
+                name="ratioCorrelation"
+                label="Correlation of numerator and denominator"
+                placeholder="0.6"
+                helpText="Between -1 and 1. Visitors with more orders usually spend more, so this is typically positive, which makes the ratio less noisy."
+                error={errors.ratioCorrelation?.message}
+              />
+            </>
+          )}
 
           {/* Annual Visitors */}
           <NumberInput
@@ -177,11 +366,32 @@ export const BaselineMetricsForm = forwardRef<BaselineMetricsFormHandle>(
           {/* Value per Conversion */}
           <CurrencyInput
             name="valuePerConversion"
-            label="Value per conversion"
-            placeholder="$50"
-            helpText="Put the business value of one conversion in dollars. Examples: average order value, gross margin per purchase, first-year LTV, or a blended estimate. Pick one that matches how you evaluate impact."
+            label={metricType === 'binary' ? 'Value per conversion' : 'Value per unit of the metric'}
+            placeholder={metricType === 'binary' ? '$50' : '$1'}
+            helpText={
+              metricType === 'binary'
+                ? 'Put the business value of one conversion in dollars. Examples: average order value, gross margin per purchase, first-year LTV, or a blended estimate. Pick one that matches how you evaluate impact.'
+                : 'The business value of one unit of the metric (of the numerator, for a ratio). For revenue, $1 counts revenue; use your margin (e.g., $0.30) to count profit.'
+            }
             error={errors.valuePerConversion?.message}
           />
+
+          {/* Decision horizon and discounting */}
+          <NumberInput
+            name="horizonDays"
+            label="How long will the decision pay off?"
+            placeholder="365"
+            suffix="days"
+            helpText="Days from the start of the test until the change stops mattering: 42 for a six-week promotion, 1,095 for a feature you'll keep three years. The test and any wait to ship count against it."
+            error={errors.horizonDays?.message}
+          />
+          <PercentageInput
+            name="annualDiscountRate"
+            label="Annual discount rate"
+            placeholder="0%"
+            helpText="How much less a dollar next year is worth to you than a dollar today. Leave at 0% to count every day the same; 8-12% is common for multi-year horizons."
+            error={errors.annualDiscountRate?.message}
+          />
         </form>
       </FormProvider>
     );
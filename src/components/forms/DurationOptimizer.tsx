@@ -0,0 +1,111 @@
+/**
+ * Duration Optimizer (Advanced mode)
+ *
+ * Sits under the test duration field in ExperimentDesignForm. Sweeps 1-90
+ * days in the worker, plots net value against duration and offers the best
+ * duration as a one-click fill-in (written back with setAdvancedInput; the
+ * form re-syncs from the store).
+ */
+
+import { Loader2, Sparkles, X } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { DurationChart } from '@/components/charts';
+import { useDurationOptimizer } from '@/hooks/useDurationOptimizer';
+import { useWizardStore } from '@/stores/wizardStore';
+import { formatSmartCurrency } from '@/lib/formatting';
+import { DEFAULT_DURATION_RANGE } from '@/lib/duration-optimizer';
+
+export function DurationOptimizer() {
+  const testDurationDays = useWizardStore((state) => state.inputs.advanced.testDurationDays);
+  const setAdvancedInput = useWizardStore((state) => state.setAdvancedInput);
+
+  const { status, progress, results, run, cancel } = useDurationOptimizer();
+
+  return (
+    <div className="rounded-lg border border-border/60 bg-muted/20 p-3 space-y-3">
+      {status !== 'running' && (
+        <div className="flex flex-wrap items-center justify-between gap-2">
+          <p className="text-xs text-muted-foreground">
+            Not sure how long to run it? Compare net value for{' '}
+            {DEFAULT_DURATION_RANGE.minDays}-{DEFAULT_DURATION_RANGE.maxDays} days.
+          </p>
+          <Button type="button" variant="outline" size="sm" onClick={run}>
+            <Sparkles className="size-4" />
+            {results ? 'Re-run' : 'Find the best duration'}
+          </Button>
+        </div>
+      )}
+
+      {status === 'running' && (
+        <div className="space-y-2">
+          <div className="flex items-center justify-between gap-2">
+            <p className="flex items-center gap-2 text-xs text-muted-foreground">
+              <Loader2 className="size-3 animate-spin" />
+              Simulating each duration... {Math.round(progress * 100)}%
+            </p>
+            <Button type="button" variant="ghost" size="sm" onClick={cancel}>
+              <X className="size-4" />
+              Cancel
+            </Button>
+          </div>
+          <div
+            role="progressbar"
+            aria-label="Duration search progress"
+            aria-valuemin={0}
+            aria-valuemax={100}
+            aria-valuenow={Math.round(progress * 100)}
+            className="h-1.5 rounded-full bg-muted overflow-hidden"
+          >
+            <div
+              className="h-full bg-primary transition-[width]"
+              style={{ width: `${progress * 100}%` }}
+            />
+          </div>
+        </div>
+      )}
+
+      {status === 'incomplete' && (
+        <p className="text-xs text-muted-foreground">
+          Fill in the earlier sections and daily traffic first; the search needs everything
+          except the duration.
+        </p>
+      )}
+
+      {status === 'error' && (
+        <p role="alert" className="text-xs text-destructive">
+          The duration search couldn't run. Please try again.
+        </p>
+      )}
+
+      {status === 'done' && results && (
+        <div className="space-y-2">
+          <DurationChart
+            points={results.points}
+            bestDays={results.bestDays}
+            bestNetValueDollars={results.bestNetValueDollars}
+            currentDays={testDurationDays}
+          />
+          <div className="flex flex-wrap items-center justify-between gap-2">
+            <p className="text-sm text-foreground">
+              Net value peaks at <strong>{results.bestDays} days</strong> (
+              {formatSmartCurrency(results.bestNetValueDollars)}).
+            </p>
+            {testDurationDays !== results.bestDays && (
+              <Button
+                type="button"
+                size="sm"
+                onClick={() => setAdvancedInput('testDurationDays', results.bestDays)}
+              >
+                Use {results.bestDays} days
+              </Button>
+            )}
+          </div>
+          <p className="text-xs text-muted-foreground">
+            Every duration is simulated with the same random draws, so the shape of the curve
+            is real; a flat top means nearby durations are about as good.
+          </p>
+        </div>
+      )}
+    </div>
+  );
+}
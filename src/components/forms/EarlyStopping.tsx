@@ -0,0 +1,285 @@
+/**
+ * Early Stopping (Advanced mode, group-sequential tests)
+ *
+ * Sits under the latency fields in ExperimentDesignForm. Sets the days of
+ * interim looks and the rule that may stop the test at them (Bayesian
+ * posterior probability or O'Brien-Fleming-style bounds), then simulates
+ * the test in the worker to show the expected duration and how much net
+ * value stopping early adds over running the full duration.
+ *
+ * The headline results still value the fixed-duration test.
+ */
+
+import { useState } from 'react';
+import { Loader2, Sparkles, X } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { ToggleGroup, ToggleGroupItem } from '@/components/ui/toggle-group';
+import { useEarlyStopping } from '@/hooks/useEarlyStopping';
+import { useWizardStore } from '@/stores/wizardStore';
+import { CommitNumberInput } from './inputs/CommitNumberInput';
+import { SimulationSeedNote } from '@/components/results/SimulationSeedNote';
+import { formatSmartCurrency } from '@/lib/formatting';
+
+const TOGGLE_ITEM_CLASS =
+  'rounded-md px-3 py-1.5 text-sm font-medium data-[state=on]:bg-card data-[state=on]:text-foreground data-[state=on]:shadow-sm data-[state=off]:text-muted-foreground';
+
+/**
+ * Parse "7, 14, 21" into sorted, distinct days
+ *
+ * @returns Days, or an error message
+ */
+function parseLookDays(
+  text: string,
+  testDurationDays: number | null
+): { days: number[] } | { error: string } {
+  const parts = text.split(/[\s,]+/).filter(Boolean);
+  const days = parts.map(Number);
+  if (days.some((day) => !Number.isFinite(day) || day <= 0)) {
+    return { error: 'Enter days as positive numbers, e.g. 7, 14, 21' };
+  }
+  if (testDurationDays !== null && days.some((day) => day >= testDurationDays)) {
+    return { error: `Interim looks must come before day ${testDurationDays}` };
+  }
+  return { days: [...new Set(days)].sort((a, b) => a - b) };
+}
+
+/**
+ * Comma-separated look days; commits on blur when valid
+ */
+function LookDaysInput({
+  days,
+  testDurationDays,
+  onCommit,
+}: {
+  days: number[];
+  testDurationDays: number | null;
+  onCommit: (days: number[]) => void;
+}) {
+  const [text, setText] = useState(days.join(', '));
+  const [error, setError] = useState<string | null>(null);
+
+  const commit = () => {
+    const parsed = parseLookDays(text, testDurationDays);
+    if ('error' in parsed) {
+      setError(parsed.error);
+      return;
+    }
+    setError(null);
+    onCommit(parsed.days);
+  };
+
+  return (
+    <div className="space-y-1">
+      <Label htmlFor="interim-look-days">Interim looks (optional)</Label>
+      <Input
+        id="interim-look-days"
+        value={text}
+        placeholder="e.g. 7, 14, 21"
+        onChange={(e) => setText(e.target.value)}
+        onBlur={commit}
+        aria-invalid={!!error}
+      />
+      {error ? (
+        <p role="alert" className="text-xs text-destructive">
+          {error}
+        </p>
+      ) : (
+        <p className="text-sm text-muted-foreground">
+          Test days when you check results and may stop early. Leave empty to always run the full
+          duration.
+        </p>
+      )}
+    </div>
+  );
+}
+
+export function EarlyStopping() {
+  const interimLookDays = useWizardStore((state) => state.inputs.advanced.interimLookDays);
+  const stoppingRule = useWizardStore((state) => state.inputs.advanced.stoppingRule);
+  const efficacyProbability = useWizardStore(
+    (state) => state.inputs.advanced.efficacyProbability
+  );
+  const futilityProbability = useWizardStore(
+    (state) => state.inputs.advanced.futilityProbability
+  );
+  const criticalZ = useWizardStore((state) => state.inputs.advanced.criticalZ);
+  const testDurationDays = useWizardStore((state) => state.inputs.advanced.testDurationDays);
+  const monteCarloSeed = useWizardStore((state) => state.inputs.advanced.monteCarloSeed);
+  const setAdvancedInput = useWizardStore((state) => state.setAdvancedInput);
+
+  const { status, progress, results, run, cancel } = useEarlyStopping();
+
+  const handleRuleChange = (value: string) => {
+    if (value === 'bayesian' || value === 'obrien-fleming') {
+      setAdvancedInput('stoppingRule', value);
+    }
+  };
+
+  return (
+    <div className="space-y-3">
+      <LookDaysInput
+        key={interimLookDays.join(',')}
+        days={interimLookDays}
+        testDurationDays={testDurationDays}
+        onCommit={(days) => setAdvancedInput('interimLookDays', days)}
+      />
+
+      {interimLookDays.length > 0 && (
+        <div className="rounded-lg border border-border/60 bg-muted/20 p-3 space-y-3">
+          <div className="space-y-2">
+            <p className="text-sm font-medium text-foreground">When do you stop early?</p>
+            <ToggleGroup
+              type="single"
+              value={stoppingRule}
+              onValueChange={handleRuleChange}
+              className="rounded-lg bg-surface p-1 w-fit"
+              aria-label="Stopping rule"
+            >
+              <ToggleGroupItem value="bayesian" className={TOGGLE_ITEM_CLASS}>
+                Posterior probability
+              </ToggleGroupItem>
+              <ToggleGroupItem value="obrien-fleming" className={TOGGLE_ITEM_CLASS}>
+                O&apos;Brien-Fleming
+              </ToggleGroupItem>
+            </ToggleGroup>
+
+            {stoppingRule === 'bayesian' ? (
+              <>
+                <CommitNumberInput
+                  key={`efficacy-${efficacyProbability}`}
+                  id="efficacy-probability"
+                  label="Ship once P(clears threshold) ≥"
+                  value={Math.round(efficacyProbability * 1000) / 10}
+                  suffix="%"
+                  validate={(value) =>
+                    value > 50 && value < 100 ? null : 'Enter a value between 50% and 100%'
+                  }
+                  onCommit={(value) => setAdvancedInput('efficacyProbability', value / 100)}
+                />
+                <CommitNumberInput
+                  key={`futility-${futilityProbability}`}
+                  id="futility-probability"
+                  label="Stop without shipping once ≤"
+                  value={Math.round(futilityProbability * 1000) / 10}
+                  suffix="%"
+                  validate={(value) =>
+                    value >= 0 && value < 50 ? null : 'Enter a value from 0% to under 50%'
+                  }
+                  onCommit={(value) => setAdvancedInput('futilityProbability', value / 100)}
+                />
+                <p className="text-xs text-muted-foreground">
+                  Checks the probability that the lift clears your threshold, given your prior
+                  and the data so far. 0% never stops for futility.
+                </p>
+              </>
+            ) : (
+              <>
+                <CommitNumberInput
+                  key={`critical-z-${criticalZ}`}
+                  id="critical-z"
+                  label="Critical z at the last day"
+                  value={criticalZ}
+                  validate={(value) => (value > 0 ? null : 'Enter a positive z value')}
+                  onCommit={(value) => setAdvancedInput('criticalZ', value)}
+                />
+                <p className="text-xs text-muted-foreground">
+                  Stops when the result is beyond z / √(share of data so far) on either side of
+                  the threshold, so early looks need very strong evidence.
+                </p>
+              </>
+            )}
+          </div>
+
+          {status !== 'running' && (
+            <div className="flex flex-wrap items-center justify-between gap-2">
+              <p className="text-xs text-muted-foreground">
+                How much does stopping early add over running the full test?
+              </p>
+              <Button type="button" variant="outline" size="sm" onClick={run}>
+                <Sparkles className="size-4" />
+                {results ? 'Re-run' : 'Simulate early stopping'}
+              </Button>
+            </div>
+          )}
+
+          {status === 'running' && (
+            <div className="space-y-2">
+              <div className="flex items-center justify-between gap-2">
+                <p className="flex items-center gap-2 text-xs text-muted-foreground">
+                  <Loader2 className="size-3 animate-spin" />
+                  Simulating interim looks... {Math.round(progress * 100)}%
+                </p>
+                <Button type="button" variant="ghost" size="sm" onClick={cancel}>
+                  <X className="size-4" />
+                  Cancel
+                </Button>
+              </div>
+              <div
+                role="progressbar"
+                aria-label="Early stopping simulation progress"
+                aria-valuemin={0}
+                aria-valuemax={100}
+                aria-valuenow={Math.round(progress * 100)}
+                className="h-1.5 rounded-full bg-muted overflow-hidden"
+              >
+                <div
+                  className="h-full bg-primary transition-[width]"
+                  style={{ width: `${progress * 100}%` }}
+                />
+              </div>
+            </div>
+          )}
+
+          {status === 'incomplete' && (
+            <p className="text-xs text-muted-foreground">
+              Fill in the earlier sections and the test design first; the simulation needs all
+              of them.
+            </p>
+          )}
+
+          {status === 'error' && (
+            <p role="alert" className="text-xs text-destructive">
+              The early stopping simulation couldn't run. Please try again.
+            </p>
+          )}
+
+          {status === 'done' && results && (
+            <div className="space-y-2">
+              <p className="text-sm text-foreground">
+                {results.earlyStoppingGainDollars > 0 ? (
+                  <>
+                    Stopping early adds{' '}
+                    <strong>{formatSmartCurrency(results.earlyStoppingGainDollars)}</strong> of
+                    net value.
+                  </>
+                ) : (
+                  <>Stopping early adds no net value here.</>
+                )}
+              </p>
+              <ul className="space-y-1 text-sm text-muted-foreground">
+                <li>
+                  With interim looks: {formatSmartCurrency(results.netValueDollars)}; full{' '}
+                  {testDurationDays}-day test: {formatSmartCurrency(results.fixedNetValueDollars)}
+                </li>
+                <li>
+                  Expected duration: {results.expectedTestDurationDays.toFixed(1)} days (stops
+                  early {Math.round(results.probabilityStopEarly * 100)}% of the time)
+                </li>
+              </ul>
+              <p className="text-xs text-muted-foreground">
+                Simulated on the same draws for both designs. The headline results still value
+                the full-duration test.
+              </p>
+              <SimulationSeedNote
+                seed={monteCarloSeed}
+                timeLimited={results.timeLimited}
+              />
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,175 @@
+/**
+ * Empirical Prior Import (prior step)
+ *
+ * Fits the prior to the organization's past experiments instead of a
+ * guess: the user imports a CSV or JSON of observed lifts and standard
+ * errors (optionally tagged), picks the tags that resemble this test, and
+ * sees the fitted prior against the data (see lib/empirical-prior.ts).
+ * "Use this prior" hands the fit to UncertaintyPriorForm, which applies
+ * it as a Normal prior with the fitted 90% interval.
+ *
+ * The imported experiments stay in this component; only the prior they
+ * produce is stored.
+ */
+
+import { useMemo, useState, type ChangeEvent } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { ToggleGroup, ToggleGroupItem } from '@/components/ui/toggle-group';
+import { EmpiricalPriorChart } from '@/components/charts';
+import {
+  MIN_PAST_EXPERIMENTS,
+  collectTags,
+  filterByTags,
+  fitEmpiricalPrior,
+  parsePastExperiments,
+  type EmpiricalPriorFit,
+  type PastExperimentsResult,
+} from '@/lib/empirical-prior';
+import { cn } from '@/lib/utils';
+
+const TAG_ITEM_CLASS = cn(
+  'rounded-lg px-3 py-1.5 text-sm font-medium transition-all',
+  'border border-border',
+  'data-[state=on]:border-primary data-[state=on]:bg-selected data-[state=on]:text-foreground',
+  'data-[state=off]:bg-card data-[state=off]:text-muted-foreground hover:data-[state=off]:bg-muted/50'
+);
+
+/** Narrowest interval the prior step accepts (percentage points) */
+const MIN_INTERVAL_WIDTH = 0.1;
+
+interface EmpiricalPriorImportProps {
+  /** Apply the fitted prior */
+  onApply: (fit: EmpiricalPriorFit) => void;
+}
+
+/**
+ * Signed percentage with one decimal (e.g., "+2.0%")
+ */
+function formatLift(decimal: number): string {
+  const percent = decimal * 100;
+  return `${percent > 0 ? '+' : ''}${percent.toFixed(1)}%`;
+}
+
+export function EmpiricalPriorImport({ onApply }: EmpiricalPriorImportProps) {
+  const [imported, setImported] = useState<PastExperimentsResult | null>(null);
+  const [selectedTags, setSelectedTags] = useState<string[]>([]);
+
+  const experiments = imported?.status === 'ok' ? imported.experiments : null;
+  const tags = useMemo(() => (experiments ? collectTags(experiments) : []), [experiments]);
+  const fitted = useMemo(
+    () => (experiments ? filterByTags(experiments, selectedTags) : []),
+    [experiments, selectedTags]
+  );
+  const fit = useMemo(() => fitEmpiricalPrior(fitted), [fitted]);
+  const canApply =
+    fit !== null && fit.intervalHighPercent - fit.intervalLowPercent >= MIN_INTERVAL_WIDTH;
+
+  const handleFileChange = async (e: ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+    setImported(parsePastExperiments(await file.text()));
+    setSelectedTags([]);
+  };
+
+  return (
+    <div className="space-y-4 rounded-lg border border-border p-4">
+      <div className="space-y-1">
+        <p className="text-sm font-medium text-foreground">Fit it to your past experiments</p>
+        <p className="text-xs text-muted-foreground">
+          Import a CSV or JSON with an observed lift and standard error per experiment, and
+          optionally tags. Lifts are decimals (0.02 for +2%) unless written with a %. The
+          sampling noise is removed, so the prior is the spread of true effects.
+        </p>
+      </div>
+
+      <div className="space-y-2">
+        <Label htmlFor="pastExperimentsFile" className="text-sm text-muted-foreground">
+          Past experiments file
+        </Label>
+        <Input
+          id="pastExperimentsFile"
+          type="file"
+          accept=".csv,.json,text/csv,application/json"
+          onChange={handleFileChange}
+        />
+      </div>
+
+      {imported?.status === 'error' && (
+        <p role="alert" className="text-sm text-destructive">
+          {imported.message}
+        </p>
+      )}
+
+      {imported?.status === 'ok' && (
+        <p className="text-xs text-muted-foreground">
+          Read {imported.experiments.length} experiments
+          {imported.skippedRows > 0 &&
+            ` (${imported.skippedRows} rows without a lift and a positive standard error skipped)`}
+          .
+        </p>
+      )}
+
+      {/* Tag filter: none selected fits every experiment */}
+      {tags.length > 0 && (
+        <div className="space-y-2">
+          <p className="text-sm text-muted-foreground">
+            Only experiments tagged (none selected uses all):
+          </p>
+          <ToggleGroup
+            type="multiple"
+            value={selectedTags}
+            onValueChange={setSelectedTags}
+            className="flex flex-wrap gap-2"
+            aria-label="Filter past experiments by tag"
+          >
+            {tags.map((tag) => (
+              <ToggleGroupItem key={tag} value={tag} className={TAG_ITEM_CLASS}>
+                {tag}
+              </ToggleGroupItem>
+            ))}
+          </ToggleGroup>
+        </div>
+      )}
+
+      {experiments && !fit && (
+        <p className="text-sm text-destructive">
+          The fit needs at least {MIN_PAST_EXPERIMENTS} experiments; {fitted.length} match.
+        </p>
+      )}
+
+      {fit && (
+        <div className="space-y-3">
+          <p className="text-sm text-foreground">
+            {fit.count} experiments: mean lift{' '}
+            <span className="font-medium">{formatLift(fit.mu_L)}</span>, std dev{' '}
+            <span className="font-medium">{(fit.tau_L * 100).toFixed(2)}%</span> (90% interval{' '}
+            {fit.intervalLowPercent}% to {fit.intervalHighPercent}%).
+          </p>
+          <p className="text-xs text-muted-foreground">
+            Sampling noise explains {Math.round(fit.noiseShare * 100)}% of the spread in the
+            observed lifts (std dev {(fit.observedSd * 100).toFixed(2)}%); the rest is the prior.
+          </p>
+
+          <EmpiricalPriorChart experiments={fitted} fit={fit} />
+          <p className="text-xs text-muted-foreground">
+            Bars are the observed lifts. The dashed curve should follow them; the prior is
+            narrower, without the noise.
+          </p>
+
+          {canApply ? (
+            <Button type="button" variant="outline" size="sm" onClick={() => onApply(fit)}>
+              Use this prior
+            </Button>
+          ) : (
+            <p className="text-sm text-muted-foreground">
+              These lifts vary no more than their noise explains, so there is no spread left for a
+              prior. Try more experiments or other tags.
+            </p>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -10,6 +10,12 @@
  * - Decision latency in days (default 0, visually de-emphasized)
  *
  * These inputs determine sample size and test precision for EVSI.
+ * The duration optimizer under the duration field suggests a duration.
+ * The variant comparison sets the number of variants (A/B/n) and shows
+ * whether each one adds value. Early stopping, under the timing fields,
+ * sets interim looks and simulates what stopping early adds; the novelty
+ * effect after it sets how the lift fades after launch. The bandit
+ * comparison at the end values a bandit rollout next to the A/B test.
  *
  * Per CONTEXT.md:
  * - Validation errors appear on blur only (not while typing)
@@ -26,6 +32,12 @@ import {
 import { useWizardStore } from '@/stores/wizardStore';
 import { NumberInput } from './inputs/NumberInput';
 import { PercentageInput } from './inputs/PercentageInput';
+import { DurationOptimizer } from './DurationOptimizer';
+import { SplitOptimizer } from './SplitOptimizer';
+import { VariantComparison } from './VariantComparison';
+import { EarlyStopping } from './EarlyStopping';
+import { NoveltyEffect } from './NoveltyEffect';
+import { BanditComparison } from './BanditComparison';
 import { decimalToPercent, percentToDecimal } from '@/lib/formatting';
 
 /**
@@ -178,6 +190,9 @@ export const ExperimentDesignForm = forwardRef<ExperimentDesignFormHandle>(
             suffix="days"
           />
 
+          {/* Duration search: net value across 1-90 days */}
+          <DurationOptimizer />
+
           {/* Daily Traffic (required, with inline derive option) */}
           <NumberInput
             name="dailyTraffic"
@@ -203,10 +218,16 @@ export const ExperimentDesignForm = forwardRef<ExperimentDesignFormHandle>(
             name="trafficSplit"
             label="Variant allocation"
             placeholder="50%"
-            helpText="Percentage of traffic seeing the variant (50% = standard A/B)"
+            helpText="Percentage of traffic seeing the variant, or variants (50% = standard A/B)"
             error={errors.trafficSplit?.message}
           />
 
+          {/* Split search: net value across 10-90%, optionally × duration */}
+          <SplitOptimizer />
+
+          {/* Number of variants (A/B/n) and their EVSI comparison */}
+          <VariantComparison />
+
           {/* Eligibility Fraction (pre-filled 100%) */}
           <PercentageInput
             name="eligibilityFraction"
@@ -245,7 +266,16 @@ export const ExperimentDesignForm = forwardRef<ExperimentDesignFormHandle>(
                 suffix="days"
               />
             </div>
+
+            {/* Interim looks and the early stopping simulation */}
+            <EarlyStopping />
+
+            {/* Novelty effect: how the lift changes after launch */}
+            <NoveltyEffect />
           </div>
+
+          {/* Bandit rollout vs the A/B test */}
+          <BanditComparison />
         </form>
       </FormProvider>
     );
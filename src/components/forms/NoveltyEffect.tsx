@@ -0,0 +1,133 @@
+/**
+ * Novelty Effect (Advanced mode, effect dynamics)
+ *
+ * Sits in the timing block of ExperimentDesignForm, after early stopping.
+ * Picks how the true lift changes after launch: constant (the default), a
+ * fixed bump that fades to the long-run lift, or a multiple of the
+ * long-run lift that fades, each with a half-life. The net value results
+ * then value what the test measures (the lift averaged over the test)
+ * separately from what the decision earns afterwards, and warn when a
+ * short test reads mostly novelty.
+ */
+
+import { ToggleGroup, ToggleGroupItem } from '@/components/ui/toggle-group';
+import { useWizardStore } from '@/stores/wizardStore';
+import { CommitNumberInput } from './inputs/CommitNumberInput';
+import { averageNoveltyWeight } from '@/lib/calculations/effect-dynamics';
+import { maturedSampleFraction } from '@/lib/calculations/sample-size';
+import { deriveEffectDynamics } from '@/lib/derive-inputs';
+import type { EffectDynamicsType } from '@/types/wizard';
+
+const TOGGLE_ITEM_CLASS =
+  'rounded-md px-3 py-1.5 text-sm font-medium data-[state=on]:bg-card data-[state=on]:text-foreground data-[state=on]:shadow-sm data-[state=off]:text-muted-foreground';
+
+const DYNAMICS_OPTIONS: { value: EffectDynamicsType; label: string }[] = [
+  { value: 'constant', label: 'None' },
+  { value: 'decay', label: 'Fading bump' },
+  { value: 'novelty-multiplier', label: 'Fading multiplier' },
+];
+
+export function NoveltyEffect() {
+  const advanced = useWizardStore((state) => state.inputs.advanced);
+  const setAdvancedInput = useWizardStore((state) => state.setAdvancedInput);
+  const {
+    effectDynamicsType,
+    noveltyLift,
+    noveltyMultiplier,
+    noveltyHalfLifeDays,
+    testDurationDays,
+    conversionLatencyDays,
+  } = advanced;
+
+  const handleTypeChange = (value: string) => {
+    const option = DYNAMICS_OPTIONS.find((o) => o.value === value);
+    if (option) {
+      setAdvancedInput('effectDynamicsType', option.value);
+    }
+  };
+
+  // Share of the launch novelty still in the readout, on average
+  const dynamics = deriveEffectDynamics(advanced);
+  const readoutDays =
+    testDurationDays !== null
+      ? testDurationDays * maturedSampleFraction(testDurationDays, conversionLatencyDays ?? 0)
+      : null;
+  const readoutNovelty =
+    dynamics && readoutDays !== null && readoutDays > 0
+      ? averageNoveltyWeight(dynamics, 0, readoutDays)
+      : null;
+
+  return (
+    <div className="space-y-2">
+      <p className="text-sm font-medium text-foreground">Does the effect fade after launch?</p>
+      <ToggleGroup
+        type="single"
+        value={effectDynamicsType}
+        onValueChange={handleTypeChange}
+        className="rounded-lg bg-surface p-1 w-fit"
+        aria-label="Novelty effect"
+      >
+        {DYNAMICS_OPTIONS.map((option) => (
+          <ToggleGroupItem key={option.value} value={option.value} className={TOGGLE_ITEM_CLASS}>
+            {option.label}
+          </ToggleGroupItem>
+        ))}
+      </ToggleGroup>
+
+      {effectDynamicsType === 'constant' && (
+        <p className="text-xs text-muted-foreground">
+          The lift is the same on every day, during the test and after.
+        </p>
+      )}
+
+      {effectDynamicsType !== 'constant' && (
+        <div className="rounded-lg border border-border/60 bg-muted/20 p-3 space-y-3">
+          {effectDynamicsType === 'decay' ? (
+            <CommitNumberInput
+              key={`novelty-lift-${noveltyLift}`}
+              id="novelty-lift"
+              label="Extra lift at launch"
+              value={Math.round(noveltyLift * 1000) / 10}
+              suffix="%"
+              validate={(value) =>
+                value > -100 && value < 100 ? null : 'Enter a value between -100% and 100%'
+              }
+              onCommit={(value) => setAdvancedInput('noveltyLift', value / 100)}
+            />
+          ) : (
+            <CommitNumberInput
+              key={`novelty-multiplier-${noveltyMultiplier}`}
+              id="novelty-multiplier"
+              label="Launch lift vs long-run"
+              value={Math.round((1 + noveltyMultiplier) * 100) / 100}
+              suffix="×"
+              validate={(value) => (value > 0 ? null : 'Enter a positive multiple')}
+              onCommit={(value) => setAdvancedInput('noveltyMultiplier', value - 1)}
+            />
+          )}
+          <CommitNumberInput
+            key={`novelty-half-life-${noveltyHalfLifeDays}`}
+            id="novelty-half-life"
+            label="Half-life"
+            value={noveltyHalfLifeDays}
+            suffix="days"
+            validate={(value) => (value > 0 ? null : 'Enter a positive number of days')}
+            onCommit={(value) => setAdvancedInput('noveltyHalfLifeDays', value)}
+          />
+          <p className="text-xs text-muted-foreground">
+            {effectDynamicsType === 'decay'
+              ? 'Your prior is on the long-run lift; at launch the lift is that much higher (negative for change aversion), and the extra halves every half-life.'
+              : 'Your prior is on the long-run lift; at launch the lift is this multiple of it, fading back every half-life.'}
+            {readoutNovelty !== null && (
+              <>
+                {' '}
+                Your test reads out with {Math.round(readoutNovelty * 100)}% of the launch
+                novelty still in it, on average.
+              </>
+            )}
+          </p>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -2,19 +2,27 @@
  * Prior Shape Form
  *
  * Allows users to select alternative prior shapes in Advanced mode.
- * Three options per 05-CONTEXT.md and ADV-IN-01, ADV-IN-02, ADV-IN-10:
+ * Three options per 05-CONTEXT.md and ADV-IN-01, ADV-IN-02, ADV-IN-10, plus
+ * a spike-and-slab mixture and two skewed shapes:
  * 1. Normal distribution (default) - Standard bell curve
  * 2. Student-t (fat-tailed) - Heavy tails with preset df values
  * 3. Uniform (uninformed) - Equal probability across interval
+ * 4. Spike-and-slab - A chance of no effect at all, else the interval's Normal
+ * 5. Log-normal - Normal on the multiplier 1 + lift, a long upside tail
+ * 6. Skew-normal - Skewed bell with preset skew strengths
+ *
+ * The skewed shapes keep the interval as their exact 5th and 95th
+ * percentiles; only the shape between and beyond them changes.
  *
  * Design patterns:
  * - Uses RadioCard/RadioCardGroup like ThresholdScenarioForm
- * - Student-t shows df preset buttons via ToggleGroup when selected
+ * - Student-t and skew-normal show preset buttons via ToggleGroup when selected
+ * - Spike-and-slab shows the no-effect chance, stored as it is blurred
  * - Store integration via setAdvancedInput
  */
 
 import { useEffect, useImperativeHandle, forwardRef, useCallback } from 'react';
-import { useForm, FormProvider, Controller } from 'react-hook-form';
+import { useForm, useWatch, FormProvider, Controller } from 'react-hook-form';
 import { zodResolver } from '@hookform/resolvers/zod';
 import {
   priorShapeSchema,
@@ -22,15 +30,32 @@ import {
 } from '@/lib/validation';
 import { useWizardStore } from '@/stores/wizardStore';
 import { RadioCard, RadioCardGroup } from './inputs/RadioCard';
+import { PercentageInput } from './inputs/PercentageInput';
 import { ToggleGroup, ToggleGroupItem } from '@/components/ui/toggle-group';
 import { cn } from '@/lib/utils';
 
 /** Type for prior shape option */
-type PriorShape = 'normal' | 'student-t' | 'uniform';
+type PriorShape = 'normal' | 'student-t' | 'uniform' | 'mixture' | 'log-normal' | 'skew-normal';
 
 /** Type for Student-t degrees of freedom presets */
 type StudentTDf = 3 | 5 | 10;
 
+/** Type for skew-normal alpha presets */
+type SkewNormalAlpha = 2 | 4 | 10;
+
+const PRESET_ITEM_CLASS = cn(
+  'rounded-lg px-4 py-2 text-sm font-medium transition-all',
+  'border border-border',
+  'data-[state=on]:border-primary data-[state=on]:bg-selected data-[state=on]:text-foreground',
+  'data-[state=off]:bg-card data-[state=off]:text-muted-foreground hover:data-[state=off]:bg-muted/50'
+);
+
+const SKEW_PRESETS: { value: SkewNormalAlpha; label: string }[] = [
+  { value: 2, label: 'Slight (α=2)' },
+  { value: 4, label: 'Moderate (α=4)' },
+  { value: 10, label: 'Strong (α=10)' },
+];
+
 /**
  * Ref handle exposed by PriorShapeForm for parent validation trigger
  */
@@ -45,6 +70,8 @@ export interface PriorShapeFormHandle {
 interface PriorShapeFormProps {
   /** Callback to fill recommended default values (triggers parent's handleUseDefault) */
   onUseDefaultPrior?: () => void;
+  /** Called after the shape, df or alpha changes in the store */
+  onShapeChange?: () => void;
 }
 
 /**
@@ -124,11 +151,59 @@ function DfPresetSelector({
 }
 
 /**
- * Prior shape form with three radio cards for shape selection
+ * Skew-normal alpha preset selector
+ * Shows when skew-normal shape is selected
+ */
+function SkewPresetSelector({
+  value,
+  onChange,
+}: {
+  value: SkewNormalAlpha | null;
+  onChange: (value: SkewNormalAlpha) => void;
+}) {
+  const handleValueChange = (newValue: string) => {
+    // Only update if a preset (prevents empty on same click)
+    const preset = SKEW_PRESETS.find((p) => p.value.toString() === newValue);
+    if (preset) {
+      onChange(preset.value);
+    }
+  };
+
+  return (
+    <div className="space-y-3 pt-2 border-t border-border/50">
+      <p className="text-sm font-medium text-foreground">How lopsided is the upside?</p>
+      <ToggleGroup
+        type="single"
+        value={value?.toString() ?? ''}
+        onValueChange={handleValueChange}
+        className="flex flex-wrap gap-2"
+        aria-label="Skew-normal skew"
+      >
+        {SKEW_PRESETS.map((preset) => (
+          <ToggleGroupItem
+            key={preset.value}
+            value={preset.value.toString()}
+            aria-label={preset.label}
+            className={PRESET_ITEM_CLASS}
+          >
+            {preset.label}
+          </ToggleGroupItem>
+        ))}
+      </ToggleGroup>
+      <p className="text-xs text-muted-foreground">
+        Your interval stays the 5th and 95th percentiles. More skew puts the likeliest lifts
+        nearer its low end and stretches the tail above it.
+      </p>
+    </div>
+  );
+}
+
+/**
+ * Prior shape form with radio cards for shape selection
  * Only renders in Advanced mode
  */
 export const PriorShapeForm = forwardRef<PriorShapeFormHandle, PriorShapeFormProps>(
-  function PriorShapeForm({ onUseDefaultPrior }, ref) {
+  function PriorShapeForm({ onUseDefaultPrior, onShapeChange }, ref) {
     // Get store values and setters
     const mode = useWizardStore((state) => state.mode);
     const advancedInputs = useWizardStore((state) => state.inputs.advanced);
@@ -154,6 +229,10 @@ export const PriorShapeForm = forwardRef<PriorShapeFormHandle, PriorShapeFormPro
     const selectedShape = watch('shape') as PriorShape | undefined;
     // Watch df for Student-t
     const selectedDf = watch('df') as StudentTDf | undefined;
+    // Watch alpha for skew-normal
+    const selectedAlpha = watch('alpha') as SkewNormalAlpha | undefined;
+    // Watch the no-effect chance for the mixture
+    const spikeWeightPercent = useWatch({ control: methods.control, name: 'spikeWeightPercent' });
 
     /**
      * Handle shape change - update store and reset df when switching away from Student-t
@@ -177,10 +256,38 @@ export const PriorShapeForm = forwardRef<PriorShapeFormHandle, PriorShapeFormPro
             setAdvancedInput('studentTDf', 5);
           }
         }
+
+        // Same for skew-normal alpha
+        if (shape !== 'skew-normal') {
+          setAdvancedInput('skewNormalAlpha', null);
+        } else if (!advancedInputs.skewNormalAlpha) {
+          setValue('alpha', 4); // Default to moderate
+          setAdvancedInput('skewNormalAlpha', 4);
+        }
+
+        onShapeChange?.();
       },
-      [setValue, setAdvancedInput, advancedInputs.studentTDf]
+      [
+        setValue,
+        setAdvancedInput,
+        advancedInputs.studentTDf,
+        advancedInputs.skewNormalAlpha,
+        onShapeChange,
+      ]
     );
 
+    // Store a valid no-effect chance as soon as it is entered, so the chart follows
+    useEffect(() => {
+      if (
+        selectedShape === 'mixture' &&
+        typeof spikeWeightPercent === 'number' &&
+        spikeWeightPercent >= 0 &&
+        spikeWeightPercent < 100
+      ) {
+        setAdvancedInput('mixtureSpikeWeight', spikeWeightPercent / 100);
+      }
+    }, [selectedShape, spikeWeightPercent, setAdvancedInput]);
+
     /**
      * Handle df preset change for Student-t
      */
@@ -188,8 +295,21 @@ export const PriorShapeForm = forwardRef<PriorShapeFormHandle, PriorShapeFormPro
       (df: StudentTDf) => {
         setValue('df', df);
         setAdvancedInput('studentTDf', df);
+        onShapeChange?.();
+      },
+      [setValue, setAdvancedInput, onShapeChange]
+    );
+
+    /**
+     * Handle alpha preset change for skew-normal
+     */
+    const handleAlphaChange = useCallback(
+      (alpha: SkewNormalAlpha) => {
+        setValue('alpha', alpha);
+        setAdvancedInput('skewNormalAlpha', alpha);
+        onShapeChange?.();
       },
-      [setValue, setAdvancedInput]
+      [setValue, setAdvancedInput, onShapeChange]
     );
 
     /**
@@ -203,6 +323,14 @@ export const PriorShapeForm = forwardRef<PriorShapeFormHandle, PriorShapeFormPro
         } else {
           setAdvancedInput('studentTDf', null);
         }
+        if (data.shape === 'skew-normal') {
+          setAdvancedInput('skewNormalAlpha', data.alpha);
+        } else {
+          setAdvancedInput('skewNormalAlpha', null);
+        }
+        if (data.shape === 'mixture') {
+          setAdvancedInput('mixtureSpikeWeight', data.spikeWeightPercent / 100);
+        }
       },
       [setAdvancedInput]
     );
@@ -234,8 +362,19 @@ export const PriorShapeForm = forwardRef<PriorShapeFormHandle, PriorShapeFormPro
       if (advancedInputs.priorShape === 'student-t' && advancedInputs.studentTDf) {
         setValue('df', advancedInputs.studentTDf);
       }
+      if (advancedInputs.priorShape === 'skew-normal' && advancedInputs.skewNormalAlpha) {
+        setValue('alpha', advancedInputs.skewNormalAlpha);
+      }
+      if (advancedInputs.priorShape === 'mixture') {
+        setValue('spikeWeightPercent', toPercent(advancedInputs.mixtureSpikeWeight));
+      }
       // eslint-disable-next-line react-hooks/exhaustive-deps
-    }, [advancedInputs.priorShape, advancedInputs.studentTDf]);
+    }, [
+      advancedInputs.priorShape,
+      advancedInputs.studentTDf,
+      advancedInputs.skewNormalAlpha,
+      advancedInputs.mixtureSpikeWeight,
+    ]);
 
     // Don't render in Basic mode
     if (mode !== 'advanced') {
@@ -249,6 +388,14 @@ export const PriorShapeForm = forwardRef<PriorShapeFormHandle, PriorShapeFormPro
       selectedShape === 'student-t' && 'df' in errors
         ? (errors as { df?: { message?: string } }).df?.message
         : undefined;
+    const alphaError =
+      selectedShape === 'skew-normal' && 'alpha' in errors
+        ? (errors as { alpha?: { message?: string } }).alpha?.message
+        : undefined;
+    const spikeWeightError =
+      selectedShape === 'mixture' && 'spikeWeightPercent' in errors
+        ? (errors as { spikeWeightPercent?: { message?: string } }).spikeWeightPercent?.message
+        : undefined;
 
     // Note: No <form> wrapper here - this component is rendered inside
     // UncertaintyPriorForm which already has a <form> tag.
@@ -349,6 +496,58 @@ export const PriorShapeForm = forwardRef<PriorShapeFormHandle, PriorShapeFormPro
                 </p>
               </div>
             </RadioCard>
+
+            {/* Spike-and-slab (mixture) */}
+            <RadioCard
+              value="mixture"
+              title="Spike-and-slab (most ideas do nothing)"
+              description="A chance the change has no effect at all; otherwise your interval applies."
+              isSelected={selectedShape === 'mixture'}
+            >
+              {selectedShape === 'mixture' && (
+                <div className="pt-2 border-t border-border/50">
+                  <PercentageInput
+                    name="spikeWeightPercent"
+                    label="Chance the change has no effect"
+                    placeholder="50%"
+                    helpText="Many experimentation programs find most changes move nothing measurable."
+                    error={spikeWeightError}
+                  />
+                </div>
+              )}
+            </RadioCard>
+
+            {/* Log-normal (skewed) */}
+            <RadioCard
+              value="log-normal"
+              title="Log-normal (multiplicative)"
+              description="Lift multiplies conversions: a longer upside tail, never below -100%."
+              isSelected={selectedShape === 'log-normal'}
+            />
+
+            {/* Skew-normal (skewed) */}
+            <RadioCard
+              value="skew-normal"
+              title="Skewed (skew-normal)"
+              description="A lopsided bell for when big wins are more plausible than big losses."
+              isSelected={selectedShape === 'skew-normal'}
+            >
+              <Controller
+                name="alpha"
+                control={methods.control}
+                render={() => (
+                  <SkewPresetSelector
+                    value={selectedAlpha ?? advancedInputs.skewNormalAlpha}
+                    onChange={handleAlphaChange}
+                  />
+                )}
+              />
+              {alphaError && (
+                <p className="text-sm text-destructive mt-2" role="alert">
+                  {alphaError}
+                </p>
+              )}
+            </RadioCard>
           </RadioCardGroup>
         </div>
       </FormProvider>
@@ -375,6 +574,31 @@ function getDefaultValues(
     return { shape: 'uniform' };
   }
 
+  if (shape === 'log-normal') {
+    return { shape: 'log-normal' };
+  }
+
+  if (shape === 'skew-normal') {
+    return {
+      shape: 'skew-normal',
+      alpha: advancedInputs.skewNormalAlpha ?? 4, // Default to moderate if not set
+    };
+  }
+
+  if (shape === 'mixture') {
+    return {
+      shape: 'mixture',
+      spikeWeightPercent: toPercent(advancedInputs.mixtureSpikeWeight),
+    };
+  }
+
   // Default: normal
   return { shape: 'normal' };
 }
+
+/**
+ * Stored decimal chance as a form percentage, without float noise (0.35 -> 35)
+ */
+function toPercent(weight: number): number {
+  return Math.round(weight * 10000) / 100;
+}
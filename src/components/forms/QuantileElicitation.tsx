@@ -0,0 +1,173 @@
+/**
+ * Quantile Elicitation (prior step, "Quantiles" input)
+ *
+ * Lets the user describe the prior as any set of quantiles ("50% chance
+ * the lift is below +2%, 25% chance it's below 0%") instead of a 90%
+ * interval. UncertaintyPriorForm fits the selected shape to them by least
+ * squares (see lib/prior-elicitation.ts), keeping the Student-t tails and
+ * skew-normal skew picked above; this component edits the points and shows
+ * how far the fitted prior lands from each.
+ *
+ * Points commit on blur when valid, like the other inline inputs.
+ */
+
+import { Plus, X } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { quantile } from '@/lib/calculations';
+import { CommitNumberInput } from './inputs/CommitNumberInput';
+import type { QuantileFit } from '@/lib/prior-elicitation';
+import type { PriorQuantile } from '@/types/wizard';
+
+interface QuantileElicitationProps {
+  /** Elicited points, in the order entered */
+  points: PriorQuantile[];
+  /** Fit of the selected shape, or null if the points can't be fitted */
+  fit: QuantileFit | null;
+  /** Why the points can't be fitted (null when they can) */
+  error: string | null;
+  onChange: (points: PriorQuantile[]) => void;
+}
+
+/** Chances offered for added points, most familiar first */
+const NEW_POINT_CHANCES = [0.5, 0.25, 0.75, 0.1, 0.9, 0.05, 0.95];
+
+/**
+ * What the fit chose from: the shape, with its tail or skew preset fixed
+ */
+function describeFittedShape(prior: QuantileFit['prior']): string {
+  switch (prior.type) {
+    case 'student-t':
+      return 'Student-t prior with the tails you picked';
+    case 'skew-normal':
+      return 'skew-normal prior with the skew you picked';
+    default:
+      return 'prior of this shape';
+  }
+}
+
+/**
+ * Signed lift with one decimal (e.g., "+2.0%")
+ */
+function formatLift(percent: number): string {
+  return `${percent > 0 ? '+' : ''}${percent.toFixed(1)}%`;
+}
+
+export function QuantileElicitation({ points, fit, error, onChange }: QuantileElicitationProps) {
+  const updatePoint = (index: number, point: PriorQuantile) =>
+    onChange(points.map((p, i) => (i === index ? point : p)));
+
+  // A new point takes the first common chance not yet used, at the lift
+  // the current fit puts there
+  const addPoint = () => {
+    const used = new Set(points.map((p) => p.probability));
+    const probability = NEW_POINT_CHANCES.find((p) => !used.has(p)) ?? 0.5;
+    const liftPercent = fit ? Math.round(quantile(probability, fit.prior) * 1000) / 10 : 0;
+    onChange([...points, { probability, liftPercent }]);
+  };
+
+  return (
+    <div className="space-y-4">
+      <p className="text-sm text-muted-foreground">
+        Give as many points as you can: for each, the chance the true lift is below a value.
+      </p>
+
+      <ul className="space-y-2">
+        {points.map((point, index) => (
+          <li
+            key={`${index}-${point.probability}-${point.liftPercent}`}
+            className="flex flex-wrap items-start gap-2 text-sm"
+          >
+            <CommitNumberInput
+              inline
+              label={`Chance for point ${index + 1}`}
+              value={Math.round(point.probability * 10000) / 100}
+              suffix="%"
+              validate={(value) =>
+                value > 0 && value < 100 ? null : 'Between 0% and 100%'
+              }
+              onCommit={(value) => updatePoint(index, { ...point, probability: value / 100 })}
+            />
+            <span className="py-2 text-muted-foreground">chance the lift is below</span>
+            <CommitNumberInput
+              inline
+              label={`Lift for point ${index + 1}`}
+              value={point.liftPercent}
+              suffix="%"
+              validate={() => null}
+              onCommit={(value) => updatePoint(index, { ...point, liftPercent: value })}
+            />
+            {points.length > 2 && (
+              <Button
+                type="button"
+                variant="ghost"
+                size="sm"
+                aria-label={`Remove point ${index + 1}`}
+                onClick={() => onChange(points.filter((_, i) => i !== index))}
+              >
+                <X className="size-4" />
+              </Button>
+            )}
+          </li>
+        ))}
+      </ul>
+
+      <Button type="button" variant="outline" size="sm" onClick={addPoint}>
+        <Plus className="size-4" />
+        Add a point
+      </Button>
+
+      {error && (
+        <p role="alert" className="text-sm text-destructive">
+          {error}
+        </p>
+      )}
+
+      {/* Residuals: where the fitted prior puts each point */}
+      {fit && (
+        <div className="space-y-2">
+          <p className="text-sm font-medium text-foreground">How well the prior fits your points</p>
+          <div className="overflow-x-auto">
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="border-b border-border text-left">
+                  <th scope="col" className="py-2 pr-3 font-medium text-muted-foreground">
+                    Chance below
+                  </th>
+                  <th scope="col" className="py-2 pr-3 font-medium text-muted-foreground">
+                    You said
+                  </th>
+                  <th scope="col" className="py-2 pr-3 font-medium text-muted-foreground">
+                    Fitted prior
+                  </th>
+                  <th scope="col" className="py-2 pr-3 font-medium text-muted-foreground">
+                    Off by
+                  </th>
+                </tr>
+              </thead>
+              <tbody>
+                {fit.residuals.map((residual) => (
+                  <tr key={residual.probability} className="border-b border-border last:border-0">
+                    <td className="py-2 pr-3 tabular-nums">
+                      {Math.round(residual.probability * 1000) / 10}%
+                    </td>
+                    <td className="py-2 pr-3 tabular-nums">{formatLift(residual.elicitedPercent)}</td>
+                    <td className="py-2 pr-3 tabular-nums">{formatLift(residual.fittedPercent)}</td>
+                    <td className="py-2 pr-3 tabular-nums">
+                      {residual.residualPercent > 0 ? '+' : ''}
+                      {residual.residualPercent.toFixed(1)} pts
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+          <p className="text-xs text-muted-foreground">
+            {fit.rmsResidualPercent < 0.05
+              ? 'The prior passes through every point.'
+              : `The closest ${describeFittedShape(fit.prior)} misses your points by ${fit.rmsResidualPercent.toFixed(1)} points on average (root mean square). A large miss suggests another shape or setting fits your beliefs better.`}
+          </p>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,188 @@
+/**
+ * Traffic Split Optimizer (Advanced mode)
+ *
+ * Sits under the variant allocation field in ExperimentDesignForm. Two
+ * searches, both run in the worker:
+ * - Best split at the entered duration (10-90%), plotted as a curve
+ * - Split × duration heatmap (weekly, 1-12 weeks), to pick both at once
+ *
+ * The best design is offered as a one-click fill-in (written back with
+ * setAdvancedInput; the form re-syncs from the store).
+ */
+
+import { Grid3x3, Loader2, Sparkles, X } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { DesignHeatmap, SplitChart } from '@/components/charts';
+import { useDesignGridOptimizer, useSplitOptimizer } from '@/hooks/useSplitOptimizer';
+import type { DesignSweepStatus } from '@/hooks/useDesignSweep';
+import { useWizardStore } from '@/stores/wizardStore';
+import { formatSmartCurrency } from '@/lib/formatting';
+
+/**
+ * Decimal split as a whole percent (e.g., 0.35 -> 35)
+ */
+function toPercent(split: number): number {
+  return Math.round(split * 100);
+}
+
+interface SweepProgressBarProps {
+  label: string;
+  progress: number;
+  onCancel: () => void;
+}
+
+function SweepProgressBar({ label, progress, onCancel }: SweepProgressBarProps) {
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center justify-between gap-2">
+        <p className="flex items-center gap-2 text-xs text-muted-foreground">
+          <Loader2 className="size-3 animate-spin" />
+          Simulating each design... {Math.round(progress * 100)}%
+        </p>
+        <Button type="button" variant="ghost" size="sm" onClick={onCancel}>
+          <X className="size-4" />
+          Cancel
+        </Button>
+      </div>
+      <div
+        role="progressbar"
+        aria-label={label}
+        aria-valuemin={0}
+        aria-valuemax={100}
+        aria-valuenow={Math.round(progress * 100)}
+        className="h-1.5 rounded-full bg-muted overflow-hidden"
+      >
+        <div className="h-full bg-primary transition-[width]" style={{ width: `${progress * 100}%` }} />
+      </div>
+    </div>
+  );
+}
+
+/**
+ * Messages shared by both searches for the incomplete and error states
+ */
+function SweepStatusMessage({ status, needs }: { status: DesignSweepStatus; needs: string }) {
+  if (status === 'incomplete') {
+    return (
+      <p className="text-xs text-muted-foreground">
+        Fill in the earlier sections and daily traffic first; the search needs everything
+        except {needs}.
+      </p>
+    );
+  }
+  if (status === 'error') {
+    return (
+      <p role="alert" className="text-xs text-destructive">
+        The split search couldn't run. Please try again.
+      </p>
+    );
+  }
+  return null;
+}
+
+export function SplitOptimizer() {
+  const trafficSplit = useWizardStore((state) => state.inputs.advanced.trafficSplit);
+  const testDurationDays = useWizardStore((state) => state.inputs.advanced.testDurationDays);
+  const setAdvancedInput = useWizardStore((state) => state.setAdvancedInput);
+
+  const split = useSplitOptimizer();
+  const grid = useDesignGridOptimizer();
+
+  const running = split.status === 'running' || grid.status === 'running';
+  const currentPercent = trafficSplit != null ? toPercent(trafficSplit) : null;
+  const splitResults = split.status === 'done' ? split.results : null;
+  const gridBest = grid.status === 'done' ? grid.results?.best : undefined;
+
+  return (
+    <div className="rounded-lg border border-border/60 bg-muted/20 p-3 space-y-3">
+      {!running && (
+        <div className="flex flex-wrap items-center justify-between gap-2">
+          <p className="text-xs text-muted-foreground">
+            50/50 isn't always best. Compare net value for 10-90% to the variant.
+          </p>
+          <div className="flex flex-wrap gap-2">
+            <Button type="button" variant="outline" size="sm" onClick={split.run}>
+              <Sparkles className="size-4" />
+              {split.results ? 'Re-run' : 'Find the best split'}
+            </Button>
+            <Button type="button" variant="outline" size="sm" onClick={grid.run}>
+              <Grid3x3 className="size-4" />
+              {grid.results ? 'Re-run heatmap' : 'Split × duration heatmap'}
+            </Button>
+          </div>
+        </div>
+      )}
+
+      {split.status === 'running' && (
+        <SweepProgressBar
+          label="Split search progress"
+          progress={split.progress}
+          onCancel={split.cancel}
+        />
+      )}
+      {grid.status === 'running' && (
+        <SweepProgressBar
+          label="Split and duration search progress"
+          progress={grid.progress}
+          onCancel={grid.cancel}
+        />
+      )}
+
+      <SweepStatusMessage status={split.status} needs="the split" />
+      <SweepStatusMessage status={grid.status} needs="the split and duration" />
+
+      {splitResults && (
+        <div className="space-y-2">
+          <SplitChart
+            points={splitResults.points}
+            bestSplit={splitResults.bestSplit}
+            bestNetValueDollars={splitResults.bestNetValueDollars}
+            currentSplit={trafficSplit}
+          />
+          <div className="flex flex-wrap items-center justify-between gap-2">
+            <p className="text-sm text-foreground">
+              Net value peaks at <strong>{toPercent(splitResults.bestSplit)}% to the variant</strong>{' '}
+              ({formatSmartCurrency(splitResults.bestNetValueDollars)}).
+            </p>
+            {currentPercent !== toPercent(splitResults.bestSplit) && (
+              <Button
+                type="button"
+                size="sm"
+                onClick={() => setAdvancedInput('trafficSplit', splitResults.bestSplit)}
+              >
+                Use {toPercent(splitResults.bestSplit)}%
+              </Button>
+            )}
+          </div>
+        </div>
+      )}
+
+      {grid.results && gridBest && (
+        <div className="space-y-2">
+          <DesignHeatmap grid={grid.results} />
+          <div className="flex flex-wrap items-center justify-between gap-2">
+            <p className="text-sm text-foreground">
+              Best design: <strong>{toPercent(gridBest.trafficSplit)}%</strong> for{' '}
+              <strong>{gridBest.testDurationDays} days</strong> (
+              {formatSmartCurrency(gridBest.netValueDollars)}).
+            </p>
+            {(currentPercent !== toPercent(gridBest.trafficSplit) ||
+              testDurationDays !== gridBest.testDurationDays) && (
+              <Button
+                type="button"
+                size="sm"
+                onClick={() => {
+                  setAdvancedInput('trafficSplit', gridBest.trafficSplit);
+                  setAdvancedInput('testDurationDays', gridBest.testDurationDays);
+                }}
+              >
+                Use {toPercent(gridBest.trafficSplit)}% for{' '}
+                {gridBest.testDurationDays} days
+              </Button>
+            )}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
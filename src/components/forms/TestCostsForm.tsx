@@ -0,0 +1,176 @@
+/**
+ * Test Costs Form
+ *
+ * Collects what running the test costs, apart from the value it loses
+ * while running (the Cost of Delay, already in the net value):
+ * - Engineering hours to build and launch it
+ * - Analyst hours to design, monitor and read it out
+ * - Loaded hourly rate for that time
+ * - Tooling cost attributed to this test
+ *
+ * The total is weighed against the test's value in the results, as an ROI
+ * and a run / don't run verdict. Everything defaults to zero cost, so the
+ * step can be passed through.
+ *
+ * Per CONTEXT.md:
+ * - Validation errors appear on blur only (not while typing)
+ * - Continue button always enabled; clicking with invalid inputs shows errors
+ */
+
+import { useEffect, useImperativeHandle, forwardRef, useCallback } from 'react';
+import { useForm, useWatch, FormProvider } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { testCostsSchema, type TestCostsFormData } from '@/lib/validation';
+import { deriveTestCostDollars } from '@/lib/derive-inputs';
+import { formatSmartCurrency } from '@/lib/formatting';
+import { useWizardStore } from '@/stores/wizardStore';
+import { NumberInput } from './inputs/NumberInput';
+import { CurrencyInput } from './inputs/CurrencyInput';
+
+/**
+ * Ref handle exposed by TestCostsForm for parent validation trigger
+ */
+export interface TestCostsFormHandle {
+  /** Validate the form and return true if valid, triggering error display if not */
+  validate: () => Promise<boolean>;
+}
+
+/**
+ * Test costs form with validation on blur
+ */
+export const TestCostsForm = forwardRef<TestCostsFormHandle>(
+  function TestCostsForm(_props, ref) {
+    // Get store values and setters
+    const sharedInputs = useWizardStore((state) => state.inputs.shared);
+    const setSharedInput = useWizardStore((state) => state.setSharedInput);
+
+    // Initialize form with react-hook-form and Zod validation
+    const methods = useForm<TestCostsFormData>({
+      resolver: zodResolver(testCostsSchema),
+      mode: 'onBlur', // Validate on blur per CONTEXT.md
+      reValidateMode: 'onBlur', // Re-validate on blur, not while typing
+      defaultValues: {
+        engineeringHours: sharedInputs.engineeringHours,
+        analystHours: sharedInputs.analystHours,
+        hourlyRate: sharedInputs.hourlyRate,
+        toolingCostPerTest: sharedInputs.toolingCostPerTest,
+      },
+    });
+
+    const {
+      handleSubmit,
+      trigger,
+      control,
+      setValue,
+      formState: { errors },
+    } = methods;
+
+    /**
+     * Handle successful form submission - store values in Zustand
+     */
+    const onSubmit = useCallback(
+      (data: TestCostsFormData) => {
+        setSharedInput('engineeringHours', data.engineeringHours);
+        setSharedInput('analystHours', data.analystHours);
+        setSharedInput('hourlyRate', data.hourlyRate);
+        setSharedInput('toolingCostPerTest', data.toolingCostPerTest);
+      },
+      [setSharedInput]
+    );
+
+    /**
+     * Expose validate method to parent via ref
+     * Returns true if form is valid and data is stored
+     */
+    useImperativeHandle(
+      ref,
+      () => ({
+        validate: async () => {
+          const isValid = await trigger();
+          if (isValid) {
+            // Manually trigger submission to store values
+            await handleSubmit(onSubmit)();
+          }
+          return isValid;
+        },
+      }),
+      [trigger, handleSubmit, onSubmit]
+    );
+
+    // Sync form with store changes (e.g., if store is reset or a scenario loads)
+    useEffect(() => {
+      setValue('engineeringHours', sharedInputs.engineeringHours);
+      setValue('analystHours', sharedInputs.analystHours);
+      setValue('hourlyRate', sharedInputs.hourlyRate);
+      setValue('toolingCostPerTest', sharedInputs.toolingCostPerTest);
+    }, [
+      sharedInputs.engineeringHours,
+      sharedInputs.analystHours,
+      sharedInputs.hourlyRate,
+      sharedInputs.toolingCostPerTest,
+      setValue,
+    ]);
+
+    // Running total of the entered values (ignores fields not yet valid)
+    const values = useWatch({ control });
+    const totalCost = deriveTestCostDollars({
+      engineeringHours: Math.max(0, values.engineeringHours || 0),
+      analystHours: Math.max(0, values.analystHours || 0),
+      hourlyRate: Math.max(0, values.hourlyRate || 0),
+      toolingCostPerTest: Math.max(0, values.toolingCostPerTest || 0),
+    });
+
+    return (
+      <FormProvider {...methods}>
+        <form className="space-y-6" onSubmit={(e) => e.preventDefault()}>
+          {/* Section intro */}
+          <div className="space-y-1">
+            <h3 className="text-lg font-semibold text-foreground">What does the test cost?</h3>
+            <p className="text-sm text-muted-foreground">
+              The results weigh this against what the test is worth. Leave at zero to skip.
+            </p>
+          </div>
+
+          <NumberInput
+            name="engineeringHours"
+            label="Engineering time"
+            placeholder="40"
+            suffix="hours"
+            helpText="Building the variant, instrumenting it, and cleaning up afterwards."
+            error={errors.engineeringHours?.message}
+          />
+
+          <NumberInput
+            name="analystHours"
+            label="Analyst time"
+            placeholder="10"
+            suffix="hours"
+            helpText="Designing the test, monitoring it and reading out the results."
+            error={errors.analystHours?.message}
+          />
+
+          <CurrencyInput
+            name="hourlyRate"
+            label="Cost per hour"
+            placeholder="$100"
+            helpText="Loaded cost of an hour of engineering or analyst time (salary, benefits and overhead)."
+            error={errors.hourlyRate?.message}
+          />
+
+          <CurrencyInput
+            name="toolingCostPerTest"
+            label="Tooling cost for this test"
+            placeholder="$0"
+            helpText="Your experimentation platform's cost for one test, e.g. its annual fee divided by the tests you run a year."
+            error={errors.toolingCostPerTest?.message}
+          />
+
+          <p className="text-sm text-foreground">
+            Total test cost:{' '}
+            <span className="font-semibold">{formatSmartCurrency(totalCost)}</span>
+          </p>
+        </form>
+      </FormProvider>
+    );
+  }
+);
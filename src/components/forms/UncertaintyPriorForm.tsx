@@ -20,6 +20,15 @@
  * Advanced Mode (05-CONTEXT.md):
  * - Shows PriorShapeForm above interval inputs for shape selection
  * - For Uniform prior, interval inputs become distribution bounds
+ *
+ * Quantiles: instead of the interval, the user can give any set of
+ * quantiles (QuantileElicitation). The selected shape (Normal in Basic
+ * mode) is fitted to them by least squares and the fit is written back to
+ * the interval, so the calculations read the interval either way.
+ *
+ * Past experiments: EmpiricalPriorImport fits a Normal prior to the
+ * organization's past results; applying it sets the interval (and, in
+ * Advanced mode, the Normal shape).
  */
 
 import {
@@ -29,6 +38,7 @@ import {
   useCallback,
   useState,
   useRef,
+  useMemo,
 } from 'react';
 import { useForm, FormProvider, Controller } from 'react-hook-form';
 import { zodResolver } from '@hookform/resolvers/zod';
@@ -39,14 +49,28 @@ import {
 import { DEFAULT_INTERVAL, computePriorFromInterval } from '@/lib/prior';
 import { useWizardStore } from '@/stores/wizardStore';
 import { useEVPICalculations } from '@/hooks/useEVPICalculations';
-import { deriveK } from '@/lib/calculations';
+import { deriveK, getPriorMean, quantile } from '@/lib/calculations';
+import { buildPriorDistribution, deriveMetric } from '@/lib/derive-inputs';
+import {
+  fitPriorToQuantiles,
+  isElicitationShape,
+  validatePriorQuantiles,
+  type ElicitationShape,
+} from '@/lib/prior-elicitation';
+import type { EmpiricalPriorFit } from '@/lib/empirical-prior';
 import { PriorDistributionChart, PriorDistributionChartLegacy } from '@/components/charts';
-import type { PriorDistribution } from '@/lib/calculations';
 import { PriorShapeForm, type PriorShapeFormHandle } from './PriorShapeForm';
+import { QuantileElicitation } from './QuantileElicitation';
+import { EmpiricalPriorImport } from './EmpiricalPriorImport';
 import { InfoTooltip } from './inputs/InfoTooltip';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
+import { ToggleGroup, ToggleGroupItem } from '@/components/ui/toggle-group';
 import { cn } from '@/lib/utils';
+import type { AdvancedInputs, Mode, PriorQuantile } from '@/types/wizard';
+
+const TOGGLE_ITEM_CLASS =
+  'rounded-md px-3 py-1.5 text-sm font-medium data-[state=on]:bg-card data-[state=on]:text-foreground data-[state=on]:shadow-sm data-[state=off]:text-muted-foreground';
 
 /**
  * Ref handle exposed by UncertaintyPriorForm for parent validation trigger
@@ -56,6 +80,18 @@ export interface UncertaintyPriorFormHandle {
   validate: () => Promise<boolean>;
 }
 
+/**
+ * Shape a quantile fit uses: the selected shape in Advanced mode, Normal in
+ * Basic mode; null for shapes a quantile fit doesn't support
+ */
+function getElicitationShape(
+  mode: Mode,
+  advanced: Pick<AdvancedInputs, 'priorShape'>
+): ElicitationShape | null {
+  const shape = mode === 'advanced' ? (advanced.priorShape ?? 'normal') : 'normal';
+  return isElicitationShape(shape) ? shape : null;
+}
+
 /**
  * Get the asymmetry explanation message based on implied mean
  * Per CONTEXT.md: Show message when |mean| > 0.5 (percentage points)
@@ -89,58 +125,6 @@ function getAsymmetryMessage(impliedMeanPercent: number): string | null {
   }
 }
 
-/**
- * Build a PriorDistribution object based on the selected shape
- *
- * Used in Advanced mode to provide the chart with the full prior specification.
- *
- * @param shape - Selected prior shape ('normal', 'student-t', 'uniform')
- * @param normalParams - Normal distribution parameters (mu_L, sigma_L)
- * @param studentTDf - Degrees of freedom for Student-t (3, 5, or 10)
- * @param intervalLow - Low bound of 90% interval (percentage, e.g., -8.22)
- * @param intervalHigh - High bound of 90% interval (percentage, e.g., 8.22)
- */
-function buildPriorDistribution(
-  shape: 'normal' | 'student-t' | 'uniform',
-  normalParams: { mu_L: number; sigma_L: number },
-  studentTDf: 3 | 5 | 10 | null,
-  intervalLow: number | null,
-  intervalHigh: number | null
-): PriorDistribution {
-  switch (shape) {
-    case 'normal':
-      return {
-        type: 'normal',
-        mu_L: normalParams.mu_L,
-        sigma_L: normalParams.sigma_L,
-      };
-
-    case 'student-t':
-      return {
-        type: 'student-t',
-        mu_L: normalParams.mu_L,
-        sigma_L: normalParams.sigma_L,
-        df: studentTDf ?? 5, // Default to moderate tails
-      };
-
-    case 'uniform':
-      // Uniform uses interval bounds directly (convert percentage to decimal)
-      return {
-        type: 'uniform',
-        low_L: (intervalLow ?? DEFAULT_INTERVAL.low) / 100,
-        high_L: (intervalHigh ?? DEFAULT_INTERVAL.high) / 100,
-      };
-
-    default:
-      // Fallback to Normal
-      return {
-        type: 'normal',
-        mu_L: normalParams.mu_L,
-        sigma_L: normalParams.sigma_L,
-      };
-  }
-}
-
 /**
  * Uncertainty prior form with default/custom selection and interval inputs
  */
@@ -151,6 +135,7 @@ export const UncertaintyPriorForm = forwardRef<UncertaintyPriorFormHandle>(
     const sharedInputs = useWizardStore((state) => state.inputs.shared);
     const advancedInputs = useWizardStore((state) => state.inputs.advanced);
     const setSharedInput = useWizardStore((state) => state.setSharedInput);
+    const setAdvancedInput = useWizardStore((state) => state.setAdvancedInput);
 
     // Ref for PriorShapeForm validation (Advanced mode only)
     const priorShapeFormRef = useRef<PriorShapeFormHandle>(null);
@@ -158,20 +143,42 @@ export const UncertaintyPriorForm = forwardRef<UncertaintyPriorFormHandle>(
     // Check if Uniform prior is selected (Advanced mode)
     const isUniformPrior =
       mode === 'advanced' && advancedInputs.priorShape === 'uniform';
+    const isMixturePrior =
+      mode === 'advanced' && advancedInputs.priorShape === 'mixture';
+
+    // Quantile input: fits the selected shape (Normal in Basic mode), if it
+    // is one a quantile fit supports
+    const elicitationShape = getElicitationShape(mode, advancedInputs);
+    const priorQuantiles = sharedInputs.priorQuantiles;
+    const isQuantileMode = priorQuantiles !== null && elicitationShape !== null;
+    const { studentTDf, skewNormalAlpha } = advancedInputs;
+    const quantileFit = useMemo(
+      () =>
+        priorQuantiles !== null && elicitationShape !== null
+          ? fitPriorToQuantiles(priorQuantiles, elicitationShape, { studentTDf, skewNormalAlpha })
+          : null,
+      [priorQuantiles, elicitationShape, studentTDf, skewNormalAlpha]
+    );
+    const quantileError =
+      priorQuantiles !== null && elicitationShape !== null && !quantileFit
+        ? (validatePriorQuantiles(priorQuantiles, elicitationShape) ??
+          'These points cannot be fitted')
+        : null;
 
     // Get EVPI results for chart props (null if inputs incomplete)
     // This provides threshold_L and K when user has completed all sections
     const evpiResults = useEVPICalculations();
 
     // Derive K from baseline inputs if available (for chart before EVPI completes)
-    // K = N_year * CR0 * V (dollars per unit lift)
+    // K = N_year * baseline * V (dollars per unit lift)
+    const derivedMetric = deriveMetric(sharedInputs);
     const derivedK =
       sharedInputs.annualVisitors !== null &&
-      sharedInputs.baselineConversionRate !== null &&
+      derivedMetric !== null &&
       sharedInputs.valuePerConversion !== null
         ? deriveK(
             sharedInputs.annualVisitors,
-            sharedInputs.baselineConversionRate,
+            derivedMetric.baseline,
             sharedInputs.valuePerConversion
           )
         : null;
@@ -220,17 +227,35 @@ export const UncertaintyPriorForm = forwardRef<UncertaintyPriorFormHandle>(
     const intervalLow = watch('intervalLow');
     const intervalHigh = watch('intervalHigh');
 
-    // Compute implied mean and prior parameters
-    const impliedMeanPercent =
-      intervalLow !== undefined && intervalHigh !== undefined
-        ? (intervalLow + intervalHigh) / 2
-        : 0;
-
     const priorParams =
       intervalLow !== undefined && intervalHigh !== undefined
         ? computePriorFromInterval(intervalLow, intervalHigh)
         : null;
 
+    // Advanced mode: the full prior for the selected shape, for the chart
+    const advancedPrior =
+      mode === 'advanced' &&
+      intervalLow !== undefined &&
+      intervalHigh !== undefined &&
+      intervalHigh > intervalLow
+        ? buildPriorDistribution(
+            { priorIntervalLow: intervalLow, priorIntervalHigh: intervalHigh },
+            advancedInputs.priorShape ?? 'normal',
+            advancedInputs
+          )
+        : null;
+    const isSkewedPrior =
+      advancedPrior?.type === 'log-normal' || advancedPrior?.type === 'skew-normal';
+
+    // Implied mean: the midpoint, except for skewed shapes whose mean sits
+    // toward the long tail
+    const impliedMeanPercent =
+      advancedPrior && isSkewedPrior
+        ? getPriorMean(advancedPrior) * 100
+        : intervalLow !== undefined && intervalHigh !== undefined
+          ? (intervalLow + intervalHigh) / 2
+          : 0;
+
     // Get asymmetry message
     const asymmetryMessage = getAsymmetryMessage(impliedMeanPercent);
 
@@ -273,6 +298,11 @@ export const UncertaintyPriorForm = forwardRef<UncertaintyPriorFormHandle>(
             }
           }
 
+          // Quantile input needs points the shape can be fitted to
+          if (isQuantileMode && !quantileFit) {
+            return false;
+          }
+
           const isValid = await trigger();
           if (isValid) {
             // Manually trigger submission to store values
@@ -281,7 +311,7 @@ export const UncertaintyPriorForm = forwardRef<UncertaintyPriorFormHandle>(
           return isValid;
         },
       }),
-      [trigger, handleSubmit, onSubmit, mode]
+      [trigger, handleSubmit, onSubmit, mode, isQuantileMode, quantileFit]
     );
 
     /**
@@ -295,12 +325,35 @@ export const UncertaintyPriorForm = forwardRef<UncertaintyPriorFormHandle>(
       // Update display values to match
       setIntervalLowDisplay(String(DEFAULT_INTERVAL.low));
       setIntervalHighDisplay(String(DEFAULT_INTERVAL.high));
-      // Also store immediately
+      // Also store immediately (the default is an interval, not quantiles)
+      setSharedInput('priorQuantiles', null);
       setSharedInput('priorType', 'default');
       setSharedInput('priorIntervalLow', DEFAULT_INTERVAL.low);
       setSharedInput('priorIntervalHigh', DEFAULT_INTERVAL.high);
     }, [setValue, setSharedInput]);
 
+    /**
+     * Apply a prior fitted to past experiments
+     * The fit is Normal, so Advanced mode switches to the Normal shape
+     */
+    const handleApplyEmpiricalPrior = useCallback(
+      (fit: EmpiricalPriorFit) => {
+        setValue('priorType', 'custom');
+        setValue('intervalLow', fit.intervalLowPercent);
+        setValue('intervalHigh', fit.intervalHighPercent);
+        setIntervalLowDisplay(String(fit.intervalLowPercent));
+        setIntervalHighDisplay(String(fit.intervalHighPercent));
+        setSharedInput('priorQuantiles', null);
+        setSharedInput('priorType', 'custom');
+        setSharedInput('priorIntervalLow', fit.intervalLowPercent);
+        setSharedInput('priorIntervalHigh', fit.intervalHighPercent);
+        if (mode === 'advanced') {
+          setAdvancedInput('priorShape', 'normal');
+        }
+      },
+      [setValue, setSharedInput, setAdvancedInput, mode]
+    );
+
     /**
      * When interval fields change, set priorType to 'custom'
      * The priorType will be derived at validation time based on actual values
@@ -309,6 +362,59 @@ export const UncertaintyPriorForm = forwardRef<UncertaintyPriorFormHandle>(
       setValue('priorType', 'custom');
     }, [setValue]);
 
+    /**
+     * Store quantiles and write their fit back to the interval the
+     * calculations read. The shape comes from the store, so this also
+     * refits after a shape change.
+     */
+    const handleQuantilesChange = useCallback(
+      (points: PriorQuantile[]) => {
+        setSharedInput('priorQuantiles', points);
+        const { mode: currentMode, inputs } = useWizardStore.getState();
+        const shape = getElicitationShape(currentMode, inputs.advanced);
+        const fit = shape && fitPriorToQuantiles(points, shape, inputs.advanced);
+        if (fit) {
+          setSharedInput('priorIntervalLow', fit.intervalLowPercent);
+          setSharedInput('priorIntervalHigh', fit.intervalHighPercent);
+          setValue('priorType', 'custom');
+        }
+      },
+      [setSharedInput, setValue]
+    );
+
+    /**
+     * Refit the quantiles (if in use) to a new shape or preset
+     */
+    const handleShapeChange = useCallback(() => {
+      const { priorQuantiles: points } = useWizardStore.getState().inputs.shared;
+      if (points !== null) {
+        handleQuantilesChange(points);
+      }
+    }, [handleQuantilesChange]);
+
+    /**
+     * Switch between entering a 90% interval and quantiles
+     * Quantile input starts from the current prior's 5th, 50th and 95th percentiles
+     */
+    const handleInputStyleChange = useCallback(
+      (value: string) => {
+        if (value === 'interval') {
+          setSharedInput('priorQuantiles', null);
+        } else if (value === 'quantiles') {
+          const startPrior = advancedPrior ?? {
+            type: 'normal' as const,
+            ...(priorParams ?? computePriorFromInterval(DEFAULT_INTERVAL.low, DEFAULT_INTERVAL.high)),
+          };
+          const points: PriorQuantile[] = [0.05, 0.5, 0.95].map((probability) => ({
+            probability,
+            liftPercent: Math.round(quantile(probability, startPrior) * 1000) / 10,
+          }));
+          handleQuantilesChange(points);
+        }
+      },
+      [setSharedInput, handleQuantilesChange, advancedPrior, priorParams]
+    );
+
     // Sync form with store changes (e.g., if store is reset or back nav)
     // Note: priorType is derived at validation time, so we only sync interval values
     //
@@ -352,13 +458,21 @@ export const UncertaintyPriorForm = forwardRef<UncertaintyPriorFormHandle>(
           {/* Prior Shape Form (Advanced mode only) */}
           {mode === 'advanced' && (
             <>
-              <PriorShapeForm ref={priorShapeFormRef} onUseDefaultPrior={handleUseDefault} />
+              <PriorShapeForm
+                ref={priorShapeFormRef}
+                onUseDefaultPrior={handleUseDefault}
+                onShapeChange={handleShapeChange}
+              />
               {/* Divider between shape selector and interval inputs */}
               <div className="border-t border-border pt-6">
                 <p className="text-sm font-medium text-foreground mb-4">
                   {isUniformPrior
                     ? 'Define the bounds of your uniform distribution:'
-                    : 'Specify your 90% credible interval:'}
+                    : isMixturePrior
+                      ? 'Specify your 90% credible interval for the lift, if the change has an effect:'
+                      : isQuantileMode
+                        ? 'Describe your beliefs as quantiles:'
+                        : 'Specify your 90% credible interval:'}
                 </p>
               </div>
             </>
@@ -400,174 +514,212 @@ export const UncertaintyPriorForm = forwardRef<UncertaintyPriorFormHandle>(
             {mode === 'basic' && (
               <div className="flex items-center gap-2">
                 <Label className="text-sm font-medium text-foreground">
-                  Or specify your own 90% credible interval:
+                  {isQuantileMode
+                    ? 'Or describe your beliefs as quantiles:'
+                    : 'Or specify your own 90% credible interval:'}
                 </Label>
                 <InfoTooltip content="This means you're 90% confident the true effect falls within this range." />
               </div>
             )}
 
-            {/* Helper text for Uniform prior in Advanced mode */}
-            {isUniformPrior && (
-              <p className="text-xs text-muted-foreground">
-                These bounds define the edges of your uniform distribution.
-              </p>
+            {/* Interval or quantile input (shapes a quantile fit supports) */}
+            {elicitationShape !== null ? (
+              <ToggleGroup
+                type="single"
+                value={isQuantileMode ? 'quantiles' : 'interval'}
+                onValueChange={handleInputStyleChange}
+                className="rounded-lg bg-surface p-1 w-fit"
+                aria-label="How to enter your prior"
+              >
+                <ToggleGroupItem value="interval" className={TOGGLE_ITEM_CLASS}>
+                  90% interval
+                </ToggleGroupItem>
+                <ToggleGroupItem value="quantiles" className={TOGGLE_ITEM_CLASS}>
+                  Quantiles
+                </ToggleGroupItem>
+              </ToggleGroup>
+            ) : (
+              priorQuantiles !== null && (
+                <p className="text-xs text-muted-foreground">
+                  Quantiles can be fitted with the Normal, Student-t, log-normal and
+                  skew-normal shapes; this shape uses the interval below.
+                </p>
+              )
             )}
 
-            <div className="grid grid-cols-2 gap-4">
-              {/* Lower bound input */}
-              <div className="space-y-2">
-                <Label
-                  htmlFor="intervalLow"
-                  className="text-sm text-muted-foreground"
-                >
-                  {isUniformPrior
-                    ? 'Minimum possible lift'
-                    : "I'm 90% sure the lift is at least"}
-                </Label>
-                <Controller
-                  name="intervalLow"
-                  control={control}
-                  render={({ field }) => (
-                    <div className="relative">
-                      <Input
-                        id="intervalLow"
-                        type="text"
-                        inputMode="decimal"
-                        placeholder="-5"
-                        className={cn(
-                          'pr-6',
-                          errors.intervalLow && 'border-destructive'
-                        )}
-                        // When focused, show raw string to allow typing "-" or "."
-                        // When blurred, show the form value (number converted to string)
-                        value={
-                          intervalLowFocused
-                            ? intervalLowDisplay
-                            : field.value !== undefined && field.value !== null
-                              ? String(field.value)
-                              : ''
-                        }
-                        onChange={(e) => {
-                          // Store raw string in local state (allows "-", ".", etc.)
-                          setIntervalLowDisplay(e.target.value);
-                        }}
-                        onFocus={() => {
-                          setIntervalLowFocused(true);
-                          // Initialize display value from current form value
-                          const val = field.value;
-                          setIntervalLowDisplay(
-                            val !== undefined && val !== null ? String(val) : ''
-                          );
-                        }}
-                        onBlur={() => {
-                          setIntervalLowFocused(false);
-                          // Parse and propagate to form on blur
-                          const trimmed = intervalLowDisplay.trim();
-                          if (
-                            trimmed === '' ||
-                            trimmed === '-' ||
-                            trimmed === '.'
-                          ) {
-                            field.onChange(undefined);
-                          } else {
-                            const parsed = parseFloat(trimmed);
-                            field.onChange(
-                              Number.isNaN(parsed) ? undefined : parsed
-                            );
-                          }
-                          field.onBlur();
-                          handleIntervalChange();
-                        }}
-                      />
-                      <span className="absolute right-3 top-1/2 -translate-y-1/2 text-muted-foreground text-sm">
-                        %
-                      </span>
-                    </div>
-                  )}
-                />
-                {errors.intervalLow && (
-                  <p className="text-sm text-destructive">
-                    {errors.intervalLow.message}
+            {isQuantileMode ? (
+              <QuantileElicitation
+                points={priorQuantiles}
+                fit={quantileFit}
+                error={quantileError}
+                onChange={handleQuantilesChange}
+              />
+            ) : (
+              <>
+                {/* Helper text for Uniform prior in Advanced mode */}
+                {isUniformPrior && (
+                  <p className="text-xs text-muted-foreground">
+                    These bounds define the edges of your uniform distribution.
                   </p>
                 )}
-              </div>
 
-              {/* Upper bound input */}
-              <div className="space-y-2">
-                <Label
-                  htmlFor="intervalHigh"
-                  className="text-sm text-muted-foreground"
-                >
-                  {isUniformPrior ? 'Maximum possible lift' : 'and at most'}
-                </Label>
-                <Controller
-                  name="intervalHigh"
-                  control={control}
-                  render={({ field }) => (
-                    <div className="relative">
-                      <Input
-                        id="intervalHigh"
-                        type="text"
-                        inputMode="decimal"
-                        placeholder="10"
-                        className={cn(
-                          'pr-6',
-                          errors.intervalHigh && 'border-destructive'
-                        )}
-                        // When focused, show raw string to allow typing "-" or "."
-                        // When blurred, show the form value (number converted to string)
-                        value={
-                          intervalHighFocused
-                            ? intervalHighDisplay
-                            : field.value !== undefined && field.value !== null
-                              ? String(field.value)
-                              : ''
-                        }
-                        onChange={(e) => {
-                          // Store raw string in local state (allows "-", ".", etc.)
-                          setIntervalHighDisplay(e.target.value);
-                        }}
-                        onFocus={() => {
-                          setIntervalHighFocused(true);
-                          // Initialize display value from current form value
-                          const val = field.value;
-                          setIntervalHighDisplay(
-                            val !== undefined && val !== null ? String(val) : ''
-                          );
-                        }}
-                        onBlur={() => {
-                          setIntervalHighFocused(false);
-                          // Parse and propagate to form on blur
-                          const trimmed = intervalHighDisplay.trim();
-                          if (
-                            trimmed === '' ||
-                            trimmed === '-' ||
-                            trimmed === '.'
-                          ) {
-                            field.onChange(undefined);
-                          } else {
-                            const parsed = parseFloat(trimmed);
-                            field.onChange(
-                              Number.isNaN(parsed) ? undefined : parsed
-                            );
-                          }
-                          field.onBlur();
-                          handleIntervalChange();
-                        }}
-                      />
-                      <span className="absolute right-3 top-1/2 -translate-y-1/2 text-muted-foreground text-sm">
-                        %
-                      </span>
-                    </div>
-                  )}
-                />
-                {errors.intervalHigh && (
-                  <p className="text-sm text-destructive">
-                    {errors.intervalHigh.message}
-                  </p>
-                )}
-              </div>
-            </div>
+                <div className="grid grid-cols-2 gap-4">
+                  {/* Lower bound input */}
+                  <div className="space-y-2">
+                    <Label
+                      htmlFor="intervalLow"
+                      className="text-sm text-muted-foreground"
+                    >
+                      {isUniformPrior
+                        ? 'Minimum possible lift'
+                        : "I'm 90% sure the lift is at least"}
+                    </Label>
+                    <Controller
+                      name="intervalLow"
+                      control={control}
+                      render={({ field }) => (
+                        <div className="relative">
+                          <Input
+                            id="intervalLow"
+                            type="text"
+                            inputMode="decimal"
+                            placeholder="-5"
+                            className={cn(
+                              'pr-6',
+                              errors.intervalLow && 'border-destructive'
+                            )}
+                            // When focused, show raw string to allow typing "-" or "."
+                            // When blurred, show the form value (number converted to string)
+                            value={
+                              intervalLowFocused
+                                ? intervalLowDisplay
+                                : field.value !== undefined && field.value !== null
+                                  ? String(field.value)
+                                  : ''
+                            }
+                            onChange={(e) => {
+                              // Store raw string in local state (allows "-", ".", etc.)
+                              setIntervalLowDisplay(e.target.value);
+                            }}
+                            onFocus={() => {
+                              setIntervalLowFocused(true);
+                              // Initialize display value from current form value
+                              const val = field.value;
+                              setIntervalLowDisplay(
+                                val !== undefined && val !== null ? String(val) : ''
+                              );
+                            }}
+                            onBlur={() => {
+                              setIntervalLowFocused(false);
+                              // Parse and propagate to form on blur
+                              const trimmed = intervalLowDisplay.trim();
+                              if (
+                                trimmed === '' ||
+                                trimmed === '-' ||
+                                trimmed === '.'
+                              ) {
+                                field.onChange(undefined);
+                              } else {
+                                const parsed = parseFloat(trimmed);
+                                field.onChange(
+                                  Number.isNaN(parsed) ? undefined : parsed
+                                );
+                              }
+                              field.onBlur();
+                              handleIntervalChange();
+                            }}
+                          />
+                          <span className="absolute right-3 top-1/2 -translate-y-1/2 text-muted-foreground text-sm">
+                            %
+                          </span>
+                        </div>
+                      )}
+                    />
+                    {errors.intervalLow && (
+                      <p className="text-sm text-destructive">
+                        {errors.intervalLow.message}
+                      </p>
+                    )}
+                  </div>
+
+                  {/* Upper bound input */}
+                  <div className="space-y-2">
+                    <Label
+                      htmlFor="intervalHigh"
+                      className="text-sm text-muted-foreground"
+                    >
+                      {isUniformPrior ? 'Maximum possible lift' : 'and at most'}
+                    </Label>
+                    <Controller
+                      name="intervalHigh"
+                      control={control}
+                      render={({ field }) => (
+                        <div className="relative">
+                          <Input
+                            id="intervalHigh"
+                            type="text"
+                            inputMode="decimal"
+                            placeholder="10"
+                            className={cn(
+                              'pr-6',
+                              errors.intervalHigh && 'border-destructive'
+                            )}
+                            // When focused, show raw string to allow typing "-" or "."
+                            // When blurred, show the form value (number converted to string)
+                            value={
+                              intervalHighFocused
+                                ? intervalHighDisplay
+                                : field.value !== undefined && field.value !== null
+                                  ? String(field.value)
+                                  : ''
+                            }
+                            onChange={(e) => {
+                              // Store raw string in local state (allows "-", ".", etc.)
+                              setIntervalHighDisplay(e.target.value);
+                            }}
+                            onFocus={() => {
+                              setIntervalHighFocused(true);
+                              // Initialize display value from current form value
+                              const val = field.value;
+                              setIntervalHighDisplay(
+                                val !== undefined && val !== null ? String(val) : ''
+                              );
+                            }}
+                            onBlur={() => {
+                              setIntervalHighFocused(false);
+                              // Parse and propagate to form on blur
+                              const trimmed = intervalHighDisplay.trim();
+                              if (
+                                trimmed === '' ||
+                                trimmed === '-' ||
+                                trimmed === '.'
+                              ) {
+                                field.onChange(undefined);
+                              } else {
+                                const parsed = parseFloat(trimmed);
+                                field.onChange(
+                                  Number.isNaN(parsed) ? undefined : parsed
+                                );
+                              }
+                              field.onBlur();
+                              handleIntervalChange();
+                            }}
+                          />
+                          <span className="absolute right-3 top-1/2 -translate-y-1/2 text-muted-foreground text-sm">
+                            %
+                          </span>
+                        </div>
+                      )}
+                    />
+                    {errors.intervalHigh && (
+                      <p className="text-sm text-destructive">
+                        {errors.intervalHigh.message}
+                      </p>
+                    )}
+                  </div>
+                </div>
+              </>
+            )}
 
             {/* Implied Mean Display */}
             {intervalLow !== undefined &&
@@ -579,7 +731,9 @@ export const UncertaintyPriorForm = forwardRef<UncertaintyPriorFormHandle>(
                     <span className="text-muted-foreground">
                       {isUniformPrior
                         ? 'Midpoint (expected value):'
-                        : 'Implied expected lift:'}
+                        : isMixturePrior
+                          ? 'Expected lift if it has an effect:'
+                          : 'Implied expected lift:'}
                     </span>
                     <span className="font-medium text-foreground">
                       {impliedMeanPercent > 0 ? '+' : ''}
@@ -587,7 +741,7 @@ export const UncertaintyPriorForm = forwardRef<UncertaintyPriorFormHandle>(
                     </span>
                     {/* Only show dispersion in Advanced mode, hidden in Basic mode */}
                     {/* For Normal: "std dev", for Student-t: "σ" (scale param, not SD) */}
-                    {priorParams && !isUniformPrior && mode === 'advanced' && (
+                    {priorParams && !isUniformPrior && !isSkewedPrior && mode === 'advanced' && (
                       <span className="text-muted-foreground">
                         ({advancedInputs.priorShape === 'student-t' ? 'σ' : 'std dev'}: {(priorParams.sigma_L * 100).toFixed(2)}%)
                       </span>
@@ -612,16 +766,11 @@ export const UncertaintyPriorForm = forwardRef<UncertaintyPriorFormHandle>(
                       <p className="text-sm font-medium text-foreground">
                         Your belief distribution:
                       </p>
-                      {mode === 'advanced' ? (
-                        // Advanced mode: build full PriorDistribution based on selected shape
+                      {advancedPrior ? (
+                        // Advanced mode: full PriorDistribution for the selected shape
                         <PriorDistributionChart
-                          prior={buildPriorDistribution(
-                            advancedInputs.priorShape ?? 'normal',
-                            priorParams,
-                            advancedInputs.studentTDf,
-                            sharedInputs.priorIntervalLow,
-                            sharedInputs.priorIntervalHigh
-                          )}
+                          prior={advancedPrior}
+                          elicitedPoints={isQuantileMode ? priorQuantiles : undefined}
                           threshold_L={
                             evpiResults
                               ? evpiResults.threshold_dollars / evpiResults.K
@@ -634,6 +783,7 @@ export const UncertaintyPriorForm = forwardRef<UncertaintyPriorFormHandle>(
                         <PriorDistributionChartLegacy
                           mu_L={priorParams.mu_L}
                           sigma_L={priorParams.sigma_L}
+                          elicitedPoints={isQuantileMode ? priorQuantiles : undefined}
                           threshold_L={
                             evpiResults
                               ? evpiResults.threshold_dollars / evpiResults.K
@@ -647,6 +797,9 @@ export const UncertaintyPriorForm = forwardRef<UncertaintyPriorFormHandle>(
                 </div>
               )}
           </div>
+
+          {/* Empirical prior from past experiments */}
+          <EmpiricalPriorImport onApply={handleApplyEmpiricalPrior} />
         </form>
       </FormProvider>
     );
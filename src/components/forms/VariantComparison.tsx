@@ -0,0 +1,329 @@
+/**
+ * Variant Comparison (Advanced mode, A/B/n)
+ *
+ * Sits under the split optimizer in ExperimentDesignForm. Sets how many
+ * variants the test compares against the control (the variant allocation is
+ * shared equally among them) and the extra variants' priors, then compares
+ * EVSI for testing 1 to k variants in the worker, to show whether another
+ * variant adds value or dilutes the test.
+ *
+ * The headline results still value a single-variant test; the comparison
+ * is EVSI only (no timing costs), like-for-like across variant counts.
+ */
+
+import { useState } from 'react';
+import { Loader2, Sparkles, X } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { ToggleGroup, ToggleGroupItem } from '@/components/ui/toggle-group';
+import { useVariantComparison } from '@/hooks/useVariantComparison';
+import { useWizardStore } from '@/stores/wizardStore';
+import { SimulationSeedNote } from '@/components/results/SimulationSeedNote';
+import { formatPercentage, formatSmartCurrency } from '@/lib/formatting';
+import { DEFAULT_INTERVAL } from '@/lib/prior';
+import { MAX_VARIANT_COUNT, type VariantPriorInterval } from '@/types/wizard';
+
+const TOGGLE_ITEM_CLASS =
+  'rounded-md px-3 py-1.5 text-sm font-medium data-[state=on]:bg-card data-[state=on]:text-foreground data-[state=on]:shadow-sm data-[state=off]:text-muted-foreground';
+
+const VARIANT_COUNTS = Array.from({ length: MAX_VARIANT_COUNT }, (_, i) => i + 1);
+
+/**
+ * Two percent inputs for one variant's 90% interval; commits on blur when valid
+ */
+function VariantIntervalInput({
+  variantNumber,
+  interval,
+  onCommit,
+}: {
+  variantNumber: number;
+  interval: VariantPriorInterval;
+  onCommit: (interval: VariantPriorInterval) => void;
+}) {
+  const [low, setLow] = useState(String(interval.low));
+  const [high, setHigh] = useState(String(interval.high));
+  const [error, setError] = useState<string | null>(null);
+
+  const commit = () => {
+    const parsedLow = parseFloat(low);
+    const parsedHigh = parseFloat(high);
+    if (!Number.isFinite(parsedLow) || !Number.isFinite(parsedHigh)) {
+      setError('Enter both bounds');
+      return;
+    }
+    if (parsedLow < -100) {
+      setError('Cannot expect more than 100% loss');
+      return;
+    }
+    if (parsedLow >= parsedHigh) {
+      setError('Lower bound must be less than upper bound');
+      return;
+    }
+    setError(null);
+    onCommit({ low: parsedLow, high: parsedHigh });
+  };
+
+  const id = `variant-${variantNumber}-interval`;
+
+  return (
+    <div className="space-y-1">
+      <div className="flex flex-wrap items-center gap-2">
+        <Label htmlFor={`${id}-low`} className="w-20 shrink-0">
+          Variant {variantNumber}
+        </Label>
+        <Input
+          id={`${id}-low`}
+          inputMode="decimal"
+          value={low}
+          onChange={(e) => setLow(e.target.value)}
+          onBlur={commit}
+          aria-label={`Variant ${variantNumber} lower bound (%)`}
+          aria-invalid={!!error}
+          className="w-20"
+        />
+        <span className="text-sm text-muted-foreground">% to</span>
+        <Input
+          id={`${id}-high`}
+          inputMode="decimal"
+          value={high}
+          onChange={(e) => setHigh(e.target.value)}
+          onBlur={commit}
+          aria-label={`Variant ${variantNumber} upper bound (%)`}
+          aria-invalid={!!error}
+          className="w-20"
+        />
+        <span className="text-sm text-muted-foreground">%</span>
+      </div>
+      {error && (
+        <p role="alert" className="text-xs text-destructive">
+          {error}
+        </p>
+      )}
+    </div>
+  );
+}
+
+export function VariantComparison() {
+  const variantCount = useWizardStore((state) => state.inputs.advanced.variantCount);
+  const variantPriorMode = useWizardStore((state) => state.inputs.advanced.variantPriorMode);
+  const variantPriorIntervals = useWizardStore(
+    (state) => state.inputs.advanced.variantPriorIntervals
+  );
+  const priorIntervalLow = useWizardStore((state) => state.inputs.shared.priorIntervalLow);
+  const priorIntervalHigh = useWizardStore((state) => state.inputs.shared.priorIntervalHigh);
+  const monteCarloSeed = useWizardStore((state) => state.inputs.advanced.monteCarloSeed);
+  const setAdvancedInput = useWizardStore((state) => state.setAdvancedInput);
+
+  const { status, progress, results, run, cancel } = useVariantComparison();
+
+  // Variants without their own interval use the main prior's
+  const mainInterval: VariantPriorInterval = {
+    low: priorIntervalLow ?? DEFAULT_INTERVAL.low,
+    high: priorIntervalHigh ?? DEFAULT_INTERVAL.high,
+  };
+  const extraIntervals = Array.from(
+    { length: variantCount - 1 },
+    (_, i) => variantPriorIntervals[i] ?? mainInterval
+  );
+
+  const handleCountChange = (value: string) => {
+    // Only update if valid count (prevents empty on same click)
+    const count = parseInt(value, 10);
+    if (count >= 1 && count <= MAX_VARIANT_COUNT) {
+      setAdvancedInput('variantCount', count);
+    }
+  };
+
+  const handleModeChange = (value: string) => {
+    if (value === 'shared' || value === 'individual') {
+      setAdvancedInput('variantPriorMode', value);
+    }
+  };
+
+  const commitInterval = (index: number, interval: VariantPriorInterval) => {
+    const next = [...extraIntervals];
+    next[index] = interval;
+    setAdvancedInput('variantPriorIntervals', next);
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="space-y-2">
+        <Label>Variants in the test</Label>
+        <ToggleGroup
+          type="single"
+          value={String(variantCount)}
+          onValueChange={handleCountChange}
+          className="rounded-lg bg-surface p-1 w-fit"
+          aria-label="Number of variants"
+        >
+          {VARIANT_COUNTS.map((count) => (
+            <ToggleGroupItem
+              key={count}
+              value={String(count)}
+              aria-label={`${count} variant${count === 1 ? '' : 's'}`}
+              className={TOGGLE_ITEM_CLASS}
+            >
+              {count}
+            </ToggleGroupItem>
+          ))}
+        </ToggleGroup>
+        <p className="text-sm text-muted-foreground">
+          {variantCount === 1
+            ? 'A standard A/B test. Testing several variants at once (A/B/n) shares the variant allocation among them.'
+            : `The variant allocation is shared equally among the ${variantCount} variants.`}
+        </p>
+      </div>
+
+      {variantCount > 1 && (
+        <div className="rounded-lg border border-border/60 bg-muted/20 p-3 space-y-3">
+          <div className="space-y-2">
+            <p className="text-sm font-medium text-foreground">What do you expect from each variant?</p>
+            <ToggleGroup
+              type="single"
+              value={variantPriorMode}
+              onValueChange={handleModeChange}
+              className="rounded-lg bg-surface p-1 w-fit"
+              aria-label="Variant priors"
+            >
+              <ToggleGroupItem value="shared" className={TOGGLE_ITEM_CLASS}>
+                Same as variant 1
+              </ToggleGroupItem>
+              <ToggleGroupItem value="individual" className={TOGGLE_ITEM_CLASS}>
+                Own range per variant
+              </ToggleGroupItem>
+            </ToggleGroup>
+            {variantPriorMode === 'individual' && (
+              <div className="space-y-2">
+                <p className="text-xs text-muted-foreground">
+                  90% ranges for the lift of each variant, with the same prior shape. Variant 1
+                  uses your prior ({formatPercentage(mainInterval.low)} to{' '}
+                  {formatPercentage(mainInterval.high)}).
+                </p>
+                {extraIntervals.map((interval, i) => (
+                  <VariantIntervalInput
+                    key={`${i}-${interval.low}-${interval.high}`}
+                    variantNumber={i + 2}
+                    interval={interval}
+                    onCommit={(next) => commitInterval(i, next)}
+                  />
+                ))}
+              </div>
+            )}
+          </div>
+
+          {status !== 'running' && (
+            <div className="flex flex-wrap items-center justify-between gap-2">
+              <p className="text-xs text-muted-foreground">
+                Does each extra variant add value, or dilute the test? Compare EVSI for 1 to{' '}
+                {variantCount} variants.
+              </p>
+              <Button type="button" variant="outline" size="sm" onClick={run}>
+                <Sparkles className="size-4" />
+                {results ? 'Re-run' : 'Compare variant counts'}
+              </Button>
+            </div>
+          )}
+
+          {status === 'running' && (
+            <div className="space-y-2">
+              <div className="flex items-center justify-between gap-2">
+                <p className="flex items-center gap-2 text-xs text-muted-foreground">
+                  <Loader2 className="size-3 animate-spin" />
+                  Simulating each variant count... {Math.round(progress * 100)}%
+                </p>
+                <Button type="button" variant="ghost" size="sm" onClick={cancel}>
+                  <X className="size-4" />
+                  Cancel
+                </Button>
+              </div>
+              <div
+                role="progressbar"
+                aria-label="Variant comparison progress"
+                aria-valuemin={0}
+                aria-valuemax={100}
+                aria-valuenow={Math.round(progress * 100)}
+                className="h-1.5 rounded-full bg-muted overflow-hidden"
+              >
+                <div
+                  className="h-full bg-primary transition-[width]"
+                  style={{ width: `${progress * 100}%` }}
+                />
+              </div>
+            </div>
+          )}
+
+          {status === 'incomplete' && (
+            <p className="text-xs text-muted-foreground">
+              Fill in the earlier sections and the test design first; the comparison needs all
+              of them.
+            </p>
+          )}
+
+          {status === 'error' && (
+            <p role="alert" className="text-xs text-destructive">
+              The variant comparison couldn't run. Please try again.
+            </p>
+          )}
+
+          {status === 'done' && results && (
+            <div className="space-y-2">
+              <ul className="space-y-1 text-sm">
+                {results.points.map((point) => (
+                  <li
+                    key={point.variantCount}
+                    className="flex flex-wrap items-baseline justify-between gap-2"
+                  >
+                    <span
+                      className={
+                        point.variantCount === results.best.variantCount
+                          ? 'font-semibold text-foreground'
+                          : 'text-muted-foreground'
+                      }
+                    >
+                      {point.variantCount} variant{point.variantCount === 1 ? '' : 's'}:{' '}
+                      {formatSmartCurrency(point.evsiDollars)}
+                    </span>
+                    <span className="text-xs text-muted-foreground">
+                      ships nothing {Math.round(point.probabilityShipNone * 100)}% of the time
+                    </span>
+                  </li>
+                ))}
+              </ul>
+              <div className="flex flex-wrap items-center justify-between gap-2">
+                <p className="text-sm text-foreground">
+                  {results.best.variantCount === variantCount ? (
+                    <>Each variant adds value: testing all {variantCount} is worth the most.</>
+                  ) : (
+                    <>
+                      Value peaks at <strong>{results.best.variantCount}</strong> variant
+                      {results.best.variantCount === 1 ? '' : 's'}; more dilutes the test.
+                    </>
+                  )}
+                </p>
+                {results.best.variantCount !== variantCount && (
+                  <Button
+                    type="button"
+                    size="sm"
+                    onClick={() => setAdvancedInput('variantCount', results.best.variantCount)}
+                  >
+                    Use {results.best.variantCount}
+                  </Button>
+                )}
+              </div>
+              <p className="text-xs text-muted-foreground">
+                Simulated EVSI (value of the information, before timing costs). The headline
+                results still assume a single variant.
+              </p>
+              <SimulationSeedNote
+                seed={monteCarloSeed}
+                timeLimited={results.timeLimited}
+              />
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
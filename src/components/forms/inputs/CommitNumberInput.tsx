@@ -0,0 +1,117 @@
+/**
+ * CommitNumberInput Component
+ *
+ * Number input for panels that write straight to the store or a callback
+ * (no react-hook-form). Keeps the typed text locally and commits on blur,
+ * only when the number passes validation; otherwise shows the message.
+ * The inline variant drops the visible label, for inputs inside a sentence.
+ *
+ * Per CONTEXT.md: "Validation errors appear on blur only (not while typing)"
+ */
+
+import { useId, useState } from 'react';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+
+export interface CommitNumberInputProps {
+  /** Input id (generated if omitted) */
+  id?: string;
+  /** Input label text (the accessible name only when inline) */
+  label: string;
+  /** Committed value (remount with a key to reset the text) */
+  value: number;
+  /** Unit shown after the input, or inside it when inline (e.g., "days") */
+  suffix?: string;
+  /** Render only the input and its error, to sit inside a sentence */
+  inline?: boolean;
+  /** Helper text shown below the input while there is no error */
+  helpText?: string;
+  /** Error message for a parsed number, or null if valid */
+  validate: (value: number) => string | null;
+  /** Called on blur with a valid number */
+  onCommit: (value: number) => void;
+}
+
+/**
+ * Number input that commits on blur when valid
+ */
+export function CommitNumberInput({
+  id,
+  label,
+  value,
+  suffix,
+  inline = false,
+  helpText,
+  validate,
+  onCommit,
+}: CommitNumberInputProps) {
+  const generatedId = useId();
+  const inputId = id ?? generatedId;
+  const [text, setText] = useState(String(value));
+  const [error, setError] = useState<string | null>(null);
+
+  const commit = () => {
+    const parsed = parseFloat(text);
+    const message = Number.isFinite(parsed) ? validate(parsed) : 'Enter a number';
+    setError(message);
+    if (!message) {
+      onCommit(parsed);
+    }
+  };
+
+  if (inline) {
+    return (
+      <span className="inline-flex flex-col">
+        <span className="relative">
+          <Input
+            id={inputId}
+            aria-label={label}
+            inputMode="decimal"
+            value={text}
+            onChange={(e) => setText(e.target.value)}
+            onBlur={commit}
+            aria-invalid={!!error}
+            className={suffix ? 'w-20 pr-6' : 'w-20'}
+          />
+          {suffix && (
+            <span className="absolute right-2 top-1/2 -translate-y-1/2 text-sm text-muted-foreground">
+              {suffix}
+            </span>
+          )}
+        </span>
+        {error && (
+          <span role="alert" className="text-xs text-destructive">
+            {error}
+          </span>
+        )}
+      </span>
+    );
+  }
+
+  return (
+    <div className="space-y-1">
+      <div className="flex flex-wrap items-center gap-2">
+        <Label htmlFor={inputId} className="w-44 shrink-0">
+          {label}
+        </Label>
+        <Input
+          id={inputId}
+          inputMode="decimal"
+          value={text}
+          onChange={(e) => setText(e.target.value)}
+          onBlur={commit}
+          aria-invalid={!!error}
+          className="w-20"
+        />
+        {suffix && <span className="text-sm text-muted-foreground">{suffix}</span>}
+      </div>
+      {error ? (
+        <p role="alert" className="text-xs text-destructive">
+          {error}
+        </p>
+      ) : (
+        helpText && <p className="text-xs text-muted-foreground">{helpText}</p>
+      )}
+    </div>
+  );
+}
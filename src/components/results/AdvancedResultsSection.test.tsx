@@ -56,10 +56,20 @@ const sampleEVSIResults: EVSICalculationResults = {
   },
   cod: sampleCodResults,
   netValueDollars: 9500,
+  netValue: {
+    netValueDollars: 9500,
+    maxTestBudgetDollars: 9500,
+    defaultDecision: 'ship',
+    probabilityClearsThreshold: 0.68,
+    probabilityTestChangesDecision: 0.25,
+    conversionLatencyCostDollars: 0,
+  },
   sampleSizes: {
     n_total: 10000,
     n_control: 5000,
     n_variant: 5000,
+    n_matured_control: 5000,
+    n_matured_variant: 5000,
   },
 };
 
@@ -116,6 +126,38 @@ describe('AdvancedResultsSection accessibility', () => {
     expect(results).toHaveNoViolations();
   });
 
+  it('weighs an entered test cost against the net value', async () => {
+    vi.mocked(useEVSICalculations).mockReturnValue({
+      loading: false,
+      results: sampleEVSIResults,
+    });
+    vi.mocked(useWizardStore).mockImplementation((selector) => {
+      const state = {
+        inputs: {
+          shared: {
+            ...sampleSharedInputs,
+            engineeringHours: 80,
+            analystHours: 20,
+            hourlyRate: 150,
+            toolingCostPerTest: 0,
+          },
+          advanced: sampleAdvancedInputs,
+        },
+      };
+      // Cast to unknown first to satisfy TypeScript for partial mock
+      return selector(state as unknown as Parameters<typeof selector>[0]);
+    });
+
+    const { container } = render(<AdvancedResultsSection />);
+
+    // $15,000 of time against a $9,500 net value
+    expect(screen.getByText("Don't run it")).toBeInTheDocument();
+    expect(screen.getByText(/an ROI of 0\.6×/)).toBeInTheDocument();
+
+    const results = await axe(container);
+    expect(results).toHaveNoViolations();
+  });
+
   it('has no accessibility violations when showing placeholder', async () => {
     // Setup mocks with null results (incomplete inputs)
     vi.mocked(useEVSICalculations).mockReturnValue({
@@ -9,6 +9,8 @@
  * - ADV-OUT-05: Net value display
  * - ADV-OUT-07: Probability test changes decision
  * - EXPORT-01 through EXPORT-04: PNG export functionality
+ * - Sensitivity of net value to each input (tornado chart)
+ * - Test cost ROI against the net value (Costs step)
  *
  * Per 05-CONTEXT.md:
  * - EVSI only: Don't show EVPI comparison in Advanced mode
@@ -22,14 +24,21 @@ import { useWizardStore } from '@/stores/wizardStore';
 import { EVSIVerdictCard } from './EVSIVerdictCard';
 import { ValueBreakdownCard } from './ValueBreakdownCard';
 import { SupportingCard } from './SupportingCard';
+import { SensitivityPanel } from './SensitivityPanel';
 import { ExportButton } from '@/components/export/ExportButton';
+import { CopyLinkButton } from '@/components/export/CopyLinkButton';
 import { AlertTriangle } from 'lucide-react';
 import {
   formatSmartCurrency,
   formatProbabilityPercent,
   formatPercentage,
 } from '@/lib/formatting';
-import { DEFAULT_INTERVAL, DEFAULT_PRIOR, computePriorFromInterval } from '@/lib/prior';
+import { DEFAULT_INTERVAL } from '@/lib/prior';
+import {
+  buildPriorDistribution,
+  deriveHorizon,
+  deriveTestCostDollars,
+} from '@/lib/derive-inputs';
 import type { PriorDistribution } from '@/lib/calculations/types';
 
 export function AdvancedResultsSection() {
@@ -37,72 +46,31 @@ export function AdvancedResultsSection() {
   const sharedInputs = useWizardStore((state) => state.inputs.shared);
   const advancedInputs = useWizardStore((state) => state.inputs.advanced);
 
-  // Build prior distribution for export (mirrors useEVSICalculations logic)
+  // Build prior distribution for export (same derivation as useEVSICalculations)
   // Must be before early return to satisfy React hooks rules
-  const prior: PriorDistribution = useMemo(() => {
-    const isDefaultPrior =
-      sharedInputs.priorIntervalLow !== null &&
-      sharedInputs.priorIntervalHigh !== null &&
-      Math.abs(sharedInputs.priorIntervalLow - DEFAULT_INTERVAL.low) < 0.01 &&
-      Math.abs(sharedInputs.priorIntervalHigh - DEFAULT_INTERVAL.high) < 0.01;
-
-    const normalParams =
-      isDefaultPrior ||
-      sharedInputs.priorIntervalLow === null ||
-      sharedInputs.priorIntervalHigh === null
-        ? DEFAULT_PRIOR
-        : computePriorFromInterval(
-            sharedInputs.priorIntervalLow,
-            sharedInputs.priorIntervalHigh
-          );
-
-    const shape = advancedInputs.priorShape ?? 'normal';
-
-    switch (shape) {
-      case 'normal':
-        return {
-          type: 'normal' as const,
-          mu_L: normalParams.mu_L,
-          sigma_L: normalParams.sigma_L,
-        };
-
-      case 'student-t':
-        return {
-          type: 'student-t' as const,
-          mu_L: normalParams.mu_L,
-          sigma_L: normalParams.sigma_L,
-          df: advancedInputs.studentTDf ?? 5,
-        };
-
-      case 'uniform': {
-        const lowBound =
-          sharedInputs.priorIntervalLow !== null
-            ? sharedInputs.priorIntervalLow / 100
-            : DEFAULT_INTERVAL.low / 100;
-        const highBound =
-          sharedInputs.priorIntervalHigh !== null
-            ? sharedInputs.priorIntervalHigh / 100
-            : DEFAULT_INTERVAL.high / 100;
-        return {
-          type: 'uniform' as const,
-          low_L: lowBound,
-          high_L: highBound,
-        };
-      }
-
-      default:
-        return {
-          type: 'normal' as const,
-          mu_L: normalParams.mu_L,
-          sigma_L: normalParams.sigma_L,
-        };
-    }
-  }, [
-    sharedInputs.priorIntervalLow,
-    sharedInputs.priorIntervalHigh,
-    advancedInputs.priorShape,
-    advancedInputs.studentTDf,
-  ]);
+  const prior: PriorDistribution = useMemo(
+    () =>
+      buildPriorDistribution(
+        {
+          priorIntervalLow: sharedInputs.priorIntervalLow,
+          priorIntervalHigh: sharedInputs.priorIntervalHigh,
+        },
+        advancedInputs.priorShape ?? 'normal',
+        {
+          studentTDf: advancedInputs.studentTDf,
+          mixtureSpikeWeight: advancedInputs.mixtureSpikeWeight,
+          skewNormalAlpha: advancedInputs.skewNormalAlpha,
+        }
+      ),
+    [
+      sharedInputs.priorIntervalLow,
+      sharedInputs.priorIntervalHigh,
+      advancedInputs.priorShape,
+      advancedInputs.studentTDf,
+      advancedInputs.mixtureSpikeWeight,
+      advancedInputs.skewNormalAlpha,
+    ]
+  );
 
   // Show placeholder if no results and not loading
   // The hook returns null results when inputs are incomplete
@@ -127,22 +95,32 @@ export function AdvancedResultsSection() {
       ? 0
       : sharedInputs.thresholdValue ?? 0;
 
+  // EVSI and net value warn independently; show each message once
+  const warnings = results
+    ? [...(results.evsi.warnings ?? []), ...(results.netValue.warnings ?? [])].filter(
+        (warning, index, all) =>
+          all.findIndex((other) => other.message === warning.message) === index
+      )
+    : [];
+
   return (
     <div className="space-y-6">
       {/* Primary Verdict - ADV-OUT-01, ADV-OUT-02 */}
       <EVSIVerdictCard
         netValueDollars={results ? Math.max(0, results.netValueDollars) : null}
+        horizon={deriveHorizon(sharedInputs)}
+        testCostDollars={deriveTestCostDollars(sharedInputs)}
         isLoading={loading}
       />
 
       {/* Calculation Warnings - Accuracy-08 */}
-      {results?.evsi.warnings && results.evsi.warnings.length > 0 && (
+      {warnings.length > 0 && (
         <div className="bg-amber-50 border border-amber-200 rounded-lg p-3">
           <div className="flex items-start gap-2">
             <AlertTriangle className="h-5 w-5 text-amber-600 flex-shrink-0 mt-0.5" />
             <div className="text-sm text-amber-800">
-              {results.evsi.warnings.map((warning, index) => (
-                <p key={warning.code} className={index > 0 ? 'mt-2' : ''}>
+              {warnings.map((warning, index) => (
+                <p key={warning.message} className={index > 0 ? 'mt-2' : ''}>
                   {warning.message}
                 </p>
               ))}
@@ -161,6 +139,8 @@ export function AdvancedResultsSection() {
             testDurationDays={advancedInputs.testDurationDays ?? 14}
             variantFraction={advancedInputs.trafficSplit ?? 0.5}
             decisionLatencyDays={advancedInputs.decisionLatencyDays ?? 0}
+            conversionLatencyDays={advancedInputs.conversionLatencyDays ?? 0}
+            conversionLatencyCostDollars={results.netValue.conversionLatencyCostDollars}
           />
 
           {/* Probability test changes decision - ADV-OUT-07 */}
@@ -217,6 +197,9 @@ export function AdvancedResultsSection() {
             </p>
           </div>
 
+          {/* Sensitivity of net value to each input */}
+          <SensitivityPanel />
+
           {/* PNG Export - EXPORT-01 through EXPORT-04 */}
           <div className="rounded-xl border bg-card p-4">
             <p className="text-sm font-medium text-foreground mb-3">
@@ -228,7 +211,11 @@ export function AdvancedResultsSection() {
               sharedInputs={sharedInputs}
               prior={prior}
               testDurationDays={advancedInputs.testDurationDays ?? undefined}
+              conversionLatencyDays={advancedInputs.conversionLatencyDays ?? undefined}
             />
+            <div className="mt-3">
+              <CopyLinkButton />
+            </div>
           </div>
         </>
       )}
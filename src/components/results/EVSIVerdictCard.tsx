@@ -10,14 +10,22 @@
  * Requirements covered:
  * - ADV-OUT-01: Primary verdict with "up to" wording
  * - ADV-OUT-02: Y = max(0, EVSI - CoD)
+ * - Decision horizon under the headline
+ * - Entered test cost against the net value: ROI and run / don't run
  */
 
-import { formatSmartCurrency } from '@/lib/formatting';
+import { formatHorizon, formatSmartCurrency } from '@/lib/formatting';
 import { Loader2 } from 'lucide-react';
+import { TestRoiVerdict } from './TestRoiVerdict';
+import type { DecisionHorizon } from '@/lib/calculations/types';
 
 interface EVSIVerdictCardProps {
   /** Net value: EVSI - CoD (already clamped to non-negative) */
   netValueDollars: number | null;
+  /** Horizon the value is counted over */
+  horizon: DecisionHorizon;
+  /** Cost of running the test (0: no cost entered, no ROI shown) */
+  testCostDollars?: number;
   /** True while calculation is in progress */
   isLoading: boolean;
   /** Error message if calculation failed */
@@ -26,6 +34,8 @@ interface EVSIVerdictCardProps {
 
 export function EVSIVerdictCard({
   netValueDollars,
+  horizon,
+  testCostDollars = 0,
   isLoading,
   error,
 }: EVSIVerdictCardProps) {
@@ -75,10 +85,22 @@ export function EVSIVerdictCard({
               <span className="text-primary">up to {formatSmartCurrency(displayValue)}</span>,
               test it.
             </h3>
+            <p className="text-xs text-muted-foreground">
+              Value counted over {formatHorizon(horizon)}.
+            </p>
           </div>
         )}
       </div>
 
+      {/* Test cost against the net value (only shown with valid result) */}
+      {!isLoading && !error && displayValue !== null && (
+        <TestRoiVerdict
+          valueDollars={displayValue}
+          costDollars={testCostDollars}
+          basis="net-value"
+        />
+      )}
+
       {/* Explanation note - per 05-CONTEXT.md (only shown with valid result) */}
       {!isLoading && !error && displayValue !== null && (
         <div className="rounded-lg bg-muted/50 border border-muted px-4 py-3">
@@ -153,4 +153,32 @@ describe('ResultsSection accessibility', () => {
     const regretCard = screen.getByText('Chance you\'d regret not testing').closest('div');
     expect(regretCard).toBeInTheDocument();
   });
+
+  it('weighs the cost entered in the Costs step against EVPI', async () => {
+    vi.mocked(useEVPICalculations).mockReturnValue(sampleEVPIResults);
+    vi.mocked(useWizardStore).mockImplementation((selector) => {
+      const state = {
+        inputs: {
+          shared: {
+            ...sampleSharedInputs,
+            engineeringHours: 30,
+            analystHours: 10,
+            hourlyRate: 150,
+            toolingCostPerTest: 0,
+          },
+        },
+      };
+      // Cast to unknown first to satisfy TypeScript for partial mock
+      return selector(state as unknown as Parameters<typeof selector>[0]);
+    });
+
+    const { container } = render(<ResultsSection />);
+
+    // $6,000 of time against a $15,000 EVPI
+    expect(screen.getByText('Run it')).toBeInTheDocument();
+    expect(screen.getByText(/ROI up to 2\.5×/)).toBeInTheDocument();
+
+    const results = await axe(container);
+    expect(results).toHaveNoViolations();
+  });
 });
@@ -10,19 +10,24 @@
  * - BASIC-OUT-06: Chance of regret intuition
  * - BASIC-OUT-07: EVPI intuition (expected regret)
  * - EXPORT-01 through EXPORT-04: PNG export functionality
+ * - Sensitivity of EVPI to each input (tornado chart)
+ * - Test cost ROI against EVPI, when a cost was entered
  */
 
 import { useEVPICalculations } from '@/hooks/useEVPICalculations';
 import { useWizardStore } from '@/stores/wizardStore';
 import { VerdictCard } from './VerdictCard';
 import { SupportingCard } from './SupportingCard';
+import { SensitivityPanel } from './SensitivityPanel';
 import { ExportButton } from '@/components/export/ExportButton';
+import { CopyLinkButton } from '@/components/export/CopyLinkButton';
 import {
   formatSmartCurrency,
   formatProbabilityPercent,
   formatPercentage,
 } from '@/lib/formatting';
 import { DEFAULT_INTERVAL } from '@/lib/prior';
+import { deriveHorizon, deriveTestCostDollars } from '@/lib/derive-inputs';
 
 interface ResultsSectionProps {
   onAdvancedModeClick?: () => void;
@@ -81,6 +86,8 @@ export function ResultsSection({ onAdvancedModeClick }: ResultsSectionProps) {
       {/* Primary Verdict - BASIC-OUT-01, BASIC-OUT-02 */}
       <VerdictCard
         evpiDollars={evpiDollars}
+        horizon={deriveHorizon(sharedInputs)}
+        testCostDollars={deriveTestCostDollars(sharedInputs)}
         onAdvancedModeClick={onAdvancedModeClick}
       />
 
@@ -161,6 +168,9 @@ export function ResultsSection({ onAdvancedModeClick }: ResultsSectionProps) {
         </p>
       </div>
 
+      {/* Sensitivity of EVPI to each input */}
+      <SensitivityPanel />
+
       {/* PNG Export - EXPORT-01 through EXPORT-04 */}
       <div className="rounded-xl border bg-card p-4">
         <p className="text-sm font-medium text-foreground mb-3">
@@ -171,6 +181,9 @@ export function ResultsSection({ onAdvancedModeClick }: ResultsSectionProps) {
           evpiResults={evpiResults}
           sharedInputs={sharedInputs}
         />
+        <div className="mt-3">
+          <CopyLinkButton />
+        </div>
       </div>
     </div>
   );
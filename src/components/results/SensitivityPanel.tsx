@@ -0,0 +1,157 @@
+/**
+ * SensitivityPanel - "What if our estimates are off?"
+ *
+ * Collapsible panel under the results that moves each input over a chosen
+ * range (±10/20/50%) and shows, as a tornado chart, which inputs move the
+ * headline most: EVPI in Basic mode, net value of testing in Advanced mode.
+ *
+ * Computed in the EVSI worker (useSensitivityAnalysis) and only while open.
+ */
+
+import { useState } from 'react';
+import { ChevronDown, ChevronUp, Loader2 } from 'lucide-react';
+import { ToggleGroup, ToggleGroupItem } from '@/components/ui/toggle-group';
+import { TornadoChart } from '@/components/charts';
+import { useSensitivityAnalysis } from '@/hooks/useSensitivityAnalysis';
+import { useWizardStore } from '@/stores/wizardStore';
+import {
+  formatNumber,
+  formatPercentage,
+  formatSmartCurrency,
+} from '@/lib/formatting';
+import type { SensitivityBar } from '@/lib/sensitivity';
+
+/** Range choices, as fractions */
+const RANGE_OPTIONS = [0.1, 0.2, 0.5];
+
+const DEFAULT_RANGE = 0.2;
+
+export function SensitivityPanel() {
+  const mode = useWizardStore((state) => state.mode);
+  const thresholdUnit = useWizardStore((state) => state.inputs.shared.thresholdUnit);
+
+  const [open, setOpen] = useState(false);
+  const [rangeFraction, setRangeFraction] = useState(DEFAULT_RANGE);
+  const { loading, results, error } = useSensitivityAnalysis(rangeFraction, open);
+
+  const metricLabel = mode === 'basic' ? 'EVPI' : 'net value';
+
+  // Inputs are stored in wizard units (CR0 as decimal, bounds in percent, ...)
+  const formatInput = (bar: SensitivityBar, value: number): string => {
+    switch (bar.parameter) {
+      case 'baselineConversionRate':
+        return formatPercentage(value * 100);
+      case 'annualVisitors':
+        return formatNumber(Math.round(value));
+      case 'valuePerConversion':
+        return formatSmartCurrency(value);
+      case 'thresholdValue':
+        return thresholdUnit === 'dollars' ? formatSmartCurrency(value) : formatPercentage(value);
+      case 'priorIntervalLow':
+      case 'priorIntervalHigh':
+        return formatPercentage(value);
+      case 'trafficSplit':
+        return `${Math.round(value * 100)}% to variant`;
+      case 'testDurationDays':
+      case 'decisionLatencyDays':
+        return `${value} days`;
+    }
+  };
+
+  const topBar = results?.bars[0];
+
+  return (
+    <div className="rounded-xl border bg-card p-4 space-y-4">
+      <button
+        type="button"
+        onClick={() => setOpen((current) => !current)}
+        aria-expanded={open}
+        aria-controls="sensitivity-analysis"
+        className="flex w-full items-center justify-between text-left"
+      >
+        <span>
+          <span className="block text-sm font-medium text-foreground">
+            What if your estimates are off?
+          </span>
+          <span className="block text-xs text-muted-foreground">
+            See which inputs move {metricLabel} the most
+          </span>
+        </span>
+        {open ? (
+          <ChevronUp className="h-4 w-4 text-muted-foreground" />
+        ) : (
+          <ChevronDown className="h-4 w-4 text-muted-foreground" />
+        )}
+      </button>
+
+      {open && (
+        <div id="sensitivity-analysis" className="space-y-3">
+          <div className="flex items-center gap-3">
+            <span className="text-xs text-muted-foreground">Vary each input by</span>
+            <ToggleGroup
+              type="single"
+              value={String(rangeFraction)}
+              onValueChange={(value) => {
+                // ToggleGroup returns empty string when clicking the active item
+                if (value) setRangeFraction(Number(value));
+              }}
+              className="rounded-lg bg-surface p-1"
+              aria-label="Sensitivity range"
+            >
+              {RANGE_OPTIONS.map((option) => (
+                <ToggleGroupItem
+                  key={option}
+                  value={String(option)}
+                  className="rounded-md px-3 py-1 text-xs font-medium data-[state=on]:bg-card data-[state=on]:text-foreground data-[state=on]:shadow-sm data-[state=off]:text-muted-foreground"
+                >
+                  ±{Math.round(option * 100)}%
+                </ToggleGroupItem>
+              ))}
+            </ToggleGroup>
+          </div>
+
+          {loading && (
+            <p className="flex items-center gap-2 text-sm text-muted-foreground">
+              <Loader2 className="h-4 w-4 animate-spin" />
+              Re-running the calculation for each input...
+            </p>
+          )}
+
+          {!loading && error && (
+            <p role="alert" className="text-sm text-destructive">
+              The sensitivity analysis couldn't run. Try reopening this panel.
+            </p>
+          )}
+
+          {!loading && results && topBar && topBar.swing === 0 && (
+            <p className="text-sm text-muted-foreground">
+              Over this range no input lifts {metricLabel} above $0.
+            </p>
+          )}
+
+          {!loading && results && topBar && topBar.swing > 0 && (
+            <>
+              <p className="text-sm text-muted-foreground">
+                {topBar.label} matters most: over its range, {metricLabel} goes from{' '}
+                {formatSmartCurrency(topBar.lowValue)} to {formatSmartCurrency(topBar.highValue)}{' '}
+                (currently {formatSmartCurrency(results.baseValue)}).
+              </p>
+              <TornadoChart
+                bars={results.bars}
+                baseValue={results.baseValue}
+                formatInput={formatInput}
+              />
+              <p className="text-xs text-muted-foreground">
+                Bars show the change in {metricLabel} with one input lowered or raised and
+                everything else held fixed. Prior bounds move by a share of the interval
+                width.
+                {mode === 'advanced' &&
+                  ' As in the headline, net value below $0 counts as $0.'}
+              </p>
+            </>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
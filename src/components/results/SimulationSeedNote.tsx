@@ -0,0 +1,77 @@
+/**
+ * Simulation Seed Note (Advanced mode)
+ *
+ * Shown under the results of the simulations that are still Monte Carlo
+ * (early stopping, bandit and variant comparisons). Gives the seed they
+ * were computed with, so a result can be reproduced exactly: the same
+ * inputs and seed always give the same numbers. The seed can be edited or
+ * re-rolled; it is saved with share links and scenarios like any input.
+ *
+ * The sample count is adaptive; a run cut short by its time budget depends
+ * on machine speed, so the note says so instead of promising exact reruns.
+ */
+
+import { useId, useState } from 'react';
+import { Dices } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { useWizardStore } from '@/stores/wizardStore';
+import { MAX_SEED, randomSeed } from '@/lib/calculations/random';
+
+interface SimulationSeedNoteProps {
+  /** Seed the displayed results were computed with */
+  seed: number;
+  /** True if sampling stopped on its time budget */
+  timeLimited?: boolean;
+}
+
+export function SimulationSeedNote({ seed, timeLimited = false }: SimulationSeedNoteProps) {
+  const setAdvancedInput = useWizardStore((state) => state.setAdvancedInput);
+  // Several simulations can show their note at once
+  const inputId = useId();
+
+  // Text being typed; null when not editing (shows the current seed)
+  const [draft, setDraft] = useState<string | null>(null);
+
+  const commit = () => {
+    if (draft === null) return;
+    const value = Number(draft.trim());
+    // Invalid entries revert to the current seed
+    if (draft.trim() !== '' && Number.isInteger(value) && value >= 0 && value <= MAX_SEED) {
+      setAdvancedInput('monteCarloSeed', value);
+    }
+    setDraft(null);
+  };
+
+  return (
+    <div className="flex flex-wrap items-center gap-2 text-xs text-muted-foreground">
+      <label htmlFor={inputId}>Simulation seed</label>
+      <Input
+        id={inputId}
+        inputMode="numeric"
+        value={draft ?? String(seed)}
+        onChange={(e) => setDraft(e.target.value)}
+        onBlur={commit}
+        onKeyDown={(e) => {
+          if (e.key === 'Enter') commit();
+          if (e.key === 'Escape') setDraft(null);
+        }}
+        className="h-7 w-28 text-xs md:text-xs tabular-nums"
+      />
+      <Button
+        type="button"
+        variant="ghost"
+        size="sm"
+        onClick={() => setAdvancedInput('monteCarloSeed', randomSeed())}
+      >
+        <Dices className="size-4" />
+        New seed
+      </Button>
+      <span>
+        {timeLimited
+          ? 'Sampling hit its time limit, so reruns on another device may differ slightly.'
+          : 'Same inputs and seed always give the same numbers.'}
+      </span>
+    </div>
+  );
+}
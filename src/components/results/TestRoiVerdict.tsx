@@ -0,0 +1,46 @@
+/**
+ * Test ROI Verdict - "Run it" / "Don't run it" under a verdict headline
+ *
+ * Weighs the entered test cost (Costs step) against the verdict's value.
+ * Renders nothing when no cost was entered.
+ */
+
+import { calculateTestRoi, describeTestRoi, type TestValueBasis } from '@/lib/test-roi';
+import { cn } from '@/lib/utils';
+
+interface TestRoiVerdictProps {
+  /** Value the cost is weighed against (net value or EVPI) */
+  valueDollars: number;
+  /** Cost of running the test */
+  costDollars: number;
+  /** What valueDollars measures */
+  basis: TestValueBasis;
+}
+
+export function TestRoiVerdict({ valueDollars, costDollars, basis }: TestRoiVerdictProps) {
+  const roi = calculateTestRoi(valueDollars, costDollars);
+  if (!roi) return null;
+
+  const { headline, detail } = describeTestRoi(roi, basis);
+
+  return (
+    <div
+      className={cn(
+        'rounded-lg border px-4 py-3',
+        roi.verdict === 'run'
+          ? 'bg-card border-success'
+          : 'bg-amber-50 border-amber-200'
+      )}
+    >
+      <p
+        className={cn(
+          'text-sm font-semibold',
+          roi.verdict === 'run' ? 'text-success' : 'text-amber-800'
+        )}
+      >
+        {headline}
+      </p>
+      <p className="text-sm text-muted-foreground">{detail}</p>
+    </div>
+  );
+}
@@ -9,6 +9,11 @@
  * 2. Latency period: Nobody gets treatment while deciding
  *
  * This addresses confusion where CoD showed $0 but Net Value < EVSI.
+ *
+ * Conversion latency is reported separately: it adds no days to the test or
+ * decision latency, so it isn't a timing cost. It shrinks the sample the
+ * decision reads, which costs value after the decision; EVSI reads the same
+ * sample, so that cost is already inside it.
  */
 
 import { useState } from 'react';
@@ -27,6 +32,10 @@ interface ValueBreakdownCardProps {
   variantFraction: number;
   /** Decision latency in days (for explanation) */
   decisionLatencyDays: number;
+  /** Conversion latency in days (for explanation) */
+  conversionLatencyDays?: number;
+  /** Net value lost to unmatured conversions at readout */
+  conversionLatencyCostDollars?: number;
 }
 
 export function ValueBreakdownCard({
@@ -35,6 +44,8 @@ export function ValueBreakdownCard({
   testDurationDays,
   variantFraction,
   decisionLatencyDays,
+  conversionLatencyDays = 0,
+  conversionLatencyCostDollars = 0,
 }: ValueBreakdownCardProps) {
   const [isExpanded, setIsExpanded] = useState(false);
 
@@ -106,8 +117,17 @@ export function ValueBreakdownCard({
                 you analyze results and decide, nobody receives the treatment.
               </p>
             )}
+            {conversionLatencyDays > 0 && (
+              <p>
+                <strong>Conversion latency ({conversionLatencyDays} days):</strong> Adds
+                no days to either period above. Users who enter in the last{' '}
+                {conversionLatencyDays} days of the test haven't converted yet when you read
+                results, so the decision learns from fewer users than the test exposes. That
+                costs value after the decision, not during the test or latency.
+              </p>
+            )}
             <p className="pt-1 border-t border-muted">
-              These timing effects are computed per Monte Carlo iteration, capturing
+              These timing effects are computed for every possible true lift, capturing
               the true opportunity cost regardless of your default decision.
             </p>
           </div>
@@ -123,6 +143,20 @@ export function ValueBreakdownCard({
             {formatSmartCurrency(displayNetValue)}
           </span>
         </div>
+
+        {/* Conversion latency cost (after the decision; already inside EVSI) */}
+        {conversionLatencyDays > 0 && (
+          <div className="flex justify-between items-baseline text-xs text-muted-foreground">
+            <span>
+              Lost after the decision to {conversionLatencyDays}-day conversion latency
+              (already in EVSI)
+            </span>
+            <span>
+              {conversionLatencyCostDollars > 0 ? '-' : ''}
+              {formatSmartCurrency(Math.abs(conversionLatencyCostDollars))}
+            </span>
+          </div>
+        )}
       </div>
 
       {/* Brief description */}
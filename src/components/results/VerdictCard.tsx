@@ -4,16 +4,29 @@
  * Per BASIC-OUT-01: "If you can A/B test this idea for less than $EVPI, it's worth testing"
  * Per BASIC-OUT-02: Subtext warning that EVPI is optimistic ceiling with Advanced mode CTA
  * Per 04-CONTEXT.md: Educational AND conversational tone, subtle Advanced mode link
+ * The decision horizon the value is counted over sits under the headline,
+ * and an entered test cost is weighed against EVPI as a run / don't run ROI.
  */
 
-import { formatSmartCurrency } from '@/lib/formatting';
+import { formatHorizon, formatSmartCurrency } from '@/lib/formatting';
+import type { DecisionHorizon } from '@/lib/calculations/types';
+import { TestRoiVerdict } from './TestRoiVerdict';
 
 interface VerdictCardProps {
   evpiDollars: number;
+  /** Horizon the value is counted over */
+  horizon: DecisionHorizon;
+  /** Cost of running the test (0: no cost entered, no ROI shown) */
+  testCostDollars?: number;
   onAdvancedModeClick?: () => void;
 }
 
-export function VerdictCard({ evpiDollars, onAdvancedModeClick }: VerdictCardProps) {
+export function VerdictCard({
+  evpiDollars,
+  horizon,
+  testCostDollars = 0,
+  onAdvancedModeClick,
+}: VerdictCardProps) {
   return (
     <div className="rounded-xl border bg-card p-6 space-y-4">
       {/* Primary verdict headline - ARIA live region for screen reader announcements */}
@@ -23,8 +36,14 @@ export function VerdictCard({ evpiDollars, onAdvancedModeClick }: VerdictCardPro
           <span className="text-primary">{formatSmartCurrency(evpiDollars)}</span>,
           it's worth testing.
         </h3>
+        <p className="text-xs text-muted-foreground">
+          Value counted over {formatHorizon(horizon)}.
+        </p>
       </div>
 
+      {/* Test cost against EVPI */}
+      <TestRoiVerdict valueDollars={evpiDollars} costDollars={testCostDollars} basis="evpi" />
+
       {/* EVPI optimism warning - per BASIC-OUT-02 */}
       <div className="rounded-lg bg-muted/50 border border-muted px-4 py-3">
         <p className="text-sm text-muted-foreground">
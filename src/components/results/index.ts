@@ -5,3 +5,6 @@ export { EVSIVerdictCard } from './EVSIVerdictCard';
 export { CostOfDelayCard } from './CostOfDelayCard';
 export { ValueBreakdownCard } from './ValueBreakdownCard';
 export { AdvancedResultsSection } from './AdvancedResultsSection';
+export { SensitivityPanel } from './SensitivityPanel';
+export { SimulationSeedNote } from './SimulationSeedNote';
+export { TestRoiVerdict } from './TestRoiVerdict';
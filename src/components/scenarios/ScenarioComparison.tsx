@@ -0,0 +1,181 @@
+/**
+ * Scenario Comparison
+ *
+ * Sortable table ranking saved scenarios by value of information: EVPI,
+ * EVSI, net value of testing, P(clears threshold) and the default decision
+ * (what you'd do without testing). Shown in the scenario library when two
+ * or more scenarios are selected.
+ *
+ * Default sort is net value, then EVPI for Basic scenarios (which have no
+ * test design, so no EVSI or net value).
+ */
+
+import { useMemo, useState } from 'react';
+import { ArrowDown, ArrowUp, Loader2 } from 'lucide-react';
+import { useScenarioComparison } from '@/hooks/useScenarioComparison';
+import {
+  sortComparisonRows,
+  type ComparisonRow,
+  type ComparisonSortKey,
+  type SortDirection,
+} from '@/lib/scenario-comparison';
+import { formatProbabilityPercent, formatSmartCurrency } from '@/lib/formatting';
+import type { SavedScenario } from '@/stores/scenarioStore';
+
+interface ScenarioComparisonProps {
+  /** Scenarios to compare */
+  scenarios: SavedScenario[];
+}
+
+interface Column {
+  key: ComparisonSortKey;
+  label: string;
+  format: (row: ComparisonRow) => string;
+}
+
+const EMPTY = '—';
+
+const COLUMNS: Column[] = [
+  { key: 'name', label: 'Scenario', format: (row) => row.name },
+  {
+    key: 'evpiDollars',
+    label: 'EVPI',
+    format: (row) => (row.evpiDollars === null ? EMPTY : formatSmartCurrency(row.evpiDollars)),
+  },
+  {
+    key: 'evsiDollars',
+    label: 'EVSI',
+    format: (row) => (row.evsiDollars === null ? EMPTY : formatSmartCurrency(row.evsiDollars)),
+  },
+  {
+    key: 'netValueDollars',
+    label: 'Net value',
+    format: (row) =>
+      row.netValueDollars === null ? EMPTY : formatSmartCurrency(row.netValueDollars),
+  },
+  {
+    key: 'probabilityClearsThreshold',
+    label: 'P(clears threshold)',
+    format: (row) =>
+      row.probabilityClearsThreshold === null
+        ? EMPTY
+        : formatProbabilityPercent(row.probabilityClearsThreshold),
+  },
+  {
+    key: 'defaultDecision',
+    label: 'Default decision',
+    format: (row) =>
+      row.defaultDecision === null ? EMPTY : row.defaultDecision === 'ship' ? 'Ship' : "Don't ship",
+  },
+];
+
+const ISSUE_LABELS: Record<NonNullable<ComparisonRow['issue']>, string> = {
+  unreadable: "Can't be read",
+  incomplete: 'Inputs incomplete',
+};
+
+export function ScenarioComparison({ scenarios }: ScenarioComparisonProps) {
+  const { loading, rows } = useScenarioComparison(scenarios);
+
+  // null = default ranking (net value, then EVPI)
+  const [sort, setSort] = useState<{ key: ComparisonSortKey; direction: SortDirection } | null>(
+    null
+  );
+
+  const sortedRows = useMemo(() => {
+    if (sort) {
+      return sortComparisonRows(rows, sort.key, sort.direction);
+    }
+    // Stable sorts: EVPI first, then net value takes precedence
+    return sortComparisonRows(
+      sortComparisonRows(rows, 'evpiDollars', 'desc'),
+      'netValueDollars',
+      'desc'
+    );
+  }, [rows, sort]);
+
+  const toggleSort = (key: ComparisonSortKey) => {
+    setSort((current) =>
+      current?.key === key
+        ? { key, direction: current.direction === 'asc' ? 'desc' : 'asc' }
+        : { key, direction: key === 'name' ? 'asc' : 'desc' }
+    );
+  };
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center gap-2">
+        <h3 className="text-sm font-semibold text-foreground">Comparison</h3>
+        {loading && (
+          <span className="flex items-center gap-1 text-xs text-muted-foreground">
+            <Loader2 className="size-3 animate-spin" />
+            Simulating non-Normal priors…
+          </span>
+        )}
+      </div>
+
+      <div className="overflow-x-auto">
+        <table className="w-full text-sm">
+          <thead>
+            <tr className="border-b border-border text-left">
+              {COLUMNS.map((column) => {
+                const active = sort?.key === column.key;
+                return (
+                  <th
+                    key={column.key}
+                    scope="col"
+                    aria-sort={
+                      active ? (sort.direction === 'asc' ? 'ascending' : 'descending') : undefined
+                    }
+                    className="py-2 pr-3 font-medium text-muted-foreground whitespace-nowrap"
+                  >
+                    <button
+                      type="button"
+                      onClick={() => toggleSort(column.key)}
+                      className="inline-flex items-center gap-1 hover:text-foreground transition-colors"
+                    >
+                      {column.label}
+                      {active &&
+                        (sort.direction === 'asc' ? (
+                          <ArrowUp className="size-3" />
+                        ) : (
+                          <ArrowDown className="size-3" />
+                        ))}
+                    </button>
+                  </th>
+                );
+              })}
+            </tr>
+          </thead>
+          <tbody>
+            {sortedRows.map((row) => (
+              <tr key={row.id} className="border-b border-border last:border-0">
+                {COLUMNS.map((column) =>
+                  column.key === 'name' ? (
+                    <th key={column.key} scope="row" className="py-2 pr-3 text-left font-medium">
+                      {row.name}
+                      {row.issue && (
+                        <span className="block text-xs font-normal text-muted-foreground">
+                          {ISSUE_LABELS[row.issue]}
+                        </span>
+                      )}
+                    </th>
+                  ) : (
+                    <td key={column.key} className="py-2 pr-3 tabular-nums whitespace-nowrap">
+                      {column.format(row)}
+                    </td>
+                  )
+                )}
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+
+      <p className="text-xs text-muted-foreground">
+        EVPI uses each scenario's prior interval as a Normal prior. EVSI and net value need a
+        test design, so only Advanced scenarios have them.
+      </p>
+    </div>
+  );
+}
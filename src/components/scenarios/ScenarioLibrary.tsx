@@ -0,0 +1,260 @@
+/**
+ * Scenario Library
+ *
+ * Panel for saving the current inputs under a name and managing saved
+ * scenarios: load, rename, duplicate, delete and compare. Opened from the
+ * Calculator page header. Selecting two or more scenarios shows the
+ * comparison table below the list.
+ *
+ * Loading replaces the wizard's mode and inputs (wizardStore.loadInputs);
+ * forms re-sync from the store and the results hooks recompute on their own.
+ * Scenarios that can't be read (saved by a newer build, or damaged) stay
+ * in the list with an inline error instead of loading defaults.
+ */
+
+import { useMemo, useState } from 'react';
+import { Check, Copy, Pencil, Save, Trash2, X } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { useWizardStore } from '@/stores/wizardStore';
+import { readScenario, useScenarioStore, type SavedScenario } from '@/stores/scenarioStore';
+import { ScenarioComparison } from './ScenarioComparison';
+
+interface ScenarioLibraryProps {
+  /** Called after a scenario is loaded (e.g., to close the panel) */
+  onLoaded?: () => void;
+}
+
+/**
+ * Format an ISO timestamp as a short local date
+ */
+function formatSavedDate(iso: string): string {
+  const date = new Date(iso);
+  return Number.isNaN(date.getTime())
+    ? ''
+    : date.toLocaleDateString(undefined, { month: 'short', day: 'numeric', year: 'numeric' });
+}
+
+export function ScenarioLibrary({ onLoaded }: ScenarioLibraryProps) {
+  const mode = useWizardStore((state) => state.mode);
+  const inputs = useWizardStore((state) => state.inputs);
+  const loadInputs = useWizardStore((state) => state.loadInputs);
+
+  const scenarios = useScenarioStore((state) => state.scenarios);
+  const saveScenario = useScenarioStore((state) => state.saveScenario);
+  const renameScenario = useScenarioStore((state) => state.renameScenario);
+  const duplicateScenario = useScenarioStore((state) => state.duplicateScenario);
+  const deleteScenario = useScenarioStore((state) => state.deleteScenario);
+
+  const [newName, setNewName] = useState('');
+  // Only one row can be renamed or confirming delete at a time
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [editingName, setEditingName] = useState('');
+  const [confirmDeleteId, setConfirmDeleteId] = useState<string | null>(null);
+  const [loadErrorId, setLoadErrorId] = useState<string | null>(null);
+  const [selectedIds, setSelectedIds] = useState<string[]>([]);
+
+  // Memoized so the comparison only recomputes when the selection or the
+  // scenarios themselves change (deleted scenarios drop out here)
+  const selectedScenarios = useMemo(
+    () => scenarios.filter((scenario) => selectedIds.includes(scenario.id)),
+    [scenarios, selectedIds]
+  );
+
+  const toggleSelected = (id: string) => {
+    setSelectedIds((current) =>
+      current.includes(id) ? current.filter((selected) => selected !== id) : [...current, id]
+    );
+  };
+
+  const handleSave = () => {
+    saveScenario(newName, { mode, inputs });
+    setNewName('');
+  };
+
+  const handleLoad = (scenario: SavedScenario) => {
+    const result = readScenario(scenario);
+    if (!result.ok) {
+      setLoadErrorId(scenario.id);
+      return;
+    }
+    setLoadErrorId(null);
+    loadInputs(result.snapshot.mode, result.snapshot.inputs);
+    onLoaded?.();
+  };
+
+  const startRename = (scenario: SavedScenario) => {
+    setEditingId(scenario.id);
+    setEditingName(scenario.name);
+    setConfirmDeleteId(null);
+  };
+
+  const commitRename = () => {
+    if (editingId) {
+      renameScenario(editingId, editingName);
+    }
+    setEditingId(null);
+  };
+
+  return (
+    <section aria-label="Saved scenarios" className="rounded-xl border bg-card p-4 space-y-4">
+      {/* Save current inputs */}
+      <form
+        className="flex gap-2"
+        onSubmit={(e) => {
+          e.preventDefault();
+          handleSave();
+        }}
+      >
+        <Input
+          type="text"
+          value={newName}
+          onChange={(e) => setNewName(e.target.value)}
+          placeholder="Name this scenario (e.g., Checkout redesign)"
+          aria-label="Scenario name"
+          className="text-sm"
+        />
+        <Button type="submit" variant="outline">
+          <Save className="size-4" />
+          Save current
+        </Button>
+      </form>
+
+      {/* Saved list */}
+      {scenarios.length === 0 ? (
+        <p className="text-sm text-muted-foreground">
+          No saved scenarios yet. Saved scenarios stay in this browser until you delete them.
+        </p>
+      ) : (
+        <>
+          {scenarios.length >= 2 && (
+            <p className="text-xs text-muted-foreground">
+              Tick two or more scenarios to compare them side by side.
+            </p>
+          )}
+          <ul className="divide-y divide-border">
+            {scenarios.map((scenario) => (
+              <li key={scenario.id} className="py-2 space-y-1">
+                <div className="flex items-center gap-2">
+                  <input
+                    type="checkbox"
+                    checked={selectedIds.includes(scenario.id)}
+                    onChange={() => toggleSelected(scenario.id)}
+                    aria-label={`Compare ${scenario.name}`}
+                    className="size-4 accent-primary"
+                  />
+                  {editingId === scenario.id ? (
+                    <form
+                      className="flex flex-1 gap-1"
+                      onSubmit={(e) => {
+                        e.preventDefault();
+                        commitRename();
+                      }}
+                    >
+                      <Input
+                        type="text"
+                        value={editingName}
+                        onChange={(e) => setEditingName(e.target.value)}
+                        aria-label="New scenario name"
+                        className="h-8 text-sm"
+                        autoFocus
+                      />
+                      <Button type="submit" variant="ghost" size="icon-sm" aria-label="Save name">
+                        <Check />
+                      </Button>
+                      <Button
+                        type="button"
+                        variant="ghost"
+                        size="icon-sm"
+                        aria-label="Cancel rename"
+                        onClick={() => setEditingId(null)}
+                      >
+                        <X />
+                      </Button>
+                    </form>
+                  ) : (
+                    <button
+                      type="button"
+                      onClick={() => handleLoad(scenario)}
+                      title="Load this scenario"
+                      className="flex-1 text-left rounded px-1 -mx-1 hover:bg-muted/50 transition-colors"
+                    >
+                      <span className="block text-sm font-medium text-foreground">
+                        {scenario.name}
+                      </span>
+                      <span className="block text-xs text-muted-foreground">
+                        {scenario.snapshot.mode === 'advanced' ? 'Advanced' : 'Basic'} ·{' '}
+                        {formatSavedDate(scenario.updatedAt)}
+                      </span>
+                    </button>
+                  )}
+
+                  {editingId !== scenario.id && confirmDeleteId !== scenario.id && (
+                    <div className="flex gap-1">
+                      <Button
+                        variant="ghost"
+                        size="icon-sm"
+                        aria-label={`Rename ${scenario.name}`}
+                        onClick={() => startRename(scenario)}
+                      >
+                        <Pencil />
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="icon-sm"
+                        aria-label={`Duplicate ${scenario.name}`}
+                        onClick={() => duplicateScenario(scenario.id)}
+                      >
+                        <Copy />
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="icon-sm"
+                        aria-label={`Delete ${scenario.name}`}
+                        onClick={() => {
+                          setConfirmDeleteId(scenario.id);
+                          setEditingId(null);
+                        }}
+                      >
+                        <Trash2 />
+                      </Button>
+                    </div>
+                  )}
+
+                  {/* Two-step delete: there is no undo */}
+                  {confirmDeleteId === scenario.id && (
+                    <div className="flex items-center gap-1">
+                      <span className="text-xs text-muted-foreground">Delete?</span>
+                      <Button
+                        variant="destructive"
+                        size="sm"
+                        onClick={() => {
+                          deleteScenario(scenario.id);
+                          setConfirmDeleteId(null);
+                        }}
+                      >
+                        Delete
+                      </Button>
+                      <Button variant="ghost" size="sm" onClick={() => setConfirmDeleteId(null)}>
+                        Keep
+                      </Button>
+                    </div>
+                  )}
+                </div>
+
+                {loadErrorId === scenario.id && (
+                  <p role="alert" className="text-xs text-destructive">
+                    This scenario can't be loaded. It was saved by an incompatible version of
+                    the calculator or has been damaged.
+                  </p>
+                )}
+              </li>
+            ))}
+          </ul>
+        </>
+      )}
+
+      {selectedScenarios.length >= 2 && <ScenarioComparison scenarios={selectedScenarios} />}
+    </section>
+  );
+}
@@ -0,0 +1,49 @@
+/**
+ * Shared Link Notice
+ *
+ * Shown at the top of the calculator when the page was opened from a share
+ * link that couldn't be used. The user's existing inputs are kept, so the
+ * notice says so explicitly rather than letting them assume the link loaded.
+ */
+
+import { AlertTriangle, X } from 'lucide-react';
+import type { SnapshotErrorReason } from '@/lib/inputs-snapshot';
+
+interface SharedLinkNoticeProps {
+  /** Why the link was rejected */
+  reason: SnapshotErrorReason;
+  /** Hide the notice */
+  onDismiss: () => void;
+}
+
+const MESSAGES: Record<SnapshotErrorReason, string> = {
+  'unsupported-version':
+    'This link was made with a different version of the calculator and can no longer be opened.',
+  invalid: "This link is incomplete or damaged, so we couldn't load the analysis it points to.",
+};
+
+export function SharedLinkNotice({ reason, onDismiss }: SharedLinkNoticeProps) {
+  return (
+    <div
+      role="alert"
+      className="bg-amber-50 border border-amber-200 rounded-lg p-3 flex items-start gap-2"
+    >
+      <AlertTriangle className="h-5 w-5 text-amber-600 flex-shrink-0 mt-0.5" />
+      <div className="flex-1 text-sm text-amber-800">
+        <p className="font-medium">Shared link not loaded</p>
+        <p className="mt-1">
+          {MESSAGES[reason]} You're seeing your own inputs instead. Ask the sender for a
+          fresh link.
+        </p>
+      </div>
+      <button
+        type="button"
+        onClick={onDismiss}
+        aria-label="Dismiss notice"
+        className="text-amber-700 hover:text-amber-900 transition-colors"
+      >
+        <X className="h-4 w-4" />
+      </button>
+    </div>
+  );
+}
@@ -0,0 +1,28 @@
+/**
+ * Bandit Comparison Hook
+ *
+ * Runs the bandit vs A/B test comparison (see lib/bandit-comparison.ts) in
+ * the EVSI Web Worker on demand. Any input change, including the bandit
+ * policy, makes the results stale (see useDesignSweep).
+ */
+
+import { useDesignSweep, type DesignSweepRunner, type UseDesignSweepResult } from './useDesignSweep';
+import type { BanditComparisonResults } from '@/lib/bandit-comparison';
+import type { AdvancedInputs } from '@/types/wizard';
+
+const NO_SWEPT_FIELDS: readonly (keyof AdvancedInputs)[] = [];
+
+const runBanditComparison: DesignSweepRunner<BanditComparisonResults> = (
+  api,
+  inputs,
+  onProgress
+) => api.computeBanditComparison(inputs, onProgress);
+
+/**
+ * Hook that compares a bandit rollout with the entered A/B test.
+ *
+ * @returns Status, progress, results and run/cancel actions
+ */
+export function useBanditComparison(): UseDesignSweepResult<BanditComparisonResults> {
+  return useDesignSweep(runBanditComparison, NO_SWEPT_FIELDS);
+}
@@ -0,0 +1,163 @@
+/**
+ * Design Sweep Hook
+ *
+ * Runs a design sweep (duration, traffic split, or both; see
+ * lib/design-sweep.ts) on the shared EVSI worker pool on demand, with
+ * progress and cancellation. The optimizer hooks wrap this with the worker method to call.
+ *
+ * Key behaviors:
+ * - Nothing runs until run() is called (a sweep is dozens of net value runs)
+ * - cancel() aborts the sweep immediately (the pool stops its worker); so
+ *   does unmounting
+ * - Progress is reported from the worker through a Comlink proxy
+ * - Results are tied to the inputs they were computed for: once any input
+ *   other than the swept ones changes, results are dropped (stale)
+ */
+
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import type { ProxyMarked, Remote } from 'comlink';
+import { useWizardStore } from '@/stores/wizardStore';
+import type { SweepProgress } from '@/lib/design-sweep';
+import type { EVSIWorkerApi } from '@/lib/workers/evsi.worker';
+import { getEVSIWorkerPool, isAbortError } from '@/lib/workers/worker-pool';
+import type { AdvancedInputs, InputsState } from '@/types/wizard';
+
+/**
+ * Sweep state
+ * - idle: not run yet, cancelled, or results went stale
+ * - running: sweep in progress
+ * - done: results available
+ * - incomplete: other inputs are missing, so there's nothing to sweep
+ * - error: the worker failed
+ */
+export type DesignSweepStatus = 'idle' | 'running' | 'done' | 'incomplete' | 'error';
+
+/**
+ * Starts a sweep on the worker; resolves to null if inputs are incomplete
+ */
+export type DesignSweepRunner<T> = (
+  api: Remote<EVSIWorkerApi>,
+  inputs: InputsState,
+  onProgress: SweepProgress & ProxyMarked
+) => Promise<T | null>;
+
+/**
+ * Hook return type
+ */
+export interface UseDesignSweepResult<T> {
+  status: DesignSweepStatus;
+  /** Fraction of design points completed (0-1) while running */
+  progress: number;
+  /** Sweep results when status is 'done' */
+  results: T | null;
+  /** Start a sweep (restarts one in progress) */
+  run: () => void;
+  /** Stop a sweep in progress */
+  cancel: () => void;
+}
+
+/**
+ * Hook that runs a design sweep in the worker.
+ *
+ * @param runSweep - Worker call to make (module-level, so it's stable)
+ * @param sweptFields - Advanced inputs the sweep varies; changes to these
+ *   don't make results stale (module-level, so it's stable)
+ * @returns Status, progress, results and run/cancel actions
+ */
+export function useDesignSweep<T>(
+  runSweep: DesignSweepRunner<T>,
+  sweptFields: readonly (keyof AdvancedInputs)[]
+): UseDesignSweepResult<T> {
+  const inputs = useWizardStore((state) => state.inputs);
+
+  const [status, setStatus] = useState<DesignSweepStatus>('idle');
+  const [progress, setProgress] = useState(0);
+  const [results, setResults] = useState<T | null>(null);
+  // Inputs key the current results were computed for
+  const [resultsKey, setResultsKey] = useState<string | null>(null);
+
+  const controllerRef = useRef<AbortController | null>(null);
+  const runIdRef = useRef(0);
+
+  // Everything except the swept fields
+  const inputsKey = useMemo(() => {
+    const advanced: Record<string, unknown> = { ...inputs.advanced };
+    for (const field of sweptFields) {
+      advanced[field] = null;
+    }
+    return JSON.stringify({ shared: inputs.shared, advanced });
+  }, [inputs, sweptFields]);
+
+  const stopSweep = useCallback(() => {
+    runIdRef.current++;
+    controllerRef.current?.abort();
+    controllerRef.current = null;
+  }, []);
+
+  const run = useCallback(() => {
+    stopSweep();
+    const runId = runIdRef.current;
+    const key = inputsKey;
+    const controller = new AbortController();
+    controllerRef.current = controller;
+
+    setStatus('running');
+    setProgress(0);
+    setResults(null);
+
+    getEVSIWorkerPool()
+      .run(
+        ({ remote, proxy }) =>
+          runSweep(
+            remote,
+            inputs,
+            proxy((completed: number, total: number) => {
+              if (runId === runIdRef.current) {
+                setProgress(completed / total);
+              }
+            })
+          ),
+        { signal: controller.signal }
+      )
+      .then((sweep) => {
+        if (runId === runIdRef.current) {
+          setResults(sweep);
+          setResultsKey(key);
+          setStatus(sweep ? 'done' : 'incomplete');
+        }
+      })
+      .catch((error: unknown) => {
+        if (isAbortError(error)) return;
+        console.error('Design sweep worker error:', error);
+        if (runId === runIdRef.current) {
+          setStatus('error');
+        }
+      })
+      .finally(() => {
+        if (controllerRef.current === controller) {
+          controllerRef.current = null;
+        }
+      });
+  }, [inputs, inputsKey, runSweep, stopSweep]);
+
+  const cancel = useCallback(() => {
+    stopSweep();
+    setStatus('idle');
+    setProgress(0);
+  }, [stopSweep]);
+
+  // Abort a running sweep on unmount
+  useEffect(() => stopSweep, [stopSweep]);
+
+  // Results for different inputs are stale: hide them (render-time check,
+  // so there is no flash of outdated numbers)
+  const stale = resultsKey !== null && resultsKey !== inputsKey;
+
+  return {
+    status: stale && (status === 'done' || status === 'incomplete') ? 'idle' : status,
+    progress,
+    results: stale ? null : results,
+    run,
+    cancel,
+  };
+}
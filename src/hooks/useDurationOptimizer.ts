@@ -0,0 +1,25 @@
+/**
+ * Duration Optimizer Hook
+ *
+ * Runs the test duration sweep (see lib/duration-optimizer.ts) in the EVSI
+ * Web Worker on demand. Changing the test duration keeps the results; any
+ * other input change makes them stale (see useDesignSweep).
+ */
+
+import { useDesignSweep, type DesignSweepRunner, type UseDesignSweepResult } from './useDesignSweep';
+import type { DurationSweepResults } from '@/lib/duration-optimizer';
+import type { AdvancedInputs } from '@/types/wizard';
+
+const SWEPT_FIELDS: readonly (keyof AdvancedInputs)[] = ['testDurationDays'];
+
+const runDurationSweep: DesignSweepRunner<DurationSweepResults> = (api, inputs, onProgress) =>
+  api.computeDurationSweep(inputs, undefined, onProgress);
+
+/**
+ * Hook that finds the net-value-maximizing test duration.
+ *
+ * @returns Status, progress, results and run/cancel actions
+ */
+export function useDurationOptimizer(): UseDesignSweepResult<DurationSweepResults> {
+  return useDesignSweep(runDurationSweep, SWEPT_FIELDS);
+}
@@ -397,6 +397,35 @@ describe('useEVPICalculations', () => {
       expect(result.current!.zScore).toBeLessThan(0);
     });
 
+    it('recomputes when the horizon or discount rate changes', () => {
+      const { setSharedInput } = useWizardStore.getState();
+
+      act(() => {
+        setSharedInput('baselineConversionRate', 0.05);
+        setSharedInput('annualVisitors', 1000000);
+        setSharedInput('valuePerConversion', 100);
+        setSharedInput('thresholdScenario', 'any-positive');
+      });
+
+      const { result, rerender } = renderHook(() => useEVPICalculations());
+      const oneYear = result.current!.evpiDollars;
+
+      act(() => {
+        setSharedInput('horizonDays', 730);
+      });
+      rerender();
+
+      const twoYears = result.current!.evpiDollars;
+      expect(twoYears).toBeCloseTo(oneYear * 2, 6);
+
+      act(() => {
+        setSharedInput('annualDiscountRate', 0.2);
+      });
+      rerender();
+
+      expect(result.current!.evpiDollars).toBeLessThan(twoYears);
+    });
+
     it('becomes null when required input is cleared', () => {
       const { setSharedInput } = useWizardStore.getState();
 
@@ -420,5 +449,27 @@ describe('useEVPICalculations', () => {
       // Should return null now
       expect(result.current).toBeNull();
     });
+
+    it('computes once a continuous metric gets its standard deviation last', () => {
+      const { setSharedInput } = useWizardStore.getState();
+
+      act(() => {
+        setSharedInput('metricType', 'continuous');
+        setSharedInput('metricMean', 50);
+        setSharedInput('annualVisitors', 1000000);
+        setSharedInput('valuePerConversion', 1);
+        setSharedInput('thresholdScenario', 'any-positive');
+      });
+
+      const { result, rerender } = renderHook(() => useEVPICalculations());
+      expect(result.current).toBeNull();
+
+      act(() => {
+        setSharedInput('metricStandardDeviation', 20);
+      });
+      rerender();
+
+      expect(result.current).not.toBeNull();
+    });
   });
 });
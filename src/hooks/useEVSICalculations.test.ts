@@ -198,6 +198,28 @@ describe('useEVSICalculations', () => {
         expect(result.current.results!.sampleSizes.n_control).toBe(35000);
       });
 
+      it('uses the matured sample when conversions lag exposure', async () => {
+        act(() => {
+          setupSharedInputs();
+          setupAdvancedInputs();
+          useWizardStore.getState().setAdvancedInput('conversionLatencyDays', 7);
+        });
+
+        const { result } = renderHook(() => useEVSICalculations());
+
+        await waitFor(() => {
+          expect(result.current.results).not.toBeNull();
+        });
+
+        // 14-day test with 7-day latency: half of each arm is readable
+        expect(result.current.results!.sampleSizes.n_control).toBe(35000);
+        expect(result.current.results!.sampleSizes.n_matured_control).toBe(17500);
+        expect(result.current.results!.sampleSizes.n_matured_variant).toBe(17500);
+        expect(
+          result.current.results!.netValue.conversionLatencyCostDollars
+        ).toBeGreaterThanOrEqual(0);
+      });
+
       it('calculates CoD = 0 when default is Don\'t Ship', async () => {
         act(() => {
           setupSharedInputs();
@@ -331,6 +353,70 @@ describe('useEVSICalculations', () => {
         });
       });
 
+      it('recomputes when the horizon or discount rate changes', async () => {
+        act(() => {
+          setupSharedInputs();
+          setupAdvancedInputs();
+        });
+
+        const { result, rerender } = renderHook(() => useEVSICalculations());
+
+        await waitFor(() => {
+          expect(result.current.results).not.toBeNull();
+        });
+
+        const oneYear = result.current.results!.netValueDollars;
+
+        act(() => {
+          const { setSharedInput } = useWizardStore.getState();
+          setSharedInput('horizonDays', 730);
+        });
+        rerender();
+
+        const twoYears = result.current.results!.netValueDollars;
+        expect(twoYears).toBeGreaterThan(oneYear);
+
+        act(() => {
+          const { setSharedInput } = useWizardStore.getState();
+          setSharedInput('annualDiscountRate', 0.2);
+        });
+        rerender();
+
+        expect(result.current.results!.netValueDollars).toBeLessThan(twoYears);
+      });
+
+      it('recomputes when the effect dynamics change', async () => {
+        act(() => {
+          setupSharedInputs();
+          setupAdvancedInputs();
+        });
+
+        const { result, rerender } = renderHook(() => useEVSICalculations());
+
+        await waitFor(() => {
+          expect(result.current.results).not.toBeNull();
+        });
+
+        const constant = result.current.results!.netValueDollars;
+
+        act(() => {
+          const { setAdvancedInput } = useWizardStore.getState();
+          setAdvancedInput('effectDynamicsType', 'decay');
+        });
+        rerender();
+
+        const decay = result.current.results!.netValueDollars;
+        expect(decay).not.toBe(constant);
+
+        act(() => {
+          const { setAdvancedInput } = useWizardStore.getState();
+          setAdvancedInput('noveltyLift', 0.05);
+        });
+        rerender();
+
+        expect(result.current.results!.netValueDollars).not.toBe(decay);
+      });
+
       it('becomes null when required input is cleared', async () => {
         act(() => {
           setupSharedInputs();
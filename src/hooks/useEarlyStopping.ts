@@ -0,0 +1,25 @@
+/**
+ * Early Stopping Hook
+ *
+ * Runs the group-sequential simulation (see lib/early-stopping.ts) in the
+ * EVSI Web Worker on demand. Any input change, including the interim looks
+ * and stopping rule, makes the results stale (see useDesignSweep).
+ */
+
+import { useDesignSweep, type DesignSweepRunner, type UseDesignSweepResult } from './useDesignSweep';
+import type { EarlyStoppingResults } from '@/lib/early-stopping';
+import type { AdvancedInputs } from '@/types/wizard';
+
+const NO_SWEPT_FIELDS: readonly (keyof AdvancedInputs)[] = [];
+
+const runEarlyStopping: DesignSweepRunner<EarlyStoppingResults> = (api, inputs, onProgress) =>
+  api.computeEarlyStopping(inputs, onProgress);
+
+/**
+ * Hook that simulates the entered test with its interim looks.
+ *
+ * @returns Status, progress, results and run/cancel actions
+ */
+export function useEarlyStopping(): UseDesignSweepResult<EarlyStoppingResults> {
+  return useDesignSweep(runEarlyStopping, NO_SWEPT_FIELDS);
+}
@@ -0,0 +1,182 @@
+/**
+ * Scenario Comparison Hook
+ *
+ * Computes comparison rows for a list of saved scenarios.
+ *
+ * Key behaviors:
+ * - EVPI is computed synchronously for every scenario (closed-form, or by
+ *   quadrature for non-Normal Advanced priors)
+ * - Advanced scenarios with Normal priors compute EVSI and net value in
+ *   closed form, synchronously, as useEVSICalculations does
+ * - Scenarios with any other prior run on the shared worker pool with the
+ *   same calculation as the results view, so a scenario matching the
+ *   current inputs is a cache hit; rows fill in when the batch finishes
+ *   (loading=true until then)
+ * - Rows for scenarios that can't be read or are incomplete carry an issue
+ */
+
+import { useEffect, useMemo, useState } from 'react';
+import { calculateEVSINormalFastPath } from '@/lib/calculations';
+import { calculateNetValueNormalFastPath } from '@/lib/calculations/net-value';
+import {
+  buildComparisonRow,
+  prepareScenario,
+  type AdvancedComparisonResults,
+  type ComparisonRow,
+} from '@/lib/scenario-comparison';
+import type { DerivedAdvancedInputs } from '@/lib/derive-inputs';
+import { readScenario, type SavedScenario } from '@/stores/scenarioStore';
+import {
+  advancedRunKey,
+  advancedRunTask,
+  getEVSIWorkerPool,
+  isAbortError,
+  type AdvancedWorkerRun,
+} from '@/lib/workers/worker-pool';
+
+/**
+ * Non-Normal scenario waiting on a worker run
+ */
+interface PendingScenario {
+  id: string;
+  inputs: DerivedAdvancedInputs;
+  key: string;
+}
+
+/**
+ * Worker results for one pending list (identity marks which one)
+ */
+interface SettledBatch {
+  pending: PendingScenario[];
+  results: Record<string, AdvancedComparisonResults>;
+}
+
+/**
+ * Hook return type
+ */
+export interface UseScenarioComparisonResult {
+  /** True while worker-backed scenarios are computing */
+  loading: boolean;
+  /** One row per scenario, in input order */
+  rows: ComparisonRow[];
+}
+
+/**
+ * Hook that compares saved scenarios by value of information.
+ *
+ * @param scenarios - Scenarios to compare
+ * @returns Loading state and comparison rows
+ *
+ * @example
+ * const { loading, rows } = useScenarioComparison(selectedScenarios);
+ */
+export function useScenarioComparison(scenarios: SavedScenario[]): UseScenarioComparisonResult {
+  // ===========================================
+  // Step 1: Read snapshots, derive inputs, compute EVPI
+  // ===========================================
+  const prepared = useMemo(
+    () =>
+      scenarios.map((scenario) => {
+        const result = readScenario(scenario);
+        return {
+          id: scenario.id,
+          name: scenario.name,
+          prepared: result.ok ? prepareScenario(result.snapshot) : null,
+        };
+      }),
+    [scenarios]
+  );
+
+  // ===========================================
+  // Step 2: EVSI and net value available without a new worker run
+  // ===========================================
+  // Normal priors in closed form; non-Normal runs already in the
+  // pool cache (including the results view's run for the current inputs)
+  const { immediate, pending } = useMemo(() => {
+    const pool = getEVSIWorkerPool();
+    const immediate: Record<string, AdvancedComparisonResults> = {};
+    const pending: PendingScenario[] = [];
+
+    for (const entry of prepared) {
+      const inputs = entry.prepared?.advanced;
+      if (!inputs) continue;
+
+      const { prior, evsiInputs, netValueInputs } = inputs;
+      if (prior.type === 'normal') {
+        immediate[entry.id] = {
+          evsi: calculateEVSINormalFastPath(evsiInputs),
+          netValue: calculateNetValueNormalFastPath(netValueInputs),
+        };
+        continue;
+      }
+
+      const key = advancedRunKey(evsiInputs, netValueInputs);
+      const cached = pool.cached<AdvancedWorkerRun>(key);
+      if (cached) {
+        immediate[entry.id] = cached;
+      } else {
+        pending.push({ id: entry.id, inputs, key });
+      }
+    }
+    return { immediate, pending };
+  }, [prepared]);
+
+  // Worker results, tagged with the pending list they were computed for
+  const [settled, setSettled] = useState<SettledBatch | null>(null);
+
+  // ===========================================
+  // Step 3: Run the rest on the shared worker pool
+  // ===========================================
+  useEffect(() => {
+    if (pending.length === 0) return;
+
+    const pool = getEVSIWorkerPool();
+    const controller = new AbortController();
+    const results: Record<string, AdvancedComparisonResults> = {};
+
+    Promise.all(
+      pending.map(({ id, inputs, key }) => {
+        const { evsiInputs, netValueInputs } = inputs;
+        return pool
+          .run(advancedRunTask(evsiInputs, netValueInputs), {
+            signal: controller.signal,
+            cacheKey: key,
+          })
+          .then((run) => {
+            results[id] = run;
+          })
+          .catch((error: unknown) => {
+            if (isAbortError(error)) return;
+            // Affected rows keep blank EVSI / net value; the rest of the table still works
+            console.error('Scenario comparison worker error:', error);
+          });
+      })
+    ).then(() => {
+      if (!controller.signal.aborted) {
+        setSettled({ pending, results });
+      }
+    });
+
+    // Cleanup: abort pending runs if the selection changes or on unmount
+    return () => controller.abort();
+  }, [pending]);
+
+  const loading = pending.length > 0 && settled?.pending !== pending;
+  const advancedResults = useMemo(
+    () => (settled?.pending === pending ? { ...immediate, ...settled.results } : immediate),
+    [immediate, pending, settled]
+  );
+
+  // ===========================================
+  // Step 4: Build rows
+  // ===========================================
+  const rows = useMemo(
+    () =>
+      prepared.map((entry) =>
+        buildComparisonRow(entry.id, entry.name, entry.prepared, advancedResults[entry.id])
+      ),
+    [prepared, advancedResults]
+  );
+
+  return { loading, rows };
+}
@@ -0,0 +1,108 @@
+/**
+ * Sensitivity Analysis Hook
+ *
+ * Runs the tornado analysis (see lib/sensitivity.ts) for the current wizard
+ * inputs in the shared EVSI worker pool, so re-running EVPI or net value
+ * per input never blocks the UI.
+ *
+ * Key behaviors:
+ * - Does nothing until enabled (the panel is collapsed by default)
+ * - Re-runs when mode, inputs or range change (debounced); a run in
+ *   flight is aborted, and results are cached by inputs in the shared pool
+ * - Returns null results when inputs are incomplete
+ */
+
+import { useEffect, useState } from 'react';
+import { useWizardStore } from '@/stores/wizardStore';
+import type { SensitivityResults } from '@/lib/sensitivity';
+import {
+  cacheKey,
+  getEVSIWorkerPool,
+  INPUT_DEBOUNCE_MS,
+  isAbortError,
+} from '@/lib/workers/worker-pool';
+
+/**
+ * Hook return type
+ */
+export interface UseSensitivityAnalysisResult {
+  /** True while the worker is computing */
+  loading: boolean;
+  /** Ranked bars, or null if disabled, incomplete or failed */
+  results: SensitivityResults | null;
+  /** True if the last run failed */
+  error: boolean;
+}
+
+/**
+ * Outcome of a finished run, tagged with the inputs it was for
+ */
+interface SettledRun {
+  key: string;
+  results: SensitivityResults | null;
+  error: boolean;
+}
+
+/**
+ * Hook that runs the sensitivity analysis for the current inputs.
+ *
+ * @param rangeFraction - Perturbation range (e.g., 0.2 for ±20%)
+ * @param enabled - Only compute while true
+ * @returns Loading state, results and error flag
+ */
+export function useSensitivityAnalysis(
+  rangeFraction: number,
+  enabled: boolean
+): UseSensitivityAnalysisResult {
+  const mode = useWizardStore((state) => state.mode);
+  const inputs = useWizardStore((state) => state.inputs);
+
+  // Key of the request for the current inputs (null while disabled)
+  const key = enabled ? cacheKey('sensitivity', mode, inputs, rangeFraction) : null;
+
+  // Last finished run; shown while the next one computes
+  const [settled, setSettled] = useState<SettledRun | null>(null);
+
+  useEffect(() => {
+    if (key === null) return;
+
+    // Inputs seen before are answered from the cache at render time
+    const pool = getEVSIWorkerPool();
+    if (pool.cached(key) !== undefined) return;
+
+    const controller = new AbortController();
+    pool
+      .run(({ remote }) => remote.computeSensitivity({ mode, inputs, rangeFraction }), {
+        signal: controller.signal,
+        cacheKey: key,
+        debounceMs: INPUT_DEBOUNCE_MS,
+      })
+      .then((sensitivity) => setSettled({ key, results: sensitivity, error: false }))
+      .catch((workerError: unknown) => {
+        // Superseded by newer inputs or unmounted
+        if (isAbortError(workerError)) return;
+        console.error('Sensitivity worker error:', workerError);
+        setSettled({ key, results: null, error: true });
+      });
+
+    // Cleanup: abandon this run when inputs change or on unmount
+    return () => controller.abort();
+    // key already encodes mode, inputs and range
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [key]);
+
+  if (key === null) {
+    return { loading: false, results: settled?.results ?? null, error: settled?.error ?? false };
+  }
+
+  const cached = getEVSIWorkerPool().cached<SensitivityResults | null>(key);
+  if (cached !== undefined) {
+    return { loading: false, results: cached, error: false };
+  }
+
+  if (settled?.key === key) {
+    return { loading: false, results: settled.results, error: settled.error };
+  }
+
+  return { loading: true, results: settled?.results ?? null, error: false };
+}
@@ -0,0 +1,43 @@
+/**
+ * Traffic Split Optimizer Hooks
+ *
+ * Run the traffic split sweeps (see lib/split-optimizer.ts) in the EVSI Web
+ * Worker on demand:
+ * - useSplitOptimizer: splits at the entered duration
+ * - useDesignGridOptimizer: split × duration, for the heatmap
+ *
+ * Changing a swept input keeps the results; any other input change makes
+ * them stale (see useDesignSweep).
+ */
+
+import { useDesignSweep, type DesignSweepRunner, type UseDesignSweepResult } from './useDesignSweep';
+import type { DesignGridResults, SplitSweepResults } from '@/lib/split-optimizer';
+import type { AdvancedInputs } from '@/types/wizard';
+
+const SPLIT_FIELDS: readonly (keyof AdvancedInputs)[] = ['trafficSplit'];
+const GRID_FIELDS: readonly (keyof AdvancedInputs)[] = ['trafficSplit', 'testDurationDays'];
+
+const runSplitSweep: DesignSweepRunner<SplitSweepResults> = (api, inputs, onProgress) =>
+  api.computeSplitSweep(inputs, undefined, onProgress);
+
+const runDesignGrid: DesignSweepRunner<DesignGridResults> = (api, inputs, onProgress) =>
+  api.computeDesignGrid(inputs, undefined, undefined, onProgress);
+
+/**
+ * Hook that finds the net-value-maximizing traffic split at the entered
+ * test duration.
+ *
+ * @returns Status, progress, results and run/cancel actions
+ */
+export function useSplitOptimizer(): UseDesignSweepResult<SplitSweepResults> {
+  return useDesignSweep(runSplitSweep, SPLIT_FIELDS);
+}
+
+/**
+ * Hook that sweeps traffic split and test duration jointly.
+ *
+ * @returns Status, progress, results and run/cancel actions
+ */
+export function useDesignGridOptimizer(): UseDesignSweepResult<DesignGridResults> {
+  return useDesignSweep(runDesignGrid, GRID_FIELDS);
+}
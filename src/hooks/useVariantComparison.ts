@@ -0,0 +1,28 @@
+/**
+ * Variant Comparison Hook
+ *
+ * Runs the A/B/n variant count comparison (see lib/variant-comparison.ts)
+ * in the EVSI Web Worker on demand. Any input change, including the number
+ * of variants, makes the results stale (see useDesignSweep).
+ */
+
+import { useDesignSweep, type DesignSweepRunner, type UseDesignSweepResult } from './useDesignSweep';
+import type { VariantComparisonResults } from '@/lib/variant-comparison';
+import type { AdvancedInputs } from '@/types/wizard';
+
+const NO_SWEPT_FIELDS: readonly (keyof AdvancedInputs)[] = [];
+
+const runVariantComparison: DesignSweepRunner<VariantComparisonResults> = (
+  api,
+  inputs,
+  onProgress
+) => api.computeVariantComparison(inputs, onProgress);
+
+/**
+ * Hook that compares EVSI for testing 1 to advanced.variantCount variants.
+ *
+ * @returns Status, progress, results and run/cancel actions
+ */
+export function useVariantComparison(): UseDesignSweepResult<VariantComparisonResults> {
+  return useDesignSweep(runVariantComparison, NO_SWEPT_FIELDS);
+}
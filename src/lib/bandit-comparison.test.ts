@@ -0,0 +1,38 @@
+import { describe, it, expect, vi } from 'vitest';
+import { compareBanditToABTest } from './bandit-comparison';
+import { createTestInputs } from '@/test/inputs';
+
+const inputs = createTestInputs({ testDurationDays: 28 });
+
+describe('compareBanditToABTest', () => {
+  it('values the bandit and the A/B test against the same default', () => {
+    const onProgress = vi.fn();
+    const results = compareBanditToABTest(inputs, onProgress)!;
+
+    expect(results.bandit.defaultDecision).toBe(results.abTest.defaultDecision);
+    expect(results.bandit.netValueDollars).toBeGreaterThan(0);
+    expect(results.abTest.netValueDollars).toBeGreaterThan(0);
+    expect(results.timeLimited).toBe(false);
+    expect(onProgress).toHaveBeenLastCalledWith(2, 2);
+  });
+
+  it('uses the selected bandit policy', () => {
+    const epsilonGreedy = compareBanditToABTest({
+      ...inputs,
+      advanced: { ...inputs.advanced, banditPolicy: 'epsilon-greedy', banditEpsilon: 1 },
+    })!;
+
+    // Exploring all the time is an even split all year
+    expect(epsilonGreedy.bandit.averageVariantShare).toBe(0.5);
+  });
+
+  it('is reproducible for a given seed', () => {
+    expect(compareBanditToABTest(inputs)).toEqual(compareBanditToABTest(inputs));
+  });
+
+  it('returns null when inputs are incomplete', () => {
+    const incomplete = { ...inputs, advanced: { ...inputs.advanced, dailyTraffic: null } };
+
+    expect(compareBanditToABTest(incomplete)).toBeNull();
+  });
+});
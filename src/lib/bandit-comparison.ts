@@ -0,0 +1,95 @@
+/**
+ * Bandit vs A/B Test Comparison
+ *
+ * Expected value of three ways to handle the change over the same decision
+ * horizon, with the same prior, K and threshold: the no-test default, the entered
+ * A/B test (net value by Monte Carlo, with its fixed split, test period
+ * and ship decision), and a two-arm bandit that re-splits traffic weekly
+ * from the data matured so far (see calculations/bandit.ts).
+ *
+ * Both simulations use the wizard's seed and variance reduction (see
+ * variance-reduction.ts), and draw until precise enough (see
+ * adaptive-sampling.ts). They draw differently, so unlike the other
+ * comparisons the two numbers are not on common random numbers; each
+ * carries its own Monte Carlo error.
+ */
+
+import { createBanditSimulation } from '@/lib/calculations/bandit';
+import { createNetValueSimulation } from '@/lib/calculations/net-value';
+import { runAdaptive, stageProgress } from '@/lib/calculations/adaptive-sampling';
+import { createSeededRandom } from '@/lib/calculations/random';
+import { SIMULATION_SAMPLING } from '@/lib/calculations/variance-reduction';
+import { deriveAdvancedInputs, deriveBanditInputs } from '@/lib/derive-inputs';
+import type { SweepProgress } from '@/lib/design-sweep';
+import type { BanditResults, NetValueResults } from '@/lib/calculations/types';
+import type { InputsState } from '@/types/wizard';
+
+/**
+ * Monte Carlo samples each simulation draws before it may stop
+ */
+export const BANDIT_COMPARISON_SAMPLES = 2000;
+
+/**
+ * Days between the bandit's allocation updates
+ */
+export const BANDIT_UPDATE_INTERVAL_DAYS = 7;
+
+/**
+ * Results of the bandit comparison
+ */
+export interface BanditComparisonResults {
+  /** Bandit rollout (value, and its gain over the default) */
+  bandit: BanditResults;
+  /** A/B test net value over the default, by Monte Carlo */
+  abTest: NetValueResults;
+  /** True if either simulation stopped on its time budget (reruns may differ by device) */
+  timeLimited: boolean;
+}
+
+/**
+ * Compare a bandit rollout with the entered A/B test
+ *
+ * @param inputs - Wizard inputs (advanced.banditPolicy and banditEpsilon set the bandit)
+ * @param onProgress - Optional progress callback
+ * @returns Both simulations, or null if the inputs are incomplete
+ */
+export function compareBanditToABTest(
+  inputs: InputsState,
+  onProgress?: SweepProgress
+): BanditComparisonResults | null {
+  const derived = deriveAdvancedInputs(inputs.shared, inputs.advanced);
+  const banditInputs = deriveBanditInputs(
+    inputs.shared,
+    inputs.advanced,
+    BANDIT_UPDATE_INTERVAL_DAYS
+  );
+  if (!derived || !banditInputs) {
+    return null;
+  }
+  const options = { minSamples: BANDIT_COMPARISON_SAMPLES };
+
+  const abTest = runAdaptive(
+    createNetValueSimulation(
+      derived.netValueInputs,
+      createSeededRandom(inputs.advanced.monteCarloSeed),
+      SIMULATION_SAMPLING
+    ),
+    options,
+    stageProgress(onProgress, 0, 2)
+  );
+  const bandit = runAdaptive(
+    createBanditSimulation(
+      banditInputs,
+      createSeededRandom(inputs.advanced.monteCarloSeed),
+      SIMULATION_SAMPLING
+    ),
+    options,
+    stageProgress(onProgress, 1, 2)
+  );
+
+  return {
+    bandit: bandit.results,
+    abTest: abTest.results,
+    timeLimited: abTest.stoppedBy === 'time_budget' || bandit.stoppedBy === 'time_budget',
+  };
+}
@@ -4,8 +4,22 @@ import {
   sampleStandardNormal,
   normalPdf,
   seOfRelativeLift,
+  metricRelativeVariance,
+  isValidMetric,
+  readoutApproximationWarnings,
 } from './abtest-math';
 import { standardNormalPDF } from './statistics';
+import type { MetricModel } from './types';
+
+const revenuePerVisitor: MetricModel = { type: 'continuous', mean: 2, standardDeviation: 10 };
+const orderValue: MetricModel = {
+  type: 'ratio',
+  numeratorMean: 3,
+  numeratorStandardDeviation: 15,
+  denominatorMean: 0.05,
+  denominatorStandardDeviation: 0.25,
+  correlation: 0.9,
+};
 
 describe('liftFeasibilityBounds', () => {
   it('returns correct bounds for typical conversion rate', () => {
@@ -26,6 +40,37 @@ describe('liftFeasibilityBounds', () => {
     expect(bounds.L_min).toBe(-1);
     expect(bounds.L_max).toBeCloseTo(99, 5);
   });
+
+  it('has no upper bound for continuous and ratio metrics', () => {
+    expect(liftFeasibilityBounds(0.05, revenuePerVisitor)).toEqual({ L_min: -1, L_max: Infinity });
+    expect(liftFeasibilityBounds(0.05, orderValue).L_max).toBe(Infinity);
+    expect(liftFeasibilityBounds(0.05, { type: 'binary' }).L_max).toBeCloseTo(19, 5);
+  });
+});
+
+describe('metricRelativeVariance', () => {
+  it('is (1 - CR0) / CR0 for conversion', () => {
+    expect(metricRelativeVariance(0.05)).toBeCloseTo(19, 10);
+    expect(metricRelativeVariance(0.05, { type: 'binary' })).toBeCloseTo(19, 10);
+  });
+
+  it('is the squared coefficient of variation for a continuous metric', () => {
+    expect(metricRelativeVariance(0.05, revenuePerVisitor)).toBeCloseTo(25, 10);
+  });
+
+  it('combines numerator and denominator by the delta method for a ratio', () => {
+    // CV_Y = 5, CV_X = 5, rho = 0.9: 25 + 25 - 2 * 0.9 * 25 = 5
+    expect(metricRelativeVariance(0.05, orderValue)).toBeCloseTo(5, 10);
+  });
+
+  it('is NaN for invalid parameters', () => {
+    expect(metricRelativeVariance(0)).toBeNaN();
+    expect(metricRelativeVariance(0.05, { ...revenuePerVisitor, mean: 0 })).toBeNaN();
+    expect(metricRelativeVariance(0.05, { ...revenuePerVisitor, standardDeviation: 0 })).toBeNaN();
+    expect(metricRelativeVariance(0.05, { ...orderValue, correlation: 1.5 })).toBeNaN();
+    expect(isValidMetric(0.05, orderValue)).toBe(true);
+    expect(isValidMetric(0.05, { ...orderValue, denominatorMean: -1 })).toBe(false);
+  });
 });
 
 describe('sampleStandardNormal', () => {
@@ -123,6 +168,22 @@ describe('seOfRelativeLift', () => {
     expect(seUnbalanced).toBeGreaterThan(seBalanced);
   });
 
+  it('uses the relative variance of a continuous metric', () => {
+    // CV = 5: SE = sqrt(25 * (1/10000 + 1/10000)) = sqrt(0.005)
+    expect(seOfRelativeLift(0.05, 10000, 10000, revenuePerVisitor)).toBeCloseTo(
+      Math.sqrt(0.005),
+      10
+    );
+    // The conversion rate plays no part
+    expect(seOfRelativeLift(0.5, 10000, 10000, revenuePerVisitor)).toBe(
+      seOfRelativeLift(0.05, 10000, 10000, revenuePerVisitor)
+    );
+  });
+
+  it('returns Infinity for an invalid metric', () => {
+    expect(seOfRelativeLift(0.05, 10000, 10000, { ...revenuePerVisitor, mean: 0 })).toBe(Infinity);
+  });
+
   // Edge Case 1: Input validation guards (Accuracy-13)
   describe('input validation guards', () => {
     it('returns Infinity for CR0 = 0', () => {
@@ -165,3 +226,23 @@ describe('seOfRelativeLift', () => {
     });
   });
 });
+
+describe('readoutApproximationWarnings', () => {
+  it('warns about rare conversions for a binary metric', () => {
+    expect(readoutApproximationWarnings(300, 300, 0.05)).toEqual([
+      expect.objectContaining({ code: 'rare_events' }),
+    ]);
+    expect(readoutApproximationWarnings(400, 400, 0.05)).toEqual([]);
+  });
+
+  it('asks a skewed metric for as many visitors as a conversion with the same spread', () => {
+    // Relative variance 25: 20 * (1 + 25) = 520 visitors per group
+    const warnings = readoutApproximationWarnings(519, 10000, 0.05, revenuePerVisitor);
+
+    expect(warnings).toHaveLength(1);
+    expect(warnings[0].code).toBe('heavy_tailed_metric');
+    expect(warnings[0].message).toContain('coefficient of variation 5.0');
+    expect(warnings[0].message).toContain('520');
+    expect(readoutApproximationWarnings(520, 10000, 0.05, revenuePerVisitor)).toEqual([]);
+  });
+});
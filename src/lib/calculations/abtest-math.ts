@@ -7,11 +7,14 @@
  * Consolidates per Cleanup-01 audit recommendation:
  * - Standard error of relative lift
  * - Lift feasibility bounds
+ * - Metric noise (binary, continuous and ratio metrics)
  * - Box-Muller standard normal sampling
  * - General normal PDF (for non-standard normal)
  */
 
 import { standardNormalPDF } from './statistics';
+import { defaultRandom, type RandomSource } from './random';
+import type { CalculationWarning, MetricModel } from './types';
 
 /**
  * Feasibility bounds for lift values
@@ -21,13 +24,77 @@ import { standardNormalPDF } from './statistics';
  *   - L_min = -1 (CR1 = 0)
  *   - L_max = 1/CR0 - 1 (CR1 = 1)
  *
+ * Continuous and ratio metrics are nonnegative means with no ceiling, so
+ * only L_min = -1 applies (L_max = Infinity).
+ *
  * @param CR0 - Baseline conversion rate (0 < CR0 < 1)
+ * @param metric - Metric the test reads out (default binary)
  * @returns Object with L_min and L_max bounds
  */
-export function liftFeasibilityBounds(CR0: number): { L_min: number; L_max: number } {
+export function liftFeasibilityBounds(
+  CR0: number,
+  metric?: MetricModel
+): { L_min: number; L_max: number } {
+  if (metric && metric.type !== 'binary') {
+    return { L_min: -1, L_max: Infinity };
+  }
   return { L_min: -1, L_max: 1 / CR0 - 1 };
 }
 
+/**
+ * Relative variance of the metric per visitor: Var(X) / E[X]^2
+ *
+ * The squared coefficient of variation, which sets the noise of relative lift:
+ * - binary: CR0 (1 - CR0) / CR0^2 = (1 - CR0) / CR0
+ * - continuous: (sd / mean)^2
+ * - ratio R = Y / X (delta method): CV_Y^2 + CV_X^2 - 2 rho CV_Y CV_X
+ *
+ * @param CR0 - Baseline conversion rate (binary metrics)
+ * @param metric - Metric the test reads out (default binary)
+ * @returns Relative variance, or NaN if the metric parameters are invalid
+ */
+export function metricRelativeVariance(CR0: number, metric?: MetricModel): number {
+  if (!metric || metric.type === 'binary') {
+    return CR0 > 0 && CR0 < 1 ? (1 - CR0) / CR0 : NaN;
+  }
+
+  if (metric.type === 'continuous') {
+    const { mean, standardDeviation } = metric;
+    return mean > 0 && standardDeviation > 0 ? (standardDeviation / mean) ** 2 : NaN;
+  }
+
+  const {
+    numeratorMean,
+    numeratorStandardDeviation,
+    denominatorMean,
+    denominatorStandardDeviation,
+    correlation,
+  } = metric;
+  if (
+    !(numeratorMean > 0 && denominatorMean > 0) ||
+    !(numeratorStandardDeviation >= 0 && denominatorStandardDeviation >= 0) ||
+    !(Math.abs(correlation) <= 1)
+  ) {
+    return NaN;
+  }
+  const cvNumerator = numeratorStandardDeviation / numeratorMean;
+  const cvDenominator = denominatorStandardDeviation / denominatorMean;
+  const relativeVariance =
+    cvNumerator ** 2 + cvDenominator ** 2 - 2 * correlation * cvNumerator * cvDenominator;
+  // rho = 1 with equal CVs means the ratio never varies: nothing to measure
+  return relativeVariance > 0 ? relativeVariance : NaN;
+}
+
+/**
+ * Whether the metric parameters give a usable readout
+ *
+ * Binary: 0 < CR0 < 1. Continuous and ratio: positive baseline means and a
+ * positive relative variance.
+ */
+export function isValidMetric(CR0: number, metric?: MetricModel): boolean {
+  return metricRelativeVariance(CR0, metric) > 0;
+}
+
 /**
  * Sample from standard normal distribution using Box-Muller transform
  *
@@ -37,11 +104,12 @@ export function liftFeasibilityBounds(CR0: number): { L_min: number; L_max: numb
  *
  * Guard: U1 is clamped to minimum 1e-16 to prevent Math.log(0) = -Infinity
  *
+ * @param rng - Uniform random source (default Math.random)
  * @returns Random sample from N(0,1)
  */
-export function sampleStandardNormal(): number {
-  const u1 = Math.max(Math.random(), 1e-16);
-  const u2 = Math.random();
+export function sampleStandardNormal(rng: RandomSource = defaultRandom): number {
+  const u1 = Math.max(rng(), 1e-16);
+  const u2 = rng();
   return Math.sqrt(-2 * Math.log(u1)) * Math.cos(2 * Math.PI * u2);
 }
 
@@ -73,23 +141,82 @@ export function normalPdf(x: number, mean: number, sd: number): number {
  * Derivation: Delta method applied to ratio of binomial proportions.
  * See SPEC.md Section A5 for full derivation.
  *
+ * Other metrics replace (1-CR0)/CR0 with their relative variance (see
+ * metricRelativeVariance); both arms use the baseline variance, as above.
+ *
  * @param CR0 - Baseline conversion rate
  * @param n_control - Control group sample size
  * @param n_variant - Variant group sample size
+ * @param metric - Metric the test reads out (default binary)
  * @returns Standard error of the lift estimate
  */
-export function seOfRelativeLift(CR0: number, n_control: number, n_variant: number): number {
+export function seOfRelativeLift(
+  CR0: number,
+  n_control: number,
+  n_variant: number,
+  metric?: MetricModel
+): number {
   // Input validation - return Infinity for invalid inputs (Accuracy-13, Edge Case 1)
   // Infinity propagates cleanly and signals invalid calculation to caller
-  // CR0 must be strictly in (0,1) for valid conversion rate
-  if (!(CR0 > 0 && CR0 < 1)) return Infinity;
+  // CR0 must be strictly in (0,1) for valid conversion rate (binary), and
+  // other metrics need positive means and variance
+  if (!isValidMetric(CR0, metric)) return Infinity;
   // Sample sizes must be positive
   if (!(n_control > 0 && n_variant > 0)) return Infinity;
 
-  // Variance factor: (1 - CR0) / CR0
+  // Variance factor: (1 - CR0) / CR0 for binary metrics
   // Sample factor: 1/n_control + 1/n_variant
   // SE = sqrt(varianceFactor * sampleFactor)
-  const varianceFactor = (1 - CR0) / CR0;
+  const varianceFactor = metricRelativeVariance(CR0, metric);
   const sampleFactor = 1 / n_control + 1 / n_variant;
   return Math.sqrt(varianceFactor * sampleFactor);
 }
+
+/**
+ * Warnings when the readout's Normal approximation may be unreliable
+ *
+ * - rare_events (Accuracy-08), binary metrics: fewer than 20 expected
+ *   conversions in the smaller arm
+ * - heavy_tailed_metric, continuous and ratio metrics: the same rule
+ *   restated through the relative variance v. For a binary metric
+ *   n * CR0 >= 20 is n >= 20 (1 + v), since 1/CR0 = 1 + v; a skewed metric
+ *   with the same v needs about as many visitors for its mean to look Normal.
+ *
+ * @param n_control - Control group sample size (readable visitors)
+ * @param n_variant - Variant group sample size (readable visitors)
+ * @param CR0 - Baseline conversion rate (binary metrics)
+ * @param metric - Metric the test reads out (default binary)
+ * @returns Zero or one warning
+ */
+export function readoutApproximationWarnings(
+  n_control: number,
+  n_variant: number,
+  CR0: number,
+  metric?: MetricModel
+): CalculationWarning[] {
+  if (!metric || metric.type === 'binary') {
+    if (Math.min(n_control * CR0, n_variant * CR0) >= 20) {
+      return [];
+    }
+    return [
+      {
+        code: 'rare_events',
+        message:
+          'Expected conversions per group are low (<20). The normal approximation for lift may be less accurate. Consider increasing test duration or traffic.',
+      },
+    ];
+  }
+
+  const relativeVariance = metricRelativeVariance(CR0, metric);
+  const minimumPerArm = 20 * (1 + relativeVariance);
+  if (!(Math.min(n_control, n_variant) < minimumPerArm)) {
+    return [];
+  }
+  const cv = Math.sqrt(relativeVariance);
+  return [
+    {
+      code: 'heavy_tailed_metric',
+      message: `The metric varies a lot per visitor (coefficient of variation ${cv.toFixed(1)}), and a group has fewer than ${Math.ceil(minimumPerArm).toLocaleString('en-US')} visitors. The normal approximation for lift may be less accurate. Consider increasing test duration or traffic, or capping extreme values.`,
+    },
+  ];
+}
@@ -0,0 +1,144 @@
+import { describe, it, expect } from 'vitest';
+import { runAdaptive } from './adaptive-sampling';
+import { calculateEVSIMonteCarlo, createEVSISimulation } from './evsi';
+import { calculateNetValueMonteCarlo, createNetValueSimulation } from './net-value';
+import { createSeededRandom } from './random';
+import type { EVSIInputs, NetValueInputs } from './types';
+
+// Prior centered near the threshold: the decision is a coin flip, so the
+// estimate is noisy
+const closeCallInputs: NetValueInputs = {
+  K: 1000000,
+  baselineConversionRate: 0.05,
+  threshold_L: 0.02,
+  prior: { type: 'student-t', mu_L: 0.02, sigma_L: 0.05, df: 5 },
+  n_control: 5000,
+  n_variant: 5000,
+  testDurationDays: 14,
+  variantFraction: 0.5,
+  decisionLatencyDays: 0,
+};
+
+const evsiInputs: EVSIInputs = {
+  K: 1000000,
+  baselineConversionRate: 0.05,
+  threshold_L: 0.02,
+  prior: { type: 'uniform', low_L: -0.1, high_L: 0.15 },
+  n_control: 5000,
+  n_variant: 5000,
+};
+
+describe('resumable simulations', () => {
+  it('give the same net value in batches as in one run', () => {
+    const simulation = createNetValueSimulation(closeCallInputs, createSeededRandom(7));
+    simulation.run(1000);
+    simulation.run(1500);
+    simulation.run(500);
+
+    const single = calculateNetValueMonteCarlo(closeCallInputs, 3000, createSeededRandom(7));
+
+    expect(simulation.numSamples()).toBe(3000);
+    expect(simulation.results()).toEqual(single);
+  });
+
+  it('give the same EVSI in batches as in one run', () => {
+    const simulation = createEVSISimulation(evsiInputs, createSeededRandom(7));
+    simulation.run(2000);
+    simulation.run(2000);
+
+    const single = calculateEVSIMonteCarlo(evsiInputs, 4000, createSeededRandom(7));
+
+    expect(simulation.results()).toEqual(single);
+  });
+});
+
+describe('runAdaptive', () => {
+  it('stops on tolerance once the standard error is small enough', () => {
+    const { results, stoppedBy } = runAdaptive(
+      createNetValueSimulation(closeCallInputs, createSeededRandom(11)),
+      { relativeTolerance: 0.05, timeBudgetMs: Infinity }
+    );
+
+    expect(stoppedBy).toBe('tolerance');
+    expect(results.netValueError!.standardError).toBeLessThanOrEqual(
+      Math.max(1, 0.05 * Math.abs(results.netValueDollars))
+    );
+  });
+
+  it('is reproducible for a seed when stopping on tolerance', () => {
+    const options = { relativeTolerance: 0.05, timeBudgetMs: Infinity };
+    const run = () =>
+      runAdaptive(createNetValueSimulation(closeCallInputs, createSeededRandom(3)), options);
+    const a = run();
+    const b = run();
+
+    expect(a.results).toEqual(b.results);
+  });
+
+  it('stops after the first batch when every draw makes the same decision', () => {
+    // Prior far above a zero threshold: the test never changes the decision
+    const { results, stoppedBy } = runAdaptive(
+      createEVSISimulation(
+        { ...evsiInputs, threshold_L: 0, prior: { type: 'uniform', low_L: 0.1, high_L: 0.2 } },
+        createSeededRandom(1)
+      ),
+      { minSamples: 500, batchSize: 500 }
+    );
+
+    expect(stoppedBy).toBe('tolerance');
+    expect(results.numSamples).toBe(500);
+    expect(results.evsiDollars).toBe(0);
+  });
+
+  it('stops at maxSamples when the tolerance is out of reach', () => {
+    const { results, stoppedBy } = runAdaptive(
+      createNetValueSimulation(closeCallInputs, createSeededRandom(5)),
+      { relativeTolerance: 0, absoluteTolerance: 0, maxSamples: 3000, timeBudgetMs: Infinity }
+    );
+
+    expect(stoppedBy).toBe('max_samples');
+    expect(results.numSamples).toBe(3000);
+  });
+
+  it('stops when the time budget is used up', () => {
+    let clock = 0;
+    const simulation = createNetValueSimulation(closeCallInputs, createSeededRandom(5));
+    const { results, stoppedBy } = runAdaptive(
+      simulation,
+      {
+        relativeTolerance: 0,
+        absoluteTolerance: 0,
+        batchSize: 1000,
+        minSamples: 1000,
+        timeBudgetMs: 100,
+      },
+      undefined,
+      () => (clock += 40)
+    );
+
+    expect(stoppedBy).toBe('time_budget');
+    expect(results.numSamples).toBe(3000);
+  });
+
+  it('reports increasing progress that ends at 1', () => {
+    const updates: number[] = [];
+    runAdaptive(
+      createNetValueSimulation(closeCallInputs, createSeededRandom(5)),
+      {
+        relativeTolerance: 0,
+        absoluteTolerance: 0,
+        maxSamples: 6000,
+        batchSize: 1000,
+        timeBudgetMs: Infinity,
+      },
+      (fraction) => updates.push(fraction)
+    );
+
+    expect(updates.length).toBeGreaterThan(1);
+    expect(updates[updates.length - 1]).toBe(1);
+    updates.forEach((fraction, i) => {
+      expect(fraction).toBeGreaterThanOrEqual(i > 0 ? updates[i - 1] : 0);
+      expect(fraction).toBeLessThanOrEqual(1);
+    });
+  });
+});
@@ -0,0 +1,161 @@
+/**
+ * Adaptive Monte Carlo Sampling
+ *
+ * Draws Monte Carlo samples in batches until the estimate is precise enough,
+ * instead of a fixed 5000. Priors close to the threshold need more samples;
+ * one-sided priors (every draw makes the same decision) have a standard
+ * error of ~0 and stop after the first batch.
+ *
+ * Stopping rule, checked after each batch once minSamples are drawn:
+ * - Tolerance: SE <= max(absoluteTolerance, relativeTolerance * |estimate|)
+ * - Sample cap: maxSamples accepted samples drawn
+ * - Time budget: timeBudgetMs elapsed since the start
+ *
+ * Batches continue one seeded random stream, so a run that stops on
+ * tolerance or the sample cap is reproducible for a given seed. A run cut
+ * off by the time budget depends on machine speed.
+ *
+ * EVSI and net value of a single test are exact (closed form or
+ * quadrature); the simulations still sampled (interim looks, bandits,
+ * A/B/n tests) run through runAdaptive.
+ */
+
+import type { MonteCarloSimulation } from './types';
+
+/**
+ * Options for adaptive sampling
+ */
+export interface AdaptiveSamplingOptions {
+  /** Accepted samples per batch */
+  batchSize: number;
+  /** Samples drawn before the stopping rule is checked */
+  minSamples: number;
+  /** Hard cap on accepted samples */
+  maxSamples: number;
+  /** Target SE as a fraction of |estimate| (e.g., 0.025 for 2.5%) */
+  relativeTolerance: number;
+  /** Target SE in dollars; met regardless of the estimate's size */
+  absoluteTolerance: number;
+  /** Wall-clock budget in milliseconds */
+  timeBudgetMs: number;
+}
+
+/**
+ * Defaults: a 95% interval of about ±5% of the estimate, within a few seconds
+ */
+export const DEFAULT_ADAPTIVE_OPTIONS: AdaptiveSamplingOptions = {
+  batchSize: 2000,
+  minSamples: 2000,
+  maxSamples: 100000,
+  relativeTolerance: 0.025,
+  absoluteTolerance: 1,
+  timeBudgetMs: 4000,
+};
+
+/**
+ * Why sampling stopped
+ */
+export type AdaptiveStopReason = 'tolerance' | 'max_samples' | 'time_budget';
+
+/**
+ * Results of an adaptive run
+ */
+export interface AdaptiveSamplingResult<R> {
+  /** Results for all samples drawn */
+  results: R;
+  /** Which stopping condition ended the run */
+  stoppedBy: AdaptiveStopReason;
+}
+
+/**
+ * Progress callback: fraction done, 0-1 (never decreases within a run)
+ */
+export type AdaptiveProgress = (fraction: number) => void;
+
+/**
+ * Report one stage of a multi-stage run as (completed, total) stages
+ *
+ * @param onProgress - Progress callback in stages (e.g., a SweepProgress)
+ * @param stage - Stages already completed
+ * @param stages - Total stages
+ * @returns Adaptive progress callback for the current stage
+ */
+export function stageProgress(
+  onProgress: ((completed: number, total: number) => void) | undefined,
+  stage: number,
+  stages: number
+): AdaptiveProgress | undefined {
+  return onProgress && ((fraction) => onProgress(stage + fraction, stages));
+}
+
+/**
+ * SE an estimate must reach to stop
+ */
+function targetStandardError(estimate: number, options: AdaptiveSamplingOptions): number {
+  return Math.max(options.absoluteTolerance, options.relativeTolerance * Math.abs(estimate));
+}
+
+/**
+ * Run a simulation in batches until the stopping rule is met
+ *
+ * Progress is the larger of samples drawn over the projected sample count
+ * (SE shrinks as 1/sqrt(n), so n·(SE/target)² more are needed) and time
+ * used over the budget.
+ *
+ * @param simulation - Fresh simulation
+ * @param options - Stopping rule (partial options are merged with defaults)
+ * @param onProgress - Called after each batch
+ * @param now - Clock in milliseconds (injectable for tests)
+ * @returns Results and the stop reason
+ */
+export function runAdaptive<R>(
+  simulation: MonteCarloSimulation<R>,
+  options: Partial<AdaptiveSamplingOptions> = {},
+  onProgress?: AdaptiveProgress,
+  now: () => number = () => performance.now()
+): AdaptiveSamplingResult<R> {
+  const opts = { ...DEFAULT_ADAPTIVE_OPTIONS, ...options };
+  const batchSize = Math.max(1, Math.floor(opts.batchSize));
+  const start = now();
+  let progress = 0;
+
+  const report = (fraction: number) => {
+    progress = Math.max(progress, Math.min(1, fraction));
+    onProgress?.(progress);
+  };
+
+  simulation.run(Math.min(opts.minSamples, opts.maxSamples));
+
+  for (;;) {
+    const n = simulation.numSamples();
+    const estimate = simulation.estimate();
+    const se = simulation.standardError();
+    const target = targetStandardError(estimate, opts);
+    const elapsed = now() - start;
+
+    let stoppedBy: AdaptiveStopReason | null = null;
+    if (se <= target) {
+      stoppedBy = 'tolerance';
+    } else if (n >= opts.maxSamples) {
+      stoppedBy = 'max_samples';
+    } else if (elapsed >= opts.timeBudgetMs) {
+      stoppedBy = 'time_budget';
+    }
+
+    if (stoppedBy) {
+      report(1);
+      return { results: simulation.results(), stoppedBy };
+    }
+
+    const needed = Math.min(opts.maxSamples, n * (se / target) ** 2);
+    report(Math.max(n / needed, elapsed / opts.timeBudgetMs));
+
+    const before = n;
+    simulation.run(Math.min(batchSize, opts.maxSamples - n));
+    // Every draw rejected for feasibility: more batches won't help
+    if (simulation.numSamples() === before) {
+      report(1);
+      return { results: simulation.results(), stoppedBy: 'max_samples' };
+    }
+  }
+}
@@ -0,0 +1,136 @@
+import { describe, it, expect } from 'vitest';
+import { banditVariantShare, calculateBanditMonteCarlo, createBanditSimulation } from './bandit';
+import { createSeededRandom } from './random';
+import type { BanditInputs, PriorDistribution } from './types';
+
+const prior: PriorDistribution = { type: 'normal', mu_L: 0, sigma_L: 0.05 };
+
+const base: BanditInputs = {
+  K: 5_000_000,
+  baselineConversionRate: 0.05,
+  threshold_L: 0,
+  prior,
+  dailySampleSize: 1000,
+  policy: { type: 'thompson' },
+  updateIntervalDays: 7,
+};
+
+describe('banditVariantShare', () => {
+  it('splits by the probability the variant is better under Thompson sampling', () => {
+    expect(banditVariantShare({ type: 'thompson' }, 0, Infinity, prior, 0, 0.05)).toBeCloseTo(
+      0.5,
+      6
+    );
+    expect(banditVariantShare({ type: 'thompson' }, 0.05, 0.01, prior, 0, 0.05)).toBeGreaterThan(
+      0.99
+    );
+  });
+
+  it('exploits the better posterior mean under epsilon-greedy', () => {
+    const policy = { type: 'epsilon-greedy', epsilon: 0.2 } as const;
+
+    expect(banditVariantShare(policy, 0.05, 0.01, prior, 0, 0.05)).toBeCloseTo(0.9, 10);
+    expect(banditVariantShare(policy, -0.05, 0.01, prior, 0, 0.05)).toBeCloseTo(0.1, 10);
+  });
+});
+
+describe('calculateBanditMonteCarlo', () => {
+  it('learns: adds value over the default when the prior is uncertain', () => {
+    const result = calculateBanditMonteCarlo(base, 2000, createSeededRandom(1));
+
+    expect(result.netValueDollars).toBeGreaterThan(4 * result.netValueError!.standardError);
+    expect(result.valueDollars - result.defaultValueDollars).toBeCloseTo(
+      result.netValueDollars,
+      6
+    );
+  });
+
+  it('keeps an even split when exploring all the time', () => {
+    const result = calculateBanditMonteCarlo(
+      { ...base, policy: { type: 'epsilon-greedy', epsilon: 1 } },
+      500,
+      createSeededRandom(2)
+    );
+
+    expect(result.averageVariantShare).toBe(0.5);
+    expect(result.finalVariantShare).toBe(0.5);
+  });
+
+  it('never tries a variant its prior disfavours without exploration', () => {
+    const result = calculateBanditMonteCarlo(
+      {
+        ...base,
+        prior: { type: 'normal', mu_L: -0.01, sigma_L: 0.05 },
+        policy: { type: 'epsilon-greedy', epsilon: 0 },
+      },
+      500,
+      createSeededRandom(3)
+    );
+
+    expect(result.averageVariantShare).toBe(0);
+    expect(result.valueDollars).toBe(0);
+    expect(result.netValueDollars).toBe(0);
+  });
+
+  it('learns more slowly with conversion latency', () => {
+    const prompt = calculateBanditMonteCarlo(base, 2000, createSeededRandom(4));
+    const delayed = calculateBanditMonteCarlo(
+      { ...base, conversionLatencyDays: 60 },
+      2000,
+      createSeededRandom(4)
+    );
+
+    expect(delayed.netValueDollars).toBeLessThan(prompt.netValueDollars);
+  });
+
+  it('holds the prior split without observed traffic', () => {
+    const result = calculateBanditMonteCarlo(
+      { ...base, prior: { ...prior, mu_L: 0.01 }, dailySampleSize: 0 },
+      500,
+      createSeededRandom(5)
+    );
+
+    expect(result.finalVariantShare).toBeCloseTo(
+      banditVariantShare({ type: 'thompson' }, 0, Infinity, { ...prior, mu_L: 0.01 }, 0, 0.05),
+      10
+    );
+  });
+
+  it('runs for the decision horizon, discounting later periods', () => {
+    // Always all-in on a favoured variant: the same value as shipping it now
+    const result = calculateBanditMonteCarlo(
+      {
+        ...base,
+        prior: { type: 'normal', mu_L: 0.01, sigma_L: 0.05 },
+        policy: { type: 'epsilon-greedy', epsilon: 0 },
+        dailySampleSize: 0,
+        horizon: { horizonDays: 1095, annualDiscountRate: 0.1 },
+      },
+      500,
+      createSeededRandom(7)
+    );
+
+    expect(result.averageVariantShare).toBe(1);
+    expect(result.valueDollars).toBeCloseTo(result.defaultValueDollars, 6);
+  });
+
+  it('is reproducible with a seeded random source', () => {
+    expect(calculateBanditMonteCarlo(base, 200, createSeededRandom(6))).toEqual(
+      calculateBanditMonteCarlo(base, 200, createSeededRandom(6))
+    );
+  });
+});
+
+describe('createBanditSimulation with antithetic pairs', () => {
+  it('agrees with plain sampling, with a smaller standard error', () => {
+    const plain = createBanditSimulation(base, createSeededRandom(1));
+    const antithetic = createBanditSimulation(base, createSeededRandom(1), { antithetic: true });
+    plain.run(2000);
+    antithetic.run(2000);
+    const combinedError = Math.hypot(plain.standardError(), antithetic.standardError());
+
+    expect(antithetic.numSamples()).toBe(2000);
+    expect(Math.abs(antithetic.estimate() - plain.estimate())).toBeLessThan(4 * combinedError);
+    expect(antithetic.standardError()).toBeLessThan(plain.standardError());
+  });
+});
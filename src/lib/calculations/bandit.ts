@@ -0,0 +1,321 @@
+/**
+ * Two-Arm Bandit Rollout
+ *
+ * Values rolling out a change with a bandit instead of an A/B test: rather
+ * than a fixed split followed by a ship decision, the bandit re-splits
+ * traffic between control and variant at every update, from the data
+ * matured so far, for the whole decision horizon. Uses the same prior, K,
+ * threshold and horizon as the net value simulation, so the two are
+ * comparable.
+ *
+ * Mathematical notes (for statistician audit):
+ * - Value is relative to the threshold baseline, as in net value: with a
+ *   share p of traffic on the variant from day a to day b,
+ *   K * (L - T) * p * years(a, b), in discounted years (see horizon.ts)
+ * - Each update period's data is one Normal readout,
+ *   L_hat_u ~ N(L, SE_u^2), with SE_u from that period's visitors in each
+ *   arm (dailySampleSize * h, split by p). The periods combine by
+ *   inverse-variance weighting into one readout (L_hat, SE), the sufficient
+ *   statistic under the Normal approximation
+ * - Posterior quantities use that readout and the prior, as in the EVSI
+ *   decision rule (computePosteriorMean, computePosteriorProbabilityAbove)
+ * - Thompson sampling is run in batches: the variant's share of each batch
+ *   is the probability a posterior draw favours it, P(L >= T | data)
+ * - A period's data informs updates from conversionLatencyDays after it ends
+ * - No decision latency: the allocation updates automatically
+ * - Effect dynamics (see effect-dynamics.ts): each period earns the lift on
+ *   its days, and its readout measures the lift averaged over them
+ * - As in net value, the variant's share applies to all traffic behind K;
+ *   dailySampleSize is the eligible traffic the bandit observes
+ * - With antithetic sampling (see variance-reduction.ts), lifts come in
+ *   mirror-image pairs from the truncated prior; each rollout of a pair
+ *   draws its own readouts, and the pair average is one sample
+ */
+
+import { getPriorMean, sample } from './distributions';
+import {
+  isValidMetric,
+  liftFeasibilityBounds,
+  sampleStandardNormal,
+  seOfRelativeLift,
+} from './abtest-math';
+import { computePosteriorMean, computePosteriorProbabilityAbove } from './evsi';
+import { determineDefaultDecision } from './derived';
+import { DEFAULT_HORIZON } from './horizon';
+import { averageNoveltyWeight, noveltyAmplitude, periodGain } from './effect-dynamics';
+import { defaultRandom, type RandomSource } from './random';
+import { createDrawStream, type SamplingOptions } from './variance-reduction';
+import {
+  addSample,
+  createRunningMoments,
+  monteCarloError,
+  monteCarloErrorWarning,
+  standardErrorOfMean,
+} from './monte-carlo-error';
+import type {
+  BanditInputs,
+  BanditPolicy,
+  BanditResults,
+  CalculationWarning,
+  MonteCarloSimulation,
+  PriorDistribution,
+} from './types';
+
+/**
+ * Variant's share of traffic for the next update
+ *
+ * @param policy - Traffic split policy
+ * @param L_hat - Combined readout so far (any value when SE is Infinity)
+ * @param SE - Standard error of the readout (Infinity before any data)
+ * @param prior - Prior distribution
+ * @param threshold_L - Threshold (T_L)
+ * @param CR0 - Baseline conversion rate
+ * @param metric - Metric the bandit reads out
+ * @returns Share of traffic on the variant, in [0, 1]
+ */
+export function banditVariantShare(
+  policy: BanditPolicy,
+  L_hat: number,
+  SE: number,
+  prior: PriorDistribution,
+  threshold_L: number,
+  CR0: number,
+  metric?: BanditInputs['metric']
+): number {
+  if (policy.type === 'thompson') {
+    return computePosteriorProbabilityAbove(L_hat, SE, prior, threshold_L, CR0, metric);
+  }
+  const exploit = computePosteriorMean(L_hat, SE, prior, CR0, metric) >= threshold_L;
+  return exploit ? 1 - policy.epsilon / 2 : policy.epsilon / 2;
+}
+
+/**
+ * Create a resumable bandit rollout simulation
+ *
+ * Algorithm, per draw:
+ * 1. Draw the true lift from the prior (rejecting infeasible draws)
+ * 2. For each update period: split traffic from the matured readout, earn
+ *    the variant's share of K * (L - T), and simulate the period's readout
+ * 3. Record the bandit's value minus the no-test default's value
+ *
+ * @param inputs - Bandit parameters
+ * @param rng - Uniform random source for all draws (default Math.random)
+ * @param sampling - Antithetic lift pairs (default off; there is no
+ *   closed-form control for a bandit)
+ * @returns Simulation handle (see calculateBanditMonteCarlo for a fixed count)
+ */
+export function createBanditSimulation(
+  inputs: BanditInputs,
+  rng: RandomSource = defaultRandom,
+  sampling: Pick<SamplingOptions, 'antithetic'> = {}
+): MonteCarloSimulation<BanditResults> {
+  const {
+    K,
+    baselineConversionRate,
+    threshold_L,
+    prior,
+    dailySampleSize,
+    policy,
+    updateIntervalDays = 1,
+    conversionLatencyDays = 0,
+    metric,
+    horizon = DEFAULT_HORIZON,
+    effectDynamics,
+  } = inputs;
+  const CR0 = baselineConversionRate;
+  const { horizonDays } = horizon;
+
+  const defaultDecision = determineDefaultDecision(getPriorMean(prior), threshold_L);
+  const period = Math.max(1, updateIntervalDays);
+  const numPeriods = Math.ceil(horizonDays / period);
+  const { L_min, L_max } = liftFeasibilityBounds(CR0, metric);
+  const validMetric = isValidMetric(CR0, metric);
+
+  let validSamples = 0;
+  let rejectedSamples = 0;
+  let sumValue = 0;
+  let sumDefaultValue = 0;
+  let sumShareDays = 0;
+  let sumFinalShare = 0;
+  // Per-draw (bandit value - default value); per pair with antithetic sampling
+  const netValuePerDraw = createRunningMoments();
+
+  // Antithetic lifts come from the truncated prior, so nothing is rejected
+  const stream = sampling.antithetic
+    ? createDrawStream(prior, CR0, { antithetic: true }, rng, metric)
+    : null;
+
+  // Per period: inverse variance and inverse-variance-weighted readout
+  const precision = new Array<number>(numPeriods);
+  const weightedReadout = new Array<number>(numPeriods);
+
+  const simulateDraw = (L: number) => {
+    let value = 0;
+    let shareDays = 0;
+    let share = 0;
+    let maturedPrecision = 0;
+    let maturedWeighted = 0;
+    let nextToMature = 0;
+
+    for (let u = 0; u < numPeriods; u++) {
+      const start = u * period;
+      const days = Math.min(period, horizonDays - start);
+
+      // Fold in the periods whose conversions have matured by now
+      while (nextToMature < u && (nextToMature + 1) * period + conversionLatencyDays <= start) {
+        maturedPrecision += precision[nextToMature];
+        maturedWeighted += weightedReadout[nextToMature];
+        nextToMature++;
+      }
+      const SE = maturedPrecision > 0 ? 1 / Math.sqrt(maturedPrecision) : Infinity;
+      const L_hat = maturedPrecision > 0 ? maturedWeighted / maturedPrecision : 0;
+      share = banditVariantShare(policy, L_hat, SE, prior, threshold_L, CR0, metric);
+
+      value +=
+        K * share * periodGain(L, threshold_L, start, start + days, horizon, effectDynamics);
+      shareDays += share * days;
+
+      // This period's readout (no information if either arm is empty)
+      const visitors = dailySampleSize * days;
+      const n_variant = visitors * share;
+      const n_control = visitors - n_variant;
+      if (validMetric && n_variant > 0 && n_control > 0) {
+        const SE_u = seOfRelativeLift(CR0, n_control, n_variant, metric);
+        const measured = effectDynamics
+          ? L +
+            noveltyAmplitude(effectDynamics, L) *
+              averageNoveltyWeight(effectDynamics, start, start + days)
+          : L;
+        const L_hat_u = measured + SE_u * sampleStandardNormal(rng);
+        precision[u] = 1 / (SE_u * SE_u);
+        weightedReadout[u] = L_hat_u * precision[u];
+      } else {
+        precision[u] = 0;
+        weightedReadout[u] = 0;
+      }
+    }
+
+    return { value, shareDays, finalShare: share };
+  };
+
+  // Simulate one feasible lift and accumulate it; returns its net value
+  const recordDraw = (L: number) => {
+    validSamples++;
+    const { value, shareDays, finalShare } = simulateDraw(L);
+    const defaultValue =
+      defaultDecision === 'ship'
+        ? K * periodGain(L, threshold_L, 0, horizonDays, horizon, effectDynamics)
+        : 0;
+    sumValue += value;
+    sumDefaultValue += defaultValue;
+    sumShareDays += shareDays;
+    sumFinalShare += finalShare;
+    return value - defaultValue;
+  };
+
+  const runPlain = (numSamples: number) => {
+    const target = validSamples + numSamples;
+    const maxIterations = numSamples * 10; // Cap to prevent infinite loops
+    let iterations = 0;
+
+    while (validSamples < target && iterations < maxIterations) {
+      iterations++;
+      const L = sample(prior, rng);
+      if (L < L_min || L > L_max) {
+        rejectedSamples++;
+        continue;
+      }
+      addSample(netValuePerDraw, recordDraw(L));
+    }
+  };
+
+  const runAntithetic = (numSamples: number) => {
+    const target = validSamples + numSamples;
+
+    while (stream && validSamples < target) {
+      const pair = stream.next();
+      let pairNetValue = 0;
+      for (const { lift } of pair) {
+        pairNetValue += recordDraw(lift);
+      }
+      addSample(netValuePerDraw, pairNetValue / pair.length);
+    }
+  };
+
+  const estimate = () => (validSamples === 0 ? 0 : (sumValue - sumDefaultValue) / validSamples);
+
+  const results = (): BanditResults => {
+    const warnings: CalculationWarning[] = [];
+
+    const totalAttempted = validSamples + rejectedSamples;
+    if (totalAttempted > 0 && rejectedSamples / totalAttempted > 0.1) {
+      warnings.push({
+        code: 'high_rejection',
+        message: `High rejection rate (${Math.round((rejectedSamples / totalAttempted) * 100)}%) due to prior mass outside feasible conversion bounds. Consider narrowing prior or adjusting baseline rate.`,
+      });
+    }
+
+    if (validSamples === 0) {
+      // Nothing simulated: report the bandit's first split, from the prior
+      const share = banditVariantShare(policy, 0, Infinity, prior, threshold_L, CR0, metric);
+      return {
+        valueDollars: 0,
+        defaultValueDollars: 0,
+        netValueDollars: 0,
+        defaultDecision,
+        averageVariantShare: share,
+        finalVariantShare: share,
+        numSamples: 0,
+        numRejected: rejectedSamples,
+        ...(warnings.length > 0 && { warnings }),
+      };
+    }
+
+    const netValueDollars = estimate();
+    const netValueError = monteCarloError(netValueDollars, standardErrorOfMean(netValuePerDraw));
+    const errorWarning = monteCarloErrorWarning('bandit net value', netValueDollars, netValueError);
+    if (errorWarning) {
+      warnings.push(errorWarning);
+    }
+
+    return {
+      valueDollars: sumValue / validSamples,
+      defaultValueDollars: sumDefaultValue / validSamples,
+      netValueDollars,
+      defaultDecision,
+      averageVariantShare: sumShareDays / (validSamples * horizonDays),
+      finalVariantShare: sumFinalShare / validSamples,
+      netValueError,
+      numSamples: validSamples,
+      numRejected: rejectedSamples,
+      ...(warnings.length > 0 && { warnings }),
+    };
+  };
+
+  return {
+    run: sampling.antithetic ? runAntithetic : runPlain,
+    numSamples: () => validSamples,
+    estimate,
+    standardError: () => standardErrorOfMean(netValuePerDraw),
+    results,
+  };
+}
+
+/**
+ * Calculate the value of a bandit rollout by Monte Carlo
+ *
+ * @param inputs - Bandit parameters
+ * @param numSamples - Number of Monte Carlo samples (default 2000)
+ * @param rng - Uniform random source (default Math.random); a seeded source
+ *   makes the result reproducible
+ * @returns Bandit value, the default's value on the same draws, and diagnostics
+ */
+export function calculateBanditMonteCarlo(
+  inputs: BanditInputs,
+  numSamples: number = 2000,
+  rng: RandomSource = defaultRandom
+): BanditResults {
+  const simulation = createBanditSimulation(inputs, rng);
+  simulation.run(numSamples);
+  return simulation.results();
+}
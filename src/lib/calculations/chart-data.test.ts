@@ -12,6 +12,7 @@
 import { describe, it, expect } from 'vitest';
 import {
   generateDistributionData,
+  generatePointMassData,
   getDensityAtLiftForPrior,
 } from './chart-data';
 import { standardNormalPDF, SQRT_2_PI } from './statistics';
@@ -271,6 +272,30 @@ describe('generateDistributionData', () => {
   });
 });
 
+describe('mixture priors', () => {
+  const spikeAndSlab: PriorDistribution = {
+    type: 'mixture',
+    components: [
+      { weight: 0.6, mu_L: 0, sigma_L: 0 },
+      { weight: 0.4, mu_L: 0.1, sigma_L: 0.01 },
+    ],
+  };
+
+  it('draws the slab over a range that takes in the spike', () => {
+    const data = generateDistributionData(spikeAndSlab);
+
+    expect(data[0].liftPercent).toBeCloseTo(0, 10);
+    expect(data[data.length - 1].liftPercent).toBeCloseTo(14, 10);
+    const peak = data.reduce((best, p) => (p.density > best.density ? p : best));
+    expect(peak.liftPercent).toBeCloseTo(10, 0);
+  });
+
+  it('returns the spike as a point mass', () => {
+    expect(generatePointMassData(spikeAndSlab)).toEqual([{ liftPercent: 0, probability: 0.6 }]);
+    expect(generatePointMassData({ type: 'normal', mu_L: 0, sigma_L: 0.05 })).toEqual([]);
+  });
+});
+
 describe('getDensityAtLiftForPrior', () => {
   it('returns correct density for Normal prior at the mean', () => {
     const prior: PriorDistribution = {
@@ -2,17 +2,18 @@
  * Chart Data Generation Utilities
  *
  * Generates density curve data points for visualizing prior distributions.
- * Supports Normal, Student-t, and Uniform distributions for Recharts rendering.
+ * Supports every prior shape for Recharts rendering.
  *
  * Mathematical background:
  * - Normal: f(x) = phi((x - mu) / sigma) / sigma, range: mu +/- 4*sigma
  * - Student-t: location-scale t-distribution, range: mu +/- 4*sigma
  * - Uniform: constant 1/(b-a) on [a,b], range: exact bounds
+ * - Log-normal/skew-normal: range between extreme percentiles
  *
  * Per 05-CONTEXT.md: Chart updates live when prior shape changes.
  */
 
-import { pdf, type PriorDistribution } from './distributions';
+import { pdf, quantile, type PriorDistribution } from './distributions';
 
 /**
  * Data point for chart rendering
@@ -25,17 +26,31 @@ export interface ChartDataPoint {
   density: number;
 }
 
+/**
+ * Point mass of a mixture prior, drawn as a marker rather than a density
+ *
+ * @property liftPercent - Location as percentage
+ * @property probability - Prior probability of exactly this lift
+ */
+export interface PointMassDataPoint {
+  liftPercent: number;
+  probability: number;
+}
+
 /**
  * Generate data points for any prior distribution density curve
  *
- * Supports Normal, Student-t, and Uniform distributions via the
+ * Supports Normal, Student-t, Uniform, mixture and skewed distributions via the
  * unified pdf() function from distributions.ts.
  *
  * Range determination by type:
  * - Normal/Student-t: mu +/- 4*sigma (covers 99.99% of Normal, slightly less for t)
  * - Uniform: exact bounds [low, high] with padding for clean rendering
+ * - Mixture: every slab's mu +/- 4*sigma, widened to take in the point
+ *   masses; the curve is the slabs only (see generatePointMassData)
+ * - Log-normal/Skew-normal: 0.05th to 99.95th percentile
  *
- * @param prior - Prior distribution parameters (Normal, Student-t, or Uniform)
+ * @param prior - Prior distribution parameters
  * @param numPoints - Number of points to generate (default 100 for smooth curve)
  * @returns Array of chart data points with liftPercent in percentage form
  */
@@ -70,6 +85,38 @@ export function generateDistributionData(
     return points;
   }
 
+  if (prior.type === 'mixture') {
+    const components = prior.components!;
+    const slabs = components.filter((component) => component.sigma_L >= 0.0001);
+    if (slabs.length === 0) {
+      return [];
+    }
+    let minLift = Math.min(...slabs.map((slab) => slab.mu_L - 4 * slab.sigma_L));
+    let maxLift = Math.max(...slabs.map((slab) => slab.mu_L + 4 * slab.sigma_L));
+    for (const component of components) {
+      minLift = Math.min(minLift, component.mu_L);
+      maxLift = Math.max(maxLift, component.mu_L);
+    }
+    const step = (maxLift - minLift) / (numPoints - 1);
+
+    return Array.from({ length: numPoints }, (_, i) => {
+      const lift = minLift + i * step;
+      return { liftPercent: lift * 100, density: pdf(lift, prior) };
+    });
+  }
+
+  // Skewed: from the 0.05th to the 99.95th percentile, so the long tail shows
+  if (prior.type === 'log-normal' || prior.type === 'skew-normal') {
+    const minLift = quantile(0.0005, prior);
+    const maxLift = quantile(0.9995, prior);
+    const step = (maxLift - minLift) / (numPoints - 1);
+
+    return Array.from({ length: numPoints }, (_, i) => {
+      const lift = minLift + i * step;
+      return { liftPercent: lift * 100, density: pdf(lift, prior) };
+    });
+  }
+
   // Normal or Student-t: use mu +/- 4*sigma range
   const mu_L = prior.mu_L!;
   const sigma_L = prior.sigma_L!;
@@ -109,7 +156,7 @@ export function generateDistributionData(
  * Get probability density at a specific lift value for any distribution
  *
  * Used for positioning markers (e.g., mean indicator dot) on the curve.
- * Supports Normal, Student-t, and Uniform distributions.
+ * Supports every prior shape.
  *
  * @param lift_L - Lift value (decimal, e.g., 0.05 for 5%)
  * @param prior - Prior distribution parameters
@@ -130,3 +177,21 @@ export function getDensityAtLiftForPrior(
 
   return pdf(lift_L, prior);
 }
+
+/**
+ * Point masses of a mixture prior (e.g., the spike of a spike-and-slab)
+ *
+ * pdf() leaves these out, so charts mark them separately, labelled with
+ * their probability.
+ *
+ * @param prior - Prior distribution parameters
+ * @returns Point masses with positive probability (empty for other types)
+ */
+export function generatePointMassData(prior: PriorDistribution): PointMassDataPoint[] {
+  if (prior.type !== 'mixture') {
+    return [];
+  }
+  return prior
+    .components!.filter((component) => component.sigma_L === 0 && component.weight > 0)
+    .map((component) => ({ liftPercent: component.mu_L * 100, probability: component.weight }));
+}
@@ -255,4 +255,46 @@ describe('calculateCostOfDelay', () => {
       expect(result.codDollars).toBeCloseTo(739.73, 0);
     });
   });
+
+  // ===========================================
+  // Decision horizon
+  // ===========================================
+
+  describe('decision horizon', () => {
+    const inputs = {
+      K: 1000000,
+      mu_L: 0.0365, // 100/day
+      threshold_L: 0,
+      testDurationDays: 28,
+      variantFraction: 0.5,
+      decisionLatencyDays: 28,
+    };
+
+    it('matches the one-year model by default', () => {
+      expect(
+        calculateCostOfDelay({ ...inputs, horizon: { horizonDays: 365, annualDiscountRate: 0 } })
+      ).toEqual(calculateCostOfDelay(inputs));
+    });
+
+    it('charges nothing for delay past the end of the horizon', () => {
+      const result = calculateCostOfDelay({
+        ...inputs,
+        horizon: { horizonDays: 42, annualDiscountRate: 0 },
+      });
+
+      // 0.5 * 100 * 28 during the test + 100 * 14 latency days inside the horizon
+      expect(result.codDollars).toBeCloseTo(2800, 6);
+      expect(result.dailyOpportunityCost).toBeCloseTo(100, 10);
+    });
+
+    it('discounts foregone value', () => {
+      const result = calculateCostOfDelay({
+        ...inputs,
+        horizon: { horizonDays: 1095, annualDiscountRate: 0.1 },
+      });
+
+      expect(result.codDollars).toBeLessThan(calculateCostOfDelay(inputs).codDollars);
+      expect(result.codDollars).toBeGreaterThan(0.99 * calculateCostOfDelay(inputs).codDollars);
+    });
+  });
 });
@@ -13,8 +13,17 @@
  * - CoD only applies when expected value is positive (mu_L > T_L)
  * - During the test, only the control group foregoes the potential benefit
  * - During decision latency, everyone foregoes the benefit
+ * - Foregone days are discounted, and days past the decision horizon cost
+ *   nothing (see horizon.ts)
+ * - Conversion latency is not an input: the readout happens on the last
+ *   test day whether or not conversions have matured, so latency doesn't
+ *   lengthen the delay. It shrinks the readable sample instead, which costs
+ *   value after the decision (conversionLatencyCostDollars in net value).
  */
 
+import { DAYS_PER_YEAR, discountedYears } from './horizon';
+import type { DecisionHorizon } from './types';
+
 /**
  * Input parameters for Cost of Delay calculation
  */
@@ -36,6 +45,9 @@ export interface CoDInputs {
 
   /** Days between test completion and shipping decision */
   decisionLatencyDays: number;
+
+  /** Horizon the decision pays off over (default one undiscounted year) */
+  horizon?: DecisionHorizon;
 }
 
 /**
@@ -45,7 +57,7 @@ export interface CoDResults {
   /** Total Cost of Delay in dollars */
   codDollars: number;
 
-  /** Daily opportunity cost (EV_ship_day) in dollars */
+  /** Daily opportunity cost (EV_ship_day) in dollars, undiscounted */
   dailyOpportunityCost: number;
 
   /** Whether CoD applies (true if default decision is Ship) */
@@ -71,6 +83,10 @@ export interface CoDResults {
  *     CoD = (1 - f_var) * EV_ship_day * D_test  // Control foregone value during test
  *         + EV_ship_day * D_latency              // Everyone's foregone value during latency
  *
+ *   With a horizon, each period's days become its discounted years within
+ *   the horizon: (1 - f_var) * EV_ship_annual * years(0, D_test)
+ *   + EV_ship_annual * years(D_test, D_test + D_latency)
+ *
  *   If default is Don't Ship (mu_L < T_L):
  *     CoD = 0  // No opportunity cost of waiting
  *
@@ -85,6 +101,7 @@ export function calculateCostOfDelay(inputs: CoDInputs): CoDResults {
     testDurationDays,
     variantFraction,
     decisionLatencyDays,
+    horizon,
   } = inputs;
 
   // ===========================================
@@ -118,7 +135,7 @@ export function calculateCostOfDelay(inputs: CoDInputs): CoDResults {
   // ===========================================
   // EV_ship_day = EV_ship_annual / 365
   // This is the daily opportunity cost of not having the feature live
-  const EV_ship_day = EV_ship_annual / 365;
+  const EV_ship_day = EV_ship_annual / DAYS_PER_YEAR;
 
   // ===========================================
   // Step 4: Calculate Cost of Delay
@@ -132,9 +149,15 @@ export function calculateCostOfDelay(inputs: CoDInputs): CoDResults {
   // 2. During decision latency: no one gets the benefit
   //    CoD_latency = EV_ship_day * D_latency
   //    (everyone foregoes value while waiting for decision)
+  //
+  // Days are counted as discounted years inside the horizon, which is
+  // EV_ship_day * days for the default undiscounted year
   const controlFraction = 1 - variantFraction;
-  const codDuringTest = controlFraction * EV_ship_day * testDurationDays;
-  const codDuringLatency = EV_ship_day * decisionLatencyDays;
+  const testEnd = testDurationDays;
+  const latencyEnd = testDurationDays + decisionLatencyDays;
+  const codDuringTest =
+    controlFraction * EV_ship_annual * discountedYears(0, testEnd, horizon);
+  const codDuringLatency = EV_ship_annual * discountedYears(testEnd, latencyEnd, horizon);
 
   const codDollars = codDuringTest + codDuringLatency;
 
@@ -2,11 +2,20 @@
  * Distribution Abstraction Layer Tests
  *
  * Tests for PDF, CDF, sample, and getPriorMean functions
- * across Normal, Student-t, and Uniform distributions.
+ * across Normal, Student-t, Uniform, mixture and skewed distributions.
  */
 
 import { describe, it, expect, vi } from 'vitest';
-import { pdf, cdf, sample, getPriorMean, type PriorDistribution } from './distributions';
+import {
+  pdf,
+  cdf,
+  quantile,
+  sample,
+  getPriorMean,
+  type PriorDistribution,
+} from './distributions';
+import { createSeededRandom } from './random';
+import { integrate } from './quadrature';
 
 describe('distributions', () => {
   // Test priors for each distribution type
@@ -501,4 +510,114 @@ describe('distributions', () => {
       }
     });
   });
+
+  describe('mixture (spike-and-slab)', () => {
+    // 60% chance of no effect; otherwise N(4%, 5%)
+    const spikeAndSlab: PriorDistribution = {
+      type: 'mixture',
+      components: [
+        { weight: 0.6, mu_L: 0, sigma_L: 0 },
+        { weight: 0.4, mu_L: 0.04, sigma_L: 0.05 },
+      ],
+    };
+    const slab: PriorDistribution = { type: 'normal', mu_L: 0.04, sigma_L: 0.05 };
+
+    it('pdf is the weighted slab density (the spike has no density)', () => {
+      expect(pdf(0.04, spikeAndSlab)).toBeCloseTo(0.4 * pdf(0.04, slab), 12);
+      expect(pdf(0, spikeAndSlab)).toBeCloseTo(0.4 * pdf(0, slab), 12);
+    });
+
+    it('cdf jumps by the spike weight at zero', () => {
+      const jump = cdf(0, spikeAndSlab) - cdf(-1e-12, spikeAndSlab);
+      expect(jump).toBeCloseTo(0.6, 6);
+      expect(cdf(0.1, spikeAndSlab)).toBeCloseTo(0.6 + 0.4 * cdf(0.1, slab), 12);
+    });
+
+    it('quantile inverts the cdf, landing on the spike inside its mass', () => {
+      expect(quantile(0.5, spikeAndSlab)).toBe(0);
+      const p = 0.95;
+      expect(cdf(quantile(p, spikeAndSlab), spikeAndSlab)).toBeCloseTo(p, 9);
+    });
+
+    it('getPriorMean is the weighted component mean', () => {
+      expect(getPriorMean(spikeAndSlab)).toBeCloseTo(0.016, 12);
+    });
+
+    it('samples hit the spike at its weight and average to the mean', () => {
+      const rng = createSeededRandom(7);
+      const n = 20000;
+      let zeros = 0;
+      let sum = 0;
+      for (let i = 0; i < n; i++) {
+        const s = sample(spikeAndSlab, rng);
+        if (s === 0) zeros++;
+        sum += s;
+      }
+      expect(zeros / n).toBeCloseTo(0.6, 1);
+      expect(Math.abs(sum / n - 0.016)).toBeLessThan(0.002);
+    });
+  });
+
+  describe('log-normal (on 1 + lift)', () => {
+    // log(1 + L) ~ N(0.05, 0.1^2)
+    const logNormal: PriorDistribution = { type: 'log-normal', logMu: 0.05, logSigma: 0.1 };
+
+    it('cdf is the Normal cdf of log(1 + L), zero at -100% and below', () => {
+      expect(cdf(Math.exp(0.05) - 1, logNormal)).toBeCloseTo(0.5, 8);
+      expect(cdf(-1, logNormal)).toBe(0);
+      expect(pdf(-1.5, logNormal)).toBe(0);
+    });
+
+    it('quantile maps Normal percentiles through exp', () => {
+      expect(quantile(0.95, logNormal)).toBeCloseTo(Math.exp(0.05 + 1.6448536 * 0.1) - 1, 6);
+      expect(cdf(quantile(0.05, logNormal), logNormal)).toBeCloseTo(0.05, 7);
+    });
+
+    it('getPriorMean is exp(mu + sigma^2 / 2) - 1, matching the density', () => {
+      const mean = Math.exp(0.05 + 0.005) - 1;
+      expect(getPriorMean(logNormal)).toBeCloseTo(mean, 12);
+      expect(integrate((L) => L * pdf(L, logNormal), -1, 2, [0, 0.05])).toBeCloseTo(mean, 8);
+    });
+  });
+
+  describe('skew-normal', () => {
+    const skewNormal: PriorDistribution = { type: 'skew-normal', mu_L: 0, sigma_L: 0.05, alpha: 4 };
+
+    it('reduces to the Normal when alpha is 0', () => {
+      const symmetric: PriorDistribution = { ...skewNormal, alpha: 0 };
+      const normal: PriorDistribution = { type: 'normal', mu_L: 0, sigma_L: 0.05 };
+      expect(pdf(0.03, symmetric)).toBeCloseTo(pdf(0.03, normal), 6);
+      expect(cdf(0.03, symmetric)).toBeCloseTo(cdf(0.03, normal), 8);
+    });
+
+    it('cdf at the location is 1/2 - atan(alpha) / pi', () => {
+      expect(cdf(0, skewNormal)).toBeCloseTo(0.5 - Math.atan(4) / Math.PI, 8);
+    });
+
+    it('density integrates to 1 and to the closed-form mean', () => {
+      const delta = 4 / Math.sqrt(17);
+      const mean = 0.05 * delta * Math.sqrt(2 / Math.PI);
+      expect(integrate((L) => pdf(L, skewNormal), -0.5, 0.5, [0, 0.05])).toBeCloseTo(1, 8);
+      expect(getPriorMean(skewNormal)).toBeCloseTo(mean, 12);
+      expect(integrate((L) => L * pdf(L, skewNormal), -0.5, 0.5, [0, 0.05])).toBeCloseTo(mean, 8);
+    });
+
+    it('quantile inverts the cdf on both tails and mirrors for negative alpha', () => {
+      for (const p of [0.01, 0.05, 0.5, 0.95, 0.99]) {
+        expect(cdf(quantile(p, skewNormal), skewNormal)).toBeCloseTo(p, 7);
+      }
+      const mirrored: PriorDistribution = { ...skewNormal, alpha: -4 };
+      expect(quantile(0.1, mirrored)).toBeCloseTo(-quantile(0.9, skewNormal), 9);
+    });
+
+    it('samples average to the mean', () => {
+      const rng = createSeededRandom(11);
+      const n = 20000;
+      let sum = 0;
+      for (let i = 0; i < n; i++) {
+        sum += sample(skewNormal, rng);
+      }
+      expect(Math.abs(sum / n - getPriorMean(skewNormal))).toBeLessThan(0.001);
+    });
+  });
 });
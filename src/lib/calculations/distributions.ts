@@ -1,7 +1,8 @@
 /**
  * Distribution Abstraction Layer
  *
- * Unified interface for Normal, Student-t, and Uniform prior distributions.
+ * Unified interface for Normal, Student-t, Uniform, skewed (log-normal and
+ * skew-normal) and mixture prior distributions.
  * Used for PDF calculations (chart rendering) and sampling (Monte Carlo EVSI).
  *
  * Per 05-RESEARCH.md:
@@ -13,16 +14,45 @@
  * - All lift values (L) are in decimal form (0.05 = 5%)
  * - Student-t location-scale: if Z ~ t(df), then X = mu + sigma*Z ~ t(df, mu, sigma)
  * - Uniform: constant density 1/(b-a) on [a,b], zero elsewhere
+ * - Mixture: F(L) = sum_k w_k F_k(L) over Normal components; a component
+ *   with sigma = 0 is a point mass (the "spike" of a spike-and-slab prior)
+ * - Log-normal: log(1 + L) ~ N(logMu, logSigma^2), so L > -1 always and the
+ *   upside tail is the long one
+ * - Skew-normal: density (2/omega) * phi(z) * Phi(alpha * z) with
+ *   z = (L - xi) / omega; alpha > 0 skews right, alpha = 0 is Normal
  */
 
 import { standardNormalPDF, standardNormalCDF } from './statistics';
 import { sampleStandardNormal } from './abtest-math';
+import { defaultRandom, type RandomSource } from './random';
+import { integrate } from './quadrature';
 import jStat from 'jstat';
 
 /**
  * Distribution type identifier
  */
-export type DistributionType = 'normal' | 'student-t' | 'uniform';
+export type DistributionType =
+  | 'normal'
+  | 'student-t'
+  | 'uniform'
+  | 'mixture'
+  | 'log-normal'
+  | 'skew-normal';
+
+/**
+ * One Normal component of a mixture prior
+ *
+ * sigma_L = 0 makes the component a point mass at mu_L, e.g. the "most
+ * ideas do nothing" spike at zero lift.
+ */
+export interface MixtureComponent {
+  /** Share of the prior's probability (weights sum to 1) */
+  weight: number;
+  /** Component mean */
+  mu_L: number;
+  /** Component std dev (0 for a point mass) */
+  sigma_L: number;
+}
 
 /**
  * Prior distribution parameters
@@ -31,25 +61,106 @@ export type DistributionType = 'normal' | 'student-t' | 'uniform';
  * - Normal: { type: 'normal', mu_L, sigma_L }
  * - Student-t: { type: 'student-t', mu_L, sigma_L, df }
  * - Uniform: { type: 'uniform', low_L, high_L }
+ * - Mixture: { type: 'mixture', components }
+ * - Log-normal: { type: 'log-normal', logMu, logSigma }
+ * - Skew-normal: { type: 'skew-normal', mu_L, sigma_L, alpha }
  *
  * All lift parameters are in decimal form (e.g., 0.05 for 5% lift)
  */
 export interface PriorDistribution {
   type: DistributionType;
 
-  // Normal / Student-t parameters (location-scale family)
-  /** Location parameter (mean for Normal, center for Student-t) */
+  // Normal / Student-t / skew-normal parameters (location-scale family)
+  /** Location parameter (mean for Normal, center for Student-t, xi for skew-normal) */
   mu_L?: number;
-  /** Scale parameter (std dev for Normal, spread for Student-t) */
+  /** Scale parameter (std dev for Normal, spread for Student-t, omega for skew-normal) */
   sigma_L?: number;
   /** Degrees of freedom (Student-t only) */
   df?: number;
+  /** Shape: positive skews right (skew-normal only) */
+  alpha?: number;
+
+  // Log-normal parameters
+  /** Mean of log(1 + L) */
+  logMu?: number;
+  /** Std dev of log(1 + L) */
+  logSigma?: number;
 
   // Uniform parameters
   /** Lower bound of uniform distribution */
   low_L?: number;
   /** Upper bound of uniform distribution */
   high_L?: number;
+
+  // Mixture parameters
+  /** Weighted Normal components (mixture only) */
+  components?: MixtureComponent[];
+}
+
+/** A mixture component as a standalone Normal prior */
+function componentPrior(component: MixtureComponent): PriorDistribution {
+  return { type: 'normal', mu_L: component.mu_L, sigma_L: component.sigma_L };
+}
+
+/**
+ * Owen's T function, T(h, a) = (1 / 2pi) * integral_0^a exp(-h^2 (1 + x^2) / 2) / (1 + x^2) dx
+ *
+ * Gives the skew-normal CDF: F(z) = Phi(z) - 2 T(z, alpha). T is odd in a.
+ */
+function owensT(h: number, a: number): number {
+  if (a === 0) {
+    return 0;
+  }
+  const magnitude =
+    integrate(
+      (x) => Math.exp((-h * h * (1 + x * x)) / 2) / (1 + x * x),
+      0,
+      Math.abs(a)
+    ) /
+    (2 * Math.PI);
+  return a > 0 ? magnitude : -magnitude;
+}
+
+/**
+ * Skew-normal delta = alpha / sqrt(1 + alpha^2): the weight on the half-normal
+ * part in the stochastic representation, and the source of the mean shift
+ */
+export function skewNormalDelta(alpha: number): number {
+  return alpha / Math.sqrt(1 + alpha * alpha);
+}
+
+/**
+ * Invert the CDF by safeguarded Newton: a Newton step from the density when
+ * it lands inside the bracket, bisection otherwise (e.g. across a point
+ * mass's jump). Returns the smallest L with F(L) >= p, up to the tolerance.
+ *
+ * @param p - Probability
+ * @param prior - Distribution to invert
+ * @param lo - Lift with F(lo) <= p
+ * @param hi - Lift with F(hi) >= p
+ */
+function invertCdf(p: number, prior: PriorDistribution, lo: number, hi: number): number {
+  let x = (lo + hi) / 2;
+  for (let i = 0; i < 100; i++) {
+    const F = cdf(x, prior);
+    if (F >= p) {
+      hi = x;
+    } else {
+      lo = x;
+    }
+    const density = pdf(x, prior);
+    const newton = density > 0 ? x - (F - p) / density : NaN;
+    const next = newton > lo && newton < hi ? newton : (lo + hi) / 2;
+    const tolerance = 1e-12 * Math.max(1, Math.abs(x));
+    if (hi - lo <= tolerance) {
+      return hi;
+    }
+    if (Math.abs(next - x) <= tolerance) {
+      return next;
+    }
+    x = next;
+  }
+  return hi;
 }
 
 /**
@@ -68,6 +179,15 @@ export interface PriorDistribution {
  *
  * - Uniform: f(L) = 1 / (high - low) if low <= L <= high, else 0
  *
+ * - Mixture: f(L) = sum_k w_k f_k(L)
+ *   Point-mass components add 0, so this is the density of the continuous
+ *   part only; charts draw the spikes separately.
+ *
+ * - Log-normal: f(L) = phi((log(1 + L) - logMu) / logSigma) / (logSigma * (1 + L))
+ *   for L > -1, else 0
+ *
+ * - Skew-normal: f(L) = (2 / omega) * phi(z) * Phi(alpha * z), z = (L - xi) / omega
+ *
  * @param lift_L - Lift value in decimal form (e.g., 0.05 for 5%)
  * @param prior - Distribution parameters
  * @returns Probability density at the given lift value
@@ -135,6 +255,30 @@ export function pdf(lift_L: number, prior: PriorDistribution): number {
       }
       return 1 / width;
     }
+
+    case 'mixture':
+      return prior.components!.reduce(
+        (sum, component) => sum + component.weight * pdf(lift_L, componentPrior(component)),
+        0
+      );
+
+    case 'log-normal': {
+      const sigma = prior.logSigma!;
+      if (!(lift_L > -1) || !(sigma > 0)) {
+        return 0;
+      }
+      const z = (Math.log(1 + lift_L) - prior.logMu!) / sigma;
+      return standardNormalPDF(z) / (sigma * (1 + lift_L));
+    }
+
+    case 'skew-normal': {
+      const omega = prior.sigma_L!;
+      if (omega === 0) {
+        return 0;
+      }
+      const z = (lift_L - prior.mu_L!) / omega;
+      return (2 / omega) * standardNormalPDF(z) * standardNormalCDF(prior.alpha! * z);
+    }
   }
 }
 
@@ -153,6 +297,12 @@ export function pdf(lift_L: number, prior: PriorDistribution): number {
  *
  * - Uniform: F(L) = (L - low) / (high - low) clamped to [0, 1]
  *
+ * - Mixture: F(L) = sum_k w_k F_k(L), which jumps by w_k at each point mass
+ *
+ * - Log-normal: F(L) = Phi((log(1 + L) - logMu) / logSigma) for L > -1
+ *
+ * - Skew-normal: F(L) = Phi(z) - 2 * T(z, alpha), T being Owen's T function
+ *
  * @param lift_L - Lift value in decimal form (e.g., 0.05 for 5%)
  * @param prior - Distribution parameters
  * @returns Cumulative probability P(L <= lift_L)
@@ -216,6 +366,128 @@ export function cdf(lift_L: number, prior: PriorDistribution): number {
       if (lift_L >= high) return 1;
       return (lift_L - low) / width;
     }
+
+    case 'mixture':
+      return prior.components!.reduce(
+        (sum, component) => sum + component.weight * cdf(lift_L, componentPrior(component)),
+        0
+      );
+
+    case 'log-normal': {
+      if (!(lift_L > -1)) {
+        return 0;
+      }
+      const sigma = prior.logSigma!;
+      const logLift = Math.log(1 + lift_L);
+      if (sigma === 0) {
+        return logLift < prior.logMu! ? 0 : 1;
+      }
+      return standardNormalCDF((logLift - prior.logMu!) / sigma);
+    }
+
+    case 'skew-normal': {
+      const omega = prior.sigma_L!;
+      if (omega === 0) {
+        return lift_L < prior.mu_L! ? 0 : 1;
+      }
+      const z = (lift_L - prior.mu_L!) / omega;
+      // Clamp: the two terms nearly cancel far in the short tail
+      return Math.min(1, Math.max(0, standardNormalCDF(z) - 2 * owensT(z, prior.alpha!)));
+    }
+  }
+}
+
+/**
+ * Quantile function (inverse CDF)
+ *
+ * Returns the lift L with F(L) = p. Used to map uniforms (pseudo-random or
+ * quasi-random) to prior draws in the variance-reduced simulation engine.
+ *
+ * Quantile formulas:
+ * - Normal: L = mu + sigma * Phi^{-1}(p)
+ * - Student-t: L = mu + sigma * T_df^{-1}(p) (jStat.studentt.inv)
+ * - Uniform: L = low + p * (high - low)
+ * - Mixture: no closed form; bisection on the CDF. The p-quantile lies
+ *   between the smallest and largest component p-quantiles, which brackets
+ *   the search. Like every quantile here it is the smallest L with
+ *   F(L) >= p, so a p that falls inside a spike's jump returns the spike.
+ * - Log-normal: L = exp(logMu + logSigma * Phi^{-1}(p)) - 1
+ * - Skew-normal: no closed form; the standard quantile lies between the
+ *   Normal one (alpha = 0) and the half-normal one (alpha = Infinity),
+ *   which brackets a Newton search
+ *
+ * Point masses (sigma = 0, or width <= 0 for Uniform) return the point.
+ *
+ * @param p - Probability, in (0, 1)
+ * @param prior - Distribution parameters
+ * @returns Lift at probability p
+ */
+export function quantile(p: number, prior: PriorDistribution): number {
+  switch (prior.type) {
+    case 'normal': {
+      if (prior.sigma_L === 0) {
+        return prior.mu_L!;
+      }
+      return prior.mu_L! + prior.sigma_L! * jStat.normal.inv(p, 0, 1);
+    }
+
+    case 'student-t': {
+      if (prior.sigma_L === 0 || !(prior.df! > 0)) {
+        return prior.mu_L!;
+      }
+      return prior.mu_L! + prior.sigma_L! * jStat.studentt.inv(p, prior.df!);
+    }
+
+    case 'uniform': {
+      const width = prior.high_L! - prior.low_L!;
+      if (!(width > 0)) {
+        return prior.low_L!;
+      }
+      return prior.low_L! + p * width;
+    }
+
+    case 'mixture': {
+      // A point mass holding p: its location, exactly (bisection only gets close)
+      for (const component of prior.components!) {
+        if (component.sigma_L !== 0) continue;
+        const massAt = prior
+          .components!.filter((c) => c.sigma_L === 0 && c.mu_L === component.mu_L)
+          .reduce((sum, c) => sum + c.weight, 0);
+        const atOrBelow = cdf(component.mu_L, prior);
+        if (atOrBelow >= p && atOrBelow - massAt < p) {
+          return component.mu_L;
+        }
+      }
+
+      const componentQuantiles = prior.components!.map((component) =>
+        quantile(p, componentPrior(component))
+      );
+      return invertCdf(
+        p,
+        prior,
+        Math.min(...componentQuantiles),
+        Math.max(...componentQuantiles)
+      );
+    }
+
+    case 'log-normal':
+      return Math.exp(prior.logMu! + prior.logSigma! * jStat.normal.inv(p, 0, 1)) - 1;
+
+    case 'skew-normal': {
+      const xi = prior.mu_L!;
+      const omega = prior.sigma_L!;
+      const alpha = prior.alpha!;
+      if (omega === 0) {
+        return xi;
+      }
+      // Left skew mirrors right skew: q_p(alpha) = -q_{1-p}(-alpha)
+      const normalZ = jStat.normal.inv(p, 0, 1);
+      const halfNormalZ =
+        alpha >= 0 ? jStat.normal.inv((1 + p) / 2, 0, 1) : -jStat.normal.inv(1 - p / 2, 0, 1);
+      const lo = xi + omega * Math.min(normalZ, halfNormalZ);
+      const hi = xi + omega * Math.max(normalZ, halfNormalZ);
+      return invertCdf(p, prior, lo, hi);
+    }
   }
 }
 
@@ -237,15 +509,23 @@ export function cdf(lift_L: number, prior: PriorDistribution): number {
  * - Uniform: Linear scaling
  *   L = low + U * (high - low) where U ~ Uniform(0,1)
  *
+ * - Mixture: pick component k with probability w_k, then sample it
+ *
+ * - Log-normal: L = exp(logMu + logSigma * z) - 1, z ~ N(0, 1)
+ *
+ * - Skew-normal: z = delta * |u| + sqrt(1 - delta^2) * v with u, v ~ N(0, 1)
+ *   independent and delta = alpha / sqrt(1 + alpha^2); L = xi + omega * z
+ *
  * @param prior - Distribution parameters
+ * @param rng - Uniform random source (default Math.random)
  * @returns Random sample from the distribution
  */
-export function sample(prior: PriorDistribution): number {
+export function sample(prior: PriorDistribution, rng: RandomSource = defaultRandom): number {
   switch (prior.type) {
     case 'normal': {
       // Box-Muller transform for normal sampling (uses shared sampleStandardNormal)
       // This generates standard normal, then transform to location-scale
-      const z = sampleStandardNormal();
+      const z = sampleStandardNormal(rng);
       return prior.mu_L! + prior.sigma_L! * z;
     }
 
@@ -259,7 +539,7 @@ export function sample(prior: PriorDistribution): number {
       // Use bounded loop instead of recursion to prevent stack overflow
       // Non-finite values can occur at extreme tails (p very close to 0 or 1)
       for (let attempts = 0; attempts < 10; attempts++) {
-        const u = Math.random();
+        const u = rng();
         const z = jStat.studentt.inv(u, prior.df!);
         if (isFinite(z)) {
           return prior.mu_L! + prior.sigma_L! * z;
@@ -278,7 +558,31 @@ export function sample(prior: PriorDistribution): number {
       }
 
       // Simple linear scaling of uniform random
-      return prior.low_L! + Math.random() * width;
+      return prior.low_L! + rng() * width;
+    }
+
+    case 'mixture': {
+      const components = prior.components!;
+      const u = rng();
+      let cumulative = 0;
+      for (const component of components) {
+        cumulative += component.weight;
+        if (u < cumulative) {
+          return sample(componentPrior(component), rng);
+        }
+      }
+      // u landed past the last cumulative weight (rounding): use the last component
+      return sample(componentPrior(components[components.length - 1]), rng);
+    }
+
+    case 'log-normal':
+      return Math.exp(prior.logMu! + prior.logSigma! * sampleStandardNormal(rng)) - 1;
+
+    case 'skew-normal': {
+      const delta = skewNormalDelta(prior.alpha!);
+      const u = Math.abs(sampleStandardNormal(rng));
+      const v = sampleStandardNormal(rng);
+      return prior.mu_L! + prior.sigma_L! * (delta * u + Math.sqrt(1 - delta * delta) * v);
     }
   }
 }
@@ -292,6 +596,9 @@ export function sample(prior: PriorDistribution): number {
  * - Normal: E[L] = mu
  * - Student-t: E[L] = mu (for df > 1; undefined for df <= 1)
  * - Uniform: E[L] = (low + high) / 2
+ * - Mixture: E[L] = sum_k w_k mu_k
+ * - Log-normal: E[L] = exp(logMu + logSigma^2 / 2) - 1
+ * - Skew-normal: E[L] = xi + omega * delta * sqrt(2 / pi)
  *
  * @param prior - Distribution parameters
  * @returns Mean of the distribution
@@ -306,5 +613,19 @@ export function getPriorMean(prior: PriorDistribution): number {
     case 'uniform':
       // Uniform mean is the midpoint of the interval
       return (prior.low_L! + prior.high_L!) / 2;
+
+    case 'mixture':
+      return prior.components!.reduce(
+        (sum, component) => sum + component.weight * component.mu_L,
+        0
+      );
+
+    case 'log-normal':
+      return Math.exp(prior.logMu! + (prior.logSigma! * prior.logSigma!) / 2) - 1;
+
+    case 'skew-normal':
+      return (
+        prior.mu_L! + prior.sigma_L! * skewNormalDelta(prior.alpha!) * Math.sqrt(2 / Math.PI)
+      );
   }
 }
@@ -0,0 +1,94 @@
+import { describe, it, expect } from 'vitest';
+import {
+  averageNoveltyWeight,
+  noveltyWarning,
+  noveltyYears,
+  periodGain,
+  readoutLine,
+} from './effect-dynamics';
+import { discountedYears } from './horizon';
+import type { EffectDynamics } from './types';
+
+const decay: EffectDynamics = { type: 'decay', noveltyLift: 0.02, halfLifeDays: 7 };
+const multiplier: EffectDynamics = {
+  type: 'novelty-multiplier',
+  multiplier: 0.5,
+  halfLifeDays: 7,
+};
+
+describe('averageNoveltyWeight', () => {
+  it('averages the decay over a span', () => {
+    // Over one half-life: (1 - 1/2) / ln 2
+    expect(averageNoveltyWeight(decay, 0, 7)).toBeCloseTo(0.5 / Math.LN2, 12);
+    // One half-life later, half as much
+    expect(averageNoveltyWeight(decay, 7, 14)).toBeCloseTo(0.25 / Math.LN2, 12);
+  });
+
+  it('is the weight at the start of an empty span', () => {
+    expect(averageNoveltyWeight(decay, 0, 0)).toBe(1);
+    expect(averageNoveltyWeight(decay, 14, 14)).toBeCloseTo(0.25, 12);
+  });
+});
+
+describe('readoutLine', () => {
+  it('measures the long-run lift without dynamics', () => {
+    expect(readoutLine(undefined, 14)).toEqual({ scale: 1, shift: 0 });
+  });
+
+  it('adds a fixed bump for decay and scales the lift for a multiplier', () => {
+    const weight = averageNoveltyWeight(decay, 0, 14);
+
+    expect(readoutLine(decay, 14)).toEqual({ scale: 1, shift: 0.02 * weight });
+    expect(readoutLine(multiplier, 14)).toEqual({ scale: 1 + 0.5 * weight, shift: 0 });
+  });
+});
+
+describe('noveltyYears', () => {
+  it('integrates the decay in years', () => {
+    // Whole decay: h / ln 2 days
+    expect(noveltyYears(decay, 0, 365)).toBeCloseTo(7 / Math.LN2 / 365, 8);
+    expect(noveltyYears(decay, 0, 7)).toBeCloseTo(3.5 / Math.LN2 / 365, 12);
+  });
+
+  it('discounts and clips like the horizon', () => {
+    const horizon = { horizonDays: 30, annualDiscountRate: 0.1 };
+
+    expect(noveltyYears(decay, 40, 60, horizon)).toBe(0);
+    // Decay is negligible over a long half-life: plain discounted years
+    expect(
+      noveltyYears({ ...decay, halfLifeDays: 1e9 }, 0, 60, horizon)
+    ).toBeCloseTo(discountedYears(0, 30, horizon), 8);
+  });
+});
+
+describe('periodGain', () => {
+  it('is (L - T) * years without dynamics', () => {
+    expect(periodGain(0.03, 0.01, 0, 73, { horizonDays: 365, annualDiscountRate: 0 })).toBeCloseTo(
+      0.02 * 0.2,
+      12
+    );
+  });
+
+  it('adds the novelty over the period', () => {
+    const horizon = { horizonDays: 365, annualDiscountRate: 0 };
+
+    expect(periodGain(0.03, 0.01, 0, 14, horizon, multiplier)).toBeCloseTo(
+      0.02 * (14 / 365) + 0.5 * 0.03 * noveltyYears(multiplier, 0, 14, horizon),
+      12
+    );
+  });
+});
+
+describe('noveltyWarning', () => {
+  it('warns while the readout carries the novelty', () => {
+    expect(noveltyWarning(decay, 7)?.code).toBe('novelty_effect');
+    expect(noveltyWarning(decay, 7)?.message).toContain('overstates');
+    expect(noveltyWarning({ ...decay, noveltyLift: -0.02 }, 7)?.message).toContain('understates');
+  });
+
+  it('stays quiet once the novelty has faded', () => {
+    expect(noveltyWarning(decay, 60)).toBeNull();
+    expect(noveltyWarning(undefined, 7)).toBeNull();
+    expect(noveltyWarning({ ...decay, noveltyLift: 0 }, 7)).toBeNull();
+  });
+});
@@ -0,0 +1,225 @@
+/**
+ * Effect Dynamics (novelty effects)
+ *
+ * Many changes show a novelty bump that fades within weeks: a short test
+ * reads the bump, while most of the decision's value comes after it has
+ * gone. The prior is on the long-run lift L; this module gives the lift on
+ * each day, what the test measures, and the value of a period.
+ *
+ * Mathematical notes (for statistician audit):
+ * - L(t) = L + novelty(L) * 2^(-t / h), t in days from the first test day,
+ *   h the half-life; novelty(L) = a * L + b is linear in L:
+ *     decay:              a = 0, b = noveltyLift
+ *     novelty-multiplier: a = multiplier, b = 0
+ * - One clock for all traffic: the novelty does not restart for users who
+ *   first see the change when it ships (conservative for short tests)
+ * - The readout measures L(t) averaged over its enrollment days [0, D_r]:
+ *   L + novelty(L) * w, w = h * (1 - 2^(-D_r / h)) / (D_r * ln 2), so it is
+ *   linear in L too (scale * L + shift)
+ * - Value of a period per unit K: (L - T) * years(a, b) + novelty(L) *
+ *   noveltyYears(a, b), where noveltyYears discounts 2^(-t / h) on top of
+ *   the horizon's discounting (same clipping to [0, H], see horizon.ts)
+ * - The decision rule is unchanged: it reads the readout as a measure of L
+ */
+
+import { DAYS_PER_YEAR, DEFAULT_HORIZON, discountedYears } from './horizon';
+import type { CalculationWarning, DecisionHorizon, EffectDynamics } from './types';
+
+/**
+ * Share of the launch novelty the readout may carry before it warns
+ */
+const NOVELTY_WARNING_WEIGHT = 0.25;
+
+/**
+ * Readout mean as a linear function of the long-run lift
+ */
+export interface ReadoutLine {
+  /** Multiplies L */
+  scale: number;
+  /** Added to scale * L */
+  shift: number;
+}
+
+/**
+ * A readout that measures L itself (no effect dynamics)
+ */
+export const IDENTITY_READOUT: ReadoutLine = { scale: 1, shift: 0 };
+
+/**
+ * Coefficients of novelty(L) = a * L + b, the extra lift at launch
+ */
+function noveltyCoefficients(dynamics: EffectDynamics): { a: number; b: number } {
+  return dynamics.type === 'decay'
+    ? { a: 0, b: dynamics.noveltyLift }
+    : { a: dynamics.multiplier, b: 0 };
+}
+
+/**
+ * Extra lift at launch for a long-run lift L
+ *
+ * @param dynamics - Effect dynamics
+ * @param L - Long-run lift
+ * @returns L(0) - L
+ */
+export function noveltyAmplitude(dynamics: EffectDynamics, L: number): number {
+  const { a, b } = noveltyCoefficients(dynamics);
+  return a * L + b;
+}
+
+/**
+ * Mean of the novelty decay 2^(-t / h) over a span of days
+ *
+ * @param dynamics - Effect dynamics
+ * @param startDay - First day of the span
+ * @param endDay - Day the span ends
+ * @returns Average weight in (0, 1]; the weight at startDay for an empty span
+ */
+export function averageNoveltyWeight(
+  dynamics: EffectDynamics,
+  startDay: number,
+  endDay: number
+): number {
+  const rate = Math.LN2 / dynamics.halfLifeDays;
+  const atStart = Math.exp(-rate * startDay);
+  const days = endDay - startDay;
+  if (days <= 0) {
+    return atStart;
+  }
+  return (atStart * -Math.expm1(-rate * days)) / (rate * days);
+}
+
+/**
+ * What a readout enrolled over the first readoutDays measures
+ *
+ * @param dynamics - Effect dynamics (undefined: a constant lift)
+ * @param readoutDays - Days of enrollment behind the readout
+ * @returns Readout mean as scale * L + shift
+ */
+export function readoutLine(
+  dynamics: EffectDynamics | undefined,
+  readoutDays: number
+): ReadoutLine {
+  if (!dynamics) {
+    return IDENTITY_READOUT;
+  }
+  const { a, b } = noveltyCoefficients(dynamics);
+  const weight = averageNoveltyWeight(dynamics, 0, readoutDays);
+  return { scale: 1 + a * weight, shift: b * weight };
+}
+
+/**
+ * Discounted years of the novelty decay between two days, clipped to the horizon
+ *
+ * @param dynamics - Effect dynamics
+ * @param startDay - First day of the period
+ * @param endDay - Day the period ends
+ * @param horizon - Decision horizon (default one undiscounted year)
+ * @returns Integral of 2^(-t / h) with the horizon's discounting, in years
+ */
+export function noveltyYears(
+  dynamics: EffectDynamics,
+  startDay: number,
+  endDay: number,
+  horizon: DecisionHorizon = DEFAULT_HORIZON
+): number {
+  const a = Math.max(0, startDay);
+  const b = Math.min(endDay, horizon.horizonDays);
+  if (b <= a) {
+    return 0;
+  }
+
+  // Decay and discounting combine into one rate per year
+  const rate =
+    Math.log1p(horizon.annualDiscountRate) + (DAYS_PER_YEAR * Math.LN2) / dynamics.halfLifeDays;
+  return (
+    (Math.exp((-rate * a) / DAYS_PER_YEAR) - Math.exp((-rate * b) / DAYS_PER_YEAR)) / rate
+  );
+}
+
+/**
+ * Expected value of a period per unit K, given moments of a weight w
+ *
+ * w is what the period's value is multiplied by (1 for a period everyone is
+ * on, or the ship indicator after a decision), so with L(t) from the
+ * dynamics the period is worth
+ *   E[(L - T) * w] * years + E[novelty(L) * w] * noveltyYears
+ * and E[novelty(L) * w] = a * (E[(L - T) * w] + T * E[w]) + b * E[w].
+ *
+ * @param gain - E[(L - T) * w]
+ * @param weight - E[w]
+ * @param threshold_L - Threshold (T_L)
+ * @param startDay - First day of the period
+ * @param endDay - Day the period ends
+ * @param horizon - Decision horizon
+ * @param dynamics - Effect dynamics (undefined: a constant lift)
+ * @returns Expected value per unit K, relative to the threshold
+ */
+export function expectedPeriodGain(
+  gain: number,
+  weight: number,
+  threshold_L: number,
+  startDay: number,
+  endDay: number,
+  horizon: DecisionHorizon,
+  dynamics?: EffectDynamics
+): number {
+  const years = discountedYears(startDay, endDay, horizon);
+  if (!dynamics) {
+    return gain * years;
+  }
+  const { a, b } = noveltyCoefficients(dynamics);
+  const novelty = a * (gain + threshold_L * weight) + b * weight;
+  return gain * years + novelty * noveltyYears(dynamics, startDay, endDay, horizon);
+}
+
+/**
+ * Value of a period per unit K for one true long-run lift
+ *
+ * @param L - Long-run lift
+ * @param threshold_L - Threshold (T_L)
+ * @param startDay - First day of the period
+ * @param endDay - Day the period ends
+ * @param horizon - Decision horizon
+ * @param dynamics - Effect dynamics (undefined: a constant lift)
+ * @returns (L - T) * years plus the novelty's discounted extra
+ */
+export function periodGain(
+  L: number,
+  threshold_L: number,
+  startDay: number,
+  endDay: number,
+  horizon: DecisionHorizon,
+  dynamics?: EffectDynamics
+): number {
+  return expectedPeriodGain(L - threshold_L, 1, threshold_L, startDay, endDay, horizon, dynamics);
+}
+
+/**
+ * Warning when the readout still carries much of the launch novelty
+ *
+ * The readout then overstates (or, for change aversion, understates) the
+ * long-run lift the decision is mostly about.
+ *
+ * @param dynamics - Effect dynamics (undefined: no warning)
+ * @param readoutDays - Days of enrollment behind the readout
+ * @returns Warning, or null
+ */
+export function noveltyWarning(
+  dynamics: EffectDynamics | undefined,
+  readoutDays: number
+): CalculationWarning | null {
+  if (!dynamics || readoutDays <= 0) {
+    return null;
+  }
+  const { a, b } = noveltyCoefficients(dynamics);
+  const weight = averageNoveltyWeight(dynamics, 0, readoutDays);
+  if ((a === 0 && b === 0) || weight <= NOVELTY_WARNING_WEIGHT) {
+    return null;
+  }
+
+  const direction = a + b > 0 ? 'overstates' : 'understates';
+  return {
+    code: 'novelty_effect',
+    message: `The test reads out while ${Math.round(weight * 100)}% of the novelty effect is still present on average, so it ${direction} the long-run lift. Consider running it for several half-lives (${dynamics.halfLifeDays} days each).`,
+  };
+}
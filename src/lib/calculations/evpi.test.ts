@@ -2,11 +2,13 @@
  * EVPI Calculation Tests
  *
  * Tests for the Expected Value of Perfect Information calculation
- * using the closed-form Normal formula from SPEC.md Section 8.4.
+ * using the closed-form Normal formula from SPEC.md Section 8.4, and its
+ * numerical counterpart for other prior shapes.
  */
 
 import { describe, it, expect } from 'vitest';
-import { calculateEVPI } from './evpi';
+import { calculateEVPI, calculateEVPIForPrior } from './evpi';
+import { deriveK } from './derived';
 
 describe('calculateEVPI', () => {
   // ===========================================
@@ -899,4 +901,95 @@ describe('calculateEVPI', () => {
       expect(result.truncatedDiagnostics).toBeUndefined();
     });
   });
+
+  // ===========================================
+  // Decision horizon
+  // ===========================================
+
+  describe('decision horizon', () => {
+    const inputs = {
+      baselineConversionRate: 0.05,
+      annualVisitors: 1000000,
+      valuePerConversion: 100,
+      prior: { mu_L: 0.01, sigma_L: 0.05 },
+      threshold_L: 0,
+    };
+
+    it('scales EVPI with the length of the horizon', () => {
+      const oneYear = calculateEVPI(inputs);
+      const threeYears = calculateEVPI({
+        ...inputs,
+        horizon: { horizonDays: 1095, annualDiscountRate: 0 },
+      });
+
+      expect(threeYears.evpiDollars).toBeCloseTo(3 * oneYear.evpiDollars, 6);
+      // K and the dollar threshold stay annual
+      expect(threeYears.K).toBe(oneYear.K);
+    });
+
+    it('discounts later years', () => {
+      const horizon = { horizonDays: 1095, annualDiscountRate: 0.1 };
+      const discounted = calculateEVPI({ ...inputs, horizon });
+      const oneYear = calculateEVPI(inputs);
+
+      expect(discounted.evpiDollars).toBeLessThan(3 * oneYear.evpiDollars);
+      expect(discounted.evpiDollars).toBeGreaterThan(2 * oneYear.evpiDollars);
+    });
+
+    it('scales the truncated integration too', () => {
+      const wide = { ...inputs, prior: { mu_L: -0.5, sigma_L: 0.4 } };
+      const sixWeeks = calculateEVPI({
+        ...wide,
+        horizon: { horizonDays: 42, annualDiscountRate: 0 },
+      });
+
+      expect(sixWeeks.edgeCases.truncationApplied).toBe(true);
+      expect(sixWeeks.evpiDollars).toBeCloseTo((calculateEVPI(wide).evpiDollars * 42) / 365, 6);
+    });
+  });
 });
+
+describe('calculateEVPIForPrior', () => {
+  const business = { baselineConversionRate: 0.05, annualVisitors: 1000000, valuePerConversion: 100 };
+  const K = deriveK(business.annualVisitors, business.baselineConversionRate, business.valuePerConversion);
+
+  it('matches the closed form for a Normal prior', () => {
+    const closedForm = calculateEVPI({ ...business, prior: { mu_L: 0.01, sigma_L: 0.05 }, threshold_L: 0 });
+    const numerical = calculateEVPIForPrior({
+      K,
+      baselineConversionRate: business.baselineConversionRate,
+      threshold_L: 0,
+      prior: { type: 'normal', mu_L: 0.01, sigma_L: 0.05 },
+    })!;
+
+    expect(numerical.evpiDollars).toBeCloseTo(closedForm.evpiDollars, 0);
+    expect(numerical.defaultDecision).toBe(closedForm.defaultDecision);
+    expect(numerical.probabilityClearsThreshold).toBeCloseTo(
+      closedForm.probabilityClearsThreshold,
+      6
+    );
+    expect(numerical.zScore).toBeNaN();
+  });
+
+  it('values the regret of a skewed prior and scales with the horizon', () => {
+    const inputs = {
+      K,
+      baselineConversionRate: business.baselineConversionRate,
+      threshold_L: 0,
+      prior: { type: 'skew-normal', mu_L: -0.02, sigma_L: 0.05, alpha: 4 } as const,
+    };
+    const result = calculateEVPIForPrior(inputs)!;
+
+    // Mean about +1.9%: ship by default; the regret is the tail below 0
+    expect(result.defaultDecision).toBe('ship');
+    expect(result.evpiDollars).toBeGreaterThan(0);
+    expect(result.chanceOfBeingWrong).toBeCloseTo(1 - result.probabilityClearsThreshold, 12);
+
+    const twoYears = calculateEVPIForPrior({
+      ...inputs,
+      horizon: { horizonDays: 730, annualDiscountRate: 0 },
+    })!;
+    expect(twoYears.evpiDollars).toBeCloseTo(2 * result.evpiDollars, 6);
+  });
+});
+
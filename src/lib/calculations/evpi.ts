@@ -14,17 +14,25 @@
  * When the prior has significant mass below L=-1 (feasibility bound),
  * we use Method B numerical integration over the truncated distribution
  * to ensure consistency with EVSI Monte Carlo rejection sampling.
+ *
+ * Priors other than Normal (Advanced mode) have no closed form; see
+ * calculateEVPIForPrior, which integrates the loss by quadrature.
+ *
+ * The loss is annual (K is per year); EVPI scales it to the decision
+ * horizon, discounted (see horizon.ts).
  */
 
 import { standardNormalPDF, standardNormalCDF } from './statistics';
 import { deriveK, determineDefaultDecision, detectEdgeCases } from './derived';
+import { horizonYears } from './horizon';
+import { feasiblePrior } from './preposterior';
 import {
   truncatedNormalMean,
   truncatedNormalVariance,
   truncatedNormalCDF,
   truncatedNormalPDF,
 } from './truncated-normal';
-import type { EVPIInputs, EVPIResults } from './types';
+import type { EVPIInputs, EVPIResults, PriorEVPIInputs } from './types';
 
 /**
  * Calculate EVPI using Method B (numerical integration) for truncated prior
@@ -55,12 +63,15 @@ function calculateEVPITruncated(
     valuePerConversion,
     prior,
     threshold_L,
+    horizon,
   } = inputs;
 
   const { mu_L, sigma_L } = prior;
 
   // K = annual dollars per unit lift (same as closed-form)
   const K = deriveK(annualVisitors, baselineConversionRate, valuePerConversion);
+  // Loss lasts for the (discounted) years of the horizon
+  const years = horizonYears(horizon);
 
   // Lower bound for truncation (feasibility constraint: L >= -1)
   const lower = -1;
@@ -126,7 +137,7 @@ function calculateEVPITruncated(
       loss = K * Math.max(0, midpoint - threshold_L);
     }
 
-    evpiDollars += loss * probMass;
+    evpiDollars += loss * years * probMass;
   }
 
   // Clamp to non-negative (floating point safety)
@@ -208,6 +219,9 @@ function calculateEVPITruncated(
  *   Phi(z) = standard normal CDF
  *   K = N_year * CR0 * V (annual dollars per unit lift)
  *
+ * The result is then scaled by the discounted years of the decision
+ * horizon (one year by default).
+ *
  * @param inputs - Business inputs, prior parameters, and threshold
  * @returns EVPI results with all supporting metrics
  */
@@ -218,6 +232,7 @@ export function calculateEVPI(inputs: EVPIInputs): EVPIResults {
     valuePerConversion,
     prior,
     threshold_L,
+    horizon,
   } = inputs;
 
   const { mu_L, sigma_L } = prior;
@@ -330,7 +345,8 @@ export function calculateEVPI(inputs: EVPIInputs): EVPIResults {
 
   // EVPI is mathematically non-negative, but floating point errors
   // could produce tiny negative values. Clamp to zero defensively.
-  evpiDollars = Math.max(0, evpiDollars);
+  // The loss above is per year: scale to the decision horizon.
+  evpiDollars = Math.max(0, evpiDollars * horizonYears(horizon));
 
   // ===========================================
   // Step 6: Calculate probability of clearing threshold
@@ -377,3 +393,64 @@ export function calculateEVPI(inputs: EVPIInputs): EVPIResults {
     edgeCases,
   };
 }
+
+/**
+ * Calculate EVPI for any prior shape by numerical integration
+ *
+ * The Advanced-mode counterpart of calculateEVPI for priors without a
+ * closed form (Student-t, Uniform, mixture, log-normal, skew-normal):
+ *   EVPI = K * E[ max(0, T_L - L) ]   (default Ship)
+ *   EVPI = K * E[ max(0, L - T_L) ]   (default Don't ship)
+ * with the expectation over the prior truncated to the feasible lift range
+ * (see feasiblePrior), the same prior the EVSI engine integrates over.
+ *
+ * Standard normal diagnostics (zScore, phiZ, PhiZ) do not apply and are NaN.
+ *
+ * @param inputs - K, baseline, threshold, prior, metric and horizon
+ * @returns EVPI results, or null if the prior has no mass in the feasible range
+ */
+export function calculateEVPIForPrior(inputs: PriorEVPIInputs): EVPIResults | null {
+  const { K, baselineConversionRate, threshold_L, prior, metric, horizon } = inputs;
+
+  const feasible = feasiblePrior(prior, baselineConversionRate, metric);
+  if (!feasible) {
+    return null;
+  }
+
+  // Default decision from the (truncated) prior mean, per TRUNC-02
+  const mean = feasible.expect((L) => L);
+  const defaultDecision = determineDefaultDecision(mean, threshold_L);
+
+  // Regret of the default decision; kinked at the threshold
+  const annualLoss = feasible.expect(
+    (L) => Math.max(0, defaultDecision === 'ship' ? threshold_L - L : L - threshold_L),
+    [threshold_L]
+  );
+  const evpiDollars = Math.max(0, K * annualLoss * horizonYears(horizon));
+
+  const probabilityClearsThreshold = feasible.probabilityAtLeast(threshold_L);
+  const chanceOfBeingWrong =
+    defaultDecision === 'ship' ? 1 - probabilityClearsThreshold : probabilityClearsThreshold;
+
+  const sigma = Math.sqrt(Math.max(0, feasible.expect((L) => (L - mean) * (L - mean))));
+
+  return {
+    evpiDollars,
+    defaultDecision,
+    probabilityClearsThreshold,
+    chanceOfBeingWrong,
+    K,
+    threshold_L,
+    threshold_dollars: K * threshold_L,
+    zScore: Number.NaN,
+    phiZ: Number.NaN,
+    PhiZ: Number.NaN,
+    edgeCases: {
+      // Same 0.1% rule as the Normal path (TRUNC-01)
+      truncationApplied: feasible.mass < 0.999,
+      nearZeroSigma: sigma < 0.001,
+      priorOneSided:
+        probabilityClearsThreshold > 0.9999 || probabilityClearsThreshold < 0.0001,
+    },
+  };
+}
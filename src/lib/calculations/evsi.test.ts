@@ -10,13 +10,17 @@
 
 import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
 import {
+  calculateEVSI,
   calculateEVSIMonteCarlo,
   calculateEVSINormalFastPath,
+  calculateEVSIQuadrature,
   computePosteriorMean,
+  computePosteriorProbabilityAbove,
   truncatedNormalMeanTwoSided,
   computeEffectivePriorMetrics,
 } from './evsi';
 import { calculateEVPI } from './evpi';
+import { createSeededRandom } from './random';
 import type { PriorDistribution } from './distributions';
 
 /**
@@ -655,7 +659,50 @@ describe('computePosteriorMean', () => {
   });
 
   // ===========================================
-  // 4. Edge cases
+  // 4. Mixture prior - conjugate per component
+  // ===========================================
+
+  describe('Mixture prior (spike-and-slab)', () => {
+    // Half the mass at exactly zero, half N(0, 5%)
+    const prior: PriorDistribution = {
+      type: 'mixture',
+      components: [
+        { weight: 0.5, mu_L: 0, sigma_L: 0 },
+        { weight: 0.5, mu_L: 0, sigma_L: 0.05 },
+      ],
+    };
+
+    it('reweights the components by how well they predict the readout', () => {
+      const L_hat = 0.04;
+      const SE = 0.025;
+      // Marginal of the readout: N(0, SE^2) under the spike, N(0, 0.05^2 + SE^2) under the slab
+      const spikeLikelihood = Math.exp(-0.5 * (L_hat / SE) ** 2) / SE;
+      const slabSd = Math.sqrt(0.05 ** 2 + SE ** 2);
+      const slabLikelihood = Math.exp(-0.5 * (L_hat / slabSd) ** 2) / slabSd;
+      const slabWeight = slabLikelihood / (spikeLikelihood + slabLikelihood);
+      // The slab shrinks by w = 0.8; the spike stays at 0
+      const expected = slabWeight * 0.8 * L_hat;
+
+      expect(computePosteriorMean(L_hat, SE, prior)).toBeCloseTo(expected, 12);
+    });
+
+    it('shrinks harder than the slab alone, and less as the readout grows', () => {
+      const slab: PriorDistribution = { type: 'normal', mu_L: 0, sigma_L: 0.05 };
+      const SE = 0.02;
+
+      expect(computePosteriorMean(0.03, SE, prior)).toBeLessThan(
+        computePosteriorMean(0.03, SE, slab)
+      );
+      // A readout far from zero rules the spike out
+      expect(computePosteriorMean(0.2, SE, prior)).toBeCloseTo(
+        computePosteriorMean(0.2, SE, slab),
+        6
+      );
+    });
+  });
+
+  // ===========================================
+  // 5. Edge cases
   // ===========================================
 
   describe('edge cases', () => {
@@ -892,6 +939,163 @@ describe('EVSI-03: non-Normal prior grid integration', () => {
   });
 });
 
+describe('calculateEVSIQuadrature', () => {
+  const baseInputs = {
+    K: 100000,
+    baselineConversionRate: 0.05,
+    threshold_L: 0.01,
+    n_control: 5000,
+    n_variant: 5000,
+  };
+
+  const cases: Array<[string, PriorDistribution, number]> = [
+    ['Student-t df=3', { type: 'student-t', mu_L: 0, sigma_L: 0.05, df: 3 }, 20000],
+    [
+      'Student-t df=10, default ship',
+      { type: 'student-t', mu_L: 0.03, sigma_L: 0.02, df: 10 },
+      20000,
+    ],
+    ['Uniform', { type: 'uniform', low_L: -0.1, high_L: 0.1 }, 50000],
+    ['Uniform, default ship', { type: 'uniform', low_L: -0.02, high_L: 0.08 }, 50000],
+    [
+      'Spike-and-slab',
+      {
+        type: 'mixture',
+        components: [
+          { weight: 0.6, mu_L: 0, sigma_L: 0 },
+          { weight: 0.4, mu_L: 0.02, sigma_L: 0.04 },
+        ],
+      },
+      50000,
+    ],
+    ['Log-normal', { type: 'log-normal', logMu: 0, logSigma: 0.04 }, 20000],
+    ['Skew-normal', { type: 'skew-normal', mu_L: -0.02, sigma_L: 0.05, alpha: 4 }, 20000],
+  ];
+
+  it.each(cases)('matches Monte Carlo within its error: %s', (_, prior, numSamples) => {
+    const inputs = { ...baseInputs, prior };
+    const exact = calculateEVSIQuadrature(inputs);
+    const simulated = calculateEVSIMonteCarlo(inputs, numSamples, createSeededRandom(42));
+
+    const se = simulated.evsiError!.standardError;
+    expect(Math.abs(exact.evsiDollars - simulated.evsiDollars)).toBeLessThan(4 * se + 1);
+    expect(exact.defaultDecision).toBe(simulated.defaultDecision);
+    expect(exact.probabilityTestChangesDecision).toBeCloseTo(
+      simulated.probabilityTestChangesDecision,
+      1
+    );
+    expect(exact.probabilityClearsThreshold).toBeCloseTo(simulated.probabilityClearsThreshold, 1);
+  });
+
+  it('is deterministic and has no Monte Carlo error', () => {
+    const inputs = { ...baseInputs, prior: cases[0][1] };
+    const result = calculateEVSIQuadrature(inputs);
+
+    expect(calculateEVSIQuadrature(inputs)).toEqual(result);
+    expect(result.evsiError).toBeUndefined();
+    expect(result.numSamples).toBeUndefined();
+  });
+
+  it('grows with sample size and stays below EVPI', () => {
+    const prior: PriorDistribution = { type: 'uniform', low_L: -0.1, high_L: 0.1 };
+    const small = calculateEVSIQuadrature({
+      ...baseInputs,
+      prior,
+      n_control: 500,
+      n_variant: 500,
+    });
+    const large = calculateEVSIQuadrature({ ...baseInputs, prior });
+    // EVPI = K * E[max(L - T, 0)] (default is don't ship) = K * 0.09^2 / (2 * 0.2)
+    const evpiDollars = baseInputs.K * 0.02025;
+
+    expect(small.evsiDollars).toBeGreaterThan(0);
+    expect(large.evsiDollars).toBeGreaterThan(small.evsiDollars);
+    expect(large.evsiDollars).toBeLessThanOrEqual(evpiDollars);
+  });
+
+  it('gives zero EVSI with no samples', () => {
+    const result = calculateEVSIQuadrature({
+      ...baseInputs,
+      prior: cases[0][1],
+      n_control: 0,
+      n_variant: 0,
+    });
+
+    expect(result.evsiDollars).toBe(0);
+  });
+
+  it('warns when much of the prior is infeasible', () => {
+    const result = calculateEVSIQuadrature({
+      ...baseInputs,
+      prior: { type: 'uniform', low_L: -2, high_L: 0.1 },
+    });
+
+    expect(result.warnings?.some((w) => w.code === 'high_rejection')).toBe(true);
+  });
+
+  it('rejects Normal priors (they have a closed form)', () => {
+    expect(() =>
+      calculateEVSIQuadrature({ ...baseInputs, prior: { type: 'normal', mu_L: 0, sigma_L: 0.05 } })
+    ).toThrow(/got a normal prior/);
+  });
+});
+
+describe('calculateEVSI', () => {
+  const baseInputs = {
+    K: 100000,
+    baselineConversionRate: 0.05,
+    threshold_L: 0,
+    n_control: 5000,
+    n_variant: 5000,
+  };
+
+  it('uses the closed form for Normal priors and quadrature otherwise', () => {
+    const normal = { ...baseInputs, prior: { type: 'normal', mu_L: 0, sigma_L: 0.05 } as const };
+    const uniform = {
+      ...baseInputs,
+      prior: { type: 'uniform', low_L: -0.1, high_L: 0.1 } as const,
+    };
+
+    expect(calculateEVSI(normal)).toEqual(calculateEVSINormalFastPath(normal));
+    expect(calculateEVSI(uniform)).toEqual(calculateEVSIQuadrature(uniform));
+  });
+});
+
+describe('EVSI decision horizon', () => {
+  const baseInputs = {
+    K: 100000,
+    baselineConversionRate: 0.05,
+    threshold_L: 0,
+    n_control: 5000,
+    n_variant: 5000,
+  };
+  const horizon = { horizonDays: 1095, annualDiscountRate: 0.1 };
+  // Discounted years of a three-year horizon at 10%
+  const years = (1 - 1 / 1.1 ** 3) / Math.log(1.1);
+
+  it.each([
+    ['Normal', { type: 'normal', mu_L: 0, sigma_L: 0.05 }],
+    ['Uniform', { type: 'uniform', low_L: -0.1, high_L: 0.1 }],
+  ] as const)('scales EVSI with the discounted horizon: %s', (_, prior) => {
+    const oneYear = calculateEVSI({ ...baseInputs, prior });
+    const withHorizon = calculateEVSI({ ...baseInputs, prior, horizon });
+
+    expect(withHorizon.evsiDollars).toBeCloseTo(oneYear.evsiDollars * years, 4);
+  });
+
+  it('scales the simulation on the same draws', () => {
+    const prior = { type: 'student-t', mu_L: 0, sigma_L: 0.05, df: 5 } as const;
+    const oneYear = calculateEVSIMonteCarlo({ ...baseInputs, prior }, 500, createSeededRandom(3));
+    const withHorizon = calculateEVSIMonteCarlo(
+      { ...baseInputs, prior, horizon },
+      500,
+      createSeededRandom(3)
+    );
+
+    expect(withHorizon.evsiDollars).toBeCloseTo(oneYear.evsiDollars * years, 4);
+  });
+});
+
 describe('calculateEVSINormalFastPath', () => {
   // ===========================================
   // 1. Basic functionality
@@ -1850,3 +2054,250 @@ describe('computeEffectivePriorMetrics', () => {
     });
   });
 });
+
+// ===========================================
+// Seeded runs
+// ===========================================
+
+describe('seeded Monte Carlo', () => {
+  const inputs = {
+    K: 1000000,
+    baselineConversionRate: 0.05,
+    threshold_L: 0,
+    prior: { type: 'student-t', mu_L: 0, sigma_L: 0.05, df: 5 } as PriorDistribution,
+    n_control: 10000,
+    n_variant: 10000,
+  };
+
+  it('calculateEVSIMonteCarlo gives identical results for the same seed', () => {
+    const a = calculateEVSIMonteCarlo(inputs, 2000, createSeededRandom(7));
+    const b = calculateEVSIMonteCarlo(inputs, 2000, createSeededRandom(7));
+
+    expect(a).toEqual(b);
+  });
+
+  it('calculateEVSIMonteCarlo differs across seeds', () => {
+    const a = calculateEVSIMonteCarlo(inputs, 2000, createSeededRandom(7));
+    const b = calculateEVSIMonteCarlo(inputs, 2000, createSeededRandom(8));
+
+    expect(a.evsiDollars).not.toBe(b.evsiDollars);
+  });
+
+  it('reports a Monte Carlo interval that covers the closed-form value', () => {
+    const normalInputs = {
+      ...inputs,
+      prior: { type: 'normal', mu_L: 0, sigma_L: 0.05 } as PriorDistribution,
+    };
+    const exact = calculateEVSINormalFastPath(normalInputs).evsiDollars;
+
+    let covered = 0;
+    for (let seed = 1; seed <= 20; seed++) {
+      const { evsiError } = calculateEVSIMonteCarlo(normalInputs, 2000, createSeededRandom(seed));
+      if (evsiError!.ci95Low <= exact && exact <= evsiError!.ci95High) covered++;
+    }
+
+    // 95% nominal coverage; allow a couple of misses in 20
+    expect(covered).toBeGreaterThanOrEqual(17);
+  });
+
+  it('shrinks the standard error like 1/sqrt(n)', () => {
+    const small = calculateEVSIMonteCarlo(inputs, 1000, createSeededRandom(5));
+    const large = calculateEVSIMonteCarlo(inputs, 9000, createSeededRandom(5));
+
+    // sqrt(9000 / 1000) = 3
+    const ratio = small.evsiError!.standardError / large.evsiError!.standardError;
+    expect(ratio).toBeGreaterThan(2.2);
+    expect(ratio).toBeLessThan(3.8);
+  });
+
+  it('computeEffectivePriorMetrics gives identical results for the same seed', () => {
+    const a = computeEffectivePriorMetrics(inputs.prior, 0, 0.5, 2000, createSeededRandom(3));
+    const b = computeEffectivePriorMetrics(inputs.prior, 0, 0.5, 2000, createSeededRandom(3));
+
+    expect(a).toEqual(b);
+  });
+});
+
+describe('EVSI variance reduction', () => {
+  const inputs = {
+    K: 1000000,
+    baselineConversionRate: 0.05,
+    threshold_L: 0.01,
+    prior: { type: 'uniform', low_L: -0.05, high_L: 0.08 } as PriorDistribution,
+    n_control: 10000,
+    n_variant: 10000,
+  };
+
+  it('is unchanged with every option off', () => {
+    const a = calculateEVSIMonteCarlo(inputs, 1000, createSeededRandom(7));
+    const b = calculateEVSIMonteCarlo(inputs, 1000, createSeededRandom(7), {
+      sequence: 'pseudo-random',
+      antithetic: false,
+      controlVariate: false,
+    });
+
+    expect(b).toEqual(a);
+  });
+
+  it('matches quadrature within its error with every option on', () => {
+    const exact = calculateEVSIQuadrature(inputs);
+    const reduced = calculateEVSIMonteCarlo(inputs, 2000, createSeededRandom(7), {
+      sequence: 'sobol',
+      antithetic: true,
+      controlVariate: true,
+    });
+
+    const se = reduced.evsiError!.standardError;
+    expect(Math.abs(reduced.evsiDollars - exact.evsiDollars)).toBeLessThan(4 * se + 1);
+    expect(reduced.probabilityClearsThreshold).toBeCloseTo(exact.probabilityClearsThreshold, 2);
+  });
+
+  it('is exact for a Normal prior with the control variate', () => {
+    const normalInputs = {
+      ...inputs,
+      prior: { type: 'normal', mu_L: 0.01, sigma_L: 0.02 } as PriorDistribution,
+    };
+    const exact = calculateEVSINormalFastPath(normalInputs).evsiDollars;
+    const controlled = calculateEVSIMonteCarlo(normalInputs, 500, createSeededRandom(7), {
+      controlVariate: true,
+    });
+
+    expect(controlled.evsiDollars).toBeCloseTo(exact, 2);
+    expect(controlled.evsiError!.standardError).toBeCloseTo(0, 2);
+  });
+
+  it('computeEffectivePriorMetrics accepts quasi-random points', () => {
+    const rng = createSeededRandom(3);
+    const sobol = computeEffectivePriorMetrics(inputs.prior, 0.01, 0.05, 2000, rng, {
+      sequence: 'sobol',
+    });
+
+    // P(L >= 0.01) under U(-0.05, 0.08) is 7/13
+    expect(sobol.effectiveProbClears).toBeCloseTo(7 / 13, 3);
+    expect(sobol.effectivePriorMean).toBeCloseTo(0.015, 4);
+  });
+});
+
+describe('EVSI for continuous and ratio metrics', () => {
+  const base = {
+    K: 1000000,
+    baselineConversionRate: 0.05,
+    threshold_L: 0.01,
+    prior: { type: 'normal', mu_L: 0, sigma_L: 0.05 } as PriorDistribution,
+    n_control: 10000,
+    n_variant: 10000,
+  };
+  const revenuePerVisitor = { type: 'continuous', mean: 2, standardDeviation: 10 } as const;
+
+  it('matches a conversion metric with the same relative variance', () => {
+    // CV^2 = 19 = (1 - 0.05) / 0.05
+    const continuous = {
+      ...base,
+      baselineConversionRate: 0.5,
+      metric: { type: 'continuous', mean: 1, standardDeviation: Math.sqrt(19) } as const,
+    };
+
+    expect(calculateEVSINormalFastPath(continuous).evsiDollars).toBeCloseTo(
+      calculateEVSINormalFastPath(base).evsiDollars,
+      6
+    );
+  });
+
+  it('is lower for a noisier metric', () => {
+    const noisy = { ...base, metric: revenuePerVisitor };
+    const quiet = { ...base, metric: { ...revenuePerVisitor, standardDeviation: 2 } };
+
+    expect(calculateEVSI(noisy).evsiDollars).toBeLessThan(calculateEVSI(quiet).evsiDollars);
+  });
+
+  it('matches Monte Carlo by quadrature with no upper lift bound', () => {
+    const inputs = {
+      ...base,
+      prior: { type: 'student-t', mu_L: 0, sigma_L: 0.05, df: 3 } as PriorDistribution,
+      metric: {
+        type: 'ratio',
+        numeratorMean: 3,
+        numeratorStandardDeviation: 15,
+        denominatorMean: 0.05,
+        denominatorStandardDeviation: 0.25,
+        correlation: 0.9,
+      } as const,
+    };
+    const exact = calculateEVSIQuadrature(inputs);
+    const simulated = calculateEVSIMonteCarlo(inputs, 10000, createSeededRandom(11));
+
+    const se = simulated.evsiError!.standardError;
+    expect(exact.evsiDollars).toBeGreaterThan(0);
+    expect(Math.abs(exact.evsiDollars - simulated.evsiDollars)).toBeLessThan(4 * se + 1);
+  });
+
+  it('warns when the metric is too skewed for the sample', () => {
+    const result = calculateEVSI({
+      ...base,
+      n_control: 400,
+      n_variant: 400,
+      metric: revenuePerVisitor,
+    });
+
+    expect(result.warnings?.map((w) => w.code)).toEqual(['heavy_tailed_metric']);
+  });
+
+  it('returns zero EVSI for an invalid metric', () => {
+    const result = calculateEVSI({ ...base, metric: { ...revenuePerVisitor, mean: 0 } });
+
+    expect(result.evsiDollars).toBe(0);
+    expect(result.probabilityTestChangesDecision).toBe(0);
+  });
+});
+
+describe('computePosteriorProbabilityAbove', () => {
+  it('uses the conjugate posterior for a Normal prior', () => {
+    const prior: PriorDistribution = { type: 'normal', mu_L: 0, sigma_L: 0.05 };
+    // w = 0.8; posterior mean 0.8 * 0.04 = 0.032, sd sqrt(0.8) * 0.025
+    const probability = computePosteriorProbabilityAbove(0.04, 0.025, prior, 0.01);
+
+    expect(probability).toBeCloseTo(0.8374, 3);
+  });
+
+  it('is the prior probability when the readout is uninformative', () => {
+    const prior: PriorDistribution = { type: 'normal', mu_L: 0.01, sigma_L: 0.05 };
+
+    expect(computePosteriorProbabilityAbove(0.5, Infinity, prior, 0.01)).toBeCloseTo(0.5, 6);
+  });
+
+  it('truncates the likelihood to a Uniform prior', () => {
+    const prior: PriorDistribution = { type: 'uniform', low_L: -0.1, high_L: 0.1 };
+
+    expect(computePosteriorProbabilityAbove(0, 0.01, prior, 0)).toBeCloseTo(0.5, 6);
+    expect(computePosteriorProbabilityAbove(0.05, 0.01, prior, 0.2)).toBe(0);
+    expect(computePosteriorProbabilityAbove(0.05, 0.01, prior, -0.2)).toBe(1);
+  });
+
+  it('mixes the component posteriors of a spike-and-slab', () => {
+    const prior: PriorDistribution = {
+      type: 'mixture',
+      components: [
+        { weight: 0.5, mu_L: 0, sigma_L: 0 },
+        { weight: 0.5, mu_L: 0, sigma_L: 0.05 },
+      ],
+    };
+    const slab: PriorDistribution = { type: 'normal', mu_L: 0, sigma_L: 0.05 };
+
+    // The spike is below the threshold, so it only pulls the probability down
+    const probability = computePosteriorProbabilityAbove(0.04, 0.025, prior, 0.01);
+    expect(probability).toBeGreaterThan(0);
+    expect(probability).toBeLessThan(computePosteriorProbabilityAbove(0.04, 0.025, slab, 0.01));
+    // A readout far from zero leaves only the slab
+    expect(computePosteriorProbabilityAbove(0.2, 0.02, prior, 0.01)).toBeCloseTo(1, 6);
+  });
+
+  it('integrates a Student-t prior on the grid', () => {
+    const studentT: PriorDistribution = { type: 'student-t', mu_L: 0, sigma_L: 0.05, df: 1000 };
+    const normal: PriorDistribution = { type: 'normal', mu_L: 0, sigma_L: 0.05 };
+
+    // Near-Normal tails: close to the conjugate answer
+    expect(
+      computePosteriorProbabilityAbove(0.02, 0.02, studentT, 0.01, 0.05)
+    ).toBeCloseTo(computePosteriorProbabilityAbove(0.02, 0.02, normal, 0.01, 0.05), 2);
+  });
+});
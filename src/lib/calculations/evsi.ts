@@ -5,30 +5,68 @@
  * EVSI quantifies how much the test result is expected to improve decisions.
  *
  * Per SPEC.md Sections A4-A5:
- * - Monte Carlo: works for all prior shapes (Normal, Student-t, Uniform)
+ * - Monte Carlo: works for every prior shape
  * - Normal fast path: O(1) closed-form for Normal priors using conjugate update
+ * - Quadrature: deterministic integration for every non-Normal prior
+ *   (see preposterior.ts); Monte Carlo remains as its cross-check
  *
  * EVSI-01 Correctness (Phase 8):
  * - Monte Carlo uses posterior mean E[L|L_hat] for decisions, not raw L_hat
  * - This Bayesian decision rule correctly accounts for shrinkage toward prior
  * - Ensures Monte Carlo and Normal fast-path produce consistent results
  *
+ * Variance reduction (optional, see variance-reduction.ts): quasi-random
+ * points, antithetic pairs and a control variate built on the Normal fast
+ * path; the default is plain Monte Carlo.
+ *
  * Mathematical notes (for statistician audit):
  * - EVSI = E_data[ max_a E[Value(a) | data] ] - max_a E[Value(a)]
  *        = (pre-posterior expected value) - (prior expected value)
  * - For binary decisions (ship/don't ship), this simplifies to comparing
  *   expected regret with and without the test information
  * - The test is modeled as providing a noisy observation of true lift:
- *   L_hat | L ~ N(L, SE^2) where SE depends on sample sizes and CR0
+ *   L_hat | L ~ N(L, SE^2) where SE depends on sample sizes and the metric's
+ *   relative variance ((1 - CR0) / CR0 for conversion; see metricRelativeVariance)
  * - Posterior decision uses E[L|L_hat] >= T (Bayes-optimal rule)
+ * - Dollar values are K times the discounted years of the decision horizon
+ *   (see horizon.ts), as if the decision applied from day 0
  */
 
 import { sample, cdf, getPriorMean, pdf } from './distributions';
-import type { PriorDistribution } from './distributions';
+import type { MixtureComponent, PriorDistribution } from './distributions';
 import { standardNormalPDF, standardNormalCDF } from './statistics';
-import { normalPdf, seOfRelativeLift, sampleStandardNormal, liftFeasibilityBounds } from './abtest-math';
+import {
+  normalPdf,
+  seOfRelativeLift,
+  sampleStandardNormal,
+  liftFeasibilityBounds,
+  isValidMetric,
+  metricRelativeVariance,
+  readoutApproximationWarnings,
+} from './abtest-math';
 import { determineDefaultDecision } from './derived';
-import type { EVSIInputs, EVSIResults, CalculationWarning } from './types';
+import { horizonYears } from './horizon';
+import { defaultRandom, type RandomSource } from './random';
+import { feasiblePrior, infeasibleMassWarning, readoutMoments } from './preposterior';
+import {
+  createDrawStream,
+  createMeanEstimator,
+  isPlainSampling,
+  type SamplingOptions,
+} from './variance-reduction';
+import {
+  addSample,
+  createRunningMoments,
+  monteCarloError,
+  monteCarloErrorWarning,
+  standardErrorOfMean,
+} from './monte-carlo-error';
+import type {
+  EVSIInputs,
+  EVSIResults,
+  MetricModel,
+  MonteCarloSimulation,
+} from './types';
 
 /**
  * Compute effective prior metrics under feasibility truncation.
@@ -45,35 +83,56 @@ import type { EVSIInputs, EVSIResults, CalculationWarning } from './types';
  * @param threshold_L - Decision threshold in lift units
  * @param CR0 - Baseline conversion rate (determines L_max)
  * @param numSamples - Number of Monte Carlo samples (default 2000)
+ * @param rng - Uniform random source (default Math.random)
+ * @param sampling - Quasi-random points and antithetic pairs (a control
+ *   variate does not apply here and is ignored)
+ * @param metric - Metric the test reads out (default binary; sets the bounds)
  * @returns Effective prior metrics under feasibility truncation
  */
 export function computeEffectivePriorMetrics(
   prior: PriorDistribution,
   threshold_L: number,
   CR0: number,
-  numSamples: number = 2000
+  numSamples: number = 2000,
+  rng: RandomSource = defaultRandom,
+  sampling: SamplingOptions = {},
+  metric?: MetricModel
 ): { effectivePriorMean: number; effectiveProbClears: number } {
   // Feasibility bounds for lift (via shared helper)
   // CR1 = CR0 * (1 + L) must be in [0, 1]
   // L_min = -1 (CR1 = 0), L_max = (1/CR0) - 1 (CR1 = 1)
-  const { L_min, L_max } = liftFeasibilityBounds(CR0);
+  const { L_min, L_max } = liftFeasibilityBounds(CR0, metric);
 
   let sumL = 0;
   let countExceedsThreshold = 0;
   let accepted = 0;
-  const maxIterations = numSamples * 10;
-  let iterations = 0;
 
-  while (accepted < numSamples && iterations < maxIterations) {
-    iterations++;
-    const L = sample(prior);
+  const pointSampling = { ...sampling, controlVariate: false };
+  if (isPlainSampling(pointSampling)) {
+    const maxIterations = numSamples * 10;
+    let iterations = 0;
+
+    while (accepted < numSamples && iterations < maxIterations) {
+      iterations++;
+      const L = sample(prior, rng);
 
-    // Apply same feasibility filter as main simulation
-    if (L < L_min || L > L_max) continue;
+      // Apply same feasibility filter as main simulation
+      if (L < L_min || L > L_max) continue;
 
-    accepted++;
-    sumL += L;
-    if (L >= threshold_L) countExceedsThreshold++;
+      accepted++;
+      sumL += L;
+      if (L >= threshold_L) countExceedsThreshold++;
+    }
+  } else {
+    // Draws come from the truncated prior directly: none are rejected
+    const stream = createDrawStream(prior, CR0, pointSampling, rng, metric);
+    while (stream && accepted < numSamples) {
+      for (const { lift } of stream.next()) {
+        accepted++;
+        sumL += lift;
+        if (lift >= threshold_L) countExceedsThreshold++;
+      }
+    }
   }
 
   // Fallback if all samples rejected (degenerate case)
@@ -148,6 +207,39 @@ export function truncatedNormalMeanTwoSided(
   return mu + sigma * (phiAlpha - phiBeta) / Z;
 }
 
+/**
+ * Prior log densities on a posterior grid, cached per prior object
+ *
+ * The grid depends only on the prior and the feasibility bounds, while
+ * simulations evaluate thousands of posteriors under one prior; the
+ * Student-t density (gamma functions) dominated the grid's cost.
+ */
+const priorGridCache = new WeakMap<PriorDistribution, Map<string, number[]>>();
+
+function priorLogDensityGrid(
+  prior: PriorDistribution,
+  L_min: number,
+  gridStep: number,
+  gridSize: number
+): number[] {
+  let grids = priorGridCache.get(prior);
+  if (!grids) {
+    grids = new Map();
+    priorGridCache.set(prior, grids);
+  }
+  const key = `${L_min}:${gridStep}:${gridSize}`;
+  let logPrior = grids.get(key);
+  if (!logPrior) {
+    logPrior = [];
+    for (let i = 0; i <= gridSize; i++) {
+      const priorPDF = pdf(L_min + i * gridStep, prior);
+      logPrior.push(priorPDF > 0 ? Math.log(priorPDF) : -Infinity);
+    }
+    grids.set(key, logPrior);
+  }
+  return logPrior;
+}
+
 /**
  * Compute posterior mean E[L|L_hat] via grid integration for non-conjugate priors.
  *
@@ -163,16 +255,22 @@ export function truncatedNormalMeanTwoSided(
  *
  * @param L_hat - Observed sample estimate from simulated test
  * @param SE - Standard error of the estimate
- * @param prior - Prior distribution (Student-t or Uniform)
+ * @param prior - Prior distribution (any non-Normal prior)
  * @param CR0 - Baseline conversion rate (for feasibility upper bound)
+ * @param metric - Metric the test reads out (continuous and ratio: no upper bound)
+ * @param g - Function of lift to average (default L itself: the posterior
+ *   mean), given as its average over the grid cell [L - h, L + h]; the share
+ *   of the cell above T gives a posterior probability
  * @param gridSize - Number of grid points (default 200)
- * @returns E[L|L_hat] - posterior mean of true lift given data
+ * @returns E[g(L)|L_hat] - posterior mean of g(true lift) given data
  */
 function computePosteriorMeanGrid(
   L_hat: number,
   SE: number,
   prior: PriorDistribution,
   CR0: number,
+  metric?: MetricModel,
+  g: (L: number, h: number) => number = (L) => L,
   gridSize: number = 200
 ): number {
   // ===========================================
@@ -184,7 +282,7 @@ function computePosteriorMeanGrid(
   let L_max: number;
 
   // Feasibility upper bound: CR1 = CR0 * (1 + L) <= 1, so L <= 1/CR0 - 1
-  const { L_max: feasibleMax } = liftFeasibilityBounds(CR0);
+  const { L_max: feasibleMax } = liftFeasibilityBounds(CR0, metric);
 
   if (prior.type === 'uniform') {
     // Uniform has explicit bounds - use them directly, clamped to feasibility
@@ -200,6 +298,14 @@ function computePosteriorMeanGrid(
     const sigma = prior.sigma_L!;
     L_min = Math.max(-1, mu - 6 * sigma);
     L_max = Math.min(mu + 6 * sigma, feasibleMax);
+  } else if (prior.type === 'skew-normal') {
+    // Tails are no heavier than a Normal's with the same location and scale
+    L_min = Math.max(-1, prior.mu_L! - 6 * prior.sigma_L!);
+    L_max = Math.min(prior.mu_L! + 6 * prior.sigma_L!, feasibleMax);
+  } else if (prior.type === 'log-normal') {
+    // 6 log-scale standard deviations around log(1 + L); never below -1
+    L_min = Math.exp(prior.logMu! - 6 * prior.logSigma!) - 1;
+    L_max = Math.min(Math.exp(prior.logMu! + 6 * prior.logSigma!) - 1, feasibleMax);
   } else {
     // Fallback for any other type (shouldn't reach here)
     L_min = -1;
@@ -213,7 +319,7 @@ function computePosteriorMeanGrid(
   // Return safe fallback: clamp prior mean to feasible range
   if (!(L_max > L_min)) {
     const priorMean = getPriorMean(prior);
-    return Math.max(-1, Math.min(feasibleMax, priorMean));
+    return g(Math.max(-1, Math.min(feasibleMax, priorMean)), 0);
   }
 
   const gridStep = (L_max - L_min) / gridSize;
@@ -227,14 +333,14 @@ function computePosteriorMeanGrid(
   const logWeights: number[] = [];
   const gridPoints: number[] = [];
   let maxLogWeight = -Infinity;
+  const logPrior = priorLogDensityGrid(prior, L_min, gridStep, gridSize);
 
   for (let i = 0; i <= gridSize; i++) {
     const L = L_min + i * gridStep;
     gridPoints.push(L);
 
-    // Prior PDF at this L value (from distributions.ts)
-    const priorPDF = pdf(L, prior);
-    if (priorPDF <= 0) {
+    // Prior log density at this L value (-Infinity outside the support)
+    if (logPrior[i] === -Infinity) {
       logWeights.push(-Infinity);
       continue;
     }
@@ -249,7 +355,7 @@ function computePosteriorMeanGrid(
 
     // Log of unnormalized posterior weight
     // log(priorPDF * likelihoodPDF) = log(priorPDF) + log(likelihoodPDF)
-    const logWeight = Math.log(priorPDF) + Math.log(likelihoodPDF);
+    const logWeight = logPrior[i] + Math.log(likelihoodPDF);
     logWeights.push(logWeight);
     maxLogWeight = Math.max(maxLogWeight, logWeight);
   }
@@ -268,7 +374,7 @@ function computePosteriorMeanGrid(
 
     // exp(logWeight - maxLogWeight) is numerically stable
     const weight = Math.exp(logWeights[i] - maxLogWeight);
-    weightedSum += gridPoints[i] * weight;
+    weightedSum += g(gridPoints[i], gridStep / 2) * weight;
     totalWeight += weight;
   }
 
@@ -279,12 +385,47 @@ function computePosteriorMeanGrid(
     // Edge case: no valid weights (shouldn't happen with log-space)
     // Fallback: clamp L_hat to valid range (data-dominant regime)
     // Changed from prior mean per audit recommendation
-    return Math.max(L_min, Math.min(feasibleMax, L_hat));
+    return g(Math.max(L_min, Math.min(feasibleMax, L_hat)), 0);
   }
 
   return weightedSum / totalWeight;
 }
 
+/**
+ * Posterior component weights of a Normal mixture prior given L_hat
+ *
+ * Each component's weight is rescaled by its marginal likelihood of the
+ * readout, L_hat ~ N(mu_k, sigma_k^2 + SE^2), then normalized. Computed in
+ * log space so a far-off readout does not underflow every weight.
+ */
+function mixturePosteriorWeights(
+  L_hat: number,
+  SE: number,
+  components: MixtureComponent[]
+): number[] {
+  const logWeights = components.map((component) => {
+    const variance = component.sigma_L * component.sigma_L + SE * SE;
+    if (variance === 0) {
+      return L_hat === component.mu_L ? 0 : -Infinity;
+    }
+    const residual = L_hat - component.mu_L;
+    return (
+      Math.log(component.weight) -
+      0.5 * Math.log(variance) -
+      (0.5 * residual * residual) / variance
+    );
+  });
+  const maxLog = Math.max(...logWeights);
+  const weights = logWeights.map((logWeight) => Math.exp(logWeight - maxLog));
+  const total = weights.reduce((sum, weight) => sum + weight, 0);
+  return weights.map((weight) => weight / total);
+}
+
+/** A mixture component as a standalone Normal prior */
+function mixtureComponentPrior(component: MixtureComponent): PriorDistribution {
+  return { type: 'normal', mu_L: component.mu_L, sigma_L: component.sigma_L };
+}
+
 /**
  * Compute E[L|L_hat] - the posterior mean given observed sample estimate.
  *
@@ -297,9 +438,13 @@ function computePosteriorMeanGrid(
  *   Posterior mean = w * L_hat + (1-w) * mu_prior
  *   where w = sigma_prior^2 / (sigma_prior^2 + SE^2) is the shrinkage weight
  *
- * - For non-Normal priors (Student-t, Uniform):
+ * - For other non-Normal priors (Student-t, Uniform, skewed):
  *   Posterior mean computed via grid-based numerical integration
  *
+ * - For a Normal mixture: the posterior is again a mixture, each component
+ *   shrunk as above and reweighted by how well it predicts L_hat; a spike
+ *   stays where it is. Posterior mean = sum_k w_k' * E_k[L|L_hat]
+ *
  * Interpretation of shrinkage weight w:
  * - When SE is small (precise test), w → 1, posterior mean → L_hat
  * - When SE is large (noisy test), w → 0, posterior mean → mu_prior
@@ -308,13 +453,15 @@ function computePosteriorMeanGrid(
  * @param SE - Standard error of the estimate
  * @param prior - Prior distribution
  * @param CR0 - Baseline conversion rate (optional, for grid feasibility bound)
+ * @param metric - Metric the test reads out (default binary; sets the bound)
  * @returns E[L|L_hat] - posterior mean of true lift given data
  */
 export function computePosteriorMean(
   L_hat: number,
   SE: number,
   prior: PriorDistribution,
-  CR0: number = 0.5
+  CR0: number = 0.5,
+  metric?: MetricModel
 ): number {
   // Guard: Return prior mean if inputs are non-finite (defensive)
   // This prevents NaN propagation if upstream guards are bypassed
@@ -348,6 +495,16 @@ export function computePosteriorMean(
     return w * L_hat + (1 - w) * mu_prior;
   }
 
+  if (prior.type === 'mixture') {
+    const components = prior.components!;
+    const weights = mixturePosteriorWeights(L_hat, SE, components);
+    return components.reduce(
+      (sum, component, k) =>
+        sum + weights[k] * computePosteriorMean(L_hat, SE, mixtureComponentPrior(component)),
+      0
+    );
+  }
+
   // ===========================================
   // Exact formula for Uniform prior (Controversial C.3)
   // ===========================================
@@ -356,7 +513,7 @@ export function computePosteriorMean(
   // Use exact truncated normal mean formula (faster and more accurate than grid).
   if (prior.type === 'uniform') {
     // Feasibility bounds intersected with prior bounds
-    const { L_max: feasibleMax } = liftFeasibilityBounds(CR0);
+    const { L_max: feasibleMax } = liftFeasibilityBounds(CR0, metric);
     const a = Math.max(-1, prior.low_L!);
     const b = Math.min(prior.high_L!, feasibleMax);
 
@@ -367,11 +524,114 @@ export function computePosteriorMean(
   // ===========================================
   // Grid integration for Student-t only
   // ===========================================
-  return computePosteriorMeanGrid(L_hat, SE, prior, CR0);
+  return computePosteriorMeanGrid(L_hat, SE, prior, CR0, metric);
 }
 
 /**
- * Calculate EVSI using Monte Carlo simulation
+ * Compute P(L >= T | L_hat) - the posterior probability the lift clears T.
+ *
+ * Used by Bayesian stopping rules at interim looks (see sequential.ts).
+ *
+ * Mathematical basis (same posteriors as computePosteriorMean):
+ * - Normal prior: posterior N(m, v) with m the shrunk mean and
+ *   v = sigma^2 * SE^2 / (sigma^2 + SE^2), so P = 1 - Phi((T - m) / sqrt(v))
+ * - Uniform prior: N(L_hat, SE^2) truncated to the feasible prior range
+ * - Mixture: the posterior component weights times each component's P
+ * - Student-t: grid integration of the indicator L >= T
+ *
+ * @param L_hat - Observed sample estimate
+ * @param SE - Standard error of the estimate
+ * @param prior - Prior distribution
+ * @param threshold_L - Decision threshold (T_L)
+ * @param CR0 - Baseline conversion rate (optional, for feasibility bounds)
+ * @param metric - Metric the test reads out (default binary; sets the bound)
+ * @returns Posterior probability that the true lift is at least threshold_L
+ */
+export function computePosteriorProbabilityAbove(
+  L_hat: number,
+  SE: number,
+  prior: PriorDistribution,
+  threshold_L: number,
+  CR0: number = 0.5,
+  metric?: MetricModel
+): number {
+  // No data: the prior probability
+  if (!Number.isFinite(L_hat) || !Number.isFinite(SE)) {
+    return 1 - cdf(threshold_L, prior);
+  }
+
+  if (prior.type === 'normal') {
+    const prior_variance = prior.sigma_L! * prior.sigma_L!;
+    if (prior_variance === 0) {
+      return prior.mu_L! >= threshold_L ? 1 : 0;
+    }
+    const m = computePosteriorMean(L_hat, SE, prior, CR0, metric);
+    const v = (prior_variance * SE * SE) / (prior_variance + SE * SE);
+    if (v === 0) {
+      return m >= threshold_L ? 1 : 0;
+    }
+    return 1 - standardNormalCDF((threshold_L - m) / Math.sqrt(v));
+  }
+
+  if (prior.type === 'mixture') {
+    const components = prior.components!;
+    const weights = mixturePosteriorWeights(L_hat, SE, components);
+    return components.reduce(
+      (sum, component, k) =>
+        sum +
+        weights[k] *
+          computePosteriorProbabilityAbove(
+            L_hat,
+            SE,
+            mixtureComponentPrior(component),
+            threshold_L
+          ),
+      0
+    );
+  }
+
+  if (prior.type === 'uniform') {
+    const { L_max: feasibleMax } = liftFeasibilityBounds(CR0, metric);
+    const a = Math.max(-1, prior.low_L!);
+    const b = Math.min(prior.high_L!, feasibleMax);
+    if (threshold_L <= a) return 1;
+    if (threshold_L > b) return 0;
+
+    const Phi = (x: number) => standardNormalCDF((x - L_hat) / SE);
+    const Z = Phi(b) - Phi(a);
+    // Likelihood negligible on [a, b]: the posterior sits at the nearest bound
+    if (Z < 1e-10) {
+      return Math.max(a, Math.min(b, L_hat)) >= threshold_L ? 1 : 0;
+    }
+    return (Phi(b) - Phi(threshold_L)) / Z;
+  }
+
+  // Share of each grid cell above T (a plain indicator is off by up to
+  // half a cell's posterior mass)
+  const shareAbove = (L: number, h: number) => {
+    if (h === 0) {
+      return L >= threshold_L ? 1 : 0;
+    }
+    return Math.max(0, Math.min(1, (L + h - threshold_L) / (2 * h)));
+  };
+  return computePosteriorMeanGrid(L_hat, SE, prior, CR0, metric, shareAbove);
+}
+
+/**
+ * EVSI simulation that always returns the same result (degenerate inputs)
+ */
+function fixedSimulation(result: EVSIResults): MonteCarloSimulation<EVSIResults> {
+  return {
+    run: () => {},
+    numSamples: () => 0,
+    estimate: () => result.evsiDollars,
+    standardError: () => 0,
+    results: () => result,
+  };
+}
+
+/**
+ * Create a resumable EVSI Monte Carlo simulation
  *
  * Algorithm (per SPEC.md A5.1):
  * 1. For each Monte Carlo iteration:
@@ -382,23 +642,34 @@ export function computePosteriorMean(
  *    e. Compute posteriorMean = E[L | L_hat] (Bayesian shrinkage estimate)
  *    f. Make posterior decision (ship if posteriorMean >= threshold)
  *    g. Calculate value with test
- * 2. EVSI = avg(value_with_test) - avg(value_without_test)
+ * 2. EVSI = avg(value_with_test) - avg(value_without_test), with its Monte
+ *    Carlo standard error from the per-draw differences
  *
  * Feasibility constraint:
  * - CR1 = CR0 * (1 + L) must be in [0, 1]
  * - This means L must be in [-1, (1/CR0) - 1]
  * - Samples violating this are rejected and resampled
  *
+ * Validation, SE and the effective prior metrics are computed once; each
+ * run() then draws another batch from the same random stream.
+ *
+ * With variance reduction (see variance-reduction.ts), draws come from the
+ * truncated prior by inverse CDF instead of rejection, and each control
+ * draw repeats steps c-g under the Normal control prior.
+ *
  * @param inputs - EVSI calculation parameters
- * @param numSamples - Number of Monte Carlo samples (default 5000)
- * @returns EVSI results with supporting metrics
+ * @param rng - Uniform random source for all draws (default Math.random)
+ * @param sampling - Variance reduction options (default: plain Monte Carlo)
+ * @returns Simulation handle (see calculateEVSIMonteCarlo for a fixed count)
  */
-export function calculateEVSIMonteCarlo(
+export function createEVSISimulation(
   inputs: EVSIInputs,
-  numSamples: number = 5000
-): EVSIResults {
-  const { K, baselineConversionRate, threshold_L, prior, n_control, n_variant } =
-    inputs;
+  rng: RandomSource = defaultRandom,
+  sampling: SamplingOptions = {}
+): MonteCarloSimulation<EVSIResults> {
+  const { baselineConversionRate, threshold_L, prior, n_control, n_variant, metric } = inputs;
+  // Dollars per unit lift over the decision horizon
+  const K = inputs.K * horizonYears(inputs.horizon);
 
   // ===========================================
   // Step 1: Input validation guards (Accuracy-01, Accuracy-02)
@@ -412,31 +683,32 @@ export function calculateEVSIMonteCarlo(
     const defaultDecision = determineDefaultDecision(priorMean, threshold_L);
     const probClearsThreshold = 1 - cdf(threshold_L, prior);
 
-    return {
+    return fixedSimulation({
       evsiDollars: 0,
       defaultDecision,
       probabilityClearsThreshold: probClearsThreshold,
       probabilityTestChangesDecision: 0,
       numSamples: 0,
       numRejected: 0,
-    };
+    });
   }
 
   // Guard: CR0 must be strictly in (0, 1)
   // CR0=0 causes division by zero in SE formula
   // CR0=1 collapses feasibility bounds (L_max = 0)
-  if (!(CR0 > 0 && CR0 < 1)) {
+  // (continuous and ratio metrics: positive means and variance)
+  if (!isValidMetric(CR0, metric)) {
     const priorMean = getPriorMean(prior);
     const defaultDecision = determineDefaultDecision(priorMean, threshold_L);
 
-    return {
+    return fixedSimulation({
       evsiDollars: 0,
       defaultDecision,
       probabilityClearsThreshold: 0.5, // Indeterminate
       probabilityTestChangesDecision: 0,
       numSamples: 0,
       numRejected: 0,
-    };
+    });
   }
 
   // ===========================================
@@ -449,8 +721,9 @@ export function calculateEVSIMonteCarlo(
   // This is derived from the delta method applied to the ratio of binomials
 
   // Calculate SE using shared seOfRelativeLift
-  // SE = sqrt((1-CR0)/CR0 * (1/n_control + 1/n_variant))
-  const SE = seOfRelativeLift(CR0, n_control, n_variant);
+  // SE = sqrt((1-CR0)/CR0 * (1/n_control + 1/n_variant)) for conversion;
+  // continuous and ratio metrics use their own relative variance
+  const SE = seOfRelativeLift(CR0, n_control, n_variant, metric);
 
   // ===========================================
   // Step 2.5: Check for rare events warning (Accuracy-08)
@@ -458,18 +731,8 @@ export function calculateEVSIMonteCarlo(
   // The Normal approximation for lift becomes unreliable when expected
   // conversions per arm are low (<20). Warn user to consider alternatives.
   // Threshold condition: min(n_control * CR0, n_variant * CR0) < 20
-  const warnings: CalculationWarning[] = [];
-  const expectedConvControl = n_control * CR0;
-  const expectedConvVariant = n_variant * CR0;
-  const minExpectedConversions = Math.min(expectedConvControl, expectedConvVariant);
-
-  if (minExpectedConversions < 20) {
-    warnings.push({
-      code: 'rare_events',
-      message:
-        'Expected conversions per group are low (<20). The normal approximation for lift may be less accurate. Consider increasing test duration or traffic.',
-    });
-  }
+  // (or the heavy-tailed metric equivalent)
+  const inputWarnings = readoutApproximationWarnings(n_control, n_variant, CR0, metric);
 
   // ===========================================
   // Step 3: Determine prior mean and default decision
@@ -496,7 +759,15 @@ export function calculateEVSIMonteCarlo(
     (prior.type === 'normal' && prior.sigma_L! > Math.abs(prior.mu_L! + 1));
 
   if (needsEffectiveMetrics) {
-    const effective = computeEffectivePriorMetrics(prior, threshold_L, CR0);
+    const effective = computeEffectivePriorMetrics(
+      prior,
+      threshold_L,
+      CR0,
+      2000,
+      rng,
+      sampling,
+      metric
+    );
     effectiveProbClears = effective.effectiveProbClears;
   }
 
@@ -508,34 +779,41 @@ export function calculateEVSIMonteCarlo(
   // ===========================================
   // CR1 = CR0 * (1 + L) must be in [0, 1]
   // L_min = -1 (CR1 = 0), L_max = (1/CR0) - 1 (CR1 = 1)
-  const { L_min, L_max } = liftFeasibilityBounds(CR0);
+  const { L_min, L_max } = liftFeasibilityBounds(CR0, metric);
 
   // ===========================================
-  // Step 5: Monte Carlo simulation
+  // Step 5: Monte Carlo simulation state (accumulates across run() calls)
   // ===========================================
   let sumValueWithoutTest = 0;
   let sumValueWithTest = 0;
   let validSamples = 0;
   let rejectedSamples = 0;
   let decisionChanges = 0;
-
-  const maxIterations = numSamples * 10; // Cap to prevent infinite loops
-  let iterations = 0;
-
-  while (validSamples < numSamples && iterations < maxIterations) {
-    iterations++;
-
-    // Sample true lift from prior
-    const L_true = sample(prior);
-
-    // Feasibility check: CR1 must be in [0, 1]
-    if (L_true < L_min || L_true > L_max) {
-      rejectedSamples++;
-      continue;
-    }
-
-    validSamples++;
-
+  // Per-draw (value with test - value without test), for the standard error
+  const improvement = createRunningMoments();
+
+  // Variance-reduced engine: draws from the truncated prior (no rejection);
+  // the control is the same draw under a Normal prior, whose EVSI is known
+  const plain = isPlainSampling(sampling);
+  const stream = plain ? null : createDrawStream(prior, CR0, sampling, rng, metric);
+  const controlPrior = stream?.controlPrior ?? null;
+  const controlDefault = controlPrior
+    ? determineDefaultDecision(controlPrior.mu_L!, threshold_L)
+    : defaultDecision;
+  const estimator = createMeanEstimator(
+    controlPrior
+      ? calculateEVSINormalFastPath({ ...inputs, prior: controlPrior }).evsiDollars
+      : undefined
+  );
+
+  // Values with and without the test for one draw, deciding with the
+  // posterior under decisionPrior (the prior, or the control prior)
+  const evaluate = (
+    L_true: number,
+    z: number,
+    decisionPrior: PriorDistribution,
+    decisionDefault: 'ship' | 'dont-ship'
+  ) => {
     // ===========================================
     // Value WITHOUT test (use default decision)
     // ===========================================
@@ -545,7 +823,7 @@ export function calculateEVSIMonteCarlo(
     // - Not shipping always gives 0 (threshold is our baseline)
     // This aligns with the EVPI formula which uses threshold-relative calculations.
     let valueWithoutTest: number;
-    if (defaultDecision === 'ship') {
+    if (decisionDefault === 'ship') {
       // We ship, get value relative to threshold baseline
       // Value = K * (L_true - T_L) represents excess value above threshold
       valueWithoutTest = K * (L_true - threshold_L);
@@ -558,8 +836,6 @@ export function calculateEVSIMonteCarlo(
     // Simulate test outcome
     // ===========================================
     // L_hat = L_true + noise, noise ~ N(0, SE)
-    // Uses shared sampleStandardNormal (Box-Muller with guard against log(0))
-    const z = sampleStandardNormal();
     const L_hat = L_true + SE * z;
 
     // ===========================================
@@ -570,17 +846,12 @@ export function calculateEVSIMonteCarlo(
     // the prior mean when the test data is noisy (large SE relative to prior sigma).
     // This is the Bayes-optimal decision rule for the linear utility model.
     // CR0 is passed to enforce feasibility upper bound in grid integration (Accuracy-07)
-    const posteriorMean = computePosteriorMean(L_hat, SE, prior, CR0);
+    const posteriorMean = computePosteriorMean(L_hat, SE, decisionPrior, CR0, metric);
 
     // Decision based on POSTERIOR MEAN, not raw sample L_hat
     // E[L|L_hat] >= T is the correct Bayesian decision rule
     const posteriorDecision = posteriorMean >= threshold_L ? 'ship' : 'dont-ship';
 
-    // Track decision changes
-    if (posteriorDecision !== defaultDecision) {
-      decisionChanges++;
-    }
-
     // ===========================================
     // Value WITH test (use posterior decision)
     // ===========================================
@@ -594,70 +865,192 @@ export function calculateEVSIMonteCarlo(
       valueWithTest = 0;
     }
 
-    sumValueWithoutTest += valueWithoutTest;
-    sumValueWithTest += valueWithTest;
-  }
+    return {
+      valueWithoutTest,
+      valueWithTest,
+      changesDecision: posteriorDecision !== decisionDefault,
+    };
+  };
 
-  // ===========================================
-  // Step 5.5: Check for high rejection rate warning (Edge Case 6)
-  // ===========================================
-  // High rejection indicates prior places substantial mass outside feasible bounds.
-  // This can lead to metrics that don't reflect the full prior distribution.
-  // Threshold: >10% rejection rate triggers warning.
-  const totalAttempted = validSamples + rejectedSamples;
-  if (totalAttempted > 0) {
-    const rejectionRate = rejectedSamples / totalAttempted;
-    if (rejectionRate > 0.10) {
-      warnings.push({
-        code: 'high_rejection',
-        message: `High rejection rate (${Math.round(rejectionRate * 100)}%) due to prior mass outside feasible conversion bounds. Consider narrowing prior or adjusting baseline rate.`,
-      });
+  const record = (draw: ReturnType<typeof evaluate>) => {
+    validSamples++;
+    // Track decision changes
+    if (draw.changesDecision) {
+      decisionChanges++;
     }
-  }
+    sumValueWithoutTest += draw.valueWithoutTest;
+    sumValueWithTest += draw.valueWithTest;
+    return draw.valueWithTest - draw.valueWithoutTest;
+  };
+
+  const runPlain = (numSamples: number) => {
+    const target = validSamples + numSamples;
+    const maxIterations = numSamples * 10; // Cap to prevent infinite loops
+    let iterations = 0;
+
+    while (validSamples < target && iterations < maxIterations) {
+      iterations++;
+
+      // Sample true lift from prior
+      const L_true = sample(prior, rng);
+
+      // Feasibility check: CR1 must be in [0, 1]
+      if (L_true < L_min || L_true > L_max) {
+        rejectedSamples++;
+        continue;
+      }
+
+      // Uses shared sampleStandardNormal (Box-Muller with guard against log(0))
+      const z = sampleStandardNormal(rng);
+      addSample(improvement, record(evaluate(L_true, z, prior, defaultDecision)));
+    }
+  };
+
+  const runReduced = (numSamples: number) => {
+    const target = validSamples + numSamples;
+
+    while (stream && validSamples < target) {
+      // One draw, or an antithetic pair averaged into one sample
+      const group = stream.next();
+      let groupImprovement = 0;
+      let groupControl = 0;
+      for (const { lift, noise, controlLift } of group) {
+        groupImprovement += record(evaluate(lift, noise, prior, defaultDecision));
+        if (controlPrior && controlLift !== undefined) {
+          const control = evaluate(controlLift, noise, controlPrior, controlDefault);
+          groupControl += control.valueWithTest - control.valueWithoutTest;
+        }
+      }
+      estimator.add(
+        groupImprovement / group.length,
+        controlPrior ? groupControl / group.length : undefined
+      );
+    }
+  };
+
+  // EVSI = E[Value with test] - E[Value without test], before clamping
+  const rawEstimate = () => {
+    if (validSamples === 0) {
+      return 0;
+    }
+    return plain
+      ? sumValueWithTest / validSamples - sumValueWithoutTest / validSamples
+      : estimator.mean();
+  };
+
+  const standardError = () =>
+    plain ? standardErrorOfMean(improvement) : estimator.standardError();
+
+  const results = (): EVSIResults => {
+    const warnings = [...inputWarnings];
+
+    // ===========================================
+    // Step 5.5: Check for high rejection rate warning (Edge Case 6)
+    // ===========================================
+    // High rejection indicates prior places substantial mass outside feasible bounds.
+    // This can lead to metrics that don't reflect the full prior distribution.
+    // Threshold: >10% rejection rate triggers warning.
+    // The variance-reduced engine rejects nothing; it warns on the excluded mass.
+    const totalAttempted = validSamples + rejectedSamples;
+    if (!plain) {
+      const massWarning = infeasibleMassWarning(stream?.mass ?? 0);
+      if (massWarning) {
+        warnings.push(massWarning);
+      }
+    } else if (totalAttempted > 0) {
+      const rejectionRate = rejectedSamples / totalAttempted;
+      if (rejectionRate > 0.10) {
+        warnings.push({
+          code: 'high_rejection',
+          message: `High rejection rate (${Math.round(rejectionRate * 100)}%) due to prior mass outside feasible conversion bounds. Consider narrowing prior or adjusting baseline rate.`,
+        });
+      }
+    }
+
+    // ===========================================
+    // Step 6: Handle zero valid samples edge case
+    // ===========================================
+    // If feasibility filter rejected all draws (e.g., very tight CR0 constraints
+    // with wide prior), validSamples can be 0. Return safe "no information" result.
+    if (validSamples === 0) {
+      return {
+        evsiDollars: 0,
+        defaultDecision,
+        probabilityClearsThreshold: probClearsThreshold,
+        probabilityTestChangesDecision: 0,
+        numSamples: 0,
+        numRejected: rejectedSamples,
+        ...(warnings.length > 0 && { warnings }),
+      };
+    }
+
+    // ===========================================
+    // Step 7: Calculate EVSI
+    // ===========================================
+    const rawEvsiDollars = rawEstimate();
+
+    // EVSI should be non-negative (information can't hurt in expectation)
+    // Small negative values can occur due to Monte Carlo variance
+    const evsiDollars = Math.max(0, rawEvsiDollars);
+
+    // Monte Carlo error: interval around the raw mean, clamped like the estimate
+    const rawError = monteCarloError(rawEvsiDollars, standardError());
+    const evsiError = {
+      standardError: rawError.standardError,
+      ci95Low: Math.max(0, rawError.ci95Low),
+      ci95High: Math.max(0, rawError.ci95High),
+    };
+    const errorWarning = monteCarloErrorWarning('EVSI', evsiDollars, evsiError);
+    if (errorWarning) {
+      warnings.push(errorWarning);
+    }
+
+    const probabilityTestChangesDecision = decisionChanges / validSamples;
 
-  // ===========================================
-  // Step 6: Handle zero valid samples edge case
-  // ===========================================
-  // If feasibility filter rejected all draws (e.g., very tight CR0 constraints
-  // with wide prior), validSamples can be 0. Return safe "no information" result.
-  if (validSamples === 0) {
     return {
-      evsiDollars: 0,
+      evsiDollars,
       defaultDecision,
       probabilityClearsThreshold: probClearsThreshold,
-      probabilityTestChangesDecision: 0,
-      numSamples: 0,
+      probabilityTestChangesDecision,
+      evsiError,
+      numSamples: validSamples,
       numRejected: rejectedSamples,
       ...(warnings.length > 0 && { warnings }),
     };
-  }
-
-  // ===========================================
-  // Step 7: Calculate EVSI
-  // ===========================================
-  const avgValueWithoutTest = sumValueWithoutTest / validSamples;
-  const avgValueWithTest = sumValueWithTest / validSamples;
-
-  // EVSI = E[Value with test] - E[Value without test]
-  let evsiDollars = avgValueWithTest - avgValueWithoutTest;
-
-  // EVSI should be non-negative (information can't hurt in expectation)
-  // Small negative values can occur due to Monte Carlo variance
-  evsiDollars = Math.max(0, evsiDollars);
-
-  const probabilityTestChangesDecision = decisionChanges / validSamples;
+  };
 
   return {
-    evsiDollars,
-    defaultDecision,
-    probabilityClearsThreshold: probClearsThreshold,
-    probabilityTestChangesDecision,
-    numSamples: validSamples,
-    numRejected: rejectedSamples,
-    ...(warnings.length > 0 && { warnings }),
+    run: plain ? runPlain : runReduced,
+    numSamples: () => validSamples,
+    estimate: () => Math.max(0, rawEstimate()),
+    standardError,
+    results,
   };
 }
 
+/**
+ * Calculate EVSI using Monte Carlo simulation
+ *
+ * Runs createEVSISimulation for a fixed number of accepted samples.
+ *
+ * @param inputs - EVSI calculation parameters
+ * @param numSamples - Number of Monte Carlo samples (default 5000)
+ * @param rng - Uniform random source for all draws (default Math.random);
+ *   a seeded source makes the result reproducible
+ * @param sampling - Variance reduction options (default: plain Monte Carlo)
+ * @returns EVSI results with supporting metrics
+ */
+export function calculateEVSIMonteCarlo(
+  inputs: EVSIInputs,
+  numSamples: number = 5000,
+  rng: RandomSource = defaultRandom,
+  sampling: SamplingOptions = {}
+): EVSIResults {
+  const simulation = createEVSISimulation(inputs, rng, sampling);
+  simulation.run(numSamples);
+  return simulation.results();
+}
+
 /**
  * Calculate EVSI using closed-form Normal fast path
  *
@@ -685,8 +1078,9 @@ export function calculateEVSIMonteCarlo(
  * @returns EVSI results
  */
 export function calculateEVSINormalFastPath(inputs: EVSIInputs): EVSIResults {
-  const { K, baselineConversionRate, threshold_L, prior, n_control, n_variant } =
-    inputs;
+  const { baselineConversionRate, threshold_L, prior, n_control, n_variant, metric } = inputs;
+  // Dollars per unit lift over the decision horizon
+  const K = inputs.K * horizonYears(inputs.horizon);
 
   // Validate Normal prior
   if (prior.type !== 'normal') {
@@ -735,7 +1129,8 @@ export function calculateEVSINormalFastPath(inputs: EVSIInputs): EVSIResults {
   // Guard: CR0 must be strictly in (0, 1)
   // CR0=0 causes division by zero in SE formula
   // CR0=1 collapses feasibility bounds
-  if (!(CR0 > 0 && CR0 < 1)) {
+  // (continuous and ratio metrics: positive means and variance)
+  if (!isValidMetric(CR0, metric)) {
     const defaultDecision = determineDefaultDecision(mu_prior, threshold_L);
 
     return {
@@ -749,7 +1144,8 @@ export function calculateEVSINormalFastPath(inputs: EVSIInputs): EVSIResults {
   // ===========================================
   // Step 1: Calculate measurement precision (1/SE^2)
   // ===========================================
-  const varianceFactor = (1 - CR0) / CR0;
+  // (1 - CR0) / CR0 for conversion; see metricRelativeVariance
+  const varianceFactor = metricRelativeVariance(CR0, metric);
   const sampleFactor = 1 / n_control + 1 / n_variant;
   const SE_squared = varianceFactor * sampleFactor;
   const data_precision = 1 / SE_squared; // 1/SE^2
@@ -760,18 +1156,8 @@ export function calculateEVSINormalFastPath(inputs: EVSIInputs): EVSIResults {
   // The Normal approximation for lift becomes unreliable when expected
   // conversions per arm are low (<20). Warn user to consider alternatives.
   // Threshold condition: min(n_control * CR0, n_variant * CR0) < 20
-  const warnings: CalculationWarning[] = [];
-  const expectedConvControl = n_control * CR0;
-  const expectedConvVariant = n_variant * CR0;
-  const minExpectedConversions = Math.min(expectedConvControl, expectedConvVariant);
-
-  if (minExpectedConversions < 20) {
-    warnings.push({
-      code: 'rare_events',
-      message:
-        'Expected conversions per group are low (<20). The normal approximation for lift may be less accurate. Consider increasing test duration or traffic.',
-    });
-  }
+  // (or the heavy-tailed metric equivalent)
+  const warnings = readoutApproximationWarnings(n_control, n_variant, CR0, metric);
 
   // ===========================================
   // Step 2: Calculate prior precision
@@ -843,3 +1229,98 @@ export function calculateEVSINormalFastPath(inputs: EVSIInputs): EVSIResults {
     ...(warnings.length > 0 && { warnings }),
   };
 }
+
+/**
+ * Calculate EVSI by integration for every non-Normal prior
+ *
+ * Same model as calculateEVSIMonteCarlo (feasibility-truncated prior,
+ * posterior-mean decision rule), integrated instead of sampled: see
+ * preposterior.ts. The result is exact up to quadrature tolerance, so it
+ * has no Monte Carlo error or sample count.
+ *
+ * Per unit K, with m(L) = E[(L - T) * P(ship | L)] over the truncated prior:
+ * - Value with test: m(L)
+ * - Value without test: E[L - T] if the default is ship, else 0
+ *
+ * @param inputs - EVSI calculation parameters (any non-Normal prior)
+ * @returns EVSI results
+ */
+export function calculateEVSIQuadrature(inputs: EVSIInputs): EVSIResults {
+  const { baselineConversionRate, threshold_L, prior, n_control, n_variant, metric } = inputs;
+  // Dollars per unit lift over the decision horizon
+  const K = inputs.K * horizonYears(inputs.horizon);
+
+  if (prior.type === 'normal') {
+    throw new Error(`Quadrature path is for non-Normal priors, got a ${prior.type} prior`);
+  }
+
+  const CR0 = baselineConversionRate;
+  const defaultDecision = determineDefaultDecision(getPriorMean(prior), threshold_L);
+
+  // ===========================================
+  // Guards (same results as the simulation's, without sample counts)
+  // ===========================================
+  const validMetric = isValidMetric(CR0, metric);
+  if (n_control <= 0 || n_variant <= 0 || !validMetric) {
+    return {
+      evsiDollars: 0,
+      defaultDecision,
+      probabilityClearsThreshold: validMetric ? 1 - cdf(threshold_L, prior) : 0.5,
+      probabilityTestChangesDecision: 0,
+    };
+  }
+
+  const SE = seOfRelativeLift(CR0, n_control, n_variant, metric);
+  const warnings = readoutApproximationWarnings(n_control, n_variant, CR0, metric);
+
+  // No prior mass in the feasible range: nothing to learn
+  const feasible = feasiblePrior(prior, CR0, metric);
+  const massWarning = infeasibleMassWarning(feasible?.mass ?? 0);
+  if (massWarning) {
+    warnings.push(massWarning);
+  }
+  if (!feasible) {
+    return {
+      evsiDollars: 0,
+      defaultDecision,
+      probabilityClearsThreshold: 1 - cdf(threshold_L, prior),
+      probabilityTestChangesDecision: 0,
+      ...(warnings.length > 0 && { warnings }),
+    };
+  }
+
+  // ===========================================
+  // Pre-posterior integrals (per unit K)
+  // ===========================================
+  const meanGain = feasible.expect((L) => L - threshold_L, [threshold_L]);
+  const { shipGain, shipProbability } = readoutMoments(feasible, threshold_L, SE, (L_hat) =>
+    computePosteriorMean(L_hat, SE, prior, CR0, metric)
+  );
+
+  const valueWithoutTest = defaultDecision === 'ship' ? meanGain : 0;
+  const evsiDollars = Math.max(0, K * (shipGain - valueWithoutTest));
+
+  return {
+    evsiDollars,
+    defaultDecision,
+    probabilityClearsThreshold: feasible.probabilityAtLeast(threshold_L),
+    probabilityTestChangesDecision:
+      defaultDecision === 'ship' ? 1 - shipProbability : shipProbability,
+    ...(warnings.length > 0 && { warnings }),
+  };
+}
+
+/**
+ * Calculate EVSI, choosing the method by prior
+ *
+ * Normal priors use the closed form; every other prior uses quadrature.
+ * Both are deterministic.
+ *
+ * @param inputs - EVSI calculation parameters
+ * @returns EVSI results
+ */
+export function calculateEVSI(inputs: EVSIInputs): EVSIResults {
+  return inputs.prior.type === 'normal'
+    ? calculateEVSINormalFastPath(inputs)
+    : calculateEVSIQuadrature(inputs);
+}
@@ -0,0 +1,53 @@
+import { describe, it, expect } from 'vitest';
+import { DEFAULT_HORIZON, discountedYears, horizonYears } from './horizon';
+
+describe('discountedYears', () => {
+  it('counts days as fractions of a year without discounting', () => {
+    expect(discountedYears(0, 73)).toBeCloseTo(0.2, 12);
+    expect(discountedYears(100, 173)).toBeCloseTo(0.2, 12);
+  });
+
+  it('counts nothing outside the horizon', () => {
+    const sixWeeks = { horizonDays: 42, annualDiscountRate: 0 };
+
+    expect(discountedYears(28, 56, sixWeeks)).toBeCloseTo(14 / 365, 12);
+    expect(discountedYears(50, 60, sixWeeks)).toBe(0);
+    expect(discountedYears(300, 400)).toBeCloseTo(65 / 365, 12);
+  });
+
+  it('discounts a year of value to its present value', () => {
+    const horizon = { horizonDays: 365, annualDiscountRate: 0.1 };
+
+    // Continuous flow over one year at 10%: (1 - 1/1.1) / ln(1.1)
+    expect(discountedYears(0, 365, horizon)).toBeCloseTo(
+      (1 - 1 / 1.1) / Math.log(1.1),
+      12
+    );
+    // The second year is worth 1/1.1 of the first
+    expect(discountedYears(365, 730, { ...horizon, horizonDays: 730 })).toBeCloseTo(
+      discountedYears(0, 365, horizon) / 1.1,
+      12
+    );
+  });
+
+  it('adds up across adjacent periods', () => {
+    const horizon = { horizonDays: 1095, annualDiscountRate: 0.08 };
+
+    expect(discountedYears(0, 30, horizon) + discountedYears(30, 1095, horizon)).toBeCloseTo(
+      horizonYears(horizon),
+      12
+    );
+  });
+});
+
+describe('horizonYears', () => {
+  it('is one year by default', () => {
+    expect(horizonYears()).toBe(1);
+    expect(horizonYears(DEFAULT_HORIZON)).toBe(1);
+  });
+
+  it('scales with the horizon', () => {
+    expect(horizonYears({ horizonDays: 1095, annualDiscountRate: 0 })).toBeCloseTo(3, 12);
+    expect(horizonYears({ horizonDays: 42, annualDiscountRate: 0 })).toBeCloseTo(42 / 365, 12);
+  });
+});
@@ -0,0 +1,73 @@
+/**
+ * Decision Horizon and Discounting
+ *
+ * K is annual dollars per unit lift. Every value in the engine is K times
+ * the lift gain times the years of exposure it applies for: the whole
+ * horizon without a test, and its test, latency and post-decision periods
+ * with one. This module turns those periods into discounted years.
+ *
+ * Mathematical notes (for statistician audit):
+ * - Value accrues evenly through time, K / 365 a day per unit lift
+ * - Continuous discounting at delta = ln(1 + r) per year, r the annual
+ *   rate, so a dollar a year from now is worth 1 / (1 + r) today
+ * - Years of value from day a to day b, within the horizon [0, H]:
+ *     (b - a) / 365                                  when r = 0
+ *     (exp(-delta * a / 365) - exp(-delta * b / 365)) / delta   otherwise
+ * - Days outside [0, H] count for nothing; the default horizon (365 days,
+ *   r = 0) reproduces the one-year model
+ */
+
+import type { DecisionHorizon } from './types';
+
+/**
+ * Days per year (K is per year)
+ */
+export const DAYS_PER_YEAR = 365;
+
+/**
+ * One undiscounted year, the horizon when none is given
+ */
+export const DEFAULT_HORIZON: DecisionHorizon = {
+  horizonDays: DAYS_PER_YEAR,
+  annualDiscountRate: 0,
+};
+
+/**
+ * Discounted years of value between two days, clipped to the horizon
+ *
+ * @param startDay - First day of the period (days from the start)
+ * @param endDay - Day the period ends
+ * @param horizon - Decision horizon (default one undiscounted year)
+ * @returns Years of value (0 for an empty period or one past the horizon)
+ */
+export function discountedYears(
+  startDay: number,
+  endDay: number,
+  horizon: DecisionHorizon = DEFAULT_HORIZON
+): number {
+  const a = Math.max(0, startDay);
+  const b = Math.min(endDay, horizon.horizonDays);
+  if (b <= a) {
+    return 0;
+  }
+
+  const delta = Math.log1p(horizon.annualDiscountRate);
+  if (delta === 0) {
+    return (b - a) / DAYS_PER_YEAR;
+  }
+  return (
+    (Math.exp((-delta * a) / DAYS_PER_YEAR) - Math.exp((-delta * b) / DAYS_PER_YEAR)) / delta
+  );
+}
+
+/**
+ * Discounted years of value over the whole horizon
+ *
+ * Scales an annual value (e.g. EVPI's K * expected loss) to the horizon.
+ *
+ * @param horizon - Decision horizon (default one undiscounted year)
+ * @returns Years of value from day 0 to horizonDays
+ */
+export function horizonYears(horizon: DecisionHorizon = DEFAULT_HORIZON): number {
+  return discountedYears(0, horizon.horizonDays, horizon);
+}
@@ -14,5 +14,22 @@ export * from './distributions';
 export * from './sample-size';
 export * from './cost-of-delay';
 export * from './evsi';
-export { calculateNetValueMonteCarlo } from './net-value';
+export {
+  calculateNetValue,
+  calculateNetValueMonteCarlo,
+  calculateNetValueNormalFastPath,
+  calculateNetValueQuadrature,
+} from './net-value';
+export * from './quadrature';
+export * from './preposterior';
 export * from './abtest-math';
+export * from './random';
+export * from './monte-carlo-error';
+export * from './adaptive-sampling';
+export * from './low-discrepancy';
+export * from './variance-reduction';
+export * from './multi-arm';
+export * from './sequential';
+export * from './bandit';
+export * from './horizon';
+export * from './effect-dynamics';
@@ -0,0 +1,94 @@
+import { describe, it, expect } from 'vitest';
+import {
+  createHaltonSequence,
+  createPointSource,
+  createSobolSequence,
+  radicalInverse,
+} from './low-discrepancy';
+import { createSeededRandom } from './random';
+
+/**
+ * Number of points in each of `bins` equal intervals of one coordinate
+ */
+function binCounts(values: number[], bins: number): number[] {
+  const counts = new Array<number>(bins).fill(0);
+  for (const value of values) {
+    counts[Math.floor(value * bins)]++;
+  }
+  return counts;
+}
+
+describe('radicalInverse', () => {
+  it('mirrors the digits about the point', () => {
+    expect(radicalInverse(1, 2)).toBe(0.5);
+    expect(radicalInverse(6, 2)).toBe(0.375);
+    expect(radicalInverse(5, 3)).toBeCloseTo(7 / 9, 15);
+  });
+});
+
+describe('createSobolSequence', () => {
+  it('follows the Sobol sequence when unshifted', () => {
+    const next = createSobolSequence(() => 0);
+    const points = Array.from({ length: 4 }, next);
+
+    expect(points.map(([x]) => x)).toEqual(
+      [0, 0.5, 0.75, 0.25].map((x) => expect.closeTo(x, 9))
+    );
+    expect(points.map(([, y]) => y)).toEqual(
+      [0, 0.5, 0.25, 0.75].map((y) => expect.closeTo(y, 9))
+    );
+  });
+
+  it('puts one point in each stratum, even after the random shift', () => {
+    const next = createSobolSequence(createSeededRandom(7));
+    const points = Array.from({ length: 64 }, next);
+
+    expect(binCounts(points.map(([x]) => x), 64)).toEqual(new Array(64).fill(1));
+    expect(binCounts(points.map(([, y]) => y), 64)).toEqual(new Array(64).fill(1));
+  });
+
+  it('stays strictly inside the unit square', () => {
+    const next = createSobolSequence(() => 0);
+    for (let i = 0; i < 1000; i++) {
+      const [x, y] = next();
+      expect(x).toBeGreaterThan(0);
+      expect(x).toBeLessThan(1);
+      expect(y).toBeGreaterThan(0);
+      expect(y).toBeLessThan(1);
+    }
+  });
+});
+
+describe('createHaltonSequence', () => {
+  it('follows the Halton sequence (bases 2 and 3) when unrotated', () => {
+    const next = createHaltonSequence(() => 0);
+
+    expect(next()).toEqual([0.5, expect.closeTo(1 / 3, 15)]);
+    expect(next()).toEqual([0.25, expect.closeTo(2 / 3, 15)]);
+    expect(next()).toEqual([0.75, expect.closeTo(1 / 9, 15)]);
+  });
+
+  it('covers the square more evenly than pseudo-random points', () => {
+    const halton = Array.from({ length: 900 }, createHaltonSequence(createSeededRandom(1)));
+    const random = Array.from(
+      { length: 900 },
+      createPointSource('pseudo-random', createSeededRandom(1))
+    );
+    // Largest deviation of a 30-bin histogram of y from 30 per bin
+    const worstBin = (points: [number, number][]) =>
+      Math.max(...binCounts(points.map(([, y]) => y), 30).map((count) => Math.abs(count - 30)));
+
+    expect(worstBin(halton)).toBeLessThanOrEqual(2);
+    expect(worstBin(random)).toBeGreaterThan(worstBin(halton));
+  });
+});
+
+describe('createPointSource', () => {
+  it('is reproducible for a seed', () => {
+    for (const sequence of ['pseudo-random', 'sobol', 'halton'] as const) {
+      const a = createPointSource(sequence, createSeededRandom(3));
+      const b = createPointSource(sequence, createSeededRandom(3));
+      expect([a(), a(), a()]).toEqual([b(), b(), b()]);
+    }
+  });
+});
@@ -0,0 +1,70 @@
+import { describe, it, expect } from 'vitest';
+import {
+  addSample,
+  createRunningMoments,
+  monteCarloError,
+  monteCarloErrorWarning,
+  monteCarloHalfWidth,
+  standardErrorOfMean,
+} from './monte-carlo-error';
+
+describe('running moments', () => {
+  it('matches the two-pass mean and standard error', () => {
+    const values = [3, 7, 7, 19, -4, 12.5];
+    const moments = createRunningMoments();
+    values.forEach((x) => addSample(moments, x));
+
+    const mean = values.reduce((a, b) => a + b, 0) / values.length;
+    const variance =
+      values.reduce((sum, x) => sum + (x - mean) ** 2, 0) / (values.length - 1);
+
+    expect(moments.mean).toBeCloseTo(mean, 10);
+    expect(standardErrorOfMean(moments)).toBeCloseTo(Math.sqrt(variance / values.length), 10);
+  });
+
+  it('stays accurate for large, nearly constant values', () => {
+    const moments = createRunningMoments();
+    for (let i = 0; i < 1000; i++) {
+      addSample(moments, 1e9 + (i % 2));
+    }
+
+    // Values alternate 1e9, 1e9+1: sd ≈ 0.5
+    expect(standardErrorOfMean(moments)).toBeCloseTo(0.5 / Math.sqrt(1000), 4);
+  });
+
+  it('reports zero error with fewer than two values', () => {
+    const moments = createRunningMoments();
+    addSample(moments, 5);
+
+    expect(standardErrorOfMean(moments)).toBe(0);
+  });
+});
+
+describe('monteCarloError', () => {
+  it('builds a symmetric 95% interval', () => {
+    const error = monteCarloError(1000, 100);
+
+    expect(error.standardError).toBe(100);
+    expect(error.ci95Low).toBeCloseTo(804, 0);
+    expect(error.ci95High).toBeCloseTo(1196, 0);
+    expect(monteCarloHalfWidth(error)).toBeCloseTo(196, 0);
+  });
+});
+
+describe('monteCarloErrorWarning', () => {
+  it('is silent when the interval is narrow', () => {
+    expect(monteCarloErrorWarning('EVSI', 10000, monteCarloError(10000, 500))).toBeNull();
+  });
+
+  it('warns when the interval is wide relative to the estimate', () => {
+    const warning = monteCarloErrorWarning('EVSI', 10000, monteCarloError(10000, 2000));
+
+    expect(warning?.code).toBe('high_mc_error');
+    expect(warning?.message).toContain('EVSI');
+    expect(warning?.message).toContain('±$3,920');
+  });
+
+  it('is silent when there is no simulation error', () => {
+    expect(monteCarloErrorWarning('net value', 0, monteCarloError(0, 0))).toBeNull();
+  });
+});
@@ -0,0 +1,119 @@
+/**
+ * Monte Carlo Error
+ *
+ * Standard errors and 95% intervals for Monte Carlo estimates, and the
+ * warning shown when simulation noise is large relative to the estimate.
+ *
+ * Mathematical notes (for statistician audit):
+ * - EVSI and net value are sample means of per-draw differences
+ *   (value with test - value without test, on the same draw of true lift),
+ *   so SE = s / sqrt(n), with s the sample standard deviation of those
+ *   differences. Using the paired differences, not the two means
+ *   separately, removes the shared prior variance from the error.
+ * - The 95% interval is estimate ± 1.96·SE (CLT; n is in the thousands).
+ * - Moments are accumulated with Welford's algorithm, which stays accurate
+ *   when per-draw values are large and nearly constant.
+ */
+
+import type { CalculationWarning, MonteCarloError } from './types';
+
+/**
+ * z for a two-sided 95% interval
+ */
+const Z_95 = 1.959963984540054;
+
+/**
+ * Warn when the 95% interval half-width exceeds this fraction of |estimate|
+ */
+export const MC_ERROR_WARNING_RATIO = 0.25;
+
+/**
+ * Running count, mean and sum of squared deviations (Welford)
+ */
+export interface RunningMoments {
+  count: number;
+  mean: number;
+  m2: number;
+}
+
+/**
+ * Start an empty accumulator
+ */
+export function createRunningMoments(): RunningMoments {
+  return { count: 0, mean: 0, m2: 0 };
+}
+
+/**
+ * Add one per-draw value to the accumulator (mutates it)
+ *
+ * @param moments - Accumulator
+ * @param x - Per-draw value
+ */
+export function addSample(moments: RunningMoments, x: number): void {
+  moments.count++;
+  const delta = x - moments.mean;
+  moments.mean += delta / moments.count;
+  moments.m2 += delta * (x - moments.mean);
+}
+
+/**
+ * Standard error of the accumulated mean
+ *
+ * @returns s / sqrt(n), or 0 with fewer than two values
+ */
+export function standardErrorOfMean(moments: RunningMoments): number {
+  if (moments.count < 2) {
+    return 0;
+  }
+  const variance = moments.m2 / (moments.count - 1);
+  return Math.sqrt(Math.max(0, variance) / moments.count);
+}
+
+/**
+ * Build the 95% interval for an estimate
+ *
+ * @param estimate - Monte Carlo mean
+ * @param standardError - Its standard error
+ * @returns Standard error and interval
+ */
+export function monteCarloError(estimate: number, standardError: number): MonteCarloError {
+  return {
+    standardError,
+    ci95Low: estimate - Z_95 * standardError,
+    ci95High: estimate + Z_95 * standardError,
+  };
+}
+
+/**
+ * Half-width of the 95% interval (the "±" shown next to an estimate)
+ *
+ * Computed from the standard error, so it is unaffected by clamping the
+ * interval ends (EVSI).
+ */
+export function monteCarloHalfWidth(error: MonteCarloError): number {
+  return Z_95 * error.standardError;
+}
+
+/**
+ * Warning for an estimate whose 95% interval is wide relative to it
+ *
+ * @param label - What the estimate is, for the message (e.g., "EVSI")
+ * @param estimate - Monte Carlo mean (dollars)
+ * @param error - Its Monte Carlo error
+ * @returns Warning, or null if the error is small
+ */
+export function monteCarloErrorWarning(
+  label: string,
+  estimate: number,
+  error: MonteCarloError
+): CalculationWarning | null {
+  const halfWidth = monteCarloHalfWidth(error);
+  if (halfWidth === 0 || halfWidth <= MC_ERROR_WARNING_RATIO * Math.abs(estimate)) {
+    return null;
+  }
+
+  return {
+    code: 'high_mc_error',
+    message: `Simulation noise is large for ${label}: the 95% interval is ±$${Math.round(halfWidth).toLocaleString('en-US')} around the estimate. Treat it as approximate.`,
+  };
+}
@@ -0,0 +1,118 @@
+import { describe, it, expect } from 'vitest';
+import { calculateMultiArmEVSI, chooseArm, createMultiArmEVSISimulation } from './multi-arm';
+import { calculateEVSINormalFastPath } from './evsi';
+import { createSeededRandom } from './random';
+import type { MultiArmEVSIInputs, PriorDistribution } from './types';
+
+const prior: PriorDistribution = { type: 'normal', mu_L: 0, sigma_L: 0.05 };
+
+const base: MultiArmEVSIInputs = {
+  K: 5_000_000,
+  baselineConversionRate: 0.05,
+  threshold_L: 0,
+  priors: [prior],
+  n_control: 10000,
+  n_variant: 10000,
+};
+
+describe('chooseArm', () => {
+  it('ships the best variant when it clears the threshold', () => {
+    expect(chooseArm([0.01, 0.03, 0.02], 0)).toBe(1);
+  });
+
+  it('ships none when no variant clears the threshold', () => {
+    expect(chooseArm([-0.01, -0.02], 0)).toBeNull();
+  });
+
+  it('breaks ties toward the earlier variant and toward shipping', () => {
+    expect(chooseArm([0.02, 0.02], 0)).toBe(0);
+    expect(chooseArm([0, -0.01], 0)).toBe(0);
+  });
+});
+
+describe('calculateMultiArmEVSI', () => {
+  it('matches the EVSI fast path with one variant', () => {
+    const result = calculateMultiArmEVSI(base, 20000, createSeededRandom(7));
+    const fastPath = calculateEVSINormalFastPath({ ...base, prior });
+
+    expect(Math.abs(result.evsiDollars - fastPath.evsiDollars)).toBeLessThan(
+      4 * result.evsiError!.standardError
+    );
+  });
+
+  it('is reproducible with a seeded random source', () => {
+    const inputs = { ...base, priors: [prior, prior] };
+    expect(calculateMultiArmEVSI(inputs, 500, createSeededRandom(3))).toEqual(
+      calculateMultiArmEVSI(inputs, 500, createSeededRandom(3))
+    );
+  });
+
+  it('gains from another variant at the same group sizes', () => {
+    const one = calculateMultiArmEVSI(base, 10000, createSeededRandom(5));
+    const two = calculateMultiArmEVSI(
+      { ...base, priors: [prior, prior] },
+      10000,
+      createSeededRandom(5)
+    );
+
+    expect(two.evsiDollars).toBeGreaterThan(one.evsiDollars);
+  });
+
+  it('dilutes the test when a weak variant takes half the traffic', () => {
+    const weak: PriorDistribution = { type: 'normal', mu_L: -0.2, sigma_L: 0.01 };
+    // Same 20,000 visitors to the variants: all to one, or split over two
+    const ab = calculateMultiArmEVSI(
+      { ...base, n_variant: 20000 },
+      10000,
+      createSeededRandom(9)
+    );
+    const abc = calculateMultiArmEVSI(
+      { ...base, priors: [prior, weak] },
+      10000,
+      createSeededRandom(9)
+    );
+
+    expect(abc.evsiDollars).toBeLessThan(ab.evsiDollars);
+    expect(abc.probabilityShipArm[1]).toBe(0);
+  });
+
+  it('reports where the decision lands', () => {
+    const result = calculateMultiArmEVSI(
+      { ...base, priors: [prior, { ...prior, mu_L: 0.01 }] },
+      2000,
+      createSeededRandom(1)
+    );
+    const total =
+      result.probabilityShipArm.reduce((sum, p) => sum + p, 0) + result.probabilityShipNone;
+
+    expect(result.defaultArm).toBe(1);
+    expect(total).toBeCloseTo(1, 10);
+    expect(result.probabilityTestChangesDecision).toBeGreaterThan(0);
+  });
+
+  it('returns no information for an empty variant group', () => {
+    const result = calculateMultiArmEVSI({ ...base, priors: [prior, prior], n_variant: 0 });
+
+    expect(result.evsiDollars).toBe(0);
+    expect(result.defaultArm).toBe(0);
+    expect(result.probabilityShipArm).toEqual([1, 0]);
+    expect(result.numSamples).toBe(0);
+  });
+});
+
+describe('createMultiArmEVSISimulation with antithetic pairs', () => {
+  it('agrees with plain sampling, with a smaller standard error', () => {
+    const inputs = { ...base, priors: [prior, prior] };
+    const plain = createMultiArmEVSISimulation(inputs, createSeededRandom(1));
+    const antithetic = createMultiArmEVSISimulation(inputs, createSeededRandom(1), {
+      antithetic: true,
+    });
+    plain.run(10000);
+    antithetic.run(10000);
+    const combinedError = Math.hypot(plain.standardError(), antithetic.standardError());
+
+    expect(antithetic.numSamples()).toBe(10000);
+    expect(Math.abs(antithetic.estimate() - plain.estimate())).toBeLessThan(4 * combinedError);
+    expect(antithetic.standardError()).toBeLessThan(plain.standardError());
+  });
+});
@@ -0,0 +1,322 @@
+/**
+ * Multi-Variant (A/B/n) EVSI
+ *
+ * Values a test of k variants against one shared control. Without the
+ * test, the variant with the highest prior mean ships if it clears the
+ * threshold. After the readout, the variant with the highest posterior mean
+ * ships if it clears the threshold; otherwise none does. Adding a variant
+ * gives the decision another option, but splits the same traffic across
+ * more arms, so each readout is noisier; comparing EVSI across variant
+ * counts shows which effect wins.
+ *
+ * Mathematical notes (for statistician audit):
+ * - Each variant's true lift is drawn independently from its own prior,
+ *   rejecting draws outside the feasible range (as in the EVSI simulation)
+ * - Readouts share the control group's noise:
+ *   L_hat_j = L_j + sqrt(v / n_variant) * z_j - sqrt(v / n_control) * z_0,
+ *   with v the metric's relative variance, so each readout has the
+ *   single-variant standard error SE = sqrt(v * (1/n_control + 1/n_variant))
+ * - Each variant's posterior mean uses its own readout, E[L_j | L_hat_j].
+ *   The readouts are correlated through the control, so this ignores what
+ *   the other readouts say about the control's noise (a slightly
+ *   conservative decision rule); with one variant it is exactly the EVSI
+ *   simulation's rule
+ * - Value is measured relative to the threshold, as in EVSI:
+ *   K * (L_shipped - T), or 0 when nothing ships, over the discounted
+ *   years of the decision horizon
+ * - With antithetic sampling (see variance-reduction.ts), each variant's
+ *   lift and noise and the control's noise are mirrored together; the
+ *   lifts come from the truncated priors and the pair average is one sample
+ */
+
+import { getPriorMean, sample } from './distributions';
+import {
+  isValidMetric,
+  liftFeasibilityBounds,
+  readoutApproximationWarnings,
+  sampleStandardNormal,
+  seOfRelativeLift,
+} from './abtest-math';
+import { computePosteriorMean } from './evsi';
+import { horizonYears } from './horizon';
+import { defaultRandom, type RandomSource } from './random';
+import {
+  createDrawStream,
+  type SamplingOptions,
+  type SimulationDraw,
+} from './variance-reduction';
+import {
+  addSample,
+  createRunningMoments,
+  monteCarloError,
+  monteCarloErrorWarning,
+  standardErrorOfMean,
+} from './monte-carlo-error';
+import type {
+  MonteCarloSimulation,
+  MultiArmEVSIInputs,
+  MultiArmEVSIResults,
+  PriorDistribution,
+} from './types';
+
+/**
+ * Arm to ship given each variant's expected lift: the best one if it clears
+ * the threshold (ties go to the earlier variant, and to shipping)
+ *
+ * @param expectedLifts - Expected lift per variant
+ * @param threshold_L - Decision threshold (T_L)
+ * @returns Index of the variant to ship, or null to ship none
+ */
+export function chooseArm(expectedLifts: number[], threshold_L: number): number | null {
+  let best: number | null = null;
+  for (let j = 0; j < expectedLifts.length; j++) {
+    if (best === null || expectedLifts[j] > expectedLifts[best]) {
+      best = j;
+    }
+  }
+  return best !== null && expectedLifts[best] >= threshold_L ? best : null;
+}
+
+/**
+ * Result with no information from the test (degenerate inputs)
+ */
+function noInformation(
+  priors: PriorDistribution[],
+  threshold_L: number
+): MultiArmEVSIResults {
+  const defaultArm = chooseArm(priors.map(getPriorMean), threshold_L);
+  return {
+    evsiDollars: 0,
+    defaultArm,
+    probabilityShipArm: priors.map((_, j) => (j === defaultArm ? 1 : 0)),
+    probabilityShipNone: defaultArm === null ? 1 : 0,
+    probabilityTestChangesDecision: 0,
+    numSamples: 0,
+    numRejected: 0,
+  };
+}
+
+/**
+ * Create a resumable multi-variant EVSI Monte Carlo simulation
+ *
+ * Algorithm, per iteration:
+ * 1. Draw each variant's true lift from its prior (rejecting infeasible draws)
+ * 2. Draw the control's noise and each variant's noise; form the readouts
+ * 3. Ship the variant with the highest posterior mean if it clears T
+ * 4. Record value with the test minus value of the default decision
+ *
+ * @param inputs - Multi-variant EVSI parameters
+ * @param rng - Uniform random source for all draws (default Math.random)
+ * @param sampling - Antithetic pairs (default off; there is no closed-form
+ *   control for a choice among variants)
+ * @returns Simulation handle (see calculateMultiArmEVSI for a fixed count)
+ */
+export function createMultiArmEVSISimulation(
+  inputs: MultiArmEVSIInputs,
+  rng: RandomSource = defaultRandom,
+  sampling: Pick<SamplingOptions, 'antithetic'> = {}
+): MonteCarloSimulation<MultiArmEVSIResults> {
+  const { baselineConversionRate, threshold_L, priors, n_control, n_variant, metric } = inputs;
+  // Dollars per unit lift over the decision horizon
+  const K = inputs.K * horizonYears(inputs.horizon);
+  const CR0 = baselineConversionRate;
+  const k = priors.length;
+
+  // Guards: no variants, an empty arm, or an invalid metric give no information
+  if (k === 0 || n_control <= 0 || n_variant <= 0 || !isValidMetric(CR0, metric)) {
+    const result = noInformation(priors, threshold_L);
+    return {
+      run: () => {},
+      numSamples: () => 0,
+      estimate: () => 0,
+      standardError: () => 0,
+      results: () => result,
+    };
+  }
+
+  const SE = seOfRelativeLift(CR0, n_control, n_variant, metric);
+  // Split SE^2 into the variant's and the shared control's parts
+  const variantNoise = SE * Math.sqrt(n_control / (n_control + n_variant));
+  const controlNoise = SE * Math.sqrt(n_variant / (n_control + n_variant));
+
+  const inputWarnings = readoutApproximationWarnings(n_control, n_variant, CR0, metric);
+  const { L_min, L_max } = liftFeasibilityBounds(CR0, metric);
+  const defaultArm = chooseArm(priors.map(getPriorMean), threshold_L);
+
+  let validSamples = 0;
+  let rejectedSamples = 0;
+  let decisionChanges = 0;
+  let shipNone = 0;
+  const shipArm = new Array<number>(k).fill(0);
+  // Per-draw (value with test - value without test); per pair with antithetic sampling
+  const improvement = createRunningMoments();
+
+  const lifts = new Array<number>(k);
+  const noises = new Array<number>(k);
+  const posteriorMeans = new Array<number>(k);
+
+  // Antithetic lifts come from the truncated priors, so nothing is rejected
+  const streams = sampling.antithetic
+    ? priors.map((prior) => createDrawStream(prior, CR0, { antithetic: true }, rng, metric))
+    : [];
+
+  const drawLift = (prior: PriorDistribution): number | null => {
+    // Same cap as the EVSI simulation: 10 attempts per accepted draw
+    for (let attempt = 0; attempt < 10; attempt++) {
+      const L = sample(prior, rng);
+      if (L >= L_min && L <= L_max) {
+        return L;
+      }
+      rejectedSamples++;
+    }
+    return null;
+  };
+
+  // Read out the current lifts and noises and record the decision; returns
+  // the draw's value with the test minus value without it
+  const recordDraw = (z0: number) => {
+    for (let j = 0; j < k; j++) {
+      const L_hat = lifts[j] + variantNoise * noises[j] - controlNoise * z0;
+      posteriorMeans[j] = computePosteriorMean(L_hat, SE, priors[j], CR0, metric);
+    }
+
+    const shipped = chooseArm(posteriorMeans, threshold_L);
+    const valueWithTest = shipped === null ? 0 : K * (lifts[shipped] - threshold_L);
+    const valueWithoutTest = defaultArm === null ? 0 : K * (lifts[defaultArm] - threshold_L);
+
+    validSamples++;
+    if (shipped === null) {
+      shipNone++;
+    } else {
+      shipArm[shipped]++;
+    }
+    if (shipped !== defaultArm) {
+      decisionChanges++;
+    }
+    return valueWithTest - valueWithoutTest;
+  };
+
+  const runPlain = (numSamples: number) => {
+    for (let i = 0; i < numSamples; i++) {
+      let feasible = true;
+      for (let j = 0; j < k && feasible; j++) {
+        const L = drawLift(priors[j]);
+        if (L === null) {
+          feasible = false;
+        } else {
+          lifts[j] = L;
+        }
+      }
+      if (!feasible) {
+        // The priors have (almost) no feasible mass; stop this batch
+        return;
+      }
+
+      const z0 = sampleStandardNormal(rng);
+      for (let j = 0; j < k; j++) {
+        noises[j] = sampleStandardNormal(rng);
+      }
+      addSample(improvement, recordDraw(z0));
+    }
+  };
+
+  const runAntithetic = (numSamples: number) => {
+    const target = validSamples + numSamples;
+
+    while (validSamples < target) {
+      const pairs: SimulationDraw[][] = [];
+      for (const stream of streams) {
+        if (!stream) {
+          // A prior has no feasible mass; nothing to simulate
+          return;
+        }
+        pairs.push(stream.next());
+      }
+
+      const z0 = sampleStandardNormal(rng);
+      let pairImprovement = 0;
+      for (let m = 0; m < 2; m++) {
+        for (let j = 0; j < k; j++) {
+          lifts[j] = pairs[j][m].lift;
+          noises[j] = pairs[j][m].noise;
+        }
+        // The mirror of N(0, 1) noise is its negation
+        pairImprovement += recordDraw(m === 0 ? z0 : -z0);
+      }
+      addSample(improvement, pairImprovement / 2);
+    }
+  };
+
+  const results = (): MultiArmEVSIResults => {
+    const warnings = [...inputWarnings];
+
+    const totalAttempted = validSamples * k + rejectedSamples;
+    if (totalAttempted > 0 && rejectedSamples / totalAttempted > 0.1) {
+      warnings.push({
+        code: 'high_rejection',
+        message: `High rejection rate (${Math.round((rejectedSamples / totalAttempted) * 100)}%) due to prior mass outside feasible conversion bounds. Consider narrowing the variant priors or adjusting baseline rate.`,
+      });
+    }
+
+    if (validSamples === 0) {
+      return {
+        ...noInformation(priors, threshold_L),
+        numRejected: rejectedSamples,
+        ...(warnings.length > 0 && { warnings }),
+      };
+    }
+
+    // EVSI is non-negative in expectation; clamp Monte Carlo noise
+    const rawError = monteCarloError(improvement.mean, standardErrorOfMean(improvement));
+    const evsiDollars = Math.max(0, improvement.mean);
+    const evsiError = {
+      standardError: rawError.standardError,
+      ci95Low: Math.max(0, rawError.ci95Low),
+      ci95High: Math.max(0, rawError.ci95High),
+    };
+    const errorWarning = monteCarloErrorWarning('EVSI', evsiDollars, evsiError);
+    if (errorWarning) {
+      warnings.push(errorWarning);
+    }
+
+    return {
+      evsiDollars,
+      defaultArm,
+      probabilityShipArm: shipArm.map((count) => count / validSamples),
+      probabilityShipNone: shipNone / validSamples,
+      probabilityTestChangesDecision: decisionChanges / validSamples,
+      evsiError,
+      numSamples: validSamples,
+      numRejected: rejectedSamples,
+      ...(warnings.length > 0 && { warnings }),
+    };
+  };
+
+  return {
+    run: sampling.antithetic ? runAntithetic : runPlain,
+    numSamples: () => validSamples,
+    estimate: () => Math.max(0, improvement.mean),
+    standardError: () => standardErrorOfMean(improvement),
+    results,
+  };
+}
+
+/**
+ * Calculate multi-variant EVSI by Monte Carlo
+ *
+ * @param inputs - Multi-variant EVSI parameters
+ * @param numSamples - Number of Monte Carlo samples (default 5000)
+ * @param rng - Uniform random source (default Math.random); a seeded source
+ *   makes the result reproducible
+ * @returns EVSI, default and post-readout choices, and diagnostics
+ */
+export function calculateMultiArmEVSI(
+  inputs: MultiArmEVSIInputs,
+  numSamples: number = 5000,
+  rng: RandomSource = defaultRandom
+): MultiArmEVSIResults {
+  const simulation = createMultiArmEVSISimulation(inputs, rng);
+  simulation.run(numSamples);
+  return simulation.results();
+}
+
@@ -11,7 +11,13 @@
  */
 
 import { describe, it, expect } from 'vitest';
-import { calculateNetValueMonteCarlo } from './net-value';
+import {
+  calculateNetValue,
+  calculateNetValueMonteCarlo,
+  calculateNetValueNormalFastPath,
+  calculateNetValueQuadrature,
+} from './net-value';
+import { createSeededRandom } from './random';
 import type { NetValueInputs } from './types';
 
 // Note: calculateBaselineValue and calculateIterationValue are now
@@ -630,3 +636,565 @@ describe('NetValue effective prior metrics', () => {
     expect(result.probabilityClearsThreshold).toBeLessThan(1);
   });
 });
+
+describe('NetValue conversion latency', () => {
+  const baseInputs: NetValueInputs = {
+    K: 1000000,
+    baselineConversionRate: 0.05,
+    threshold_L: 0,
+    prior: { type: 'normal', mu_L: 0.0, sigma_L: 0.05 },
+    n_control: 10000,
+    n_variant: 10000,
+    testDurationDays: 28,
+    variantFraction: 0.5,
+    decisionLatencyDays: 0,
+  };
+
+  it('reports zero latency cost when conversionLatencyDays is 0', () => {
+    const result = calculateNetValueMonteCarlo(baseInputs, 2000);
+
+    expect(result.conversionLatencyCostDollars).toBe(0);
+  });
+
+  it('latency reduces net value and reports a positive latency cost', () => {
+    const noLatency = calculateNetValueMonteCarlo(baseInputs, 5000);
+    const withLatency = calculateNetValueMonteCarlo(
+      { ...baseInputs, conversionLatencyDays: 21 },
+      5000
+    );
+
+    // Only a quarter of the sample is readable, so the test is less informative
+    expect(withLatency.conversionLatencyCostDollars).toBeGreaterThan(0);
+    expect(withLatency.netValueDollars).toBeLessThan(noLatency.netValueDollars);
+  });
+
+  it('latency cost matches the gap to an otherwise identical zero-latency run', () => {
+    // Same seed, so both runs see the same lifts and readout noise
+    const noLatency = calculateNetValueMonteCarlo(baseInputs, 20000, createSeededRandom(7));
+    const withLatency = calculateNetValueMonteCarlo(
+      { ...baseInputs, conversionLatencyDays: 21 },
+      20000,
+      createSeededRandom(7)
+    );
+
+    const gap = noLatency.netValueDollars - withLatency.netValueDollars;
+    expect(gap).toBeGreaterThan(0);
+    expect(withLatency.conversionLatencyCostDollars).toBeCloseTo(gap, 4);
+  });
+
+  it('warns and falls back to the default decision when nothing matures', () => {
+    const result = calculateNetValueMonteCarlo(
+      { ...baseInputs, conversionLatencyDays: 28 },
+      2000
+    );
+
+    expect(result.probabilityTestChangesDecision).toBe(0);
+    expect(result.warnings?.some((w) => w.code === 'immature_conversions')).toBe(true);
+    expect(Number.isFinite(result.netValueDollars)).toBe(true);
+  });
+});
+
+describe('NetValue seeded runs', () => {
+  const inputs: NetValueInputs = {
+    K: 1000000,
+    baselineConversionRate: 0.05,
+    threshold_L: 0,
+    prior: { type: 'uniform', low_L: -0.1, high_L: 0.1 },
+    n_control: 10000,
+    n_variant: 10000,
+    testDurationDays: 28,
+    variantFraction: 0.5,
+    decisionLatencyDays: 7,
+  };
+
+  it('gives identical results for the same seed', () => {
+    const a = calculateNetValueMonteCarlo(inputs, 2000, createSeededRandom(42));
+    const b = calculateNetValueMonteCarlo(inputs, 2000, createSeededRandom(42));
+
+    expect(a).toEqual(b);
+  });
+
+  it('reports a Monte Carlo interval around the estimate', () => {
+    const result = calculateNetValueMonteCarlo(inputs, 2000, createSeededRandom(42));
+    const error = result.netValueError!;
+
+    expect(error.standardError).toBeGreaterThan(0);
+    expect(error.ci95Low).toBeLessThan(result.netValueDollars);
+    expect(error.ci95High).toBeGreaterThan(result.netValueDollars);
+    expect((error.ci95Low + error.ci95High) / 2).toBeCloseTo(result.netValueDollars, 6);
+  });
+
+  it('warns when simulation noise is large relative to the estimate', () => {
+    const result = calculateNetValueMonteCarlo(inputs, 50, createSeededRandom(42));
+
+    expect(result.warnings?.some((w) => w.code === 'high_mc_error')).toBe(true);
+  });
+
+  it('differs across seeds', () => {
+    const a = calculateNetValueMonteCarlo(inputs, 2000, createSeededRandom(42));
+    const b = calculateNetValueMonteCarlo(inputs, 2000, createSeededRandom(43));
+
+    expect(a.netValueDollars).not.toBe(b.netValueDollars);
+  });
+});
+
+describe('NetValue group-sequential designs', () => {
+  const baseInputs: NetValueInputs = {
+    K: 1000000,
+    baselineConversionRate: 0.05,
+    threshold_L: 0,
+    prior: { type: 'normal', mu_L: 0.0, sigma_L: 0.05 },
+    n_control: 40000,
+    n_variant: 40000,
+    testDurationDays: 56,
+    variantFraction: 0.5,
+    decisionLatencyDays: 0,
+  };
+  const bayesian: NetValueInputs = {
+    ...baseInputs,
+    sequential: {
+      interimDays: [14, 28, 42],
+      rule: { type: 'bayesian', efficacyProbability: 0.95, futilityProbability: 0.05 },
+    },
+  };
+
+  it('leaves the fixed design unchanged', () => {
+    const fixed = calculateNetValueMonteCarlo(baseInputs, 2000, createSeededRandom(42));
+
+    expect(fixed.expectedTestDurationDays).toBeUndefined();
+    expect(fixed.earlyStoppingGainDollars).toBeUndefined();
+  });
+
+  it('matches the fixed design when no look is usable', () => {
+    const fixed = calculateNetValueMonteCarlo(baseInputs, 2000, createSeededRandom(42));
+    const noLooks = calculateNetValueMonteCarlo(
+      { ...bayesian, sequential: { ...bayesian.sequential!, interimDays: [0, 56, 70] } },
+      2000,
+      createSeededRandom(42)
+    );
+
+    expect(noLooks.netValueDollars).toBe(fixed.netValueDollars);
+    expect(noLooks.expectedTestDurationDays).toBe(56);
+    expect(noLooks.probabilityStopEarly).toBe(0);
+    expect(noLooks.earlyStoppingGainDollars).toBe(0);
+  });
+
+  it('stops early often and shortens the expected test', () => {
+    const result = calculateNetValueMonteCarlo(bayesian, 5000, createSeededRandom(42));
+
+    expect(result.probabilityStopEarly).toBeGreaterThan(0.2);
+    expect(result.expectedTestDurationDays).toBeLessThan(56);
+    expect(result.expectedTestDurationDays).toBeGreaterThanOrEqual(14);
+  });
+
+  it('adds value over a long fixed design', () => {
+    const result = calculateNetValueMonteCarlo(bayesian, 5000, createSeededRandom(42));
+
+    // Decisions land weeks sooner for clear winners and losers
+    expect(result.earlyStoppingGainDollars).toBeGreaterThan(0);
+  });
+
+  it('reports the gain against the fixed design on the same draws', () => {
+    const fixed = calculateNetValueMonteCarlo(baseInputs, 20000, createSeededRandom(7));
+    const sequential = calculateNetValueMonteCarlo(bayesian, 20000, createSeededRandom(8));
+
+    // Net value minus the gain is the fixed design's net value, up to noise
+    const fixedPart = sequential.netValueDollars - sequential.earlyStoppingGainDollars!;
+    expect(Math.abs(fixedPart - fixed.netValueDollars)).toBeLessThan(
+      4 * Math.hypot(fixed.netValueError!.standardError, sequential.netValueError!.standardError)
+    );
+  });
+
+  it('stops less often under O\'Brien-Fleming bounds than a lenient Bayesian rule', () => {
+    const obrienFleming = calculateNetValueMonteCarlo(
+      {
+        ...baseInputs,
+        sequential: { interimDays: [14, 28, 42], rule: { type: 'obrien-fleming', criticalZ: 1.96 } },
+      },
+      5000,
+      createSeededRandom(42)
+    );
+    const lenient = calculateNetValueMonteCarlo(
+      {
+        ...baseInputs,
+        sequential: {
+          interimDays: [14, 28, 42],
+          rule: { type: 'bayesian', efficacyProbability: 0.8, futilityProbability: 0.2 },
+        },
+      },
+      5000,
+      createSeededRandom(42)
+    );
+
+    expect(obrienFleming.probabilityStopEarly).toBeGreaterThan(0);
+    expect(obrienFleming.probabilityStopEarly).toBeLessThan(lenient.probabilityStopEarly!);
+  });
+});
+
+describe('NetValue Normal closed form', () => {
+  const baseInputs: NetValueInputs = {
+    K: 1000000,
+    baselineConversionRate: 0.05,
+    threshold_L: 0.02,
+    prior: { type: 'normal', mu_L: 0.01, sigma_L: 0.03 },
+    n_control: 20000,
+    n_variant: 20000,
+    testDurationDays: 28,
+    variantFraction: 0.5,
+    decisionLatencyDays: 7,
+  };
+
+  const cases: Array<[string, Partial<NetValueInputs>]> = [
+    ['default is don\'t ship', {}],
+    ['default is ship', { prior: { type: 'normal', mu_L: 0.04, sigma_L: 0.03 } }],
+    ['prior mean at the threshold', { prior: { type: 'normal', mu_L: 0.02, sigma_L: 0.03 } }],
+    ['uneven split', { variantFraction: 0.2 }],
+    ['conversion latency', { conversionLatencyDays: 10 }],
+    ['long test and latency', { testDurationDays: 200, decisionLatencyDays: 200 }],
+  ];
+
+  it.each(cases)('matches Monte Carlo within its error: %s', (_, overrides) => {
+    const inputs = { ...baseInputs, ...overrides };
+    const exact = calculateNetValueNormalFastPath(inputs);
+    const simulated = calculateNetValueMonteCarlo(inputs, 100000, createSeededRandom(42));
+
+    const se = simulated.netValueError!.standardError;
+    expect(Math.abs(exact.netValueDollars - simulated.netValueDollars)).toBeLessThan(4 * se + 1);
+    expect(exact.probabilityTestChangesDecision).toBeCloseTo(
+      simulated.probabilityTestChangesDecision,
+      2
+    );
+    expect(exact.defaultDecision).toBe(simulated.defaultDecision);
+  });
+
+  it('prices conversion latency like the simulation', () => {
+    const inputs = { ...baseInputs, conversionLatencyDays: 14 };
+    const exact = calculateNetValueNormalFastPath(inputs);
+    const simulated = calculateNetValueMonteCarlo(inputs, 100000, createSeededRandom(42));
+
+    expect(exact.conversionLatencyCostDollars).toBeGreaterThan(0);
+    expect(exact.conversionLatencyCostDollars).toBeCloseTo(
+      simulated.conversionLatencyCostDollars,
+      -2
+    );
+  });
+
+  it('is deterministic and has no Monte Carlo error', () => {
+    const result = calculateNetValueNormalFastPath(baseInputs);
+
+    expect(calculateNetValueNormalFastPath(baseInputs)).toEqual(result);
+    expect(result.netValueError).toBeUndefined();
+    expect(result.numSamples).toBeUndefined();
+  });
+
+  it('gives zero net value with no uncertainty and no test period', () => {
+    const result = calculateNetValueNormalFastPath({
+      ...baseInputs,
+      prior: { type: 'normal', mu_L: 0.01, sigma_L: 0 },
+      testDurationDays: 0,
+      decisionLatencyDays: 0,
+    });
+
+    expect(result.netValueDollars).toBe(0);
+    expect(result.probabilityTestChangesDecision).toBe(0);
+  });
+
+  it('calculateNetValue uses the closed form only for Normal priors', () => {
+    expect(calculateNetValue(baseInputs)).toEqual(calculateNetValueNormalFastPath(baseInputs));
+
+    const uniform: NetValueInputs = {
+      ...baseInputs,
+      prior: { type: 'uniform', low_L: -0.05, high_L: 0.08 },
+    };
+    expect(calculateNetValue(uniform)).toEqual(calculateNetValueQuadrature(uniform));
+  });
+});
+
+describe('NetValue quadrature', () => {
+  const baseInputs: NetValueInputs = {
+    K: 1000000,
+    baselineConversionRate: 0.05,
+    threshold_L: 0.02,
+    prior: { type: 'uniform', low_L: -0.05, high_L: 0.08 },
+    n_control: 20000,
+    n_variant: 20000,
+    testDurationDays: 28,
+    variantFraction: 0.5,
+    decisionLatencyDays: 7,
+  };
+  const studentT = { type: 'student-t', mu_L: 0.01, sigma_L: 0.03, df: 4 } as const;
+
+  const cases: Array<[string, Partial<NetValueInputs>, number]> = [
+    ['Uniform', {}, 50000],
+    ['Uniform, uneven split', { variantFraction: 0.2 }, 50000],
+    ['Uniform, conversion latency', { conversionLatencyDays: 10 }, 50000],
+    ['Student-t', { prior: studentT }, 20000],
+    [
+      'Student-t, long test and latency',
+      { prior: studentT, testDurationDays: 200, decisionLatencyDays: 200 },
+      20000,
+    ],
+    [
+      'Spike-and-slab',
+      {
+        prior: {
+          type: 'mixture',
+          components: [
+            { weight: 0.5, mu_L: 0, sigma_L: 0 },
+            { weight: 0.5, mu_L: 0.03, sigma_L: 0.03 },
+          ],
+        },
+      },
+      50000,
+    ],
+    ['Skew-normal', { prior: { type: 'skew-normal', mu_L: -0.01, sigma_L: 0.04, alpha: 4 } }, 20000],
+  ];
+
+  it.each(cases)('matches Monte Carlo within its error: %s', (_, overrides, numSamples) => {
+    const inputs = { ...baseInputs, ...overrides };
+    const exact = calculateNetValueQuadrature(inputs);
+    const simulated = calculateNetValueMonteCarlo(inputs, numSamples, createSeededRandom(42));
+
+    const se = simulated.netValueError!.standardError;
+    expect(Math.abs(exact.netValueDollars - simulated.netValueDollars)).toBeLessThan(4 * se + 1);
+    expect(exact.probabilityTestChangesDecision).toBeCloseTo(
+      simulated.probabilityTestChangesDecision,
+      1
+    );
+    expect(exact.defaultDecision).toBe(simulated.defaultDecision);
+  });
+
+  it('prices conversion latency like the simulation', () => {
+    const inputs = { ...baseInputs, conversionLatencyDays: 14 };
+    const exact = calculateNetValueQuadrature(inputs);
+    const simulated = calculateNetValueMonteCarlo(inputs, 50000, createSeededRandom(42));
+
+    expect(exact.conversionLatencyCostDollars).toBeGreaterThan(0);
+    expect(exact.conversionLatencyCostDollars).toBeCloseTo(
+      simulated.conversionLatencyCostDollars,
+      -3
+    );
+  });
+
+  it('is deterministic and has no Monte Carlo error', () => {
+    const result = calculateNetValueQuadrature(baseInputs);
+
+    expect(calculateNetValueQuadrature(baseInputs)).toEqual(result);
+    expect(result.netValueError).toBeUndefined();
+    expect(result.numSamples).toBeUndefined();
+  });
+
+  it('warns when much of the prior is infeasible', () => {
+    const result = calculateNetValueQuadrature({
+      ...baseInputs,
+      prior: { type: 'uniform', low_L: -2, high_L: 0.1 },
+    });
+
+    expect(result.warnings?.some((w) => w.code === 'high_rejection')).toBe(true);
+  });
+});
+
+describe('NetValue decision horizon', () => {
+  const baseInputs: NetValueInputs = {
+    K: 1000000,
+    baselineConversionRate: 0.05,
+    threshold_L: 0.02,
+    prior: { type: 'normal', mu_L: 0.01, sigma_L: 0.03 },
+    n_control: 20000,
+    n_variant: 20000,
+    testDurationDays: 28,
+    variantFraction: 0.5,
+    decisionLatencyDays: 7,
+  };
+
+  it('matches the one-year model by default', () => {
+    expect(
+      calculateNetValueNormalFastPath({
+        ...baseInputs,
+        horizon: { horizonDays: 365, annualDiscountRate: 0 },
+      })
+    ).toEqual(calculateNetValueNormalFastPath(baseInputs));
+  });
+
+  it('is worth more over a longer horizon', () => {
+    const oneYear = calculateNetValueNormalFastPath(baseInputs);
+    const threeYears = calculateNetValueNormalFastPath({
+      ...baseInputs,
+      horizon: { horizonDays: 1095, annualDiscountRate: 0 },
+    });
+
+    expect(threeYears.netValueDollars).toBeGreaterThan(2.5 * oneYear.netValueDollars);
+  });
+
+  it('has nothing to gain when the test outlasts the horizon', () => {
+    // Default is don't ship: the test only exposes the variant for six weeks
+    const result = calculateNetValueNormalFastPath({
+      ...baseInputs,
+      testDurationDays: 56,
+      horizon: { horizonDays: 42, annualDiscountRate: 0 },
+    });
+
+    // f_var * (mu - T) * 42 / 365
+    expect(result.netValueDollars).toBeCloseTo((1000000 * 0.5 * -0.01 * 42) / 365, 6);
+  });
+
+  const horizons: Array<[string, NetValueInputs['horizon']]> = [
+    ['six weeks', { horizonDays: 42, annualDiscountRate: 0 }],
+    ['three years at 10%', { horizonDays: 1095, annualDiscountRate: 0.1 }],
+  ];
+
+  it.each(horizons)('closed form matches Monte Carlo: %s', (_, horizon) => {
+    const inputs = { ...baseInputs, horizon };
+    const exact = calculateNetValueNormalFastPath(inputs);
+    const simulated = calculateNetValueMonteCarlo(inputs, 50000, createSeededRandom(42));
+
+    const se = simulated.netValueError!.standardError;
+    expect(Math.abs(exact.netValueDollars - simulated.netValueDollars)).toBeLessThan(4 * se + 1);
+  });
+
+  it('quadrature matches Monte Carlo over a discounted horizon', () => {
+    const inputs: NetValueInputs = {
+      ...baseInputs,
+      prior: { type: 'uniform', low_L: -0.05, high_L: 0.08 },
+      horizon: { horizonDays: 730, annualDiscountRate: 0.1 },
+    };
+    const exact = calculateNetValueQuadrature(inputs);
+    const simulated = calculateNetValueMonteCarlo(inputs, 50000, createSeededRandom(42));
+
+    const se = simulated.netValueError!.standardError;
+    expect(Math.abs(exact.netValueDollars - simulated.netValueDollars)).toBeLessThan(4 * se + 1);
+  });
+});
+
+describe('NetValue effect dynamics', () => {
+  const baseInputs: NetValueInputs = {
+    K: 1000000,
+    baselineConversionRate: 0.05,
+    threshold_L: 0.02,
+    prior: { type: 'normal', mu_L: 0.01, sigma_L: 0.03 },
+    n_control: 20000,
+    n_variant: 20000,
+    testDurationDays: 14,
+    variantFraction: 0.5,
+    decisionLatencyDays: 7,
+    conversionLatencyDays: 3,
+  };
+  const decay = { type: 'decay', noveltyLift: 0.03, halfLifeDays: 7 } as const;
+  const multiplier = { type: 'novelty-multiplier', multiplier: 1, halfLifeDays: 14 } as const;
+
+  it('matches the constant-lift model without novelty', () => {
+    const none = calculateNetValueNormalFastPath(baseInputs);
+    const flat = calculateNetValueNormalFastPath({
+      ...baseInputs,
+      effectDynamics: { ...decay, noveltyLift: 0 },
+    });
+
+    expect(flat.netValueDollars).toBeCloseTo(none.netValueDollars, 6);
+    expect(flat.conversionLatencyCostDollars).toBeCloseTo(none.conversionLatencyCostDollars, 6);
+  });
+
+  it('ships more often on a novelty bump', () => {
+    const none = calculateNetValueNormalFastPath(baseInputs);
+    const bumped = calculateNetValueNormalFastPath({ ...baseInputs, effectDynamics: decay });
+
+    // Default is don't ship; the bump pushes readouts over the threshold
+    expect(bumped.probabilityTestChangesDecision).toBeGreaterThan(
+      none.probabilityTestChangesDecision
+    );
+  });
+
+  it('warns when the test reads out during the novelty', () => {
+    const short = calculateNetValueNormalFastPath({ ...baseInputs, effectDynamics: decay });
+    const long = calculateNetValueNormalFastPath({
+      ...baseInputs,
+      testDurationDays: 90,
+      effectDynamics: decay,
+    });
+
+    expect(short.warnings?.map((w) => w.code)).toContain('novelty_effect');
+    expect(long.warnings?.map((w) => w.code) ?? []).not.toContain('novelty_effect');
+  });
+
+  const dynamics: Array<[string, NonNullable<NetValueInputs['effectDynamics']>]> = [
+    ['decay', decay],
+    ['novelty multiplier', multiplier],
+  ];
+
+  it.each(dynamics)('closed form matches Monte Carlo: %s', (_, effectDynamics) => {
+    const inputs: NetValueInputs = {
+      ...baseInputs,
+      effectDynamics,
+      horizon: { horizonDays: 730, annualDiscountRate: 0.1 },
+    };
+    const exact = calculateNetValueNormalFastPath(inputs);
+    const simulated = calculateNetValueMonteCarlo(inputs, 50000, createSeededRandom(42));
+
+    const se = simulated.netValueError!.standardError;
+    expect(Math.abs(exact.netValueDollars - simulated.netValueDollars)).toBeLessThan(4 * se + 1);
+    expect(exact.probabilityTestChangesDecision).toBeCloseTo(
+      simulated.probabilityTestChangesDecision,
+      2
+    );
+  });
+
+  it.each(dynamics)('quadrature matches Monte Carlo: %s', (_, effectDynamics) => {
+    const inputs: NetValueInputs = {
+      ...baseInputs,
+      prior: { type: 'student-t', mu_L: 0.01, sigma_L: 0.03, df: 5 },
+      effectDynamics,
+    };
+    const exact = calculateNetValueQuadrature(inputs);
+    const simulated = calculateNetValueMonteCarlo(inputs, 50000, createSeededRandom(42));
+
+    const se = simulated.netValueError!.standardError;
+    expect(Math.abs(exact.netValueDollars - simulated.netValueDollars)).toBeLessThan(4 * se + 1);
+  });
+});
+
+describe('NetValue for continuous metrics', () => {
+  const baseInputs: NetValueInputs = {
+    K: 1000000,
+    baselineConversionRate: 0.05,
+    threshold_L: 0.02,
+    prior: { type: 'normal', mu_L: 0.01, sigma_L: 0.03 },
+    n_control: 20000,
+    n_variant: 20000,
+    testDurationDays: 28,
+    variantFraction: 0.5,
+    decisionLatencyDays: 7,
+    metric: { type: 'continuous', mean: 2.5, standardDeviation: 12 },
+  };
+
+  it('matches Monte Carlo in closed form', () => {
+    const exact = calculateNetValueNormalFastPath(baseInputs);
+    const simulated = calculateNetValueMonteCarlo(baseInputs, 20000, createSeededRandom(42));
+
+    const se = simulated.netValueError!.standardError;
+    expect(Math.abs(exact.netValueDollars - simulated.netValueDollars)).toBeLessThan(4 * se + 1);
+  });
+
+  it('matches Monte Carlo by quadrature for a Uniform prior reaching past 1/CR0 - 1', () => {
+    // With a conversion metric at CR0 = 0.5, lifts above 100% would be infeasible
+    const inputs: NetValueInputs = {
+      ...baseInputs,
+      baselineConversionRate: 0.5,
+      prior: { type: 'uniform', low_L: -0.2, high_L: 1.5 },
+      threshold_L: 0.3,
+    };
+    const exact = calculateNetValueQuadrature(inputs);
+    const simulated = calculateNetValueMonteCarlo(inputs, 20000, createSeededRandom(42));
+
+    const se = simulated.netValueError!.standardError;
+    expect(Math.abs(exact.netValueDollars - simulated.netValueDollars)).toBeLessThan(4 * se + 1);
+    expect(exact.warnings).toBeUndefined();
+  });
+
+  it('values a noisier metric less', () => {
+    const noisy = calculateNetValue({
+      ...baseInputs,
+      metric: { type: 'continuous', mean: 2.5, standardDeviation: 40 },
+    });
+
+    expect(noisy.netValueDollars).toBeLessThan(calculateNetValue(baseInputs).netValueDollars);
+  });
+});
@@ -2,7 +2,9 @@
  * Integrated Net Value of Testing Calculation
  *
  * Implements a single coherent Monte Carlo simulation that computes the
- * net value of running an A/B test, accounting for timing effects.
+ * net value of running an A/B test, accounting for timing effects, plus
+ * deterministic equivalents: a closed form for Normal priors and quadrature
+ * for every other prior (the simulation is their cross-check in tests).
  *
  * Per audit recommendation (COD-01, COD-02, COD-03):
  * - Instead of computing EVSI and CoD separately and subtracting, this
@@ -22,43 +24,116 @@
  * 1. Test period: variant fraction gets treatment, control gets nothing
  * 2. Latency period: conservative assumption - no one gets treatment
  * 3. Post-decision period: based on posterior decision (ship or don't ship)
+ *
+ * Each period counts its discounted years within the decision horizon
+ * (see horizon.ts); the default horizon is one undiscounted year.
+ *
+ * Effect dynamics (optional, see effect-dynamics.ts): with a novelty effect
+ * the readout measures the lift averaged over the test, which the decision
+ * rule takes at face value, while each period is valued with the lift on
+ * its own days.
+ *
+ * Variance reduction (optional, see variance-reduction.ts): quasi-random
+ * points, antithetic pairs and a control variate built on the Normal closed
+ * form; the default is plain Monte Carlo.
+ *
+ * Conversion latency: the readout happens on the last test day, so users
+ * enrolled in the final conversionLatencyDays have no outcome yet. It adds
+ * no days to the timeline; by period:
+ * 1. Test period: unchanged; the whole enrolled sample is exposed and priced
+ * 2. Latency period: unchanged; it is decision latency only
+ * 3. Post-decision period: the decision reads only the matured share, so it
+ *    is noisier. conversionLatencyCostDollars is what this period loses
+ *    against the same test with every conversion read.
+ * So the cost of delay (cost-of-delay.ts) excludes it, while EVSI, which
+ * reads the same matured sample, already includes it.
+ *
+ * Group-sequential designs (simulation only, see sequential.ts): interim
+ * looks may stop the test early, shortening the test period. The fixed
+ * design is valued on the same draws, to report what early stopping adds.
  */
 
-import { sample, cdf, getPriorMean } from './distributions';
+import { sample, cdf, getPriorMean, type PriorDistribution } from './distributions';
+import { standardNormalPDF, standardNormalCDF } from './statistics';
 import { computePosteriorMean, computeEffectivePriorMetrics } from './evsi';
-import { seOfRelativeLift, sampleStandardNormal } from './abtest-math';
+import {
+  isValidMetric,
+  liftFeasibilityBounds,
+  readoutApproximationWarnings,
+  seOfRelativeLift,
+  sampleStandardNormal,
+} from './abtest-math';
+import { feasiblePrior, infeasibleMassWarning, readoutMoments } from './preposterior';
 import { determineDefaultDecision } from './derived';
-import type { NetValueInputs, NetValueResults, CalculationWarning } from './types';
+import { DEFAULT_HORIZON } from './horizon';
+import {
+  expectedPeriodGain,
+  noveltyWarning,
+  periodGain,
+  readoutLine,
+  type ReadoutLine,
+} from './effect-dynamics';
+import { maturedSampleFraction } from './sample-size';
+import { createSequentialMonitor } from './sequential';
+import { defaultRandom, type RandomSource } from './random';
+import {
+  createDrawStream,
+  createMeanEstimator,
+  isPlainSampling,
+  type SamplingOptions,
+} from './variance-reduction';
+import {
+  addSample,
+  createRunningMoments,
+  monteCarloError,
+  monteCarloErrorWarning,
+  standardErrorOfMean,
+} from './monte-carlo-error';
+import type {
+  NetValueInputs,
+  NetValueResults,
+  CalculationWarning,
+  DecisionHorizon,
+  EffectDynamics,
+  MonteCarloSimulation,
+} from './types';
 
 /**
  * Calculate baseline value (what happens without testing)
  *
- * Without a test, we use the default decision immediately for the full year.
- * This is our comparison point for net value.
+ * Without a test, we use the default decision immediately for the whole
+ * horizon. This is our comparison point for net value.
  *
  * Mathematical basis:
- * - If default is Ship: Value = K * (L_true - T_L) for full year
+ * - If default is Ship: Value = K * (L_true - T_L) * horizonYears
+ *   (plus the novelty's extra, with effect dynamics)
  *   This can be negative if L_true < T_L (regret from wrong decision)
- * - If default is Don't Ship: Value = 0 for full year
+ * - If default is Don't Ship: Value = 0 for the whole horizon
  *   No regret, no gain (threshold defines baseline)
  *
- * @param L_true - The actual true lift
+ * @param L_true - The actual true (long-run) lift
  * @param defaultDecision - What we'd do without testing
  * @param threshold_L - Threshold in lift units (T_L)
  * @param K - Annual dollars per unit lift
- * @returns Value relative to threshold baseline for full year
+ * @param horizon - Decision horizon
+ * @param effectDynamics - Novelty effect (undefined: constant lift)
+ * @returns Value relative to threshold baseline over the horizon
  */
 function calculateBaselineValue(
   L_true: number,
   defaultDecision: 'ship' | 'dont-ship',
   threshold_L: number,
-  K: number
+  K: number,
+  horizon: DecisionHorizon,
+  effectDynamics?: EffectDynamics
 ): number {
   if (defaultDecision === 'ship') {
-    // Ship now: get full year of treatment value (relative to threshold)
-    // K * (L_true - T_L) represents excess value above threshold
+    // Ship now: get the whole horizon of treatment value (relative to threshold)
+    // K * (L_true - T_L) represents excess annual value above threshold
     // Can be negative if L_true < T_L (regret from shipping bad change)
-    return K * (L_true - threshold_L);
+    return (
+      K * periodGain(L_true, threshold_L, 0, horizon.horizonDays, horizon, effectDynamics)
+    );
   } else {
     // Don't ship: get nothing (threshold defines baseline)
     return 0;
@@ -74,17 +149,21 @@ function calculateBaselineValue(
  * 3. Value after decision (based on posterior decision)
  *
  * Mathematical basis:
- * - Period 1 (test): valueDuringTest = f_var * K * (L_true - T_L) * (D_test / 365)
+ * - Period 1 (test): valueDuringTest = f_var * K * (L_true - T_L) * years(0, D_test)
  *   Only variant fraction receives treatment benefit during test
+ *   (years(a, b) is discountedYears: (b - a) / 365 for the default horizon)
  *
  * - Period 2 (latency): valueDuringLatency = 0
  *   Conservative assumption: no treatment during decision period
  *   (Alternative: variant continues - could be user setting)
  *
  * - Period 3 (post-decision): depends on posteriorDecision
- *   If ship: K * (L_true - T_L) * remainingFraction
+ *   If ship: K * (L_true - T_L) * years(D_test + D_latency, horizon end)
  *   If don't ship: 0
  *
+ * With effect dynamics each period also earns the novelty's extra over its
+ * days (periodGain).
+ *
  * @param L_true - The actual true lift
  * @param posteriorDecision - Decision made based on test result
  * @param params - Test parameters
@@ -99,6 +178,8 @@ function calculateIterationValue(
     variantFraction: number;
     testDurationDays: number;
     decisionLatencyDays: number;
+    horizon: DecisionHorizon;
+    effectDynamics?: EffectDynamics;
   }
 ): {
   valueDuringTest: number;
@@ -112,16 +193,24 @@ function calculateIterationValue(
     variantFraction,
     testDurationDays,
     decisionLatencyDays,
+    horizon,
+    effectDynamics,
   } = params;
 
   // ===========================================
-  // Time fractions (relative to 365-day year)
+  // Value per unit K of each period within the horizon
   // ===========================================
   // Each day is counted exactly once in one of three periods
-  const testFraction = testDurationDays / 365;
-  const latencyFraction = decisionLatencyDays / 365;
-  // Remaining fraction can be 0 if test + latency >= 365 days
-  const remainingFraction = Math.max(0, 1 - testFraction - latencyFraction);
+  const testGain = periodGain(L_true, threshold_L, 0, testDurationDays, horizon, effectDynamics);
+  // Remaining gain is 0 if test + latency outlast the horizon
+  const remainingGain = periodGain(
+    L_true,
+    threshold_L,
+    testDurationDays + decisionLatencyDays,
+    horizon.horizonDays,
+    horizon,
+    effectDynamics
+  );
 
   // ===========================================
   // Period 1: During test
@@ -132,8 +221,7 @@ function calculateIterationValue(
   //
   // Note: This can be negative if L_true < T_L (variant getting bad treatment)
   // but that's correct - it's a cost during the test period.
-  const valueDuringTest =
-    variantFraction * K * (L_true - threshold_L) * testFraction;
+  const valueDuringTest = variantFraction * K * testGain;
 
   // ===========================================
   // Period 2: During latency
@@ -144,19 +232,19 @@ function calculateIterationValue(
   //
   // Alternative: could model "variant continues" policy where variant
   // group keeps getting treatment during latency. This would be:
-  // const valueDuringLatency = variantFraction * K * (L_true - threshold_L) * latencyFraction;
+  // const valueDuringLatency = variantFraction * K * (L_true - threshold_L) * latencyYears;
   // Currently using conservative (0) per audit recommendation.
   const valueDuringLatency = 0;
 
   // ===========================================
-  // Period 3: After decision (remaining year)
+  // Period 3: After decision (rest of the horizon)
   // ===========================================
   // If posterior decision is Ship: full traffic gets treatment
   // If posterior decision is Don't Ship: no one gets treatment
   let valueAfterDecision: number;
   if (posteriorDecision === 'ship') {
-    // Ship based on test result: get remaining fraction of annual value
-    valueAfterDecision = K * (L_true - threshold_L) * remainingFraction;
+    // Ship based on test result: get the rest of the horizon's value
+    valueAfterDecision = K * remainingGain;
   } else {
     // Don't ship based on test result: get nothing for remaining period
     valueAfterDecision = 0;
@@ -174,16 +262,64 @@ function calculateIterationValue(
 }
 
 /**
- * Calculate Net Value using integrated Monte Carlo simulation
+ * Warnings about the test readout, shared by all net value paths
  *
- * This is the main entry point for the integrated calculation.
- * Instead of computing EVSI and CoD separately, it simulates:
- * 1. Value with test (three periods: test, latency, post-decision)
- * 2. Value without test (default decision for full year)
- * 3. Net value = avgValueWithTest - avgValueWithoutTest
+ * - rare_events (Accuracy-08) / heavy_tailed_metric: the Normal
+ *   approximation for lift becomes unreliable with too few matured
+ *   conversions (or visitors, for a skewed metric) per arm
+ * - immature_conversions: latency leaves most of the sample unreadable at
+ *   test end
+ * - novelty_effect: the readout still carries much of a novelty effect
+ */
+function readoutWarnings(
+  n_matured_control: number,
+  n_matured_variant: number,
+  CR0: number,
+  metric: NetValueInputs['metric'],
+  maturedFraction: number,
+  conversionLatencyDays: number,
+  testDurationDays: number,
+  effectDynamics: EffectDynamics | undefined
+): CalculationWarning[] {
+  const warnings = readoutApproximationWarnings(n_matured_control, n_matured_variant, CR0, metric);
+
+  if (maturedFraction < 0.5) {
+    warnings.push({
+      code: 'immature_conversions',
+      message: `Conversion latency (${conversionLatencyDays} days) means only ${Math.round(maturedFraction * 100)}% of enrolled users will have converted by the end of the test. Consider running the test longer.`,
+    });
+  }
+
+  const novelty = noveltyWarning(effectDynamics, testDurationDays * maturedFraction);
+  if (novelty) {
+    warnings.push(novelty);
+  }
+
+  return warnings;
+}
+
+/**
+ * Simulation that always returns the same result (degenerate inputs)
+ */
+function fixedSimulation(result: NetValueResults): MonteCarloSimulation<NetValueResults> {
+  return {
+    run: () => {},
+    numSamples: () => 0,
+    estimate: () => result.netValueDollars,
+    standardError: () => 0,
+    results: () => result,
+  };
+}
+
+/**
+ * Create a resumable Net Value simulation
  *
- * Algorithm:
- * For each Monte Carlo iteration:
+ * Setup (validation, SE, default decision, effective prior metrics) happens
+ * once; run() then draws batches of samples from the same random stream, so
+ * any sequence of run() calls totalling n gives the same result as a single
+ * calculateNetValueMonteCarlo(inputs, n, rng). Used for adaptive sampling.
+ *
+ * Algorithm (per accepted draw):
  *   a. Sample L_true from prior
  *   b. Feasibility check: reject if CR1 = CR0*(1+L) outside [0,1]
  *   c. Calculate valueWithoutTest (baseline using default decision)
@@ -191,19 +327,23 @@ function calculateIterationValue(
  *   e. Compute posteriorMean via computePosteriorMean (Bayesian optimal)
  *   f. Make posterior decision based on posteriorMean >= threshold_L
  *   g. Calculate valueWithTest (three periods)
- *   h. Accumulate sums
+ *   h. Sequential design: fill in the interim readouts, and if a look stops
+ *      the test, recompute valueWithTest with the shorter test period
+ *   i. Accumulate sums
  *
- * Net value = avgValueWithTest - avgValueWithoutTest
- * Clamped to max(0, netValue) because information can't hurt.
+ * With variance reduction, draws come from the truncated prior by inverse
+ * CDF (no step b), and the control repeats c-g under the Normal control prior.
  *
  * @param inputs - Net value calculation parameters
- * @param numSamples - Number of Monte Carlo samples (default 5000)
- * @returns Net value results with supporting metrics
+ * @param rng - Uniform random source for all draws (default Math.random)
+ * @param sampling - Variance reduction options (default: plain Monte Carlo)
+ * @returns Simulation handle
  */
-export function calculateNetValueMonteCarlo(
+export function createNetValueSimulation(
   inputs: NetValueInputs,
-  numSamples: number = 5000
-): NetValueResults {
+  rng: RandomSource = defaultRandom,
+  sampling: SamplingOptions = {}
+): MonteCarloSimulation<NetValueResults> {
   const {
     K,
     baselineConversionRate,
@@ -214,6 +354,11 @@ export function calculateNetValueMonteCarlo(
     testDurationDays,
     variantFraction,
     decisionLatencyDays,
+    conversionLatencyDays = 0,
+    metric,
+    sequential,
+    horizon = DEFAULT_HORIZON,
+    effectDynamics,
   } = inputs;
 
   // ===========================================
@@ -228,33 +373,36 @@ export function calculateNetValueMonteCarlo(
     const defaultDecision = determineDefaultDecision(priorMean, threshold_L);
     const probClearsThreshold = 1 - cdf(threshold_L, prior);
 
-    return {
+    return fixedSimulation({
       netValueDollars: 0,
       maxTestBudgetDollars: 0,
       defaultDecision,
       probabilityClearsThreshold: probClearsThreshold,
       probabilityTestChangesDecision: 0,
+      conversionLatencyCostDollars: 0,
       numSamples: 0,
       numRejected: 0,
-    };
+    });
   }
 
   // Guard: CR0 must be strictly in (0, 1)
   // CR0=0 causes division by zero in SE formula
   // CR0=1 collapses feasibility bounds (L_max = 0)
-  if (!(CR0 > 0 && CR0 < 1)) {
+  // (continuous and ratio metrics: positive means and variance)
+  if (!isValidMetric(CR0, metric)) {
     const priorMean = getPriorMean(prior);
     const defaultDecision = determineDefaultDecision(priorMean, threshold_L);
 
-    return {
+    return fixedSimulation({
       netValueDollars: 0,
       maxTestBudgetDollars: 0,
       defaultDecision,
       probabilityClearsThreshold: 0.5, // Indeterminate
       probabilityTestChangesDecision: 0,
+      conversionLatencyCostDollars: 0,
       numSamples: 0,
       numRejected: 0,
-    };
+    });
   }
 
   // ===========================================
@@ -264,27 +412,35 @@ export function calculateNetValueMonteCarlo(
   // For relative lift L = (CR1 - CR0) / CR0:
   //   SE(L) = sqrt(CR0*(1-CR0) * (1/n_control + 1/n_variant)) / CR0
   //         = sqrt((1-CR0)/CR0 * (1/n_control + 1/n_variant))
-  // Calculate SE using shared seOfRelativeLift
-  const SE = seOfRelativeLift(CR0, n_control, n_variant);
+  // Calculate SE using shared seOfRelativeLift (which also covers
+  // continuous and ratio metrics)
+  //
+  // Conversion latency: only the matured share of each arm is readable, so
+  // the decision uses SE from the matured counts. SE_full (everyone matured)
+  // is kept to price the latency on the same draws.
+  const maturedFraction = maturedSampleFraction(testDurationDays, conversionLatencyDays);
+  const n_matured_control = n_control * maturedFraction;
+  const n_matured_variant = n_variant * maturedFraction;
+  const hasLatency = maturedFraction < 1;
+  const SE_full = seOfRelativeLift(CR0, n_control, n_variant, metric);
+  // With nothing matured the readout carries no information (SE = Infinity)
+  const SE = hasLatency
+    ? seOfRelativeLift(CR0, n_matured_control, n_matured_variant, metric)
+    : SE_full;
 
   // ===========================================
-  // Step 2.5: Check for rare events warning (Accuracy-08)
+  // Step 2.5: Readout warnings (rare events, immature conversions)
   // ===========================================
-  // The Normal approximation for lift becomes unreliable when expected
-  // conversions per arm are low (<20). Warn user to consider alternatives.
-  // Threshold condition: min(n_control * CR0, n_variant * CR0) < 20
-  const warnings: CalculationWarning[] = [];
-  const expectedConvControl = n_control * CR0;
-  const expectedConvVariant = n_variant * CR0;
-  const minExpectedConversions = Math.min(expectedConvControl, expectedConvVariant);
-
-  if (minExpectedConversions < 20) {
-    warnings.push({
-      code: 'rare_events',
-      message:
-        'Expected conversions per group are low (<20). The normal approximation for lift may be less accurate. Consider increasing test duration or traffic.',
-    });
-  }
+  const inputWarnings = readoutWarnings(
+    n_matured_control,
+    n_matured_variant,
+    CR0,
+    metric,
+    maturedFraction,
+    conversionLatencyDays,
+    testDurationDays,
+    effectDynamics
+  );
 
   // ===========================================
   // Step 3: Determine prior mean and default decision
@@ -311,7 +467,15 @@ export function calculateNetValueMonteCarlo(
     (prior.type === 'normal' && prior.sigma_L! > Math.abs(prior.mu_L! + 1));
 
   if (needsEffectiveMetrics) {
-    const effective = computeEffectivePriorMetrics(prior, threshold_L, CR0);
+    const effective = computeEffectivePriorMetrics(
+      prior,
+      threshold_L,
+      CR0,
+      2000,
+      rng,
+      sampling,
+      metric
+    );
     effectiveProbClears = effective.effectiveProbClears;
   }
 
@@ -323,55 +487,104 @@ export function calculateNetValueMonteCarlo(
   // ===========================================
   // CR1 = CR0 * (1 + L) must be in [0, 1]
   // L_min = -1 (CR1 = 0)
-  // L_max = (1/CR0) - 1 (CR1 = 1)
-  const L_min = -1;
-  const L_max = 1 / CR0 - 1;
+  // L_max = (1/CR0) - 1 (CR1 = 1); no upper bound for continuous and ratio metrics
+  const { L_min, L_max } = liftFeasibilityBounds(CR0, metric);
 
   // ===========================================
-  // Step 5: Monte Carlo simulation
+  // Step 5: Monte Carlo simulation state (accumulates across run() calls)
   // ===========================================
   let sumValueWithTest = 0;
+  // Fixed design on the same draws (equals sumValueWithTest without interim looks)
+  let sumFixedValueWithTest = 0;
+  let sumValueWithTestNoLatency = 0;
+  let sumTestDays = 0;
+  let earlyStops = 0;
   let sumValueWithoutTest = 0;
   let validSamples = 0;
   let rejectedSamples = 0;
   let decisionChanges = 0;
+  // Per-draw (value with test - value without test), for the standard error
+  const netValuePerDraw = createRunningMoments();
+
+  // Variance-reduced engine: draws from the truncated prior (no rejection);
+  // the control is the same draw under a Normal prior, whose net value has
+  // a closed form
+  const plain = isPlainSampling(sampling);
+  const stream = plain ? null : createDrawStream(prior, CR0, sampling, rng, metric);
+  const controlPrior = stream?.controlPrior ?? null;
+  const controlDefault = controlPrior
+    ? determineDefaultDecision(controlPrior.mu_L!, threshold_L)
+    : defaultDecision;
+  const estimator = createMeanEstimator(
+    controlPrior
+      ? calculateNetValueNormalFastPath({ ...inputs, prior: controlPrior }).netValueDollars
+      : undefined
+  );
 
-  const maxIterations = numSamples * 10; // Cap to prevent infinite loops
-  let iterations = 0;
+  const timing = {
+    threshold_L,
+    K,
+    variantFraction,
+    testDurationDays,
+    decisionLatencyDays,
+    horizon,
+    effectDynamics,
+  };
 
-  while (validSamples < numSamples && iterations < maxIterations) {
-    iterations++;
+  // What the matured readout (and a fully matured one) measures
+  const line = readoutLine(effectDynamics, testDurationDays * maturedFraction);
+  const lineFull = readoutLine(effectDynamics, testDurationDays);
+  const measured = (L: number, readout: ReadoutLine) => readout.scale * L + readout.shift;
 
-    // Sample true lift from prior
-    const L_true = sample(prior);
+  const monitor = sequential
+    ? createSequentialMonitor(sequential, {
+        testDurationDays,
+        conversionLatencyDays,
+        SE_final: SE,
+        threshold_L,
+        prior,
+        CR0,
+        metric,
+      })
+    : null;
 
-    // Feasibility check: CR1 must be in [0, 1]
-    if (L_true < L_min || L_true > L_max) {
-      rejectedSamples++;
-      continue;
+  const decideFromReadout = (
+    L_hat: number,
+    se: number,
+    decisionPrior: PriorDistribution = prior,
+    decisionDefault: 'ship' | 'dont-ship' = defaultDecision
+  ): 'ship' | 'dont-ship' => {
+    if (!Number.isFinite(se)) {
+      return decisionDefault;
     }
+    const posteriorMean = computePosteriorMean(L_hat, se, decisionPrior, CR0, metric);
+    return posteriorMean >= threshold_L ? 'ship' : 'dont-ship';
+  };
 
+  // Net value of one accepted draw (updates the sums and counters)
+  const recordDraw = (L_true: number, z: number): number => {
     validSamples++;
 
     // ===========================================
     // Value WITHOUT test (use default decision)
     // ===========================================
     // This is the baseline: what happens if we don't test.
-    // Apply default decision for the full year.
+    // Apply default decision for the whole horizon.
     const valueWithoutTest = calculateBaselineValue(
       L_true,
       defaultDecision,
       threshold_L,
-      K
+      K,
+      horizon,
+      effectDynamics
     );
 
     // ===========================================
     // Simulate test outcome
     // ===========================================
     // L_hat = L_true + noise, noise ~ N(0, SE)
-    // Uses shared sampleStandardNormal (Box-Muller with guard against log(0))
-    const z = sampleStandardNormal();
-    const L_hat = L_true + SE * z;
+    // (with effect dynamics, the lift averaged over the readout's days)
+    const L_hat = measured(L_true, line) + SE * z;
 
     // ===========================================
     // Make posterior decision based on test result
@@ -379,92 +592,630 @@ export function calculateNetValueMonteCarlo(
     // Compute posterior mean E[L|L_hat] for Bayesian decision rule
     // The posterior mean incorporates prior information, shrinking L_hat
     // toward the prior mean when the test data is noisy.
-    const posteriorMean = computePosteriorMean(L_hat, SE, prior, CR0);
+    //
+    // If no conversions have matured the test is uninformative and the
+    // decision falls back to the default.
+    const fixedDecision = decideFromReadout(L_hat, SE);
 
-    // Decision based on POSTERIOR MEAN, not raw sample L_hat
-    // E[L|L_hat] >= T is the correct Bayesian decision rule
-    const posteriorDecision =
-      posteriorMean >= threshold_L ? 'ship' : 'dont-ship';
+    // ===========================================
+    // Value WITH test (three periods)
+    // ===========================================
+    const fixedValue = calculateIterationValue(L_true, fixedDecision, timing);
+
+    // ===========================================
+    // Sequential design: an interim look may stop the test early
+    // ===========================================
+    // The interim readouts are consistent with L_hat, so the fixed value
+    // above is this draw's value had the test run to the end
+    // (interim readouts share the final readout's novelty)
+    const earlyStop = monitor?.stop(measured(L_true, line), z, rng) ?? null;
+    const posteriorDecision = earlyStop?.decision ?? fixedDecision;
+    const iterationValue = earlyStop
+      ? calculateIterationValue(L_true, earlyStop.decision, {
+          ...timing,
+          testDurationDays: earlyStop.day,
+        })
+      : fixedValue;
+    if (earlyStop) {
+      earlyStops++;
+    }
+    sumTestDays += earlyStop?.day ?? testDurationDays;
 
     // Track decision changes
     if (posteriorDecision !== defaultDecision) {
       decisionChanges++;
     }
 
+    sumValueWithTest += iterationValue.totalValue;
+    sumFixedValueWithTest += fixedValue.totalValue;
+    sumValueWithoutTest += valueWithoutTest;
+
     // ===========================================
-    // Value WITH test (three periods)
+    // Same draw, zero conversion latency (for latency cost)
+    // ===========================================
+    // Reuses L_true and z so the difference isolates the latency effect
+    // (on the fixed design)
+    if (hasLatency) {
+      const fullDecision = decideFromReadout(measured(L_true, lineFull) + SE_full * z, SE_full);
+      sumValueWithTestNoLatency += calculateIterationValue(
+        L_true,
+        fullDecision,
+        timing
+      ).totalValue;
+    } else {
+      sumValueWithTestNoLatency += fixedValue.totalValue;
+    }
+
+    return iterationValue.totalValue - valueWithoutTest;
+  };
+
+  // The same draw under the control prior (net value only)
+  const controlDraw = (L_control: number, z: number, control: PriorDistribution): number => {
+    const decision = decideFromReadout(
+      measured(L_control, line) + SE * z,
+      SE,
+      control,
+      controlDefault
+    );
+    return (
+      calculateIterationValue(L_control, decision, timing).totalValue -
+      calculateBaselineValue(L_control, controlDefault, threshold_L, K, horizon, effectDynamics)
+    );
+  };
+
+  const runPlain = (numSamples: number) => {
+    const target = validSamples + numSamples;
+    const maxIterations = numSamples * 10; // Cap to prevent infinite loops
+    let iterations = 0;
+
+    while (validSamples < target && iterations < maxIterations) {
+      iterations++;
+
+      // Sample true lift from prior
+      const L_true = sample(prior, rng);
+
+      // Feasibility check: CR1 must be in [0, 1]
+      if (L_true < L_min || L_true > L_max) {
+        rejectedSamples++;
+        continue;
+      }
+
+      // Uses shared sampleStandardNormal (Box-Muller with guard against log(0))
+      const z = sampleStandardNormal(rng);
+      addSample(netValuePerDraw, recordDraw(L_true, z));
+    }
+  };
+
+  const runReduced = (numSamples: number) => {
+    const target = validSamples + numSamples;
+
+    while (stream && validSamples < target) {
+      // One draw, or an antithetic pair averaged into one sample
+      const group = stream.next();
+      let groupNetValue = 0;
+      let groupControl = 0;
+      for (const { lift, noise, controlLift } of group) {
+        groupNetValue += recordDraw(lift, noise);
+        if (controlPrior && controlLift !== undefined) {
+          groupControl += controlDraw(controlLift, noise, controlPrior);
+        }
+      }
+      estimator.add(
+        groupNetValue / group.length,
+        controlPrior ? groupControl / group.length : undefined
+      );
+    }
+  };
+
+  // Net Value = E[Value with test] - E[Value without test]
+  const estimate = () => {
+    if (validSamples === 0) {
+      return 0;
+    }
+    return plain
+      ? sumValueWithTest / validSamples - sumValueWithoutTest / validSamples
+      : estimator.mean();
+  };
+
+  const standardError = () =>
+    plain ? standardErrorOfMean(netValuePerDraw) : estimator.standardError();
+
+  const results = (): NetValueResults => {
+    const warnings = [...inputWarnings];
+
+    // ===========================================
+    // Step 5.5: Check for high rejection rate warning (Edge Case 6)
     // ===========================================
-    const iterationValue = calculateIterationValue(L_true, posteriorDecision, {
+    // High rejection indicates prior places substantial mass outside feasible bounds.
+    // This can lead to metrics that don't reflect the full prior distribution.
+    // Threshold: >10% rejection rate triggers warning.
+    // The variance-reduced engine rejects nothing; it warns on the excluded mass.
+    const totalAttempted = validSamples + rejectedSamples;
+    if (!plain) {
+      const massWarning = infeasibleMassWarning(stream?.mass ?? 0);
+      if (massWarning) {
+        warnings.push(massWarning);
+      }
+    } else if (totalAttempted > 0) {
+      const rejectionRate = rejectedSamples / totalAttempted;
+      if (rejectionRate > 0.10) {
+        warnings.push({
+          code: 'high_rejection',
+          message: `High rejection rate (${Math.round(rejectionRate * 100)}%) due to prior mass outside feasible conversion bounds. Consider narrowing prior or adjusting baseline rate.`,
+        });
+      }
+    }
+
+    // ===========================================
+    // Guard: Handle zero valid samples edge case
+    // ===========================================
+    if (validSamples === 0) {
+      return {
+        netValueDollars: 0,
+        maxTestBudgetDollars: 0,
+        defaultDecision,
+        probabilityClearsThreshold: probClearsThreshold,
+        probabilityTestChangesDecision: 0,
+        conversionLatencyCostDollars: 0,
+        numSamples: 0,
+        numRejected: rejectedSamples,
+        ...(warnings.length > 0 && { warnings }),
+      };
+    }
+
+    // ===========================================
+    // Step 6: Calculate Net Value
+    // ===========================================
+    // This is the coherent "EVSI - CoD" computed in one simulation
+    // NOTE: Net value CAN be negative when testing delays beneficial rollout
+    // or exposes users to harm during test period. This is NOT Monte Carlo noise.
+    const netValueDollars = estimate();
+
+    // Monte Carlo error of the net value (not clamped: net value can be negative)
+    const netValueError = monteCarloError(netValueDollars, standardError());
+    const errorWarning = monteCarloErrorWarning('net value', netValueDollars, netValueError);
+    if (errorWarning) {
+      warnings.push(errorWarning);
+    }
+
+    // Max test budget: what you should pay for a test (cannot be negative)
+    // Use this for budget decisions; preserve raw netValueDollars for analysis
+    const maxTestBudgetDollars = Math.max(0, netValueDollars);
+
+    const probabilityTestChangesDecision = decisionChanges / validSamples;
+
+    // Value the zero-latency test would have added over this one
+    const conversionLatencyCostDollars =
+      (sumValueWithTestNoLatency - sumFixedValueWithTest) / validSamples;
+
+    return {
+      netValueDollars,
+      maxTestBudgetDollars,
+      defaultDecision,
+      probabilityClearsThreshold: probClearsThreshold,
+      probabilityTestChangesDecision,
+      conversionLatencyCostDollars,
+      ...(sequential && {
+        expectedTestDurationDays: sumTestDays / validSamples,
+        probabilityStopEarly: earlyStops / validSamples,
+        earlyStoppingGainDollars: (sumValueWithTest - sumFixedValueWithTest) / validSamples,
+      }),
+      netValueError,
+      numSamples: validSamples,
+      numRejected: rejectedSamples,
+      ...(warnings.length > 0 && { warnings }),
+    };
+  };
+
+  return {
+    run: plain ? runPlain : runReduced,
+    numSamples: () => validSamples,
+    estimate,
+    standardError,
+    results,
+  };
+}
+
+/**
+ * Calculate Net Value using integrated Monte Carlo simulation
+ *
+ * This is the main entry point for the integrated calculation.
+ * Instead of computing EVSI and CoD separately, it simulates:
+ * 1. Value with test (three periods: test, latency, post-decision)
+ * 2. Value without test (default decision for the whole horizon)
+ * 3. Net value = avgValueWithTest - avgValueWithoutTest
+ *
+ * See createNetValueSimulation for the per-draw algorithm; this runs it for
+ * a fixed number of accepted samples.
+ *
+ * @param inputs - Net value calculation parameters
+ * @param numSamples - Number of Monte Carlo samples (default 5000)
+ * @param rng - Uniform random source for all draws (default Math.random); a
+ *   seeded source makes the result reproducible. Passing generators with the
+ *   same seed gives common random numbers across calls whose inputs differ
+ *   only in design or timing.
+ * @param sampling - Variance reduction options (default: plain Monte Carlo)
+ * @returns Net value results with supporting metrics
+ */
+export function calculateNetValueMonteCarlo(
+  inputs: NetValueInputs,
+  numSamples: number = 5000,
+  rng: RandomSource = defaultRandom,
+  sampling: SamplingOptions = {}
+): NetValueResults {
+  const simulation = createNetValueSimulation(inputs, rng, sampling);
+  simulation.run(numSamples);
+  return simulation.results();
+}
+
+/**
+ * Ship decision moments for a Normal prior: E[(L - T) * ship] and P(ship)
+ *
+ * The readout is Y = scale * L + shift + SE * z (scale 1, shift 0 without
+ * effect dynamics) and the posterior mean m = mu + w * (Y - mu), with
+ * w = sigma^2 / (sigma^2 + SE^2), ships iff m >= T, i.e. iff Y >= c with
+ * c = mu + (T - mu) / w. L and Y are jointly Normal, so with
+ * Y ~ N(scale * mu + shift, scale^2 * sigma^2 + SE^2) and
+ * d = (E[Y] - c) / sd(Y):
+ * - P(ship) = Phi(d)
+ * - E[(L - T) * ship] = (mu - T) * Phi(d) + scale * sigma^2 / sd(Y) * phi(d)
+ * Without effect dynamics this is E[(m - T)+] for the pre-posterior
+ * m ~ N(mu, s^2), s = sigma^2 / sd(Y). An uninformative readout (infinite
+ * SE, or sigma = 0) keeps the default decision.
+ */
+function normalShipMoments(
+  mu: number,
+  sigma: number,
+  SE: number,
+  threshold_L: number,
+  line: ReadoutLine
+): { shipGain: number; shipProbability: number } {
+  if (!Number.isFinite(SE) || sigma === 0) {
+    const ship = mu >= threshold_L;
+    return { shipGain: ship ? mu - threshold_L : 0, shipProbability: ship ? 1 : 0 };
+  }
+  const prior_variance = sigma * sigma;
+  const w = prior_variance / (prior_variance + SE * SE);
+  const cutoff = mu + (threshold_L - mu) / w;
+  const sdY = Math.sqrt(line.scale * line.scale * prior_variance + SE * SE);
+  const d = (line.scale * mu + line.shift - cutoff) / sdY;
+  const shipProbability = standardNormalCDF(d);
+  return {
+    shipGain:
+      (mu - threshold_L) * shipProbability +
+      ((line.scale * prior_variance) / sdY) * standardNormalPDF(d),
+    shipProbability,
+  };
+}
+
+/**
+ * Calculate Net Value in closed form for a Normal prior
+ *
+ * Same model as calculateNetValueMonteCarlo, without sampling: the value
+ * of each period is linear in true lift, and the ship decision depends on
+ * the posterior mean m, so every expectation has a closed form. Like
+ * calculateEVSINormalFastPath, it ignores the feasibility truncation of
+ * the prior (negligible unless sigma is comparable to 1 + mu).
+ *
+ * Mathematical basis (per unit K, periods in discounted years of the horizon):
+ * - Prior L ~ N(mu, sigma^2); readout SE from the matured sample
+ * - Pre-posterior: m ~ N(mu, s^2), s^2 = sigma^4 / (sigma^2 + SE^2)
+ * - E[L - T | ship after test] integrates to E[(m - T)+]
+ *   = (mu - T) * Phi(d) + s * phi(d), d = (mu - T) / s
+ * - With test:    f_var * (mu - T) * testFraction + remainingFraction * E[(m - T)+]
+ * - Without test: (mu - T)+ * horizonYears (ship by default iff mu >= T)
+ * - Latency (decision) period contributes 0, as in the simulation
+ * - Conversion latency cost: the same with SE from the full sample, minus
+ *   the matured-sample value
+ * - Effect dynamics: the readout is linear in L and so is each period's
+ *   value, so the expectations stay closed-form (normalShipMoments,
+ *   expectedPeriodGain)
+ *
+ * @param inputs - Net value calculation parameters (must have Normal prior)
+ * @returns Net value results (exact: no Monte Carlo error or sample count)
+ */
+export function calculateNetValueNormalFastPath(inputs: NetValueInputs): NetValueResults {
+  const {
+    K,
+    baselineConversionRate,
+    threshold_L,
+    prior,
+    n_control,
+    n_variant,
+    testDurationDays,
+    variantFraction,
+    decisionLatencyDays,
+    conversionLatencyDays = 0,
+    metric,
+    horizon = DEFAULT_HORIZON,
+    effectDynamics,
+  } = inputs;
+
+  if (prior.type !== 'normal') {
+    throw new Error('Normal fast path requires Normal prior');
+  }
+
+  const mu = prior.mu_L!;
+  const sigma = prior.sigma_L!;
+  const CR0 = baselineConversionRate;
+  const defaultDecision = determineDefaultDecision(mu, threshold_L);
+
+  // ===========================================
+  // Guards (same results as the simulation's)
+  // ===========================================
+  const validMetric = isValidMetric(CR0, metric);
+  if (n_control <= 0 || n_variant <= 0 || !validMetric) {
+    const probClearsThreshold = !validMetric
+      ? 0.5 // Indeterminate
+      : sigma === 0
+        ? (mu >= threshold_L ? 1 : 0)
+        : 1 - standardNormalCDF((threshold_L - mu) / sigma);
+
+    return {
+      netValueDollars: 0,
+      maxTestBudgetDollars: 0,
+      defaultDecision,
+      probabilityClearsThreshold: probClearsThreshold,
+      probabilityTestChangesDecision: 0,
+      conversionLatencyCostDollars: 0,
+    };
+  }
+
+  // ===========================================
+  // Readout noise (matured sample) and warnings
+  // ===========================================
+  const maturedFraction = maturedSampleFraction(testDurationDays, conversionLatencyDays);
+  const n_matured_control = n_control * maturedFraction;
+  const n_matured_variant = n_variant * maturedFraction;
+  const SE_full = seOfRelativeLift(CR0, n_control, n_variant, metric);
+  const SE =
+    maturedFraction < 1
+      ? seOfRelativeLift(CR0, n_matured_control, n_matured_variant, metric)
+      : SE_full;
+  const warnings = readoutWarnings(
+    n_matured_control,
+    n_matured_variant,
+    CR0,
+    metric,
+    maturedFraction,
+    conversionLatencyDays,
+    testDurationDays,
+    effectDynamics
+  );
+
+  // ===========================================
+  // Period values (per unit K)
+  // ===========================================
+  // A period everyone is on (the test's variant, or shipping by default)
+  const periodValue = (startDay: number, endDay: number) =>
+    expectedPeriodGain(mu - threshold_L, 1, threshold_L, startDay, endDay, horizon, effectDynamics);
+  // The post-decision period, on a ship decision from the readout
+  const valueAfterDecision = (moments: { shipGain: number; shipProbability: number }) =>
+    expectedPeriodGain(
+      moments.shipGain,
+      moments.shipProbability,
       threshold_L,
-      K,
-      variantFraction,
-      testDurationDays,
-      decisionLatencyDays,
-    });
+      testDurationDays + decisionLatencyDays,
+      horizon.horizonDays,
+      horizon,
+      effectDynamics
+    );
 
-    sumValueWithTest += iterationValue.totalValue;
-    sumValueWithoutTest += valueWithoutTest;
+  const ship = normalShipMoments(
+    mu,
+    sigma,
+    SE,
+    threshold_L,
+    readoutLine(effectDynamics, testDurationDays * maturedFraction)
+  );
+  const valueDuringTest = variantFraction * periodValue(0, testDurationDays);
+  const valueWithTest = valueDuringTest + valueAfterDecision(ship);
+  const valueWithoutTest =
+    defaultDecision === 'ship' ? periodValue(0, horizon.horizonDays) : 0;
+
+  const netValueDollars = K * (valueWithTest - valueWithoutTest);
+
+  // Zero-latency test on the same model, for the conversion latency cost
+  const shipFull = normalShipMoments(
+    mu,
+    sigma,
+    SE_full,
+    threshold_L,
+    readoutLine(effectDynamics, testDurationDays)
+  );
+  const conversionLatencyCostDollars =
+    K * (valueAfterDecision(shipFull) - valueAfterDecision(ship));
+
+  // ===========================================
+  // Probabilities
+  // ===========================================
+  const probabilityClearsThreshold =
+    sigma === 0
+      ? (mu >= threshold_L ? 1 : 0)
+      : 1 - standardNormalCDF((threshold_L - mu) / sigma);
+
+  // The decision changes when m lands on the other side of the threshold
+  const probabilityTestChangesDecision =
+    defaultDecision === 'ship' ? 1 - ship.shipProbability : ship.shipProbability;
+
+  return {
+    netValueDollars,
+    maxTestBudgetDollars: Math.max(0, netValueDollars),
+    defaultDecision,
+    probabilityClearsThreshold,
+    probabilityTestChangesDecision,
+    conversionLatencyCostDollars,
+    ...(warnings.length > 0 && { warnings }),
+  };
+}
+
+/**
+ * Calculate Net Value by integration for every non-Normal prior
+ *
+ * Same model as calculateNetValueMonteCarlo (feasibility-truncated prior,
+ * posterior-mean decision on the matured readout), integrated instead of
+ * sampled: see preposterior.ts. Exact up to quadrature tolerance, so there
+ * is no Monte Carlo error or sample count.
+ *
+ * Per unit K, over the truncated prior, with ship(L) the probability that
+ * the readout leads to shipping given true lift L:
+ * - With test:    f_var * E[L - T] * testFraction + remainingFraction * E[(L - T) * ship(L)]
+ * - Without test: E[L - T] * horizonYears if the default is ship, else 0
+ * - Conversion latency cost: the post-decision term with the full-sample
+ *   readout, minus the matured-sample one
+ * - Effect dynamics: ship(L) uses the readout's mean for L (readoutLine),
+ *   and E[L * ship(L)] gives the novelty's share (expectedPeriodGain)
+ *
+ * @param inputs - Net value calculation parameters (any non-Normal prior)
+ * @returns Net value results
+ */
+export function calculateNetValueQuadrature(inputs: NetValueInputs): NetValueResults {
+  const {
+    K,
+    baselineConversionRate,
+    threshold_L,
+    prior,
+    n_control,
+    n_variant,
+    testDurationDays,
+    variantFraction,
+    decisionLatencyDays,
+    conversionLatencyDays = 0,
+    metric,
+    horizon = DEFAULT_HORIZON,
+    effectDynamics,
+  } = inputs;
+
+  if (prior.type === 'normal') {
+    throw new Error(`Quadrature path is for non-Normal priors, got a ${prior.type} prior`);
   }
 
+  const CR0 = baselineConversionRate;
+  const defaultDecision = determineDefaultDecision(getPriorMean(prior), threshold_L);
+
   // ===========================================
-  // Step 5.5: Check for high rejection rate warning (Edge Case 6)
+  // Guards (same results as the simulation's, without sample counts)
   // ===========================================
-  // High rejection indicates prior places substantial mass outside feasible bounds.
-  // This can lead to metrics that don't reflect the full prior distribution.
-  // Threshold: >10% rejection rate triggers warning.
-  const totalAttempted = validSamples + rejectedSamples;
-  if (totalAttempted > 0) {
-    const rejectionRate = rejectedSamples / totalAttempted;
-    if (rejectionRate > 0.10) {
-      warnings.push({
-        code: 'high_rejection',
-        message: `High rejection rate (${Math.round(rejectionRate * 100)}%) due to prior mass outside feasible conversion bounds. Consider narrowing prior or adjusting baseline rate.`,
-      });
-    }
+  const validMetric = isValidMetric(CR0, metric);
+  if (n_control <= 0 || n_variant <= 0 || !validMetric) {
+    return {
+      netValueDollars: 0,
+      maxTestBudgetDollars: 0,
+      defaultDecision,
+      probabilityClearsThreshold: validMetric ? 1 - cdf(threshold_L, prior) : 0.5,
+      probabilityTestChangesDecision: 0,
+      conversionLatencyCostDollars: 0,
+    };
   }
 
   // ===========================================
-  // Guard: Handle zero valid samples edge case
+  // Readout noise (matured sample) and warnings
   // ===========================================
-  if (validSamples === 0) {
+  const maturedFraction = maturedSampleFraction(testDurationDays, conversionLatencyDays);
+  const n_matured_control = n_control * maturedFraction;
+  const n_matured_variant = n_variant * maturedFraction;
+  const SE_full = seOfRelativeLift(CR0, n_control, n_variant, metric);
+  const SE =
+    maturedFraction < 1
+      ? seOfRelativeLift(CR0, n_matured_control, n_matured_variant, metric)
+      : SE_full;
+  const warnings = readoutWarnings(
+    n_matured_control,
+    n_matured_variant,
+    CR0,
+    metric,
+    maturedFraction,
+    conversionLatencyDays,
+    testDurationDays,
+    effectDynamics
+  );
+
+  // No prior mass in the feasible range: nothing to learn
+  const feasible = feasiblePrior(prior, CR0, metric);
+  const massWarning = infeasibleMassWarning(feasible?.mass ?? 0);
+  if (massWarning) {
+    warnings.push(massWarning);
+  }
+  if (!feasible) {
     return {
       netValueDollars: 0,
       maxTestBudgetDollars: 0,
       defaultDecision,
-      probabilityClearsThreshold: probClearsThreshold,
+      probabilityClearsThreshold: 1 - cdf(threshold_L, prior),
       probabilityTestChangesDecision: 0,
-      numSamples: 0,
-      numRejected: rejectedSamples,
+      conversionLatencyCostDollars: 0,
       ...(warnings.length > 0 && { warnings }),
     };
   }
 
   // ===========================================
-  // Step 6: Calculate Net Value
+  // Pre-posterior integrals (per unit K)
   // ===========================================
-  const avgValueWithoutTest = sumValueWithoutTest / validSamples;
-  const avgValueWithTest = sumValueWithTest / validSamples;
+  const meanGain = feasible.expect((L) => L - threshold_L, [threshold_L]);
+  const defaultGain = defaultDecision === 'ship' ? meanGain : 0;
 
-  // Net Value = E[Value with test] - E[Value without test]
-  // This is the coherent "EVSI - CoD" computed in one simulation
-  // NOTE: Net value CAN be negative when testing delays beneficial rollout
-  // or exposes users to harm during test period. This is NOT Monte Carlo noise.
-  const netValueDollars = avgValueWithTest - avgValueWithoutTest;
+  // With nothing matured the readout is uninformative: keep the default
+  const readout = (se: number, readoutDays: number) =>
+    Number.isFinite(se)
+      ? readoutMoments(
+          feasible,
+          threshold_L,
+          se,
+          (L_hat) => computePosteriorMean(L_hat, se, prior, CR0, metric),
+          readoutLine(effectDynamics, readoutDays)
+        )
+      : { shipGain: defaultGain, shipProbability: defaultDecision === 'ship' ? 1 : 0 };
+
+  const ship = readout(SE, testDurationDays * maturedFraction);
+  const shipFull = SE === SE_full ? ship : readout(SE_full, testDurationDays);
+  const { shipProbability } = ship;
 
-  // Max test budget: what you should pay for a test (cannot be negative)
-  // Use this for budget decisions; preserve raw netValueDollars for analysis
-  const maxTestBudgetDollars = Math.max(0, netValueDollars);
+  // ===========================================
+  // Period values (discounted years of the horizon)
+  // ===========================================
+  const periodValue = (startDay: number, endDay: number) =>
+    expectedPeriodGain(meanGain, 1, threshold_L, startDay, endDay, horizon, effectDynamics);
+  const valueAfterDecision = (moments: { shipGain: number; shipProbability: number }) =>
+    expectedPeriodGain(
+      moments.shipGain,
+      moments.shipProbability,
+      threshold_L,
+      testDurationDays + decisionLatencyDays,
+      horizon.horizonDays,
+      horizon,
+      effectDynamics
+    );
 
-  const probabilityTestChangesDecision = decisionChanges / validSamples;
+  const valueDuringTest = variantFraction * periodValue(0, testDurationDays);
+  const valueWithTest = valueDuringTest + valueAfterDecision(ship);
+  const valueWithoutTest =
+    defaultDecision === 'ship' ? periodValue(0, horizon.horizonDays) : 0;
+  const netValueDollars = K * (valueWithTest - valueWithoutTest);
 
   return {
     netValueDollars,
-    maxTestBudgetDollars,
+    maxTestBudgetDollars: Math.max(0, netValueDollars),
     defaultDecision,
-    probabilityClearsThreshold: probClearsThreshold,
-    probabilityTestChangesDecision,
-    numSamples: validSamples,
-    numRejected: rejectedSamples,
+    probabilityClearsThreshold: feasible.probabilityAtLeast(threshold_L),
+    probabilityTestChangesDecision:
+      defaultDecision === 'ship' ? 1 - shipProbability : shipProbability,
+    conversionLatencyCostDollars: K * (valueAfterDecision(shipFull) - valueAfterDecision(ship)),
     ...(warnings.length > 0 && { warnings }),
   };
 }
+
+/**
+ * Calculate Net Value, choosing the method by prior
+ *
+ * Normal priors use the closed form; every other prior uses quadrature.
+ * Both are deterministic, so design sweeps and sensitivity runs move only
+ * with their inputs. Mirrors calculateEVSI.
+ *
+ * @param inputs - Net value calculation parameters
+ * @returns Net value results
+ */
+export function calculateNetValue(inputs: NetValueInputs): NetValueResults {
+  return inputs.prior.type === 'normal'
+    ? calculateNetValueNormalFastPath(inputs)
+    : calculateNetValueQuadrature(inputs);
+}
@@ -0,0 +1,112 @@
+import { describe, it, expect } from 'vitest';
+import {
+  feasiblePrior,
+  infeasibleMassWarning,
+  readoutMoments,
+  shipCutoff,
+} from './preposterior';
+import { computePosteriorMean } from './evsi';
+import type { PriorDistribution } from './distributions';
+
+const uniform: PriorDistribution = { type: 'uniform', low_L: -0.1, high_L: 0.1 };
+const studentT: PriorDistribution = { type: 'student-t', mu_L: 0, sigma_L: 0.05, df: 3 };
+
+describe('feasiblePrior', () => {
+  it('clamps a Uniform prior to its own bounds', () => {
+    const feasible = feasiblePrior(uniform, 0.05)!;
+
+    expect(feasible.low).toBe(-0.1);
+    expect(feasible.high).toBe(0.1);
+    expect(feasible.mass).toBeCloseTo(1, 12);
+    expect(feasible.expect((L) => L)).toBeCloseTo(0, 10);
+    expect(feasible.probabilityAtLeast(0.05)).toBeCloseTo(0.25, 10);
+  });
+
+  it('truncates to the feasible lift range', () => {
+    // Lift below -100% is impossible: half of this prior is cut off
+    const feasible = feasiblePrior({ type: 'uniform', low_L: -3, high_L: 1 }, 0.05)!;
+
+    expect(feasible.low).toBe(-1);
+    expect(feasible.mass).toBeCloseTo(0.5, 12);
+    expect(feasible.probabilityAtLeast(-2)).toBe(1);
+    expect(feasible.probabilityAtLeast(0)).toBeCloseTo(0.5, 12);
+  });
+
+  it('integrates a heavy-tailed prior over the whole range', () => {
+    const feasible = feasiblePrior(studentT, 0.05)!;
+
+    expect(feasible.expect(() => 1)).toBeCloseTo(1, 6);
+    expect(feasible.probabilityAtLeast(0)).toBeGreaterThan(0.49);
+  });
+
+  it('ends a heavy tail at a finite point when the metric has no upper bound', () => {
+    const metric = { type: 'continuous', mean: 2, standardDeviation: 10 } as const;
+    const feasible = feasiblePrior({ ...studentT, mu_L: 5 }, 0.05, metric)!;
+
+    // A conversion metric at CR0 = 0.05 would cap lift at 19
+    expect(feasible.high).toBeGreaterThan(19);
+    expect(Number.isFinite(feasible.high)).toBe(true);
+    expect(feasible.mass).toBeCloseTo(1, 5);
+    expect(feasible.expect((L) => L)).toBeCloseTo(5, 4);
+  });
+
+  it('counts a spike-and-slab point mass once, as at least its own location', () => {
+    const spikeAndSlab: PriorDistribution = {
+      type: 'mixture',
+      components: [
+        { weight: 0.6, mu_L: 0, sigma_L: 0 },
+        { weight: 0.4, mu_L: 0.02, sigma_L: 0.04 },
+      ],
+    };
+    const feasible = feasiblePrior(spikeAndSlab, 0.05)!;
+
+    expect(feasible.mass).toBeCloseTo(1, 9);
+    expect(feasible.expect(() => 1)).toBeCloseTo(1, 6);
+    expect(feasible.expect((L) => L)).toBeCloseTo(0.008, 6);
+    // L >= 0 includes the spike at 0
+    expect(feasible.probabilityAtLeast(0)).toBeCloseTo(0.6 + 0.4 * 0.6915, 3);
+    expect(feasible.probabilityAtLeast(1e-9)).toBeCloseTo(0.4 * 0.6915, 3);
+  });
+
+  it('returns null when no prior mass is feasible', () => {
+    expect(feasiblePrior({ type: 'uniform', low_L: -3, high_L: -2 }, 0.05)).toBeNull();
+  });
+});
+
+describe('shipCutoff', () => {
+  const feasible = feasiblePrior(uniform, 0.05)!;
+  const SE = 0.02;
+  const posteriorMean = (L_hat: number) => computePosteriorMean(L_hat, SE, uniform, 0.05);
+
+  it('finds the readout where the posterior mean crosses the threshold', () => {
+    const cutoff = shipCutoff(posteriorMean, 0.01, feasible, SE);
+
+    expect(posteriorMean(cutoff)).toBeCloseTo(0.01, 6);
+  });
+
+  it('is infinite when no readout changes the decision', () => {
+    expect(shipCutoff(posteriorMean, 0.5, feasible, SE)).toBe(Infinity);
+    expect(shipCutoff(posteriorMean, -0.5, feasible, SE)).toBe(-Infinity);
+  });
+});
+
+describe('readoutMoments', () => {
+  it('ships on every readout when the whole prior clears the threshold', () => {
+    const feasible = feasiblePrior(uniform, 0.05)!;
+    const SE = 0.02;
+    const moments = readoutMoments(feasible, -0.5, SE, (L_hat) =>
+      computePosteriorMean(L_hat, SE, uniform, 0.05)
+    );
+
+    expect(moments.shipProbability).toBe(1);
+    expect(moments.shipGain).toBeCloseTo(0.5, 8);
+  });
+});
+
+describe('infeasibleMassWarning', () => {
+  it('warns only when more than 10% of the prior is excluded', () => {
+    expect(infeasibleMassWarning(0.95)).toBeNull();
+    expect(infeasibleMassWarning(0.75)).toMatchObject({ code: 'high_rejection' });
+    expect(infeasibleMassWarning(0)!.message).toMatch(/^100%/);
+  });
+});
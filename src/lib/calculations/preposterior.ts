@@ -0,0 +1,253 @@
+/**
+ * Pre-posterior Integration (every non-Normal prior)
+ *
+ * Deterministic counterpart of the EVSI and net value simulations, which
+ * repeat: draw true lift L from the prior (rejecting it outside the
+ * feasible range), simulate the readout L_hat = L + SE * z, and ship iff
+ * E[L | L_hat] >= T. Here the same model is integrated instead:
+ *
+ * - E[L | L_hat] is nondecreasing in L_hat (the Normal likelihood has a
+ *   monotone likelihood ratio), so the rule is "ship iff L_hat >= c" for a
+ *   cutoff c, found by root-finding on the same posterior mean the
+ *   simulation uses
+ * - Given L, the readout clears c with probability Phi((L - c) / SE), so
+ *   the integral over the sampling distribution of L_hat is closed-form
+ * - What remains is one integral over the prior truncated to the feasible
+ *   range, done by adaptive Gauss-Kronrod quadrature (plus a plain sum over
+ *   the point masses of a spike-and-slab mixture)
+ *
+ * The results carry no Monte Carlo noise and need no seed.
+ */
+
+import { cdf, pdf, quantile, type PriorDistribution } from './distributions';
+import { liftFeasibilityBounds } from './abtest-math';
+import { standardNormalCDF } from './statistics';
+import { featureBreakpoints, integrate } from './quadrature';
+import { IDENTITY_READOUT, type ReadoutLine } from './effect-dynamics';
+import type { CalculationWarning, MetricModel } from './types';
+
+/**
+ * Readout distance (in SE) beyond which the ship probability is 0 or 1
+ */
+const CUTOFF_SEARCH_SE = 10;
+
+/**
+ * Cutoff precision, in SE: moves the ship probability by < 1e-6
+ */
+const CUTOFF_TOLERANCE_SE = 1e-6;
+
+/**
+ * Root-finding step limit for the cutoff (a safeguard; ~10 steps is typical)
+ */
+const CUTOFF_MAX_STEPS = 200;
+
+/**
+ * Upper prior tail left out when the feasible range has no upper end
+ * (continuous and ratio metrics), so the integration range is finite
+ */
+const UNBOUNDED_TAIL_MASS = 1e-12;
+
+/**
+ * The prior truncated to the feasible lift range, for integration
+ */
+export interface FeasiblePrior {
+  /** Lower end of the range (>= -1) */
+  low: number;
+  /** Upper end of the range (<= 1/CR0 - 1; finite for every metric) */
+  high: number;
+  /** Prior probability of the range (the simulation's acceptance rate) */
+  mass: number;
+  /**
+   * E[g(L)] under the truncated prior
+   *
+   * @param breakpoints - Where g has narrow features (see featureBreakpoints)
+   */
+  expect: (g: (L: number) => number, breakpoints?: number[]) => number;
+  /** P(L >= x) under the truncated prior */
+  probabilityAtLeast: (x: number) => number;
+}
+
+/**
+ * Expected post-readout decision metrics, per unit K
+ */
+export interface ReadoutMoments {
+  /** E[(L - T) * P(ship | L)]: value relative to threshold from shipping on the readout */
+  shipGain: number;
+  /** P(ship) after the readout */
+  shipProbability: number;
+}
+
+/**
+ * Truncate a prior to the feasible lift range [-1, 1/CR0 - 1]
+ *
+ * Continuous and ratio metrics have no upper bound; the range then ends
+ * where all but UNBOUNDED_TAIL_MASS of the prior lies below.
+ *
+ * @param prior - Any non-Normal prior
+ * @param CR0 - Baseline conversion rate, strictly in (0, 1)
+ * @param metric - Metric the test reads out (default binary)
+ * @returns Truncated prior, or null if it has no mass in the range
+ */
+export function feasiblePrior(
+  prior: PriorDistribution,
+  CR0: number,
+  metric?: MetricModel
+): FeasiblePrior | null {
+  const { L_min, L_max } = liftFeasibilityBounds(CR0, metric);
+
+  let low = L_min;
+  let high = Number.isFinite(L_max) ? L_max : quantile(1 - UNBOUNDED_TAIL_MASS, prior);
+  let priorBreakpoints: number[] = [];
+  // Mixture components with sigma = 0: integrated by evaluating g there
+  let pointMasses: { weight: number; mu_L: number }[] = [];
+  if (prior.type === 'uniform') {
+    low = Math.max(L_min, prior.low_L!);
+    high = Math.min(L_max, prior.high_L!);
+  } else if (prior.type === 'mixture') {
+    const slabs = prior.components!.filter((component) => component.sigma_L > 0);
+    pointMasses = prior.components!.filter(
+      (component) => component.sigma_L === 0 && component.mu_L > low && component.mu_L <= high
+    );
+    priorBreakpoints = slabs.flatMap((component) =>
+      featureBreakpoints(component.mu_L, component.sigma_L, high - low)
+    );
+  } else if (prior.type === 'log-normal') {
+    // Around the median, on the lift scale the log-scale SD spans there
+    const median = Math.exp(prior.logMu!) - 1;
+    priorBreakpoints = featureBreakpoints(median, (1 + median) * prior.logSigma!, high - low);
+  } else {
+    priorBreakpoints = featureBreakpoints(prior.mu_L!, prior.sigma_L!, high - low);
+  }
+
+  const mass = high > low ? cdf(high, prior) - cdf(low, prior) : 0;
+  if (!(mass > 0)) {
+    return null;
+  }
+
+  return {
+    low,
+    high,
+    mass,
+    expect: (g, breakpoints = []) =>
+      (integrate((L) => pdf(L, prior) * g(L), low, high, [...priorBreakpoints, ...breakpoints]) +
+        pointMasses.reduce((sum, point) => sum + point.weight * g(point.mu_L), 0)) /
+      mass,
+    probabilityAtLeast: (x) => {
+      if (x <= low) return 1;
+      if (x > high) return 0;
+      // cdf(x) includes a point mass at x, which L >= x should keep
+      const massAtX = pointMasses
+        .filter((point) => point.mu_L === x)
+        .reduce((sum, point) => sum + point.weight, 0);
+      return (cdf(high, prior) - cdf(x, prior) + massAtX) / mass;
+    },
+  };
+}
+
+/**
+ * Readout cutoff c: ship iff L_hat >= c
+ *
+ * @param posteriorMean - E[L | L_hat], nondecreasing in L_hat
+ * @param threshold_L - Decision threshold (T_L)
+ * @param feasible - Range of true lift
+ * @param SE - Readout standard error (finite)
+ * @returns Cutoff; -Infinity if every plausible readout ships, Infinity if none does
+ */
+export function shipCutoff(
+  posteriorMean: (L_hat: number) => number,
+  threshold_L: number,
+  feasible: FeasiblePrior,
+  SE: number
+): number {
+  let lower = feasible.low - CUTOFF_SEARCH_SE * SE;
+  let upper = feasible.high + CUTOFF_SEARCH_SE * SE;
+
+  // Each posterior mean is a numerical integral for Student-t, so use the
+  // Illinois variant of regula falsi: bracketed like bisection, but
+  // converges in a handful of evaluations
+  let excessLower = posteriorMean(lower) - threshold_L;
+  let excessUpper = posteriorMean(upper) - threshold_L;
+  if (excessLower >= 0) return -Infinity;
+  if (excessUpper < 0) return Infinity;
+
+  let lastMoved: 'lower' | 'upper' | null = null;
+  for (let step = 0; step < CUTOFF_MAX_STEPS; step++) {
+    if (upper - lower <= CUTOFF_TOLERANCE_SE * SE) break;
+
+    let x = (lower * excessUpper - upper * excessLower) / (excessUpper - excessLower);
+    if (!(x > lower && x < upper)) {
+      x = (lower + upper) / 2;
+    }
+    if (!(x > lower && x < upper)) break; // bracket at floating point resolution
+
+    const excess = posteriorMean(x) - threshold_L;
+    if (excess >= 0) {
+      upper = x;
+      excessUpper = excess;
+      // Same end moved twice: halve the stale one so the other end moves too
+      if (lastMoved === 'upper') excessLower /= 2;
+      lastMoved = 'upper';
+    } else {
+      lower = x;
+      excessLower = excess;
+      if (lastMoved === 'lower') excessUpper /= 2;
+      lastMoved = 'lower';
+    }
+  }
+  return (lower + upper) / 2;
+}
+
+/**
+ * Expected decision metrics after a readout with standard error SE
+ *
+ * @param feasible - Truncated prior
+ * @param threshold_L - Decision threshold (T_L)
+ * @param SE - Readout standard error (finite)
+ * @param posteriorMean - E[L | L_hat] for this SE
+ * @param line - Readout mean as a function of true lift (default L itself;
+ *   see effect-dynamics.ts)
+ */
+export function readoutMoments(
+  feasible: FeasiblePrior,
+  threshold_L: number,
+  SE: number,
+  posteriorMean: (L_hat: number) => number,
+  line: ReadoutLine = IDENTITY_READOUT
+): ReadoutMoments {
+  const cutoff = shipCutoff(posteriorMean, threshold_L, feasible, SE);
+  const { scale, shift } = line;
+  const shipGivenLift = (L: number) => standardNormalCDF((scale * L + shift - cutoff) / SE);
+  // Ship probability moves fastest in L where the readout mean crosses the cutoff
+  const breakpoints = Number.isFinite(cutoff)
+    ? [
+        threshold_L,
+        ...featureBreakpoints((cutoff - shift) / scale, SE / scale, feasible.high - feasible.low),
+      ]
+    : [threshold_L];
+
+  return {
+    shipGain: feasible.expect((L) => (L - threshold_L) * shipGivenLift(L), breakpoints),
+    // Clamp quadrature rounding (e.g. 1 + 1e-16)
+    shipProbability: Math.min(1, Math.max(0, feasible.expect(shipGivenLift, breakpoints))),
+  };
+}
+
+/**
+ * Warning when much of the prior lies outside the feasible range
+ *
+ * The integration counterpart of the simulations' high rejection rate
+ * warning (same code, same 10% trigger).
+ *
+ * @param mass - Prior mass inside the feasible range (0 if none)
+ * @returns Warning, or null if at least 90% of the prior is feasible
+ */
+export function infeasibleMassWarning(mass: number): CalculationWarning | null {
+  const excluded = 1 - mass;
+  if (!(excluded > 0.1)) {
+    return null;
+  }
+  return {
+    code: 'high_rejection',
+    message: `${Math.round(excluded * 100)}% of the prior lies outside feasible conversion bounds and is excluded. Consider narrowing prior or adjusting baseline rate.`,
+  };
+}
@@ -0,0 +1,40 @@
+import { describe, it, expect } from 'vitest';
+import { featureBreakpoints, integrate } from './quadrature';
+import { standardNormalPDF } from './statistics';
+
+describe('integrate', () => {
+  it('is exact for polynomials', () => {
+    expect(integrate((x) => x * x, 0, 3)).toBeCloseTo(9, 12);
+    expect(integrate((x) => x ** 5 - 2 * x, -1, 2)).toBeCloseTo(7.5, 12);
+  });
+
+  it('integrates smooth functions to high accuracy', () => {
+    expect(integrate(Math.sin, 0, Math.PI)).toBeCloseTo(2, 10);
+    expect(integrate(Math.exp, 0, 1)).toBeCloseTo(Math.E - 1, 10);
+  });
+
+  it('finds a narrow peak in a wide range via breakpoints', () => {
+    const sigma = 0.01;
+    const peak = (x: number) => standardNormalPDF((x - 0.3) / sigma) / sigma;
+
+    expect(integrate(peak, -1, 99, featureBreakpoints(0.3, sigma, 100))).toBeCloseTo(1, 8);
+  });
+
+  it('handles a kink', () => {
+    expect(integrate((x) => Math.abs(x - 0.2), -1, 1)).toBeCloseTo(1.04, 8);
+  });
+
+  it('ignores breakpoints outside the range', () => {
+    expect(integrate((x) => x, 0, 1, [-5, 0, 1, 7])).toBeCloseTo(0.5, 12);
+  });
+
+  it('brackets a feature with doubling offsets', () => {
+    expect(featureBreakpoints(1, 0.5, 3)).toEqual([1, 0.5, 1.5, 0, 2, -1, 3]);
+    expect(featureBreakpoints(1, 0, 3)).toEqual([1]);
+  });
+
+  it('returns 0 for an empty range', () => {
+    expect(integrate(() => 1, 2, 2)).toBe(0);
+    expect(integrate(() => 1, 3, 2)).toBe(0);
+  });
+});
@@ -0,0 +1,47 @@
+import { describe, it, expect } from 'vitest';
+import { createSeededRandom, defaultRandom } from './random';
+
+describe('createSeededRandom', () => {
+  it('repeats the same sequence for the same seed', () => {
+    const a = createSeededRandom(42);
+    const b = createSeededRandom(42);
+
+    for (let i = 0; i < 100; i++) {
+      expect(a()).toBe(b());
+    }
+  });
+
+  it('gives different sequences for different seeds', () => {
+    const a = createSeededRandom(1);
+    const b = createSeededRandom(2);
+
+    const drawsA = Array.from({ length: 10 }, () => a());
+    const drawsB = Array.from({ length: 10 }, () => b());
+
+    expect(drawsA).not.toEqual(drawsB);
+  });
+
+  it('produces values in [0, 1) with mean near 0.5', () => {
+    const rng = createSeededRandom(7);
+    let sum = 0;
+    const n = 10000;
+
+    for (let i = 0; i < n; i++) {
+      const u = rng();
+      expect(u).toBeGreaterThanOrEqual(0);
+      expect(u).toBeLessThan(1);
+      sum += u;
+    }
+
+    expect(sum / n).toBeCloseTo(0.5, 1);
+  });
+});
+
+describe('defaultRandom', () => {
+  it('produces values in [0, 1)', () => {
+    const u = defaultRandom();
+
+    expect(u).toBeGreaterThanOrEqual(0);
+    expect(u).toBeLessThan(1);
+  });
+});
@@ -9,7 +9,7 @@
  */
 
 import { describe, it, expect } from 'vitest';
-import { deriveSampleSizes } from './sample-size';
+import { deriveSampleSizes, maturedSampleFraction } from './sample-size';
 
 describe('deriveSampleSizes', () => {
   // ===========================================
@@ -67,6 +67,22 @@ describe('deriveSampleSizes', () => {
       // n_control = 14000 - 4200 = 9800
       expect(result.n_control).toBe(9800);
     });
+
+    it('shares the variant fraction equally among several variants', () => {
+      // 1000 daily, 10 days, 100% eligible, 75% to three variants
+      const result = deriveSampleSizes({
+        dailyTraffic: 1000,
+        testDurationDays: 10,
+        eligibilityFraction: 1.0,
+        variantFraction: 0.75,
+        variantCount: 3,
+      });
+
+      // n_variant = 10000 * 0.75 / 3 = 2500 per variant
+      expect(result.n_variant).toBe(2500);
+      // n_control = 10000 - 3 * 2500 = 2500
+      expect(result.n_control).toBe(2500);
+    });
   });
 
   // ===========================================
@@ -169,4 +185,60 @@ describe('deriveSampleSizes', () => {
       expect(result.n_control + result.n_variant).toBe(result.n_total);
     });
   });
+
+  // ===========================================
+  // 4. Conversion latency
+  // ===========================================
+
+  describe('conversion latency', () => {
+    it('matured counts equal enrolled counts with no latency', () => {
+      const result = deriveSampleSizes({
+        dailyTraffic: 1000,
+        testDurationDays: 14,
+        eligibilityFraction: 1.0,
+        variantFraction: 0.5,
+      });
+
+      expect(result.n_matured_control).toBe(result.n_control);
+      expect(result.n_matured_variant).toBe(result.n_variant);
+    });
+
+    it('drops users enrolled within the latency window of readout', () => {
+      // 1000 daily, 14 days, 7-day latency: only the first 7 days are readable
+      const result = deriveSampleSizes({
+        dailyTraffic: 1000,
+        testDurationDays: 14,
+        eligibilityFraction: 1.0,
+        variantFraction: 0.5,
+        conversionLatencyDays: 7,
+      });
+
+      // Enrolled sizes are unchanged
+      expect(result.n_total).toBe(14000);
+      expect(result.n_control).toBe(7000);
+      // Matured = 7000 * (14 - 7) / 14 = 3500
+      expect(result.n_matured_control).toBe(3500);
+      expect(result.n_matured_variant).toBe(3500);
+    });
+
+    it('has no matured users when latency covers the whole test', () => {
+      const result = deriveSampleSizes({
+        dailyTraffic: 1000,
+        testDurationDays: 14,
+        eligibilityFraction: 1.0,
+        variantFraction: 0.5,
+        conversionLatencyDays: 21,
+      });
+
+      expect(result.n_matured_control).toBe(0);
+      expect(result.n_matured_variant).toBe(0);
+    });
+
+    it('maturedSampleFraction is (D - latency) / D clamped to [0, 1]', () => {
+      expect(maturedSampleFraction(28, 0)).toBe(1);
+      expect(maturedSampleFraction(28, 7)).toBe(0.75);
+      expect(maturedSampleFraction(28, 40)).toBe(0);
+      expect(maturedSampleFraction(0, 3)).toBe(0);
+    });
+  });
 });
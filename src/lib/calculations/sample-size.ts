@@ -13,6 +13,10 @@
  * - All fractions are decimals in [0, 1]
  * - Results are floored to integers (can't have fractional users)
  * - n_control = n_total - n_variant ensures exact summation
+ * - Conversion latency shrinks the *matured* sample: users enrolled in the
+ *   last conversionLatencyDays of the test have not converted yet at readout
+ * - With several variants (A/B/n), the variant fraction is shared equally
+ *   among them and n_variant is the size of each variant group
  */
 
 /**
@@ -30,20 +34,60 @@ export interface SampleSizeInputs {
 
   /** Fraction of eligible traffic assigned to variant (decimal, e.g., 0.5 for 50%) */
   variantFraction: number;
+
+  /** Number of variants sharing variantFraction equally (default 1: A/B) */
+  variantCount?: number;
+
+  /**
+   * Days from exposure to expected conversion (default 0).
+   * Users enrolled within this many days of the readout have no outcome yet.
+   */
+  conversionLatencyDays?: number;
 }
 
 /**
  * Results from sample size derivation
  */
 export interface SampleSizeResults {
-  /** Total sample size (control + variant) */
+  /** Total sample size (control + variants) */
   n_total: number;
 
   /** Sample size in control group */
   n_control: number;
 
-  /** Sample size in variant group */
+  /** Sample size in each variant group */
   n_variant: number;
+
+  /** Control users whose conversions have matured by the readout */
+  n_matured_control: number;
+
+  /** Users per variant whose conversions have matured by the readout */
+  n_matured_variant: number;
+}
+
+/**
+ * Fraction of the enrolled sample whose outcomes are readable at the end of the test
+ *
+ * Enrollment is uniform over the test, and the readout happens on the last day.
+ * A user enrolled on day t has a matured outcome only if t + latency <= D_test,
+ * so the matured fraction is (D_test - latency) / D_test, floored at 0.
+ *
+ * @param testDurationDays - Test duration in days
+ * @param conversionLatencyDays - Days from exposure to expected conversion
+ * @returns Matured fraction in [0, 1]
+ */
+export function maturedSampleFraction(
+  testDurationDays: number,
+  conversionLatencyDays: number
+): number {
+  // No latency: everything is readable (even for a degenerate 0-day test)
+  if (conversionLatencyDays <= 0) {
+    return 1;
+  }
+  if (testDurationDays <= 0) {
+    return 0;
+  }
+  return Math.max(0, testDurationDays - conversionLatencyDays) / testDurationDays;
 }
 
 /**
@@ -63,12 +107,21 @@ export interface SampleSizeResults {
  * Note: We calculate n_control as n_total - n_variant to ensure exact summation
  * after flooring (avoids rounding errors that could make n_control + n_variant != n_total)
  *
+ * The matured counts apply maturedSampleFraction to each arm. These are the
+ * sizes the readout actually sees, and what EVSI should be computed from.
+ *
  * @param inputs - Experiment design parameters
- * @returns Sample sizes for total, control, and variant groups
+ * @returns Enrolled and matured sample sizes for each group
  */
 export function deriveSampleSizes(inputs: SampleSizeInputs): SampleSizeResults {
-  const { dailyTraffic, testDurationDays, eligibilityFraction, variantFraction } =
-    inputs;
+  const {
+    dailyTraffic,
+    testDurationDays,
+    eligibilityFraction,
+    variantFraction,
+    variantCount = 1,
+    conversionLatencyDays = 0,
+  } = inputs;
 
   // ===========================================
   // Step 1: Calculate total sample size
@@ -83,9 +136,9 @@ export function deriveSampleSizes(inputs: SampleSizeInputs): SampleSizeResults {
   // ===========================================
   // Step 2: Calculate variant sample size
   // ===========================================
-  // n_variant = n_total * variantFraction
-  // This is the number of users who will see the variant (treatment)
-  const n_variant_raw = n_total * variantFraction;
+  // n_variant = n_total * variantFraction / variantCount
+  // This is the number of users who will see each variant (treatment)
+  const n_variant_raw = (n_total * variantFraction) / variantCount;
 
   // Floor to integer
   const n_variant = Math.floor(n_variant_raw);
@@ -93,14 +146,28 @@ export function deriveSampleSizes(inputs: SampleSizeInputs): SampleSizeResults {
   // ===========================================
   // Step 3: Calculate control sample size
   // ===========================================
-  // n_control = n_total - n_variant
-  // Calculate as difference to ensure n_control + n_variant = n_total exactly
+  // n_control = n_total - variantCount * n_variant
+  // Calculate as difference to ensure the groups sum to n_total exactly
   // (avoids rounding errors from flooring both independently)
-  const n_control = n_total - n_variant;
+  const n_control = n_total - variantCount * n_variant;
+
+  // ===========================================
+  // Step 4: Matured sample sizes (conversion latency)
+  // ===========================================
+  // Only users enrolled at least conversionLatencyDays before readout
+  // contribute an observed outcome. Floor again to keep integer users.
+  const maturedFraction = maturedSampleFraction(
+    testDurationDays,
+    conversionLatencyDays
+  );
+  const n_matured_control = Math.floor(n_control * maturedFraction);
+  const n_matured_variant = Math.floor(n_variant * maturedFraction);
 
   return {
     n_total,
     n_control,
     n_variant,
+    n_matured_control,
+    n_matured_variant,
   };
 }
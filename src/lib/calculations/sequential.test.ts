@@ -0,0 +1,95 @@
+import { describe, it, expect } from 'vitest';
+import {
+  interimDecision,
+  planInterimLooks,
+  sampleInterimReadouts,
+  type InterimLook,
+} from './sequential';
+import { sampleStandardNormal } from './abtest-math';
+import { createSeededRandom } from './random';
+import type { PriorDistribution } from './distributions';
+
+const prior: PriorDistribution = { type: 'normal', mu_L: 0, sigma_L: 0.05 };
+
+describe('planInterimLooks', () => {
+  it('keeps looks inside the test, in day order', () => {
+    const looks = planInterimLooks([21, 7, 7, 0, 28, 35], 28, 0, 0.01);
+
+    expect(looks.map((look) => look.day)).toEqual([7, 21]);
+    expect(looks[0].informationFraction).toBeCloseTo(0.25, 10);
+    expect(looks[0].SE).toBeCloseTo(0.02, 10);
+  });
+
+  it('counts only matured conversions at each look', () => {
+    const looks = planInterimLooks([7, 14, 21], 28, 7, 0.01);
+
+    // Nothing has matured by day 7; day 14 has 7 of the final 21 days
+    expect(looks.map((look) => look.day)).toEqual([14, 21]);
+    expect(looks[0].informationFraction).toBeCloseTo(1 / 3, 10);
+  });
+
+  it('has no looks when the final readout is uninformative', () => {
+    expect(planInterimLooks([7, 14], 28, 0, Infinity)).toEqual([]);
+  });
+});
+
+describe('sampleInterimReadouts', () => {
+  const looks = planInterimLooks([7, 14], 28, 0, 0.01);
+
+  it('gives each look its own standard error', () => {
+    const rng = createSeededRandom(11);
+    const readouts: number[][] = [];
+    for (let i = 0; i < 20000; i++) {
+      readouts.push(sampleInterimReadouts(looks, 0, 0.01, sampleStandardNormal(rng), rng));
+    }
+
+    looks.forEach((look, i) => {
+      const values = readouts.map((r) => r[i]);
+      const variance = values.reduce((sum, v) => sum + v * v, 0) / values.length;
+      expect(Math.sqrt(variance)).toBeCloseTo(look.SE, 3);
+    });
+  });
+
+  it('is anchored to the final readout', () => {
+    // Final readout far above the truth: the interim readouts lean the same way
+    const rng = createSeededRandom(5);
+    let sum = 0;
+    for (let i = 0; i < 5000; i++) {
+      sum += sampleInterimReadouts(looks, 0, 0.01, 3, rng)[1];
+    }
+
+    // E[L_hat at t = 0.5 | z_final = 3] = SE_final * 3
+    expect(sum / 5000).toBeCloseTo(0.03, 3);
+  });
+});
+
+describe('interimDecision', () => {
+  const look: InterimLook = { day: 7, maturedFraction: 0.25, SE: 0.02, informationFraction: 0.25 };
+
+  it('applies O\'Brien-Fleming bounds widened at early looks', () => {
+    const rule = { type: 'obrien-fleming', criticalZ: 2 } as const;
+
+    // Bound at t = 0.25 is z = 4
+    expect(interimDecision(rule, 0.07, look, 0, prior, 0.05)).toBeNull();
+    expect(interimDecision(rule, 0.09, look, 0, prior, 0.05)).toBe('ship');
+    expect(interimDecision(rule, -0.09, look, 0, prior, 0.05)).toBe('dont-ship');
+  });
+
+  it('stops on the posterior probability of clearing the threshold', () => {
+    const rule = {
+      type: 'bayesian',
+      efficacyProbability: 0.95,
+      futilityProbability: 0.05,
+    } as const;
+
+    expect(interimDecision(rule, 0.01, look, 0, prior, 0.05)).toBeNull();
+    expect(interimDecision(rule, 0.08, look, 0, prior, 0.05)).toBe('ship');
+    expect(interimDecision(rule, -0.08, look, 0, prior, 0.05)).toBe('dont-ship');
+  });
+
+  it('never stops for futility with a zero futility probability', () => {
+    const rule = { type: 'bayesian', efficacyProbability: 0.95, futilityProbability: 0 } as const;
+
+    expect(interimDecision(rule, -0.08, look, 0, prior, 0.05)).toBeNull();
+  });
+});
@@ -0,0 +1,231 @@
+/**
+ * Group-Sequential Test Designs
+ *
+ * Interim looks for the net value simulation: at each look the readout so
+ * far is checked against a stopping rule (see StoppingRule), and a test
+ * that stops early decides sooner, so the post-decision period starts
+ * sooner. A test that reaches its last day decides as the fixed design does.
+ *
+ * Mathematical notes (for statistician audit):
+ * - Users enroll evenly over the D test days, so by day t a share
+ *   s(t) = max(0, t - conversionLatencyDays) / D of the full sample has
+ *   matured (s(D) is maturedSampleFraction)
+ * - The running estimate is L_hat(s) = L + sigma * W(s) / s, with W a
+ *   standard Brownian motion and sigma = SE_final * sqrt(s(D)): each look
+ *   has SE(s) = sigma / sqrt(s), and the data between looks is independent
+ * - The simulation draws the final readout first (the fixed design's
+ *   readout) and fills in the interim readouts backward by a Brownian
+ *   bridge: W(s_i) | W(s_j) ~ N(W(s_j) * s_i / s_j, s_i * (s_j - s_i) / s_j)
+ *   for s_i < s_j. The fixed and sequential designs therefore see the same
+ *   data on every draw, and their difference isolates the stopping rule
+ * - O'Brien-Fleming-style bounds use z = (L_hat - T) / SE and the
+ *   information fraction t = s / s(D): criticalZ / sqrt(t), so early looks
+ *   need overwhelming evidence
+ */
+
+import { sampleStandardNormal } from './abtest-math';
+import { computePosteriorProbabilityAbove } from './evsi';
+import type { PriorDistribution } from './distributions';
+import type { RandomSource } from './random';
+import type { MetricModel, SequentialDesign, StoppingRule } from './types';
+
+/**
+ * One usable interim look
+ */
+export interface InterimLook {
+  /** Test day of the look */
+  day: number;
+  /** Share of the full sample matured by this day, s(t) */
+  maturedFraction: number;
+  /** Standard error of the readout at this look */
+  SE: number;
+  /** Information fraction relative to the final look, s(t) / s(D) */
+  informationFraction: number;
+}
+
+/**
+ * Where a sequential test stopped early
+ */
+export interface InterimStop {
+  /** Test day of the look that stopped the test */
+  day: number;
+  /** Decision taken at that look */
+  decision: 'ship' | 'dont-ship';
+}
+
+/**
+ * Interim looks that can inform a decision, in day order
+ *
+ * Drops days outside (0, testDurationDays), duplicates, and looks with no
+ * matured conversions yet.
+ *
+ * @param interimDays - Requested look days
+ * @param testDurationDays - Planned test duration (the final look)
+ * @param conversionLatencyDays - Days from exposure to conversion
+ * @param SE_final - Standard error of the final readout
+ * @returns Usable looks (empty if the final readout is uninformative)
+ */
+export function planInterimLooks(
+  interimDays: number[],
+  testDurationDays: number,
+  conversionLatencyDays: number,
+  SE_final: number
+): InterimLook[] {
+  const maturedBy = (day: number) =>
+    Math.max(0, day - Math.max(0, conversionLatencyDays)) / testDurationDays;
+  const finalFraction = maturedBy(testDurationDays);
+  if (!Number.isFinite(SE_final) || finalFraction <= 0) {
+    return [];
+  }
+
+  const days = [...new Set(interimDays)]
+    .filter((day) => day > 0 && day < testDurationDays && maturedBy(day) > 0)
+    .sort((a, b) => a - b);
+
+  return days.map((day) => {
+    const maturedFraction = maturedBy(day);
+    const informationFraction = maturedFraction / finalFraction;
+    return {
+      day,
+      maturedFraction,
+      SE: SE_final / Math.sqrt(informationFraction),
+      informationFraction,
+    };
+  });
+}
+
+/**
+ * Interim readouts consistent with a given final readout
+ *
+ * Brownian bridge backward from L_hat_final = L_true + SE_final * z_final
+ * (see module notes). Draws one standard normal per look from rng.
+ *
+ * @param looks - Usable looks from planInterimLooks
+ * @param L_true - True lift of this draw
+ * @param SE_final - Standard error of the final readout
+ * @param z_final - Standard normal noise of the final readout
+ * @param rng - Uniform random source
+ * @returns Readout L_hat at each look, in look order
+ */
+export function sampleInterimReadouts(
+  looks: InterimLook[],
+  L_true: number,
+  SE_final: number,
+  z_final: number,
+  rng: RandomSource
+): number[] {
+  // Work in information-fraction time, where the final look is t = 1
+  let tNext = 1;
+  let wNext = z_final;
+  const readouts = new Array<number>(looks.length);
+
+  for (let i = looks.length - 1; i >= 0; i--) {
+    const t = looks[i].informationFraction;
+    const mean = (wNext * t) / tNext;
+    const sd = Math.sqrt((t * (tNext - t)) / tNext);
+    const w = mean + sd * sampleStandardNormal(rng);
+    readouts[i] = L_true + (SE_final * w) / t;
+    tNext = t;
+    wNext = w;
+  }
+
+  return readouts;
+}
+
+/**
+ * Decision the stopping rule takes at one interim look
+ *
+ * @param rule - Stopping rule
+ * @param L_hat - Readout at the look
+ * @param look - The look (its SE and information fraction)
+ * @param threshold_L - Decision threshold (T_L)
+ * @param prior - Prior distribution (Bayesian rule)
+ * @param CR0 - Baseline conversion rate (Bayesian rule's feasibility bounds)
+ * @param metric - Metric the test reads out
+ * @returns 'ship' or 'dont-ship' to stop, or null to keep running
+ */
+export function interimDecision(
+  rule: StoppingRule,
+  L_hat: number,
+  look: InterimLook,
+  threshold_L: number,
+  prior: PriorDistribution,
+  CR0: number,
+  metric?: MetricModel
+): 'ship' | 'dont-ship' | null {
+  if (rule.type === 'bayesian') {
+    const probability = computePosteriorProbabilityAbove(
+      L_hat,
+      look.SE,
+      prior,
+      threshold_L,
+      CR0,
+      metric
+    );
+    if (probability >= rule.efficacyProbability) return 'ship';
+    if (probability <= rule.futilityProbability) return 'dont-ship';
+    return null;
+  }
+
+  const z = (L_hat - threshold_L) / look.SE;
+  const bound = rule.criticalZ / Math.sqrt(look.informationFraction);
+  if (z >= bound) return 'ship';
+  if (z <= -bound) return 'dont-ship';
+  return null;
+}
+
+/**
+ * Create the interim monitor for one net value simulation
+ *
+ * @param design - Interim days and stopping rule
+ * @param context - The simulation's test parameters
+ * @returns Usable looks, and stop() to run them on one draw
+ */
+export function createSequentialMonitor(
+  design: SequentialDesign,
+  context: {
+    testDurationDays: number;
+    conversionLatencyDays: number;
+    SE_final: number;
+    threshold_L: number;
+    prior: PriorDistribution;
+    CR0: number;
+    metric?: MetricModel;
+  }
+): {
+  looks: InterimLook[];
+  stop: (L_true: number, z_final: number, rng: RandomSource) => InterimStop | null;
+} {
+  const { testDurationDays, conversionLatencyDays, SE_final, threshold_L, prior, CR0, metric } =
+    context;
+  const looks = planInterimLooks(
+    design.interimDays,
+    testDurationDays,
+    conversionLatencyDays,
+    SE_final
+  );
+
+  const stop = (L_true: number, z_final: number, rng: RandomSource): InterimStop | null => {
+    if (looks.length === 0) {
+      return null;
+    }
+    const readouts = sampleInterimReadouts(looks, L_true, SE_final, z_final, rng);
+    for (let i = 0; i < looks.length; i++) {
+      const decision = interimDecision(
+        design.rule,
+        readouts[i],
+        looks[i],
+        threshold_L,
+        prior,
+        CR0,
+        metric
+      );
+      if (decision) {
+        return { day: looks[i].day, decision };
+      }
+    }
+    return null;
+  };
+
+  return { looks, stop };
+}
@@ -14,7 +14,11 @@
  * to their canonical (internal) representations.
  */
 export interface EVPIInputs {
-  /** Baseline conversion rate (CR0) as decimal, e.g., 0.032 for 3.2% */
+  /**
+   * Baseline conversion rate (CR0) as decimal, e.g., 0.032 for 3.2%.
+   * For a continuous or ratio metric, its baseline (numerator) mean per
+   * visitor; EVPI only uses it through K.
+   */
   baselineConversionRate: number;
 
   /** Annual visitors (N_year) */
@@ -32,6 +36,9 @@ export interface EVPIInputs {
 
   /** Threshold in lift units (T_L) as decimal, e.g., 0.05 for 5% */
   threshold_L: number;
+
+  /** Horizon the decision pays off over (default one undiscounted year) */
+  horizon?: DecisionHorizon;
 }
 
 /**
@@ -41,7 +48,7 @@ export interface EVPIInputs {
  * metrics for display and debugging.
  */
 export interface EVPIResults {
-  /** EVPI in annual dollars - the headline result */
+  /** EVPI in dollars over the decision horizon - the headline result */
   evpiDollars: number;
 
   /** Default decision based on prior mean vs threshold */
@@ -146,6 +153,80 @@ export interface EdgeCaseFlags {
 import type { PriorDistribution } from './distributions';
 export type { PriorDistribution };
 
+/**
+ * Metric the test reads out, which sets the noise of the lift estimate
+ *
+ * - binary: conversion at baselineConversionRate (the default)
+ * - continuous: a mean per visitor, e.g. revenue per visitor
+ * - ratio: numerator over denominator, both summed per visitor, e.g. average
+ *   order value = revenue / orders; its variance uses the delta method
+ *
+ * Means and standard deviations are per visitor (the randomization unit),
+ * in any consistent unit.
+ */
+export type MetricModel =
+  | { type: 'binary' }
+  | {
+      type: 'continuous';
+      /** Baseline mean per visitor (> 0) */
+      mean: number;
+      /** Standard deviation per visitor (> 0) */
+      standardDeviation: number;
+    }
+  | {
+      type: 'ratio';
+      /** Baseline numerator mean per visitor (> 0) */
+      numeratorMean: number;
+      /** Numerator standard deviation per visitor */
+      numeratorStandardDeviation: number;
+      /** Baseline denominator mean per visitor (> 0) */
+      denominatorMean: number;
+      /** Denominator standard deviation per visitor */
+      denominatorStandardDeviation: number;
+      /** Correlation of numerator and denominator per visitor, in [-1, 1] */
+      correlation: number;
+    };
+
+/**
+ * How long a shipped decision pays off, and how future value is discounted
+ *
+ * K is annual; values are K times the (discounted) years of exposure inside
+ * the horizon (see horizon.ts). The default is one undiscounted year.
+ */
+export interface DecisionHorizon {
+  /** Days the decision pays off for, from the start of the test (or from now without one) */
+  horizonDays: number;
+
+  /** Annual discount rate as decimal, e.g., 0.1 for 10% a year (0: no discounting) */
+  annualDiscountRate: number;
+}
+
+/**
+ * How the true lift changes after the change launches (novelty effects)
+ *
+ * The prior is on the long-run lift L; on day t from the first test day the
+ * lift is L(t) = L + novelty(L) * 2^(-t / halfLifeDays) (see
+ * effect-dynamics.ts):
+ * - decay: a bump of noveltyLift on top of L at launch, decaying to L
+ *   (negative for change aversion)
+ * - novelty-multiplier: the lift starts at (1 + multiplier) * L
+ */
+export type EffectDynamics =
+  | {
+      type: 'decay';
+      /** Extra lift at launch as decimal, e.g., 0.02 for +2 points */
+      noveltyLift: number;
+      /** Days for the extra lift to halve */
+      halfLifeDays: number;
+    }
+  | {
+      type: 'novelty-multiplier';
+      /** Extra lift at launch as a share of L, e.g., 0.5 for 1.5x (> -1) */
+      multiplier: number;
+      /** Days for the extra lift to halve */
+      halfLifeDays: number;
+    };
+
 /**
  * Input parameters for EVSI calculation
  *
@@ -172,8 +253,31 @@ export interface EVSIInputs {
 
   /** Sample size in variant group */
   n_variant: number;
+
+  /**
+   * Metric the test reads out (default binary). For continuous and ratio
+   * metrics the noise and feasibility bounds come from the metric, and
+   * baselineConversionRate is not used.
+   */
+  metric?: MetricModel;
+
+  /**
+   * Horizon the decision pays off over (default one undiscounted year).
+   * EVSI values the information as if the decision applied from day 0.
+   */
+  horizon?: DecisionHorizon;
 }
 
+/**
+ * Inputs for EVPI under any prior shape (Advanced mode)
+ *
+ * The EVSI inputs without the sample sizes: perfect information needs no test.
+ */
+export type PriorEVPIInputs = Pick<
+  EVSIInputs,
+  'K' | 'baselineConversionRate' | 'threshold_L' | 'prior' | 'metric' | 'horizon'
+>;
+
 /**
  * Warning about calculation reliability or approximation limits
  *
@@ -182,17 +286,64 @@ export interface EVSIInputs {
  *
  * Warning codes:
  * - rare_events: Expected conversions per arm are low (<20), normal approximation unreliable
+ * - heavy_tailed_metric: Too few visitors per arm for a continuous or ratio
+ *   metric's spread, normal approximation unreliable
  * - high_rejection: High rejection rate (>10%) due to prior mass outside feasible bounds
  * - high_feasibility_rejection: Legacy alias for high_rejection
  * - invalid_cr0: CR0 is invalid (outside (0,1))
+ * - immature_conversions: Conversion latency leaves under half the sample readable at test end
+ * - high_mc_error: Monte Carlo 95% interval is wide relative to the estimate
  */
 export interface CalculationWarning {
   /** Machine-readable warning code */
-  code: 'rare_events' | 'high_rejection' | 'high_feasibility_rejection' | 'invalid_cr0';
+  code:
+    | 'rare_events'
+    | 'heavy_tailed_metric'
+    | 'high_rejection'
+    | 'high_feasibility_rejection'
+    | 'invalid_cr0'
+    | 'immature_conversions'
+    | 'novelty_effect'
+    | 'high_mc_error';
   /** Human-readable warning message */
   message: string;
 }
 
+/**
+ * Monte Carlo error of an estimate (dollars)
+ *
+ * The interval is the estimate ± 1.96 standard errors; it describes
+ * simulation noise only, not uncertainty about the inputs.
+ */
+export interface MonteCarloError {
+  /** Standard error of the Monte Carlo mean */
+  standardError: number;
+  /** Lower end of the 95% interval */
+  ci95Low: number;
+  /** Upper end of the 95% interval */
+  ci95High: number;
+}
+
+/**
+ * A Monte Carlo estimate that can draw more samples on demand
+ *
+ * run() continues the same random stream, so any split of n samples into
+ * batches gives the same result as one run(n). Used by adaptive sampling to
+ * stop once the standard error is small enough.
+ */
+export interface MonteCarloSimulation<R> {
+  /** Draw numSamples more accepted samples */
+  run: (numSamples: number) => void;
+  /** Accepted samples drawn so far */
+  numSamples: () => number;
+  /** Current estimate (dollars) */
+  estimate: () => number;
+  /** Standard error of the current estimate (dollars) */
+  standardError: () => number;
+  /** Full results for the samples drawn so far */
+  results: () => R;
+}
+
 /**
  * Results from EVSI calculation
  *
@@ -200,7 +351,7 @@ export interface CalculationWarning {
  * metrics for display and decision analysis.
  */
 export interface EVSIResults {
-  /** EVSI in annual dollars - the headline result */
+  /** EVSI in dollars over the decision horizon - the headline result */
   evsiDollars: number;
 
   /** Default decision based on prior mean vs threshold */
@@ -212,6 +363,12 @@ export interface EVSIResults {
   /** Probability the test changes the decision from the default */
   probabilityTestChangesDecision: number;
 
+  /**
+   * Monte Carlo error of evsiDollars (interval clamped to >= 0, like the
+   * estimate). Absent for the closed-form Normal fast path.
+   */
+  evsiError?: MonteCarloError;
+
   /** Number of Monte Carlo samples used (for diagnostics) */
   numSamples?: number;
 
@@ -222,6 +379,70 @@ export interface EVSIResults {
   warnings?: CalculationWarning[];
 }
 
+/**
+ * Input parameters for multi-variant (A/B/n) EVSI
+ *
+ * k variants share one control group. After the readout the best variant
+ * ships if its posterior mean clears the threshold; otherwise none does.
+ */
+export interface MultiArmEVSIInputs {
+  /** K = N_year * CR0 * V (annual dollars per unit lift) */
+  K: number;
+
+  /** Baseline conversion rate (CR0) as decimal (see EVSIInputs.metric) */
+  baselineConversionRate: number;
+
+  /** Threshold in lift units (T_L) as decimal */
+  threshold_L: number;
+
+  /** Prior on each variant's lift, one per variant (independent across variants) */
+  priors: PriorDistribution[];
+
+  /** Sample size in the control group */
+  n_control: number;
+
+  /** Sample size in each variant group */
+  n_variant: number;
+
+  /** Metric the test reads out (default binary; see EVSIInputs.metric) */
+  metric?: MetricModel;
+
+  /** Horizon the decision pays off over (default one undiscounted year) */
+  horizon?: DecisionHorizon;
+}
+
+/**
+ * Results from multi-variant (A/B/n) EVSI
+ */
+export interface MultiArmEVSIResults {
+  /** EVSI in dollars over the decision horizon */
+  evsiDollars: number;
+
+  /** Variant shipped without testing (index into priors), or null to ship none */
+  defaultArm: number | null;
+
+  /** Probability each variant ships after the readout */
+  probabilityShipArm: number[];
+
+  /** Probability no variant ships after the readout */
+  probabilityShipNone: number;
+
+  /** Probability the readout changes the decision from the default */
+  probabilityTestChangesDecision: number;
+
+  /** Monte Carlo error of evsiDollars (interval clamped to >= 0) */
+  evsiError?: MonteCarloError;
+
+  /** Number of Monte Carlo samples used */
+  numSamples: number;
+
+  /** Number of draws rejected for feasibility */
+  numRejected: number;
+
+  /** Warnings about calculation reliability */
+  warnings?: CalculationWarning[];
+}
+
 /**
  * Input parameters for integrated Net Value calculation
  *
@@ -235,7 +456,7 @@ export interface EVSIResults {
  * Mathematical basis:
  * - Net Value = E[ValueWithTest] - E[ValueWithoutTest]
  * - ValueWithTest accounts for: test period, latency period, post-decision period
- * - ValueWithoutTest uses default decision for full year
+ * - ValueWithoutTest uses default decision for the whole horizon
  */
 export interface NetValueInputs {
   /** K = N_year * CR0 * V (annual dollars per unit lift) */
@@ -264,6 +485,78 @@ export interface NetValueInputs {
 
   /** Days between test completion and shipping decision */
   decisionLatencyDays: number;
+
+  /**
+   * Days from exposure to expected conversion (default 0).
+   * n_control/n_variant are enrolled users; only the matured share of them
+   * informs the readout (see maturedSampleFraction).
+   */
+  conversionLatencyDays?: number;
+
+  /** Metric the test reads out (default binary; see EVSIInputs.metric) */
+  metric?: MetricModel;
+
+  /**
+   * Interim looks and stopping rule (default: fixed horizon, one look at
+   * testDurationDays). Only the simulation (createNetValueSimulation)
+   * models it; the closed form and quadrature value the fixed design.
+   */
+  sequential?: SequentialDesign;
+
+  /**
+   * Horizon the decision pays off over, from the first test day (default
+   * one undiscounted year). Test and latency days count against it.
+   */
+  horizon?: DecisionHorizon;
+
+  /**
+   * Novelty effect on the true lift (default: constant lift). The readout
+   * measures the lift averaged over the test, while the value of each
+   * period uses the lift on its days.
+   */
+  effectDynamics?: EffectDynamics;
+}
+
+/**
+ * When a group-sequential test stops early at an interim look
+ *
+ * - bayesian: stop and ship once P(L >= T | data) reaches
+ *   efficacyProbability; stop without shipping once it falls to
+ *   futilityProbability (0 never stops for futility)
+ * - obrien-fleming: with z = (L_hat - T) / SE and information fraction t,
+ *   stop and ship once z >= criticalZ / sqrt(t), stop without shipping once
+ *   z <= -criticalZ / sqrt(t)
+ *
+ * A test that reaches its last day decides on the posterior mean, as the
+ * fixed design does.
+ */
+export type StoppingRule =
+  | {
+      type: 'bayesian';
+      /** Posterior probability of clearing T that stops to ship, in (0.5, 1) */
+      efficacyProbability: number;
+      /** Posterior probability of clearing T that stops without shipping, in [0, 0.5) */
+      futilityProbability: number;
+    }
+  | {
+      type: 'obrien-fleming';
+      /** Critical z at the final look (e.g. 1.96); interim bounds are wider */
+      criticalZ: number;
+    };
+
+/**
+ * Group-sequential test design: interim looks that may stop the test early
+ */
+export interface SequentialDesign {
+  /**
+   * Days of the interim looks, after the test starts and before
+   * testDurationDays (other days are ignored). Each look reads the
+   * conversions matured by that day.
+   */
+  interimDays: number[];
+
+  /** Rule applied at each interim look */
+  rule: StoppingRule;
 }
 
 /**
@@ -295,6 +588,33 @@ export interface NetValueResults {
   /** Probability the test changes the decision from the default */
   probabilityTestChangesDecision: number;
 
+  /**
+   * Net value lost because unmatured conversions are missing from the readout.
+   * Computed on the same draws as netValueDollars (common random numbers),
+   * so it is the difference against an otherwise identical zero-latency test.
+   * 0 when conversionLatencyDays is 0. With a sequential design, this is
+   * the cost to the fixed design.
+   */
+  conversionLatencyCostDollars: number;
+
+  /**
+   * Expected days the test runs before a decision (sequential designs only;
+   * testDurationDays for a fixed design)
+   */
+  expectedTestDurationDays?: number;
+
+  /** Probability an interim look stops the test (sequential designs only) */
+  probabilityStopEarly?: number;
+
+  /**
+   * Net value the stopping rule adds over the fixed design that always runs
+   * testDurationDays (sequential designs only). Computed on the same draws.
+   */
+  earlyStoppingGainDollars?: number;
+
+  /** Monte Carlo error of netValueDollars (absent when nothing was simulated) */
+  netValueError?: MonteCarloError;
+
   /** Number of Monte Carlo samples used (for diagnostics) */
   numSamples?: number;
 
@@ -304,3 +624,100 @@ export interface NetValueResults {
   /** Warnings about calculation reliability */
   warnings?: CalculationWarning[];
 }
+
+/**
+ * How a bandit splits traffic between control and variant
+ *
+ * - thompson: Thompson sampling; the variant's share is the posterior
+ *   probability that it is the better arm, P(L >= T | data)
+ * - epsilon-greedy: the arm with the better posterior mean gets 1 - epsilon/2
+ *   of the traffic, the other epsilon/2
+ */
+export type BanditPolicy =
+  | { type: 'thompson' }
+  | {
+      type: 'epsilon-greedy';
+      /** Share of traffic spent exploring, split evenly between the arms, in [0, 1] */
+      epsilon: number;
+    };
+
+/**
+ * Input parameters for a two-arm bandit rollout
+ *
+ * The bandit runs for the same horizon as net value, with no
+ * separate test or decision: each update it re-splits traffic from the
+ * data matured so far.
+ */
+export interface BanditInputs {
+  /** K = N_year * CR0 * V (annual dollars per unit lift) */
+  K: number;
+
+  /** Baseline conversion rate CR0 (binary metrics; see EVSIInputs.metric) */
+  baselineConversionRate: number;
+
+  /** Threshold in lift units (T_L); the variant is the better arm when L >= T_L */
+  threshold_L: number;
+
+  /** Prior distribution on relative lift L */
+  prior: PriorDistribution;
+
+  /** Visitors per day whose outcomes the bandit observes (eligible traffic) */
+  dailySampleSize: number;
+
+  /** Traffic split policy */
+  policy: BanditPolicy;
+
+  /** Days between allocation updates (default 1) */
+  updateIntervalDays?: number;
+
+  /** Days from exposure to conversion; data informs the bandit once matured (default 0) */
+  conversionLatencyDays?: number;
+
+  /** Metric the bandit reads out (default binary; see EVSIInputs.metric) */
+  metric?: MetricModel;
+
+  /** Horizon the bandit runs for (default one undiscounted year) */
+  horizon?: DecisionHorizon;
+
+  /** Novelty effect on the true lift (default: constant lift) */
+  effectDynamics?: EffectDynamics;
+}
+
+/**
+ * Results from a bandit rollout simulation
+ *
+ * Values are dollars over the horizon relative to the threshold baseline,
+ * like net value: K * (L - T) for each (discounted) year of full traffic on
+ * the variant.
+ */
+export interface BanditResults {
+  /** Expected value of the bandit rollout */
+  valueDollars: number;
+
+  /** Expected value of the no-test default decision (on the same draws) */
+  defaultValueDollars: number;
+
+  /** valueDollars - defaultValueDollars: what the bandit adds over not testing */
+  netValueDollars: number;
+
+  /** Default decision based on prior mean vs threshold */
+  defaultDecision: 'ship' | 'dont-ship';
+
+  /** Average share of traffic on the variant over the horizon */
+  averageVariantShare: number;
+
+  /** Expected share of traffic on the variant at the end of the horizon */
+  finalVariantShare: number;
+
+  /** Monte Carlo error of netValueDollars */
+  netValueError?: MonteCarloError;
+
+  /** Number of Monte Carlo samples used */
+  numSamples: number;
+
+  /** Number of draws rejected for feasibility */
+  numRejected: number;
+
+  /** Warnings about calculation reliability */
+  warnings?: CalculationWarning[];
+}
@@ -0,0 +1,257 @@
+import { beforeAll, describe, it, expect } from 'vitest';
+import {
+  createDrawStream,
+  createMeanEstimator,
+  isPlainSampling,
+  normalControlPrior,
+  type SamplingOptions,
+} from './variance-reduction';
+import { calculateNetValue, calculateNetValueMonteCarlo } from './net-value';
+import type { PriorDistribution } from './distributions';
+import { createSeededRandom } from './random';
+import type { NetValueInputs } from './types';
+
+describe('isPlainSampling', () => {
+  it('is true only with every option off', () => {
+    expect(isPlainSampling({})).toBe(true);
+    expect(isPlainSampling({ sequence: 'pseudo-random', antithetic: false })).toBe(true);
+    expect(isPlainSampling({ sequence: 'sobol' })).toBe(false);
+    expect(isPlainSampling({ antithetic: true })).toBe(false);
+    expect(isPlainSampling({ controlVariate: true })).toBe(false);
+  });
+});
+
+describe('normalControlPrior', () => {
+  it('matches the location and scale of the prior', () => {
+    const normal: PriorDistribution = { type: 'normal', mu_L: 0.01, sigma_L: 0.03 };
+
+    expect(normalControlPrior(normal, 0.05)).toEqual(normal);
+    expect(
+      normalControlPrior({ type: 'student-t', mu_L: 0.01, sigma_L: 0.03, df: 4 }, 0.05)
+    ).toEqual(normal);
+  });
+
+  it('uses the mean and standard deviation of the feasible part of a Uniform prior', () => {
+    const control = normalControlPrior({ type: 'uniform', low_L: -3, high_L: 1 }, 0.05)!;
+
+    expect(control.mu_L).toBe(0);
+    expect(control.sigma_L).toBeCloseTo(2 / Math.sqrt(12), 12);
+  });
+
+  it('returns null for a point mass', () => {
+    expect(normalControlPrior({ type: 'normal', mu_L: 0.01, sigma_L: 0 }, 0.05)).toBeNull();
+  });
+});
+
+describe('createDrawStream', () => {
+  const uniform: PriorDistribution = { type: 'uniform', low_L: -3, high_L: 1 };
+
+  it('maps every point into the feasible range, with no rejection', () => {
+    const stream = createDrawStream(uniform, 0.05, { sequence: 'sobol' }, createSeededRandom(1))!;
+
+    expect(stream.mass).toBeCloseTo(0.5, 12);
+    for (let i = 0; i < 500; i++) {
+      const [draw] = stream.next();
+      expect(draw.lift).toBeGreaterThanOrEqual(-1);
+      expect(draw.lift).toBeLessThanOrEqual(1);
+      expect(Number.isFinite(draw.noise)).toBe(true);
+    }
+  });
+
+  it('pairs each draw with its mirror image', () => {
+    const stream = createDrawStream(uniform, 0.05, { antithetic: true }, createSeededRandom(1))!;
+
+    for (let i = 0; i < 20; i++) {
+      const [draw, mirror] = stream.next();
+      expect(draw.lift + mirror.lift).toBeCloseTo(0, 10);
+      expect(draw.noise + mirror.noise).toBeCloseTo(0, 8);
+    }
+  });
+
+  it('adds control lifts only with a control variate', () => {
+    const rng = createSeededRandom(1);
+    const plain = createDrawStream(uniform, 0.05, {}, rng)!;
+    const controlled = createDrawStream(uniform, 0.05, { controlVariate: true }, rng)!;
+
+    expect(plain.controlPrior).toBeNull();
+    expect(plain.next()[0].controlLift).toBeUndefined();
+    expect(controlled.controlPrior).toMatchObject({ type: 'normal', mu_L: 0 });
+    expect(Number.isFinite(controlled.next()[0].controlLift)).toBe(true);
+  });
+
+  it('returns null when no prior mass is feasible', () => {
+    const infeasible: PriorDistribution = { type: 'uniform', low_L: -3, high_L: -2 };
+
+    expect(createDrawStream(infeasible, 0.05, {}, createSeededRandom(1))).toBeNull();
+  });
+});
+
+describe('createMeanEstimator', () => {
+  it('is the sample mean without a control', () => {
+    const estimator = createMeanEstimator();
+    [1, 2, 3, 6].forEach((value) => estimator.add(value));
+
+    expect(estimator.count()).toBe(4);
+    expect(estimator.mean()).toBe(3);
+    expect(estimator.standardError()).toBeCloseTo(Math.sqrt(14 / 3 / 4), 12);
+  });
+
+  it('removes the noise a control explains', () => {
+    const rng = createSeededRandom(5);
+    const plain = createMeanEstimator();
+    const controlled = createMeanEstimator(0.5);
+    for (let i = 0; i < 1000; i++) {
+      const control = rng();
+      const value = 10 + 3 * control + 0.01 * (rng() - 0.5);
+      plain.add(value);
+      controlled.add(value, control);
+    }
+
+    // E[value] = 11.5 exactly
+    expect(controlled.mean()).toBeCloseTo(11.5, 3);
+    expect(controlled.standardError()).toBeLessThan(plain.standardError() / 100);
+  });
+});
+
+/**
+ * Variance reduction benchmarks
+ *
+ * Net value for the three prior types, against the deterministic result
+ * (closed form or quadrature). Quasi-random estimates are scored by their
+ * error across seeds (their reported standard error is conservative);
+ * antithetic and control variate estimates by their reported standard error.
+ * The bounds sit well below the measured factors, which are noted per case.
+ */
+describe('variance reduction benchmarks', () => {
+  const baseInputs: NetValueInputs = {
+    K: 1000000,
+    baselineConversionRate: 0.05,
+    threshold_L: 0.02,
+    prior: { type: 'normal', mu_L: 0.01, sigma_L: 0.03 },
+    n_control: 20000,
+    n_variant: 20000,
+    testDurationDays: 28,
+    variantFraction: 0.5,
+    decisionLatencyDays: 7,
+  };
+  const SEEDS = [1, 2, 3, 4, 5, 6, 7, 8];
+
+  interface Benchmark {
+    prior: PriorDistribution;
+    /** Samples per run (Student-t draws are slower) */
+    numSamples: number;
+    /** Minimum error reduction (mean squared error or variance ratio) */
+    sobol: number;
+    halton: number;
+    antithetic: number;
+    controlVariate: number;
+  }
+
+  const benchmarks: Array<[string, Benchmark]> = [
+    [
+      // Measured: Sobol ~40x, Halton ~60x, antithetic ~1.15x, control exact
+      'Normal',
+      {
+        prior: { type: 'normal', mu_L: 0.01, sigma_L: 0.03 },
+        numSamples: 800,
+        sobol: 10,
+        halton: 10,
+        antithetic: 1.05,
+        controlVariate: Infinity,
+      },
+    ],
+    [
+      // Measured: Sobol ~80x, Halton ~12x, antithetic ~1.3x, control ~7x
+      'Uniform',
+      {
+        prior: { type: 'uniform', low_L: -0.05, high_L: 0.08 },
+        numSamples: 800,
+        sobol: 10,
+        halton: 3,
+        antithetic: 1.1,
+        controlVariate: 4,
+      },
+    ],
+    [
+      // Measured: Sobol ~5x, Halton ~5x, antithetic ~1x, control ~3-5x
+      'Student-t',
+      {
+        prior: { type: 'student-t', mu_L: 0.01, sigma_L: 0.03, df: 4 },
+        numSamples: 300,
+        sobol: 2,
+        halton: 2,
+        antithetic: 0.8,
+        controlVariate: 2,
+      },
+    ],
+  ];
+
+  /** Mean squared error across seeds against the deterministic net value */
+  function meanSquaredError(
+    inputs: NetValueInputs,
+    numSamples: number,
+    sampling: SamplingOptions
+  ): number {
+    const exact = calculateNetValue(inputs).netValueDollars;
+    const squaredErrors = SEEDS.map((seed) => {
+      const estimate = calculateNetValueMonteCarlo(
+        inputs,
+        numSamples,
+        createSeededRandom(seed),
+        sampling
+      ).netValueDollars;
+      return (estimate - exact) ** 2;
+    });
+    return squaredErrors.reduce((sum, e) => sum + e, 0) / SEEDS.length;
+  }
+
+  /** Reported standard error of one seeded run */
+  function standardError(
+    inputs: NetValueInputs,
+    numSamples: number,
+    sampling: SamplingOptions
+  ): number {
+    return calculateNetValueMonteCarlo(inputs, numSamples, createSeededRandom(42), sampling)
+      .netValueError!.standardError;
+  }
+
+  describe.each(benchmarks)('%s prior', (_, benchmark) => {
+    const inputs = { ...baseInputs, prior: benchmark.prior };
+    const { numSamples } = benchmark;
+    let plainError: number;
+
+    beforeAll(() => {
+      plainError = meanSquaredError(inputs, numSamples, {});
+    });
+
+    it('Sobol points reduce the error', () => {
+      const error = meanSquaredError(inputs, numSamples, { sequence: 'sobol' });
+      expect(plainError / error).toBeGreaterThan(benchmark.sobol);
+    });
+
+    it('Halton points reduce the error', () => {
+      const error = meanSquaredError(inputs, numSamples, { sequence: 'halton' });
+      expect(plainError / error).toBeGreaterThan(benchmark.halton);
+    });
+
+    it('antithetic pairs do not increase the variance', () => {
+      const plain = standardError(inputs, 2 * numSamples, {});
+      const antithetic = standardError(inputs, 2 * numSamples, { antithetic: true });
+      expect((plain / antithetic) ** 2).toBeGreaterThan(benchmark.antithetic);
+    });
+
+    it('the control variate reduces the variance', () => {
+      const plain = standardError(inputs, 2 * numSamples, {});
+      const controlled = standardError(inputs, 2 * numSamples, { controlVariate: true });
+      expect((plain / controlled) ** 2).toBeGreaterThanOrEqual(benchmark.controlVariate);
+    });
+
+    it('Sobol with the control variate beats plain sampling with 4x the samples', () => {
+      const error = meanSquaredError(inputs, numSamples / 4, {
+        sequence: 'sobol',
+        controlVariate: true,
+      });
+      expect(error).toBeLessThan(plainError);
+    });
+  });
+});
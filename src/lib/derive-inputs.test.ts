@@ -0,0 +1,368 @@
+import { describe, it, expect } from 'vitest';
+import {
+  buildPriorDistribution,
+  deriveAdvancedInputs,
+  deriveBanditInputs,
+  deriveEffectDynamics,
+  deriveEVPIInputs,
+  deriveMetric,
+  deriveMultiArmInputs,
+  deriveNormalPriorParams,
+  deriveSequentialDesign,
+  deriveTestCostDollars,
+  deriveThresholdLift,
+} from './derive-inputs';
+import { DEFAULT_PRIOR } from './prior';
+import { quantile } from './calculations/distributions';
+import {
+  initialAdvancedInputs,
+  initialSharedInputs,
+  type AdvancedInputs,
+  type SharedInputs,
+} from '@/types/wizard';
+
+const shared: SharedInputs = {
+  ...initialSharedInputs,
+  baselineConversionRate: 0.05,
+  annualVisitors: 1000000,
+  valuePerConversion: 100,
+  priorIntervalLow: -5,
+  priorIntervalHigh: 15,
+  thresholdScenario: 'any-positive',
+};
+
+const advanced: AdvancedInputs = {
+  ...initialAdvancedInputs,
+  priorShape: 'normal',
+  testDurationDays: 14,
+  dailyTraffic: 5000,
+};
+
+describe('deriveNormalPriorParams', () => {
+  it('uses the default prior when the interval is unset', () => {
+    expect(deriveNormalPriorParams(initialSharedInputs)).toEqual(DEFAULT_PRIOR);
+  });
+
+  it('uses the default prior when the interval matches the default', () => {
+    expect(
+      deriveNormalPriorParams({ priorIntervalLow: -8.22, priorIntervalHigh: 8.22 })
+    ).toEqual(DEFAULT_PRIOR);
+  });
+
+  it('computes mean and SD from a custom interval', () => {
+    const params = deriveNormalPriorParams(shared);
+    expect(params.mu_L).toBeCloseTo(0.05, 10);
+    expect(params.sigma_L).toBeCloseTo(0.2 / (2 * 1.6449), 3);
+  });
+});
+
+describe('buildPriorDistribution', () => {
+  const shapeParams = { studentTDf: 3, mixtureSpikeWeight: 0.7, skewNormalAlpha: 4 } as const;
+
+  it('gives Student-t the interval location/scale plus df', () => {
+    const prior = buildPriorDistribution(shared, 'student-t', shapeParams);
+    expect(prior).toMatchObject({ type: 'student-t', df: 3 });
+    expect(prior.mu_L).toBeCloseTo(0.05, 10);
+  });
+
+  it('gives Uniform the interval bounds as decimals', () => {
+    expect(buildPriorDistribution(shared, 'uniform', shapeParams)).toEqual({
+      type: 'uniform',
+      low_L: -0.05,
+      high_L: 0.15,
+    });
+  });
+
+  it('puts the spike at zero and the interval Normal in the slab', () => {
+    const prior = buildPriorDistribution(shared, 'mixture', shapeParams);
+    expect(prior.type).toBe('mixture');
+    expect(prior.components![0]).toEqual({ weight: 0.7, mu_L: 0, sigma_L: 0 });
+    expect(prior.components![1].weight).toBeCloseTo(0.3, 12);
+    expect(prior.components![1].mu_L).toBeCloseTo(0.05, 10);
+  });
+
+  it('fits the skewed shapes to the interval as 5th/95th percentiles', () => {
+    for (const shape of ['log-normal', 'skew-normal'] as const) {
+      const prior = buildPriorDistribution(shared, shape, shapeParams);
+      expect(prior.type).toBe(shape);
+      expect(quantile(0.05, prior)).toBeCloseTo(-0.05, 8);
+      expect(quantile(0.95, prior)).toBeCloseTo(0.15, 8);
+    }
+    expect(buildPriorDistribution(shared, 'skew-normal', shapeParams).alpha).toBe(4);
+  });
+});
+
+describe('deriveThresholdLift', () => {
+  it('is zero for any-positive', () => {
+    expect(deriveThresholdLift(shared, 5000000)).toBe(0);
+  });
+
+  it('converts a dollar threshold using K', () => {
+    const threshold = deriveThresholdLift(
+      { ...shared, thresholdScenario: 'minimum-lift', thresholdUnit: 'dollars', thresholdValue: 50000 },
+      5000000
+    );
+    expect(threshold).toBeCloseTo(0.01, 10);
+  });
+
+  it('is null when the threshold value is missing', () => {
+    expect(
+      deriveThresholdLift({ ...shared, thresholdScenario: 'minimum-lift', thresholdUnit: 'lift' }, 1)
+    ).toBeNull();
+  });
+});
+
+describe('deriveMetric', () => {
+  it('defaults to a conversion metric', () => {
+    expect(deriveMetric(shared)).toEqual({ baseline: 0.05, metric: { type: 'binary' } });
+  });
+
+  it('uses the mean per visitor as the baseline of a continuous metric', () => {
+    const derived = deriveMetric({
+      ...shared,
+      metricType: 'continuous',
+      metricMean: 2.5,
+      metricStandardDeviation: 12,
+    });
+    expect(derived).toEqual({
+      baseline: 2.5,
+      metric: { type: 'continuous', mean: 2.5, standardDeviation: 12 },
+    });
+  });
+
+  it('returns null when a ratio metric is incomplete', () => {
+    expect(
+      deriveMetric({
+        ...shared,
+        metricType: 'ratio',
+        metricMean: 2.5,
+        metricStandardDeviation: 12,
+        ratioDenominatorMean: 1.4,
+        ratioDenominatorStandardDeviation: 0.9,
+      })
+    ).toBeNull();
+  });
+});
+
+describe('deriveEVPIInputs', () => {
+  it('returns null when business inputs are missing', () => {
+    expect(deriveEVPIInputs({ ...shared, annualVisitors: null })).toBeNull();
+  });
+
+  it('returns null when no threshold scenario is chosen', () => {
+    expect(deriveEVPIInputs({ ...shared, thresholdScenario: null })).toBeNull();
+  });
+
+  it('derives complete EVPI inputs', () => {
+    const inputs = deriveEVPIInputs(shared);
+    expect(inputs).toMatchObject({
+      baselineConversionRate: 0.05,
+      annualVisitors: 1000000,
+      valuePerConversion: 100,
+      threshold_L: 0,
+    });
+  });
+
+  it('scales K by the mean of a continuous metric', () => {
+    const inputs = deriveEVPIInputs({
+      ...shared,
+      metricType: 'continuous',
+      metricMean: 2.5,
+      metricStandardDeviation: 12,
+      valuePerConversion: 1,
+      thresholdScenario: 'accept-loss',
+      thresholdUnit: 'dollars',
+      thresholdValue: -25000,
+    });
+    // K = 1,000,000 * 2.5 * 1: a $25,000 loss is a 1% drop
+    expect(inputs!.baselineConversionRate).toBe(2.5);
+    expect(inputs!.threshold_L).toBeCloseTo(-0.01, 10);
+  });
+});
+
+describe('deriveAdvancedInputs', () => {
+  it('returns null when test design is incomplete', () => {
+    expect(deriveAdvancedInputs(shared, { ...advanced, testDurationDays: null })).toBeNull();
+  });
+
+  it('returns null for Student-t without df', () => {
+    expect(deriveAdvancedInputs(shared, { ...advanced, priorShape: 'student-t' })).toBeNull();
+  });
+
+  it('values delay at the spike-and-slab mean', () => {
+    const derived = deriveAdvancedInputs(shared, {
+      ...advanced,
+      priorShape: 'mixture',
+      mixtureSpikeWeight: 0.5,
+    });
+
+    expect(derived!.codInputs.mu_L).toBeCloseTo(0.025, 10);
+  });
+
+  it('uses matured samples for EVSI and enrolled samples for net value', () => {
+    const derived = deriveAdvancedInputs(shared, { ...advanced, conversionLatencyDays: 7 });
+    expect(derived).not.toBeNull();
+    const { evsiInputs, netValueInputs, sampleSizes } = derived!;
+
+    expect(sampleSizes.n_control).toBe(35000);
+    expect(evsiInputs.n_control).toBe(sampleSizes.n_matured_control);
+    expect(evsiInputs.n_control).toBeLessThan(netValueInputs.n_control);
+    expect(netValueInputs.n_control).toBe(sampleSizes.n_control);
+    expect(netValueInputs.conversionLatencyDays).toBe(7);
+  });
+
+  it('passes the metric model to EVSI and net value', () => {
+    const derived = deriveAdvancedInputs(
+      { ...shared, metricType: 'continuous', metricMean: 2.5, metricStandardDeviation: 12 },
+      advanced
+    );
+    const metric = { type: 'continuous', mean: 2.5, standardDeviation: 12 };
+    expect(derived!.evsiInputs.metric).toEqual(metric);
+    expect(derived!.netValueInputs.metric).toEqual(metric);
+  });
+
+  it('passes the prior mean to Cost of Delay', () => {
+    const derived = deriveAdvancedInputs(shared, { ...advanced, priorShape: 'uniform' });
+    expect(derived!.codInputs.mu_L).toBeCloseTo(0.05, 10);
+  });
+
+  it('passes the decision horizon to every engine', () => {
+    const horizon = { horizonDays: 1095, annualDiscountRate: 0.1 };
+    const derived = deriveAdvancedInputs({ ...shared, ...horizon }, advanced)!;
+
+    expect(derived.evsiInputs.horizon).toEqual(horizon);
+    expect(derived.codInputs.horizon).toEqual(horizon);
+    expect(derived.netValueInputs.horizon).toEqual(horizon);
+    expect(deriveEVPIInputs({ ...shared, ...horizon })!.horizon).toEqual(horizon);
+  });
+});
+
+describe('deriveTestCostDollars', () => {
+  it('is zero by default', () => {
+    expect(deriveTestCostDollars(shared)).toBe(0);
+  });
+
+  it('prices engineering and analyst hours and adds tooling', () => {
+    expect(
+      deriveTestCostDollars({
+        engineeringHours: 40,
+        analystHours: 10,
+        hourlyRate: 150,
+        toolingCostPerTest: 500,
+      })
+    ).toBe(8000);
+  });
+});
+
+describe('deriveEffectDynamics', () => {
+  it('keeps a constant lift by default', () => {
+    expect(deriveEffectDynamics(advanced)).toBeUndefined();
+    expect(deriveAdvancedInputs(shared, advanced)!.netValueInputs.effectDynamics).toBeUndefined();
+  });
+
+  it('builds the selected model', () => {
+    expect(deriveEffectDynamics({ ...advanced, effectDynamicsType: 'decay' })).toEqual({
+      type: 'decay',
+      noveltyLift: 0.02,
+      halfLifeDays: 7,
+    });
+    expect(
+      deriveEffectDynamics({
+        ...advanced,
+        effectDynamicsType: 'novelty-multiplier',
+        noveltyMultiplier: 1,
+        noveltyHalfLifeDays: 14,
+      })
+    ).toEqual({ type: 'novelty-multiplier', multiplier: 1, halfLifeDays: 14 });
+  });
+
+  it('passes the model to net value and the bandit', () => {
+    const withDecay = { ...advanced, effectDynamicsType: 'decay' } as const;
+
+    expect(deriveAdvancedInputs(shared, withDecay)!.netValueInputs.effectDynamics).toEqual(
+      deriveEffectDynamics(withDecay)
+    );
+    expect(deriveBanditInputs(shared, withDecay)!.effectDynamics).toEqual(
+      deriveEffectDynamics(withDecay)
+    );
+  });
+});
+
+describe('deriveMultiArmInputs', () => {
+  it('shares the variant allocation among the variants', () => {
+    const inputs = deriveMultiArmInputs(shared, { ...advanced, trafficSplit: 0.6 }, 3)!;
+
+    // 70,000 visitors: 14,000 per variant, 28,000 in control
+    expect(inputs.priors).toHaveLength(3);
+    expect(inputs.n_variant).toBe(14000);
+    expect(inputs.n_control).toBe(28000);
+  });
+
+  it('gives each variant the main prior when priors are shared', () => {
+    const inputs = deriveMultiArmInputs(shared, { ...advanced, variantCount: 2 })!;
+    expect(inputs.priors[1]).toEqual(inputs.priors[0]);
+  });
+
+  it("builds individual priors from each variant's interval", () => {
+    const inputs = deriveMultiArmInputs(shared, {
+      ...advanced,
+      priorShape: 'uniform',
+      variantCount: 3,
+      variantPriorMode: 'individual',
+      variantPriorIntervals: [{ low: -2, high: 4 }],
+    })!;
+
+    expect(inputs.priors[1]).toEqual({ type: 'uniform', low_L: -0.02, high_L: 0.04 });
+    // No interval for variant 3: the main prior
+    expect(inputs.priors[2]).toEqual(inputs.priors[0]);
+  });
+
+  it('returns null when the test design is incomplete', () => {
+    expect(deriveMultiArmInputs(shared, { ...advanced, dailyTraffic: null })).toBeNull();
+  });
+});
+
+describe('deriveSequentialDesign', () => {
+  it('is a fixed-horizon test without interim looks', () => {
+    expect(deriveSequentialDesign(advanced)).toBeNull();
+  });
+
+  it('builds the selected stopping rule', () => {
+    const withLooks = { ...advanced, interimLookDays: [7, 14] };
+
+    expect(deriveSequentialDesign(withLooks)).toEqual({
+      interimDays: [7, 14],
+      rule: { type: 'bayesian', efficacyProbability: 0.95, futilityProbability: 0.05 },
+    });
+    expect(
+      deriveSequentialDesign({ ...withLooks, stoppingRule: 'obrien-fleming', criticalZ: 2.5 })
+    ).toEqual({ interimDays: [7, 14], rule: { type: 'obrien-fleming', criticalZ: 2.5 } });
+  });
+});
+
+describe('deriveBanditInputs', () => {
+  it('observes eligible daily traffic with the prior and threshold of the A/B test', () => {
+    const inputs = deriveBanditInputs(shared, { ...advanced, eligibilityFraction: 0.5 }, 7)!;
+    const derived = deriveAdvancedInputs(shared, advanced)!;
+
+    expect(inputs.dailySampleSize).toBe(2500);
+    expect(inputs.updateIntervalDays).toBe(7);
+    expect(inputs.prior).toEqual(derived.netValueInputs.prior);
+    expect(inputs.K).toBe(derived.netValueInputs.K);
+    expect(inputs.policy).toEqual({ type: 'thompson' });
+  });
+
+  it('builds an epsilon-greedy policy', () => {
+    const inputs = deriveBanditInputs(shared, {
+      ...advanced,
+      banditPolicy: 'epsilon-greedy',
+      banditEpsilon: 0.2,
+    })!;
+
+    expect(inputs.policy).toEqual({ type: 'epsilon-greedy', epsilon: 0.2 });
+  });
+
+  it('returns null when the test design is incomplete', () => {
+    expect(deriveBanditInputs(shared, { ...advanced, dailyTraffic: null })).toBeNull();
+  });
+});
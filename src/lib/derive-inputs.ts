@@ -0,0 +1,607 @@
+/**
+ * Input Derivation
+ *
+ * Turns wizard inputs (percentages, nullable fields, threshold scenarios)
+ * into the calculation engine's inputs (decimal lifts, K, prior
+ * distributions, sample sizes).
+ *
+ * Pure functions so the same derivation serves the live results hooks and
+ * anything that evaluates inputs outside the wizard (e.g., the scenario
+ * comparison). Each returns null when the inputs are incomplete.
+ */
+
+import {
+  deriveK,
+  normalizeThresholdToLift,
+  deriveSampleSizes,
+  getPriorMean,
+} from '@/lib/calculations';
+import {
+  computePriorFromInterval,
+  computeLogNormalPriorFromInterval,
+  computeSkewNormalPriorFromInterval,
+  DEFAULT_PRIOR,
+  DEFAULT_INTERVAL,
+} from '@/lib/prior';
+import type { PriorParameters } from '@/lib/prior';
+import type { AdvancedInputs, SharedInputs } from '@/types/wizard';
+import type {
+  BanditInputs,
+  DecisionHorizon,
+  EffectDynamics,
+  EVPIInputs,
+  EVSIInputs,
+  MetricModel,
+  MultiArmEVSIInputs,
+  NetValueInputs,
+  PriorDistribution,
+  SequentialDesign,
+} from '@/lib/calculations/types';
+import type { CoDInputs } from '@/lib/calculations/cost-of-delay';
+import type { SampleSizeResults } from '@/lib/calculations/sample-size';
+
+/**
+ * Prior shape selected in Advanced mode
+ */
+export type PriorShape = NonNullable<AdvancedInputs['priorShape']>;
+
+/**
+ * Shape parameters read by buildPriorDistribution (unset presets fall back
+ * to Student-t df 5 and skew-normal alpha 4)
+ */
+export type PriorShapeParams = Pick<
+  AdvancedInputs,
+  'studentTDf' | 'mixtureSpikeWeight' | 'skewNormalAlpha'
+>;
+
+/**
+ * Everything the Advanced mode calculations need, derived from one set of inputs
+ */
+export interface DerivedAdvancedInputs {
+  prior: PriorDistribution;
+  /** EVSI inputs (matured sample sizes) */
+  evsiInputs: EVSIInputs;
+  /** Cost of Delay inputs (for the value breakdown) */
+  codInputs: CoDInputs;
+  /** Integrated net value inputs (enrolled sample sizes) */
+  netValueInputs: NetValueInputs;
+  sampleSizes: SampleSizeResults;
+}
+
+/**
+ * The tested metric: its baseline per visitor and its noise model
+ */
+export interface DerivedMetric {
+  /**
+   * Baseline per visitor: the conversion rate (binary), or the mean of the
+   * metric (continuous) or of its numerator (ratio). K = N_year * baseline * V.
+   */
+  baseline: number;
+  /** Metric model for the EVSI and net value engines */
+  metric: MetricModel;
+}
+
+/**
+ * Derive the tested metric from the business inputs
+ *
+ * @param shared - Shared inputs (metric fields only)
+ * @returns Baseline and metric model, or null if the metric's inputs are incomplete
+ */
+export function deriveMetric(
+  shared: Pick<
+    SharedInputs,
+    | 'metricType'
+    | 'baselineConversionRate'
+    | 'metricMean'
+    | 'metricStandardDeviation'
+    | 'ratioDenominatorMean'
+    | 'ratioDenominatorStandardDeviation'
+    | 'ratioCorrelation'
+  >
+): DerivedMetric | null {
+  switch (shared.metricType) {
+    case 'continuous':
+      if (shared.metricMean === null || shared.metricStandardDeviation === null) {
+        return null;
+      }
+      return {
+        baseline: shared.metricMean,
+        metric: {
+          type: 'continuous',
+          mean: shared.metricMean,
+          standardDeviation: shared.metricStandardDeviation,
+        },
+      };
+
+    case 'ratio':
+      if (
+        shared.metricMean === null ||
+        shared.metricStandardDeviation === null ||
+        shared.ratioDenominatorMean === null ||
+        shared.ratioDenominatorStandardDeviation === null ||
+        shared.ratioCorrelation === null
+      ) {
+        return null;
+      }
+      return {
+        baseline: shared.metricMean,
+        metric: {
+          type: 'ratio',
+          numeratorMean: shared.metricMean,
+          numeratorStandardDeviation: shared.metricStandardDeviation,
+          denominatorMean: shared.ratioDenominatorMean,
+          denominatorStandardDeviation: shared.ratioDenominatorStandardDeviation,
+          correlation: shared.ratioCorrelation,
+        },
+      };
+
+    case 'binary':
+    default:
+      if (shared.baselineConversionRate === null) {
+        return null;
+      }
+      return { baseline: shared.baselineConversionRate, metric: { type: 'binary' } };
+  }
+}
+
+/**
+ * Derive Normal prior parameters from the prior interval
+ *
+ * Per STATE.md decision "Derive priorType at validation time": an interval
+ * matching DEFAULT_INTERVAL (within 0.01pp), or one not yet set, means the
+ * default prior.
+ *
+ * @param shared - Shared inputs (only the interval is read)
+ * @returns Prior mean and standard deviation as decimals
+ */
+export function deriveNormalPriorParams(
+  shared: Pick<SharedInputs, 'priorIntervalLow' | 'priorIntervalHigh'>
+): PriorParameters {
+  const { priorIntervalLow, priorIntervalHigh } = shared;
+
+  if (priorIntervalLow === null || priorIntervalHigh === null) {
+    return DEFAULT_PRIOR;
+  }
+
+  const isDefaultPrior =
+    Math.abs(priorIntervalLow - DEFAULT_INTERVAL.low) < 0.01 &&
+    Math.abs(priorIntervalHigh - DEFAULT_INTERVAL.high) < 0.01;
+
+  return isDefaultPrior
+    ? DEFAULT_PRIOR
+    : computePriorFromInterval(priorIntervalLow, priorIntervalHigh);
+}
+
+/**
+ * Build the prior distribution for a given shape
+ *
+ * Normal and Student-t share the interval's location and scale; Uniform
+ * uses the interval bounds directly. The mixture is a spike at zero lift
+ * plus the interval's Normal as the slab. Log-normal and skew-normal are
+ * fitted so the interval bounds are exactly their 5th and 95th percentiles.
+ *
+ * @param shared - Shared inputs (only the interval is read)
+ * @param shape - Prior shape
+ * @param shapeParams - Student-t df, mixture spike weight and skew-normal alpha
+ * @returns Prior distribution over relative lift
+ */
+export function buildPriorDistribution(
+  shared: Pick<SharedInputs, 'priorIntervalLow' | 'priorIntervalHigh'>,
+  shape: PriorShape,
+  shapeParams: PriorShapeParams
+): PriorDistribution {
+  const normalParams = deriveNormalPriorParams(shared);
+  const low = shared.priorIntervalLow ?? DEFAULT_INTERVAL.low;
+  const high = shared.priorIntervalHigh ?? DEFAULT_INTERVAL.high;
+
+  switch (shape) {
+    case 'student-t':
+      return {
+        type: 'student-t',
+        mu_L: normalParams.mu_L,
+        sigma_L: normalParams.sigma_L,
+        df: shapeParams.studentTDf ?? 5,
+      };
+
+    case 'uniform':
+      // Interval is in percent; the engine works in decimals
+      return {
+        type: 'uniform',
+        low_L: low / 100,
+        high_L: high / 100,
+      };
+
+    case 'mixture': {
+      const spikeWeight = shapeParams.mixtureSpikeWeight;
+      return {
+        type: 'mixture',
+        components: [
+          { weight: spikeWeight, mu_L: 0, sigma_L: 0 },
+          { weight: 1 - spikeWeight, mu_L: normalParams.mu_L, sigma_L: normalParams.sigma_L },
+        ],
+      };
+    }
+
+    case 'log-normal':
+      return {
+        type: 'log-normal',
+        ...computeLogNormalPriorFromInterval(low, high),
+      };
+
+    case 'skew-normal': {
+      const alpha = shapeParams.skewNormalAlpha ?? 4;
+      return {
+        type: 'skew-normal',
+        ...computeSkewNormalPriorFromInterval(low, high, alpha),
+        alpha,
+      };
+    }
+
+    case 'normal':
+    default:
+      return {
+        type: 'normal',
+        mu_L: normalParams.mu_L,
+        sigma_L: normalParams.sigma_L,
+      };
+  }
+}
+
+/**
+ * Convert the threshold scenario to lift units (decimal)
+ *
+ * Per SPEC.md Section 7.3: "any-positive" is T_L = 0; the other scenarios
+ * convert thresholdValue from its unit (thresholdValue is already negative
+ * for "accept-loss", per the 02-03 sign convention).
+ *
+ * @param shared - Shared inputs
+ * @param K - Annual dollars per unit lift
+ * @returns Threshold in lift units, or null if the threshold is incomplete
+ */
+export function deriveThresholdLift(shared: SharedInputs, K: number): number | null {
+  if (shared.thresholdScenario === null) {
+    return null;
+  }
+  if (shared.thresholdScenario === 'any-positive') {
+    return 0;
+  }
+  if (shared.thresholdValue === null || shared.thresholdUnit === null) {
+    return null;
+  }
+  return normalizeThresholdToLift(shared.thresholdValue, shared.thresholdUnit, K);
+}
+
+/**
+ * Derive the decision horizon from the business inputs
+ *
+ * @param shared - Shared inputs (horizon fields only)
+ * @returns Horizon in days and annual discount rate (decimal)
+ */
+export function deriveHorizon(
+  shared: Pick<SharedInputs, 'horizonDays' | 'annualDiscountRate'>
+): DecisionHorizon {
+  return { horizonDays: shared.horizonDays, annualDiscountRate: shared.annualDiscountRate };
+}
+
+/**
+ * Derive the total cost of running the test
+ *
+ * @param shared - Shared inputs (cost fields only)
+ * @returns People time at the hourly rate plus tooling, in dollars
+ */
+export function deriveTestCostDollars(
+  shared: Pick<
+    SharedInputs,
+    'engineeringHours' | 'analystHours' | 'hourlyRate' | 'toolingCostPerTest'
+  >
+): number {
+  return (
+    (shared.engineeringHours + shared.analystHours) * shared.hourlyRate +
+    shared.toolingCostPerTest
+  );
+}
+
+/**
+ * Derive the novelty effect model (Advanced mode)
+ *
+ * @param advanced - Advanced inputs
+ * @returns Effect dynamics, or undefined for a constant lift
+ */
+export function deriveEffectDynamics(advanced: AdvancedInputs): EffectDynamics | undefined {
+  switch (advanced.effectDynamicsType) {
+    case 'decay':
+      return {
+        type: 'decay',
+        noveltyLift: advanced.noveltyLift,
+        halfLifeDays: advanced.noveltyHalfLifeDays,
+      };
+    case 'novelty-multiplier':
+      return {
+        type: 'novelty-multiplier',
+        multiplier: advanced.noveltyMultiplier,
+        halfLifeDays: advanced.noveltyHalfLifeDays,
+      };
+    default:
+      return undefined;
+  }
+}
+
+/**
+ * Derive EVPI inputs (Basic mode)
+ *
+ * Per 03-CONTEXT.md: "Incomplete inputs: Results section hidden", so any
+ * missing business or threshold input yields null.
+ *
+ * @param shared - Shared inputs
+ * @returns EVPI inputs, or null if inputs are incomplete
+ */
+export function deriveEVPIInputs(shared: SharedInputs): EVPIInputs | null {
+  const derivedMetric = deriveMetric(shared);
+  if (
+    derivedMetric === null ||
+    shared.annualVisitors === null ||
+    shared.valuePerConversion === null
+  ) {
+    return null;
+  }
+
+  // K = N_year * CR0 * V converts lift (decimal) to dollars
+  const K = deriveK(shared.annualVisitors, derivedMetric.baseline, shared.valuePerConversion);
+  const threshold_L = deriveThresholdLift(shared, K);
+  if (threshold_L === null) {
+    return null;
+  }
+
+  return {
+    baselineConversionRate: derivedMetric.baseline,
+    annualVisitors: shared.annualVisitors,
+    valuePerConversion: shared.valuePerConversion,
+    prior: deriveNormalPriorParams(shared),
+    threshold_L,
+    horizon: deriveHorizon(shared),
+  };
+}
+
+/**
+ * Derive EVSI, Cost of Delay and net value inputs (Advanced mode)
+ *
+ * @param shared - Shared inputs
+ * @param advanced - Advanced inputs
+ * @returns Derived inputs, or null if inputs are incomplete
+ */
+export function deriveAdvancedInputs(
+  shared: SharedInputs,
+  advanced: AdvancedInputs
+): DerivedAdvancedInputs | null {
+  const derivedMetric = deriveMetric(shared);
+  if (
+    derivedMetric === null ||
+    shared.annualVisitors === null ||
+    shared.valuePerConversion === null
+  ) {
+    return null;
+  }
+  const { baseline, metric } = derivedMetric;
+
+  if (
+    advanced.priorShape === null ||
+    advanced.testDurationDays === null ||
+    advanced.dailyTraffic === null ||
+    advanced.trafficSplit === null ||
+    advanced.eligibilityFraction === null
+  ) {
+    return null;
+  }
+
+  if (
+    (advanced.priorShape === 'student-t' && advanced.studentTDf === null) ||
+    (advanced.priorShape === 'skew-normal' && advanced.skewNormalAlpha === null)
+  ) {
+    return null;
+  }
+
+  const prior = buildPriorDistribution(shared, advanced.priorShape, advanced);
+
+  const K = deriveK(shared.annualVisitors, baseline, shared.valuePerConversion);
+  const threshold_L = deriveThresholdLift(shared, K);
+  if (threshold_L === null) {
+    return null;
+  }
+
+  const conversionLatencyDays = advanced.conversionLatencyDays ?? 0;
+  const decisionLatencyDays = advanced.decisionLatencyDays ?? 0;
+  const horizon = deriveHorizon(shared);
+
+  const sampleSizes = deriveSampleSizes({
+    dailyTraffic: advanced.dailyTraffic,
+    testDurationDays: advanced.testDurationDays,
+    eligibilityFraction: advanced.eligibilityFraction,
+    variantFraction: advanced.trafficSplit,
+    conversionLatencyDays,
+  });
+
+  // EVSI values the information the readout actually contains, so it uses
+  // the matured sample (users whose conversions landed before test end)
+  const evsiInputs: EVSIInputs = {
+    K,
+    baselineConversionRate: baseline,
+    threshold_L,
+    prior,
+    n_control: sampleSizes.n_matured_control,
+    n_variant: sampleSizes.n_matured_variant,
+    metric,
+    horizon,
+  };
+
+  const priorMean = getPriorMean(prior);
+
+  const codInputs: CoDInputs = {
+    K,
+    mu_L: priorMean,
+    threshold_L,
+    testDurationDays: advanced.testDurationDays,
+    variantFraction: advanced.trafficSplit,
+    decisionLatencyDays,
+    horizon,
+  };
+
+  // Per COD-03: net value is computed in a single coherent simulation.
+  // Sample sizes here are enrolled users; net value applies conversion
+  // latency itself so it can price the latency on the same draws.
+  const netValueInputs: NetValueInputs = {
+    K,
+    baselineConversionRate: baseline,
+    threshold_L,
+    prior,
+    n_control: sampleSizes.n_control,
+    n_variant: sampleSizes.n_variant,
+    testDurationDays: advanced.testDurationDays,
+    variantFraction: advanced.trafficSplit,
+    decisionLatencyDays,
+    conversionLatencyDays,
+    metric,
+    horizon,
+    effectDynamics: deriveEffectDynamics(advanced),
+  };
+
+  return {
+    prior,
+    evsiInputs,
+    codInputs,
+    netValueInputs,
+    sampleSizes,
+  };
+}
+
+/**
+ * Derive multi-variant (A/B/n) EVSI inputs (Advanced mode)
+ *
+ * Variant 1 uses the main prior; variants 2..k use it too ('shared'), or
+ * their own interval with the main prior's shape ('individual', falling
+ * back to the main prior for a missing interval). The variant allocation
+ * is shared equally among the k variants.
+ *
+ * @param shared - Shared inputs
+ * @param advanced - Advanced inputs
+ * @param variantCount - Variants to test (default advanced.variantCount)
+ * @returns Multi-variant EVSI inputs (matured sample sizes), or null if inputs are incomplete
+ */
+export function deriveMultiArmInputs(
+  shared: SharedInputs,
+  advanced: AdvancedInputs,
+  variantCount: number = advanced.variantCount
+): MultiArmEVSIInputs | null {
+  const derived = deriveAdvancedInputs(shared, advanced);
+  if (!derived) {
+    return null;
+  }
+  const { prior, evsiInputs } = derived;
+
+  const priors = Array.from({ length: variantCount }, (_, j) => {
+    const interval = advanced.variantPriorIntervals[j - 1];
+    if (j === 0 || advanced.variantPriorMode === 'shared' || !interval) {
+      return prior;
+    }
+    return buildPriorDistribution(
+      { priorIntervalLow: interval.low, priorIntervalHigh: interval.high },
+      // Checked by deriveAdvancedInputs
+      advanced.priorShape!,
+      advanced
+    );
+  });
+
+  const sampleSizes = deriveSampleSizes({
+    dailyTraffic: advanced.dailyTraffic!,
+    testDurationDays: advanced.testDurationDays!,
+    eligibilityFraction: advanced.eligibilityFraction!,
+    variantFraction: advanced.trafficSplit!,
+    variantCount,
+    conversionLatencyDays: advanced.conversionLatencyDays ?? 0,
+  });
+
+  return {
+    K: evsiInputs.K,
+    baselineConversionRate: evsiInputs.baselineConversionRate,
+    threshold_L: evsiInputs.threshold_L,
+    priors,
+    n_control: sampleSizes.n_matured_control,
+    n_variant: sampleSizes.n_matured_variant,
+    metric: evsiInputs.metric,
+    horizon: evsiInputs.horizon,
+  };
+}
+
+/**
+ * Derive the group-sequential design (Advanced mode)
+ *
+ * @param advanced - Advanced inputs
+ * @returns Interim looks and stopping rule, or null for a fixed-horizon test
+ *   (no interim look days)
+ */
+export function deriveSequentialDesign(advanced: AdvancedInputs): SequentialDesign | null {
+  if (advanced.interimLookDays.length === 0) {
+    return null;
+  }
+
+  return {
+    interimDays: advanced.interimLookDays,
+    rule:
+      advanced.stoppingRule === 'bayesian'
+        ? {
+            type: 'bayesian',
+            efficacyProbability: advanced.efficacyProbability,
+            futilityProbability: advanced.futilityProbability,
+          }
+        : { type: 'obrien-fleming', criticalZ: advanced.criticalZ },
+  };
+}
+
+/**
+ * Derive bandit rollout inputs (Advanced mode)
+ *
+ * Same prior, K, threshold, metric, horizon and effect dynamics as the net
+ * value inputs; the bandit observes the eligible daily traffic.
+ *
+ * @param shared - Shared inputs
+ * @param advanced - Advanced inputs
+ * @param updateIntervalDays - Days between allocation updates (default 1)
+ * @returns Bandit inputs, or null if inputs are incomplete
+ */
+export function deriveBanditInputs(
+  shared: SharedInputs,
+  advanced: AdvancedInputs,
+  updateIntervalDays: number = 1
+): BanditInputs | null {
+  const derived = deriveAdvancedInputs(shared, advanced);
+  if (!derived) {
+    return null;
+  }
+  const {
+    K,
+    baselineConversionRate,
+    threshold_L,
+    prior,
+    conversionLatencyDays,
+    metric,
+    horizon,
+    effectDynamics,
+  } = derived.netValueInputs;
+
+  return {
+    K,
+    baselineConversionRate,
+    threshold_L,
+    prior,
+    // Both checked by deriveAdvancedInputs
+    dailySampleSize: advanced.dailyTraffic! * advanced.eligibilityFraction!,
+    policy:
+      advanced.banditPolicy === 'thompson'
+        ? { type: 'thompson' }
+        : { type: 'epsilon-greedy', epsilon: advanced.banditEpsilon },
+    updateIntervalDays,
+    conversionLatencyDays,
+    metric,
+    horizon,
+    effectDynamics,
+  };
+}
@@ -0,0 +1,49 @@
+/**
+ * Design Sweeps
+ *
+ * Net value of testing for alternative test designs (duration, traffic
+ * split), holding every other input fixed. Shared by the duration and
+ * traffic split optimizers.
+ *
+ * Net value is deterministic for every prior (closed form for Normal,
+ * quadrature for the rest), so the curve or surface moves only
+ * with the design, and the point at the entered design reproduces the
+ * headline net value exactly.
+ */
+
+import { calculateNetValue } from '@/lib/calculations/net-value';
+import { deriveAdvancedInputs } from '@/lib/derive-inputs';
+import type { InputsState } from '@/types/wizard';
+
+/**
+ * Design inputs a sweep can vary
+ */
+export interface DesignOverrides {
+  testDurationDays?: number;
+  /** Variant fraction (decimal) */
+  trafficSplit?: number;
+}
+
+/**
+ * Progress callback: called after each design point with (completed, total)
+ */
+export type SweepProgress = (completed: number, total: number) => void;
+
+/**
+ * Net value of testing for one design
+ *
+ * @param inputs - Wizard inputs
+ * @param design - Design inputs to override
+ * @returns Net value in dollars, or null if the inputs are incomplete
+ */
+export function netValueForDesign(
+  inputs: InputsState,
+  design: DesignOverrides
+): number | null {
+  const derived = deriveAdvancedInputs(inputs.shared, { ...inputs.advanced, ...design });
+  if (!derived) {
+    return null;
+  }
+
+  return calculateNetValue(derived.netValueInputs).netValueDollars;
+}
@@ -0,0 +1,71 @@
+import { describe, it, expect, vi } from 'vitest';
+import { sweepTestDuration, DEFAULT_DURATION_RANGE } from './duration-optimizer';
+import { createTestInputs } from '@/test/inputs';
+
+const inputs = createTestInputs();
+
+describe('sweepTestDuration', () => {
+  it('returns one point per day in the range', () => {
+    const results = sweepTestDuration(inputs, { minDays: 5, maxDays: 12 })!;
+
+    expect(results.points.map((point) => point.days)).toEqual([5, 6, 7, 8, 9, 10, 11, 12]);
+  });
+
+  it('sweeps 1-90 days by default', () => {
+    const results = sweepTestDuration(inputs)!;
+
+    expect(results.points).toHaveLength(
+      DEFAULT_DURATION_RANGE.maxDays - DEFAULT_DURATION_RANGE.minDays + 1
+    );
+  });
+
+  it('reports the best point', () => {
+    const results = sweepTestDuration(inputs, { minDays: 1, maxDays: 30 })!;
+    const max = Math.max(...results.points.map((point) => point.netValueDollars));
+
+    expect(results.bestNetValueDollars).toBe(max);
+    expect(results.points.find((point) => point.days === results.bestDays)!.netValueDollars).toBe(
+      max
+    );
+  });
+
+  it('ignores the entered duration', () => {
+    const results = sweepTestDuration(
+      { ...inputs, advanced: { ...inputs.advanced, testDurationDays: null } },
+      { minDays: 1, maxDays: 3 }
+    );
+
+    expect(results).not.toBeNull();
+  });
+
+  it('reports progress after each duration', () => {
+    const onProgress = vi.fn();
+    sweepTestDuration(inputs, { minDays: 1, maxDays: 4 }, onProgress);
+
+    expect(onProgress.mock.calls).toEqual([
+      [1, 4],
+      [2, 4],
+      [3, 4],
+      [4, 4],
+    ]);
+  });
+
+  it('returns null when other inputs are incomplete', () => {
+    const results = sweepTestDuration(
+      { ...inputs, advanced: { ...inputs.advanced, dailyTraffic: null } },
+      { minDays: 1, maxDays: 3 }
+    );
+
+    expect(results).toBeNull();
+  });
+
+  it('penalizes very long tests that delay shipping', () => {
+    // With decent traffic the readout is precise within weeks; a 90-day test
+    // mostly adds delay, so net value should fall well below the peak
+    const results = sweepTestDuration(inputs)!;
+    const last = results.points[results.points.length - 1];
+
+    expect(results.bestDays).toBeLessThan(90);
+    expect(last.netValueDollars).toBeLessThan(results.bestNetValueDollars);
+  });
+});
@@ -0,0 +1,92 @@
+/**
+ * Test Duration Optimizer
+ *
+ * Sweeps test duration over a range of days and computes net value of
+ * testing at each, holding every other input fixed. Longer tests buy a more
+ * precise readout but delay shipping the winner (and expose the variant
+ * share to a possibly-harmful change for longer); the sweep finds the
+ * duration where those balance.
+ *
+ * Each point re-derives sample sizes (deriveSampleSizes via
+ * deriveAdvancedInputs) and runs calculateNetValue, so conversion and
+ * decision latency are priced in as they are for the headline. Net value is
+ * deterministic (see design-sweep.ts), so the curve is smooth.
+ *
+ * Runs in the worker: 90 numerical integrations are too slow for the UI
+ * thread.
+ */
+
+import { netValueForDesign, type SweepProgress } from '@/lib/design-sweep';
+import type { InputsState } from '@/types/wizard';
+
+/**
+ * Durations to sweep (inclusive, whole days)
+ */
+export interface DurationRange {
+  minDays: number;
+  maxDays: number;
+}
+
+/**
+ * Default sweep: 1 to 90 days
+ */
+export const DEFAULT_DURATION_RANGE: DurationRange = { minDays: 1, maxDays: 90 };
+
+/**
+ * Net value at one duration
+ */
+export interface DurationPoint {
+  days: number;
+  netValueDollars: number;
+}
+
+/**
+ * Results of the duration sweep
+ */
+export interface DurationSweepResults {
+  /** One point per day in the range, in order */
+  points: DurationPoint[];
+  /** Duration with the highest net value */
+  bestDays: number;
+  /** Net value at bestDays */
+  bestNetValueDollars: number;
+}
+
+/**
+ * Sweep test duration and find the net-value-maximizing duration
+ *
+ * @param inputs - Wizard inputs (testDurationDays is ignored)
+ * @param range - Durations to sweep
+ * @param onProgress - Optional progress callback
+ * @returns Sweep results, or null if the other inputs are incomplete
+ */
+export function sweepTestDuration(
+  inputs: InputsState,
+  range: DurationRange = DEFAULT_DURATION_RANGE,
+  onProgress?: SweepProgress
+): DurationSweepResults | null {
+  const minDays = Math.max(1, Math.round(range.minDays));
+  const maxDays = Math.max(minDays, Math.round(range.maxDays));
+  const total = maxDays - minDays + 1;
+
+  const points: DurationPoint[] = [];
+  for (let days = minDays; days <= maxDays; days++) {
+    const netValueDollars = netValueForDesign(inputs, { testDurationDays: days });
+    if (netValueDollars === null) {
+      // Duration is the only thing that changes, so this fails on the
+      // first iteration or not at all
+      return null;
+    }
+
+    points.push({ days, netValueDollars });
+    onProgress?.(points.length, total);
+  }
+
+  const best = points.reduce((a, b) => (b.netValueDollars > a.netValueDollars ? b : a));
+
+  return {
+    points,
+    bestDays: best.days,
+    bestNetValueDollars: best.netValueDollars,
+  };
+}
@@ -0,0 +1,53 @@
+import { describe, it, expect, vi } from 'vitest';
+import { EARLY_STOPPING_SAMPLES, simulateEarlyStopping } from './early-stopping';
+import { createTestInputs } from '@/test/inputs';
+
+const inputs = createTestInputs({ testDurationDays: 56, interimLookDays: [14, 28, 42] });
+
+describe('simulateEarlyStopping', () => {
+  it('reports the sequential design against the fixed one', () => {
+    const onProgress = vi.fn();
+    const results = simulateEarlyStopping(inputs, onProgress)!;
+
+    expect(results.expectedTestDurationDays).toBeLessThan(56);
+    expect(results.probabilityStopEarly).toBeGreaterThan(0);
+    expect(results.netValueDollars - results.fixedNetValueDollars).toBeCloseTo(
+      results.earlyStoppingGainDollars,
+      6
+    );
+    expect(onProgress).toHaveBeenLastCalledWith(1, 1);
+  });
+
+  it('draws until the net value is precise enough', () => {
+    const results = simulateEarlyStopping(inputs)!;
+
+    expect(results.numSamples).toBeGreaterThanOrEqual(EARLY_STOPPING_SAMPLES);
+    expect(results.netValueError!.standardError).toBeLessThanOrEqual(
+      Math.max(1, 0.025 * Math.abs(results.netValueDollars))
+    );
+    expect(results.timeLimited).toBe(false);
+  });
+
+  it('uses the O\'Brien-Fleming rule when selected', () => {
+    const bayesian = simulateEarlyStopping(inputs)!;
+    const obrienFleming = simulateEarlyStopping({
+      ...inputs,
+      advanced: { ...inputs.advanced, stoppingRule: 'obrien-fleming' },
+    })!;
+
+    expect(obrienFleming.probabilityStopEarly).not.toBe(bayesian.probabilityStopEarly);
+  });
+
+  it('is reproducible for a given seed', () => {
+    expect(simulateEarlyStopping(inputs)).toEqual(simulateEarlyStopping(inputs));
+  });
+
+  it('returns null without interim looks or with incomplete inputs', () => {
+    expect(
+      simulateEarlyStopping({ ...inputs, advanced: { ...inputs.advanced, interimLookDays: [] } })
+    ).toBeNull();
+    expect(
+      simulateEarlyStopping({ ...inputs, advanced: { ...inputs.advanced, dailyTraffic: null } })
+    ).toBeNull();
+  });
+});
@@ -0,0 +1,139 @@
+import { describe, it, expect } from 'vitest';
+import {
+  collectTags,
+  filterByTags,
+  fitEmpiricalPrior,
+  generateEmpiricalPriorChartData,
+  parsePastExperiments,
+  type PastExperiment,
+} from './empirical-prior';
+
+/** Equal standard errors, so REML has a closed form */
+const equalSe: PastExperiment[] = [-0.04, -0.01, 0.0, 0.02, 0.03, 0.06].map((lift) => ({
+  lift,
+  se: 0.01,
+  tags: [],
+}));
+
+describe('parsePastExperiments', () => {
+  it('reads a CSV with percentages, quoted tags and bad rows', () => {
+    const result = parsePastExperiments(
+      [
+        'Experiment,Observed Lift,Standard Error,Tags',
+        'checkout,0.021,0.01,"checkout;mobile"',
+        'search,-1.5%,0.8%,search',
+        'broken,n/a,0.01,',
+        'no-noise,0.01,0,',
+      ].join('\n')
+    );
+
+    expect(result).toEqual({
+      status: 'ok',
+      experiments: [
+        { lift: 0.021, se: 0.01, tags: ['checkout', 'mobile'] },
+        { lift: -0.015, se: 0.008, tags: ['search'] },
+      ],
+      skippedRows: 2,
+    });
+  });
+
+  it('reads a JSON list or { experiments }', () => {
+    const rows = [{ lift: 0.02, se: 0.01, tags: ['web'] }];
+
+    expect(parsePastExperiments(JSON.stringify(rows))).toEqual({
+      status: 'ok',
+      experiments: rows,
+      skippedRows: 0,
+    });
+    expect(parsePastExperiments(JSON.stringify({ experiments: rows }))).toEqual(
+      parsePastExperiments(JSON.stringify(rows))
+    );
+  });
+
+  it('explains what is missing', () => {
+    expect(parsePastExperiments('')).toEqual({ status: 'error', message: 'The file is empty' });
+    expect(parsePastExperiments('lift,tags\n0.02,web')).toMatchObject({ status: 'error' });
+    expect(parsePastExperiments('{ "lift": ')).toEqual({
+      status: 'error',
+      message: 'The file is not valid JSON',
+    });
+    expect(parsePastExperiments('[{"lift": 0.02}]')).toMatchObject({ status: 'error' });
+  });
+});
+
+describe('tags', () => {
+  const experiments: PastExperiment[] = [
+    { lift: 0.01, se: 0.01, tags: ['web', 'checkout'] },
+    { lift: 0.02, se: 0.01, tags: ['app'] },
+    { lift: 0.03, se: 0.01, tags: [] },
+  ];
+
+  it('lists each tag once', () => {
+    expect(collectTags(experiments)).toEqual(['app', 'checkout', 'web']);
+  });
+
+  it('keeps experiments with any selected tag', () => {
+    expect(filterByTags(experiments, ['web', 'app'])).toHaveLength(2);
+    expect(filterByTags(experiments, [])).toBe(experiments);
+  });
+});
+
+describe('fitEmpiricalPrior', () => {
+  it('needs enough experiments', () => {
+    expect(fitEmpiricalPrior(equalSe.slice(0, 2))).toBeNull();
+  });
+
+  it('removes the sampling noise from the spread of observed lifts', () => {
+    // With equal SEs: mu = mean, tau^2 = sample variance - se^2
+    const fit = fitEmpiricalPrior(equalSe)!;
+    const mean = equalSe.reduce((sum, e) => sum + e.lift, 0) / equalSe.length;
+    const variance =
+      equalSe.reduce((sum, e) => sum + (e.lift - mean) ** 2, 0) / (equalSe.length - 1);
+
+    expect(fit.count).toBe(6);
+    expect(fit.mu_L).toBeCloseTo(mean, 12);
+    expect(fit.tau_L).toBeCloseTo(Math.sqrt(variance - 0.0001), 10);
+    expect(fit.observedSd).toBeCloseTo(Math.sqrt(variance), 12);
+    expect(fit.noiseShare).toBeCloseTo(0.0001 / variance, 12);
+    expect(fit.intervalHighPercent).toBeCloseTo((mean + 1.6448536 * fit.tau_L) * 100, 2);
+    expect(fit.intervalLowPercent).toBeCloseTo((mean - 1.6448536 * fit.tau_L) * 100, 2);
+  });
+
+  it('weights precise experiments more', () => {
+    const fit = fitEmpiricalPrior([
+      ...equalSe,
+      { lift: 0.5, se: 0.5, tags: [] },
+    ])!;
+
+    // A wildly noisy outlier barely moves the prior
+    expect(fit.mu_L).toBeLessThan(0.02);
+    expect(fit.tau_L).toBeLessThan(0.05);
+  });
+
+  it('finds no spread when the lifts vary less than their noise', () => {
+    const fit = fitEmpiricalPrior(
+      [0.01, 0.012, 0.009, 0.011].map((lift) => ({ lift, se: 0.05, tags: [] }))
+    )!;
+
+    expect(fit.tau_L).toBe(0);
+    expect(fit.noiseShare).toBe(1);
+  });
+});
+
+describe('generateEmpiricalPriorChartData', () => {
+  it('puts the histogram and both curves on one density scale', () => {
+    const fit = fitEmpiricalPrior(equalSe)!;
+    const { bins, curve } = generateEmpiricalPriorChartData(equalSe, fit, 10);
+    const step = curve[1].lift - curve[0].lift;
+    const integrate = (key: 'priorDensity' | 'predictedDensity') =>
+      curve.reduce((sum, point) => sum + point[key] * step, 0);
+
+    expect(bins).toHaveLength(10);
+    expect(bins.reduce((sum, bin) => sum + bin.density * (bin.high - bin.low), 0)).toBeCloseTo(
+      1,
+      10
+    );
+    expect(integrate('priorDensity')).toBeCloseTo(1, 1);
+    expect(integrate('predictedDensity')).toBeCloseTo(1, 1);
+  });
+});
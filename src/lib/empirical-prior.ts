@@ -0,0 +1,402 @@
+/**
+ * Empirical Prior from Past Experiments
+ *
+ * Fits a Normal prior to the observed lifts of past experiments, as an
+ * alternative to the N(0, 0.05) default. Each observed lift is the true lift
+ * plus sampling noise of known standard error, so with a Normal prior
+ *   y_i ~ N(mu, tau^2 + se_i^2)
+ * and the prior N(mu, tau^2) is estimated from the y_i (empirical Bayes,
+ * REML). The observed lifts are wider than the prior: subtracting each
+ * experiment's own noise is what deconvolves the two.
+ *
+ * Imports are CSV (header row) or JSON (an array of rows, or
+ * { experiments: [...] }). Lifts and standard errors are decimals
+ * (0.02 for +2%) unless written with a % sign; tags are optional and
+ * separated by ";" or "|" in a CSV cell.
+ */
+
+import { quantile, type PriorDistribution } from '@/lib/calculations/distributions';
+import { standardNormalPDF } from '@/lib/calculations/statistics';
+
+/**
+ * One past experiment
+ */
+export interface PastExperiment {
+  /** Observed relative lift (decimal) */
+  lift: number;
+  /** Standard error of the observed lift (decimal, > 0) */
+  se: number;
+  /** Tags for filtering (e.g., team or surface), possibly empty */
+  tags: string[];
+}
+
+/**
+ * Result of reading an import
+ * - ok: the rows that could be read, and how many couldn't
+ * - error: nothing usable in the file
+ */
+export type PastExperimentsResult =
+  | { status: 'ok'; experiments: PastExperiment[]; skippedRows: number }
+  | { status: 'error'; message: string };
+
+/**
+ * Empirical-Bayes Normal prior fitted to past experiments
+ */
+export interface EmpiricalPriorFit {
+  /** Experiments fitted */
+  count: number;
+  /** Prior mean (decimal) */
+  mu_L: number;
+  /** Prior standard deviation, sampling noise removed (decimal) */
+  tau_L: number;
+  /** Standard deviation of the observed lifts, noise included (decimal) */
+  observedSd: number;
+  /** Share of the observed variance that is sampling noise (0-1) */
+  noiseShare: number;
+  /** 90% interval of the prior (percentage, 2 decimals), as the prior step stores it */
+  intervalLowPercent: number;
+  intervalHighPercent: number;
+}
+
+/**
+ * Histogram bin of observed lifts
+ */
+export interface ObservedLiftBin {
+  /** Bin edges (decimal) */
+  low: number;
+  high: number;
+  /** Share of experiments in the bin per unit lift, on the curves' scale */
+  density: number;
+}
+
+/**
+ * One point of the fitted curves
+ */
+export interface EmpiricalPriorCurvePoint {
+  /** Lift (decimal) */
+  lift: number;
+  /** Fitted prior density */
+  priorDensity: number;
+  /** Density the fit predicts for observed lifts (prior plus noise) */
+  predictedDensity: number;
+}
+
+/** Fewer experiments than this can't separate the prior from the noise */
+export const MIN_PAST_EXPERIMENTS = 3;
+
+/** Accepted column names (lowercase, spaces and dashes as underscores) */
+const LIFT_COLUMNS = ['lift', 'observed_lift', 'relative_lift', 'effect'];
+const SE_COLUMNS = ['se', 'standard_error', 'std_error', 'stderr'];
+const TAG_COLUMNS = ['tags', 'tag'];
+
+const REML_MAX_ITERATIONS = 200;
+const REML_TOLERANCE = 1e-14;
+
+/**
+ * Read past experiments from CSV or JSON text
+ *
+ * Rows without a numeric lift or a positive standard error are skipped and
+ * counted.
+ *
+ * @param text - File contents
+ * @returns Experiments, or why none could be read. Never throws.
+ */
+export function parsePastExperiments(text: string): PastExperimentsResult {
+  const trimmed = text.trim();
+  if (trimmed === '') {
+    return { status: 'error', message: 'The file is empty' };
+  }
+  const rows = trimmed.startsWith('[') || trimmed.startsWith('{')
+    ? readJsonRows(trimmed)
+    : readCsvRows(trimmed);
+  if (typeof rows === 'string') {
+    return { status: 'error', message: rows };
+  }
+
+  const experiments: PastExperiment[] = [];
+  for (const row of rows) {
+    const lift = parseDecimal(pickField(row, LIFT_COLUMNS));
+    const se = parseDecimal(pickField(row, SE_COLUMNS));
+    if (lift === null || se === null || !(se > 0)) {
+      continue;
+    }
+    experiments.push({ lift, se, tags: parseTags(pickField(row, TAG_COLUMNS)) });
+  }
+
+  if (experiments.length === 0) {
+    return {
+      status: 'error',
+      message: 'No rows with a lift and a standard error were found',
+    };
+  }
+  return { status: 'ok', experiments, skippedRows: rows.length - experiments.length };
+}
+
+/**
+ * Every tag used, sorted
+ */
+export function collectTags(experiments: PastExperiment[]): string[] {
+  return [...new Set(experiments.flatMap((experiment) => experiment.tags))].sort();
+}
+
+/**
+ * Experiments carrying any of the tags (all of them when no tag is selected)
+ */
+export function filterByTags(experiments: PastExperiment[], tags: string[]): PastExperiment[] {
+  if (tags.length === 0) {
+    return experiments;
+  }
+  return experiments.filter((experiment) => experiment.tags.some((tag) => tags.includes(tag)));
+}
+
+/**
+ * Fit a Normal prior to past experiments by empirical Bayes
+ *
+ * tau^2 is the REML estimate, by fixed-point iteration from the
+ * DerSimonian-Laird moment estimate; mu is then the precision-weighted mean.
+ * tau is 0 when the lifts vary no more than their noise explains.
+ *
+ * @param experiments - Past experiments
+ * @returns Fit, or null with fewer than MIN_PAST_EXPERIMENTS experiments
+ */
+export function fitEmpiricalPrior(experiments: PastExperiment[]): EmpiricalPriorFit | null {
+  const n = experiments.length;
+  if (n < MIN_PAST_EXPERIMENTS) {
+    return null;
+  }
+  const y = experiments.map((experiment) => experiment.lift);
+  const v = experiments.map((experiment) => experiment.se * experiment.se);
+
+  const weightedMean = (tau2: number) => {
+    let sumW = 0;
+    let sumWY = 0;
+    for (let i = 0; i < n; i++) {
+      const w = 1 / (tau2 + v[i]);
+      sumW += w;
+      sumWY += w * y[i];
+    }
+    return { mu: sumWY / sumW, sumW };
+  };
+
+  // DerSimonian-Laird start
+  const fixed = weightedMean(0);
+  let q = 0;
+  let sumW2 = 0;
+  for (let i = 0; i < n; i++) {
+    q += (y[i] - fixed.mu) ** 2 / v[i];
+    sumW2 += 1 / (v[i] * v[i]);
+  }
+  let tau2 = Math.max(0, (q - (n - 1)) / (fixed.sumW - sumW2 / fixed.sumW));
+
+  // REML: tau^2 = sum w^2 ((y - mu)^2 - v) / sum w^2 + 1 / sum w
+  for (let iteration = 0; iteration < REML_MAX_ITERATIONS; iteration++) {
+    const { mu, sumW } = weightedMean(tau2);
+    let numerator = 0;
+    let denominator = 0;
+    for (let i = 0; i < n; i++) {
+      const w = 1 / (tau2 + v[i]);
+      numerator += w * w * ((y[i] - mu) ** 2 - v[i]);
+      denominator += w * w;
+    }
+    const next = Math.max(0, numerator / denominator + 1 / sumW);
+    const converged = Math.abs(next - tau2) < REML_TOLERANCE;
+    tau2 = next;
+    if (converged) {
+      break;
+    }
+  }
+
+  const mu_L = weightedMean(tau2).mu;
+  const tau_L = Math.sqrt(tau2);
+  const observedMean = y.reduce((sum, value) => sum + value, 0) / n;
+  const observedVariance = y.reduce((sum, value) => sum + (value - observedMean) ** 2, 0) / (n - 1);
+  const meanNoiseVariance = v.reduce((sum, value) => sum + value, 0) / n;
+
+  const z95 = quantile(0.95, { type: 'normal', mu_L: 0, sigma_L: 1 });
+  return {
+    count: n,
+    mu_L,
+    tau_L,
+    observedSd: Math.sqrt(observedVariance),
+    noiseShare:
+      observedVariance > 0 ? Math.min(1, meanNoiseVariance / observedVariance) : 1,
+    intervalLowPercent: roundPercent((mu_L - z95 * tau_L) * 100),
+    intervalHighPercent: roundPercent((mu_L + z95 * tau_L) * 100),
+  };
+}
+
+/**
+ * The fitted prior as a distribution
+ */
+export function empiricalPriorDistribution(fit: EmpiricalPriorFit): PriorDistribution {
+  return { type: 'normal', mu_L: fit.mu_L, sigma_L: fit.tau_L };
+}
+
+/**
+ * Histogram of the observed lifts against the fitted prior and the
+ * distribution of observed lifts it predicts
+ *
+ * @param experiments - Experiments the prior was fitted to
+ * @param fit - Their fit
+ * @param binCount - Histogram bins
+ * @returns Bins and curve points (by increasing lift) on one density scale
+ */
+export function generateEmpiricalPriorChartData(
+  experiments: PastExperiment[],
+  fit: EmpiricalPriorFit,
+  binCount = 20
+): { bins: ObservedLiftBin[]; curve: EmpiricalPriorCurvePoint[] } {
+  const lifts = experiments.map((experiment) => experiment.lift);
+  const spread = Math.max(fit.observedSd, fit.tau_L, 1e-4);
+  const min = Math.min(...lifts, fit.mu_L - 3 * spread);
+  const max = Math.max(...lifts, fit.mu_L + 3 * spread);
+  const binWidth = (max - min) / binCount;
+
+  const counts = new Array<number>(binCount).fill(0);
+  for (const lift of lifts) {
+    counts[Math.min(binCount - 1, Math.floor((lift - min) / binWidth))]++;
+  }
+  const bins = counts.map((count, i) => ({
+    low: min + i * binWidth,
+    high: min + (i + 1) * binWidth,
+    density: count / (lifts.length * binWidth),
+  }));
+
+  const curvePoints = 200;
+  const curve: EmpiricalPriorCurvePoint[] = [];
+  for (let i = 0; i <= curvePoints; i++) {
+    const lift = min + ((max - min) * i) / curvePoints;
+    let predicted = 0;
+    for (const experiment of experiments) {
+      const sd = Math.sqrt(fit.tau_L * fit.tau_L + experiment.se * experiment.se);
+      predicted += standardNormalPDF((lift - fit.mu_L) / sd) / sd;
+    }
+    curve.push({
+      lift,
+      priorDensity:
+        fit.tau_L > 0 ? standardNormalPDF((lift - fit.mu_L) / fit.tau_L) / fit.tau_L : 0,
+      predictedDensity: predicted / experiments.length,
+    });
+  }
+  return { bins, curve };
+}
+
+type Row = Record<string, unknown>;
+
+/**
+ * Column name as matched against the accepted names
+ */
+function normalizeColumn(name: string): string {
+  return name.trim().toLowerCase().replace(/[\s-]+/g, '_');
+}
+
+function pickField(row: Row, columns: string[]): unknown {
+  for (const [key, value] of Object.entries(row)) {
+    if (columns.includes(normalizeColumn(key))) {
+      return value;
+    }
+  }
+  return undefined;
+}
+
+/**
+ * A decimal from a number or a string ("0.02", "2%")
+ */
+function parseDecimal(value: unknown): number | null {
+  if (typeof value === 'number') {
+    return Number.isFinite(value) ? value : null;
+  }
+  if (typeof value !== 'string') {
+    return null;
+  }
+  const text = value.trim();
+  const isPercent = text.endsWith('%');
+  const parsed = Number(isPercent ? text.slice(0, -1) : text);
+  if (text === '' || !Number.isFinite(parsed)) {
+    return null;
+  }
+  return isPercent ? parsed / 100 : parsed;
+}
+
+function parseTags(value: unknown): string[] {
+  const tags = Array.isArray(value)
+    ? value.map(String)
+    : typeof value === 'string'
+      ? value.split(/[;|]/)
+      : [];
+  return tags.map((tag) => tag.trim()).filter((tag) => tag !== '');
+}
+
+/**
+ * Rows of a JSON import, or a message when it isn't an array of objects
+ */
+function readJsonRows(text: string): Row[] | string {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(text);
+  } catch {
+    return 'The file is not valid JSON';
+  }
+  const rows =
+    typeof parsed === 'object' && parsed !== null && 'experiments' in parsed
+      ? (parsed as { experiments: unknown }).experiments
+      : parsed;
+  if (!Array.isArray(rows)) {
+    return 'Expected a list of experiments';
+  }
+  return rows.filter((row): row is Row => typeof row === 'object' && row !== null);
+}
+
+/**
+ * Rows of a CSV import keyed by header, or a message when the lift or
+ * standard error column is missing
+ */
+function readCsvRows(text: string): Row[] | string {
+  const [header, ...lines] = text.split(/\r?\n/).filter((line) => line.trim() !== '');
+  const columns = splitCsvLine(header).map(normalizeColumn);
+  if (!columns.some((column) => LIFT_COLUMNS.includes(column))) {
+    return 'No lift column found (expected a "lift" header)';
+  }
+  if (!columns.some((column) => SE_COLUMNS.includes(column))) {
+    return 'No standard error column found (expected an "se" header)';
+  }
+  return lines.map((line) => {
+    const cells = splitCsvLine(line);
+    return Object.fromEntries(columns.map((column, i) => [column, cells[i] ?? '']));
+  });
+}
+
+/**
+ * Split one CSV line, honoring double-quoted cells
+ */
+function splitCsvLine(line: string): string[] {
+  const cells: string[] = [];
+  let cell = '';
+  let quoted = false;
+  for (let i = 0; i < line.length; i++) {
+    const char = line[i];
+    if (quoted) {
+      if (char === '"' && line[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ',') {
+      cells.push(cell);
+      cell = '';
+    } else {
+      cell += char;
+    }
+  }
+  cells.push(cell);
+  return cells;
+}
+
+function roundPercent(percent: number): number {
+  return Math.round(percent * 100) / 100;
+}
@@ -3,7 +3,7 @@
  */
 
 import { describe, it, expect } from 'vitest';
-import { formatSmartCurrency } from './formatting';
+import { formatHorizon, formatSmartCurrency } from './formatting';
 
 describe('formatSmartCurrency', () => {
   describe('small amounts (< $1000)', () => {
@@ -133,3 +133,21 @@ describe('formatSmartCurrency', () => {
     });
   });
 });
+
+describe('formatHorizon', () => {
+  it('reads whole years and weeks as such', () => {
+    expect(formatHorizon({ horizonDays: 365, annualDiscountRate: 0 })).toBe('1 year');
+    expect(formatHorizon({ horizonDays: 1095, annualDiscountRate: 0 })).toBe('3 years');
+    expect(formatHorizon({ horizonDays: 42, annualDiscountRate: 0 })).toBe('6 weeks');
+  });
+
+  it('falls back to days', () => {
+    expect(formatHorizon({ horizonDays: 90, annualDiscountRate: 0 })).toBe('90 days');
+  });
+
+  it('appends a non-zero discount rate', () => {
+    expect(formatHorizon({ horizonDays: 1095, annualDiscountRate: 0.1 })).toBe(
+      '3 years, discounted at 10%/year'
+    );
+  });
+});
@@ -9,6 +9,8 @@
  * "UI accepts percent (e.g., "3.2%"), convert to decimal (0.032)"
  */
 
+import type { DecisionHorizon } from '@/lib/calculations/types';
+
 /**
  * Format a number as US currency (e.g., $1,234.56)
  * Uses Intl.NumberFormat for locale-aware formatting.
@@ -190,3 +192,34 @@ export function formatProbabilityPercent(decimal: number): string {
   if (percent > 99) return '> 99%';
   return `${Math.round(percent)}%`;
 }
+
+/**
+ * Format a decision horizon for display
+ *
+ * Whole years and whole weeks read as such; anything else in days.
+ * A non-zero discount rate is appended.
+ *
+ * Examples:
+ * - formatHorizon({ horizonDays: 365, annualDiscountRate: 0 }) => "1 year"
+ * - formatHorizon({ horizonDays: 42, annualDiscountRate: 0 }) => "6 weeks"
+ * - formatHorizon({ horizonDays: 1095, annualDiscountRate: 0.1 })
+ *   => "3 years, discounted at 10%/year"
+ *
+ * @param horizon - Horizon in days and annual discount rate (decimal)
+ * @returns Human-readable horizon
+ */
+export function formatHorizon(horizon: DecisionHorizon): string {
+  const { horizonDays, annualDiscountRate } = horizon;
+  const plural = (count: number, unit: string) => `${count} ${unit}${count === 1 ? '' : 's'}`;
+
+  const length =
+    horizonDays % 365 === 0
+      ? plural(horizonDays / 365, 'year')
+      : horizonDays % 7 === 0
+        ? plural(horizonDays / 7, 'week')
+        : plural(horizonDays, 'day');
+
+  return annualDiscountRate > 0
+    ? `${length}, discounted at ${formatPercentage(annualDiscountRate * 100)}/year`
+    : length;
+}
@@ -0,0 +1,103 @@
+/**
+ * Inputs Snapshot Tests
+ *
+ * Stored snapshots (share links, saved scenarios) must round-trip, pick up
+ * defaults for fields they predate, and be rejected - not silently replaced
+ * with defaults - when unreadable.
+ */
+
+import { describe, it, expect } from 'vitest';
+import { INPUTS_SNAPSHOT_VERSION, parseInputsSnapshot } from './inputs-snapshot';
+import { initialAdvancedInputs, initialSharedInputs } from '@/types/wizard';
+
+const fullSnapshot = {
+  mode: 'advanced' as const,
+  inputs: {
+    shared: {
+      ...initialSharedInputs,
+      baselineConversionRate: 0.032,
+      annualVisitors: 1200000,
+      valuePerConversion: 45,
+      priorIntervalLow: -5,
+      priorIntervalHigh: 10,
+      thresholdScenario: 'any-positive' as const,
+    },
+    advanced: {
+      ...initialAdvancedInputs,
+      priorShape: 'student-t' as const,
+      studentTDf: 5 as const,
+      testDurationDays: 21,
+      dailyTraffic: 3000,
+    },
+  },
+};
+
+describe('parseInputsSnapshot', () => {
+  it('accepts a complete snapshot at the current version', () => {
+    const result = parseInputsSnapshot(INPUTS_SNAPSHOT_VERSION, fullSnapshot);
+
+    expect(result).toEqual({ ok: true, snapshot: fullSnapshot });
+  });
+
+  it('fills missing fields from initial values', () => {
+    const result = parseInputsSnapshot(INPUTS_SNAPSHOT_VERSION, {
+      mode: 'basic',
+      inputs: { shared: { baselineConversionRate: 0.05 } },
+    });
+
+    expect(result.ok).toBe(true);
+    if (result.ok) {
+      expect(result.snapshot.inputs.shared.baselineConversionRate).toBe(0.05);
+      expect(result.snapshot.inputs.shared.visitorUnitLabel).toBe('visitors');
+      expect(result.snapshot.inputs.advanced).toEqual(initialAdvancedInputs);
+    }
+  });
+
+  it('rejects versions newer than this build', () => {
+    const result = parseInputsSnapshot(INPUTS_SNAPSHOT_VERSION + 1, fullSnapshot);
+
+    expect(result).toEqual({ ok: false, reason: 'unsupported-version' });
+  });
+
+  it('rejects versions with no migration path', () => {
+    expect(parseInputsSnapshot(0, fullSnapshot)).toEqual({
+      ok: false,
+      reason: 'unsupported-version',
+    });
+  });
+
+  it('rejects out-of-range values instead of defaulting them', () => {
+    const result = parseInputsSnapshot(INPUTS_SNAPSHOT_VERSION, {
+      ...fullSnapshot,
+      inputs: {
+        ...fullSnapshot.inputs,
+        shared: { ...fullSnapshot.inputs.shared, baselineConversionRate: 3.2 },
+      },
+    });
+
+    expect(result).toEqual({ ok: false, reason: 'invalid' });
+  });
+
+  it('rejects a seed that is not a 32-bit unsigned integer', () => {
+    for (const monteCarloSeed of [1.5, -1, 2 ** 32]) {
+      const result = parseInputsSnapshot(INPUTS_SNAPSHOT_VERSION, {
+        ...fullSnapshot,
+        inputs: {
+          ...fullSnapshot.inputs,
+          advanced: { ...fullSnapshot.inputs.advanced, monteCarloSeed },
+        },
+      });
+
+      expect(result).toEqual({ ok: false, reason: 'invalid' });
+    }
+  });
+
+  it('rejects an unknown mode', () => {
+    const result = parseInputsSnapshot(INPUTS_SNAPSHOT_VERSION, {
+      ...fullSnapshot,
+      mode: 'expert',
+    });
+
+    expect(result).toEqual({ ok: false, reason: 'invalid' });
+  });
+});
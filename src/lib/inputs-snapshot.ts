@@ -0,0 +1,181 @@
+/**
+ * Inputs Snapshot
+ *
+ * Versioned, validated form of the wizard's persisted state (mode + inputs).
+ * Anything that stores inputs outside the live store (share links, saved
+ * scenarios) goes through this module so it can be read back safely after
+ * SharedInputs/AdvancedInputs change.
+ *
+ * Versioning rules:
+ * - Fields missing from a stored snapshot take today's initial values, so
+ *   adding a field does NOT need a version bump.
+ * - Renaming, removing or changing the meaning of a field DOES: bump
+ *   INPUTS_SNAPSHOT_VERSION and register a migration from the old version.
+ * - Snapshots newer than this build, or older than any registered migration,
+ *   are rejected rather than silently replaced with defaults.
+ */
+
+import { z } from 'zod';
+import { MAX_SEED } from '@/lib/calculations/random';
+import type { InputsState, Mode } from '@/types/wizard';
+import {
+  initialAdvancedInputs,
+  initialSharedInputs,
+  MAX_VARIANT_COUNT,
+} from '@/types/wizard';
+
+/**
+ * Current snapshot schema version
+ */
+export const INPUTS_SNAPSHOT_VERSION = 1;
+
+/**
+ * Mode and inputs as stored outside the wizard store
+ */
+export interface InputsSnapshot {
+  mode: Mode;
+  inputs: InputsState;
+}
+
+/**
+ * Why a stored snapshot could not be read
+ * - unsupported-version: written by a newer build, or too old to migrate
+ * - invalid: structurally wrong or values out of range
+ */
+export type SnapshotErrorReason = 'unsupported-version' | 'invalid';
+
+export type SnapshotParseResult =
+  | { ok: true; snapshot: InputsSnapshot }
+  | { ok: false; reason: SnapshotErrorReason };
+
+// ===========================================
+// Schemas (mirror SharedInputs / AdvancedInputs)
+// ===========================================
+
+const sharedInputsSchema = z.object({
+  metricType: z.enum(['binary', 'continuous', 'ratio']),
+  baselineConversionRate: z.number().gt(0).lt(1).nullable(),
+  metricMean: z.number().gt(0).nullable(),
+  metricStandardDeviation: z.number().min(0).nullable(),
+  ratioDenominatorMean: z.number().gt(0).nullable(),
+  ratioDenominatorStandardDeviation: z.number().min(0).nullable(),
+  ratioCorrelation: z.number().min(-1).max(1).nullable(),
+  annualVisitors: z.number().min(0).nullable(),
+  visitorUnitLabel: z.string().min(1),
+  valuePerConversion: z.number().min(0).nullable(),
+  priorType: z.enum(['default', 'custom']).nullable(),
+  priorIntervalLow: z.number().nullable(),
+  priorIntervalHigh: z.number().nullable(),
+  priorQuantiles: z
+    .array(z.object({ probability: z.number().gt(0).lt(1), liftPercent: z.number() }))
+    .nullable(),
+  thresholdScenario: z.enum(['any-positive', 'minimum-lift', 'accept-loss']).nullable(),
+  thresholdUnit: z.enum(['dollars', 'lift']).nullable(),
+  thresholdValue: z.number().nullable(),
+  horizonDays: z.number().positive(),
+  annualDiscountRate: z.number().min(0),
+  engineeringHours: z.number().min(0),
+  analystHours: z.number().min(0),
+  hourlyRate: z.number().min(0),
+  toolingCostPerTest: z.number().min(0),
+});
+
+const advancedInputsSchema = z.object({
+  priorShape: z
+    .enum(['normal', 'student-t', 'uniform', 'mixture', 'log-normal', 'skew-normal'])
+    .nullable(),
+  studentTDf: z.union([z.literal(3), z.literal(5), z.literal(10)]).nullable(),
+  mixtureSpikeWeight: z.number().min(0).lt(1),
+  skewNormalAlpha: z.union([z.literal(2), z.literal(4), z.literal(10)]).nullable(),
+  testDurationDays: z.number().positive().nullable(),
+  dailyTraffic: z.number().min(0).nullable(),
+  trafficSplit: z.number().gt(0).lt(1).nullable(),
+  eligibilityFraction: z.number().gt(0).max(1).nullable(),
+  conversionLatencyDays: z.number().min(0).nullable(),
+  decisionLatencyDays: z.number().min(0).nullable(),
+  variantCount: z.number().int().min(1).max(MAX_VARIANT_COUNT),
+  variantPriorMode: z.enum(['shared', 'individual']),
+  variantPriorIntervals: z.array(z.object({ low: z.number(), high: z.number() })),
+  interimLookDays: z.array(z.number().positive()),
+  stoppingRule: z.enum(['bayesian', 'obrien-fleming']),
+  efficacyProbability: z.number().gt(0.5).lt(1),
+  futilityProbability: z.number().min(0).lt(0.5),
+  criticalZ: z.number().positive(),
+  banditPolicy: z.enum(['thompson', 'epsilon-greedy']),
+  banditEpsilon: z.number().min(0).max(1),
+  effectDynamicsType: z.enum(['constant', 'decay', 'novelty-multiplier']),
+  noveltyLift: z.number(),
+  noveltyMultiplier: z.number().gt(-1),
+  noveltyHalfLifeDays: z.number().positive(),
+  monteCarloSeed: z.number().int().min(0).max(MAX_SEED),
+});
+
+const snapshotSchema = z.object({
+  mode: z.enum(['basic', 'advanced']),
+  inputs: z.object({
+    shared: sharedInputsSchema,
+    advanced: advancedInputsSchema,
+  }),
+});
+
+// ===========================================
+// Migrations
+// ===========================================
+
+/**
+ * Migrations keyed by the version they upgrade FROM.
+ * MIGRATIONS[n] turns raw version-n data into raw version-(n+1) data.
+ */
+const MIGRATIONS: Record<number, (data: unknown) => unknown> = {};
+
+/**
+ * Fill fields a snapshot doesn't carry with today's initial values
+ */
+function withDefaults(data: unknown): unknown {
+  if (typeof data !== 'object' || data === null) {
+    return data;
+  }
+  const raw = data as { mode?: unknown; inputs?: { shared?: unknown; advanced?: unknown } };
+  const shared = typeof raw.inputs?.shared === 'object' ? raw.inputs.shared : {};
+  const advanced = typeof raw.inputs?.advanced === 'object' ? raw.inputs.advanced : {};
+
+  return {
+    mode: raw.mode,
+    inputs: {
+      shared: { ...initialSharedInputs, ...shared },
+      advanced: { ...initialAdvancedInputs, ...advanced },
+    },
+  };
+}
+
+/**
+ * Read a stored snapshot written at `version`
+ *
+ * Applies migrations up to INPUTS_SNAPSHOT_VERSION, fills missing fields from
+ * initial values, then validates. Never throws.
+ *
+ * @param version - Schema version the data was written with
+ * @param data - Raw stored data ({ mode, inputs }, possibly partial)
+ * @returns Parsed snapshot, or the reason it was rejected
+ */
+export function parseInputsSnapshot(version: number, data: unknown): SnapshotParseResult {
+  if (!Number.isInteger(version) || version < 1 || version > INPUTS_SNAPSHOT_VERSION) {
+    return { ok: false, reason: 'unsupported-version' };
+  }
+
+  let migrated = data;
+  for (let v = version; v < INPUTS_SNAPSHOT_VERSION; v++) {
+    const migrate = MIGRATIONS[v];
+    if (!migrate) {
+      return { ok: false, reason: 'unsupported-version' };
+    }
+    migrated = migrate(migrated);
+  }
+
+  const parsed = snapshotSchema.safeParse(withDefaults(migrated));
+  if (!parsed.success) {
+    return { ok: false, reason: 'invalid' };
+  }
+
+  return { ok: true, snapshot: parsed.data };
+}
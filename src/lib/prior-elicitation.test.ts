@@ -0,0 +1,138 @@
+import { describe, it, expect } from 'vitest';
+import {
+  fitPriorToQuantiles,
+  isElicitationShape,
+  validatePriorQuantiles,
+} from './prior-elicitation';
+import { quantile } from './calculations/distributions';
+
+const presets = { studentTDf: 5, skewNormalAlpha: 4 } as const;
+
+describe('validatePriorQuantiles', () => {
+  it('needs two points with distinct chances and increasing lifts', () => {
+    expect(validatePriorQuantiles([{ probability: 0.5, liftPercent: 2 }], 'normal')).toBe(
+      'Enter at least two points'
+    );
+    expect(
+      validatePriorQuantiles(
+        [
+          { probability: 0.5, liftPercent: 2 },
+          { probability: 0.5, liftPercent: 4 },
+        ],
+        'normal'
+      )
+    ).toBe('Each chance can only be used once');
+    expect(
+      validatePriorQuantiles(
+        [
+          { probability: 0.25, liftPercent: 3 },
+          { probability: 0.5, liftPercent: 2 },
+        ],
+        'normal'
+      )
+    ).toBe('A higher chance of being below must go with a higher lift');
+  });
+
+  it('keeps log-normal lifts above -100%', () => {
+    const points = [
+      { probability: 0.05, liftPercent: -100 },
+      { probability: 0.95, liftPercent: 10 },
+    ];
+    expect(validatePriorQuantiles(points, 'normal')).toBeNull();
+    expect(validatePriorQuantiles(points, 'log-normal')).not.toBeNull();
+  });
+});
+
+describe('fitPriorToQuantiles', () => {
+  it('reproduces a 90% interval given as two quantiles', () => {
+    const fit = fitPriorToQuantiles(
+      [
+        { probability: 0.95, liftPercent: 8.22 },
+        { probability: 0.05, liftPercent: -8.22 },
+      ],
+      'normal',
+      presets
+    )!;
+
+    expect(fit.intervalLowPercent).toBe(-8.22);
+    expect(fit.intervalHighPercent).toBe(8.22);
+    expect(fit.prior.sigma_L).toBeCloseTo(0.05, 4);
+    expect(fit.residuals.map((r) => r.probability)).toEqual([0.05, 0.95]);
+  });
+
+  it('recovers a Normal from quantiles that lie on it', () => {
+    // N(2%, 4%): median +2%, 25% chance below ~-0.7%, 5% chance above ~+8.6%
+    const points = [0.25, 0.5, 0.95].map((probability) => ({
+      probability,
+      liftPercent: (0.02 + 0.04 * quantile(probability, { type: 'normal', mu_L: 0, sigma_L: 1 })) * 100,
+    }));
+    const fit = fitPriorToQuantiles(points, 'normal', presets)!;
+
+    expect(fit.prior.mu_L).toBeCloseTo(0.02, 4);
+    expect(fit.prior.sigma_L).toBeCloseTo(0.04, 4);
+    expect(fit.rmsResidualPercent).toBeLessThan(0.01);
+  });
+
+  it('shows the residuals of points no Normal passes through', () => {
+    // Median +2%, 25% chance it's negative, 1-in-20 chance above +10%
+    const fit = fitPriorToQuantiles(
+      [
+        { probability: 0.5, liftPercent: 2 },
+        { probability: 0.25, liftPercent: 0 },
+        { probability: 0.95, liftPercent: 10 },
+      ],
+      'normal',
+      presets
+    )!;
+
+    expect(fit.rmsResidualPercent).toBeGreaterThan(0.1);
+    // Least squares: residuals sum to zero against the fitted line
+    const sum = fit.residuals.reduce((total, r) => total + r.residualPercent, 0);
+    expect(Math.abs(sum)).toBeLessThan(0.02);
+    for (const r of fit.residuals) {
+      expect(r.residualPercent).toBeCloseTo(r.fittedPercent - r.elicitedPercent, 12);
+    }
+  });
+
+  it('fits skewed shapes that pass through right-skewed points exactly', () => {
+    const target = { type: 'skew-normal', mu_L: -0.01, sigma_L: 0.06, alpha: 4 } as const;
+    const points = [0.1, 0.5, 0.9].map((probability) => ({
+      probability,
+      liftPercent: quantile(probability, target) * 100,
+    }));
+
+    const skewed = fitPriorToQuantiles(points, 'skew-normal', presets)!;
+    const normal = fitPriorToQuantiles(points, 'normal', presets)!;
+
+    expect(skewed.prior).toMatchObject({ type: 'skew-normal', alpha: 4 });
+    expect(skewed.rmsResidualPercent).toBeLessThan(0.01);
+    expect(normal.rmsResidualPercent).toBeGreaterThan(skewed.rmsResidualPercent);
+  });
+
+  it('fits log-normal on log(1 + lift)', () => {
+    const fit = fitPriorToQuantiles(
+      [
+        { probability: 0.05, liftPercent: -2 },
+        { probability: 0.95, liftPercent: 15 },
+      ],
+      'log-normal',
+      presets
+    )!;
+
+    expect(fit.prior.type).toBe('log-normal');
+    expect(fit.intervalLowPercent).toBe(-2);
+    expect(fit.intervalHighPercent).toBe(15);
+  });
+
+  it('is null for points it cannot fit', () => {
+    expect(fitPriorToQuantiles([{ probability: 0.5, liftPercent: 0 }], 'normal', presets)).toBeNull();
+  });
+});
+
+describe('isElicitationShape', () => {
+  it('excludes shapes that are not location-scale', () => {
+    expect(isElicitationShape('student-t')).toBe(true);
+    expect(isElicitationShape('mixture')).toBe(false);
+    expect(isElicitationShape('uniform')).toBe(false);
+  });
+});
@@ -0,0 +1,212 @@
+/**
+ * Prior Elicitation from Quantiles
+ *
+ * Fits a prior to any set of elicited quantiles ("median +2%, 25% chance
+ * it's negative, 1-in-20 chance above +10%") instead of a 90% interval.
+ *
+ * For a fixed shape (Student-t df, skew-normal alpha) every supported
+ * family is location-scale, on the lift or on log(1 + lift):
+ *   q(p) = location + scale * z_p
+ * with z_p the standard distribution's quantile, so the least-squares fit
+ * of the elicited lifts on z_p is a straight-line regression. Log-normal is
+ * fitted on the log(1 + lift) scale, where it is linear.
+ *
+ * The fit is returned as the 90% interval (and shape presets) that
+ * buildPriorDistribution turns into the same prior, so the rest of the
+ * calculator keeps reading the interval.
+ */
+
+import { quantile, type PriorDistribution } from '@/lib/calculations/distributions';
+import { buildPriorDistribution, type PriorShape } from '@/lib/derive-inputs';
+import type { AdvancedInputs, PriorQuantile } from '@/types/wizard';
+
+/**
+ * Prior shapes a quantile fit supports
+ */
+export type ElicitationShape = Extract<
+  PriorShape,
+  'normal' | 'student-t' | 'log-normal' | 'skew-normal'
+>;
+
+export const ELICITATION_SHAPES: readonly ElicitationShape[] = [
+  'normal',
+  'student-t',
+  'log-normal',
+  'skew-normal',
+];
+
+/**
+ * Fitted quantile against the elicited one
+ */
+export interface QuantileResidual {
+  /** Chance the lift is below the point (decimal) */
+  probability: number;
+  /** Elicited lift (percentage) */
+  elicitedPercent: number;
+  /** The fitted prior's quantile at that probability (percentage) */
+  fittedPercent: number;
+  /** fitted - elicited (percentage points) */
+  residualPercent: number;
+}
+
+/**
+ * Least-squares fit of a prior to elicited quantiles
+ */
+export interface QuantileFit {
+  /** 90% interval that reproduces the fitted prior (percentage, 2 decimals) */
+  intervalLowPercent: number;
+  intervalHighPercent: number;
+  /** The fitted prior */
+  prior: PriorDistribution;
+  /** One per elicited point, by increasing probability */
+  residuals: QuantileResidual[];
+  /** Root mean square residual (percentage points); 0 for two points */
+  rmsResidualPercent: number;
+}
+
+/**
+ * Whether a prior shape can be fitted to quantiles
+ */
+export function isElicitationShape(shape: PriorShape): shape is ElicitationShape {
+  return (ELICITATION_SHAPES as readonly PriorShape[]).includes(shape);
+}
+
+/**
+ * Check elicited quantiles can be fitted
+ *
+ * @param points - Elicited quantiles
+ * @param shape - Prior shape to fit
+ * @returns Message for the user, or null if the points can be fitted
+ */
+export function validatePriorQuantiles(
+  points: PriorQuantile[],
+  shape: ElicitationShape
+): string | null {
+  if (points.length < 2) {
+    return 'Enter at least two points';
+  }
+  if (points.some((point) => !(point.probability > 0 && point.probability < 1))) {
+    return 'Chances must be between 0% and 100%';
+  }
+  const sorted = sortByProbability(points);
+  for (let i = 1; i < sorted.length; i++) {
+    if (sorted[i].probability === sorted[i - 1].probability) {
+      return 'Each chance can only be used once';
+    }
+    if (!(sorted[i].liftPercent > sorted[i - 1].liftPercent)) {
+      return 'A higher chance of being below must go with a higher lift';
+    }
+  }
+  if (shape === 'log-normal' && sorted[0].liftPercent <= -100) {
+    return 'A log-normal prior needs every lift above -100%';
+  }
+  return null;
+}
+
+/**
+ * Fit a prior of the given shape to elicited quantiles by least squares
+ *
+ * Student-t and skew-normal keep the df and alpha presets the user picked;
+ * the fit chooses only location and scale, so it is the closest prior of
+ * that shape and preset, not of the whole family.
+ *
+ * @param points - Elicited quantiles (any order)
+ * @param shape - Prior shape to fit
+ * @param shapeParams - Student-t df and skew-normal alpha presets
+ * @returns Fit, or null if the points can't be fitted (see validatePriorQuantiles)
+ */
+export function fitPriorToQuantiles(
+  points: PriorQuantile[],
+  shape: ElicitationShape,
+  shapeParams: Pick<AdvancedInputs, 'studentTDf' | 'skewNormalAlpha'>
+): QuantileFit | null {
+  if (validatePriorQuantiles(points, shape) !== null) {
+    return null;
+  }
+  const sorted = sortByProbability(points);
+
+  // Standard (location 0, scale 1) member of the family
+  const standard: PriorDistribution =
+    shape === 'student-t'
+      ? { type: 'student-t', mu_L: 0, sigma_L: 1, df: shapeParams.studentTDf ?? 5 }
+      : shape === 'skew-normal'
+        ? { type: 'skew-normal', mu_L: 0, sigma_L: 1, alpha: shapeParams.skewNormalAlpha ?? 4 }
+        : { type: 'normal', mu_L: 0, sigma_L: 1 };
+
+  // Regress the elicited lift (decimal, or log(1 + lift)) on z_p
+  const z = sorted.map((point) => quantile(point.probability, standard));
+  const y = sorted.map((point) =>
+    shape === 'log-normal' ? Math.log(1 + point.liftPercent / 100) : point.liftPercent / 100
+  );
+  const { intercept, slope } = fitLine(z, y);
+  if (!(slope > 0)) {
+    return null;
+  }
+
+  // The interval buildPriorDistribution reads: location +/- z_0.95 * scale
+  // for Normal and Student-t, the exact 5th/95th percentiles otherwise
+  const normal: PriorDistribution = { type: 'normal', mu_L: 0, sigma_L: 1 };
+  const z05 = quantile(0.05, shape === 'skew-normal' ? standard : normal);
+  const z95 = quantile(0.95, shape === 'skew-normal' ? standard : normal);
+  const toLift = (value: number) => (shape === 'log-normal' ? Math.expm1(value) : value);
+  const intervalLowPercent = roundPercent(toLift(intercept + slope * z05) * 100);
+  const intervalHighPercent = roundPercent(toLift(intercept + slope * z95) * 100);
+  if (!(intervalHighPercent > intervalLowPercent)) {
+    return null;
+  }
+
+  const prior = buildPriorDistribution(
+    { priorIntervalLow: intervalLowPercent, priorIntervalHigh: intervalHighPercent },
+    shape,
+    { ...shapeParams, mixtureSpikeWeight: 0 }
+  );
+
+  const residuals = sorted.map((point) => {
+    const fittedPercent = quantile(point.probability, prior) * 100;
+    return {
+      probability: point.probability,
+      elicitedPercent: point.liftPercent,
+      fittedPercent,
+      residualPercent: fittedPercent - point.liftPercent,
+    };
+  });
+  const meanSquare =
+    residuals.reduce((sum, r) => sum + r.residualPercent * r.residualPercent, 0) /
+    residuals.length;
+
+  return {
+    intervalLowPercent,
+    intervalHighPercent,
+    prior,
+    residuals,
+    rmsResidualPercent: Math.sqrt(meanSquare),
+  };
+}
+
+/**
+ * Ordinary least-squares line y = intercept + slope * x
+ */
+function fitLine(x: number[], y: number[]): { intercept: number; slope: number } {
+  const n = x.length;
+  const xMean = x.reduce((sum, v) => sum + v, 0) / n;
+  const yMean = y.reduce((sum, v) => sum + v, 0) / n;
+  let sxy = 0;
+  let sxx = 0;
+  for (let i = 0; i < n; i++) {
+    sxy += (x[i] - xMean) * (y[i] - yMean);
+    sxx += (x[i] - xMean) * (x[i] - xMean);
+  }
+  const slope = sxy / sxx;
+  return { intercept: yMean - slope * xMean, slope };
+}
+
+function sortByProbability(points: PriorQuantile[]): PriorQuantile[] {
+  return [...points].sort((a, b) => a.probability - b.probability);
+}
+
+/**
+ * Interval bounds are shown and stored to 2 decimals (e.g., -8.22)
+ */
+function roundPercent(value: number): number {
+  return Math.round(value * 100) / 100;
+}
@@ -9,8 +9,13 @@
  *   sigma_L = (L_high - L_low) / (2 * z_0.95)
  *
  * Where z_0.95 = 1.6448536 (95th percentile of standard normal)
+ *
+ * Skewed shapes (log-normal on 1 + L, skew-normal) are fitted so the
+ * interval bounds are exactly their 5th and 95th percentiles.
  */
 
+import { quantile } from '@/lib/calculations/distributions';
+
 /**
  * z-score for 95th percentile of standard normal distribution
  * Used to convert 90% credible interval to standard deviation
@@ -82,6 +87,82 @@ export function computePriorFromInterval(
   return { mu_L, sigma_L };
 }
 
+/**
+ * Lowest interval bound a log-normal on 1 + L can fit (percent): a 5th
+ * percentile of -100% would put 5% of the prior at log(0)
+ */
+const LOG_NORMAL_MIN_LOW_PERCENT = -99.9;
+
+/**
+ * Parameters of a log-normal prior on the multiplier 1 + L
+ */
+export interface LogNormalPriorParameters {
+  /** Mean of log(1 + L) */
+  logMu: number;
+  /** Std dev of log(1 + L) */
+  logSigma: number;
+}
+
+/**
+ * Fit a log-normal on 1 + L to a 90% credible interval
+ *
+ * log(1 + L) is Normal, so its 5th and 95th percentiles are the logs of
+ * 1 + L_low and 1 + L_high, and the Normal fit applies on the log scale:
+ *   logMu = (log(1 + L_low) + log(1 + L_high)) / 2
+ *   logSigma = (log(1 + L_high) - log(1 + L_low)) / (2 * z_0.95)
+ *
+ * A lower bound at or below -100% cannot be fitted; it is raised to -99.9%.
+ *
+ * @param intervalLowPercent - 5th percentile of lift (percentage)
+ * @param intervalHighPercent - 95th percentile of lift (percentage)
+ * @returns Log-normal parameters
+ *
+ * @example
+ * // "-2% to +15%": median +6.2%, a longer upside tail
+ * computeLogNormalPriorFromInterval(-2, 15)
+ * // => { logMu: ~0.0598, logSigma: ~0.0486 }
+ */
+export function computeLogNormalPriorFromInterval(
+  intervalLowPercent: number,
+  intervalHighPercent: number
+): LogNormalPriorParameters {
+  const logLow = Math.log(1 + Math.max(intervalLowPercent, LOG_NORMAL_MIN_LOW_PERCENT) / 100);
+  const logHigh = Math.log(1 + intervalHighPercent / 100);
+
+  return {
+    logMu: (logLow + logHigh) / 2,
+    logSigma: (logHigh - logLow) / SIGMA_DIVISOR,
+  };
+}
+
+/**
+ * Fit a skew-normal with a given shape to a 90% credible interval
+ *
+ * For a fixed alpha the skew-normal is a location-scale family, so with
+ * z_p the standard skew-normal's percentiles:
+ *   omega = (L_high - L_low) / (z_0.95 - z_0.05)
+ *   xi = L_low - omega * z_0.05
+ *
+ * @param intervalLowPercent - 5th percentile of lift (percentage)
+ * @param intervalHighPercent - 95th percentile of lift (percentage)
+ * @param alpha - Skew-normal shape (positive skews right)
+ * @returns Location xi as mu_L and scale omega as sigma_L (decimals)
+ */
+export function computeSkewNormalPriorFromInterval(
+  intervalLowPercent: number,
+  intervalHighPercent: number,
+  alpha: number
+): PriorParameters {
+  const standard = { type: 'skew-normal' as const, mu_L: 0, sigma_L: 1, alpha };
+  const z05 = quantile(0.05, standard);
+  const z95 = quantile(0.95, standard);
+
+  const sigma_L = (intervalHighPercent - intervalLowPercent) / 100 / (z95 - z05);
+  const mu_L = intervalLowPercent / 100 - sigma_L * z05;
+
+  return { mu_L, sigma_L };
+}
+
 /**
  * Default prior values per SPEC.md Section 6.2
  *
@@ -0,0 +1,155 @@
+import { describe, it, expect } from 'vitest';
+import {
+  buildComparisonRow,
+  prepareScenario,
+  sortComparisonRows,
+  type ComparisonRow,
+} from './scenario-comparison';
+import { calculateEVSINormalFastPath } from './calculations';
+import { calculateNetValueMonteCarlo } from './calculations/net-value';
+import { initialAdvancedInputs, initialSharedInputs, type SharedInputs } from '@/types/wizard';
+import type { InputsSnapshot } from './inputs-snapshot';
+
+const shared: SharedInputs = {
+  ...initialSharedInputs,
+  baselineConversionRate: 0.05,
+  annualVisitors: 1000000,
+  valuePerConversion: 100,
+  thresholdScenario: 'any-positive',
+};
+
+const basicSnapshot: InputsSnapshot = {
+  mode: 'basic',
+  inputs: { shared, advanced: initialAdvancedInputs },
+};
+
+const advancedSnapshot: InputsSnapshot = {
+  mode: 'advanced',
+  inputs: {
+    shared,
+    advanced: {
+      ...initialAdvancedInputs,
+      priorShape: 'normal',
+      testDurationDays: 14,
+      dailyTraffic: 5000,
+    },
+  },
+};
+
+const row = (overrides: Partial<ComparisonRow>): ComparisonRow => ({
+  id: 'x',
+  name: 'x',
+  mode: 'advanced',
+  evpiDollars: null,
+  evsiDollars: null,
+  netValueDollars: null,
+  probabilityClearsThreshold: null,
+  defaultDecision: null,
+  ...overrides,
+});
+
+describe('prepareScenario', () => {
+  it('computes EVPI but no advanced inputs for Basic scenarios', () => {
+    const prepared = prepareScenario(basicSnapshot);
+    expect(prepared.evpi?.evpiDollars).toBeGreaterThan(0);
+    expect(prepared.advanced).toBeNull();
+  });
+
+  it('derives advanced inputs for complete Advanced scenarios', () => {
+    const prepared = prepareScenario(advancedSnapshot);
+    expect(prepared.advanced?.prior.type).toBe('normal');
+  });
+
+  it('computes EVPI from the selected prior shape in Advanced scenarios', () => {
+    const skewed = prepareScenario({
+      ...advancedSnapshot,
+      inputs: {
+        ...advancedSnapshot.inputs,
+        advanced: { ...advancedSnapshot.inputs.advanced, priorShape: 'log-normal' },
+      },
+    });
+    const normal = prepareScenario(advancedSnapshot);
+
+    expect(skewed.advanced?.prior.type).toBe('log-normal');
+    expect(skewed.evpi?.evpiDollars).toBeGreaterThan(0);
+    expect(skewed.evpi?.evpiDollars).not.toBeCloseTo(normal.evpi!.evpiDollars, 0);
+  });
+});
+
+describe('buildComparisonRow', () => {
+  it('marks unreadable scenarios', () => {
+    expect(buildComparisonRow('a', 'Broken', null)).toMatchObject({
+      issue: 'unreadable',
+      evpiDollars: null,
+    });
+  });
+
+  it('fills Basic rows from EVPI', () => {
+    const prepared = prepareScenario(basicSnapshot);
+    const result = buildComparisonRow('a', 'Basic', prepared);
+
+    expect(result.evpiDollars).toBe(prepared.evpi!.evpiDollars);
+    expect(result.evsiDollars).toBeNull();
+    expect(result.defaultDecision).toBe(prepared.evpi!.defaultDecision);
+    expect(result.issue).toBeUndefined();
+  });
+
+  it('fills Advanced rows from EVSI and net value', () => {
+    const prepared = prepareScenario(advancedSnapshot);
+    const evsi = calculateEVSINormalFastPath(prepared.advanced!.evsiInputs);
+    const netValue = calculateNetValueMonteCarlo(prepared.advanced!.netValueInputs, 1000);
+    const result = buildComparisonRow('a', 'Advanced', prepared, { evsi, netValue });
+
+    expect(result.evsiDollars).toBe(evsi.evsiDollars);
+    expect(result.netValueDollars).toBe(netValue.netValueDollars);
+    expect(result.probabilityClearsThreshold).toBe(netValue.probabilityClearsThreshold);
+  });
+
+  it('flags Advanced scenarios without a test design as incomplete', () => {
+    const prepared = prepareScenario({
+      ...advancedSnapshot,
+      inputs: { shared, advanced: initialAdvancedInputs },
+    });
+    const result = buildComparisonRow('a', 'No design', prepared);
+
+    expect(result.issue).toBe('incomplete');
+    expect(result.evpiDollars).not.toBeNull();
+  });
+});
+
+describe('sortComparisonRows', () => {
+  const rows = [
+    row({ id: 'low', name: 'Banner', netValueDollars: 100 }),
+    row({ id: 'none', name: 'Copy tweak', netValueDollars: null }),
+    row({ id: 'high', name: 'Annual plan', netValueDollars: 5000 }),
+  ];
+
+  it('sorts descending by a numeric column', () => {
+    expect(sortComparisonRows(rows, 'netValueDollars', 'desc').map((r) => r.id)).toEqual([
+      'high',
+      'low',
+      'none',
+    ]);
+  });
+
+  it('keeps missing values last when ascending', () => {
+    expect(sortComparisonRows(rows, 'netValueDollars', 'asc').map((r) => r.id)).toEqual([
+      'low',
+      'high',
+      'none',
+    ]);
+  });
+
+  it('sorts by name', () => {
+    expect(sortComparisonRows(rows, 'name', 'asc').map((r) => r.name)).toEqual([
+      'Annual plan',
+      'Banner',
+      'Copy tweak',
+    ]);
+  });
+
+  it('does not mutate the input', () => {
+    sortComparisonRows(rows, 'name', 'asc');
+    expect(rows[0].id).toBe('low');
+  });
+});
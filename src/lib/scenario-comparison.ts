@@ -0,0 +1,175 @@
+/**
+ * Scenario Comparison
+ *
+ * Turns several saved input sets into comparable rows (EVPI, EVSI, net
+ * value, P(clears threshold), default decision) so candidate experiments can
+ * be ranked by the value of the information a test would buy.
+ *
+ * - EVPI is computed for every complete scenario: from the Normal prior of
+ *   the interval, as in Basic mode, or numerically from the selected prior
+ *   shape for complete Advanced scenarios.
+ * - EVSI and net value need test design inputs, so only Advanced scenarios
+ *   have them. Computing them (sync or in the worker) is left to the caller;
+ *   buildComparisonRow just merges the results in.
+ */
+
+import { calculateEVPI, calculateEVPIForPrior } from '@/lib/calculations';
+import { deriveAdvancedInputs, deriveEVPIInputs } from '@/lib/derive-inputs';
+import type { DerivedAdvancedInputs } from '@/lib/derive-inputs';
+import type { InputsSnapshot } from '@/lib/inputs-snapshot';
+import type { EVPIResults, EVSIResults, NetValueResults } from '@/lib/calculations/types';
+import type { Mode } from '@/types/wizard';
+
+/**
+ * Why a row has no (or only partial) results
+ * - unreadable: the saved snapshot couldn't be read
+ * - incomplete: required inputs were missing when it was saved
+ */
+export type ComparisonIssue = 'unreadable' | 'incomplete';
+
+/**
+ * A scenario with its calculation inputs derived and EVPI computed
+ */
+export interface PreparedScenario {
+  mode: Mode;
+  /** EVPI results, or null if business/threshold inputs are incomplete */
+  evpi: EVPIResults | null;
+  /** Advanced mode inputs, or null in Basic mode or if incomplete */
+  advanced: DerivedAdvancedInputs | null;
+}
+
+/**
+ * EVSI and net value for an Advanced scenario
+ */
+export interface AdvancedComparisonResults {
+  evsi: EVSIResults;
+  netValue: NetValueResults;
+}
+
+/**
+ * One row of the comparison table. Metrics are null when not applicable.
+ */
+export interface ComparisonRow {
+  id: string;
+  name: string;
+  mode: Mode | null;
+  evpiDollars: number | null;
+  evsiDollars: number | null;
+  netValueDollars: number | null;
+  probabilityClearsThreshold: number | null;
+  defaultDecision: 'ship' | 'dont-ship' | null;
+  issue?: ComparisonIssue;
+}
+
+/**
+ * Columns the table can be sorted by
+ */
+export type ComparisonSortKey = Exclude<keyof ComparisonRow, 'id' | 'mode' | 'issue'>;
+
+export type SortDirection = 'asc' | 'desc';
+
+/**
+ * Derive inputs and compute EVPI for a snapshot
+ *
+ * @param snapshot - Validated snapshot (see readScenario)
+ * @returns Prepared scenario; advanced is set only for complete Advanced inputs
+ */
+export function prepareScenario(snapshot: InputsSnapshot): PreparedScenario {
+  const { shared, advanced } = snapshot.inputs;
+  const evpiInputs = deriveEVPIInputs(shared);
+  const derived = snapshot.mode === 'advanced' ? deriveAdvancedInputs(shared, advanced) : null;
+
+  // Non-Normal shapes have no closed form; the Normal one matches Basic mode
+  const evpi =
+    derived && derived.prior.type !== 'normal'
+      ? calculateEVPIForPrior(derived.evsiInputs)
+      : evpiInputs
+        ? calculateEVPI(evpiInputs)
+        : null;
+
+  return {
+    mode: snapshot.mode,
+    evpi,
+    advanced: derived,
+  };
+}
+
+/**
+ * Build a comparison row
+ *
+ * In Advanced mode the probability and default decision come from the net
+ * value simulation, which respects the chosen prior shape; otherwise from
+ * EVPI.
+ *
+ * @param id - Scenario id
+ * @param name - Scenario name
+ * @param prepared - Prepared scenario, or null if the snapshot was unreadable
+ * @param advancedResults - EVSI and net value, once computed
+ * @returns Row for the table
+ */
+export function buildComparisonRow(
+  id: string,
+  name: string,
+  prepared: PreparedScenario | null,
+  advancedResults?: AdvancedComparisonResults | null
+): ComparisonRow {
+  if (!prepared) {
+    return {
+      id,
+      name,
+      mode: null,
+      evpiDollars: null,
+      evsiDollars: null,
+      netValueDollars: null,
+      probabilityClearsThreshold: null,
+      defaultDecision: null,
+      issue: 'unreadable',
+    };
+  }
+
+  const { mode, evpi, advanced } = prepared;
+  const incomplete = evpi === null || (mode === 'advanced' && advanced === null);
+  const decisionSource = advancedResults?.netValue ?? evpi;
+
+  return {
+    id,
+    name,
+    mode,
+    evpiDollars: evpi?.evpiDollars ?? null,
+    evsiDollars: advancedResults?.evsi.evsiDollars ?? null,
+    netValueDollars: advancedResults?.netValue.netValueDollars ?? null,
+    probabilityClearsThreshold: decisionSource?.probabilityClearsThreshold ?? null,
+    defaultDecision: decisionSource?.defaultDecision ?? null,
+    ...(incomplete && { issue: 'incomplete' as const }),
+  };
+}
+
+/**
+ * Sort rows by a column. Rows without a value for the column go last in
+ * either direction, so a sort on EVSI doesn't bury the ranking under
+ * Basic scenarios.
+ *
+ * @param rows - Rows to sort (not mutated)
+ * @param key - Column
+ * @param direction - Ascending or descending
+ * @returns Sorted copy
+ */
+export function sortComparisonRows(
+  rows: ComparisonRow[],
+  key: ComparisonSortKey,
+  direction: SortDirection
+): ComparisonRow[] {
+  const sign = direction === 'asc' ? 1 : -1;
+
+  return [...rows].sort((a, b) => {
+    const left = a[key];
+    const right = b[key];
+    if (left === null && right === null) return 0;
+    if (left === null) return 1;
+    if (right === null) return -1;
+    if (typeof left === 'number' && typeof right === 'number') {
+      return sign * (left - right);
+    }
+    return sign * String(left).localeCompare(String(right));
+  });
+}
@@ -0,0 +1,186 @@
+import { describe, it, expect } from 'vitest';
+import { calculateSensitivity } from './sensitivity';
+import { calculateEVPI } from './calculations';
+import { deriveEVPIInputs } from './derive-inputs';
+import {
+  initialAdvancedInputs,
+  initialSharedInputs,
+  type InputsState,
+  type SharedInputs,
+} from '@/types/wizard';
+
+const shared: SharedInputs = {
+  ...initialSharedInputs,
+  baselineConversionRate: 0.05,
+  annualVisitors: 1000000,
+  valuePerConversion: 100,
+  priorIntervalLow: -5,
+  priorIntervalHigh: 10,
+  thresholdScenario: 'minimum-lift',
+  thresholdUnit: 'lift',
+  thresholdValue: 2,
+};
+
+const basicInputs: InputsState = { shared, advanced: initialAdvancedInputs };
+
+const advancedInputs: InputsState = {
+  shared,
+  advanced: {
+    ...initialAdvancedInputs,
+    priorShape: 'normal',
+    testDurationDays: 14,
+    dailyTraffic: 5000,
+  },
+};
+
+describe('calculateSensitivity', () => {
+  describe('Basic mode (EVPI)', () => {
+    const results = calculateSensitivity({ mode: 'basic', inputs: basicInputs, rangeFraction: 0.2 })!;
+
+    it('uses EVPI at the current inputs as the base', () => {
+      expect(results.metric).toBe('evpi');
+      expect(results.baseValue).toBeCloseTo(calculateEVPI(deriveEVPIInputs(shared)!).evpiDollars, 6);
+    });
+
+    it('perturbs only the shared inputs', () => {
+      expect(results.bars.map((bar) => bar.parameter).sort()).toEqual(
+        [
+          'annualVisitors',
+          'baselineConversionRate',
+          'priorIntervalHigh',
+          'priorIntervalLow',
+          'thresholdValue',
+          'valuePerConversion',
+        ].sort()
+      );
+    });
+
+    it('ranks bars by swing, largest first', () => {
+      const swings = results.bars.map((bar) => bar.swing);
+      expect(swings).toEqual([...swings].sort((a, b) => b - a));
+    });
+
+    it('scales multiplicative inputs by ±range', () => {
+      const visitors = results.bars.find((bar) => bar.parameter === 'annualVisitors')!;
+      expect(visitors.lowInput).toBeCloseTo(800000, 6);
+      expect(visitors.highInput).toBeCloseTo(1200000, 6);
+    });
+
+    it('scales EVPI linearly with visitors when the threshold is in lift', () => {
+      // EVPI = K × (lift-space regret), and K is linear in N
+      const visitors = results.bars.find((bar) => bar.parameter === 'annualVisitors')!;
+      expect(visitors.lowValue).toBeCloseTo(results.baseValue * 0.8, 4);
+      expect(visitors.highValue).toBeCloseTo(results.baseValue * 1.2, 4);
+    });
+
+    it('moves prior bounds by a share of the interval width', () => {
+      const low = results.bars.find((bar) => bar.parameter === 'priorIntervalLow')!;
+      expect(low.lowInput).toBeCloseTo(-8, 10);
+      expect(low.highInput).toBeCloseTo(-2, 10);
+    });
+
+    it('never lets a prior bound cross the other', () => {
+      const wide = calculateSensitivity({ mode: 'basic', inputs: basicInputs, rangeFraction: 2 })!;
+      const low = wide.bars.find((bar) => bar.parameter === 'priorIntervalLow')!;
+      const high = wide.bars.find((bar) => bar.parameter === 'priorIntervalHigh')!;
+      expect(low.highInput).toBeLessThan(10);
+      expect(high.lowInput).toBeGreaterThan(-5);
+    });
+
+    it('keeps conversion rate inside (0, 1)', () => {
+      const high = calculateSensitivity({
+        mode: 'basic',
+        inputs: { ...basicInputs, shared: { ...shared, baselineConversionRate: 0.9 } },
+        rangeFraction: 0.5,
+      })!;
+      const cr = high.bars.find((bar) => bar.parameter === 'baselineConversionRate')!;
+      expect(cr.highInput).toBeLessThan(1);
+    });
+
+    it('skips the threshold for "any positive"', () => {
+      const anyPositive = calculateSensitivity({
+        mode: 'basic',
+        inputs: { ...basicInputs, shared: { ...shared, thresholdScenario: 'any-positive' } },
+        rangeFraction: 0.2,
+      })!;
+      expect(anyPositive.bars.some((bar) => bar.parameter === 'thresholdValue')).toBe(false);
+    });
+
+    it('skips the conversion rate for a continuous metric', () => {
+      const continuous = calculateSensitivity({
+        mode: 'basic',
+        inputs: {
+          ...basicInputs,
+          shared: {
+            ...shared,
+            metricType: 'continuous',
+            metricMean: 2.5,
+            metricStandardDeviation: 12,
+          },
+        },
+        rangeFraction: 0.2,
+      })!;
+      expect(continuous.bars.some((bar) => bar.parameter === 'baselineConversionRate')).toBe(
+        false
+      );
+    });
+
+    it('returns null for incomplete inputs', () => {
+      expect(
+        calculateSensitivity({
+          mode: 'basic',
+          inputs: { ...basicInputs, shared: { ...shared, valuePerConversion: null } },
+          rangeFraction: 0.2,
+        })
+      ).toBeNull();
+    });
+  });
+
+  describe('Advanced mode (net value)', () => {
+    const results = calculateSensitivity({
+      mode: 'advanced',
+      inputs: advancedInputs,
+      rangeFraction: 0.2,
+    })!;
+
+    it('analyzes net value', () => {
+      expect(results.metric).toBe('net-value');
+    });
+
+    it('also perturbs test design inputs', () => {
+      const parameters = results.bars.map((bar) => bar.parameter);
+      expect(parameters).toContain('testDurationDays');
+      expect(parameters).toContain('trafficSplit');
+      expect(parameters).toContain('decisionLatencyDays');
+    });
+
+    it('rounds test duration to whole days', () => {
+      const duration = results.bars.find((bar) => bar.parameter === 'testDurationDays')!;
+      expect(duration.lowInput).toBe(11);
+      expect(duration.highInput).toBe(17);
+    });
+
+    it('moves zero decision latency up by a share of the test duration', () => {
+      const latency = results.bars.find((bar) => bar.parameter === 'decisionLatencyDays')!;
+      expect(latency.lowInput).toBe(0);
+      expect(latency.highInput).toBe(3);
+    });
+
+    it('floors net value at 0, as the headline shows it', () => {
+      // A confident win and a slow 90-day test: waiting costs more than it learns
+      const notWorthIt = calculateSensitivity({
+        mode: 'advanced',
+        inputs: {
+          shared: { ...shared, priorIntervalLow: 1, priorIntervalHigh: 10 },
+          advanced: { ...advancedInputs.advanced, testDurationDays: 90, dailyTraffic: 200 },
+        },
+        rangeFraction: 0.2,
+      })!;
+
+      expect(notWorthIt.baseValue).toBe(0);
+      expect(notWorthIt.bars.every((bar) => bar.lowValue === 0 && bar.highValue === 0)).toBe(
+        true
+      );
+    });
+  });
+});
@@ -0,0 +1,284 @@
+/**
+ * Sensitivity Analysis
+ *
+ * One-at-a-time sensitivity of the headline number (EVPI in Basic mode, net
+ * value of testing in Advanced mode): each input is moved down and up over
+ * a chosen range with everything else held fixed, and the headline is
+ * recomputed. Inputs are ranked by how far they move it (tornado chart).
+ * Net value is taken as the headline shows it, floored at $0: a test worth
+ * less than nothing is simply not worth running, so swings below $0 don't
+ * count.
+ *
+ * How each input is perturbed for a range r (e.g., 0.2 for ±20%):
+ * - Conversion rate, visitors, value, test duration, traffic split:
+ *   value × (1 ± r), kept inside each input's valid range
+ * - Prior interval bounds: ± r × interval width (a bound can be 0), never
+ *   crossing the other bound
+ * - Threshold: value × (1 ± r); not perturbed for "any positive", which is
+ *   0 by definition
+ * - Decision latency: value × (1 ± r); at 0 it is moved up to r × test
+ *   duration, since a relative change of 0 days is still 0
+ *
+ * Runs in the worker (Advanced mode recomputes net value twice per input).
+ */
+
+import { calculateEVPI } from '@/lib/calculations';
+import { calculateNetValue } from '@/lib/calculations/net-value';
+import { deriveAdvancedInputs, deriveEVPIInputs } from '@/lib/derive-inputs';
+import { DEFAULT_INTERVAL } from '@/lib/prior';
+import type { AdvancedInputs, InputsState, Mode, SharedInputs } from '@/types/wizard';
+
+/**
+ * Inputs the analysis can perturb
+ */
+export type SensitivityParameter =
+  | 'baselineConversionRate'
+  | 'annualVisitors'
+  | 'valuePerConversion'
+  | 'priorIntervalLow'
+  | 'priorIntervalHigh'
+  | 'thresholdValue'
+  | 'testDurationDays'
+  | 'trafficSplit'
+  | 'decisionLatencyDays';
+
+/**
+ * Inputs for the sensitivity analysis
+ */
+export interface SensitivityInputs {
+  /** Basic analyzes EVPI; Advanced analyzes net value */
+  mode: Mode;
+  /** Wizard inputs at their current values */
+  inputs: InputsState;
+  /** Perturbation range as a fraction (e.g., 0.2 for ±20%) */
+  rangeFraction: number;
+}
+
+/**
+ * Headline at the low and high end of one input's range
+ */
+export interface SensitivityBar {
+  parameter: SensitivityParameter;
+  /** Display label */
+  label: string;
+  /** Input value at the low end (same units as the wizard input) */
+  lowInput: number;
+  /** Input value at the high end */
+  highInput: number;
+  /** Headline dollars with the input at lowInput */
+  lowValue: number;
+  /** Headline dollars with the input at highInput */
+  highValue: number;
+  /** |highValue - lowValue|, used for ranking */
+  swing: number;
+}
+
+/**
+ * Results of the sensitivity analysis
+ */
+export interface SensitivityResults {
+  /** Which headline was analyzed */
+  metric: 'evpi' | 'net-value';
+  /** Headline dollars at the current inputs */
+  baseValue: number;
+  /** One bar per perturbed input, largest swing first */
+  bars: SensitivityBar[];
+}
+
+const SHARED_PARAMETERS: SensitivityParameter[] = [
+  'baselineConversionRate',
+  'annualVisitors',
+  'valuePerConversion',
+  'priorIntervalLow',
+  'priorIntervalHigh',
+  'thresholdValue',
+];
+
+const ADVANCED_PARAMETERS: SensitivityParameter[] = [
+  'testDurationDays',
+  'trafficSplit',
+  'decisionLatencyDays',
+];
+
+export const SENSITIVITY_LABELS: Record<SensitivityParameter, string> = {
+  baselineConversionRate: 'Baseline conversion rate',
+  annualVisitors: 'Annual visitors',
+  valuePerConversion: 'Value per conversion',
+  priorIntervalLow: 'Prior interval low',
+  priorIntervalHigh: 'Prior interval high',
+  thresholdValue: 'Threshold',
+  testDurationDays: 'Test duration',
+  trafficSplit: 'Traffic split',
+  decisionLatencyDays: 'Decision latency',
+};
+
+/**
+ * Scale a value by (1 ± r) and clamp to [min, max]
+ */
+function relativeRange(value: number, r: number, min: number, max: number): [number, number] {
+  const low = Math.min(Math.max(value * (1 - r), min), max);
+  const high = Math.min(Math.max(value * (1 + r), min), max);
+  return value >= 0 ? [low, high] : [high, low];
+}
+
+/**
+ * Low and high input values for one parameter, or null if it doesn't apply
+ */
+function perturbationRange(
+  parameter: SensitivityParameter,
+  shared: SharedInputs,
+  advanced: AdvancedInputs,
+  r: number
+): [number, number] | null {
+  const priorLow = shared.priorIntervalLow ?? DEFAULT_INTERVAL.low;
+  const priorHigh = shared.priorIntervalHigh ?? DEFAULT_INTERVAL.high;
+  const priorWidth = priorHigh - priorLow;
+  // Keep the bounds at least 0.01pp apart so the prior stays proper
+  const minGap = 0.01;
+
+  switch (parameter) {
+    case 'baselineConversionRate':
+      // Continuous and ratio metrics take their baseline from the metric's mean
+      return shared.metricType !== 'binary' || shared.baselineConversionRate === null
+        ? null
+        : relativeRange(shared.baselineConversionRate, r, Number.EPSILON, 1 - Number.EPSILON);
+
+    case 'annualVisitors':
+      return shared.annualVisitors === null
+        ? null
+        : relativeRange(shared.annualVisitors, r, 1, Infinity);
+
+    case 'valuePerConversion':
+      return shared.valuePerConversion === null
+        ? null
+        : relativeRange(shared.valuePerConversion, r, Number.EPSILON, Infinity);
+
+    case 'priorIntervalLow':
+      return [priorLow - r * priorWidth, Math.min(priorLow + r * priorWidth, priorHigh - minGap)];
+
+    case 'priorIntervalHigh':
+      return [Math.max(priorHigh - r * priorWidth, priorLow + minGap), priorHigh + r * priorWidth];
+
+    case 'thresholdValue':
+      return shared.thresholdScenario === 'any-positive' || shared.thresholdValue === null
+        ? null
+        : relativeRange(shared.thresholdValue, r, -Infinity, Infinity);
+
+    case 'testDurationDays': {
+      if (advanced.testDurationDays === null) return null;
+      const [low, high] = relativeRange(advanced.testDurationDays, r, 1, Infinity);
+      return [Math.round(low), Math.round(high)];
+    }
+
+    case 'trafficSplit':
+      return advanced.trafficSplit === null
+        ? null
+        : relativeRange(advanced.trafficSplit, r, 0.01, 0.99);
+
+    case 'decisionLatencyDays': {
+      const latency = advanced.decisionLatencyDays ?? 0;
+      if (latency === 0) {
+        return [0, Math.round(r * (advanced.testDurationDays ?? 0))];
+      }
+      const [low, high] = relativeRange(latency, r, 0, Infinity);
+      return [Math.round(low), Math.round(high)];
+    }
+  }
+}
+
+/**
+ * Replace one input, leaving the rest unchanged
+ */
+function withInput(
+  inputs: InputsState,
+  parameter: SensitivityParameter,
+  value: number
+): InputsState {
+  return ADVANCED_PARAMETERS.includes(parameter)
+    ? { ...inputs, advanced: { ...inputs.advanced, [parameter]: value } }
+    : { ...inputs, shared: { ...inputs.shared, [parameter]: value } };
+}
+
+/**
+ * Compute the headline number for a set of inputs, as displayed
+ *
+ * @returns Dollars (net value floored at 0), or null if inputs are incomplete
+ */
+function evaluateHeadline(mode: Mode, inputs: InputsState): number | null {
+  if (mode === 'basic') {
+    const evpiInputs = deriveEVPIInputs(inputs.shared);
+    return evpiInputs ? calculateEVPI(evpiInputs).evpiDollars : null;
+  }
+
+  const derived = deriveAdvancedInputs(inputs.shared, inputs.advanced);
+  return derived
+    ? Math.max(0, calculateNetValue(derived.netValueInputs).netValueDollars)
+    : null;
+}
+
+/**
+ * Run the one-at-a-time sensitivity analysis
+ *
+ * Every headline is deterministic (closed form or quadrature), so even
+ * small swings are real.
+ *
+ * @param sensitivityInputs - Mode, current inputs and range
+ * @returns Ranked bars, or null if the current inputs are incomplete
+ */
+export function calculateSensitivity(
+  sensitivityInputs: SensitivityInputs
+): SensitivityResults | null {
+  const { mode, rangeFraction } = sensitivityInputs;
+
+  // An unset prior interval means the default prior; fill it in so moving
+  // one bound doesn't leave the other unset
+  const inputs: InputsState = {
+    ...sensitivityInputs.inputs,
+    shared: {
+      ...sensitivityInputs.inputs.shared,
+      priorIntervalLow: sensitivityInputs.inputs.shared.priorIntervalLow ?? DEFAULT_INTERVAL.low,
+      priorIntervalHigh: sensitivityInputs.inputs.shared.priorIntervalHigh ?? DEFAULT_INTERVAL.high,
+    },
+  };
+
+  const baseValue = evaluateHeadline(mode, inputs);
+  if (baseValue === null) {
+    return null;
+  }
+
+  const parameters =
+    mode === 'advanced' ? [...SHARED_PARAMETERS, ...ADVANCED_PARAMETERS] : SHARED_PARAMETERS;
+
+  const bars: SensitivityBar[] = [];
+  for (const parameter of parameters) {
+    const range = perturbationRange(parameter, inputs.shared, inputs.advanced, rangeFraction);
+    if (!range || range[0] === range[1]) {
+      continue;
+    }
+
+    const [lowInput, highInput] = range;
+    const lowValue = evaluateHeadline(mode, withInput(inputs, parameter, lowInput));
+    const highValue = evaluateHeadline(mode, withInput(inputs, parameter, highInput));
+    if (lowValue === null || highValue === null) {
+      continue;
+    }
+
+    bars.push({
+      parameter,
+      label: SENSITIVITY_LABELS[parameter],
+      lowInput,
+      highInput,
+      lowValue,
+      highValue,
+      swing: Math.abs(highValue - lowValue),
+    });
+  }
+
+  bars.sort((a, b) => b.swing - a.swing);
+
+  return {
+    metric: mode === 'basic' ? 'evpi' : 'net-value',
+    baseValue,
+    bars,
+  };
+}
@@ -0,0 +1,120 @@
+/**
+ * Share Link Tests
+ *
+ * Links must round-trip the full wizard state, stay compact for typical
+ * inputs, and report (not hide) malformed or incompatible links.
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  buildShareUrl,
+  decodeShareState,
+  encodeShareState,
+  readShareToken,
+} from './share-link';
+import { initialAdvancedInputs, initialSharedInputs } from '@/types/wizard';
+import type { InputsSnapshot } from './inputs-snapshot';
+
+const snapshot: InputsSnapshot = {
+  mode: 'advanced',
+  inputs: {
+    shared: {
+      ...initialSharedInputs,
+      baselineConversionRate: 0.032,
+      annualVisitors: 1200000,
+      visitorUnitLabel: 'sessions',
+      valuePerConversion: 45,
+      priorType: 'custom',
+      priorIntervalLow: -5,
+      priorIntervalHigh: 10,
+      thresholdScenario: 'minimum-lift',
+      thresholdUnit: 'lift',
+      thresholdValue: 2,
+    },
+    advanced: {
+      ...initialAdvancedInputs,
+      priorShape: 'uniform',
+      testDurationDays: 28,
+      dailyTraffic: 3300,
+      conversionLatencyDays: 7,
+    },
+  },
+};
+
+/** Encode an arbitrary payload the way encodeShareState does */
+function encodeRaw(payload: unknown): string {
+  return btoa(JSON.stringify(payload))
+    .replace(/\+/g, '-')
+    .replace(/\//g, '_')
+    .replace(/=+$/, '');
+}
+
+describe('share link encoding', () => {
+  it('round-trips mode and inputs', () => {
+    const result = decodeShareState(encodeShareState(snapshot));
+
+    expect(result).toEqual({ status: 'ok', snapshot });
+  });
+
+  it('round-trips non-ASCII labels', () => {
+    const labelled: InputsSnapshot = {
+      ...snapshot,
+      inputs: {
+        ...snapshot.inputs,
+        shared: { ...snapshot.inputs.shared, visitorUnitLabel: 'Besucher – täglich' },
+      },
+    };
+
+    expect(decodeShareState(encodeShareState(labelled))).toEqual({
+      status: 'ok',
+      snapshot: labelled,
+    });
+  });
+
+  it('produces URL-safe tokens that only carry changed inputs', () => {
+    const token = encodeShareState({
+      mode: 'basic',
+      inputs: { shared: initialSharedInputs, advanced: initialAdvancedInputs },
+    });
+
+    expect(token).toMatch(/^[A-Za-z0-9_-]+$/);
+    // Defaults only: just version and mode
+    expect(token.length).toBeLessThan(30);
+  });
+
+  it('attaches the token to the URL hash', () => {
+    const url = buildShareUrl(snapshot, 'https://example.com/app/?utm=x#old');
+
+    expect(url.startsWith('https://example.com/app/?utm=x#s=')).toBe(true);
+    expect(readShareToken(new URL(url).hash)).toBe(encodeShareState(snapshot));
+  });
+});
+
+describe('share link failures', () => {
+  it('reports garbage tokens as invalid', () => {
+    expect(decodeShareState('not*base64')).toEqual({ status: 'error', reason: 'invalid' });
+    expect(decodeShareState(encodeRaw('just a string'))).toEqual({
+      status: 'error',
+      reason: 'invalid',
+    });
+  });
+
+  it('reports links from an unknown version', () => {
+    expect(decodeShareState(encodeRaw({ v: 99, m: 'basic' }))).toEqual({
+      status: 'error',
+      reason: 'unsupported-version',
+    });
+  });
+
+  it('reports links with out-of-range inputs as invalid', () => {
+    expect(
+      decodeShareState(encodeRaw({ v: 1, m: 'basic', s: { annualVisitors: -10 } }))
+    ).toEqual({ status: 'error', reason: 'invalid' });
+  });
+
+  it('ignores hashes without share state', () => {
+    expect(readShareToken('')).toBeNull();
+    expect(readShareToken('#results')).toBeNull();
+    expect(readShareToken('#s=')).toBeNull();
+  });
+});
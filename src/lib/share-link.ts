@@ -0,0 +1,149 @@
+/**
+ * Share Links
+ *
+ * Encodes the wizard's mode and inputs into the URL hash so an analysis can
+ * be sent as a link. The hash is never sent to a server.
+ *
+ * Format: #s=<base64url(JSON)>, where the JSON is
+ *   { v: version, m: mode, s: {changed shared inputs}, a: {changed advanced inputs} }
+ *
+ * Only inputs that differ from their initial values are written, which keeps
+ * typical links short. Decoding fills the rest back in via inputs-snapshot,
+ * so the version rules there apply to links too.
+ */
+
+import type { InputsState } from '@/types/wizard';
+import { initialAdvancedInputs, initialSharedInputs } from '@/types/wizard';
+import {
+  INPUTS_SNAPSHOT_VERSION,
+  parseInputsSnapshot,
+  type InputsSnapshot,
+  type SnapshotErrorReason,
+} from './inputs-snapshot';
+
+/** Hash parameter that carries the encoded state */
+const SHARE_HASH_KEY = 's';
+
+/**
+ * Result of reading a share link
+ * - ok: snapshot decoded and validated
+ * - error: a link was present but could not be used
+ */
+export type ShareLinkResult =
+  | { status: 'ok'; snapshot: InputsSnapshot }
+  | { status: 'error'; reason: SnapshotErrorReason };
+
+/**
+ * Compact wire format (short keys keep the URL small)
+ */
+interface SharePayload {
+  v: number;
+  m: InputsSnapshot['mode'];
+  s?: Partial<InputsState['shared']>;
+  a?: Partial<InputsState['advanced']>;
+}
+
+/**
+ * Keep only the entries of `values` that differ from `initial`
+ */
+function changedEntries<T extends object>(values: T, initial: T): Partial<T> {
+  const changed: Partial<T> = {};
+  for (const key of Object.keys(values) as (keyof T)[]) {
+    if (values[key] !== initial[key]) {
+      changed[key] = values[key];
+    }
+  }
+  return changed;
+}
+
+function toBase64Url(text: string): string {
+  const bytes = new TextEncoder().encode(text);
+  let binary = '';
+  bytes.forEach((byte) => {
+    binary += String.fromCharCode(byte);
+  });
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+function fromBase64Url(encoded: string): string {
+  const base64 = encoded.replace(/-/g, '+').replace(/_/g, '/');
+  const binary = atob(base64);
+  const bytes = Uint8Array.from(binary, (char) => char.charCodeAt(0));
+  return new TextDecoder().decode(bytes);
+}
+
+/**
+ * Encode a snapshot as a share token (the value after "#s=")
+ *
+ * @param snapshot - Mode and inputs to share
+ * @returns URL-safe token
+ */
+export function encodeShareState(snapshot: InputsSnapshot): string {
+  const shared = changedEntries(snapshot.inputs.shared, initialSharedInputs);
+  const advanced = changedEntries(snapshot.inputs.advanced, initialAdvancedInputs);
+
+  const payload: SharePayload = {
+    v: INPUTS_SNAPSHOT_VERSION,
+    m: snapshot.mode,
+    ...(Object.keys(shared).length > 0 && { s: shared }),
+    ...(Object.keys(advanced).length > 0 && { a: advanced }),
+  };
+
+  return toBase64Url(JSON.stringify(payload));
+}
+
+/**
+ * Decode a share token back into a validated snapshot
+ *
+ * @param token - Value after "#s="
+ * @returns Snapshot, or the reason the link can't be used. Never throws.
+ */
+export function decodeShareState(token: string): ShareLinkResult {
+  let payload: Partial<SharePayload>;
+  try {
+    payload = JSON.parse(fromBase64Url(token));
+  } catch {
+    return { status: 'error', reason: 'invalid' };
+  }
+
+  if (typeof payload !== 'object' || payload === null || typeof payload.v !== 'number') {
+    return { status: 'error', reason: 'invalid' };
+  }
+
+  const result = parseInputsSnapshot(payload.v, {
+    mode: payload.m,
+    inputs: { shared: payload.s ?? {}, advanced: payload.a ?? {} },
+  });
+
+  return result.ok
+    ? { status: 'ok', snapshot: result.snapshot }
+    : { status: 'error', reason: result.reason };
+}
+
+/**
+ * Extract the share token from a URL hash, if present
+ *
+ * @param hash - location.hash (with or without leading "#")
+ * @returns Token, or null when the hash carries no share state
+ */
+export function readShareToken(hash: string): string | null {
+  const params = new URLSearchParams(hash.replace(/^#/, ''));
+  const token = params.get(SHARE_HASH_KEY);
+  return token && token.length > 0 ? token : null;
+}
+
+/**
+ * Build a full share URL for the current page
+ *
+ * @param snapshot - Mode and inputs to share
+ * @param baseUrl - Page URL to attach the hash to (defaults to current location)
+ * @returns Absolute URL with the share hash
+ */
+export function buildShareUrl(
+  snapshot: InputsSnapshot,
+  baseUrl: string = window.location.href
+): string {
+  const url = new URL(baseUrl);
+  url.hash = `${SHARE_HASH_KEY}=${encodeShareState(snapshot)}`;
+  return url.toString();
+}
@@ -0,0 +1,123 @@
+import { describe, it, expect, vi } from 'vitest';
+import { sweepSplitAndDuration, sweepTrafficSplit, DEFAULT_SPLITS } from './split-optimizer';
+import { netValueForDesign } from './design-sweep';
+import { createTestInputs } from '@/test/inputs';
+
+const inputs = createTestInputs();
+
+describe('netValueForDesign', () => {
+  it('is deterministic', () => {
+    const a = netValueForDesign(inputs, { trafficSplit: 0.3 });
+    const b = netValueForDesign(inputs, { trafficSplit: 0.3 });
+
+    expect(a).toBe(b);
+  });
+
+  it('does not depend on the seed, even for Student-t priors', () => {
+    const studentT = createTestInputs({ priorShape: 'student-t', studentTDf: 5 });
+    const reseeded = { ...studentT, advanced: { ...studentT.advanced, monteCarloSeed: 99 } };
+
+    expect(netValueForDesign(reseeded, { trafficSplit: 0.3 })).toBe(
+      netValueForDesign(studentT, { trafficSplit: 0.3 })
+    );
+  });
+
+  it('returns null when inputs are incomplete', () => {
+    const incomplete = { ...inputs, advanced: { ...inputs.advanced, dailyTraffic: null } };
+
+    expect(netValueForDesign(incomplete, { trafficSplit: 0.5 })).toBeNull();
+  });
+});
+
+describe('sweepTrafficSplit', () => {
+  it('sweeps 10-90% in 5-point steps by default', () => {
+    const results = sweepTrafficSplit(inputs)!;
+
+    expect(results.points.map((point) => Math.round(point.trafficSplit * 100))).toEqual(
+      DEFAULT_SPLITS.map((split) => Math.round(split * 100))
+    );
+    expect(results.points[0].trafficSplit).toBeCloseTo(0.1);
+    expect(results.points[results.points.length - 1].trafficSplit).toBeCloseTo(0.9);
+  });
+
+  it('reports the best point', () => {
+    const results = sweepTrafficSplit(inputs, [0.2, 0.5, 0.8])!;
+    const max = Math.max(...results.points.map((point) => point.netValueDollars));
+
+    expect(results.bestNetValueDollars).toBe(max);
+    expect(
+      results.points.find((point) => point.trafficSplit === results.bestSplit)!.netValueDollars
+    ).toBe(max);
+  });
+
+  it('ignores the entered split', () => {
+    const results = sweepTrafficSplit(
+      { ...inputs, advanced: { ...inputs.advanced, trafficSplit: null } },
+      [0.5]
+    );
+
+    expect(results).not.toBeNull();
+  });
+
+  it('gives a smooth curve', () => {
+    // Net value is computed without sampling noise, so neighboring splits
+    // differ only by the effect of the split itself
+    const splits = [0.45, 0.46, 0.47, 0.48, 0.49, 0.5];
+    const results = sweepTrafficSplit(inputs, splits)!;
+    const values = results.points.map((point) => point.netValueDollars);
+    const range = Math.max(...values) - Math.min(...values);
+
+    expect(range).toBeLessThan(Math.abs(results.bestNetValueDollars) * 0.05);
+  });
+
+  it('reports progress after each split', () => {
+    const onProgress = vi.fn();
+    sweepTrafficSplit(inputs, [0.3, 0.5, 0.7], onProgress);
+
+    expect(onProgress.mock.calls).toEqual([
+      [1, 3],
+      [2, 3],
+      [3, 3],
+    ]);
+  });
+});
+
+describe('sweepSplitAndDuration', () => {
+  it('returns one cell per split × duration, durations outer', () => {
+    const grid = sweepSplitAndDuration(inputs, [0.3, 0.5], [7, 14, 21])!;
+
+    expect(grid.cells.map((cell) => [cell.testDurationDays, cell.trafficSplit])).toEqual([
+      [7, 0.3],
+      [7, 0.5],
+      [14, 0.3],
+      [14, 0.5],
+      [21, 0.3],
+      [21, 0.5],
+    ]);
+  });
+
+  it('matches the split sweep at the same duration', () => {
+    const grid = sweepSplitAndDuration(inputs, [0.3, 0.5], [14])!;
+    const sweep = sweepTrafficSplit(inputs, [0.3, 0.5])!;
+
+    expect(grid.cells.map((cell) => cell.netValueDollars)).toEqual(
+      sweep.points.map((point) => point.netValueDollars)
+    );
+  });
+
+  it('reports the best cell and progress', () => {
+    const onProgress = vi.fn();
+    const grid = sweepSplitAndDuration(inputs, [0.3, 0.5], [7, 28], onProgress)!;
+    const max = Math.max(...grid.cells.map((cell) => cell.netValueDollars));
+
+    expect(grid.best.netValueDollars).toBe(max);
+    expect(onProgress).toHaveBeenCalledTimes(4);
+    expect(onProgress).toHaveBeenLastCalledWith(4, 4);
+  });
+
+  it('returns null when inputs are incomplete', () => {
+    const incomplete = { ...inputs, advanced: { ...inputs.advanced, dailyTraffic: null } };
+
+    expect(sweepSplitAndDuration(incomplete, [0.5], [14])).toBeNull();
+  });
+});
@@ -0,0 +1,145 @@
+/**
+ * Traffic Split Optimizer
+ *
+ * Finds the variant allocation that maximizes net value of testing, on its
+ * own or jointly with test duration.
+ *
+ * 50/50 gives the most precise readout for a given duration, but during the
+ * test the variant share is exposed to the change (calculateIterationValue
+ * weights the test period by variantFraction). When the prior puts real
+ * weight on harm, a smaller variant share trades a little precision for
+ * less exposure; when the change probably helps, a larger share captures
+ * more of the upside early.
+ *
+ * Splits are limited to 10-90%, the range ExperimentDesignForm accepts.
+ */
+
+import { netValueForDesign, type SweepProgress } from '@/lib/design-sweep';
+import type { InputsState } from '@/types/wizard';
+
+/**
+ * Default splits: 10% to 90% variant in 5-point steps
+ */
+export const DEFAULT_SPLITS: number[] = Array.from({ length: 17 }, (_, i) => (10 + 5 * i) / 100);
+
+/**
+ * Default durations for the split × duration heatmap (weekly, 1-12 weeks)
+ */
+export const DEFAULT_GRID_DURATIONS: number[] = Array.from({ length: 12 }, (_, i) => 7 * (i + 1));
+
+/**
+ * Net value at one split
+ */
+export interface SplitPoint {
+  /** Variant fraction (decimal) */
+  trafficSplit: number;
+  netValueDollars: number;
+}
+
+/**
+ * Results of the split sweep at the entered duration
+ */
+export interface SplitSweepResults {
+  points: SplitPoint[];
+  /** Split with the highest net value */
+  bestSplit: number;
+  bestNetValueDollars: number;
+}
+
+/**
+ * Net value at one split × duration
+ */
+export interface DesignGridCell {
+  trafficSplit: number;
+  testDurationDays: number;
+  netValueDollars: number;
+}
+
+/**
+ * Results of the joint split × duration sweep
+ */
+export interface DesignGridResults {
+  splits: number[];
+  durations: number[];
+  /** One cell per (duration, split), durations outer, in input order */
+  cells: DesignGridCell[];
+  /** Cell with the highest net value */
+  best: DesignGridCell;
+}
+
+/**
+ * Sweep traffic split at the entered duration
+ *
+ * @param inputs - Wizard inputs (trafficSplit is ignored)
+ * @param splits - Variant fractions to try
+ * @param onProgress - Optional progress callback
+ * @returns Sweep results, or null if the other inputs are incomplete
+ */
+export function sweepTrafficSplit(
+  inputs: InputsState,
+  splits: number[] = DEFAULT_SPLITS,
+  onProgress?: SweepProgress
+): SplitSweepResults | null {
+  const points: SplitPoint[] = [];
+  for (const trafficSplit of splits) {
+    const netValueDollars = netValueForDesign(inputs, { trafficSplit });
+    if (netValueDollars === null) {
+      return null;
+    }
+    points.push({ trafficSplit, netValueDollars });
+    onProgress?.(points.length, splits.length);
+  }
+
+  if (points.length === 0) {
+    return null;
+  }
+
+  const best = points.reduce((a, b) => (b.netValueDollars > a.netValueDollars ? b : a));
+
+  return {
+    points,
+    bestSplit: best.trafficSplit,
+    bestNetValueDollars: best.netValueDollars,
+  };
+}
+
+/**
+ * Sweep traffic split and test duration jointly
+ *
+ * @param inputs - Wizard inputs (trafficSplit and testDurationDays are ignored)
+ * @param splits - Variant fractions to try
+ * @param durations - Test durations (days) to try
+ * @param onProgress - Optional progress callback
+ * @returns Grid results, or null if the other inputs are incomplete
+ */
+export function sweepSplitAndDuration(
+  inputs: InputsState,
+  splits: number[] = DEFAULT_SPLITS,
+  durations: number[] = DEFAULT_GRID_DURATIONS,
+  onProgress?: SweepProgress
+): DesignGridResults | null {
+  const total = splits.length * durations.length;
+  const cells: DesignGridCell[] = [];
+
+  for (const testDurationDays of durations) {
+    for (const trafficSplit of splits) {
+      const netValueDollars = netValueForDesign(inputs, { trafficSplit, testDurationDays });
+      if (netValueDollars === null) {
+        return null;
+      }
+      cells.push({ trafficSplit, testDurationDays, netValueDollars });
+      onProgress?.(cells.length, total);
+    }
+  }
+
+  if (cells.length === 0) {
+    return null;
+  }
+
+  return {
+    splits,
+    durations,
+    cells,
+    best: cells.reduce((a, b) => (b.netValueDollars > a.netValueDollars ? b : a)),
+  };
+}
@@ -0,0 +1,50 @@
+import { describe, it, expect } from 'vitest';
+import { calculateTestRoi, describeTestRoi, formatRoiRatio } from './test-roi';
+
+describe('calculateTestRoi', () => {
+  it('is null without a cost', () => {
+    expect(calculateTestRoi(50000, 0)).toBeNull();
+  });
+
+  it('runs the test when it earns back its cost', () => {
+    expect(calculateTestRoi(50000, 10000)).toEqual({
+      valueDollars: 50000,
+      costDollars: 10000,
+      roiRatio: 5,
+      verdict: 'run',
+    });
+    expect(calculateTestRoi(10000, 10000)!.verdict).toBe('skip');
+  });
+
+  it('treats a negative value as worthless', () => {
+    const roi = calculateTestRoi(-2000, 1000)!;
+
+    expect(roi.roiRatio).toBe(0);
+    expect(roi.verdict).toBe('skip');
+  });
+});
+
+describe('formatRoiRatio', () => {
+  it('keeps one decimal below 10×', () => {
+    expect(formatRoiRatio(3.42)).toBe('3.4×');
+    expect(formatRoiRatio(24.6)).toBe('25×');
+  });
+});
+
+describe('describeTestRoi', () => {
+  it('gives a run / don\'t run headline', () => {
+    expect(describeTestRoi(calculateTestRoi(50000, 10000)!, 'net-value').headline).toBe('Run it');
+    expect(describeTestRoi(calculateTestRoi(5000, 10000)!, 'net-value').headline).toBe(
+      "Don't run it"
+    );
+  });
+
+  it('reads EVPI as a ceiling', () => {
+    expect(describeTestRoi(calculateTestRoi(50000, 10000)!, 'evpi').detail).toContain(
+      'ROI up to 5.0×'
+    );
+    expect(describeTestRoi(calculateTestRoi(5000, 10000)!, 'evpi').detail).toContain(
+      'even perfect information'
+    );
+  });
+});
@@ -0,0 +1,101 @@
+/**
+ * Test ROI
+ *
+ * Weighs what running the test costs (people time and tooling, see the
+ * Costs step) against what it is worth: the most a test is worth paying for
+ * (maxTestBudgetDollars, the net value) in Advanced mode, or EVPI, the
+ * ceiling on any test's value, in Basic mode.
+ *
+ * The ROI ratio is value / cost: above 1 the test earns back its cost, so
+ * run it. Against EVPI a "run it" only says a test could pay off; a "don't
+ * run it" holds for any test.
+ */
+
+import { formatSmartCurrency } from '@/lib/formatting';
+
+/**
+ * What the test's value is measured by
+ * - net-value: the simulated net value of the entered test (Advanced)
+ * - evpi: the value of perfect information, an upper bound (Basic)
+ */
+export type TestValueBasis = 'net-value' | 'evpi';
+
+/**
+ * Cost of the test against its value
+ */
+export interface TestRoi {
+  /** Value of the test in dollars (clamped to non-negative) */
+  valueDollars: number;
+  /** Cost of running the test in dollars */
+  costDollars: number;
+  /** Value / cost */
+  roiRatio: number;
+  /** Run the test if it earns back its cost */
+  verdict: 'run' | 'skip';
+}
+
+/**
+ * Compare the test's value with its cost
+ *
+ * @param valueDollars - Test value (maxTestBudgetDollars or EVPI)
+ * @param costDollars - Cost of running the test
+ * @returns ROI and verdict, or null when no cost was entered
+ */
+export function calculateTestRoi(valueDollars: number, costDollars: number): TestRoi | null {
+  if (!(costDollars > 0)) {
+    return null;
+  }
+  const value = Math.max(0, valueDollars);
+  const roiRatio = value / costDollars;
+  return {
+    valueDollars: value,
+    costDollars,
+    roiRatio,
+    verdict: roiRatio > 1 ? 'run' : 'skip',
+  };
+}
+
+/**
+ * Format an ROI ratio as a multiple (e.g., "3.4×", "25×")
+ */
+export function formatRoiRatio(roiRatio: number): string {
+  return roiRatio >= 10 ? `${Math.round(roiRatio)}×` : `${roiRatio.toFixed(1)}×`;
+}
+
+/**
+ * Verdict headline and explanation, shared by the result cards and the export
+ *
+ * @param roi - ROI from calculateTestRoi
+ * @param basis - What the value is measured by
+ * @returns Headline ("Run it" / "Don't run it") and one explaining sentence
+ */
+export function describeTestRoi(
+  roi: TestRoi,
+  basis: TestValueBasis
+): { headline: string; detail: string } {
+  const cost = formatSmartCurrency(roi.costDollars);
+  const value = formatSmartCurrency(roi.valueDollars);
+  const ratio = formatRoiRatio(roi.roiRatio);
+
+  if (basis === 'evpi') {
+    return roi.verdict === 'run'
+      ? {
+          headline: 'Run it',
+          detail: `The test costs ${cost}, under the ${value} perfect information is worth (ROI up to ${ratio}). A real test is worth less; Advanced mode checks it earns back its cost.`,
+        }
+      : {
+          headline: "Don't run it",
+          detail: `The test costs ${cost}, more than the ${value} even perfect information is worth (ROI at most ${ratio}).`,
+        };
+  }
+
+  return roi.verdict === 'run'
+    ? {
+        headline: 'Run it',
+        detail: `The test costs ${cost} and is worth ${value}: an ROI of ${ratio}.`,
+      }
+    : {
+        headline: "Don't run it",
+        detail: `The test costs ${cost} but is worth ${value}: an ROI of ${ratio}, so it doesn't earn back its cost.`,
+      };
+}
@@ -30,41 +30,125 @@ import { z } from 'zod';
  * V (valuePerConversion):
  * - Validation: >= 0.01 (minimum penny)
  * - Stored in dollars
+ *
+ * Continuous and ratio metrics replace CR0 with the metric's mean and
+ * standard deviation per visitor (and, for a ratio, the denominator's and
+ * their correlation); only the selected metric's fields are required.
  */
-export const baselineMetricsSchema = z.object({
-  /**
-   * Baseline conversion rate as percentage (0-100)
-   * SPEC: "Validate: 0% < CR0 < 100%"
-   */
-  baselineConversionRate: z
-    .number({ error: 'Conversion rate is required' })
-    .gt(0, { message: 'Must be greater than 0%' })
-    .lt(100, { message: 'Must be less than 100%' }),
+export const baselineMetricsSchema = z
+  .object({
+    /** Metric the test reads out */
+    metricType: z.enum(['binary', 'continuous', 'ratio']),
 
-  /**
-   * Annual visitors/opportunities
-   * SPEC: "validate: N_year >= 0" (we use >= 1 to ensure meaningful data)
-   */
-  annualVisitors: z
-    .number({ error: 'Annual visitors is required' })
-    .int({ message: 'Must be a whole number' })
-    .min(1, { message: 'Must be at least 1' }),
+    /**
+     * Baseline conversion rate as percentage (0-100)
+     * SPEC: "Validate: 0% < CR0 < 100%"
+     */
+    baselineConversionRate: z
+      .number({ error: 'Conversion rate is required' })
+      .gt(0, { message: 'Must be greater than 0%' })
+      .lt(100, { message: 'Must be less than 100%' })
+      .nullish(),
 
-  /**
-   * User-editable label for visitor unit (visitors, sessions, leads, etc.)
-   * SPEC: "Label is user-editable text but defaults to 'visitors'"
-   * Note: Default handled at form level, not schema level, for consistent types
-   */
-  visitorUnitLabel: z.string().min(1),
+    /** Mean per visitor (continuous), or numerator mean per visitor (ratio) */
+    metricMean: z
+      .number({ error: 'Mean is required' })
+      .gt(0, { message: 'Must be greater than 0' })
+      .nullish(),
 
-  /**
-   * Value per conversion in dollars
-   * SPEC: "validate: V >= 0" (we use >= 0.01 as minimum practical value)
-   */
-  valuePerConversion: z
-    .number({ error: 'Value per conversion is required' })
-    .min(0.01, { message: 'Must be at least $0.01' }),
-});
+    /** Standard deviation per visitor of the metric (or of the numerator) */
+    metricStandardDeviation: z
+      .number({ error: 'Standard deviation is required' })
+      .gt(0, { message: 'Must be greater than 0' })
+      .nullish(),
+
+    /** Denominator mean per visitor (ratio) */
+    ratioDenominatorMean: z
+      .number({ error: 'Mean is required' })
+      .gt(0, { message: 'Must be greater than 0' })
+      .nullish(),
+
+    /** Denominator standard deviation per visitor (ratio) */
+    ratioDenominatorStandardDeviation: z
+      .number({ error: 'Standard deviation is required' })
+      .min(0, { message: 'Cannot be negative' })
+      .nullish(),
+
+    /** Correlation of numerator and denominator per visitor (ratio) */
+    ratioCorrelation: z
+      .number({ error: 'Correlation is required' })
+      .min(-1, { message: 'Must be at least -1' })
+      .max(1, { message: 'Must be at most 1' })
+      .nullish(),
+
+    /**
+     * Annual visitors/opportunities
+     * SPEC: "validate: N_year >= 0" (we use >= 1 to ensure meaningful data)
+     */
+    annualVisitors: z
+      .number({ error: 'Annual visitors is required' })
+      .int({ message: 'Must be a whole number' })
+      .min(1, { message: 'Must be at least 1' }),
+
+    /**
+     * User-editable label for visitor unit (visitors, sessions, leads, etc.)
+     * SPEC: "Label is user-editable text but defaults to 'visitors'"
+     * Note: Default handled at form level, not schema level, for consistent types
+     */
+    visitorUnitLabel: z.string().min(1),
+
+    /**
+     * Value per conversion in dollars
+     * SPEC: "validate: V >= 0" (we use >= 0.01 as minimum practical value)
+     */
+    valuePerConversion: z
+      .number({ error: 'Value per conversion is required' })
+      .min(0.01, { message: 'Must be at least $0.01' }),
+
+    /**
+     * Days the decision pays off for (a week to ten years)
+     */
+    horizonDays: z
+      .number({ error: 'Decision horizon is required' })
+      .int({ message: 'Must be a whole number of days' })
+      .min(7, { message: 'Must be at least 7 days' })
+      .max(3650, { message: 'Must be at most 3,650 days (10 years)' }),
+
+    /**
+     * Annual discount rate as percentage (0-100)
+     */
+    annualDiscountRate: z
+      .number({ error: 'Discount rate is required' })
+      .min(0, { message: 'Cannot be negative' })
+      .max(100, { message: 'Must be at most 100%' }),
+  })
+  .superRefine((data, ctx) => {
+    const required = (path: string, message: string) =>
+      ctx.addIssue({ code: 'custom', message, path: [path] });
+
+    if (data.metricType === 'binary') {
+      if (data.baselineConversionRate == null) {
+        required('baselineConversionRate', 'Conversion rate is required');
+      }
+      return;
+    }
+
+    if (data.metricMean == null) required('metricMean', 'Mean is required');
+    if (data.metricStandardDeviation == null) {
+      required('metricStandardDeviation', 'Standard deviation is required');
+    }
+    if (data.metricType === 'ratio') {
+      if (data.ratioDenominatorMean == null) {
+        required('ratioDenominatorMean', 'Mean is required');
+      }
+      if (data.ratioDenominatorStandardDeviation == null) {
+        required('ratioDenominatorStandardDeviation', 'Standard deviation is required');
+      }
+      if (data.ratioCorrelation == null) {
+        required('ratioCorrelation', 'Correlation is required');
+      }
+    }
+  });
 
 export type BaselineMetricsFormData = z.infer<typeof baselineMetricsSchema>;
 
@@ -160,6 +244,10 @@ export type ThresholdScenarioFormData = z.infer<typeof thresholdScenarioSchema>;
  * - Normal: Standard bell curve (default)
  * - Student-t: Fat-tailed, with preset df values (3, 5, 10)
  * - Uniform: Equal probability across the interval
+ * - Mixture: Spike-and-slab, a chance of exactly zero lift plus the
+ *   interval's Normal
+ * - Log-normal: Normal on log(1 + lift), long upside tail
+ * - Skew-normal: Skewed bell with preset alpha (2=Slight, 4=Moderate, 10=Strong)
  */
 export const priorShapeSchema = z.discriminatedUnion('shape', [
   z.object({
@@ -173,6 +261,22 @@ export const priorShapeSchema = z.discriminatedUnion('shape', [
   z.object({
     shape: z.literal('uniform'),
   }),
+  z.object({
+    shape: z.literal('mixture'),
+    /** Chance the change has no effect at all, in percent */
+    spikeWeightPercent: z
+      .number({ message: 'Please enter a percentage' })
+      .min(0, 'Cannot be negative')
+      .lt(100, 'Must be below 100%'),
+  }),
+  z.object({
+    shape: z.literal('log-normal'),
+  }),
+  z.object({
+    shape: z.literal('skew-normal'),
+    /** Skew-normal shape (2=Slight, 4=Moderate, 10=Strong right skew) */
+    alpha: z.union([z.literal(2), z.literal(4), z.literal(10)]),
+  }),
 ]);
 
 export type PriorShapeFormData = z.infer<typeof priorShapeSchema>;
@@ -249,3 +353,37 @@ export const experimentDesignSchema = z.object({
 });
 
 export type ExperimentDesignFormData = z.infer<typeof experimentDesignSchema>;
+
+/**
+ * Test Costs Schema (Advanced mode)
+ *
+ * What running the test costs, apart from the value lost while it runs
+ * (that is already in the net value):
+ * - engineeringHours / analystHours: people time, priced at hourlyRate
+ * - toolingCostPerTest: experimentation platform cost for this test
+ *
+ * All default to zero (hourlyRate to $100), so the step can be skipped.
+ */
+export const testCostsSchema = z.object({
+  /** Engineering hours to build and launch the test */
+  engineeringHours: z
+    .number({ error: 'Engineering hours are required' })
+    .min(0, { message: 'Cannot be negative' }),
+
+  /** Analyst hours to design, monitor and read out the test */
+  analystHours: z
+    .number({ error: 'Analyst hours are required' })
+    .min(0, { message: 'Cannot be negative' }),
+
+  /** Loaded cost per hour of people time, in dollars */
+  hourlyRate: z
+    .number({ error: 'Hourly rate is required' })
+    .min(0, { message: 'Cannot be negative' }),
+
+  /** Tooling cost attributed to this test, in dollars */
+  toolingCostPerTest: z
+    .number({ error: 'Tooling cost is required' })
+    .min(0, { message: 'Cannot be negative' }),
+});
+
+export type TestCostsFormData = z.infer<typeof testCostsSchema>;
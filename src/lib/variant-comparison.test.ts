@@ -0,0 +1,49 @@
+import { describe, it, expect, vi } from 'vitest';
+import { compareVariantCounts } from './variant-comparison';
+import { createTestInputs } from '@/test/inputs';
+
+const inputs = createTestInputs({ trafficSplit: 0.75, variantCount: 3 });
+
+describe('compareVariantCounts', () => {
+  it('values every count from 1 to the entered number of variants', () => {
+    const onProgress = vi.fn();
+    const results = compareVariantCounts(inputs, onProgress)!;
+
+    expect(results.points.map((point) => point.variantCount)).toEqual([1, 2, 3]);
+    expect(results.points[2].probabilityShipArm).toHaveLength(3);
+    expect(results.timeLimited).toBe(false);
+    expect(onProgress).toHaveBeenLastCalledWith(3, 3);
+  });
+
+  it('reports the count with the highest EVSI', () => {
+    const results = compareVariantCounts(inputs)!;
+    const best = Math.max(...results.points.map((point) => point.evsiDollars));
+
+    expect(results.best.evsiDollars).toBe(best);
+  });
+
+  it('shows a weak extra variant diluting the test', () => {
+    const results = compareVariantCounts({
+      ...inputs,
+      advanced: {
+        ...inputs.advanced,
+        variantCount: 2,
+        variantPriorMode: 'individual',
+        variantPriorIntervals: [{ low: -30, high: -20 }],
+      },
+    })!;
+
+    expect(results.best.variantCount).toBe(1);
+    expect(results.points[1].probabilityShipArm[1]).toBe(0);
+  });
+
+  it('is reproducible for a given seed', () => {
+    expect(compareVariantCounts(inputs)).toEqual(compareVariantCounts(inputs));
+  });
+
+  it('returns null when inputs are incomplete', () => {
+    const incomplete = { ...inputs, advanced: { ...inputs.advanced, dailyTraffic: null } };
+
+    expect(compareVariantCounts(incomplete)).toBeNull();
+  });
+});
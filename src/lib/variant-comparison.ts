@@ -0,0 +1,106 @@
+/**
+ * Variant Count Comparison (A/B/n)
+ *
+ * EVSI of testing 1, 2, ..., k variants at once, holding the rest of the
+ * design fixed: the variant allocation is shared among however many
+ * variants are tested, and the first j variants (with their priors) make up
+ * the j-variant test. Shows whether another variant adds value (a better
+ * option to ship) or dilutes it (a noisier readout for each).
+ *
+ * Every variant count is simulated with the same seed (common random
+ * numbers), so the differences between counts carry less noise than the
+ * counts themselves. Each count draws antithetic pairs (see
+ * variance-reduction.ts) until its EVSI is precise enough (see
+ * adaptive-sampling.ts); the samples all counts draw are shared.
+ */
+
+import { createMultiArmEVSISimulation } from '@/lib/calculations/multi-arm';
+import { runAdaptive, stageProgress } from '@/lib/calculations/adaptive-sampling';
+import { createSeededRandom } from '@/lib/calculations/random';
+import { SIMULATION_SAMPLING } from '@/lib/calculations/variance-reduction';
+import { deriveMultiArmInputs } from '@/lib/derive-inputs';
+import type { SweepProgress } from '@/lib/design-sweep';
+import type { MonteCarloError } from '@/lib/calculations/types';
+import type { InputsState } from '@/types/wizard';
+
+/**
+ * Monte Carlo samples each variant count draws before it may stop
+ */
+export const VARIANT_COMPARISON_SAMPLES = 5000;
+
+/**
+ * EVSI of one variant count
+ */
+export interface VariantCountPoint {
+  variantCount: number;
+  evsiDollars: number;
+  evsiError?: MonteCarloError;
+  /** Probability each variant ships after the readout */
+  probabilityShipArm: number[];
+  /** Probability no variant ships after the readout */
+  probabilityShipNone: number;
+}
+
+/**
+ * Results of the variant count comparison
+ */
+export interface VariantComparisonResults {
+  /** One point per variant count, 1 to advanced.variantCount */
+  points: VariantCountPoint[];
+  /** Variant count with the highest EVSI */
+  best: VariantCountPoint;
+  /** True if any count stopped on its time budget (reruns may differ by device) */
+  timeLimited: boolean;
+}
+
+/**
+ * Compare EVSI across variant counts
+ *
+ * @param inputs - Wizard inputs (advanced.variantCount is the largest count tried)
+ * @param onProgress - Optional progress callback
+ * @returns Comparison, or null if the inputs are incomplete
+ */
+export function compareVariantCounts(
+  inputs: InputsState,
+  onProgress?: SweepProgress
+): VariantComparisonResults | null {
+  const total = inputs.advanced.variantCount;
+  const points: VariantCountPoint[] = [];
+  let timeLimited = false;
+
+  for (let variantCount = 1; variantCount <= total; variantCount++) {
+    const multiArmInputs = deriveMultiArmInputs(inputs.shared, inputs.advanced, variantCount);
+    if (!multiArmInputs) {
+      return null;
+    }
+    const { results: result, stoppedBy } = runAdaptive(
+      createMultiArmEVSISimulation(
+        multiArmInputs,
+        createSeededRandom(inputs.advanced.monteCarloSeed),
+        SIMULATION_SAMPLING
+      ),
+      { minSamples: VARIANT_COMPARISON_SAMPLES },
+      stageProgress(onProgress, points.length, total)
+    );
+    if (stoppedBy === 'time_budget') {
+      timeLimited = true;
+    }
+    points.push({
+      variantCount,
+      evsiDollars: result.evsiDollars,
+      evsiError: result.evsiError,
+      probabilityShipArm: result.probabilityShipArm,
+      probabilityShipNone: result.probabilityShipNone,
+    });
+  }
+
+  if (points.length === 0) {
+    return null;
+  }
+
+  return {
+    points,
+    best: points.reduce((a, b) => (b.evsiDollars > a.evsiDollars ? b : a)),
+    timeLimited,
+  };
+}
@@ -1,79 +1,213 @@
 /**
  * EVSI Web Worker
  *
- * Offloads Monte Carlo EVSI and Net Value computation to background thread.
+ * Offloads EVSI and Net Value computation (and the sensitivity analysis and
+ * design sweeps built on them) to a background thread.
  * Uses Comlink for type-safe RPC communication.
  *
  * Per 05-RESEARCH.md:
- * - Normal priors use fast path (closed-form, no Monte Carlo)
- * - Student-t and Uniform use Monte Carlo (~5000 samples)
- * - Target performance: 500ms-2s
+ * - Normal priors use fast path (closed-form)
+ * - Every other prior uses quadrature (a few ms each; sweeps run dozens)
+ * - Target performance: 500ms-2s for a sweep
  *
  * Per audit recommendations (COD-01, COD-02, COD-03):
  * - computeNetValue provides integrated timing-aware calculation
- * - Net value computed in one coherent simulation (not EVSI - CoD)
+ * - Net value computed in one coherent calculation (not EVSI - CoD)
  */
 
 import * as Comlink from 'comlink';
-import {
-  calculateEVSIMonteCarlo,
-  calculateEVSINormalFastPath,
-} from '../calculations/evsi';
-import { calculateNetValueMonteCarlo } from '../calculations/net-value';
+import { calculateEVSI } from '../calculations/evsi';
+import { calculateNetValue } from '../calculations/net-value';
+import { calculateSensitivity } from '../sensitivity';
+import { sweepTestDuration } from '../duration-optimizer';
+import { sweepSplitAndDuration, sweepTrafficSplit } from '../split-optimizer';
+import { compareVariantCounts } from '../variant-comparison';
+import { simulateEarlyStopping } from '../early-stopping';
+import { compareBanditToABTest } from '../bandit-comparison';
+import type { DurationRange, DurationSweepResults } from '../duration-optimizer';
+import type { DesignGridResults, SplitSweepResults } from '../split-optimizer';
+import type { SweepProgress } from '../design-sweep';
+import type { VariantComparisonResults } from '../variant-comparison';
+import type { EarlyStoppingResults } from '../early-stopping';
+import type { BanditComparisonResults } from '../bandit-comparison';
+import type { InputsState } from '../../types/wizard';
+import type { SensitivityInputs, SensitivityResults } from '../sensitivity';
 import type { EVSIInputs, EVSIResults, NetValueInputs, NetValueResults } from '../calculations/types';
 
 /**
  * Compute EVSI - exposed via Comlink
  *
- * Selects fast path for Normal priors, Monte Carlo otherwise.
- *
  * Mathematical note:
  * - Normal prior: O(1) closed-form using conjugate Normal-Normal update
- * - Student-t/Uniform: O(n) Monte Carlo with rejection sampling for feasibility
+ * - Every other prior: quadrature over the feasibility-truncated prior
  *
  * @param inputs - EVSI calculation inputs (K, CR0, threshold_L, prior, sample sizes)
- * @param numSamples - Monte Carlo samples for non-Normal priors (default 5000)
  * @returns EVSI results including evsiDollars, defaultDecision, probabilities
  */
-function computeEVSI(
-  inputs: EVSIInputs,
-  numSamples: number = 5000
-): EVSIResults {
-  if (inputs.prior.type === 'normal') {
-    // Fast path: closed-form for Normal prior (O(1))
-    // Per SPEC.md A5.2: Uses pre-posterior analysis with conjugate update
-    return calculateEVSINormalFastPath(inputs);
-  }
-
-  // Monte Carlo for Student-t and Uniform priors
-  // Per SPEC.md A5.1: Sample from prior, simulate test, average improvement
-  return calculateEVSIMonteCarlo(inputs, numSamples);
+function computeEVSI(inputs: EVSIInputs): EVSIResults {
+  return calculateEVSI(inputs);
 }
 
 /**
  * Compute integrated net value of testing - exposed via Comlink
  *
- * Uses single Monte Carlo simulation that computes:
+ * Closed form for Normal priors, quadrature otherwise; either way:
  * - Value during test (variant fraction gets treatment)
  * - Value during latency (conservative: no treatment)
  * - Value after decision (based on posterior mean)
  * - Baseline value (default decision for full year)
  *
- * Net value = avgValueWithTest - avgValueWithoutTest
- * This is the coherent "EVSI - CoD" in one simulation (COD-03).
+ * Net value = E[valueWithTest] - E[valueWithoutTest]
+ * This is the coherent "EVSI - CoD" in one calculation (COD-03).
  *
  * @param inputs - Net value calculation inputs (K, CR0, threshold_L, prior, timing params)
- * @param numSamples - Monte Carlo samples (default 5000)
  * @returns NetValueResults including netValueDollars, defaultDecision, probabilities
  */
-function computeNetValue(
-  inputs: NetValueInputs,
-  numSamples: number = 5000
-): NetValueResults {
-  return calculateNetValueMonteCarlo(inputs, numSamples);
+function computeNetValue(inputs: NetValueInputs): NetValueResults {
+  return calculateNetValue(inputs);
+}
+
+/**
+ * Compute one-at-a-time sensitivity of the headline number - exposed via Comlink
+ *
+ * Re-runs EVPI (Basic) or net value (Advanced) with each input moved to
+ * the low and high end of the range. Advanced mode computes net value twice
+ * per input, hence the worker.
+ *
+ * @param inputs - Mode, current wizard inputs and perturbation range
+ * @returns Bars ranked by swing, or null if inputs are incomplete
+ */
+function computeSensitivity(inputs: SensitivityInputs): SensitivityResults | null {
+  return calculateSensitivity(inputs);
+}
+
+/**
+ * Sweep test duration for the net-value-maximizing duration - exposed via Comlink
+ *
+ * Computes net value once per day in the range. The main thread cancels a
+ * sweep by terminating the worker.
+ *
+ * @param inputs - Wizard inputs (testDurationDays is ignored)
+ * @param range - Durations to sweep (default 1-90 days)
+ * @param onProgress - Progress callback (pass via Comlink.proxy)
+ * @returns Net value per duration and the best duration, or null if inputs are incomplete
+ */
+function computeDurationSweep(
+  inputs: InputsState,
+  range?: DurationRange,
+  onProgress?: SweepProgress
+): DurationSweepResults | null {
+  return sweepTestDuration(inputs, range, onProgress);
+}
+
+/**
+ * Sweep traffic split at the entered duration - exposed via Comlink
+ *
+ * @param inputs - Wizard inputs (trafficSplit is ignored)
+ * @param splits - Variant fractions to try (default 10-90% in 5-point steps)
+ * @param onProgress - Progress callback (pass via Comlink.proxy)
+ * @returns Net value per split and the best split, or null if inputs are incomplete
+ */
+function computeSplitSweep(
+  inputs: InputsState,
+  splits?: number[],
+  onProgress?: SweepProgress
+): SplitSweepResults | null {
+  return sweepTrafficSplit(inputs, splits, onProgress);
+}
+
+/**
+ * Sweep traffic split × test duration for the heatmap - exposed via Comlink
+ *
+ * @param inputs - Wizard inputs (trafficSplit and testDurationDays are ignored)
+ * @param splits - Variant fractions to try
+ * @param durations - Durations (days) to try (default weekly, 1-12 weeks)
+ * @param onProgress - Progress callback (pass via Comlink.proxy)
+ * @returns Net value per cell and the best cell, or null if inputs are incomplete
+ */
+function computeDesignGrid(
+  inputs: InputsState,
+  splits?: number[],
+  durations?: number[],
+  onProgress?: SweepProgress
+): DesignGridResults | null {
+  return sweepSplitAndDuration(inputs, splits, durations, onProgress);
+}
+
+/**
+ * Compare EVSI across 1..k variants (A/B/n) - exposed via Comlink
+ *
+ * One multi-variant Monte Carlo run per variant count.
+ *
+ * @param inputs - Wizard inputs (advanced.variantCount is the largest count)
+ * @param onProgress - Progress callback (pass via Comlink.proxy)
+ * @returns EVSI per variant count and the best count, or null if inputs are incomplete
+ */
+function computeVariantComparison(
+  inputs: InputsState,
+  onProgress?: SweepProgress
+): VariantComparisonResults | null {
+  return compareVariantCounts(inputs, onProgress);
+}
+
+/**
+ * Simulate the test with its interim looks (early stopping) - exposed via Comlink
+ *
+ * One seeded Monte Carlo run valuing the sequential and fixed designs on
+ * the same draws.
+ *
+ * @param inputs - Wizard inputs (advanced.interimLookDays and the stopping rule)
+ * @param onProgress - Progress callback (pass via Comlink.proxy)
+ * @returns Sequential vs fixed net value, or null if inputs are incomplete
+ */
+function computeEarlyStopping(
+  inputs: InputsState,
+  onProgress?: SweepProgress
+): EarlyStoppingResults | null {
+  return simulateEarlyStopping(inputs, onProgress);
+}
+
+/**
+ * Compare a bandit rollout with the A/B test - exposed via Comlink
+ *
+ * Net value of the entered A/B test and of a two-arm bandit over the same
+ * year, both by seeded Monte Carlo.
+ *
+ * @param inputs - Wizard inputs (advanced.banditPolicy sets the bandit)
+ * @param onProgress - Progress callback (pass via Comlink.proxy)
+ * @returns Bandit and A/B results, or null if inputs are incomplete
+ */
+function computeBanditComparison(
+  inputs: InputsState,
+  onProgress?: SweepProgress
+): BanditComparisonResults | null {
+  return compareBanditToABTest(inputs, onProgress);
 }
 
 // Expose the API via Comlink
 // computeEVSI: backwards compatible for EVSI-only computation
 // computeNetValue: integrated timing-aware net value calculation
-Comlink.expose({ computeEVSI, computeNetValue });
+// computeSensitivity: tornado analysis of the headline number
+// computeDurationSweep: net value across test durations
+// computeSplitSweep / computeDesignGrid: net value across splits (and durations)
+// computeVariantComparison: EVSI across variant counts (A/B/n)
+// computeEarlyStopping: net value with interim looks vs the fixed design
+// computeBanditComparison: bandit rollout vs the A/B test
+const api = {
+  computeEVSI,
+  computeNetValue,
+  computeSensitivity,
+  computeDurationSweep,
+  computeSplitSweep,
+  computeDesignGrid,
+  computeVariantComparison,
+  computeEarlyStopping,
+  computeBanditComparison,
+};
+
+/**
+ * Worker API type for Comlink.wrap on the main thread
+ */
+export type EVSIWorkerApi = typeof api;
+
+Comlink.expose(api);
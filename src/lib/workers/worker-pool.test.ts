@@ -0,0 +1,151 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { cacheKey, createWorkerPool, isAbortError, type PoolWorker } from './worker-pool';
+
+interface FakeApi {
+  workerId: number;
+}
+
+/**
+ * Fake workers: spawn() counts starts, terminate() is a spy
+ */
+function fakeSpawn() {
+  let started = 0;
+  const terminate = vi.fn();
+  const spawn = vi.fn(
+    async (): Promise<PoolWorker<FakeApi>> => ({ api: { workerId: ++started }, terminate })
+  );
+  return { spawn, terminate };
+}
+
+/**
+ * A promise resolved from outside the task
+ */
+function deferred<T>() {
+  let resolve!: (value: T) => void;
+  const promise = new Promise<T>((r) => (resolve = r));
+  return { promise, resolve };
+}
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+describe('createWorkerPool', () => {
+  it('reuses one worker across requests', async () => {
+    const { spawn } = fakeSpawn();
+    const pool = createWorkerPool({ spawn, size: 1 });
+
+    const a = await pool.run(async (api) => api.workerId);
+    const b = await pool.run(async (api) => api.workerId);
+
+    expect([a, b]).toEqual([1, 1]);
+    expect(spawn).toHaveBeenCalledTimes(1);
+  });
+
+  it('returns cached results without running the task', async () => {
+    const { spawn } = fakeSpawn();
+    const pool = createWorkerPool({ spawn });
+    const task = vi.fn(async () => 42);
+    const key = cacheKey('netValue', { K: 1 }, 7);
+
+    await pool.run(task, { cacheKey: key });
+    const again = await pool.run(task, { cacheKey: key });
+
+    expect(again).toBe(42);
+    expect(task).toHaveBeenCalledTimes(1);
+    expect(pool.cached(key)).toBe(42);
+    expect(pool.cached(cacheKey('netValue', { K: 2 }, 7))).toBeUndefined();
+  });
+
+  it('evicts the least recently used result', async () => {
+    const { spawn } = fakeSpawn();
+    const pool = createWorkerPool({ spawn, cacheSize: 2 });
+
+    await pool.run(async () => 'a', { cacheKey: 'a' });
+    await pool.run(async () => 'b', { cacheKey: 'b' });
+    await pool.run(async () => 'a again', { cacheKey: 'a' }); // hit: a is now recent
+    await pool.run(async () => 'c', { cacheKey: 'c' });
+
+    expect(pool.cached('a')).toBe('a');
+    expect(pool.cached('b')).toBeUndefined();
+    expect(pool.cached('c')).toBe('c');
+  });
+
+  it('drops an aborted request that is still queued', async () => {
+    const { spawn } = fakeSpawn();
+    const pool = createWorkerPool({ spawn, size: 1 });
+    const first = deferred<string>();
+    const queuedTask = vi.fn(async () => 'queued');
+    const controller = new AbortController();
+
+    const running = pool.run(() => first.promise);
+    const queued = pool.run(queuedTask, { signal: controller.signal });
+    controller.abort();
+    first.resolve('first');
+
+    await expect(queued).rejects.toSatisfy(isAbortError);
+    await expect(running).resolves.toBe('first');
+    expect(queuedTask).not.toHaveBeenCalled();
+  });
+
+  it('terminates the worker of an aborted running request', async () => {
+    const { spawn, terminate } = fakeSpawn();
+    const pool = createWorkerPool({ spawn, size: 1 });
+    const controller = new AbortController();
+    const never = deferred<string>();
+
+    const running = pool.run(() => never.promise, { signal: controller.signal, cacheKey: 'x' });
+    await vi.waitFor(() => expect(spawn).toHaveBeenCalled());
+    controller.abort();
+
+    await expect(running).rejects.toSatisfy(isAbortError);
+    await vi.waitFor(() => expect(terminate).toHaveBeenCalledTimes(1));
+    expect(pool.cached('x')).toBeUndefined();
+
+    // The next request gets a fresh worker
+    await expect(pool.run(async (api) => api.workerId)).resolves.toBe(2);
+  });
+
+  it('skips a request aborted while debouncing', async () => {
+    vi.useFakeTimers();
+    const { spawn } = fakeSpawn();
+    const pool = createWorkerPool({ spawn });
+    const task = vi.fn(async () => 1);
+    const controller = new AbortController();
+
+    const request = pool.run(task, { signal: controller.signal, debounceMs: 150 });
+    vi.advanceTimersByTime(100);
+    controller.abort();
+
+    await expect(request).rejects.toSatisfy(isAbortError);
+    vi.advanceTimersByTime(100);
+    expect(task).not.toHaveBeenCalled();
+    expect(spawn).not.toHaveBeenCalled();
+  });
+
+  it('rejects when a worker fails to start, and retries next time', async () => {
+    const spawn = vi
+      .fn<() => Promise<PoolWorker<FakeApi>>>()
+      .mockRejectedValueOnce(new Error('Worker is not defined'))
+      .mockResolvedValue({ api: { workerId: 1 }, terminate: vi.fn() });
+    const pool = createWorkerPool({ spawn, size: 1 });
+
+    await expect(pool.run(async () => 'x')).rejects.toThrow('Worker is not defined');
+    await expect(pool.run(async () => 'y')).resolves.toBe('y');
+    expect(spawn).toHaveBeenCalledTimes(2);
+  });
+
+  it('terminate() aborts queued and running requests', async () => {
+    const { spawn } = fakeSpawn();
+    const pool = createWorkerPool({ spawn, size: 1 });
+    const never = deferred<string>();
+
+    const running = pool.run(() => never.promise);
+    const queued = pool.run(async () => 'queued');
+    await vi.waitFor(() => expect(spawn).toHaveBeenCalled());
+    pool.terminate();
+
+    await expect(running).rejects.toSatisfy(isAbortError);
+    await expect(queued).rejects.toSatisfy(isAbortError);
+  });
+});
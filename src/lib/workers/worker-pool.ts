@@ -0,0 +1,327 @@
+/**
+ * Worker Pool
+ *
+ * Long-lived Web Workers shared by every calculation hook, so the worker
+ * module is loaded once per session rather than once per input change.
+ *
+ * Key behaviors:
+ * - Each worker runs one request at a time; requests queue in order
+ * - Aborting a queued request drops it; aborting a running one terminates
+ *   its worker (the only way to stop synchronous work in a worker), and a
+ *   fresh worker is started for the next request
+ * - Optional debounce: a request waits before queueing, and an abort in
+ *   that window (the next keystroke) costs nothing
+ * - Results are cached by a caller-supplied key (serialized inputs), so
+ *   revisiting an input set is instant; cached() reads the cache
+ *   synchronously, before any debounce
+ */
+
+import type { proxy, Remote } from 'comlink';
+import type { EVSIWorkerApi } from './evsi.worker';
+import type {
+  EVSIInputs,
+  EVSIResults,
+  NetValueInputs,
+  NetValueResults,
+} from '../calculations/types';
+
+/**
+ * A started worker: what tasks receive, and how to stop it
+ */
+export interface PoolWorker<Api> {
+  api: Api;
+  terminate: () => void;
+}
+
+/**
+ * Pool configuration
+ */
+export interface WorkerPoolOptions<Api> {
+  /** Start a worker (may reject, e.g. where Worker is unavailable) */
+  spawn: () => Promise<PoolWorker<Api>>;
+  /** Number of workers (default 2) */
+  size?: number;
+  /** Cached results kept, least recently used evicted first (default 100) */
+  cacheSize?: number;
+}
+
+/**
+ * Per-request options
+ */
+export interface WorkerRunOptions {
+  /** Aborts the request (rejects with an AbortError) */
+  signal?: AbortSignal;
+  /** Cache key; omit to skip the cache */
+  cacheKey?: string;
+  /** Wait this long before queueing (default 0) */
+  debounceMs?: number;
+}
+
+/**
+ * Worker pool handle
+ */
+export interface WorkerPool<Api> {
+  /** Run a task on the next free worker */
+  run: <T>(task: (api: Api) => Promise<T>, options?: WorkerRunOptions) => Promise<T>;
+  /** Cached result for a key, if any */
+  cached: <T>(cacheKey: string) => T | undefined;
+  /** Forget all cached results */
+  clearCache: () => void;
+  /** Stop all workers and abort queued and running requests */
+  terminate: () => void;
+}
+
+interface PoolRequest<Api> {
+  /** Request id, in submission order */
+  id: number;
+  task: (api: Api) => Promise<unknown>;
+  resolve: (value: unknown) => void;
+  reject: (reason: unknown) => void;
+  cacheKey?: string;
+}
+
+interface PoolSlot<Api> {
+  worker: Promise<PoolWorker<Api>> | null;
+  /** Request running on this worker */
+  request: PoolRequest<Api> | null;
+}
+
+/**
+ * Debounce for requests triggered by typing (ms)
+ */
+export const INPUT_DEBOUNCE_MS = 150;
+
+/**
+ * Error used to reject aborted requests
+ */
+function abortError(): DOMException {
+  return new DOMException('Worker request aborted', 'AbortError');
+}
+
+/**
+ * Whether a rejection came from an abort (callers usually ignore these)
+ */
+export function isAbortError(error: unknown): boolean {
+  return error instanceof DOMException && error.name === 'AbortError';
+}
+
+/**
+ * Cache key from request parts (method name, inputs...)
+ */
+export function cacheKey(...parts: unknown[]): string {
+  return JSON.stringify(parts);
+}
+
+/**
+ * Create a worker pool
+ *
+ * @param options - Worker factory, pool size and cache size
+ * @returns Pool handle
+ */
+export function createWorkerPool<Api>(options: WorkerPoolOptions<Api>): WorkerPool<Api> {
+  const { spawn, size = 2, cacheSize = 100 } = options;
+
+  const slots: PoolSlot<Api>[] = Array.from({ length: Math.max(1, size) }, () => ({
+    worker: null,
+    request: null,
+  }));
+  const queue: PoolRequest<Api>[] = [];
+  const cache = new Map<string, unknown>();
+  let nextId = 0;
+
+  const remember = (key: string, value: unknown) => {
+    cache.delete(key);
+    cache.set(key, value);
+    if (cache.size > cacheSize) {
+      cache.delete(cache.keys().next().value!);
+    }
+  };
+
+  const stopSlot = (slot: PoolSlot<Api>) => {
+    slot.worker?.then((worker) => worker.terminate()).catch(() => {});
+    slot.worker = null;
+    slot.request = null;
+  };
+
+  const dispatch = () => {
+    for (const slot of slots) {
+      if (slot.request !== null || queue.length === 0) continue;
+      const request = queue.shift()!;
+      slot.request = request;
+
+      const execute = async () => {
+        try {
+          if (!slot.worker) {
+            slot.worker = spawn();
+          }
+          const worker = await slot.worker;
+          const value = await request.task(worker.api);
+          if (slot.request !== request) return; // aborted while running
+          if (request.cacheKey !== undefined) remember(request.cacheKey, value);
+          request.resolve(value);
+        } catch (error) {
+          if (slot.request !== request) return;
+          // Start over with a fresh worker next time
+          stopSlot(slot);
+          request.reject(error);
+        }
+        slot.request = null;
+        dispatch();
+      };
+
+      execute();
+    }
+  };
+
+  const abort = (request: PoolRequest<Api>) => {
+    const queued = queue.indexOf(request);
+    if (queued !== -1) {
+      queue.splice(queued, 1);
+    } else {
+      const slot = slots.find((s) => s.request === request);
+      if (!slot) return; // already settled
+      stopSlot(slot);
+    }
+    request.reject(abortError());
+    dispatch();
+  };
+
+  const run = <T>(task: (api: Api) => Promise<T>, runOptions: WorkerRunOptions = {}) => {
+    const { signal, cacheKey: key, debounceMs = 0 } = runOptions;
+
+    if (key !== undefined && cache.has(key)) {
+      const value = cache.get(key) as T;
+      remember(key, value);
+      return Promise.resolve(value);
+    }
+    if (signal?.aborted) {
+      return Promise.reject(abortError());
+    }
+
+    return new Promise<T>((resolve, reject) => {
+      let timer: ReturnType<typeof setTimeout> | null = null;
+
+      const onAbort = () => {
+        if (timer !== null) {
+          // Still debouncing: never queued
+          clearTimeout(timer);
+          reject(abortError());
+          return;
+        }
+        abort(request);
+      };
+      const cleanup = () => signal?.removeEventListener('abort', onAbort);
+
+      const request: PoolRequest<Api> = {
+        id: ++nextId,
+        task,
+        cacheKey: key,
+        resolve: (value) => {
+          cleanup();
+          resolve(value as T);
+        },
+        reject: (reason) => {
+          cleanup();
+          reject(reason);
+        },
+      };
+      signal?.addEventListener('abort', onAbort, { once: true });
+
+      const enqueue = () => {
+        timer = null;
+        queue.push(request);
+        dispatch();
+      };
+
+      if (debounceMs > 0) {
+        timer = setTimeout(enqueue, debounceMs);
+      } else {
+        enqueue();
+      }
+    });
+  };
+
+  return {
+    run,
+    cached: <T>(key: string) => (cache.has(key) ? (cache.get(key) as T) : undefined),
+    clearCache: () => cache.clear(),
+    terminate: () => {
+      for (const request of queue.splice(0)) {
+        request.reject(abortError());
+      }
+      for (const slot of slots) {
+        const running = slot.request;
+        stopSlot(slot);
+        running?.reject(abortError());
+      }
+    },
+  };
+}
+
+/**
+ * What EVSI worker tasks receive: the remote API and Comlink.proxy, for
+ * progress callbacks
+ */
+export interface EVSIWorkerHandle {
+  remote: Remote<EVSIWorkerApi>;
+  proxy: typeof proxy;
+}
+
+let evsiPool: WorkerPool<EVSIWorkerHandle> | null = null;
+
+/**
+ * The shared EVSI worker pool (created on first use)
+ */
+export function getEVSIWorkerPool(): WorkerPool<EVSIWorkerHandle> {
+  if (!evsiPool) {
+    evsiPool = createWorkerPool<EVSIWorkerHandle>({
+      spawn: async () => {
+        // Import Comlink dynamically, as the worker itself is
+        const Comlink = await import('comlink');
+        const worker = new Worker(new URL('./evsi.worker.ts', import.meta.url), {
+          type: 'module',
+        });
+        return {
+          api: { remote: Comlink.wrap<EVSIWorkerApi>(worker), proxy: Comlink.proxy },
+          terminate: () => worker.terminate(),
+        };
+      },
+    });
+  }
+  return evsiPool;
+}
+
+/**
+ * EVSI and net value for one set of Advanced inputs (non-Normal prior)
+ */
+export interface AdvancedWorkerRun {
+  evsi: EVSIResults;
+  netValue: NetValueResults;
+}
+
+/**
+ * Cache key for an AdvancedWorkerRun; shared by every hook that requests
+ * one, so the results view and the scenario comparison reuse each other's runs
+ */
+export function advancedRunKey(
+  evsiInputs: EVSIInputs,
+  netValueInputs: NetValueInputs
+): string {
+  return cacheKey('evsi-net-value', evsiInputs, netValueInputs);
+}
+
+/**
+ * Task computing EVSI and net value
+ */
+export function advancedRunTask(
+  evsiInputs: EVSIInputs,
+  netValueInputs: NetValueInputs
+): (handle: EVSIWorkerHandle) => Promise<AdvancedWorkerRun> {
+  return async ({ remote }) => {
+    const [evsi, netValue] = await Promise.all([
+      remote.computeEVSI(evsiInputs),
+      remote.computeNetValue(netValueInputs),
+    ]);
+    return { evsi, netValue };
+  };
+}
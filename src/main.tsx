@@ -2,9 +2,22 @@ import { StrictMode } from 'react'
 import { createRoot } from 'react-dom/client'
 import './index.css'
 import App from './App.tsx'
+import { decodeShareState, readShareToken } from './lib/share-link'
+import { useWizardStore } from './stores/wizardStore'
+
+// Restore a shared analysis before anything renders, then drop the hash so
+// later edits aren't confused with the link's contents
+const shareToken = readShareToken(window.location.hash)
+const shareLink = shareToken ? decodeShareState(shareToken) : null
+if (shareLink?.status === 'ok') {
+  useWizardStore.getState().loadInputs(shareLink.snapshot.mode, shareLink.snapshot.inputs)
+}
+if (shareToken) {
+  window.history.replaceState(null, '', window.location.pathname + window.location.search)
+}
 
 createRoot(document.getElementById('root')!).render(
   <StrictMode>
-    <App />
+    <App shareLink={shareLink} />
   </StrictMode>,
 )
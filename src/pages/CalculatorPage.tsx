@@ -2,14 +2,15 @@
  * Calculator Page
  *
  * Main wizard page with dynamic sections based on mode:
- * - Basic mode: 4 sections (Baseline, Uncertainty, Threshold, Results)
- * - Advanced mode: 5 sections (adds Test Design between Threshold and Results)
+ * - Basic mode: 5 sections (Baseline, Uncertainty, Threshold, Costs, Results)
+ * - Advanced mode: 6 sections (adds Test Design between Threshold and Costs)
  *
  * Implements progressive disclosure - future sections are dramatically disabled
  * until prior sections are completed.
  *
  * Page structure:
- * - Sticky header with title and mode toggle
+ * - Sticky header with title, saved scenarios toggle and mode toggle
+ * - Optional saved scenarios panel above the sections
  * - Sticky progress indicator with scroll tracking
  * - Dynamic sections based on mode
  *
@@ -23,11 +24,15 @@
  * - Session persistence for inputs and mode (not navigation)
  */
 
-import { useCallback, useEffect, useMemo, useRef } from 'react';
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
 import { SectionWrapper } from '@/components/wizard/SectionWrapper';
 import { NavigationButtons } from '@/components/wizard/NavigationButtons';
 import { StickyProgressIndicator } from '@/components/wizard/StickyProgressIndicator';
 import { ModeToggle } from '@/components/wizard/ModeToggle';
+import { SharedLinkNotice } from '@/components/wizard/SharedLinkNotice';
+import { ScenarioLibrary } from '@/components/scenarios/ScenarioLibrary';
+import { Button } from '@/components/ui/button';
+import { FolderOpen } from 'lucide-react';
 import {
   BaselineMetricsForm,
   type BaselineMetricsFormHandle,
@@ -44,14 +49,19 @@ import {
   ExperimentDesignForm,
   type ExperimentDesignFormHandle,
 } from '@/components/forms/ExperimentDesignForm';
+import {
+  TestCostsForm,
+  type TestCostsFormHandle,
+} from '@/components/forms/TestCostsForm';
 import { ResultsSection, AdvancedResultsSection } from '@/components/results';
 import { useScrollSpy } from '@/hooks/useScrollSpy';
 import { useWizardStore } from '@/stores/wizardStore';
+import type { SnapshotErrorReason } from '@/lib/inputs-snapshot';
 
 /**
  * Section configuration for the wizard
- * Basic mode: 4 sections (Baseline, Uncertainty, Threshold, Results)
- * Advanced mode: 5 sections (adds Test Design between Threshold and Results)
+ * Basic mode: 5 sections (Baseline, Uncertainty, Threshold, Costs, Results)
+ * Advanced mode: 6 sections (adds Test Design between Threshold and Costs)
  */
 interface SectionConfig {
   id: string;
@@ -63,6 +73,7 @@ const BASIC_SECTIONS: SectionConfig[] = [
   { id: 'baseline', label: 'Baseline', title: 'Baseline Metrics' },
   { id: 'uncertainty', label: 'Uncertainty', title: 'Uncertainty (Prior)' },
   { id: 'threshold', label: 'Threshold', title: 'Shipping Threshold' },
+  { id: 'costs', label: 'Costs', title: 'Test Costs' },
   { id: 'results', label: 'Results', title: 'Results' },
 ];
 
@@ -71,19 +82,22 @@ const ADVANCED_SECTIONS: SectionConfig[] = [
   { id: 'uncertainty', label: 'Uncertainty', title: 'Uncertainty (Prior)' },
   { id: 'threshold', label: 'Threshold', title: 'Shipping Threshold' },
   { id: 'test-design', label: 'Test Design', title: 'Experiment Design' },
+  { id: 'costs', label: 'Costs', title: 'Test Costs' },
   { id: 'results', label: 'Results', title: 'Results' },
 ];
 
 interface CalculatorPageProps {
   /** Handler to navigate back to welcome page */
   onBack: () => void;
+  /** Set when the page was opened from a share link that couldn't be loaded */
+  shareLinkError?: SnapshotErrorReason;
 }
 
 /**
  * Calculator wizard page with dynamic sections based on mode
- * Basic mode: 4 sections, Advanced mode: 5 sections
+ * Basic mode: 5 sections, Advanced mode: 6 sections
  */
-export function CalculatorPage({ onBack }: CalculatorPageProps) {
+export function CalculatorPage({ onBack, shareLinkError }: CalculatorPageProps) {
   // Store state and actions
   const mode = useWizardStore((state) => state.mode);
   const currentSection = useWizardStore((state) => state.currentSection);
@@ -94,6 +108,14 @@ export function CalculatorPage({ onBack }: CalculatorPageProps) {
   );
   const canAccessSection = useWizardStore((state) => state.canAccessSection);
 
+  // Failed share link notice stays until dismissed
+  const [showShareLinkError, setShowShareLinkError] = useState(
+    shareLinkError !== undefined
+  );
+
+  // Saved scenarios panel visibility
+  const [showScenarios, setShowScenarios] = useState(false);
+
   // Determine sections based on mode
   const sections = useMemo(
     () => (mode === 'advanced' ? ADVANCED_SECTIONS : BASIC_SECTIONS),
@@ -110,6 +132,7 @@ export function CalculatorPage({ onBack }: CalculatorPageProps) {
   const uncertaintyFormRef = useRef<UncertaintyPriorFormHandle>(null);
   const thresholdFormRef = useRef<ThresholdScenarioFormHandle>(null);
   const experimentDesignFormRef = useRef<ExperimentDesignFormHandle>(null);
+  const testCostsFormRef = useRef<TestCostsFormHandle>(null);
 
   // Memoized completed section IDs for progress indicator
   const completedStepIds = useMemo(
@@ -199,7 +222,8 @@ export function CalculatorPage({ onBack }: CalculatorPageProps) {
    * - uncertainty: index 1 in both modes
    * - threshold: index 2 in both modes
    * - test-design: index 3 in Advanced only
-   * - results: index 3 in Basic, index 4 in Advanced
+   * - costs: index 3 in Basic, index 4 in Advanced
+   * - results: index 4 in Basic, index 5 in Advanced
    */
   const handleNext = useCallback(
     async (sectionIndex: number) => {
@@ -237,6 +261,14 @@ export function CalculatorPage({ onBack }: CalculatorPageProps) {
         }
       }
 
+      // Validate costs section before proceeding
+      if (sectionId === 'costs' && testCostsFormRef.current) {
+        const isValid = await testCostsFormRef.current.validate();
+        if (!isValid) {
+          return;
+        }
+      }
+
       advanceToNextSection(sectionIndex);
     },
     [advanceToNextSection, sections]
@@ -278,7 +310,19 @@ export function CalculatorPage({ onBack }: CalculatorPageProps) {
         >
           Should I Test That?
         </button>
-        <ModeToggle />
+        <div className="flex items-center gap-2">
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={() => setShowScenarios((open) => !open)}
+            aria-expanded={showScenarios}
+            aria-controls="saved-scenarios"
+          >
+            <FolderOpen className="size-4" />
+            <span className="hidden sm:inline">Scenarios</span>
+          </Button>
+          <ModeToggle />
+        </div>
       </header>
 
       {/* Sticky Progress Indicator - positioned below header */}
@@ -294,6 +338,19 @@ export function CalculatorPage({ onBack }: CalculatorPageProps) {
        * Design spec: max-width 800px, 24px padding desktop
        */}
       <main className="mx-auto max-w-[800px] space-y-6 p-4 md:p-6">
+        {showShareLinkError && shareLinkError && (
+          <SharedLinkNotice
+            reason={shareLinkError}
+            onDismiss={() => setShowShareLinkError(false)}
+          />
+        )}
+
+        {showScenarios && (
+          <div id="saved-scenarios">
+            <ScenarioLibrary onLoaded={() => setShowScenarios(false)} />
+          </div>
+        )}
+
         {sections.map((section, index) => {
           const isEnabled = canAccessSection(index);
           const isCompleted = completedSections.includes(index);
@@ -333,6 +390,11 @@ export function CalculatorPage({ onBack }: CalculatorPageProps) {
                   <ExperimentDesignForm ref={experimentDesignFormRef} />
                 )}
 
+                {/* Costs section - what running the test costs */}
+                {section.id === 'costs' && (
+                  <TestCostsForm ref={testCostsFormRef} />
+                )}
+
                 {/* Results section - mode-dependent display */}
                 {/* Basic mode: EVPI verdict and supporting cards */}
                 {/* Advanced mode: EVSI verdict with CoD breakdown */}
@@ -0,0 +1,127 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { readScenario, useScenarioStore, type SavedScenario } from './scenarioStore';
+import { initialAdvancedInputs, initialSharedInputs } from '@/types/wizard';
+import { INPUTS_SNAPSHOT_VERSION, type InputsSnapshot } from '@/lib/inputs-snapshot';
+
+const snapshot: InputsSnapshot = {
+  mode: 'basic',
+  inputs: {
+    shared: {
+      ...initialSharedInputs,
+      baselineConversionRate: 0.03,
+      annualVisitors: 500000,
+      valuePerConversion: 50,
+    },
+    advanced: initialAdvancedInputs,
+  },
+};
+
+describe('scenarioStore', () => {
+  beforeEach(() => {
+    localStorage.clear();
+    useScenarioStore.setState({ scenarios: [] });
+  });
+
+  describe('saving', () => {
+    it('saves a named snapshot at the current schema version', () => {
+      const id = useScenarioStore.getState().saveScenario('Checkout redesign', snapshot);
+
+      const [saved] = useScenarioStore.getState().scenarios;
+      expect(saved.id).toBe(id);
+      expect(saved.name).toBe('Checkout redesign');
+      expect(saved.snapshotVersion).toBe(INPUTS_SNAPSHOT_VERSION);
+      expect(saved.snapshot).toEqual(snapshot);
+    });
+
+    it('falls back to a placeholder name when left blank', () => {
+      useScenarioStore.getState().saveScenario('   ', snapshot);
+
+      expect(useScenarioStore.getState().scenarios[0].name).toBe('Untitled scenario');
+    });
+
+    it('lists newest first', () => {
+      const { saveScenario } = useScenarioStore.getState();
+      saveScenario('First', snapshot);
+      saveScenario('Second', snapshot);
+
+      expect(useScenarioStore.getState().scenarios.map((s) => s.name)).toEqual([
+        'Second',
+        'First',
+      ]);
+    });
+
+    it('persists the library to localStorage', () => {
+      useScenarioStore.getState().saveScenario('Persisted', snapshot);
+
+      const stored = JSON.parse(localStorage.getItem('scenario-library')!);
+      expect(stored.state.scenarios[0].name).toBe('Persisted');
+      expect(stored.version).toBe(1);
+    });
+  });
+
+  describe('editing', () => {
+    it('renames and moves the scenario to the top', () => {
+      const { saveScenario, renameScenario } = useScenarioStore.getState();
+      const id = saveScenario('Old name', snapshot);
+      saveScenario('Other', snapshot);
+
+      renameScenario(id, '  New name ');
+
+      const [first] = useScenarioStore.getState().scenarios;
+      expect(first.id).toBe(id);
+      expect(first.name).toBe('New name');
+    });
+
+    it('ignores blank renames', () => {
+      const { saveScenario, renameScenario } = useScenarioStore.getState();
+      const id = saveScenario('Keep me', snapshot);
+
+      renameScenario(id, '');
+
+      expect(useScenarioStore.getState().scenarios[0].name).toBe('Keep me');
+    });
+
+    it('duplicates with a new id and a copy suffix', () => {
+      const { saveScenario, duplicateScenario } = useScenarioStore.getState();
+      const id = saveScenario('Pricing page', snapshot);
+
+      const copyId = duplicateScenario(id);
+
+      const scenarios = useScenarioStore.getState().scenarios;
+      expect(scenarios).toHaveLength(2);
+      expect(copyId).not.toBe(id);
+      expect(scenarios[0].name).toBe('Pricing page (copy)');
+      expect(scenarios[0].snapshot).toEqual(snapshot);
+    });
+
+    it('deletes a scenario', () => {
+      const { saveScenario, deleteScenario } = useScenarioStore.getState();
+      const id = saveScenario('Doomed', snapshot);
+
+      deleteScenario(id);
+
+      expect(useScenarioStore.getState().scenarios).toHaveLength(0);
+    });
+  });
+
+  describe('reading', () => {
+    it('reads a scenario back as a validated snapshot', () => {
+      useScenarioStore.getState().saveScenario('Readable', snapshot);
+
+      const result = readScenario(useScenarioStore.getState().scenarios[0]);
+
+      expect(result).toEqual({ ok: true, snapshot });
+    });
+
+    it('rejects scenarios written by a newer schema', () => {
+      useScenarioStore.getState().saveScenario('Future', snapshot);
+      const saved = useScenarioStore.getState().scenarios[0];
+      const future: SavedScenario = {
+        ...saved,
+        snapshotVersion: INPUTS_SNAPSHOT_VERSION + 1,
+      };
+
+      expect(readScenario(future)).toEqual({ ok: false, reason: 'unsupported-version' });
+    });
+  });
+});
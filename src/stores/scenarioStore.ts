@@ -0,0 +1,172 @@
+/**
+ * Scenario Store
+ *
+ * Zustand store for the saved scenarios library: named snapshots of the
+ * wizard's mode and inputs, kept in localStorage so they survive closing
+ * the tab (unlike wizardStore, which uses sessionStorage).
+ *
+ * Two versions are tracked:
+ * - The library itself (persist `version`/`migrate`) for changes to how
+ *   entries are stored.
+ * - Each entry's snapshotVersion (INPUTS_SNAPSHOT_VERSION when saved) for
+ *   changes to SharedInputs/AdvancedInputs. Entries are read through
+ *   readScenario, which runs the inputs-snapshot migrations.
+ */
+
+import { create } from 'zustand';
+import { persist, createJSONStorage } from 'zustand/middleware';
+import {
+  INPUTS_SNAPSHOT_VERSION,
+  parseInputsSnapshot,
+  type InputsSnapshot,
+  type SnapshotParseResult,
+} from '@/lib/inputs-snapshot';
+
+/**
+ * Current library storage version (see migrate below)
+ */
+const LIBRARY_VERSION = 1;
+
+/**
+ * A named, saved analysis
+ */
+export interface SavedScenario {
+  /** Stable identifier */
+  id: string;
+  /** User-visible name */
+  name: string;
+  /** ISO timestamp of first save */
+  createdAt: string;
+  /** ISO timestamp of last save or rename */
+  updatedAt: string;
+  /** INPUTS_SNAPSHOT_VERSION the snapshot was written with */
+  snapshotVersion: number;
+  /** Mode and inputs as written; read through readScenario */
+  snapshot: InputsSnapshot;
+}
+
+interface ScenarioState {
+  /** Saved scenarios, most recently updated first */
+  scenarios: SavedScenario[];
+}
+
+interface ScenarioActions {
+  /** Save a snapshot under a name; returns the new scenario's id */
+  saveScenario: (name: string, snapshot: InputsSnapshot) => string;
+
+  /** Rename a scenario */
+  renameScenario: (id: string, name: string) => void;
+
+  /** Copy a scenario under "<name> (copy)"; returns the copy's id */
+  duplicateScenario: (id: string) => string | null;
+
+  /** Remove a scenario */
+  deleteScenario: (id: string) => void;
+}
+
+export type ScenarioStore = ScenarioState & ScenarioActions;
+
+/**
+ * Short unique id (no secure-context requirement, unlike crypto.randomUUID)
+ */
+function createScenarioId(): string {
+  return `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 10)}`;
+}
+
+/**
+ * Read a saved scenario's snapshot, migrating it to the current inputs schema
+ *
+ * @param scenario - Entry from the library
+ * @returns Snapshot ready for wizardStore.loadInputs, or why it can't be read
+ */
+export function readScenario(scenario: SavedScenario): SnapshotParseResult {
+  return parseInputsSnapshot(scenario.snapshotVersion, scenario.snapshot);
+}
+
+/**
+ * Apply changes to the entry with `id` and move it to the front
+ */
+function touch(
+  scenarios: SavedScenario[],
+  id: string,
+  changes: Partial<SavedScenario>
+): SavedScenario[] {
+  const target = scenarios.find((scenario) => scenario.id === id);
+  if (!target) {
+    return scenarios;
+  }
+  const updated = { ...target, ...changes, updatedAt: new Date().toISOString() };
+  return [updated, ...scenarios.filter((scenario) => scenario.id !== id)];
+}
+
+/**
+ * Zustand store for the scenario library
+ *
+ * Persistence: the scenarios array is persisted to localStorage.
+ */
+export const useScenarioStore = create<ScenarioStore>()(
+  persist(
+    (set, get) => ({
+      scenarios: [],
+
+      saveScenario: (name: string, snapshot: InputsSnapshot) => {
+        const now = new Date().toISOString();
+        const scenario: SavedScenario = {
+          id: createScenarioId(),
+          name: name.trim() || 'Untitled scenario',
+          createdAt: now,
+          updatedAt: now,
+          snapshotVersion: INPUTS_SNAPSHOT_VERSION,
+          snapshot,
+        };
+        set((state) => ({ scenarios: [scenario, ...state.scenarios] }));
+        return scenario.id;
+      },
+
+      renameScenario: (id: string, name: string) => {
+        const trimmed = name.trim();
+        if (!trimmed) {
+          return;
+        }
+        set((state) => ({ scenarios: touch(state.scenarios, id, { name: trimmed }) }));
+      },
+
+      duplicateScenario: (id: string) => {
+        const source = get().scenarios.find((scenario) => scenario.id === id);
+        if (!source) {
+          return null;
+        }
+        const now = new Date().toISOString();
+        const copy: SavedScenario = {
+          ...source,
+          id: createScenarioId(),
+          name: `${source.name} (copy)`,
+          createdAt: now,
+          updatedAt: now,
+        };
+        set((state) => ({ scenarios: [copy, ...state.scenarios] }));
+        return copy.id;
+      },
+
+      deleteScenario: (id: string) => {
+        set((state) => ({
+          scenarios: state.scenarios.filter((scenario) => scenario.id !== id),
+        }));
+      },
+    }),
+    {
+      name: 'scenario-library',
+      storage: createJSONStorage(() => localStorage),
+      version: LIBRARY_VERSION,
+      /**
+       * Upgrade a library written by an older build.
+       * Version 1 is the first stored format, so there is nothing to do yet;
+       * add a branch per version when the entry shape changes.
+       */
+      migrate: (persistedState) => persistedState as ScenarioState,
+      partialize: (state) => ({
+        scenarios: state.scenarios,
+      }),
+    }
+  )
+);
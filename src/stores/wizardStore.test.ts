@@ -10,16 +10,29 @@ describe('wizardStore', () => {
       mode: 'basic',
       inputs: {
         shared: {
+          metricType: 'binary',
           baselineConversionRate: null,
+          metricMean: null,
+          metricStandardDeviation: null,
+          ratioDenominatorMean: null,
+          ratioDenominatorStandardDeviation: null,
+          ratioCorrelation: null,
           annualVisitors: null,
           visitorUnitLabel: 'visitors',
           valuePerConversion: null,
           priorType: null,
           priorIntervalLow: null,
           priorIntervalHigh: null,
+          priorQuantiles: null,
           thresholdScenario: null,
           thresholdUnit: null,
           thresholdValue: null,
+          horizonDays: 365,
+          annualDiscountRate: 0,
+          engineeringHours: 0,
+          analystHours: 0,
+          hourlyRate: 100,
+          toolingCostPerTest: 0,
         },
         advanced: { ...initialAdvancedInputs },
       },
@@ -180,7 +193,7 @@ describe('wizardStore', () => {
       setMode('advanced');
 
       // completedSections should be cleared because section indices don't align
-      // between Basic (4 sections) and Advanced (5 sections)
+      // between Basic (5 sections) and Advanced (6 sections)
       expect(useWizardStore.getState().completedSections).toEqual([]);
       expect(useWizardStore.getState().currentSection).toBe(0);
     });
@@ -326,4 +339,40 @@ describe('wizardStore', () => {
       expect(state.currentSection).toBe(0);
     });
   });
+
+  describe('loading inputs', () => {
+    it('replaces mode and inputs and unlocks results', () => {
+      const { loadInputs } = useWizardStore.getState();
+      const current = useWizardStore.getState().inputs;
+
+      loadInputs('advanced', {
+        shared: { ...current.shared, baselineConversionRate: 0.04 },
+        advanced: { ...initialAdvancedInputs, testDurationDays: 21 },
+      });
+
+      const state = useWizardStore.getState();
+      expect(state.mode).toBe('advanced');
+      expect(state.inputs.shared.baselineConversionRate).toBe(0.04);
+      expect(state.inputs.advanced.testDurationDays).toBe(21);
+      // Advanced mode defaults the prior shape like setMode does
+      expect(state.inputs.advanced.priorShape).toBe('normal');
+      // Baseline, uncertainty, threshold, test design, costs complete -> results reachable
+      expect(state.canAccessSection(5)).toBe(true);
+    });
+
+    it('drops advanced inputs when loading basic mode', () => {
+      const { loadInputs } = useWizardStore.getState();
+      const current = useWizardStore.getState().inputs;
+
+      loadInputs('basic', {
+        shared: current.shared,
+        advanced: { ...initialAdvancedInputs, testDurationDays: 21 },
+      });
+
+      const state = useWizardStore.getState();
+      expect(state.inputs.advanced.testDurationDays).toBe(null);
+      // Baseline, uncertainty, threshold, costs complete -> results reachable
+      expect(state.canAccessSection(4)).toBe(true);
+    });
+  });
 });
@@ -13,6 +13,7 @@
  * - Shared inputs persist across mode switches
  * - Advanced-only inputs are cleared when switching to Basic mode
  * - Navigation state is NOT persisted (fresh start on page refresh)
+ * - loadInputs replaces everything at once and unlocks Results
  */
 
 import { create } from 'zustand';
@@ -37,6 +38,15 @@ const initialInputs: InputsState = {
   advanced: initialAdvancedInputs,
 };
 
+/**
+ * Number of input sections before Results in each mode (see CalculatorPage)
+ * Loading a full set of inputs marks these complete so Results is reachable.
+ */
+const INPUT_SECTION_COUNT: Record<Mode, number> = {
+  basic: 4,
+  advanced: 5,
+};
+
 /**
  * Zustand store for wizard state management
  *
@@ -58,9 +68,9 @@ export const useWizardStore = create<WizardStore>()(
        * to prevent stale data from affecting calculations
        *
        * Also clears completedSections when switching modes, because:
-       * - Basic mode has 4 sections: baseline(0), uncertainty(1), threshold(2), results(3)
-       * - Advanced mode has 5 sections: baseline(0), uncertainty(1), threshold(2), test-design(3), results(4)
-       * - Section indices don't align between modes (index 3 is results in Basic but test-design in Advanced)
+       * - Basic mode has 5 sections: baseline(0), uncertainty(1), threshold(2), costs(3), results(4)
+       * - Advanced mode has 6 sections: baseline(0), uncertainty(1), threshold(2), test-design(3), costs(4), results(5)
+       * - Section indices don't align between modes (index 3 is costs in Basic but test-design in Advanced)
        * - Preserving completedSections would incorrectly mark test-design as complete when switching B->A
        */
       setMode: (mode: Mode) => {
@@ -79,7 +89,7 @@ export const useWizardStore = create<WizardStore>()(
                 advanced: initialAdvancedInputs,
               },
               // Clear completedSections when switching modes
-              // Section indices don't align between Basic (4 sections) and Advanced (5 sections)
+              // Section indices don't align between Basic (5 sections) and Advanced (6 sections)
               completedSections: [],
               currentSection: 0,
             };
@@ -96,7 +106,7 @@ export const useWizardStore = create<WizardStore>()(
               },
             },
             // Clear completedSections when switching modes
-            // Section indices don't align between Basic (4 sections) and Advanced (5 sections)
+            // Section indices don't align between Basic (5 sections) and Advanced (6 sections)
             completedSections: [],
             currentSection: 0,
           };
@@ -179,6 +189,33 @@ export const useWizardStore = create<WizardStore>()(
         return true;
       },
 
+      /**
+       * Replace mode and inputs in one step
+       * Used when restoring a share link or a saved scenario. Input sections
+       * are marked complete so the user lands with Results unlocked; the
+       * forms re-sync from the store and still validate on Continue.
+       */
+      loadInputs: (mode: Mode, inputs: InputsState) => {
+        const advanced =
+          mode === 'basic'
+            ? initialAdvancedInputs
+            : {
+                ...inputs.advanced,
+                // Same default as setMode('advanced')
+                priorShape: inputs.advanced.priorShape ?? 'normal',
+              };
+
+        set({
+          mode,
+          inputs: { shared: inputs.shared, advanced },
+          currentSection: 0,
+          completedSections: Array.from(
+            { length: INPUT_SECTION_COUNT[mode] },
+            (_, index) => index
+          ),
+        });
+      },
+
       /**
        * Reset all wizard state to initial values
        * Used when user wants to start over
@@ -204,6 +241,20 @@ export const useWizardStore = create<WizardStore>()(
         inputs: state.inputs,
         mode: state.mode,
       }),
+      /**
+       * Inputs added since the session was stored take their initial values
+       */
+      merge: (persisted, current) => {
+        const stored = persisted as Partial<Pick<WizardStore, 'mode' | 'inputs'>> | undefined;
+        return {
+          ...current,
+          ...stored,
+          inputs: {
+            shared: { ...current.inputs.shared, ...stored?.inputs?.shared },
+            advanced: { ...current.inputs.advanced, ...stored?.inputs?.advanced },
+          },
+        };
+      },
     }
   )
 );
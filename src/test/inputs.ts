@@ -0,0 +1,40 @@
+/**
+ * Wizard Inputs for Tests
+ *
+ * Complete Advanced-mode inputs shared by the design sweep and simulation
+ * tests: a 5% baseline, 1,000,000 visitors a year at $100 a conversion, a
+ * Normal prior from the default interval, and a 14-day test at 2,000
+ * visitors a day. Tests override only the fields they exercise.
+ */
+
+import {
+  initialAdvancedInputs,
+  initialSharedInputs,
+  type AdvancedInputs,
+  type InputsState,
+} from '@/types/wizard';
+
+/**
+ * Create complete Advanced-mode inputs
+ *
+ * @param advanced - Advanced inputs to override
+ * @returns Inputs every Advanced feature can derive from
+ */
+export function createTestInputs(advanced: Partial<AdvancedInputs> = {}): InputsState {
+  return {
+    shared: {
+      ...initialSharedInputs,
+      baselineConversionRate: 0.05,
+      annualVisitors: 1000000,
+      valuePerConversion: 100,
+      thresholdScenario: 'any-positive',
+    },
+    advanced: {
+      ...initialAdvancedInputs,
+      priorShape: 'normal',
+      testDurationDays: 14,
+      dailyTraffic: 2000,
+      ...advanced,
+    },
+  };
+}
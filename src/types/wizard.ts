@@ -22,21 +22,53 @@ export type SectionId =
   | 'prior-selection'
   | 'threshold'
   | 'test-design' // Advanced only
-  | 'costs' // Advanced only
+  | 'costs'
   | 'results';
 
+/**
+ * Metric the test reads out
+ * - binary: a conversion rate
+ * - continuous: a mean per visitor (e.g., revenue per visitor)
+ * - ratio: numerator / denominator per visitor (e.g., average order value)
+ */
+export type MetricType = 'binary' | 'continuous' | 'ratio';
+
+/**
+ * One elicited belief about the lift: a `probability` chance (decimal) that
+ * the lift is below `liftPercent` (percentage form)
+ */
+export interface PriorQuantile {
+  probability: number;
+  liftPercent: number;
+}
+
 /**
  * Shared inputs that persist across mode switches
  * These values are used in both Basic and Advanced calculations
  */
 export interface SharedInputs {
-  /** Baseline conversion rate as a decimal (e.g., 0.05 for 5%) */
+  /** Metric the test reads out (defaults to a conversion rate) */
+  metricType: MetricType;
+  /** Baseline conversion rate as a decimal (e.g., 0.05 for 5%); binary metrics */
   baselineConversionRate: number | null;
+  /** Baseline mean per visitor (continuous) or numerator mean per visitor (ratio) */
+  metricMean: number | null;
+  /** Standard deviation per visitor of the mean (continuous) or numerator (ratio) */
+  metricStandardDeviation: number | null;
+  /** Denominator mean per visitor (ratio metrics, e.g., orders per visitor) */
+  ratioDenominatorMean: number | null;
+  /** Denominator standard deviation per visitor (ratio metrics) */
+  ratioDenominatorStandardDeviation: number | null;
+  /** Correlation of numerator and denominator per visitor (ratio metrics) */
+  ratioCorrelation: number | null;
   /** Annual visitors/traffic */
   annualVisitors: number | null;
   /** User-editable label for visitors (visitors/sessions/leads/etc.) */
   visitorUnitLabel: string;
-  /** Revenue or value per conversion in dollars */
+  /**
+   * Revenue or value per conversion in dollars; for continuous and ratio
+   * metrics, the value of one unit of the (numerator) metric
+   */
   valuePerConversion: number | null;
   /** Prior type selection: 'default' uses N(0, 0.05), 'custom' uses interval bounds */
   priorType: 'default' | 'custom' | null;
@@ -44,12 +76,34 @@ export interface SharedInputs {
   priorIntervalLow: number | null;
   /** Upper bound of 90% credible interval (percentage form, e.g., 10 for 10%) */
   priorIntervalHigh: number | null;
+  /**
+   * Quantiles the prior was fitted to, or null when the interval was entered
+   * directly. The fit is written back to the interval (and shape presets),
+   * which the calculations read; the points are kept to show the fit
+   */
+  priorQuantiles: PriorQuantile[] | null;
   /** Threshold scenario: 'any-positive' | 'minimum-lift' | 'accept-loss' */
   thresholdScenario: 'any-positive' | 'minimum-lift' | 'accept-loss' | null;
   /** Threshold unit when applicable: 'dollars' | 'lift' */
   thresholdUnit: 'dollars' | 'lift' | null;
   /** Threshold value in the selected unit (can be negative for accept-loss scenario) */
   thresholdValue: number | null;
+  /** Days the decision pays off for, from the day the test starts (default 365) */
+  horizonDays: number;
+  /** Annual discount rate as a decimal (e.g., 0.1 for 10%; default 0) */
+  annualDiscountRate: number;
+  /**
+   * Engineering hours to build and launch the test. The cost fields are
+   * entered in the Advanced Costs step but kept across mode switches, so
+   * Basic results can weigh them against EVPI; all zero means no cost
+   */
+  engineeringHours: number;
+  /** Analyst hours to design, monitor and read out the test */
+  analystHours: number;
+  /** Loaded cost of an hour of engineering or analyst time, in dollars */
+  hourlyRate: number;
+  /** Experimentation tooling cost attributed to this test, in dollars */
+  toolingCostPerTest: number;
 }
 
 /**
@@ -58,8 +112,11 @@ export interface SharedInputs {
  *
  * Per 05-CONTEXT.md:
  * Prior shape inputs:
- * - priorShape: 'normal' (default when switching to Advanced), 'student-t', or 'uniform'
+ * - priorShape: 'normal' (default when switching to Advanced), 'student-t', 'uniform',
+ *   'mixture', 'log-normal', or 'skew-normal'
  * - studentTDf: Degrees of freedom for Student-t (3=Heavy, 5=Moderate, 10=Near-normal)
+ * - mixtureSpikeWeight: Mixture only, the chance the change does nothing at all
+ * - skewNormalAlpha: Skew-normal shape (2=Slight, 4=Moderate, 10=Strong right skew)
  *
  * Experiment design inputs:
  * - testDurationDays: required, user must enter
@@ -68,12 +125,37 @@ export interface SharedInputs {
  * - eligibilityFraction: 1.0 default (100% eligible)
  * - conversionLatencyDays: 0 default (days from exposure to expected conversion)
  * - decisionLatencyDays: 0 default (days after test ends before shipping)
+ *
+ * Multi-variant (A/B/n) inputs:
+ * - variantCount: 1 default (a standard A/B test)
+ * - variantPriorMode / variantPriorIntervals: the extra variants' priors
+ *
+ * Early stopping (group-sequential) inputs:
+ * - interimLookDays: [] default (a fixed-horizon test)
+ * - stoppingRule and its thresholds
+ *
+ * Bandit comparison inputs:
+ * - banditPolicy: 'thompson' default; banditEpsilon for epsilon-greedy
+ *
+ * Novelty effect inputs:
+ * - effectDynamicsType: 'constant' default (no novelty effect)
+ * - noveltyLift / noveltyMultiplier and noveltyHalfLifeDays
+ *
+ * Simulation inputs:
+ * - monteCarloSeed: fixed default, so the same inputs always give the same numbers
  */
 export interface AdvancedInputs {
-  /** Prior distribution shape (normal, student-t, or uniform) - defaults to 'normal' in Advanced mode */
-  priorShape: 'normal' | 'student-t' | 'uniform' | null;
+  /** Prior distribution shape (normal, student-t, uniform, spike-and-slab mixture, or skewed) - defaults to 'normal' in Advanced mode */
+  priorShape: 'normal' | 'student-t' | 'uniform' | 'mixture' | 'log-normal' | 'skew-normal' | null;
   /** Degrees of freedom for Student-t distribution (3=Heavy, 5=Moderate, 10=Near-normal) */
   studentTDf: 3 | 5 | 10 | null;
+  /**
+   * Mixture prior: probability the true lift is exactly zero (the spike),
+   * in [0, 1). The rest follows the uncertainty interval's Normal (the slab).
+   */
+  mixtureSpikeWeight: number;
+  /** Skew-normal shape alpha (2=Slight, 4=Moderate, 10=Strong right skew) */
+  skewNormalAlpha: 2 | 4 | 10 | null;
   /** Test duration in days */
   testDurationDays: number | null;
   /** Daily traffic eligible for the experiment */
@@ -86,8 +168,74 @@ export interface AdvancedInputs {
   conversionLatencyDays: number | null;
   /** Days after test ends before you can ship the decision */
   decisionLatencyDays: number | null;
+  /** Number of variants tested against the control (trafficSplit is shared among them) */
+  variantCount: number;
+  /**
+   * Priors of variants 2..k: 'shared' reuses the main prior for every
+   * variant; 'individual' uses variantPriorIntervals
+   */
+  variantPriorMode: VariantPriorMode;
+  /** 90% intervals for variants 2, 3, ... (percent lift; variant 1 uses the main prior) */
+  variantPriorIntervals: VariantPriorInterval[];
+  /** Test days of interim looks that may stop the test early (empty: fixed horizon) */
+  interimLookDays: number[];
+  /** Stopping rule applied at the interim looks */
+  stoppingRule: StoppingRuleType;
+  /** Bayesian rule: P(lift clears threshold) that stops to ship (decimal) */
+  efficacyProbability: number;
+  /** Bayesian rule: P(lift clears threshold) that stops without shipping (decimal; 0 = never) */
+  futilityProbability: number;
+  /** O'Brien-Fleming rule: critical z at the final look */
+  criticalZ: number;
+  /** Traffic split policy of the bandit compared against the A/B test */
+  banditPolicy: BanditPolicyType;
+  /** Epsilon-greedy bandit: share of traffic spent exploring (decimal) */
+  banditEpsilon: number;
+  /** How the true lift changes after launch ('constant': no novelty effect) */
+  effectDynamicsType: EffectDynamicsType;
+  /** Decay: extra lift at launch on top of the long-run lift (decimal) */
+  noveltyLift: number;
+  /** Novelty multiplier: extra lift at launch as a share of the long-run lift */
+  noveltyMultiplier: number;
+  /** Days for the novelty effect to halve */
+  noveltyHalfLifeDays: number;
+  /** Seed for every Monte Carlo run (32-bit unsigned integer) */
+  monteCarloSeed: number;
 }
 
+/**
+ * How the priors of an A/B/n test's extra variants are set
+ */
+export type VariantPriorMode = 'shared' | 'individual';
+
+/**
+ * A variant's 90% prior interval, in percent lift (like priorIntervalLow/High)
+ */
+export interface VariantPriorInterval {
+  low: number;
+  high: number;
+}
+
+/**
+ * Interim stopping rule: posterior probability or O'Brien-Fleming-style z bounds
+ */
+export type StoppingRuleType = 'bayesian' | 'obrien-fleming';
+
+/**
+ * Bandit traffic split policy: Thompson sampling or epsilon-greedy
+ */
+export type BanditPolicyType = 'thompson' | 'epsilon-greedy';
+
+/**
+ * Novelty effect model: none, a decaying bump, or a decaying multiplier
+ */
+export type EffectDynamicsType = 'constant' | 'decay' | 'novelty-multiplier';
+
+/**
+ * Most variants an A/B/n test can compare
+ */
+export const MAX_VARIANT_COUNT = 4;
+
 /**
  * Combined inputs state containing both shared and advanced-only values
  */
@@ -111,37 +259,79 @@ export interface NavigationState {
  * Initial values for shared inputs
  */
 export const initialSharedInputs: SharedInputs = {
+  metricType: 'binary',
   baselineConversionRate: null,
+  metricMean: null,
+  metricStandardDeviation: null,
+  ratioDenominatorMean: null,
+  ratioDenominatorStandardDeviation: null,
+  ratioCorrelation: null,
   annualVisitors: null,
   visitorUnitLabel: 'visitors',
   valuePerConversion: null,
   priorType: null,
   priorIntervalLow: null,
   priorIntervalHigh: null,
+  priorQuantiles: null,
   thresholdScenario: null,
   thresholdUnit: null,
   thresholdValue: null,
+  horizonDays: 365,
+  annualDiscountRate: 0,
+  engineeringHours: 0,
+  analystHours: 0,
+  hourlyRate: 100,
+  toolingCostPerTest: 0,
 };
 
+/**
+ * Default Monte Carlo seed (any fixed value works; changing it re-rolls the
+ * simulation)
+ */
+export const DEFAULT_MONTE_CARLO_SEED = 20240601;
+
 /**
  * Initial values for advanced-only inputs
  * Per 05-CONTEXT.md defaults:
  * - priorShape: null (set to 'normal' when switching Basic -> Advanced)
  * - studentTDf: null (only relevant when priorShape is 'student-t')
+ * - mixtureSpikeWeight: 0.5 (only relevant when priorShape is 'mixture')
+ * - skewNormalAlpha: null (only relevant when priorShape is 'skew-normal')
  * - trafficSplit: 0.5 (50/50 default, pre-filled)
  * - eligibilityFraction: 1.0 (100% default, pre-filled)
  * - latency fields: 0 (default, pre-filled)
+ * - variantCount: 1 (a standard A/B test), extra variants sharing the main prior
+ * - interimLookDays: [] (no early stopping); Bayesian rule at 95% / 5%
+ * - banditPolicy: 'thompson' (epsilon-greedy explores 10%)
  * - duration and daily traffic: null (user must enter)
+ * - monteCarloSeed: DEFAULT_MONTE_CARLO_SEED
  */
 export const initialAdvancedInputs: AdvancedInputs = {
   priorShape: null, // Set to 'normal' when switching to Advanced mode
   studentTDf: null, // Only used when priorShape is 'student-t'
+  mixtureSpikeWeight: 0.5, // Only used when priorShape is 'mixture'
+  skewNormalAlpha: null, // Only used when priorShape is 'skew-normal'
   testDurationDays: null,
   dailyTraffic: null,
   trafficSplit: 0.5, // Default to 50/50 split
   eligibilityFraction: 1.0, // Default to 100% eligible
   conversionLatencyDays: 0, // Default to 0 days
   decisionLatencyDays: 0, // Default to 0 days
+  variantCount: 1,
+  variantPriorMode: 'shared',
+  variantPriorIntervals: [],
+  interimLookDays: [],
+  stoppingRule: 'bayesian',
+  efficacyProbability: 0.95,
+  futilityProbability: 0.05,
+  criticalZ: 1.96,
+  banditPolicy: 'thompson',
+  banditEpsilon: 0.1,
+  effectDynamicsType: 'constant',
+  noveltyLift: 0.02,
+  noveltyMultiplier: 0.5,
+  noveltyHalfLifeDays: 7,
+  monteCarloSeed: DEFAULT_MONTE_CARLO_SEED,
 };
 
 /**
@@ -187,6 +377,9 @@ export interface WizardActions {
   /** Check if user can access a specific section */
   canAccessSection: (section: number) => boolean;
 
+  /** Replace mode and all inputs at once (share links, saved scenarios) */
+  loadInputs: (mode: Mode, inputs: InputsState) => void;
+
   /** Reset all wizard state to initial values */
   resetWizard: () => void;
 }
@@ -5,7 +5,8 @@
  * Type declarations for jstat library
  *
  * jStat doesn't have @types/jstat package, so we declare the subset we use.
- * We use Student-t distribution functions for Advanced mode prior shapes.
+ * We use Student-t distribution functions for Advanced mode prior shapes,
+ * and the Normal quantile for quasi-Monte Carlo sampling.
  */
 declare module 'jstat' {
   interface JStatStudentt {
@@ -17,8 +18,14 @@ declare module 'jstat' {
     inv(p: number, dof: number): number;
   }
 
+  interface JStatNormal {
+    /** Normal inverse CDF (quantile function) */
+    inv(p: number, mean: number, std: number): number;
+  }
+
   interface JStatStatic {
     studentt: JStatStudentt;
+    normal: JStatNormal;
   }
 
   const jStat: JStatStatic;